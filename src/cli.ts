@@ -0,0 +1,792 @@
+#!/usr/bin/env node
+// media-decode: probes and dumps MPEG transport streams, MPEG program streams and JPEG files given by path, or on
+// stdin with - or no path, and extracts the captions of transport streams. Output is human-readable, or one JSON object per line with --ndjson.
+
+import { once } from 'node:events';
+import { open } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { ARIBCaptionDecoder } from './formats/arib/caption.js';
+import { VideoCodec } from './formats/captions/cc_data.js';
+import { ClosedCaptionDecoder } from './formats/captions/closed_captions.js';
+import { Cue, to_SRT, to_WebVTT } from './formats/captions/cues.js';
+import { ByteStreamSplitter } from './formats/h264/byte_stream.js';
+import { system_clock_frequency, ProgramClock, TimestampUnwrapper } from './formats/mpeg2/clock.js';
+import { PESAssembler, PESPacket, demux_PES, parse_PES_stream } from './formats/mpeg2/pes.js';
+import { parse_program_stream } from './formats/mpeg2/program_stream.js';
+import {
+  PIDAssignment, SectionAssembler, TSProgramMapSection, TableID, parse_TS_program_map_section,
+  parse_program_association_section, skip_section,
+} from './formats/mpeg2/psi.js';
+import { SyntaxContext } from './formats/mpeg2/syntax.js';
+import {
+  MalformedDataError, PacketSize, ParseOptions, TransportPacket, detect_packet_size,
+  parse_transport_stream,
+} from './formats/mpeg2/transport_stream.js';
+import { VideoStructure, VideoStructureSummary, parse_video_unit } from './formats/mpeg2/video.js';
+import { read_JPEG_metadata } from './formats/jpeg/metadata.js';
+import { UnrecognizedFormatError } from './open.js';
+import { ByteReader, FileHandleSource } from './reader.js';
+import { Format, SniffResult, sniff } from './sniff.js';
+
+class UsageError extends Error { }
+
+const usage = `Usage: media-decode <command> [options] [file ...]
+
+Reads each file, or stdin where the file is - or none is given.
+
+Commands:
+  probe                 Summary of the programs, streams, duration and bitrate, or the JPEG frame, with the
+                        sequence, GOP structure and field order of MPEG-1 and MPEG-2 video
+  packets               Transport stream packets
+  pes                   PES packet headers
+  extract               Writes the payload of one PID or stream_id
+  captions              CTA-608/708 captions of the video and ARIB STD-B24 captions of a transport stream
+
+Options:
+  --ndjson              One JSON object per line
+  --format <format>     mpegts, mpegps, pes, jpeg, h264, h265 or adts, rather than detecting it
+  --lenient             Skips what cannot be parsed, with a warning on stderr
+  --pid <PID>           Only this PID, decimal or 0x hexadecimal; may be repeated
+  --stream-id <id>      Only this stream_id; may be repeated
+  --pusi, --pcr, --random-access, --discontinuity, --error, --scrambled
+                        packets: only the packets with all these flags set
+  --payload             extract: the transport packet payloads rather than the PES packet data
+  -o, --output <file>   extract, captions --subtitles: the file to write rather than stdout
+  --track <track>       captions: only this track, such as CC1, SERVICE1 or jpn
+  --subtitles <format>  captions: vtt or srt of one track, the first with a cue unless --track is given
+  -h, --help            This help`;
+
+const formats: Format[] = ['mpegts', 'mpegps', 'pes', 'jpeg', 'h264', 'h265', 'adts'];
+
+type Options = {
+  ndjson: boolean;
+  format?: Format;
+  parse_options: ParseOptions;
+  PIDs?: Set<number>;
+  stream_ids?: Set<number>;
+  flags: {
+    pusi: boolean;
+    pcr: boolean;
+    random_access: boolean;
+    discontinuity: boolean;
+    error: boolean;
+    scrambled: boolean;
+  };
+  payload: boolean;
+  output?: string;
+  track?: string;
+  subtitles?: 'vtt' | 'srt';
+};
+
+type Input = { name: string; b: ByteReader; close(): Promise<void> };
+
+async function open_input(path: string): Promise<Input> {
+  if (path === '-') {
+    return { name: 'stdin', b: new ByteReader(process.stdin[Symbol.asyncIterator]()), close: async () => undefined };
+  }
+  const handle = await open(path, 'r');
+  return { name: path, b: new ByteReader(new FileHandleSource(handle)), close: () => handle.close() };
+}
+
+// Writes to stdout, waiting for it to drain
+async function write_stdout(data: string | Uint8Array) {
+  if (!process.stdout.write(data)) await once(process.stdout, 'drain');
+}
+
+function print(line: string) {
+  return write_stdout(line + '\n');
+}
+
+// Uint8Arrays are left out of the JSON output, of which the lengths are given as fields of their own where useful.
+// bigints, for fields wider than 53 bits, are given as decimal strings.
+function json(value: object) {
+  return JSON.stringify(value, (_, v) => v instanceof Uint8Array ? undefined : typeof v === 'bigint' ? v.toString() : v);
+}
+
+function hex(value: number, digits = 4) {
+  return '0x' + value.toString(16).padStart(digits, '0');
+}
+
+function seconds(value: number | undefined) {
+  return value === undefined ? '-' : value.toFixed(6);
+}
+
+function parse_number(name: string, value: string, max: number) {
+  const n = Number(value);
+  if (value.trim() === '' || !Number.isInteger(n) || n < 0 || n > max) throw new UsageError(`Invalid ${name}: ${value}`);
+  return n;
+}
+
+// Table 2-34 stream types with the name of the codec they carry, as in the PMT or the program stream map
+const codecs = new Map<number, [string, 'video' | 'audio' | 'data']>([
+  [0x01, ['mpeg1video', 'video']],
+  [0x02, ['mpeg2video', 'video']],
+  [0x03, ['mp2', 'audio']],
+  [0x04, ['mp2', 'audio']],
+  [0x05, ['private_sections', 'data']],
+  [0x06, ['private_data', 'data']],
+  [0x0F, ['aac', 'audio']],
+  [0x10, ['mpeg4', 'video']],
+  [0x11, ['aac_latm', 'audio']],
+  [0x15, ['metadata', 'data']],
+  [0x1B, ['h264', 'video']],
+  [0x1C, ['aac', 'audio']],
+  [0x24, ['hevc', 'video']],
+  [0x33, ['vvc', 'video']],
+  // ATSC A/52 Annex A
+  [0x81, ['ac3', 'audio']],
+  [0x87, ['eac3', 'audio']],
+  // ANSI/SCTE 35
+  [0x86, ['scte_35', 'data']],
+]);
+
+type Codec = { codec_name?: string; codec_type?: 'video' | 'audio' | 'data' };
+
+function codec(stream_type: number): Codec {
+  const entry = codecs.get(stream_type);
+  return entry !== undefined ? { codec_name: entry[0], codec_type: entry[1] } : {};
+}
+
+type TimeRange = { start_time?: number; duration?: number };
+
+// The first and last PTS of a stream, unwrapped, in 90 kHz units
+class TimestampRange {
+  private unwrapper = new TimestampUnwrapper();
+  first?: number;
+  last?: number;
+
+  push(PTS: number | undefined) {
+    if (PTS === undefined) return;
+    const value = this.unwrapper.unwrap(PTS);
+    this.first = this.first === undefined ? value : Math.min(this.first, value);
+    this.last = this.last === undefined ? value : Math.max(this.last, value);
+  }
+
+  result(): TimeRange {
+    if (this.first === undefined || this.last === undefined) return {};
+    return { start_time: this.first / 90000, duration: (this.last - this.first) / 90000 };
+  }
+}
+
+async function detect_format(b: ByteReader) {
+  const [result] = await sniff(b);
+  if (result === undefined || result.confidence < 0.5) throw new UnrecognizedFormatError('Unrecognized format');
+  return result;
+}
+
+async function detect_packet_size_of(b: ByteReader) {
+  return detect_packet_size(await b.peek_bytes(6 * 204))?.packet_size ?? 188;
+}
+
+// The transport packets of a stream with the index and byte offset of each, from the position of the reader after the
+// packet as the packets dropped in lenient mode are not counted in bytes_skipped. The index is that of the packet_index
+// of the warnings.
+async function* transport_packets(b: ByteReader, packet_size: PacketSize, options: Options) {
+  const start = b.tell();
+  let bytes_skipped = 0;
+  for await (const packet of parse_transport_stream(b, packet_size, options.parse_options)) {
+    bytes_skipped += packet.bytes_skipped ?? 0;
+    const byte_offset = b.tell() - packet_size;
+    yield { index: (byte_offset - start - bytes_skipped) / packet_size, byte_offset, packet };
+  }
+}
+
+// The current PMTs of a transport stream, from the PAT and the sections of the PIDs it gives. Sections that cannot be
+// parsed are skipped, with a warning in lenient mode.
+class ProgramMaps {
+  program_map_PIDs = new Map<number, number>(); // PID -> program_number
+  private sections = new SectionAssembler((PID) => PID === PIDAssignment.program_association_table || this.program_map_PIDs.has(PID));
+
+  constructor(private options: ParseOptions = {}) { }
+
+  // The PMTs completed by a packet
+  push(packet: TransportPacket) {
+    const PMTs: TSProgramMapSection[] = [];
+    for (const section of this.sections.push(packet)) {
+      try {
+        if (section[0] === TableID.program_association_section && packet.PID === PIDAssignment.program_association_table) {
+          const PAT = parse_program_association_section(section, this.options, packet.PID);
+          if (PAT.current_next_indicator !== 1) continue;
+          for (const program of PAT.programs) {
+            if ('program_map_PID' in program) this.program_map_PIDs.set(program.program_map_PID, program.program_number);
+          }
+        } else if (section[0] === TableID.TS_program_map_section) {
+          const PMT = parse_TS_program_map_section(section, undefined, this.options, packet.PID);
+          if (PMT.current_next_indicator === 1) PMTs.push(PMT);
+        }
+      } catch (e) {
+        skip_section(e, this.options, packet.PID);
+      }
+    }
+    return PMTs;
+  }
+}
+
+// MPEG-1 and MPEG-2 video, of which the headers are summarized
+const video_stream_types = new Set([0x01, 0x02]);
+
+// The sequence, GOP structure and field order of a video stream, from the PES_packet_data of its PES packets
+class VideoProbe {
+  private splitter = new ByteStreamSplitter();
+  private structure = new VideoStructure();
+
+  constructor(private context: SyntaxContext) { }
+
+  push(PES_packet: PESPacket) {
+    if (PES_packet.PES_packet_data === undefined) return;
+    for (const unit of this.splitter.push(PES_packet.PES_packet_data)) this.parse(unit);
+  }
+
+  result(): { video?: VideoStructureSummary } {
+    for (const unit of this.splitter.flush()) this.parse(unit);
+    const video = this.structure.result();
+    return video !== undefined ? { video } : {};
+  }
+
+  private parse(unit: Uint8Array) {
+    try {
+      this.structure.push(parse_video_unit(unit));
+    } catch (e) {
+      this.context.recover(e, 'video');
+    }
+  }
+}
+
+async function probe_transport_stream(b: ByteReader, options: Options) {
+  const packet_size = await detect_packet_size_of(b);
+  const PIDs = new Map<number, { packets: number; PTS: TimestampRange }>();
+  const videos = new Map<number, VideoProbe>();
+  const program_maps = new ProgramMaps(options.parse_options);
+  const PMTs = new Map<number, TSProgramMapSection>(); // program_number -> PMT
+  const clocks = new Map<number, ProgramClock>(); // PCR_PID -> clock
+  const elementary_PIDs = new Set<number>();
+  const assembler = new PESAssembler((PID) => elementary_PIDs.has(PID), options.parse_options);
+  const push_PES = (packets: { PID: number; PES_packet: PESPacket }[]) => {
+    for (const { PID, PES_packet } of packets) {
+      PIDs.get(PID)?.PTS.push(PES_packet.PTS);
+      videos.get(PID)?.push(PES_packet);
+    }
+  };
+  let packets = 0;
+  let bytes = 0;
+  for await (const { byte_offset, packet } of transport_packets(b, packet_size, options)) {
+    packets++;
+    bytes = byte_offset + packet_size;
+    let state = PIDs.get(packet.PID);
+    if (state === undefined) {
+      state = { packets: 0, PTS: new TimestampRange() };
+      PIDs.set(packet.PID, state);
+    }
+    state.packets++;
+    clocks.get(packet.PID)?.push_packet(packet, byte_offset);
+    for (const PMT of program_maps.push(packet)) {
+      PMTs.set(PMT.program_number, PMT);
+      if (!clocks.has(PMT.PCR_PID) && PMT.PCR_PID !== PIDAssignment.null_packet) clocks.set(PMT.PCR_PID, new ProgramClock());
+      for (const { elementary_PID, stream_type } of PMT.streams) {
+        elementary_PIDs.add(elementary_PID);
+        if (video_stream_types.has(stream_type) && !videos.has(elementary_PID)) {
+          videos.set(elementary_PID, new VideoProbe(new SyntaxContext(options.parse_options, 'ISO/IEC 13818-2 6.2', elementary_PID)));
+        }
+      }
+    }
+    push_PES(await assembler.push(packet));
+  }
+  push_PES(await assembler.flush());
+
+  // the clock of the first program, or else the extent of the PTSs of all the streams
+  let duration = [...PMTs.values()]
+    .map((PMT) => clocks.get(PMT.PCR_PID)?.time_at(bytes))
+    .find((duration) => duration !== undefined);
+  if (duration === undefined) {
+    const ranges = [...PIDs.values()].map((state) => state.PTS.result()).filter((range) => range.start_time !== undefined);
+    if (ranges.length > 0) {
+      const start = Math.min(...ranges.map((range) => range.start_time!));
+      const end = Math.max(...ranges.map((range) => range.start_time! + range.duration!));
+      duration = end - start;
+    }
+  }
+  const rate = (n: number) => duration ? { bit_rate: Math.round(n * 8 / duration) } : {};
+  const PID_info = (PID: number) => {
+    const state = PIDs.get(PID);
+    return {
+      packets: state?.packets ?? 0,
+      ...rate((state?.packets ?? 0) * packet_size),
+      ...state?.PTS.result(),
+    };
+  };
+  return {
+    format: 'mpegts' as const,
+    packet_size,
+    size: bytes,
+    packets,
+    ...(duration !== undefined ? { duration } : {}),
+    ...rate(bytes),
+    programs: [...PMTs.values()].sort((a, b) => a.program_number - b.program_number).map((PMT) => ({
+      program_number: PMT.program_number,
+      PMT_PID: [...program_maps.program_map_PIDs].find(([, program_number]) => program_number === PMT.program_number)?.[0],
+      PCR_PID: PMT.PCR_PID,
+      streams: PMT.streams.map((stream) => ({
+        PID: stream.elementary_PID,
+        stream_type: stream.stream_type,
+        ...codec(stream.stream_type),
+        ...PID_info(stream.elementary_PID),
+        ...videos.get(stream.elementary_PID)?.result(),
+      })),
+    })),
+    PIDs: [...PIDs.keys()].sort((a, b) => a - b).map((PID) => ({ PID, ...PID_info(PID) })),
+  };
+}
+
+type ProgramStreamStream = { stream_id: number; stream_type?: number } & Codec & TimeRange & { PES_packets: number; bytes: number }
+  & { video?: VideoStructureSummary };
+
+// Table 2-22 stream_id of ISO/IEC 13818-2, ISO/IEC 11172-2 and other video streams
+function is_video_stream_id(stream_id: number) {
+  return (stream_id & 0xF0) === 0xE0;
+}
+
+async function probe_program_stream(b: ByteReader, options: Options) {
+  const streams = new Map<number, { PES_packets: number; bytes: number; PTS: TimestampRange; video?: VideoProbe }>();
+  const stream_types = new Map<number, number>();
+  const SCR = new TimestampRange();
+  let packs = 0;
+  let program_mux_rate: number | undefined;
+  for await (const unit of parse_program_stream(b, options.parse_options)) {
+    if (unit.pack_header !== undefined) {
+      packs++;
+      SCR.push(unit.pack_header.system_clock_reference_base);
+      program_mux_rate ??= unit.pack_header.program_mux_rate;
+    } else if (unit.program_stream_map !== undefined) {
+      for (const stream of unit.program_stream_map.streams) stream_types.set(stream.elementary_stream_id, stream.stream_type);
+    } else if (unit.PES_packet !== undefined) {
+      const { stream_id, PES_packet_data, PTS } = unit.PES_packet;
+      let state = streams.get(stream_id);
+      if (state === undefined) {
+        state = { PES_packets: 0, bytes: 0, PTS: new TimestampRange() };
+        if (is_video_stream_id(stream_id)) state.video = new VideoProbe(new SyntaxContext(options.parse_options, 'ISO/IEC 13818-2 6.2'));
+        streams.set(stream_id, state);
+      }
+      state.PES_packets++;
+      state.bytes += PES_packet_data?.length ?? 0;
+      state.PTS.push(PTS);
+      state.video?.push(unit.PES_packet);
+    }
+  }
+  const size = b.tell();
+  const { duration } = SCR.result();
+  return {
+    format: 'mpegps' as const,
+    size,
+    packs,
+    ...(duration !== undefined ? { duration } : {}),
+    // 2.5.3.4 program_mux_rate is in units of 50 bytes per second
+    ...(program_mux_rate !== undefined ? { mux_rate: program_mux_rate * 50 * 8 } : {}),
+    ...(duration ? { bit_rate: Math.round(size * 8 / duration) } : {}),
+    streams: [...streams].sort(([a], [b]) => a - b).map(([stream_id, state]): ProgramStreamStream => {
+      const stream_type = stream_types.get(stream_id);
+      return {
+        stream_id,
+        ...(stream_type !== undefined ? { stream_type, ...codec(stream_type) } : {}),
+        PES_packets: state.PES_packets,
+        bytes: state.bytes,
+        ...state.PTS.result(),
+        // of a video stream that is not of another codec by the program stream map
+        ...(stream_type === undefined || video_stream_types.has(stream_type) ? state.video?.result() : {}),
+      };
+    }),
+  };
+}
+
+// The common names of the sampling factors of Y, Cb and Cr
+function chroma_subsampling(components: { H: number; V: number }[]) {
+  if (components.length !== 3 || components[1].H !== 1 || components[1].V !== 1
+    || components[2].H !== 1 || components[2].V !== 1) return undefined;
+  return ({ '1x1': '4:4:4', '2x1': '4:2:2', '2x2': '4:2:0', '4x1': '4:1:1', '1x2': '4:4:0' } as Record<string, string>)[
+    `${components[0].H}x${components[0].V}`];
+}
+
+async function probe_JPEG(b: ByteReader) {
+  const metadata = await read_JPEG_metadata(b);
+  const frame = metadata.frame;
+  if (frame === undefined) throw new MalformedDataError('No frame header');
+  const subsampling = chroma_subsampling(frame.components);
+  return {
+    format: 'jpeg' as const,
+    width: frame.X,
+    height: frame.Y,
+    precision: frame.P,
+    components: frame.Nf,
+    sampling: frame.components.map(({ H, V }) => `${H}x${V}`).join(','),
+    ...(subsampling !== undefined ? { chroma_subsampling: subsampling } : {}),
+    ...(frame.process !== undefined ? { process: frame.process, arithmetic: frame.arithmetic, differential: frame.differential } : {}),
+    ...(metadata.JFIF !== undefined ? { JFIF: true } : {}),
+    ...(metadata.Exif !== undefined ? { Exif: true } : {}),
+    ...(metadata.ICC_profile !== undefined ? { ICC_profile: true } : {}),
+  };
+}
+
+function rate_text(bit_rate: number | undefined) {
+  return bit_rate !== undefined ? `, ${(bit_rate / 1000).toFixed(1)} kb/s` : '';
+}
+
+function time_text(info: { start_time?: number; duration?: number }) {
+  return info.start_time !== undefined ? `, start ${seconds(info.start_time)} s, duration ${seconds(info.duration)} s` : '';
+}
+
+function video_text(video: VideoStructureSummary) {
+  return `MPEG-${video.MPEG} video ${video.width}x${video.height}`
+    + `${video.display_aspect_ratio !== undefined ? `, aspect ${video.display_aspect_ratio.toFixed(2)}` : ''}`
+    + `${video.frame_rate !== undefined ? `, ${Number(video.frame_rate.toFixed(3))} fps` : ''}, ${video.chroma_format}`
+    + `${video.profile_and_level !== undefined ? `, ${video.profile_and_level}` : ''}`
+    + `${video.field_order !== undefined ? `, ${video.field_order.replace(/_/g, ' ')}` : ''}`
+    + `${video.repeat_first_field > 0 ? `, ${video.repeat_first_field} repeated fields` : ''}`
+    + `, ${video.GOPs} GOPs (${video.closed_GOPs} closed)`
+    + `${video.GOP_pattern !== undefined ? ` ${video.GOP_pattern}` : ''}`
+    + `${video.time_code !== undefined ? `, time code ${video.time_code}` : ''}`;
+}
+
+async function print_probe(name: string, info: Awaited<ReturnType<typeof probe>>) {
+  switch (info.format) {
+    case 'mpegts':
+      await print(`${name}: MPEG-TS, ${info.packet_size} byte packets, ${info.packets} packets, ${info.size} bytes`
+        + `${info.duration !== undefined ? `, duration ${seconds(info.duration)} s` : ''}${rate_text(info.bit_rate)}`);
+      for (const program of info.programs) {
+        await print(`  program ${program.program_number}: PMT PID ${program.PMT_PID !== undefined ? hex(program.PMT_PID) : '-'}, PCR PID ${hex(program.PCR_PID)}`);
+        for (const stream of program.streams) {
+          await print(`    PID ${hex(stream.PID)}: stream_type ${hex(stream.stream_type, 2)}`
+            + `${stream.codec_name !== undefined ? ` ${stream.codec_name} ${stream.codec_type}` : ''}`
+            + `, ${stream.packets} packets${rate_text(stream.bit_rate)}${time_text(stream)}`);
+          if (stream.video !== undefined) await print(`      ${video_text(stream.video)}`);
+        }
+      }
+      for (const PID of info.PIDs) {
+        await print(`  PID ${hex(PID.PID)}: ${PID.packets} packets${rate_text(PID.bit_rate)}`);
+      }
+      return;
+    case 'mpegps':
+      await print(`${name}: MPEG-PS, ${info.packs} packs, ${info.size} bytes`
+        + `${info.duration !== undefined ? `, duration ${seconds(info.duration)} s` : ''}${rate_text(info.bit_rate)}`);
+      for (const stream of info.streams) {
+        await print(`  stream_id ${hex(stream.stream_id, 2)}`
+          + `${stream.stream_type !== undefined ? `: stream_type ${hex(stream.stream_type, 2)}` : ''}`
+          + `${stream.codec_name !== undefined ? ` ${stream.codec_name} ${stream.codec_type}` : ''}`
+          + `, ${stream.PES_packets} PES packets, ${stream.bytes} bytes${time_text(stream)}`);
+        if (stream.video !== undefined) await print(`    ${video_text(stream.video)}`);
+      }
+      return;
+    case 'jpeg':
+      await print(`${name}: JPEG, ${info.width}x${info.height}, ${info.precision} bit, ${info.components} components`
+        + `, sampling ${info.sampling}${info.chroma_subsampling !== undefined ? ` (${info.chroma_subsampling})` : ''}`
+        + `${info.process !== undefined ? `, ${info.process}${info.arithmetic ? ' arithmetic' : ''}` : ''}`);
+      return;
+    default:
+      await print(`${name}: ${info.format}, confidence ${info.confidence.toFixed(2)}`);
+  }
+}
+
+// The summary of a stream, which is only its format for elementary streams and PES packets
+async function probe(b: ByteReader, { format, confidence }: SniffResult, options: Options) {
+  switch (format) {
+    case 'mpegts': return probe_transport_stream(b, options);
+    case 'mpegps': return probe_program_stream(b, options);
+    case 'jpeg': return probe_JPEG(b);
+  }
+  return { format, confidence };
+}
+
+function selected(packet: TransportPacket, options: Options) {
+  const { flags } = options;
+  const adaptation_field = packet.adaptation_field;
+  return (options.PIDs === undefined || options.PIDs.has(packet.PID))
+    && (!flags.pusi || packet.payload_unit_start_indicator === 1)
+    && (!flags.pcr || adaptation_field?.program_clock_reference_base !== undefined)
+    && (!flags.random_access || adaptation_field?.random_access_indicator === true)
+    && (!flags.discontinuity || adaptation_field?.discontinuity_indicator === true)
+    && (!flags.error || packet.transport_error_indicator === 1)
+    && (!flags.scrambled || packet.transport_scrambling_control !== 0b00);
+}
+
+async function dump_packets(b: ByteReader, options: Options) {
+  const packet_size = await detect_packet_size_of(b);
+  for await (const { index, byte_offset, packet } of transport_packets(b, packet_size, options)) {
+    if (!selected(packet, options)) continue;
+    const payload_length = packet.data_byte?.length ?? 0;
+    if (options.ndjson) {
+      await print(json({ index, byte_offset, ...packet, payload_length }));
+      continue;
+    }
+    const adaptation_field = packet.adaptation_field;
+    const PCR = adaptation_field?.program_clock_reference_base !== undefined
+      ? (adaptation_field.program_clock_reference_base * 300 + adaptation_field.program_clock_reference_extension!) / system_clock_frequency
+      : undefined;
+    const flags = [
+      packet.payload_unit_start_indicator === 1 ? 'pusi' : '',
+      packet.transport_error_indicator === 1 ? 'error' : '',
+      packet.transport_scrambling_control !== 0b00 ? `scrambled=${packet.transport_scrambling_control}` : '',
+      adaptation_field?.discontinuity_indicator ? 'discontinuity' : '',
+      adaptation_field?.random_access_indicator ? 'random_access' : '',
+      PCR !== undefined ? `PCR=${seconds(PCR)}` : '',
+    ].filter((flag) => flag !== '');
+    await print(`#${index} @${byte_offset} PID ${hex(packet.PID)} cc ${packet.continuity_counter} payload ${payload_length}`
+      + `${flags.length > 0 ? ' ' + flags.join(' ') : ''}`);
+  }
+}
+
+async function* map<T, U>(source: AsyncIterable<T>, f: (value: T) => U) {
+  for await (const value of source) yield f(value);
+}
+
+// The PES packets of a transport stream, program stream or PES stream, with the PID that carried them for a transport stream
+async function* PES_packets(b: ByteReader, format: Format, options: Options): AsyncGenerator<{ PID?: number; PES_packet: PESPacket }> {
+  if (format === 'mpegts') {
+    const packet_size = await detect_packet_size_of(b);
+    const filter = options.PIDs !== undefined ? (PID: number) => options.PIDs!.has(PID) : undefined;
+    const packets = parse_transport_stream(b, packet_size, options.parse_options);
+    for await (const packet of demux_PES(packets, filter, options.parse_options)) {
+      if (options.stream_ids === undefined || options.stream_ids.has(packet.PES_packet.stream_id)) yield packet;
+    }
+  } else if (format === 'mpegps' || format === 'pes') {
+    const PES_packets = format === 'pes'
+      ? parse_PES_stream(b, options.parse_options)
+      : map(parse_program_stream(b, options.parse_options), (unit) => unit.PES_packet);
+    for await (const PES_packet of PES_packets) {
+      if (PES_packet === undefined) continue;
+      if (options.stream_ids === undefined || options.stream_ids.has(PES_packet.stream_id)) yield { PES_packet };
+    }
+  } else {
+    throw new UsageError('PES packets are only in transport streams, program streams and PES streams');
+  }
+}
+
+async function dump_PES(b: ByteReader, format: Format, options: Options) {
+  let index = 0;
+  for await (const { PID, PES_packet } of PES_packets(b, format, options)) {
+    const { stream_id, PES_packet_length, PTS, DTS, PES_packet_data } = PES_packet;
+    const data_length = PES_packet_data?.length ?? 0;
+    if (options.ndjson) {
+      await print(json({ index: index++, ...(PID !== undefined ? { PID } : {}), ...PES_packet, data_length }));
+      continue;
+    }
+    await print(`#${index++}${PID !== undefined ? ` PID ${hex(PID)}` : ''} stream_id ${hex(stream_id, 2)}`
+      + ` length ${PES_packet_length} data ${data_length}`
+      + `${PTS !== undefined ? ` PTS ${PTS} (${seconds(PTS / 90000)})` : ''}`
+      + `${DTS !== undefined ? ` DTS ${DTS} (${seconds(DTS / 90000)})` : ''}`
+      + `${PES_packet.data_alignment_indicator ? ' aligned' : ''}`);
+  }
+}
+
+async function extract(b: ByteReader, format: Format, options: Options) {
+  if (format !== 'mpegts' && format !== 'mpegps' && format !== 'pes') {
+    throw new UsageError('extract is only for transport streams, program streams and PES streams');
+  }
+  if (format === 'mpegts' && options.PIDs?.size !== 1) throw new UsageError('extract takes one --pid');
+  if (format !== 'mpegts' && options.stream_ids?.size !== 1) throw new UsageError('extract takes one --stream-id');
+  if (options.payload && format !== 'mpegts') throw new UsageError('--payload is only for transport streams');
+  const handle = options.output !== undefined && options.output !== '-' ? await open(options.output, 'w') : undefined;
+  const write = handle !== undefined ? async (data: Uint8Array) => { await handle.write(data); } : write_stdout;
+  try {
+    if (options.payload) {
+      const packet_size = await detect_packet_size_of(b);
+      for await (const { packet } of transport_packets(b, packet_size, options)) {
+        if (options.PIDs!.has(packet.PID) && packet.data_byte !== undefined) await write(packet.data_byte);
+      }
+    } else {
+      for await (const { PES_packet } of PES_packets(b, format, options)) {
+        if (PES_packet.PES_packet_data !== undefined) await write(PES_packet.PES_packet_data);
+      }
+    }
+  } finally {
+    await handle?.close();
+  }
+}
+
+// Table 2-34 stream types of the video of which the pictures carry cc_data
+const cc_data_codecs = new Map<number, VideoCodec>([[0x02, 'mpeg2video'], [0x1B, 'h264'], [0x24, 'hevc']]);
+
+// ARIB STD-B24 captions are PES private data
+const PES_private_data = 0x06;
+
+function time_range_text(cue: Cue) {
+  return `${seconds(cue.start / 90000)} --> ${seconds(cue.end / 90000)}`;
+}
+
+// The cues of the video and caption PIDs of the PMTs, written as they end, or as subtitles of one track at the end,
+// timed from the first PTS of the video
+async function captions(b: ByteReader, format: Format, options: Options) {
+  if (format !== 'mpegts') throw new UsageError('captions is only for transport streams');
+  const packet_size = await detect_packet_size_of(b);
+  const program_maps = new ProgramMaps(options.parse_options);
+  const decoders = new Map<number, ClosedCaptionDecoder | ARIBCaptionDecoder>();
+  const assembler = new PESAssembler((PID) => decoders.has(PID), options.parse_options);
+  const subtitles: Cue[] = [];
+  let subtitle_track: { PID: number; track: string } | undefined;
+  let origin: number | undefined;
+  const output = async (PID: number, cues: Cue[]) => {
+    for (const cue of cues) {
+      if (options.track !== undefined && cue.track !== options.track) continue;
+      if (options.subtitles !== undefined) {
+        subtitle_track ??= { PID, track: cue.track };
+        if (subtitle_track.PID === PID && subtitle_track.track === cue.track) subtitles.push(cue);
+      } else if (options.ndjson) {
+        await print(json({ PID, ...cue }));
+      } else {
+        await print(`PID ${hex(PID)} ${cue.track} ${time_range_text(cue)} ${cue.text.replace(/\n/g, ' / ')}`);
+      }
+    }
+  };
+  const push_PES = async (packets: { PID: number; PES_packet: PESPacket }[]) => {
+    for (const { PID, PES_packet } of packets) {
+      const decoder = decoders.get(PID)!;
+      if (decoder instanceof ClosedCaptionDecoder) origin ??= PES_packet.PTS;
+      await output(PID, decoder.push(PES_packet));
+    }
+  };
+  for await (const { packet } of transport_packets(b, packet_size, options)) {
+    for (const PMT of program_maps.push(packet)) {
+      for (const { elementary_PID, stream_type } of PMT.streams) {
+        if (decoders.has(elementary_PID) || (options.PIDs !== undefined && !options.PIDs.has(elementary_PID))) continue;
+        const codec = cc_data_codecs.get(stream_type);
+        if (codec !== undefined) {
+          decoders.set(elementary_PID, new ClosedCaptionDecoder(codec, options.parse_options, elementary_PID));
+        } else if (stream_type === PES_private_data) {
+          decoders.set(elementary_PID, new ARIBCaptionDecoder(options.parse_options, elementary_PID));
+        }
+      }
+    }
+    await push_PES(await assembler.push(packet));
+  }
+  await push_PES(await assembler.flush());
+  for (const [PID, decoder] of decoders) await output(PID, decoder.flush());
+  if (options.subtitles === undefined) return;
+  const text = options.subtitles === 'vtt' ? to_WebVTT(subtitles, origin) : to_SRT(subtitles, origin);
+  if (options.output !== undefined && options.output !== '-') {
+    const handle = await open(options.output, 'w');
+    try {
+      await handle.write(text);
+    } finally {
+      await handle.close();
+    }
+  } else {
+    await write_stdout(text);
+  }
+}
+
+function parse_options(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      'ndjson': { type: 'boolean', default: false },
+      'format': { type: 'string' },
+      'lenient': { type: 'boolean', default: false },
+      'pid': { type: 'string', multiple: true },
+      'stream-id': { type: 'string', multiple: true },
+      'pusi': { type: 'boolean', default: false },
+      'pcr': { type: 'boolean', default: false },
+      'random-access': { type: 'boolean', default: false },
+      'discontinuity': { type: 'boolean', default: false },
+      'error': { type: 'boolean', default: false },
+      'scrambled': { type: 'boolean', default: false },
+      'payload': { type: 'boolean', default: false },
+      'output': { type: 'string', short: 'o' },
+      'track': { type: 'string' },
+      'subtitles': { type: 'string' },
+      'help': { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const format = formats.find((format) => format === values.format);
+  const subtitles = (['vtt', 'srt'] as const).find((subtitles) => subtitles === values.subtitles);
+  if (values.subtitles !== undefined && subtitles === undefined) throw new UsageError(`Unknown subtitle format: ${values.subtitles}`);
+  if (values.format !== undefined && format === undefined) throw new UsageError(`Unknown format: ${values.format}`);
+  const options: Options = {
+    ndjson: values.ndjson,
+    ...(format !== undefined ? { format } : {}),
+    parse_options: values.lenient
+      ? { mode: 'lenient', on_warning: (warning) => process.stderr.write(`warning: ${json(warning)}\n`) }
+      : {},
+    ...(values.pid !== undefined ? { PIDs: new Set(values.pid.map((PID) => parse_number('PID', PID, 0x1FFF))) } : {}),
+    ...(values['stream-id'] !== undefined
+      ? { stream_ids: new Set(values['stream-id'].map((stream_id) => parse_number('stream_id', stream_id, 0xFF))) }
+      : {}),
+    flags: {
+      pusi: values.pusi,
+      pcr: values.pcr,
+      random_access: values['random-access'],
+      discontinuity: values.discontinuity,
+      error: values.error,
+      scrambled: values.scrambled,
+    },
+    payload: values.payload,
+    ...(values.output !== undefined ? { output: values.output } : {}),
+    ...(values.track !== undefined ? { track: values.track } : {}),
+    ...(subtitles !== undefined ? { subtitles } : {}),
+  };
+  return { help: values.help, options, files: positionals };
+}
+
+async function main(args: string[]) {
+  const [command, ...rest] = args;
+  if (command === undefined || command === '-h' || command === '--help') {
+    await print(usage);
+    return;
+  }
+  const { help, options, files } = parse_options(rest);
+  if (help) {
+    await print(usage);
+    return;
+  }
+  if (!['probe', 'packets', 'pes', 'extract', 'captions'].includes(command)) throw new UsageError(`Unknown command: ${command}`);
+  if ((command === 'extract' || options.subtitles !== undefined) && files.length > 1) {
+    throw new UsageError(`${command === 'extract' ? 'extract' : '--subtitles'} takes one file`);
+  }
+  for (const path of files.length > 0 ? files : ['-']) {
+    const input = await open_input(path);
+    try {
+      const sniffed = options.format !== undefined ? { format: options.format, confidence: 1 } : await detect_format(input.b);
+      const { format } = sniffed;
+      switch (command) {
+        case 'probe': {
+          const info = await probe(input.b, sniffed, options);
+          if (options.ndjson) {
+            await print(json({ file: input.name, ...info }));
+          } else {
+            await print_probe(input.name, info);
+          }
+          break;
+        }
+        case 'packets':
+          if (format !== 'mpegts') throw new UsageError('packets is only for transport streams');
+          await dump_packets(input.b, options);
+          break;
+        case 'pes':
+          await dump_PES(input.b, format, options);
+          break;
+        case 'extract':
+          await extract(input.b, format, options);
+          break;
+        case 'captions':
+          await captions(input.b, format, options);
+          break;
+      }
+    } catch (e) {
+      if (e instanceof Error && !(e instanceof UsageError)) e.message = `${input.name}: ${e.message}`;
+      throw e;
+    } finally {
+      await input.close();
+    }
+  }
+}
+
+// a closed pipe, as with head, ends the output quietly
+process.stdout.on('error', (e: NodeJS.ErrnoException) => {
+  if (e.code !== 'EPIPE') throw e;
+  process.exit(0);
+});
+
+main(process.argv.slice(2)).catch((e: unknown) => {
+  process.stderr.write(`media-decode: ${e instanceof Error ? e.message : String(e)}\n`);
+  if (e instanceof UsageError || (e as NodeJS.ErrnoException).code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION') {
+    process.stderr.write('Run media-decode --help for usage.\n');
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,83 @@
+// ISO/IEC 13818-7 6.2 Audio Data Transport Stream, ADTS
+// ISO/IEC 14496-3 1.A.2.2 Audio_Data_Transport_Stream frame, ADTS
+
+import { BitReader } from '../../reader.js';
+import { FrameFormat, FrameSynchronizer } from '../../frame_sync.js';
+import { sampling_frequency } from './audio_specific_config.js';
+
+// 1.A.3.2.1 Definitions: profile_ObjectType is the audioObjectType minus 1
+export const enum ADTSProfile {
+  Main = 0,
+  LC = 1,
+  SSR = 2,
+  LTP = 3,
+}
+
+// 1.A.2.2.1 Fixed header of ADTS, 1.A.2.2.2 Variable header of ADTS and 1.A.2.2.3 Error detection
+export function parse_adts_header(data: Uint8Array, offset = 0) {
+  if (data[offset] !== 0xff || (data[offset + 1] & 0xf6) !== 0xf0) return undefined; // syncword and layer
+  if (data.length - offset < 7) return undefined;
+  const r = new BitReader(data.subarray(offset, offset + 9));
+  r.skip(12);
+  const ID = r.bslbf(1);
+  r.skip(2); // layer
+  const protection_absent = r.bslbf(1);
+  const profile_ObjectType = r.uimsbf(2);
+  const sampling_frequency_index = r.uimsbf(4);
+  const private_bit = r.bslbf(1);
+  const channel_configuration = r.uimsbf(3);
+  const original_copy = r.bslbf(1);
+  const home = r.bslbf(1);
+  const copyright_identification_bit = r.bslbf(1);
+  const copyright_identification_start = r.bslbf(1);
+  const aac_frame_length = r.uimsbf(13);
+  const adts_buffer_fullness = r.uimsbf(11);
+  const number_of_raw_data_blocks_in_frame = r.uimsbf(2);
+  if (sampling_frequency(sampling_frequency_index) === undefined) return undefined;
+  if (aac_frame_length < (protection_absent === 1 ? 7 : 9)) return undefined;
+  // with more than one raw_data_block, the positions of the blocks come before crc_check
+  const crc_check = protection_absent === 0 && number_of_raw_data_blocks_in_frame === 0 && r.left() >= 16 ? r.uimsbf(16) : undefined;
+  return {
+    ID,
+    protection_absent,
+    profile_ObjectType,
+    sampling_frequency_index,
+    private_bit,
+    channel_configuration,
+    original_copy,
+    home,
+    copyright_identification_bit,
+    copyright_identification_start,
+    aac_frame_length,
+    adts_buffer_fullness,
+    number_of_raw_data_blocks_in_frame,
+    ...(crc_check !== undefined ? { crc_check } : {}),
+  };
+}
+
+export type ADTSHeader = NonNullable<ReturnType<typeof parse_adts_header>>;
+
+// The raw_data_blocks of a frame, after adts_error_check or adts_header_error_check
+export function adts_raw_data(header: ADTSHeader, frame: Uint8Array) {
+  const header_length = header.protection_absent === 1 ? 7 : 9 + 2 * header.number_of_raw_data_blocks_in_frame;
+  return frame.subarray(header_length);
+}
+
+// same_stream is given, for the sniffing of ADTS frames as well as their sync
+export const ADTS: FrameFormat<ADTSHeader> & { same_stream(header: ADTSHeader, next: ADTSHeader): boolean } = {
+  header_length: 9,
+  parse_header: parse_adts_header,
+  frame_length: (header) => header.aac_frame_length,
+  same_stream: (header, next) => header.ID === next.ID
+    && header.profile_ObjectType === next.profile_ObjectType
+    && header.sampling_frequency_index === next.sampling_frequency_index
+    && header.channel_configuration === next.channel_configuration,
+  // each raw_data_block is 1024 samples
+  duration: (header) => 1024 * (header.number_of_raw_data_blocks_in_frame + 1) * 90000 / sampling_frequency(header.sampling_frequency_index)!,
+};
+
+export class ADTSSynchronizer extends FrameSynchronizer<ADTSHeader> {
+  constructor() {
+    super(ADTS);
+  }
+}
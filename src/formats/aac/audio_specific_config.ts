@@ -0,0 +1,221 @@
+// ISO/IEC 14496-3 1.6.2.1 AudioSpecificConfig
+
+import { BitReader } from '../../reader.js';
+import { MalformedDataError } from '../mpeg2/syntax.js';
+
+export { MalformedDataError };
+
+export class UnsupportedConfigError extends Error { }
+
+// Table 1.17 Audio Object Types, of those carried by AudioSpecificConfig here
+export const enum AudioObjectType {
+  AAC_MAIN = 1,
+  AAC_LC = 2,
+  AAC_SSR = 3,
+  AAC_LTP = 4,
+  SBR = 5,
+  AAC_scalable = 6,
+  TwinVQ = 7,
+  ER_AAC_LC = 17,
+  ER_AAC_LTP = 19,
+  ER_AAC_scalable = 20,
+  ER_TwinVQ = 21,
+  ER_BSAC = 22,
+  ER_AAC_LD = 23,
+  PS = 29,
+  escape = 31,
+}
+
+// Table 1.18 Sampling Frequency Index
+const sampling_frequencies = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// The sampling frequency of a samplingFrequencyIndex, or undefined where it is reserved or escaped
+export function sampling_frequency(samplingFrequencyIndex: number): number | undefined {
+  return sampling_frequencies[samplingFrequencyIndex];
+}
+
+// 1.6.2.1 GetAudioObjectType()
+function get_audio_object_type(r: BitReader) {
+  const audioObjectType = r.uimsbf(5);
+  return audioObjectType === AudioObjectType.escape ? 32 + r.uimsbf(6) : audioObjectType;
+}
+
+function get_sampling_frequency(r: BitReader) {
+  const samplingFrequencyIndex = r.uimsbf(4);
+  if (samplingFrequencyIndex === 0xf) return { samplingFrequencyIndex, samplingFrequency: r.uimsbf(24) };
+  const samplingFrequency = sampling_frequency(samplingFrequencyIndex);
+  if (samplingFrequency === undefined) throw new MalformedDataError(`samplingFrequencyIndex ${samplingFrequencyIndex} is reserved`);
+  return { samplingFrequencyIndex, samplingFrequency };
+}
+
+// 4.4.1.1 Program config element. byte_alignment() is relative to the start of the AudioSpecificConfig.
+export function parse_program_config_element(r: BitReader, start: number) {
+  const element_instance_tag = r.uimsbf(4);
+  const object_type = r.uimsbf(2);
+  const sampling_frequency_index = r.uimsbf(4);
+  const num_front_channel_elements = r.uimsbf(4);
+  const num_side_channel_elements = r.uimsbf(4);
+  const num_back_channel_elements = r.uimsbf(4);
+  const num_lfe_channel_elements = r.uimsbf(2);
+  const num_assoc_data_elements = r.uimsbf(3);
+  const num_valid_cc_elements = r.uimsbf(4);
+  const optional: { mono_mixdown_element_number?: number; stereo_mixdown_element_number?: number; matrix_mixdown_idx?: number; pseudo_surround_enable?: boolean } = {};
+  if (r.bslbf(1)) optional.mono_mixdown_element_number = r.uimsbf(4);
+  if (r.bslbf(1)) optional.stereo_mixdown_element_number = r.uimsbf(4);
+  if (r.bslbf(1)) {
+    optional.matrix_mixdown_idx = r.uimsbf(2);
+    optional.pseudo_surround_enable = r.bslbf(1) === 1;
+  }
+  const channel_elements = (n: number) => {
+    const elements: { is_cpe: boolean; tag_select: number }[] = [];
+    for (let i = 0; i < n; i++) {
+      const is_cpe = r.bslbf(1) === 1;
+      elements.push({ is_cpe, tag_select: r.uimsbf(4) });
+    }
+    return elements;
+  };
+  const front_elements = channel_elements(num_front_channel_elements);
+  const side_elements = channel_elements(num_side_channel_elements);
+  const back_elements = channel_elements(num_back_channel_elements);
+  const lfe_element_tag_select: number[] = [];
+  for (let i = 0; i < num_lfe_channel_elements; i++) lfe_element_tag_select.push(r.uimsbf(4));
+  const assoc_data_element_tag_select: number[] = [];
+  for (let i = 0; i < num_assoc_data_elements; i++) assoc_data_element_tag_select.push(r.uimsbf(4));
+  const cc_elements: { cc_element_is_ind_sw: boolean; valid_cc_element_tag_select: number }[] = [];
+  for (let i = 0; i < num_valid_cc_elements; i++) {
+    const cc_element_is_ind_sw = r.bslbf(1) === 1;
+    cc_elements.push({ cc_element_is_ind_sw, valid_cc_element_tag_select: r.uimsbf(4) });
+  }
+  r.skip((8 - (r.tell() - start) % 8) % 8);
+  const comment_field_bytes = r.uimsbf(8);
+  const comment_field_data = new Uint8Array(comment_field_bytes);
+  for (let i = 0; i < comment_field_bytes; i++) comment_field_data[i] = r.uimsbf(8);
+  return {
+    element_instance_tag,
+    object_type,
+    sampling_frequency_index,
+    front_elements,
+    side_elements,
+    back_elements,
+    lfe_element_tag_select,
+    assoc_data_element_tag_select,
+    cc_elements,
+    ...optional,
+    comment_field_data,
+  };
+}
+
+export type ProgramConfigElement = ReturnType<typeof parse_program_config_element>;
+
+// 4.4.1 GASpecificConfig
+function parse_ga_specific_config(r: BitReader, start: number, channelConfiguration: number, audioObjectType: number) {
+  const frameLengthFlag = r.bslbf(1) === 1;
+  const dependsOnCoreCoder = r.bslbf(1) === 1;
+  const optional: {
+    coreCoderDelay?: number; program_config_element?: ProgramConfigElement; layerNr?: number; numOfSubFrame?: number;
+    layer_length?: number; aacSectionDataResilienceFlag?: boolean; aacScalefactorDataResilienceFlag?: boolean;
+    aacSpectralDataResilienceFlag?: boolean;
+  } = {};
+  if (dependsOnCoreCoder) optional.coreCoderDelay = r.uimsbf(14);
+  const extensionFlag = r.bslbf(1) === 1;
+  if (channelConfiguration === 0) optional.program_config_element = parse_program_config_element(r, start);
+  if (audioObjectType === AudioObjectType.AAC_scalable || audioObjectType === AudioObjectType.ER_AAC_scalable) {
+    optional.layerNr = r.uimsbf(3);
+  }
+  if (extensionFlag) {
+    if (audioObjectType === AudioObjectType.ER_BSAC) {
+      optional.numOfSubFrame = r.uimsbf(5);
+      optional.layer_length = r.uimsbf(11);
+    }
+    if (
+      audioObjectType === AudioObjectType.ER_AAC_LC || audioObjectType === AudioObjectType.ER_AAC_LTP
+      || audioObjectType === AudioObjectType.ER_AAC_scalable || audioObjectType === AudioObjectType.ER_AAC_LD
+    ) {
+      optional.aacSectionDataResilienceFlag = r.bslbf(1) === 1;
+      optional.aacScalefactorDataResilienceFlag = r.bslbf(1) === 1;
+      optional.aacSpectralDataResilienceFlag = r.bslbf(1) === 1;
+    }
+    r.skip(1); // extensionFlag3
+  }
+  return { frameLengthFlag, ...optional };
+}
+
+// 1.6.2.1 AudioSpecificConfig, of the General Audio object types. The backward compatible signalling of SBR and PS
+// after the config is only read where the length of the config is known, as given by bits.
+export function parse_audio_specific_config(r: BitReader, bits?: number) {
+  const start = r.tell();
+  let audioObjectType = get_audio_object_type(r);
+  const { samplingFrequencyIndex, samplingFrequency } = get_sampling_frequency(r);
+  const channelConfiguration = r.uimsbf(4);
+  const optional: {
+    extensionAudioObjectType?: number; sbrPresentFlag?: boolean; psPresentFlag?: boolean;
+    extensionSamplingFrequencyIndex?: number; extensionSamplingFrequency?: number; extensionChannelConfiguration?: number;
+    epConfig?: number;
+  } = {};
+  const extension_sampling_frequency = () => {
+    const extension = get_sampling_frequency(r);
+    optional.extensionSamplingFrequencyIndex = extension.samplingFrequencyIndex;
+    optional.extensionSamplingFrequency = extension.samplingFrequency;
+  };
+  if (audioObjectType === AudioObjectType.SBR || audioObjectType === AudioObjectType.PS) {
+    optional.extensionAudioObjectType = AudioObjectType.SBR;
+    optional.sbrPresentFlag = true;
+    if (audioObjectType === AudioObjectType.PS) optional.psPresentFlag = true;
+    extension_sampling_frequency();
+    audioObjectType = get_audio_object_type(r);
+    if (audioObjectType === AudioObjectType.ER_BSAC) optional.extensionChannelConfiguration = r.uimsbf(4);
+  }
+  switch (audioObjectType) {
+    case AudioObjectType.AAC_MAIN:
+    case AudioObjectType.AAC_LC:
+    case AudioObjectType.AAC_SSR:
+    case AudioObjectType.AAC_LTP:
+    case AudioObjectType.AAC_scalable:
+    case AudioObjectType.TwinVQ:
+    case AudioObjectType.ER_AAC_LC:
+    case AudioObjectType.ER_AAC_LTP:
+    case AudioObjectType.ER_AAC_scalable:
+    case AudioObjectType.ER_TwinVQ:
+    case AudioObjectType.ER_BSAC:
+    case AudioObjectType.ER_AAC_LD:
+      break;
+    default:
+      throw new UnsupportedConfigError(`audioObjectType ${audioObjectType} is not supported`);
+  }
+  const GASpecificConfig = parse_ga_specific_config(r, start, channelConfiguration, audioObjectType);
+  if (audioObjectType >= AudioObjectType.ER_AAC_LC) {
+    optional.epConfig = r.uimsbf(2);
+    if (optional.epConfig === 2 || optional.epConfig === 3) {
+      throw new UnsupportedConfigError(`epConfig ${optional.epConfig} is not supported`);
+    }
+  }
+  // 1.6.6.2 Explicit backward compatible signalling
+  if (optional.extensionAudioObjectType !== AudioObjectType.SBR && bits !== undefined && bits - (r.tell() - start) >= 16) {
+    if (r.uimsbf(11) === 0x2b7) {
+      const extensionAudioObjectType = get_audio_object_type(r);
+      if (extensionAudioObjectType === AudioObjectType.SBR) {
+        optional.extensionAudioObjectType = extensionAudioObjectType;
+        optional.sbrPresentFlag = r.bslbf(1) === 1;
+        if (optional.sbrPresentFlag) {
+          extension_sampling_frequency();
+          if (bits - (r.tell() - start) >= 12 && r.uimsbf(11) === 0x548) optional.psPresentFlag = r.bslbf(1) === 1;
+        }
+      } else if (extensionAudioObjectType === AudioObjectType.ER_BSAC) {
+        optional.extensionAudioObjectType = extensionAudioObjectType;
+        optional.sbrPresentFlag = r.bslbf(1) === 1;
+        if (optional.sbrPresentFlag) extension_sampling_frequency();
+        optional.extensionChannelConfiguration = r.uimsbf(4);
+      }
+    }
+  }
+  return { audioObjectType, samplingFrequencyIndex, samplingFrequency, channelConfiguration, GASpecificConfig, ...optional };
+}
+
+export type AudioSpecificConfig = ReturnType<typeof parse_audio_specific_config>;
+
+// Samples per channel of an access unit at samplingFrequency, which is the core sampling frequency where SBR is present
+export function frame_length(config: AudioSpecificConfig) {
+  const { frameLengthFlag } = config.GASpecificConfig;
+  if (config.audioObjectType === AudioObjectType.ER_AAC_LD) return frameLengthFlag ? 480 : 512;
+  return frameLengthFlag ? 960 : 1024;
+}
@@ -0,0 +1,171 @@
+// ISO/IEC 14496-3 1.7 LATM and LOAS
+// Only the AudioSyncStream of LOAS and StreamMuxConfig with audioMuxVersionA 0, allStreamsSameTimeFraming and
+// frameLengthType 0 are supported, as carried by transport streams.
+
+import { BitReader, UnexpectedEOFError } from '../../reader.js';
+import { Frame, FrameFormat, FrameSynchronizer } from '../../frame_sync.js';
+import {
+  AudioSpecificConfig, MalformedDataError, UnsupportedConfigError, frame_length, parse_audio_specific_config,
+} from './audio_specific_config.js';
+
+export class MissingStreamMuxConfigError extends MalformedDataError { }
+
+// 1.7.3 LatmGetValue()
+function latm_get_value(r: BitReader) {
+  const bytesForValue = r.uimsbf(2);
+  let value = 0;
+  for (let i = 0; i <= bytesForValue; i++) value = value * 256 + r.uimsbf(8);
+  return value;
+}
+
+// Table 1.42 Syntax of StreamMuxConfig()
+export function parse_stream_mux_config(r: BitReader) {
+  const audioMuxVersion = r.bslbf(1);
+  const audioMuxVersionA = audioMuxVersion === 1 ? r.bslbf(1) : 0;
+  if (audioMuxVersionA !== 0) throw new UnsupportedConfigError('audioMuxVersionA 1 is not supported');
+  const optional: { taraBufferFullness?: number; otherDataLenBits?: number; crcCheckSum?: number } = {};
+  if (audioMuxVersion === 1) optional.taraBufferFullness = latm_get_value(r);
+  const allStreamsSameTimeFraming = r.bslbf(1);
+  if (allStreamsSameTimeFraming !== 1) throw new UnsupportedConfigError('allStreamsSameTimeFraming 0 is not supported');
+  const numSubFrames = r.uimsbf(6);
+  const numProgram = r.uimsbf(4);
+  // in the order of streamID
+  const streams: { prog: number; lay: number; AudioSpecificConfig: AudioSpecificConfig; latmBufferFullness: number }[] = [];
+  for (let prog = 0; prog <= numProgram; prog++) {
+    const numLayer = r.uimsbf(3);
+    for (let lay = 0; lay <= numLayer; lay++) {
+      const useSameConfig = prog === 0 && lay === 0 ? 0 : r.bslbf(1);
+      let config = streams[streams.length - 1]?.AudioSpecificConfig;
+      if (!useSameConfig) {
+        if (audioMuxVersion === 0) {
+          config = parse_audio_specific_config(r);
+        } else {
+          const ascLen = latm_get_value(r);
+          const start = r.tell();
+          config = parse_audio_specific_config(r, ascLen);
+          const fillBits = ascLen - (r.tell() - start);
+          if (fillBits < 0) throw new MalformedDataError('AudioSpecificConfig is longer than ascLen');
+          r.skip(fillBits);
+        }
+      }
+      const frameLengthType = r.uimsbf(3);
+      if (frameLengthType !== 0) throw new UnsupportedConfigError(`frameLengthType ${frameLengthType} is not supported`);
+      const latmBufferFullness = r.uimsbf(8);
+      streams.push({ prog, lay, AudioSpecificConfig: config, latmBufferFullness });
+    }
+  }
+  const otherDataPresent = r.bslbf(1);
+  if (otherDataPresent) {
+    if (audioMuxVersion === 1) {
+      optional.otherDataLenBits = latm_get_value(r);
+    } else {
+      let otherDataLenBits = 0;
+      for (let otherDataLenEsc = 1; otherDataLenEsc;) {
+        otherDataLenEsc = r.bslbf(1);
+        otherDataLenBits = otherDataLenBits * 256 + r.uimsbf(8);
+      }
+      optional.otherDataLenBits = otherDataLenBits;
+    }
+  }
+  const crcCheckPresent = r.bslbf(1);
+  if (crcCheckPresent) optional.crcCheckSum = r.uimsbf(8);
+  return { audioMuxVersion, numSubFrames, streams, ...optional };
+}
+
+export type StreamMuxConfig = ReturnType<typeof parse_stream_mux_config>;
+
+// Reads n bytes, which need not be byte aligned
+function read_bytes(r: BitReader, n: number) {
+  if (r.byte_aligned()) return r.bytes(n);
+  const data = new Uint8Array(n);
+  for (let i = 0; i < n; i++) data[i] = r.uimsbf(8);
+  return data;
+}
+
+// Duration of an AudioMuxElement in units of the 90 kHz PTS clock
+export function audio_mux_element_duration(config: StreamMuxConfig) {
+  const { AudioSpecificConfig } = config.streams[0];
+  return (config.numSubFrames + 1) * frame_length(AudioSpecificConfig) * 90000 / AudioSpecificConfig.samplingFrequency;
+}
+
+// Table 1.41 Syntax of AudioMuxElement(), with muxConfigPresent 1, keeping the last StreamMuxConfig
+export class LATMParser {
+  private config?: StreamMuxConfig;
+
+  parse(data: Uint8Array) {
+    const r = new BitReader(data);
+    const useSameStreamMux = r.bslbf(1);
+    if (!useSameStreamMux) {
+      this.config = parse_stream_mux_config(r);
+    } else if (this.config === undefined) {
+      throw new MissingStreamMuxConfigError('StreamMuxConfig is not received yet');
+    }
+    const config = this.config;
+    // the payload of each stream, of each sub frame
+    const PayloadMux: Uint8Array[][] = [];
+    for (let i = 0; i <= config.numSubFrames; i++) {
+      // Table 1.44 Syntax of PayloadLengthInfo()
+      const MuxSlotLengthBytes = config.streams.map(() => {
+        let length = 0;
+        for (let tmp = 255; tmp === 255;) {
+          tmp = r.uimsbf(8);
+          length += tmp;
+        }
+        return length;
+      });
+      // Table 1.45 Syntax of PayloadMux()
+      PayloadMux.push(MuxSlotLengthBytes.map((length) => read_bytes(r, length)));
+    }
+    const optional: { otherDataBit?: Uint8Array } = {};
+    if (config.otherDataLenBits !== undefined) {
+      const bits = config.otherDataLenBits;
+      optional.otherDataBit = read_bytes(r, bits >>> 3);
+      if (bits & 7) optional.otherDataBit = Uint8Array.of(...optional.otherDataBit, r.uimsbf(bits & 7) << (8 - (bits & 7)));
+    }
+    return { useSameStreamMux, StreamMuxConfig: config, PayloadMux, ...optional };
+  }
+}
+
+export type AudioMuxElement = ReturnType<LATMParser['parse']>;
+
+// Table 1.40 Syntax of AudioSyncStream()
+export function parse_loas_header(data: Uint8Array, offset = 0) {
+  if (data[offset] !== 0x56 || (data[offset + 1] & 0xe0) !== 0xe0) return undefined; // syncword 0x2B7
+  const audioMuxLengthBytes = (data[offset + 1] & 0x1f) << 8 | data[offset + 2];
+  return { audioMuxLengthBytes };
+}
+
+export type LOASHeader = NonNullable<ReturnType<typeof parse_loas_header>>;
+
+export const LOAS: FrameFormat<LOASHeader> = {
+  header_length: 3,
+  parse_header: parse_loas_header,
+  frame_length: (header) => 3 + header.audioMuxLengthBytes,
+};
+
+export type LOASFrame = Frame<LOASHeader> & { AudioMuxElement?: AudioMuxElement };
+
+// Splits an AudioSyncStream into frames, with the AudioMuxElement of each and its duration. Frames before the first
+// StreamMuxConfig, and those of which the AudioMuxElement is malformed or truncated, are given without AudioMuxElement.
+export class LOASSynchronizer {
+  private synchronizer = new FrameSynchronizer(LOAS);
+  private parser = new LATMParser();
+
+  push(data: Uint8Array, PTS?: number) {
+    return this.synchronizer.push(data, PTS).map((frame) => this.parse(frame));
+  }
+
+  flush() {
+    return this.synchronizer.flush().map((frame) => this.parse(frame));
+  }
+
+  private parse(frame: Frame<LOASHeader>): LOASFrame {
+    try {
+      const AudioMuxElement = this.parser.parse(frame.data.subarray(3));
+      return { ...frame, AudioMuxElement, duration: audio_mux_element_duration(AudioMuxElement.StreamMuxConfig) };
+    } catch (e) {
+      if (!(e instanceof MalformedDataError || e instanceof UnexpectedEOFError)) throw e;
+      return frame;
+    }
+  }
+}
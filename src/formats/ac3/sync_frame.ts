@@ -0,0 +1,129 @@
+// ATSC A/52 5.3 Syntax, of syncinfo and bsi up to dialnorm, and E.1.2 Syntax of the E-AC-3 bit stream.
+// AC-3 and E-AC-3 sync frames are told apart by bsid, which both have at the same position.
+
+import { BitReader } from '../../reader.js';
+import { FrameFormat, FrameSynchronizer } from '../../frame_sync.js';
+
+// 5.4.2.4 Audio coding mode (acmod)
+export const enum AudioCodingMode {
+  dual_mono = 0,
+  mono = 1,
+  stereo = 2,
+  L_C_R = 3,
+  L_R_S = 4,
+  L_C_R_S = 5,
+  L_R_SL_SR = 6,
+  L_C_R_SL_SR = 7,
+}
+
+// E.1.3.1.1 Stream type (strmtyp)
+export const enum StreamType {
+  independent = 0,
+  dependent = 1,
+  AC3_convert = 2,
+}
+
+// Table 5.6 Sample Rate Codes, and Table E.1.3 Reduced Sampling Rates of fscod2
+const sampling_frequencies = [48000, 44100, 32000];
+const reduced_sampling_frequencies = [24000, 22050, 16000];
+
+// Table 5.18 Frame Size Code Table, nominal bit rate in kbit/s of frmsizecod >> 1
+const bitrates = [32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384, 448, 512, 576, 640];
+
+// Table E.1.4 Number of audio blocks per syncframe
+const blocks = [1, 2, 3, 6];
+
+// 5.3.1 Synchronization Information and 5.3.2 Bit Stream Information
+function parse_ac3_header(r: BitReader) {
+  const crc1 = r.uimsbf(16);
+  const fscod = r.uimsbf(2);
+  const frmsizecod = r.uimsbf(6);
+  const bsid = r.uimsbf(5);
+  const bsmod = r.uimsbf(3);
+  const acmod = r.uimsbf(3);
+  const optional: { cmixlev?: number; surmixlev?: number; dsurmod?: number } = {};
+  if ((acmod & 0x1) && acmod !== AudioCodingMode.mono) optional.cmixlev = r.uimsbf(2);
+  if (acmod & 0x4) optional.surmixlev = r.uimsbf(2);
+  if (acmod === AudioCodingMode.stereo) optional.dsurmod = r.uimsbf(2);
+  const lfeon = r.bslbf(1);
+  const dialnorm = r.uimsbf(5);
+  if (fscod === 3 || frmsizecod > 37) return undefined;
+  return { crc1, fscod, frmsizecod, bsid, bsmod, acmod, ...optional, lfeon, dialnorm };
+}
+
+// E.1.2.2 Bit stream information
+function parse_eac3_header(r: BitReader) {
+  const strmtyp = r.uimsbf(2);
+  const substreamid = r.uimsbf(3);
+  const frmsiz = r.uimsbf(11);
+  const fscod = r.uimsbf(2);
+  const optional: { fscod2?: number } = {};
+  let numblkscod = 3;
+  if (fscod === 3) {
+    optional.fscod2 = r.uimsbf(2);
+  } else {
+    numblkscod = r.uimsbf(2);
+  }
+  const acmod = r.uimsbf(3);
+  const lfeon = r.bslbf(1);
+  const bsid = r.uimsbf(5);
+  const dialnorm = r.uimsbf(5);
+  if (strmtyp === 3 || optional.fscod2 === 3) return undefined;
+  return { strmtyp, substreamid, frmsiz, fscod, ...optional, numblkscod, acmod, lfeon, bsid, dialnorm };
+}
+
+export function parse_sync_frame_header(data: Uint8Array, offset = 0) {
+  if (data[offset] !== 0x0b || data[offset + 1] !== 0x77) return undefined; // syncword
+  const bsid = data[offset + 5] >> 3;
+  const r = new BitReader(data.subarray(offset + 2, offset + 8));
+  // 5.4.2.1 bsid up to 8 is AC-3, of which decoders accept up to 10, and E.1.3.1.6 11 to 16 is E-AC-3
+  if (bsid <= 10) return parse_ac3_header(r);
+  if (bsid <= 16) return parse_eac3_header(r);
+  return undefined;
+}
+
+export type SyncFrameHeader = NonNullable<ReturnType<typeof parse_sync_frame_header>>;
+export type AC3Header = NonNullable<ReturnType<typeof parse_ac3_header>>;
+export type EAC3Header = NonNullable<ReturnType<typeof parse_eac3_header>>;
+
+export function is_eac3(header: SyncFrameHeader): header is EAC3Header {
+  return 'strmtyp' in header;
+}
+
+// in Hz
+export function sampling_frequency(header: SyncFrameHeader) {
+  if (is_eac3(header) && header.fscod2 !== undefined) return reduced_sampling_frequencies[header.fscod2];
+  return sampling_frequencies[header.fscod];
+}
+
+// Samples per channel of a sync frame, of 256 samples per audio block
+export function samples_per_frame(header: SyncFrameHeader) {
+  return is_eac3(header) ? 256 * blocks[header.numblkscod] : 1536;
+}
+
+// number of bytes of a sync frame, including syncinfo
+export function frame_length(header: SyncFrameHeader) {
+  if (is_eac3(header)) return (header.frmsiz + 1) * 2;
+  // 16 bit words: 44.1 kHz frames of odd frmsizecod have one more word
+  const words = Math.floor(bitrates[header.frmsizecod >> 1] * 96000 / sampling_frequency(header));
+  return (words + (header.fscod === 1 ? header.frmsizecod & 1 : 0)) * 2;
+}
+
+export const AC3: FrameFormat<SyncFrameHeader> = {
+  header_length: 8,
+  parse_header: parse_sync_frame_header,
+  frame_length,
+  same_stream: (header, next) => is_eac3(header) === is_eac3(next) && sampling_frequency(header) === sampling_frequency(next),
+  // Sync frames of dependent substreams, and of independent substreams after the first, are of the same time as the
+  // independent sync frame they follow, so only the first independent substream takes time.
+  duration: (header) => {
+    if (is_eac3(header) && (header.strmtyp === StreamType.dependent || header.substreamid !== 0)) return 0;
+    return samples_per_frame(header) * 90000 / sampling_frequency(header);
+  },
+};
+
+export class SyncFrameSynchronizer extends FrameSynchronizer<SyncFrameHeader> {
+  constructor() {
+    super(AC3);
+  }
+}
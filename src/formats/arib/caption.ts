@@ -0,0 +1,179 @@
+// ARIB STD-B24 Volume 3 Chapter 5 Independent PES transmission, and Volume 1 Part 3 Chapter 9 Transmission of captions
+// and superimposes: the data groups of the caption PES packets of private_stream_1 (synchronized) and
+// private_stream_2 (asynchronous), their caption management and caption statement data, and the cues of the text.
+
+import { BitReader } from '../../reader.js';
+import { Cue, CueBuilder } from '../captions/cues.js';
+import { CRCMismatchError } from '../mpeg2/psi.js';
+import { MalformedDataError, ParseOptions, SyntaxContext } from '../mpeg2/syntax.js';
+import { PESPacket } from '../mpeg2/pes.js';
+import { TimestampUnwrapper } from '../mpeg2/clock.js';
+import { decode_arib_caption_text } from './text.js';
+
+// data_identifier of the PES data packets
+export const enum DataIdentifier {
+  synchronized_PES = 0x80,
+  asynchronous_PES = 0x81,
+}
+
+// data_unit_parameter of the data units
+export const enum DataUnitParameter {
+  statement_body = 0x20,
+  geometric = 0x28,
+  synthesized_sound = 0x2C,
+  one_byte_DRCS = 0x30,
+  two_byte_DRCS = 0x31,
+  color_map = 0x34,
+  bit_map = 0x35,
+}
+
+// ITU-T CRC-16 of the data group, of x^16 + x^12 + x^5 + 1, which is 0 over the data group with its CRC_16
+function crc16(data: Uint8Array) {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i] << 8;
+    for (let j = 0; j < 8; j++) crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    crc &= 0xFFFF;
+  }
+  return crc;
+}
+
+// Synchronized and asynchronous PES data packet syntax, of the PES_packet_data
+export function parse_PES_data_packet(data: Uint8Array) {
+  const r = new BitReader(data);
+  const data_identifier = r.uimsbf(8);
+  const private_stream_id = r.uimsbf(8);
+  r.skip(4); // reserved_future_use
+  const PES_data_packet_header_length = r.uimsbf(4);
+  const PES_data_private_data_byte = r.bytes(PES_data_packet_header_length);
+  return {
+    data_identifier,
+    private_stream_id,
+    PES_data_private_data_byte,
+    data_group: parse_data_group(data.subarray(r.tell() >>> 3)),
+  };
+}
+
+// Data group syntax
+export function parse_data_group(data: Uint8Array) {
+  const r = new BitReader(data);
+  const data_group_id = r.uimsbf(6);
+  const data_group_version = r.uimsbf(2);
+  const data_group_link_number = r.uimsbf(8);
+  const last_data_group_link_number = r.uimsbf(8);
+  const data_group_size = r.uimsbf(16);
+  const data_group_data_byte = r.bytes(data_group_size);
+  const CRC_16 = r.uimsbf(16);
+  if (crc16(data.subarray(0, 5 + data_group_size + 2)) !== 0) throw new CRCMismatchError('CRC_16 mismatch');
+  return { data_group_id, data_group_version, data_group_link_number, last_data_group_link_number, data_group_data_byte, CRC_16 };
+}
+
+export type DataGroup = ReturnType<typeof parse_data_group>;
+
+// Data unit syntax, of the data_unit_loop_length bytes
+function parse_data_units(r: BitReader) {
+  const data_unit_loop_length = r.uimsbf(24);
+  const end = r.tell() + data_unit_loop_length * 8;
+  const data_units: { data_unit_parameter: number; data_unit_data_byte: Uint8Array }[] = [];
+  while (r.tell() < end) {
+    const unit_separator = r.uimsbf(8);
+    if (unit_separator !== 0x1F) throw new MalformedDataError(`unit_separator 0x${unit_separator.toString(16)} is not 0x1F`);
+    const data_unit_parameter = r.uimsbf(8);
+    const data_unit_size = r.uimsbf(24);
+    data_units.push({ data_unit_parameter, data_unit_data_byte: r.bytes(data_unit_size) });
+  }
+  return data_units;
+}
+
+// Caption management data syntax, of a data group of data_group_id 0x00 or 0x20
+export function parse_caption_management_data(data: Uint8Array) {
+  const r = new BitReader(data);
+  const TMD = r.uimsbf(2);
+  r.skip(6); // reserved
+  const optional: { OTM?: number } = {};
+  if (TMD === 0b10) {
+    optional.OTM = r.uimsbf(36);
+    r.skip(4); // reserved
+  }
+  const num_languages = r.uimsbf(8);
+  const languages: {
+    language_tag: number; DMF: number; DC?: number; ISO_639_language_code: string; Format: number; TCS: number; rollup_mode: number;
+  }[] = [];
+  for (let i = 0; i < num_languages; i++) {
+    const language_tag = r.uimsbf(3);
+    r.skip(1); // reserved
+    const DMF = r.uimsbf(4);
+    const DC = DMF === 0b1100 || DMF === 0b1101 || DMF === 0b1110 ? r.uimsbf(8) : undefined;
+    const ISO_639_language_code = String.fromCharCode(...r.bytes(3));
+    const Format = r.uimsbf(4);
+    const TCS = r.uimsbf(2);
+    const rollup_mode = r.uimsbf(2);
+    languages.push({ language_tag, DMF, ...(DC !== undefined ? { DC } : {}), ISO_639_language_code, Format, TCS, rollup_mode });
+  }
+  return { TMD, ...optional, num_languages, languages, data_units: parse_data_units(r) };
+}
+
+// Caption statement data syntax, of a data group of data_group_id 0x01-0x08 or 0x21-0x28
+export function parse_caption_statement_data(data: Uint8Array) {
+  const r = new BitReader(data);
+  const TMD = r.uimsbf(2);
+  r.skip(6); // reserved
+  const optional: { STM?: number } = {};
+  if (TMD === 0b01 || TMD === 0b10) {
+    optional.STM = r.uimsbf(36);
+    r.skip(4); // reserved
+  }
+  return { TMD, ...optional, data_units: parse_data_units(r) };
+}
+
+// Decodes the caption PES packets of a PID into cues of the languages of the caption management data, by their ISO
+// 639 language code. A statement replaces the text shown for its language from the PTS of its PES packet, and DRCS,
+// which have no Unicode equivalent, are given as GETA MARK. In lenient mode, a PES packet that cannot be parsed is
+// skipped with a warning.
+export class ARIBCaptionDecoder {
+  // by language_tag, of the last caption management data
+  private languages = new Map<number, string>();
+  private cues = new CueBuilder();
+  private unwrapper = new TimestampUnwrapper();
+  private time?: number;
+
+  constructor(private options: ParseOptions = {}, private PID?: number) { }
+
+  push(PES_packet: PESPacket) {
+    const cues: Cue[] = [];
+    const data = PES_packet.PES_packet_data;
+    if (data === undefined) return cues;
+    if (PES_packet.PTS !== undefined) this.time = this.unwrapper.unwrap(PES_packet.PTS);
+    // asynchronous PES packets, with no PTS, are shown at the time of the last one
+    if (this.time === undefined) return cues;
+    // the PES packets of other private data, such as DVB subtitles, are not of captions
+    if (data[0] !== DataIdentifier.synchronized_PES && data[0] !== DataIdentifier.asynchronous_PES) return cues;
+    try {
+      const { data_group } = parse_PES_data_packet(data);
+      // group A of 0x00-0x08 or group B of 0x20-0x28, of which only the language number is kept
+      const type = data_group.data_group_id & 0x0F;
+      if (type === 0) {
+        const management = parse_caption_management_data(data_group.data_group_data_byte);
+        this.languages = new Map(management.languages.map((language) => [language.language_tag, language.ISO_639_language_code]));
+      } else if (type <= 8) {
+        const statement = parse_caption_statement_data(data_group.data_group_data_byte);
+        const text = statement.data_units
+          .filter((unit) => unit.data_unit_parameter === DataUnitParameter.statement_body)
+          .map((unit) => decode_arib_caption_text(unit.data_unit_data_byte))
+          .join('');
+        // language_tag is the language number less 1
+        this.cues.set(this.languages.get(type - 1) ?? `language${type}`, text.trim(), this.time, cues);
+      }
+    } catch (e) {
+      new SyntaxContext(this.options, 'ARIB STD-B24', this.PID).recover(e, 'data_group');
+    }
+    return cues;
+  }
+
+  // Ends the cues shown, at a time or else at the PTS of the last PES packet
+  flush(time = this.time) {
+    const cues: Cue[] = [];
+    if (time !== undefined) this.cues.end(time, cues);
+    return cues;
+  }
+}
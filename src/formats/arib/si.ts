@@ -0,0 +1,85 @@
+// ARIB STD-B10 Part 2 Service information for digital broadcasting system
+// The tables shared with ETSI EN 300 468 are parsed by those of the DVB format, with text in the 8-bit character coding
+// of ARIB STD-B24 and times in JST. The broadcaster information table is added.
+
+import { BitReader } from '../../reader.js';
+import { Descriptor, DescriptorRegistry, parse_descriptors } from '../mpeg2/descriptors.js';
+import { parse_section_header, section_end } from '../mpeg2/psi.js';
+import { MalformedDataError, reserved_bits } from '../mpeg2/syntax.js';
+import { si_descriptor_registry } from '../dvb/descriptors.js';
+import { SIProfile, SISection, SITableID, parse_event_information_section, si_profile } from '../dvb/si.js';
+import { decode_arib_text } from './text.js';
+
+// JST, in which the times of the service information are
+export const JST_offset = 9 * 3600;
+
+// 5.1 PID allocation, of the PIDs not in ETSI EN 300 468
+export const enum ARIBPIDAssignment {
+  BIT = 0x0024,
+  H_EIT = 0x0027,
+  L_EIT = 0x0026,
+}
+
+// 5.1 table_id of the broadcaster information section
+export const broadcaster_information_table_id = 0xC4;
+
+// 6.1 descriptor_tag of the broadcaster name descriptor
+export const broadcaster_name_descriptor_tag = 0xD8;
+
+// 6.2.36 Broadcaster name descriptor
+export function parse_broadcaster_name_descriptor(r: BitReader, descriptor_length: number) {
+  return { broadcaster_name: decode_arib_text(r.bytes(descriptor_length)) };
+}
+
+export const arib_descriptor_registry = si_descriptor_registry(decode_arib_text, JST_offset)
+  .register(broadcaster_name_descriptor_tag, parse_broadcaster_name_descriptor);
+
+// 5.2.13 Broadcaster information section
+export function parse_broadcaster_information_section(section: Uint8Array, registry: DescriptorRegistry = arib_descriptor_registry) {
+  const [r, header] = parse_section_header(section, 1021, 1);
+  if (header.table_id !== broadcaster_information_table_id) {
+    throw new MalformedDataError(`Expected table_id ${broadcaster_information_table_id} but got ${header.table_id}`);
+  }
+  reserved_bits(r, 3); // reserved_future_use
+  const broadcast_view_propriety = r.bslbf(1);
+  const first_descriptors_length = r.uimsbf(12);
+  const descriptors = parse_descriptors(r, first_descriptors_length, registry);
+  const broadcasters: { broadcaster_id: number; descriptors: Descriptor[] }[] = [];
+  while (r.tell() < section_end(section)) {
+    const broadcaster_id = r.uimsbf(8);
+    reserved_bits(r, 4); // reserved_future_use
+    const broadcaster_descriptors_length = r.uimsbf(12);
+    broadcasters.push({ broadcaster_id, descriptors: parse_descriptors(r, broadcaster_descriptors_length, registry) });
+  }
+  return {
+    table_id: broadcaster_information_table_id as typeof broadcaster_information_table_id,
+    original_network_id: header.table_id_extension,
+    version_number: header.version_number,
+    current_next_indicator: header.current_next_indicator,
+    section_number: header.section_number,
+    last_section_number: header.last_section_number,
+    broadcast_view_propriety,
+    descriptors,
+    broadcasters,
+    CRC_32: r.uimsbf(32),
+  };
+}
+
+export type BroadcasterInformationSection = ReturnType<typeof parse_broadcaster_information_section>;
+
+const dvb_tables = si_profile(arib_descriptor_registry, JST_offset);
+
+// The tables of ETSI EN 300 468 and the BIT, including the EIT of the PIDs of terrestrial broadcasting
+export const arib_profile: SIProfile<SISection | BroadcasterInformationSection> = {
+  PIDs: [...dvb_tables.PIDs, ARIBPIDAssignment.BIT, ARIBPIDAssignment.L_EIT, ARIBPIDAssignment.H_EIT],
+  parse_section(section, PID) {
+    const table_id = section[0];
+    if (PID === ARIBPIDAssignment.BIT && table_id === broadcaster_information_table_id) {
+      return parse_broadcaster_information_section(section);
+    }
+    if ((PID === ARIBPIDAssignment.L_EIT || PID === ARIBPIDAssignment.H_EIT) && table_id >= SITableID.event_information_section_actual_present_following && table_id <= 0x6F) {
+      return parse_event_information_section(section, arib_descriptor_registry, JST_offset);
+    }
+    return dvb_tables.parse_section(section, PID);
+  },
+};
@@ -0,0 +1,265 @@
+// ARIB STD-B24 Volume 1 Part 2 Chapter 7 8-bit character coding, as used for the text of ARIB STD-B10 service
+// information and of captions. Mosaic and DRCS characters, which have no Unicode equivalent, are given as GETA MARK.
+
+import { additional_symbol } from './additional_symbols.js';
+
+// Table 7-3 Classification of code set and final byte
+const enum CodeSet {
+  Kanji = 0x42,
+  Alphanumeric = 0x4A,
+  Hiragana = 0x30,
+  Katakana = 0x31,
+  Mosaic_A = 0x32,
+  Mosaic_B = 0x33,
+  Mosaic_C = 0x34,
+  Mosaic_D = 0x35,
+  Proportional_alphanumeric = 0x36,
+  Proportional_hiragana = 0x37,
+  Proportional_katakana = 0x38,
+  JIS_X0201_katakana = 0x49,
+  JIS_compatible_Kanji_Plane_1 = 0x39,
+  JIS_compatible_Kanji_Plane_2 = 0x3A,
+  Additional_symbols = 0x3B,
+  Macro = 0x70,
+}
+
+type GraphicSet = { final: number; bytes: 1 | 2; DRCS: boolean };
+
+const geta = '〓';
+
+// Table 7-11 and 7-12 The characters 0x77-0x7E of the hiragana and katakana sets, which are not in row 4 and 5 of
+// JIS X 0208
+const hiragana_specials = 'ゝゞー。「」、・';
+const katakana_specials = 'ヽヾー。「」、・';
+
+// Table 7-16 Default macro statements, of which each designates a combination of sets and invokes G0 to GL and G2 to GR
+const default_macros = [
+  [0x1B, 0x24, 0x42, 0x1B, 0x29, 0x4A, 0x1B, 0x2A, 0x30],
+  [0x1B, 0x24, 0x42, 0x1B, 0x29, 0x31, 0x1B, 0x2A, 0x30],
+  [0x1B, 0x24, 0x42, 0x1B, 0x29, 0x20, 0x41, 0x1B, 0x2A, 0x30],
+  [0x1B, 0x28, 0x32, 0x1B, 0x29, 0x34, 0x1B, 0x2A, 0x35],
+  [0x1B, 0x28, 0x32, 0x1B, 0x29, 0x33, 0x1B, 0x2A, 0x35],
+  [0x1B, 0x28, 0x32, 0x1B, 0x29, 0x20, 0x41, 0x1B, 0x2A, 0x35],
+  [0x1B, 0x28, 0x20, 0x41, 0x1B, 0x29, 0x20, 0x42, 0x1B, 0x2A, 0x20, 0x43],
+  [0x1B, 0x28, 0x20, 0x44, 0x1B, 0x29, 0x20, 0x45, 0x1B, 0x2A, 0x20, 0x46],
+  [0x1B, 0x28, 0x20, 0x47, 0x1B, 0x29, 0x20, 0x48, 0x1B, 0x2A, 0x20, 0x49],
+  [0x1B, 0x28, 0x20, 0x4A, 0x1B, 0x29, 0x20, 0x4B, 0x1B, 0x2A, 0x20, 0x4B],
+  [0x1B, 0x28, 0x20, 0x4D, 0x1B, 0x29, 0x20, 0x4E, 0x1B, 0x2A, 0x20, 0x4F],
+  [0x1B, 0x24, 0x42, 0x1B, 0x29, 0x20, 0x42, 0x1B, 0x2A, 0x30],
+  [0x1B, 0x24, 0x42, 0x1B, 0x29, 0x20, 0x43, 0x1B, 0x2A, 0x30],
+  [0x1B, 0x24, 0x42, 0x1B, 0x29, 0x20, 0x44, 0x1B, 0x2A, 0x30],
+  [0x1B, 0x28, 0x31, 0x1B, 0x29, 0x30, 0x1B, 0x2A, 0x4A],
+  [0x1B, 0x28, 0x4A, 0x1B, 0x29, 0x32, 0x1B, 0x2A, 0x20, 0x41],
+].map((designations) => Uint8Array.from([...designations, 0x1B, 0x2B, 0x20, 0x70, 0x0F, 0x1B, 0x7D]));
+
+// Table 7-14 and 7-15 The number of parameter bytes of the control codes taking a fixed number of them
+const parameter_bytes = new Map([
+  [0x16, 1], // PAPF
+  [0x8B, 1], // SZX
+  [0x91, 1], // FLC
+  [0x93, 1], // POL
+  [0x94, 1], // WMM
+  [0x97, 1], // HLC
+]);
+
+let JIS_X0208: TextDecoder | undefined;
+
+// A row and column of JIS X 0208, by way of EUC-JP
+function jis_x0208(row: number, column: number) {
+  JIS_X0208 ??= new TextDecoder('euc-jp');
+  const character = JIS_X0208.decode(Uint8Array.of(row | 0x80, column | 0x80));
+  return character === '\uFFFD' ? geta : character;
+}
+
+class Decoder {
+  // 7.2 Initial state of the code sets for service information
+  G: GraphicSet[] = [
+    { final: CodeSet.Kanji, bytes: 2, DRCS: false },
+    { final: CodeSet.Alphanumeric, bytes: 1, DRCS: false },
+    { final: CodeSet.Hiragana, bytes: 1, DRCS: false },
+    { final: CodeSet.Katakana, bytes: 1, DRCS: false },
+  ];
+  GL = 0;
+  GR = 2;
+  // whether characters are in middle size, as set by MSZ and NSZ, for which alphanumerics are half-width
+  middle_size = false;
+  text = '';
+  private repeat = 1;
+
+  // Captions start with the macro set in G3, and position their rows by control codes, which are taken as line feeds
+  constructor(private captions = false) {
+    if (captions) this.G[3] = { final: CodeSet.Macro, bytes: 1, DRCS: false };
+  }
+
+  decode(data: Uint8Array) {
+    let i = 0;
+    while (i < data.length) {
+      const byte = data[i++];
+      if (byte >= 0x21 && byte <= 0x7E || byte >= 0xA1 && byte <= 0xFE) {
+        const set = this.G[byte < 0x80 ? this.GL : this.GR];
+        const second = set.bytes === 2 ? data[i++] : undefined;
+        if (set.bytes === 2 && second === undefined) break;
+        this.character(set, byte & 0x7F, second !== undefined ? second & 0x7F : 0);
+        continue;
+      }
+      switch (byte) {
+        case 0x0D: // APR
+          this.text += '\n';
+          break;
+        case 0x0C: // CS, clearing the screen
+          if (this.captions) this.text = '';
+          break;
+        case 0x0A: // APD
+        case 0x1C: // APS
+          if (this.captions && this.text !== '' && !this.text.endsWith('\n')) this.text += '\n';
+          if (byte === 0x1C) i += 2;
+          break;
+        case 0x0E: // LS1
+          this.GL = 1;
+          break;
+        case 0x0F: // LS0
+          this.GL = 0;
+          break;
+        case 0x19: // SS2
+        case 0x1D: { // SS3
+          const set = this.G[byte === 0x19 ? 2 : 3];
+          const first = data[i++];
+          const second = set.bytes === 2 ? data[i++] : 0;
+          if (first === undefined || second === undefined) return;
+          this.character(set, first & 0x7F, second & 0x7F);
+          break;
+        }
+        case 0x1B: // ESC
+          i = this.escape(data, i);
+          break;
+        case 0x20: // SP
+          this.text += (this.middle_size ? ' ' : '\u3000').repeat(this.repeat);
+          this.repeat = 1;
+          break;
+        case 0x89: // MSZ
+          this.middle_size = true;
+          break;
+        case 0x88: // SSZ
+        case 0x8A: // NSZ
+          this.middle_size = false;
+          break;
+        case 0x90: // COL
+        case 0x92: // CDC
+          i += data[i] === 0x20 ? 2 : 1;
+          break;
+        case 0x95: { // MACRO, of which the definition runs up to MACRO 0x4F
+          i++;
+          while (i < data.length && !(data[i - 1] === 0x95 && data[i] === 0x4F)) i++;
+          i++;
+          break;
+        }
+        case 0x98: // RPC, of which 0x40 repeats up to the end of the line, taken as once here
+          this.repeat = Math.max((data[i++] ?? 0x41) - 0x40, 1);
+          break;
+        case 0x9B: // CSI, up to the final byte
+          while (i < data.length && !(data[i] >= 0x40 && data[i] <= 0x6F)) i++;
+          i++;
+          break;
+        case 0x9D: // TIME
+          i += 2;
+          break;
+        default:
+          i += parameter_bytes.get(byte) ?? 0;
+      }
+    }
+  }
+
+  // 7.3 Code extension: designation of the graphic sets and invocation of G1-G3 by escape sequences
+  private escape(data: Uint8Array, i: number) {
+    const first = data[i++];
+    switch (first) {
+      case 0x6E: this.GL = 2; return i; // LS2
+      case 0x6F: this.GL = 3; return i; // LS3
+      case 0x7E: this.GR = 1; return i; // LS1R
+      case 0x7D: this.GR = 2; return i; // LS2R
+      case 0x7C: this.GR = 3; return i; // LS3R
+    }
+    let bytes: 1 | 2 = 1;
+    let n = 0;
+    let intermediate = first;
+    if (first === 0x24) {
+      bytes = 2;
+      intermediate = data[i];
+      // ESC 0x24 F designates G0, with no intermediate byte
+      if (intermediate >= 0x28 && intermediate <= 0x2B) {
+        i++;
+        n = intermediate - 0x28;
+      }
+    } else if (first >= 0x28 && first <= 0x2B) {
+      n = first - 0x28;
+    } else {
+      return i;
+    }
+    let DRCS = false;
+    if (data[i] === 0x20) {
+      DRCS = true;
+      i++;
+    }
+    const final = data[i++];
+    if (final === undefined) return i;
+    this.G[n] = { final, bytes, DRCS: DRCS && final !== CodeSet.Macro };
+    return i;
+  }
+
+  private character(set: GraphicSet, first: number, second: number) {
+    let character: string;
+    if (set.DRCS) {
+      character = geta;
+    } else if (set.final === CodeSet.Macro) {
+      const macro = default_macros[first - 0x60];
+      if (macro !== undefined) this.decode(macro);
+      return;
+    } else {
+      character = this.graphic_character(set, first, second);
+    }
+    this.text += character.repeat(this.repeat);
+    this.repeat = 1;
+  }
+
+  private graphic_character(set: GraphicSet, first: number, second: number) {
+    if (set.bytes === 2) {
+      switch (set.final) {
+        case CodeSet.Kanji:
+        case CodeSet.JIS_compatible_Kanji_Plane_1:
+          return additional_symbol(first, second) ?? jis_x0208(first, second);
+        case CodeSet.Additional_symbols:
+          return additional_symbol(first, second) ?? geta;
+      }
+      return geta;
+    }
+    switch (set.final) {
+      case CodeSet.Alphanumeric:
+      case CodeSet.Proportional_alphanumeric:
+        if (this.middle_size) return first === 0x5C ? '¥' : first === 0x7E ? '‾' : String.fromCharCode(first);
+        return first === 0x5C ? '￥' : first === 0x7E ? '￣' : String.fromCharCode(0xFF01 + first - 0x21);
+      case CodeSet.Hiragana:
+      case CodeSet.Proportional_hiragana:
+        return first >= 0x77 ? hiragana_specials[first - 0x77] : jis_x0208(0x24, first);
+      case CodeSet.Katakana:
+      case CodeSet.Proportional_katakana:
+        return first >= 0x77 ? katakana_specials[first - 0x77] : jis_x0208(0x25, first);
+      case CodeSet.JIS_X0201_katakana:
+        return first <= 0x5F ? String.fromCharCode(0xFF61 + first - 0x21) : geta;
+    }
+    return geta;
+  }
+}
+
+// Decodes a text field of ARIB STD-B10 service information into a string
+export function decode_arib_text(data: Uint8Array) {
+  const decoder = new Decoder();
+  decoder.decode(data);
+  return decoder.text;
+}
+
+// Decodes the statement body of a caption or superimpose into its text, from the last clearing of the screen
+export function decode_arib_caption_text(data: Uint8Array) {
+  const decoder = new Decoder(true);
+  decoder.decode(data);
+  return decoder.text;
+}
@@ -0,0 +1,96 @@
+// ATSC A/53 Part 4 6.2.3 Picture user data syntax: the caption data of CTA-608 and CTA-708 carried in video, in the
+// user_data of MPEG-2 video pictures and in the user_data_registered_itu_t_t35 SEI messages of H.264 and H.265
+// (ATSC A/72 Part 1)
+
+import { split_byte_stream } from '../h264/byte_stream.js';
+import { PayloadType, parse_sei_messages, parse_user_data_registered_itu_t_t35 } from '../h264/sei.js';
+import { StartCode } from '../mpeg2/video.js';
+import { BitReader } from '../../reader.js';
+
+// 'GA94', the ATSC_identifier of the user data
+export const ATSC_identifier = 0x47413934;
+
+// user_data_type_code
+export const enum UserDataTypeCode {
+  cc_data = 0x03,
+  bar_data = 0x06,
+}
+
+// cc_type
+export const enum CCType {
+  // CTA-608 line 21 field 1 and field 2 byte pairs
+  NTSC_CC_FIELD_1 = 0b00,
+  NTSC_CC_FIELD_2 = 0b01,
+  // CTA-708 DTVCC channel packet data, following a packet start
+  DTVCC_PACKET_DATA = 0b10,
+  DTVCC_PACKET_START = 0b11,
+}
+
+// The codecs of which the pictures carry cc_data
+export type VideoCodec = 'mpeg2video' | 'h264' | 'hevc';
+
+// Caption data syntax
+export function parse_cc_data(r: BitReader) {
+  r.skip(1); // reserved
+  const process_cc_data_flag = r.bslbf(1) === 1;
+  r.skip(1); // zero_bit, the additional_data_flag of CTA-708
+  const cc_count = r.uimsbf(5);
+  r.skip(8); // reserved, the em_data of CTA-708
+  const constructs: { cc_valid: boolean; cc_type: CCType; cc_data_1: number; cc_data_2: number }[] = [];
+  for (let i = 0; i < cc_count; i++) {
+    r.skip(5); // one_bit, reserved
+    const cc_valid = r.bslbf(1) === 1;
+    const cc_type = r.uimsbf(2);
+    const cc_data_1 = r.uimsbf(8);
+    const cc_data_2 = r.uimsbf(8);
+    constructs.push({ cc_valid, cc_type, cc_data_1, cc_data_2 });
+  }
+  return { process_cc_data_flag, cc_count, constructs };
+}
+
+export type CCData = ReturnType<typeof parse_cc_data>;
+
+// ATSC user data syntax, from its ATSC_identifier. The cc_data, or undefined where the user data is of another
+// type or not of ATSC.
+export function parse_ATSC_user_data(data: Uint8Array) {
+  const r = new BitReader(data);
+  if (r.left() < 40 || r.uimsbf(32) !== ATSC_identifier) return undefined;
+  const user_data_type_code = r.uimsbf(8);
+  if (user_data_type_code !== UserDataTypeCode.cc_data) return undefined;
+  return parse_cc_data(r);
+}
+
+// ATSC A/72 Part 1: the cc_data of a user_data_registered_itu_t_t35 SEI message of the United States with the
+// provider code of ATSC
+export function cc_data_of_itu_t_t35(message: ReturnType<typeof parse_user_data_registered_itu_t_t35>) {
+  const payload = message.itu_t_t35_payload_byte;
+  if (message.itu_t_t35_country_code !== 0xB5 || payload.length < 2 || (payload[0] << 8 | payload[1]) !== 0x0031) {
+    return undefined;
+  }
+  return parse_ATSC_user_data(payload.subarray(2));
+}
+
+// The cc_data of the pictures of an access unit, such as the PES_packet_data of a video PES packet, in the order they
+// are in
+export function cc_data_of_access_unit(data: Uint8Array, codec: VideoCodec) {
+  const cc_data: CCData[] = [];
+  const push = (value: CCData | undefined) => {
+    if (value !== undefined) cc_data.push(value);
+  };
+  for (const unit of split_byte_stream(data)) {
+    if (codec === 'mpeg2video') {
+      // the start code value, followed by the user data up to the next start code
+      if (unit[0] === StartCode.user_data) push(parse_ATSC_user_data(unit.subarray(1)));
+      continue;
+    }
+    // H.264 7.4.1 and H.265 7.4.2.2 nal_unit_type of SEI NAL units, and the length of their NAL unit header
+    const header_length = codec === 'h264' ? 1 : 2;
+    const is_SEI = codec === 'h264' ? (unit[0] & 0x1F) === 6 : ((unit[0] >> 1) & 0x3F) === 39 || ((unit[0] >> 1) & 0x3F) === 40;
+    if (!is_SEI || unit.length <= header_length) continue;
+    for (const message of parse_sei_messages(new BitReader(unit.subarray(header_length), { rbsp: true }))) {
+      if (message.payloadType !== PayloadType.user_data_registered_itu_t_t35) continue;
+      push(cc_data_of_itu_t_t35(parse_user_data_registered_itu_t_t35(new BitReader(message.payload))));
+    }
+  }
+  return cc_data;
+}
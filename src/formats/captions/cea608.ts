@@ -0,0 +1,297 @@
+// CTA-608-E Line 21 data services: the captions of the byte pairs of field 1 (CC1 and CC2) and field 2 (CC3 and CC4),
+// as carried in cc_data. Text mode and XDS are skipped, as are the colors and styles, which have no place in the cues.
+
+import { Cue, CueBuilder } from './cues.js';
+
+// the caption grid of 15 rows of 32 columns
+const row_count = 15;
+const column_count = 32;
+
+// the characters of the basic North American character set that differ from ASCII
+const basic_characters = new Map([
+  [0x2A, 'á'], [0x5C, 'é'], [0x5E, 'í'], [0x5F, 'ó'], [0x60, 'ú'], [0x7B, 'ç'], [0x7C, '÷'], [0x7D, 'Ñ'], [0x7E, 'ñ'],
+  [0x7F, '█'],
+]);
+
+// the special North American characters, of the second byte 0x30-0x3F after 0x11, of which 0x39 is a transparent space
+const special_characters = '®°½¿™¢£♪à èâêîôû';
+
+// the extended Western European characters, of the second byte 0x20-0x3F after 0x12 and after 0x13
+const extended_characters = [
+  'ÁÉÓÚÜü‘¡*’—©℠•“”ÀÂÇÈÊËëÎÏïÔÙùÛ«»',
+  'ÃãÍÌìÒòÕõ{}\\^_|~ÄäÖöß¥¤¦ÅåØø┌┐└┘',
+];
+
+// the row of a preamble address code, by the low 3 bits of its first byte, and bit 5 of its second byte
+const PAC_rows = [
+  [10, 10],
+  [0, 1],
+  [2, 3],
+  [11, 12],
+  [13, 14],
+  [4, 5],
+  [6, 7],
+  [8, 9],
+];
+
+// miscellaneous control codes, of the second byte after 0x14, 0x15, 0x1C or 0x1D
+const enum Command {
+  RCL = 0x20, // resume caption loading
+  BS = 0x21, // backspace
+  AOF = 0x22, // reserved, formerly alarm off
+  AON = 0x23, // reserved, formerly alarm on
+  DER = 0x24, // delete to end of row
+  RU2 = 0x25, // roll-up captions, 2 rows
+  RU3 = 0x26,
+  RU4 = 0x27,
+  FON = 0x28, // flash on
+  RDC = 0x29, // resume direct captioning
+  TR = 0x2A, // text restart
+  RTD = 0x2B, // resume text display
+  EDM = 0x2C, // erase displayed memory
+  CR = 0x2D, // carriage return
+  ENM = 0x2E, // erase non-displayed memory
+  EOC = 0x2F, // end of caption
+}
+
+// Odd parity of the 7 bit characters of line 21
+function odd_parity(byte: number) {
+  let n = 0;
+  for (let b = byte; b !== 0; b >>= 1) n += b & 1;
+  return (n & 1) === 1;
+}
+
+function blank_memory() {
+  return Array.from({ length: row_count }, () => new Array<string>(column_count).fill(''));
+}
+
+// The text of a caption memory, of the rows with characters
+function memory_text(memory: string[][]) {
+  return memory
+    .map((row) => row.map((character) => character === '' ? ' ' : character).join('').trim())
+    .filter((row) => row !== '')
+    .join('\n');
+}
+
+// The caption modes of a data channel, with its displayed and non-displayed memory
+class DataChannel {
+  mode: 'pop-on' | 'roll-up' | 'paint-on' | 'text' = 'pop-on';
+  displayed = blank_memory();
+  non_displayed = blank_memory();
+  row = row_count - 1;
+  column = 0;
+  // number of rows of the roll-up window, of which the cursor row is the base row
+  roll_up_rows = 2;
+  // the time of the first change of the displayed memory since the display was last given to the cues
+  changed_at?: number;
+
+  private get memory() {
+    return this.mode === 'pop-on' ? this.non_displayed : this.displayed;
+  }
+
+  private changed(time: number) {
+    if (this.mode !== 'pop-on') this.changed_at ??= time;
+  }
+
+  write(character: string, time: number) {
+    if (this.mode === 'text') return;
+    this.memory[this.row][this.column] = character;
+    if (this.column < column_count - 1) this.column++;
+    this.changed(time);
+  }
+
+  backspace(time: number) {
+    if (this.mode === 'text' || this.column === 0) return;
+    this.column--;
+    this.memory[this.row][this.column] = '';
+    this.changed(time);
+  }
+
+  // A preamble address code: the row and the indent of the cursor
+  preamble_address(first: number, second: number) {
+    const row = PAC_rows[first & 0x07][(second & 0x20) >> 5];
+    if (this.mode === 'roll-up') {
+      // the roll-up window moves to the new base row, with the rows in it
+      const base = Math.max(row, this.roll_up_rows - 1);
+      if (base !== this.row) {
+        const window = this.displayed.slice(this.row - this.roll_up_rows + 1, this.row + 1);
+        this.displayed = blank_memory();
+        this.displayed.splice(base - this.roll_up_rows + 1, this.roll_up_rows, ...window);
+      }
+      this.row = base;
+    } else {
+      this.row = row;
+    }
+    // attributes of 0x40-0x4F, or indents of 4 columns of 0x50-0x5F, of which bit 0 is underline
+    this.column = (second & 0x10) !== 0 ? ((second & 0x0E) >> 1) * 4 : 0;
+  }
+
+  command(command: Command, time: number) {
+    switch (command) {
+      case Command.RCL:
+        this.set_mode('pop-on');
+        break;
+      case Command.BS:
+        this.backspace(time);
+        break;
+      case Command.DER:
+        if (this.mode === 'text') break;
+        this.memory[this.row].fill('', this.column);
+        this.changed(time);
+        break;
+      case Command.RU2:
+      case Command.RU3:
+      case Command.RU4: {
+        const rows = command - Command.RU2 + 2;
+        if (this.mode !== 'roll-up') {
+          this.displayed = blank_memory();
+          this.non_displayed = blank_memory();
+          this.row = row_count - 1;
+          this.column = 0;
+        }
+        this.mode = 'roll-up';
+        this.roll_up_rows = rows;
+        this.row = Math.max(this.row, rows - 1);
+        // the rows above the window are erased
+        for (let row = 0; row <= this.row - rows; row++) this.displayed[row].fill('');
+        break;
+      }
+      case Command.RDC:
+        this.set_mode('paint-on');
+        break;
+      case Command.TR:
+      case Command.RTD:
+        this.set_mode('text');
+        break;
+      case Command.EDM:
+        this.displayed = blank_memory();
+        break;
+      case Command.CR:
+        if (this.mode === 'roll-up') {
+          // the rows of the window roll up by one, with the top one erased
+          const top = this.row - this.roll_up_rows + 1;
+          this.displayed.splice(top, 1);
+          this.displayed.splice(this.row, 0, new Array<string>(column_count).fill(''));
+          this.changed(time);
+        } else if (this.mode !== 'text' && this.row < row_count - 1) {
+          this.row++;
+        }
+        this.column = 0;
+        break;
+      case Command.ENM:
+        this.non_displayed = blank_memory();
+        break;
+      case Command.EOC:
+        [this.displayed, this.non_displayed] = [this.non_displayed, this.displayed];
+        if (this.mode === 'text') this.mode = 'pop-on';
+        break;
+    }
+  }
+
+  private set_mode(mode: DataChannel['mode']) {
+    // roll-up captions are erased on leaving roll-up mode
+    if (this.mode === 'roll-up' && mode !== 'roll-up' && mode !== 'text') this.displayed = blank_memory();
+    this.mode = mode;
+  }
+}
+
+// Decodes the byte pairs of both fields into cues of the channels CC1-CC4. Pairs are pushed in presentation order with
+// the time of the picture carrying them, and a cue starts when its text is displayed, at the first character for
+// roll-up and paint-on captions.
+export class CEA608Decoder {
+  // CC1, CC2, CC3, CC4
+  private channels = [new DataChannel(), new DataChannel(), new DataChannel(), new DataChannel()];
+  // of field 1 and 2, the data channel of the last control code, the last control code, whether XDS is being sent
+  private fields = [
+    { channel: 0, last_control: undefined as number | undefined, XDS: false },
+    { channel: 0, last_control: undefined as number | undefined, XDS: false },
+  ];
+  private cues = new CueBuilder();
+  private time?: number;
+
+  push(field: 1 | 2, cc_data_1: number, cc_data_2: number, time: number) {
+    const cues: Cue[] = [];
+    this.time = time;
+    const state = this.fields[field - 1];
+    let first = cc_data_1 & 0x7F;
+    let second = cc_data_2 & 0x7F;
+    const is_control = first >= 0x10 && first <= 0x1F;
+    // a control code with a parity error is ignored, and a character with one is shown as a solid block
+    if (!odd_parity(cc_data_1)) {
+      if (is_control) return cues;
+      first = 0x7F;
+    }
+    if (!odd_parity(cc_data_2)) {
+      if (is_control) return cues;
+      second = 0x7F;
+    }
+    if (first === 0x00 && second === 0x00) return cues;
+    // XDS packets of field 2 from a control character 0x01-0x0E, up to the End character 0x0F and its checksum
+    if (field === 2 && first >= 0x01 && first <= 0x0F) {
+      state.XDS = first !== 0x0F;
+      return cues;
+    }
+    if (!is_control) {
+      state.last_control = undefined;
+      if (state.XDS) return cues;
+      const channel = this.channels[(field - 1) * 2 + state.channel];
+      for (const byte of [first, second]) {
+        if (byte >= 0x20) channel.write(basic_characters.get(byte) ?? String.fromCharCode(byte), time);
+      }
+      return cues;
+    }
+    // control codes are sent twice, of which the second is ignored
+    const code = first << 8 | second;
+    if (state.last_control === code) {
+      state.last_control = undefined;
+      return cues;
+    }
+    state.last_control = code;
+    state.XDS = false;
+    if (second < 0x20) return cues;
+    state.channel = (first & 0x08) >> 3;
+    const index = (field - 1) * 2 + state.channel;
+    const channel = this.channels[index];
+    const group = first & 0x07;
+    if (second < 0x40 && group >= 0x01 && group <= 0x03) {
+      if (group === 0x01 && second < 0x30) {
+        // mid-row codes, shown as a space
+        channel.write(' ', time);
+      } else if (group === 0x01) {
+        channel.write(special_characters[second - 0x30], time);
+      } else {
+        // an extended character replaces the basic character sent before it for older decoders
+        channel.backspace(time);
+        channel.write(extended_characters[group - 0x02][second - 0x20], time);
+      }
+      return cues;
+    }
+    // the text written up to the code is shown before the code changes it, as a carriage return rolls it up
+    if (channel.changed_at !== undefined) this.update(index, time, cues);
+    if (second >= 0x40) {
+      channel.preamble_address(group, second);
+    } else if ((group === 0x04 || group === 0x05) && second < 0x30) {
+      channel.command(second, time);
+    } else if (group === 0x07 && second >= 0x21 && second <= 0x23) {
+      // tab offsets of 1 to 3 columns
+      channel.column = Math.min(channel.column + second - 0x20, column_count - 1);
+    }
+    this.update(index, time, cues);
+    return cues;
+  }
+
+  // Ends the cues shown, at a time or else at the time of the last pair
+  flush(time = this.time) {
+    const cues: Cue[] = [];
+    if (time === undefined) return cues;
+    this.channels.forEach((_, index) => this.update(index, time, cues));
+    this.cues.end(time, cues);
+    return cues;
+  }
+
+  private update(index: number, time: number, cues: Cue[]) {
+    const channel = this.channels[index];
+    this.cues.set(`CC${index + 1}`, memory_text(channel.displayed), channel.changed_at ?? time, cues);
+    channel.changed_at = undefined;
+  }
+}
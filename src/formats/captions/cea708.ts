@@ -0,0 +1,353 @@
+// CTA-708-E Digital television closed captioning: the DTVCC packets of the caption channel carried in cc_data, their
+// service blocks, and the text of the windows of each service. Pen and window attributes, which have no place in the
+// cues, are skipped, and delays are not applied.
+
+import { Cue, CueBuilder } from './cues.js';
+
+// DTVCC caption channel packet syntax, of a packet complete or cut short. A block that does not fit in the data is
+// left out.
+export function parse_DTVCC_packet(data: Uint8Array) {
+  const sequence_number = data[0] >> 6;
+  const packet_size_code = data[0] & 0x3F;
+  const service_blocks: { service_number: number; block_data: Uint8Array }[] = [];
+  // packet_size_code 0 is of 128 bytes, the others of 2 bytes each
+  const end = Math.min(data.length, packet_size_code === 0 ? 128 : packet_size_code * 2);
+  let i = 1;
+  while (i < end) {
+    let service_number = data[i] >> 5;
+    const block_size = data[i] & 0x1F;
+    i++;
+    // a null service block header ends the service blocks of the packet
+    if (service_number === 0) break;
+    if (service_number === 7 && block_size !== 0) {
+      if (i >= end) break;
+      service_number = data[i++] & 0x3F; // extended_service_number, after null_fill
+    }
+    if (i + block_size > end) break;
+    service_blocks.push({ service_number, block_data: data.subarray(i, i + block_size) });
+    i += block_size;
+  }
+  return { sequence_number, packet_size_code, service_blocks };
+}
+
+export type DTVCCPacket = ReturnType<typeof parse_DTVCC_packet>;
+
+// C0 code set
+const enum C0 {
+  NUL = 0x00,
+  ETX = 0x03,
+  BS = 0x08,
+  FF = 0x0C,
+  CR = 0x0D,
+  HCR = 0x0E,
+  EXT1 = 0x10,
+  P16 = 0x18,
+}
+
+// C1 code set
+const enum C1 {
+  CW0 = 0x80, // CW0-CW7 set current window
+  CLW = 0x88, // clear windows
+  DSW = 0x89, // display windows
+  HDW = 0x8A, // hide windows
+  TGW = 0x8B, // toggle windows
+  DLW = 0x8C, // delete windows
+  DLY = 0x8D, // delay
+  DLC = 0x8E, // delay cancel
+  RST = 0x8F, // reset
+  SPA = 0x90, // set pen attributes
+  SPC = 0x91, // set pen color
+  SPL = 0x92, // set pen location
+  SWA = 0x97, // set window attributes
+  DF0 = 0x98, // DF0-DF7 define window
+}
+
+// Number of parameter bytes of the C1 codes 0x80-0x9F
+const C1_parameter_bytes = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1, 0, 0, 2, 3, 2, 0, 0, 0, 0, 4, 6, 6, 6, 6, 6, 6, 6, 6];
+
+// G2 code set, of the characters not in G0 or G1
+const G2_characters = new Map([
+  [0x20, ' '], [0x21, ' '], [0x25, '…'], [0x2A, 'Š'], [0x2C, 'Œ'], [0x30, '█'], [0x31, '‘'], [0x32, '’'],
+  [0x33, '“'], [0x34, '”'], [0x35, '•'], [0x39, '™'], [0x3A, 'š'], [0x3C, 'œ'], [0x3D, '℠'], [0x3F, 'Ÿ'],
+  [0x76, '⅛'], [0x77, '⅜'], [0x78, '⅝'], [0x79, '⅞'], [0x7A, '│'], [0x7B, '┐'], [0x7C, '└'], [0x7D, '─'],
+  [0x7E, '┘'], [0x7F, '┌'],
+]);
+
+// a character of G2 or G3 that has no Unicode equivalent, such as the [CC] icon
+const unsupported = '_';
+
+type Window = {
+  visible: boolean;
+  priority: number;
+  anchor_vertical: number;
+  row_count: number;
+  column_count: number;
+  rows: string[][];
+  row: number;
+  column: number;
+};
+
+function window_text(window: Window) {
+  return window.rows
+    .map((row) => Array.from(row, (character) => character ?? ' ').join('').trim())
+    .filter((row) => row !== '')
+    .join('\n');
+}
+
+// The windows of a caption service, of which the visible ones are displayed
+class Service {
+  private windows: (Window | undefined)[] = new Array(8).fill(undefined);
+  private current?: number;
+  // the time of the first change of a visible window since the display was last given to the cues
+  changed_at?: number;
+
+  get text() {
+    return this.windows
+      .filter((window): window is Window => window !== undefined && window.visible)
+      .sort((a, b) => a.priority - b.priority || a.anchor_vertical - b.anchor_vertical)
+      .map(window_text)
+      .filter((text) => text !== '')
+      .join('\n');
+  }
+
+  private get window() {
+    return this.current !== undefined ? this.windows[this.current] : undefined;
+  }
+
+  private changed(window: Window, time: number) {
+    if (window.visible) this.changed_at ??= time;
+  }
+
+  // Decodes a service block, calling update to give the text displayed before and after the codes that change it
+  decode(data: Uint8Array, time: number, update: () => void) {
+    let i = 0;
+    while (i < data.length) {
+      const code = data[i++];
+      if (code === C0.EXT1) {
+        if (i >= data.length) return;
+        i = this.extended(data, i, time);
+      } else if (code < 0x20) {
+        // C0 codes of 0x10-0x17 have 1 parameter byte, and those of 0x18-0x1F 2
+        const n = code < 0x10 ? 0 : code < 0x18 ? 1 : 2;
+        if (i + n > data.length) return;
+        if (code === C0.P16) {
+          this.write(String.fromCharCode(data[i] << 8 | data[i + 1]), time);
+        } else {
+          // the text written up to a code that moves or clears rows is shown before it, as a carriage return scrolls
+          if ((code === C0.FF || code === C0.CR || code === C0.HCR) && this.changed_at !== undefined) update();
+          if (this.control(code, time)) update();
+        }
+        i += n;
+      } else if (code < 0x80) {
+        // G0, ASCII but for the music note
+        this.write(code === 0x7F ? '♪' : String.fromCharCode(code), time);
+      } else if (code < 0xA0) {
+        const n = C1_parameter_bytes[code - 0x80];
+        if (i + n > data.length) return;
+        const displays = code >= C1.CLW && code <= C1.DLW || code === C1.RST || code >= C1.DF0;
+        if (displays && this.changed_at !== undefined) update();
+        this.command(code, data.subarray(i, i + n), time);
+        i += n;
+        if (displays) update();
+      } else {
+        // G1, ISO 8859-1
+        this.write(String.fromCharCode(code), time);
+      }
+    }
+  }
+
+  // The code after EXT1, of C2, G2, C3 or G3, returning the index after it
+  private extended(data: Uint8Array, i: number, time: number) {
+    const code = data[i++];
+    if (code < 0x20) {
+      // C2, with 0-3 parameter bytes by the code
+      return i + (code >> 3);
+    }
+    if (code < 0x80) {
+      this.write(G2_characters.get(code) ?? unsupported, time);
+      return i;
+    }
+    if (code < 0x90) {
+      // C3, with 4 or 5 parameter bytes
+      return i + (code < 0x88 ? 4 : 5);
+    }
+    if (code < 0xA0) {
+      // C3 variable length codes, of which the length is in the low 5 bits of the next byte
+      return i + 1 + ((data[i] ?? 0) & 0x1F);
+    }
+    this.write(unsupported, time);
+    return i;
+  }
+
+  private write(character: string, time: number) {
+    const window = this.window;
+    if (window === undefined) return;
+    window.rows[window.row][window.column++] = character;
+    this.changed(window, time);
+  }
+
+  // The C0 codes, giving whether the display is to be updated
+  private control(code: number, time: number) {
+    const window = this.window;
+    if (code === C0.ETX) return true;
+    if (window === undefined) return false;
+    switch (code) {
+      case C0.BS:
+        if (window.column > 0) {
+          window.column--;
+          window.rows[window.row][window.column] = ' ';
+          this.changed(window, time);
+        }
+        return false;
+      case C0.FF:
+        window.rows = blank_rows(window.row_count);
+        window.row = 0;
+        window.column = 0;
+        this.changed(window, time);
+        return true;
+      case C0.CR:
+        window.row++;
+        if (window.row >= window.row_count) {
+          // the rows scroll up, with the top one removed
+          window.rows.shift();
+          window.rows.push([]);
+          window.row = window.row_count - 1;
+          this.changed(window, time);
+        }
+        window.column = 0;
+        return true;
+      case C0.HCR:
+        window.rows[window.row] = [];
+        window.column = 0;
+        this.changed(window, time);
+        return true;
+    }
+    return false;
+  }
+
+  private command(code: number, parameters: Uint8Array, time: number) {
+    // the windows of the bitmap parameter of CLW, DSW, HDW, TGW and DLW
+    const windows = () => this.windows.filter((window, id): window is Window => window !== undefined && (parameters[0] & (1 << id)) !== 0);
+    if (code >= C1.CW0 && code < C1.CW0 + 8) {
+      if (this.windows[code - C1.CW0] !== undefined) this.current = code - C1.CW0;
+      return;
+    }
+    if (code >= C1.DF0) {
+      this.define_window(code - C1.DF0, parameters);
+      return;
+    }
+    switch (code) {
+      case C1.CLW:
+        for (const window of windows()) {
+          window.rows = blank_rows(window.row_count);
+          this.changed(window, time);
+        }
+        break;
+      case C1.DSW:
+        for (const window of windows()) window.visible = true;
+        break;
+      case C1.HDW:
+        for (const window of windows()) window.visible = false;
+        break;
+      case C1.TGW:
+        for (const window of windows()) window.visible = !window.visible;
+        break;
+      case C1.DLW:
+        for (let id = 0; id < 8; id++) {
+          if ((parameters[0] & (1 << id)) === 0) continue;
+          this.windows[id] = undefined;
+          if (this.current === id) this.current = undefined;
+        }
+        break;
+      case C1.RST:
+        this.windows.fill(undefined);
+        this.current = undefined;
+        break;
+      case C1.SPL: {
+        const window = this.window;
+        if (window === undefined) break;
+        window.row = Math.min(parameters[0] & 0x0F, window.row_count - 1);
+        window.column = parameters[1] & 0x3F;
+        break;
+      }
+    }
+  }
+
+  // DefineWindow: creates a window, or changes the attributes of one already defined, and makes it the current window
+  private define_window(id: number, parameters: Uint8Array) {
+    const visible = (parameters[0] & 0x20) !== 0;
+    const priority = parameters[0] & 0x07;
+    const anchor_vertical = parameters[1] & 0x7F;
+    const row_count = (parameters[3] & 0x0F) + 1;
+    const column_count = (parameters[4] & 0x3F) + 1;
+    const window = this.windows[id];
+    if (window === undefined) {
+      this.windows[id] = { visible, priority, anchor_vertical, row_count, column_count, rows: blank_rows(row_count), row: 0, column: 0 };
+    } else {
+      Object.assign(window, { visible, priority, anchor_vertical, row_count, column_count });
+      // the rows past the new row count are removed from the top
+      while (window.rows.length > row_count) window.rows.shift();
+      while (window.rows.length < row_count) window.rows.push([]);
+      window.row = Math.min(window.row, row_count - 1);
+    }
+    this.current = id;
+  }
+}
+
+function blank_rows(row_count: number): string[][] {
+  return Array.from({ length: row_count }, () => []);
+}
+
+// Decodes the DTVCC packets of cc_data into cues of the services SERVICE1-SERVICE63. Constructs are pushed in
+// presentation order with the time of the picture carrying them.
+export class CEA708Decoder {
+  // the packet being received, from its header
+  private packet?: number[];
+  private services = new Map<number, Service>();
+  private cues = new CueBuilder();
+  private time?: number;
+
+  // A valid cc_data construct of cc_type DTVCC_PACKET_START or DTVCC_PACKET_DATA
+  push(start: boolean, cc_data_1: number, cc_data_2: number, time: number) {
+    const cues: Cue[] = [];
+    this.time = time;
+    if (start) {
+      // a packet cut short ends where the next starts
+      if (this.packet !== undefined) this.decode(this.packet, time, cues);
+      this.packet = [];
+    }
+    if (this.packet === undefined) return cues;
+    this.packet.push(cc_data_1, cc_data_2);
+    const packet_size_code = this.packet[0] & 0x3F;
+    if (this.packet.length >= (packet_size_code === 0 ? 128 : packet_size_code * 2)) {
+      this.decode(this.packet, time, cues);
+      this.packet = undefined;
+    }
+    return cues;
+  }
+
+  // Ends the cues shown, at a time or else at the time of the last construct
+  flush(time = this.time) {
+    const cues: Cue[] = [];
+    if (time === undefined) return cues;
+    if (this.packet !== undefined) this.decode(this.packet, time, cues);
+    this.packet = undefined;
+    this.cues.end(time, cues);
+    return cues;
+  }
+
+  private decode(packet: number[], time: number, cues: Cue[]) {
+    for (const { service_number, block_data } of parse_DTVCC_packet(Uint8Array.from(packet)).service_blocks) {
+      let service = this.services.get(service_number);
+      if (service === undefined) {
+        service = new Service();
+        this.services.set(service_number, service);
+      }
+      const update = () => {
+        this.cues.set(`SERVICE${service_number}`, service!.text, service!.changed_at ?? time, cues);
+        service!.changed_at = undefined;
+      };
+      service.decode(block_data, time, update);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+// The CTA-608 and CTA-708 closed captions of a video PES stream, from the cc_data of its pictures, timed by the PTS of
+// the PES packets
+
+import { TimestampUnwrapper } from '../mpeg2/clock.js';
+import { PESPacket } from '../mpeg2/pes.js';
+import { ParseOptions, SyntaxContext } from '../mpeg2/syntax.js';
+import { CCData, CCType, VideoCodec, cc_data_of_access_unit } from './cc_data.js';
+import { CEA608Decoder } from './cea608.js';
+import { CEA708Decoder } from './cea708.js';
+import { Cue } from './cues.js';
+
+// Number of access units held to put them in presentation order, more than the pictures reordered by any profile
+const reorder_depth = 16;
+
+// Decodes the PES packets of a video PID, each with an access unit, into cues of the channels CC1-CC4 and the services
+// SERVICE1-SERVICE63. Pictures come in decoding order, so their cc_data is held until it can be given in presentation
+// order. In lenient mode, the cc_data of an access unit that cannot be parsed is skipped with a warning.
+export class ClosedCaptionDecoder {
+  private CEA608 = new CEA608Decoder();
+  private CEA708 = new CEA708Decoder();
+  private unwrapper = new TimestampUnwrapper();
+  // the cc_data of the access units not given yet, by PTS
+  private pending: { time: number; cc_data: CCData[] }[] = [];
+  private time?: number;
+
+  constructor(private codec: VideoCodec, private options: ParseOptions = {}, private PID?: number) { }
+
+  push(PES_packet: PESPacket) {
+    const cues: Cue[] = [];
+    if (PES_packet.PTS !== undefined) this.time = this.unwrapper.unwrap(PES_packet.PTS);
+    // an access unit with no PTS is taken to be shown with the one before
+    if (this.time === undefined || PES_packet.PES_packet_data === undefined) return cues;
+    let cc_data: CCData[];
+    try {
+      cc_data = cc_data_of_access_unit(PES_packet.PES_packet_data, this.codec);
+    } catch (e) {
+      new SyntaxContext(this.options, 'ATSC A/53 Part 4 6.2.3', this.PID).recover(e, 'cc_data');
+      return cues;
+    }
+    if (cc_data.length === 0) return cues;
+    const time = this.time;
+    let i = this.pending.length;
+    while (i > 0 && this.pending[i - 1].time > time) i--;
+    this.pending.splice(i, 0, { time, cc_data });
+    while (this.pending.length > reorder_depth) this.decode(this.pending.shift()!, cues);
+    return cues;
+  }
+
+  // Ends the cues shown, at a time on the timeline of the cues or else at the PTS of the last access unit
+  flush(time?: number) {
+    const cues: Cue[] = [];
+    for (const access_unit of this.pending) this.decode(access_unit, cues);
+    this.pending = [];
+    cues.push(...this.CEA608.flush(time), ...this.CEA708.flush(time));
+    return cues;
+  }
+
+  private decode({ time, cc_data }: { time: number; cc_data: CCData[] }, cues: Cue[]) {
+    for (const { process_cc_data_flag, constructs } of cc_data) {
+      if (!process_cc_data_flag) continue;
+      for (const { cc_valid, cc_type, cc_data_1, cc_data_2 } of constructs) {
+        if (!cc_valid) continue;
+        if (cc_type === CCType.NTSC_CC_FIELD_1 || cc_type === CCType.NTSC_CC_FIELD_2) {
+          cues.push(...this.CEA608.push(cc_type === CCType.NTSC_CC_FIELD_1 ? 1 : 2, cc_data_1, cc_data_2, time));
+        } else {
+          cues.push(...this.CEA708.push(cc_type === CCType.DTVCC_PACKET_START, cc_data_1, cc_data_2, time));
+        }
+      }
+    }
+  }
+}
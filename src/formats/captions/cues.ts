@@ -0,0 +1,69 @@
+// Timed captions, as decoded from CTA-608, CTA-708 and ARIB STD-B24, and their output as WebVTT and SubRip text
+
+export type Cue = {
+  // in units of the 90 kHz PTS clock, unwrapped, from the PTS of the access unit or PES packet that shows the text
+  // up to that of the one that removes it
+  start: number;
+  end: number;
+  // rows joined by line feeds
+  text: string;
+  // CC1-CC4 of CTA-608, SERVICE1-SERVICE63 of CTA-708, or the ISO 639 language code of ARIB STD-B24 captions, which
+  // is language1-language8 before the caption management data gives it
+  track: string;
+};
+
+// Open cues of the tracks of a decoder, each ended where the text of its track changes
+export class CueBuilder {
+  private open = new Map<string, { start: number; text: string }>();
+
+  // Sets the text shown on a track from a time on, of which an empty text shows nothing
+  set(track: string, text: string, time: number, cues: Cue[]) {
+    const current = this.open.get(track);
+    if (current !== undefined && current.text === text) return;
+    if (current !== undefined) {
+      if (time > current.start) cues.push({ start: current.start, end: time, text: current.text, track });
+      this.open.delete(track);
+    }
+    if (text !== '') this.open.set(track, { start: time, text });
+  }
+
+  // Ends the cues of all tracks at a time
+  end(time: number, cues: Cue[]) {
+    for (const track of [...this.open.keys()]) this.set(track, '', time, cues);
+  }
+}
+
+// hh:mm:ss.ttt of WebVTT, or hh:mm:ss,ttt of SubRip
+function timestamp(time: number, separator: '.' | ',') {
+  const milliseconds = Math.max(0, Math.round(time / 90));
+  const hours = Math.floor(milliseconds / 3_600_000);
+  const minutes = Math.floor(milliseconds / 60_000) % 60;
+  const seconds = Math.floor(milliseconds / 1000) % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+    + `${separator}${String(milliseconds % 1000).padStart(3, '0')}`;
+}
+
+// The times of cues relative to an origin, which is the PTS at which the media starts such as the first PTS of the
+// video, or else the start of the first cue
+function relative_to(cues: Cue[], origin?: number) {
+  const start = origin ?? Math.min(...cues.map((cue) => cue.start));
+  return [...cues].sort((a, b) => a.start - b.start).map((cue) => ({ ...cue, start: cue.start - start, end: cue.end - start }));
+}
+
+// W3C WebVTT: A web video text tracks format
+export function to_WebVTT(cues: Cue[], origin?: number) {
+  let text = 'WEBVTT\n';
+  for (const cue of relative_to(cues, origin)) {
+    const payload = cue.text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    // 6.1 a cue payload has no blank lines
+    text += `\n${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}\n${payload.replace(/\n+/g, '\n')}\n`;
+  }
+  return text;
+}
+
+// SubRip text, of which the cues are numbered from 1
+export function to_SRT(cues: Cue[], origin?: number) {
+  return relative_to(cues, origin)
+    .map((cue, i) => `${i + 1}\n${timestamp(cue.start, ',')} --> ${timestamp(cue.end, ',')}\n${cue.text.replace(/\n+/g, '\n')}\n`)
+    .join('\n');
+}
@@ -0,0 +1,174 @@
+// ETSI EN 300 468 6 Descriptors, of those common to DVB and ARIB STD-B10 service information.
+// Text fields are decoded by the text coding of the service information, given when the registry is created.
+
+import { BitReader } from '../../reader.js';
+import { Descriptor, DescriptorRegistry, descriptor_registry } from '../mpeg2/descriptors.js';
+import { decode_bcd, decode_mjd_utc } from './time.js';
+
+export type TextCoding = (data: Uint8Array) => string;
+
+// Table 12 Possible locations of descriptors
+export const enum SIDescriptorTag {
+  network_name_descriptor = 0x40,
+  service_list_descriptor = 0x41,
+  service_descriptor = 0x48,
+  short_event_descriptor = 0x4D,
+  extended_event_descriptor = 0x4E,
+  component_descriptor = 0x50,
+  stream_identifier_descriptor = 0x52,
+  content_descriptor = 0x54,
+  local_time_offset_descriptor = 0x58,
+}
+
+// Table 87 Service type coding, of the common types
+export const enum ServiceType {
+  digital_television_service = 0x01,
+  digital_radio_sound_service = 0x02,
+  teletext_service = 0x03,
+  data_broadcast_service = 0x0C,
+  advanced_codec_SD_digital_television_service = 0x16,
+  advanced_codec_HD_digital_television_service = 0x19,
+  HEVC_digital_television_service = 0x1F,
+}
+
+function language_code(r: BitReader) {
+  return String.fromCharCode(...r.bytes(3));
+}
+
+function text(r: BitReader, decode: TextCoding) {
+  const length = r.uimsbf(8);
+  return decode(r.bytes(length));
+}
+
+// 6.2.27 Network name descriptor
+export function parse_network_name_descriptor(r: BitReader, descriptor_length: number, decode: TextCoding) {
+  return { network_name: decode(r.bytes(descriptor_length)) };
+}
+
+// 6.2.35 Service list descriptor
+export function parse_service_list_descriptor(r: BitReader, descriptor_length: number) {
+  const services: { service_id: number; service_type: number }[] = [];
+  for (let i = 0; i < descriptor_length; i += 3) {
+    const service_id = r.uimsbf(16);
+    services.push({ service_id, service_type: r.uimsbf(8) });
+  }
+  return { services };
+}
+
+// 6.2.33 Service descriptor
+export function parse_service_descriptor(r: BitReader, decode: TextCoding) {
+  const service_type = r.uimsbf(8);
+  const service_provider_name = text(r, decode);
+  const service_name = text(r, decode);
+  return { service_type, service_provider_name, service_name };
+}
+
+// 6.2.37 Short event descriptor
+export function parse_short_event_descriptor(r: BitReader, decode: TextCoding) {
+  const ISO_639_language_code = language_code(r);
+  const event_name = text(r, decode);
+  const event_text = text(r, decode);
+  return { ISO_639_language_code, event_name, text: event_text };
+}
+
+// 6.2.15 Extended event descriptor. An item or text may continue in the following descriptors, so the undecoded
+// bytes are kept for extended_event_text.
+export function parse_extended_event_descriptor(r: BitReader) {
+  const descriptor_number = r.uimsbf(4);
+  const last_descriptor_number = r.uimsbf(4);
+  const ISO_639_language_code = language_code(r);
+  const length_of_items = r.uimsbf(8);
+  const items: { item_description: Uint8Array; item: Uint8Array }[] = [];
+  const end = r.tell() + 8 * length_of_items;
+  while (r.tell() < end) {
+    const item_description = r.bytes(r.uimsbf(8));
+    items.push({ item_description, item: r.bytes(r.uimsbf(8)) });
+  }
+  const text = r.bytes(r.uimsbf(8));
+  return { descriptor_number, last_descriptor_number, ISO_639_language_code, items, text };
+}
+
+export type ExtendedEventDescriptor = ReturnType<typeof parse_extended_event_descriptor>;
+
+// 6.2.15 Joins the items and text of the extended event descriptors of a language, in the order of descriptor_number,
+// before decoding them. Items without item_description continue the previous item. Descriptors that could not be
+// decoded, which are given undecoded, are left out.
+export function extended_event_text(descriptors: Descriptor[], decode: TextCoding, ISO_639_language_code?: string) {
+  const extended = descriptors
+    .filter((descriptor): descriptor is Descriptor & ExtendedEventDescriptor => (
+      descriptor.descriptor_tag === SIDescriptorTag.extended_event_descriptor && 'items' in descriptor
+    ))
+    .filter((descriptor) => ISO_639_language_code === undefined || descriptor.ISO_639_language_code === ISO_639_language_code)
+    .sort((a, b) => a.descriptor_number - b.descriptor_number);
+  const items: { item_description: number[]; item: number[] }[] = [];
+  const text: number[] = [];
+  for (const descriptor of extended) {
+    for (const { item_description, item } of descriptor.items) {
+      if (item_description.length > 0 || items.length === 0) items.push({ item_description: [], item: [] });
+      items[items.length - 1].item_description.push(...item_description);
+      items[items.length - 1].item.push(...item);
+    }
+    text.push(...descriptor.text);
+  }
+  return {
+    items: items.map(({ item_description, item }) => ({
+      item_description: decode(Uint8Array.from(item_description)),
+      item: decode(Uint8Array.from(item)),
+    })),
+    text: decode(Uint8Array.from(text)),
+  };
+}
+
+// 6.2.8 Component descriptor
+export function parse_component_descriptor(r: BitReader, descriptor_length: number, decode: TextCoding) {
+  const stream_content_ext = r.uimsbf(4);
+  const stream_content = r.uimsbf(4);
+  const component_type = r.uimsbf(8);
+  const component_tag = r.uimsbf(8);
+  const ISO_639_language_code = language_code(r);
+  const component_text = decode(r.bytes(descriptor_length - 6));
+  return { stream_content_ext, stream_content, component_type, component_tag, ISO_639_language_code, text: component_text };
+}
+
+// 6.2.9 Content descriptor
+export function parse_content_descriptor(r: BitReader, descriptor_length: number) {
+  const contents: { content_nibble_level_1: number; content_nibble_level_2: number; user_byte: number }[] = [];
+  for (let i = 0; i < descriptor_length; i += 2) {
+    const content_nibble_level_1 = r.uimsbf(4);
+    const content_nibble_level_2 = r.uimsbf(4);
+    contents.push({ content_nibble_level_1, content_nibble_level_2, user_byte: r.uimsbf(8) });
+  }
+  return { contents };
+}
+
+// 6.2.20 Local time offset descriptor. local_time_offset and next_time_offset are in minutes.
+export function parse_local_time_offset_descriptor(r: BitReader, descriptor_length: number, UTC_offset = 0) {
+  const offsets: {
+    country_code: string; country_region_id: number; local_time_offset: number; time_of_change: Date; next_time_offset: number;
+  }[] = [];
+  for (let i = 0; i < descriptor_length; i += 13) {
+    const country_code = language_code(r);
+    const country_region_id = r.uimsbf(6);
+    r.skip(1); // reserved
+    const sign = r.bslbf(1) === 1 ? -1 : 1;
+    const local_time_offset = sign * (decode_bcd(r.uimsbf(8)) * 60 + decode_bcd(r.uimsbf(8)));
+    const time_of_change = decode_mjd_utc(r.uimsbf(40), UTC_offset)!;
+    const next_time_offset = sign * (decode_bcd(r.uimsbf(8)) * 60 + decode_bcd(r.uimsbf(8)));
+    offsets.push({ country_code, country_region_id, local_time_offset, time_of_change, next_time_offset });
+  }
+  return { offsets };
+}
+
+// A registry of the PSI descriptors and the descriptors above, decoding text with the given coding and times with the
+// given offset of the time zone they are in, in seconds
+export function si_descriptor_registry(decode: TextCoding, UTC_offset = 0, registry: DescriptorRegistry = descriptor_registry) {
+  return registry.clone()
+    .register(SIDescriptorTag.network_name_descriptor, (r, length) => parse_network_name_descriptor(r, length, decode))
+    .register(SIDescriptorTag.service_list_descriptor, parse_service_list_descriptor)
+    .register(SIDescriptorTag.service_descriptor, (r) => parse_service_descriptor(r, decode))
+    .register(SIDescriptorTag.short_event_descriptor, (r) => parse_short_event_descriptor(r, decode))
+    .register(SIDescriptorTag.extended_event_descriptor, parse_extended_event_descriptor)
+    .register(SIDescriptorTag.component_descriptor, (r, length) => parse_component_descriptor(r, length, decode))
+    .register(SIDescriptorTag.content_descriptor, parse_content_descriptor)
+    .register(SIDescriptorTag.local_time_offset_descriptor, (r, length) => parse_local_time_offset_descriptor(r, length, UTC_offset));
+}
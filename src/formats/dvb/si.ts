@@ -0,0 +1,281 @@
+// ETSI EN 300 468 5 Service Information tables
+// The NIT, SDT, EIT, TDT and TOT, of which the syntax is shared with ARIB STD-B10. Text is decoded and times are
+// converted from the time zone of the service information by the descriptor registry and UTC_offset given.
+
+import { BitReader } from '../../reader.js';
+import { Descriptor, DescriptorRegistry, parse_descriptors } from '../mpeg2/descriptors.js';
+import { CRCMismatchError, SectionAssembler, crc32, parse_section_header, section_end } from '../mpeg2/psi.js';
+import { MalformedDataError, reserved_bits } from '../mpeg2/syntax.js';
+import { TransportPacket } from '../mpeg2/transport_stream.js';
+import { si_descriptor_registry } from './descriptors.js';
+import { decode_dvb_text } from './text.js';
+import { decode_bcd_duration, decode_mjd_utc } from './time.js';
+
+export { CRCMismatchError, MalformedDataError };
+
+// Table 1 PID allocation for SI
+export const enum SIPIDAssignment {
+  NIT = 0x0010,
+  SDT = 0x0011,
+  EIT = 0x0012,
+  TDT = 0x0014,
+}
+
+// Table 2 Allocation of table_id values
+export const enum SITableID {
+  network_information_section_actual = 0x40,
+  network_information_section_other = 0x41,
+  service_description_section_actual = 0x42,
+  service_description_section_other = 0x46,
+  event_information_section_actual_present_following = 0x4E,
+  event_information_section_other_present_following = 0x4F,
+  // 0x50-0x5F: event_information_section - actual_transport_stream, schedule
+  // 0x60-0x6F: event_information_section - other_transport_stream, schedule
+  time_date_section = 0x70,
+  time_offset_section = 0x73,
+}
+
+// Table 6 running_status
+export const enum RunningStatus {
+  undefined = 0,
+  not_running = 1,
+  starts_in_a_few_seconds = 2,
+  pausing = 3,
+  running = 4,
+  service_off_air = 5,
+}
+
+export const dvb_descriptor_registry = si_descriptor_registry(decode_dvb_text);
+
+function check_table_id(table_id: number, first: number, last: number) {
+  if (table_id < first || table_id > last) {
+    throw new MalformedDataError(`Expected table_id ${first}${last !== first ? `-${last}` : ''} but got ${table_id}`);
+  }
+}
+
+// 5.2.1 Network information section
+export function parse_network_information_section(section: Uint8Array, registry: DescriptorRegistry = dvb_descriptor_registry) {
+  const [r, header] = parse_section_header(section, 1021, 1);
+  check_table_id(header.table_id, SITableID.network_information_section_actual, SITableID.network_information_section_other);
+  reserved_bits(r, 4); // reserved_future_use
+  const network_descriptors_length = r.uimsbf(12);
+  const descriptors = parse_descriptors(r, network_descriptors_length, registry);
+  reserved_bits(r, 4); // reserved_future_use
+  const transport_stream_loop_length = r.uimsbf(12);
+  const end = r.tell() + 8 * transport_stream_loop_length;
+  if (end > section_end(section)) throw new MalformedDataError('Transport stream loop overruns the section');
+  const transport_streams: { transport_stream_id: number; original_network_id: number; descriptors: Descriptor[] }[] = [];
+  while (r.tell() < end) {
+    const transport_stream_id = r.uimsbf(16);
+    const original_network_id = r.uimsbf(16);
+    reserved_bits(r, 4); // reserved_future_use
+    const transport_descriptors_length = r.uimsbf(12);
+    transport_streams.push({ transport_stream_id, original_network_id, descriptors: parse_descriptors(r, transport_descriptors_length, registry) });
+  }
+  return {
+    table_id: header.table_id as SITableID.network_information_section_actual | SITableID.network_information_section_other,
+    network_id: header.table_id_extension,
+    version_number: header.version_number,
+    current_next_indicator: header.current_next_indicator,
+    section_number: header.section_number,
+    last_section_number: header.last_section_number,
+    descriptors,
+    transport_streams,
+    CRC_32: r.uimsbf(32),
+  };
+}
+
+// 5.2.3 Service description section
+export function parse_service_description_section(section: Uint8Array, registry: DescriptorRegistry = dvb_descriptor_registry) {
+  const [r, header] = parse_section_header(section, 1021, 1);
+  if (header.table_id !== SITableID.service_description_section_actual && header.table_id !== SITableID.service_description_section_other) {
+    throw new MalformedDataError(`Expected table_id ${SITableID.service_description_section_actual} or ${SITableID.service_description_section_other} but got ${header.table_id}`);
+  }
+  const original_network_id = r.uimsbf(16);
+  reserved_bits(r, 8); // reserved_future_use
+  const services: {
+    service_id: number; EIT_schedule_flag: number; EIT_present_following_flag: number; running_status: number;
+    free_CA_mode: number; descriptors: Descriptor[];
+  }[] = [];
+  while (r.tell() < section_end(section)) {
+    const service_id = r.uimsbf(16);
+    // reserved_future_use, of which ARIB STD-B10 uses the last 3 bits for EIT user defined flags
+    r.skip(6);
+    const EIT_schedule_flag = r.bslbf(1);
+    const EIT_present_following_flag = r.bslbf(1);
+    const running_status = r.uimsbf(3);
+    const free_CA_mode = r.bslbf(1);
+    const descriptors_loop_length = r.uimsbf(12);
+    const descriptors = parse_descriptors(r, descriptors_loop_length, registry);
+    services.push({ service_id, EIT_schedule_flag, EIT_present_following_flag, running_status, free_CA_mode, descriptors });
+  }
+  return {
+    table_id: header.table_id as SITableID.service_description_section_actual | SITableID.service_description_section_other,
+    transport_stream_id: header.table_id_extension,
+    version_number: header.version_number,
+    current_next_indicator: header.current_next_indicator,
+    section_number: header.section_number,
+    last_section_number: header.last_section_number,
+    original_network_id,
+    services,
+    CRC_32: r.uimsbf(32),
+  };
+}
+
+// 5.2.4 Event information section. start_time is undefined where it is not known, as for an event that is not yet
+// scheduled, and duration is in seconds.
+export function parse_event_information_section(section: Uint8Array, registry: DescriptorRegistry = dvb_descriptor_registry, UTC_offset = 0) {
+  const [r, header] = parse_section_header(section, 4093, 1);
+  check_table_id(header.table_id, SITableID.event_information_section_actual_present_following, 0x6F);
+  const transport_stream_id = r.uimsbf(16);
+  const original_network_id = r.uimsbf(16);
+  const segment_last_section_number = r.uimsbf(8);
+  const last_table_id = r.uimsbf(8);
+  const events: {
+    event_id: number; start_time?: Date; duration?: number; running_status: number; free_CA_mode: number;
+    descriptors: Descriptor[];
+  }[] = [];
+  while (r.tell() < section_end(section)) {
+    const event_id = r.uimsbf(16);
+    const start_time = decode_mjd_utc(r.uimsbf(40), UTC_offset);
+    const duration = decode_bcd_duration(r.uimsbf(24));
+    const running_status = r.uimsbf(3);
+    const free_CA_mode = r.bslbf(1);
+    const descriptors_loop_length = r.uimsbf(12);
+    const descriptors = parse_descriptors(r, descriptors_loop_length, registry);
+    events.push({
+      event_id,
+      ...(start_time !== undefined ? { start_time } : {}),
+      ...(duration !== undefined ? { duration } : {}),
+      running_status,
+      free_CA_mode,
+      descriptors,
+    });
+  }
+  return {
+    table_id: header.table_id,
+    service_id: header.table_id_extension,
+    version_number: header.version_number,
+    current_next_indicator: header.current_next_indicator,
+    section_number: header.section_number,
+    last_section_number: header.last_section_number,
+    transport_stream_id,
+    original_network_id,
+    segment_last_section_number,
+    last_table_id,
+    events,
+    CRC_32: r.uimsbf(32),
+  };
+}
+
+// Header of the short form sections of the TDT and TOT
+function parse_short_section_header(section: Uint8Array, table_id: number) {
+  const r = new BitReader(section);
+  const _table_id = r.uimsbf(8);
+  if (_table_id !== table_id) throw new MalformedDataError(`Expected table_id ${table_id} but got ${_table_id}`);
+  const section_syntax_indicator = r.bslbf(1);
+  if (section_syntax_indicator !== 0) throw new MalformedDataError('Expected section_syntax_indicator to be 0');
+  r.skip(3); // reserved_future_use, reserved
+  const section_length = r.uimsbf(12);
+  if (3 + section_length !== section.length) throw new MalformedDataError('Section length mismatch');
+  return r;
+}
+
+// 5.2.5 Time and date section, which has no CRC_32
+export function parse_time_date_section(section: Uint8Array, UTC_offset = 0) {
+  const r = parse_short_section_header(section, SITableID.time_date_section);
+  const UTC_time = decode_mjd_utc(r.uimsbf(40), UTC_offset);
+  if (UTC_time === undefined) throw new MalformedDataError('UTC_time is undefined');
+  return { table_id: SITableID.time_date_section as const, UTC_time };
+}
+
+// 5.2.6 Time offset section
+export function parse_time_offset_section(section: Uint8Array, registry: DescriptorRegistry = dvb_descriptor_registry, UTC_offset = 0) {
+  if (crc32(section) !== 0) throw new CRCMismatchError('CRC_32 mismatch');
+  const r = parse_short_section_header(section, SITableID.time_offset_section);
+  const UTC_time = decode_mjd_utc(r.uimsbf(40), UTC_offset);
+  if (UTC_time === undefined) throw new MalformedDataError('UTC_time is undefined');
+  reserved_bits(r, 4);
+  const descriptors_loop_length = r.uimsbf(12);
+  const descriptors = parse_descriptors(r, descriptors_loop_length, registry);
+  if (r.tell() > section_end(section)) throw new MalformedDataError('Descriptor loop overruns the section');
+  return { table_id: SITableID.time_offset_section as const, UTC_time, descriptors, CRC_32: r.uimsbf(32) };
+}
+
+export type NetworkInformationSection = ReturnType<typeof parse_network_information_section>;
+export type ServiceDescriptionSection = ReturnType<typeof parse_service_description_section>;
+export type EventInformationSection = ReturnType<typeof parse_event_information_section>;
+export type TimeDateSection = ReturnType<typeof parse_time_date_section>;
+export type TimeOffsetSection = ReturnType<typeof parse_time_offset_section>;
+export type SISection = NetworkInformationSection | ServiceDescriptionSection | EventInformationSection | TimeDateSection | TimeOffsetSection;
+
+// The PIDs carrying the service information of a standard, and the parser of the sections on them, which gives
+// undefined for the sections it does not know
+export type SIProfile<S> = {
+  PIDs: number[];
+  parse_section: (section: Uint8Array, PID: number) => S | undefined;
+};
+
+// The tables of ETSI EN 300 468 on the PIDs of Table 1, in UTC. A profile for another standard may override the
+// registry and time zone.
+export function si_profile(registry: DescriptorRegistry = dvb_descriptor_registry, UTC_offset = 0): SIProfile<SISection> {
+  return {
+    PIDs: [SIPIDAssignment.NIT, SIPIDAssignment.SDT, SIPIDAssignment.EIT, SIPIDAssignment.TDT],
+    parse_section(section, PID) {
+      const table_id = section[0];
+      if (PID === SIPIDAssignment.NIT && (table_id === SITableID.network_information_section_actual || table_id === SITableID.network_information_section_other)) {
+        return parse_network_information_section(section, registry);
+      }
+      if (PID === SIPIDAssignment.SDT && (table_id === SITableID.service_description_section_actual || table_id === SITableID.service_description_section_other)) {
+        return parse_service_description_section(section, registry);
+      }
+      if (PID === SIPIDAssignment.EIT && table_id >= SITableID.event_information_section_actual_present_following && table_id <= 0x6F) {
+        return parse_event_information_section(section, registry, UTC_offset);
+      }
+      if (PID === SIPIDAssignment.TDT && table_id === SITableID.time_date_section) return parse_time_date_section(section, UTC_offset);
+      if (PID === SIPIDAssignment.TDT && table_id === SITableID.time_offset_section) return parse_time_offset_section(section, registry, UTC_offset);
+      return undefined;
+    },
+  };
+}
+
+export const dvb_profile = si_profile();
+
+// Identifies a section of a sub_table: table_id, table_id_extension and section_number, with transport_stream_id and
+// original_network_id for the SDT and EIT, which may carry several transport streams on one PID
+function section_key(PID: number, section: Uint8Array) {
+  const table_id = section[0];
+  const extended = table_id === SITableID.service_description_section_actual || table_id === SITableID.service_description_section_other
+    || table_id >= SITableID.event_information_section_actual_present_following && table_id <= 0x6F;
+  const ids = extended ? section.subarray(8, table_id === SITableID.service_description_section_actual || table_id === SITableID.service_description_section_other ? 10 : 12) : [];
+  return `${PID}:${table_id}:${section[3] << 8 | section[4]}:${section[6]}:${Array.from(ids).join(',')}`;
+}
+
+// Yields each section of the service information once per version_number, together with its PID, and every TDT and
+// TOT. Sections with a CRC_32 mismatch or otherwise malformed, and those not yet applicable, are discarded. Unlike
+// parse_PSI, sections are not merged into tables, as the EIT schedule is segmented and may never be complete.
+export async function* parse_SI<S>(packets: AsyncIterable<TransportPacket>, profile: SIProfile<S>) {
+  const assembler = new SectionAssembler((PID) => profile.PIDs.includes(PID));
+  const versions = new Map<string, number>();
+  for await (const packet of packets) {
+    for (const bytes of assembler.push(packet)) {
+      const section_syntax_indicator = bytes[1] >> 7;
+      let key: string | undefined;
+      if (section_syntax_indicator === 1) {
+        if (bytes.length < 8 || (bytes[5] & 1) === 0) continue; // current_next_indicator
+        key = section_key(packet.PID, bytes);
+        if (versions.get(key) === (bytes[5] >> 1 & 0x1F)) continue;
+      }
+      let section: S | undefined;
+      try {
+        section = profile.parse_section(bytes, packet.PID);
+      } catch (e) {
+        if (e instanceof MalformedDataError) continue;
+        throw e;
+      }
+      if (section === undefined) continue;
+      if (key !== undefined) versions.set(key, bytes[5] >> 1 & 0x1F);
+      yield { PID: packet.PID, section };
+    }
+  }
+}
@@ -0,0 +1,113 @@
+// ETSI EN 300 468 Annex A Coding of text characters
+
+// Figure A.1 Character code table 00 - Latin alphabet, of which 0xC1-0xCF are non-spacing diacritical marks that
+// precede the letter they modify
+const table_00 = [
+  '\u00A0', '¡', '¢', '£', '€', '¥', '#', '§', '¤', '‘', '“', '«', '←', '↑', '→', '↓',
+  '°', '±', '²', '³', '×', 'µ', '¶', '·', '÷', '’', '”', '»', '¼', '½', '¾', '¿',
+  '', '\u0300', '\u0301', '\u0302', '\u0303', '\u0304', '\u0306', '\u0307', '\u0308', '', '\u030A', '\u0327', '', '\u030B', '\u0328', '\u030C',
+  '―', '¹', '®', '©', '™', '♪', '¬', '¦', '', '', '', '', '⅛', '⅜', '⅝', '⅞',
+  'Ω', 'Æ', 'Đ', 'ª', 'Ħ', '', 'Ĳ', 'Ŀ', 'Ł', 'Ø', 'Œ', 'º', 'Þ', 'Ŧ', 'Ŋ', 'ŉ',
+  'ĸ', 'æ', 'đ', 'ð', 'ħ', 'ı', 'ĳ', 'ŀ', 'ł', 'ø', 'œ', 'ß', 'þ', 'ŧ', 'ŋ', '\u00AD',
+];
+
+// Table A.4 Character coding tables, selected by the first byte where it is below 0x20
+function encoding(first: number) {
+  if (first >= 0x01 && first <= 0x0B) return `iso-8859-${first + 4}`;
+  switch (first) {
+    case 0x11: return 'utf-16be';
+    case 0x12: return 'euc-kr';
+    case 0x13: return 'gbk';
+    case 0x14: return 'big5';
+    case 0x15: return 'utf-8';
+  }
+  return undefined;
+}
+
+// Table A.1 Single byte control codes and Table A.2 DVB codes within private use area of ISO/IEC 10646.
+// Emphasis on and off are dropped, and CR/LF is a line feed.
+function control_code(code: number) {
+  return code === 0x8A ? '\n' : '';
+}
+
+function decode_table_00(data: Uint8Array) {
+  let text = '';
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i];
+    if (byte < 0x20) continue;
+    if (byte < 0x80) {
+      text += String.fromCharCode(byte);
+    } else if (byte < 0xA0) {
+      text += control_code(byte);
+    } else if (byte >= 0xC1 && byte <= 0xCF) {
+      // the diacritical mark follows the letter in Unicode
+      const mark = table_00[byte - 0xA0];
+      const next = data[i + 1];
+      if (next !== undefined && next >= 0x20 && next < 0x80) {
+        text += String.fromCharCode(next) + mark;
+        i++;
+      }
+    } else {
+      text += table_00[byte - 0xA0];
+    }
+  }
+  return text.normalize('NFC');
+}
+
+// The characters 0xA0-0xFF of each single byte table, where 0x20-0x7F are ASCII and 0x80-0x9F control codes
+const single_byte_tables = new Map<string, string[]>();
+
+function single_byte_table(label: string) {
+  let table = single_byte_tables.get(label);
+  if (table === undefined) {
+    // the Encoding Standard decodes ISO/IEC 8859-1 and -9 as windows-1252 and -1254, which agree in 0xA0-0xFF
+    const decoder = new TextDecoder(label);
+    table = Array.from({ length: 0x60 }, (_, i) => decoder.decode(Uint8Array.of(0xA0 + i)));
+    single_byte_tables.set(label, table);
+  }
+  return table;
+}
+
+function decode_single_byte(data: Uint8Array, table: string[]) {
+  let text = '';
+  for (const byte of data) {
+    if (byte < 0x20) continue;
+    text += byte < 0x80 ? String.fromCharCode(byte) : byte < 0xA0 ? control_code(byte) : table[byte - 0xA0];
+  }
+  return text;
+}
+
+const decoders = new Map<string, TextDecoder>();
+
+// Decodes a text field of DVB service information into a string
+export function decode_dvb_text(data: Uint8Array) {
+  if (data.length === 0) return '';
+  const first = data[0];
+  if (first >= 0x20) return decode_table_00(data);
+  let label: string | undefined;
+  let text = data.subarray(1);
+  if (first === 0x10) {
+    // Table A.5 Character Coding Tables for first byte 0x10: ISO/IEC 8859 by the third byte
+    if (data.length < 3) return '';
+    label = `iso-8859-${data[2]}`;
+    text = data.subarray(3);
+  } else {
+    label = encoding(first);
+  }
+  // 0x1F selects an encoding_type_id of ETSI TS 101 162, such as compressed text, which is not decoded
+  if (label === undefined) return decode_table_00(text);
+  try {
+    if (label.startsWith('iso-8859-')) return decode_single_byte(text, single_byte_table(label));
+    let decoder = decoders.get(label);
+    if (decoder === undefined) {
+      decoder = new TextDecoder(label);
+      decoders.set(label, decoder);
+    }
+    // Table A.2 control codes are in the private use area for the ISO/IEC 10646 based tables
+    return decoder.decode(text).replace(/[\u0000-\u001F\uE080-\uE09F]/g, (c) => c.charCodeAt(0) >= 0xE080 ? control_code(c.charCodeAt(0) - 0xE000) : '');
+  } catch (e) {
+    // a part of ISO/IEC 8859 the Encoding Standard does not have, such as 8859-12
+    if (!(e instanceof RangeError)) throw e;
+    return decode_table_00(text);
+  }
+}
@@ -0,0 +1,23 @@
+// ETSI EN 300 468 Annex C Conversion between time and date conventions
+
+export function decode_bcd(byte: number) {
+  return (byte >> 4) * 10 + (byte & 0xf);
+}
+
+// Modified Julian Date 0 is 1858-11-17
+const MJD_epoch = Date.UTC(1858, 10, 17);
+
+// A 16 bit MJD followed by 6 digits of BCD hours, minutes and seconds, in the time zone UTC_offset seconds ahead of UTC.
+// All bits set means undefined, as for an event of which the start time is not known.
+export function decode_mjd_utc(value: number, UTC_offset = 0) {
+  if (value === Math.pow(2, 40) - 1) return undefined;
+  const MJD = Math.floor(value / Math.pow(2, 24));
+  const seconds = decode_bcd_duration(value % Math.pow(2, 24))!;
+  return new Date(MJD_epoch + (MJD * 86400 + seconds - UTC_offset) * 1000);
+}
+
+// 6 digits of BCD hours, minutes and seconds, in seconds. All bits set means undefined.
+export function decode_bcd_duration(value: number) {
+  if (value === 0xffffff) return undefined;
+  return decode_bcd(value >> 16) * 3600 + decode_bcd((value >> 8) & 0xff) * 60 + decode_bcd(value & 0xff);
+}
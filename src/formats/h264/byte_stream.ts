@@ -0,0 +1,75 @@
+// Annex B Byte stream format, shared by Rec. ITU-T H.265 Annex B
+
+// B.2 Byte stream NAL unit decoding process.
+// Splits a byte stream pushed in chunks of any size, such as the PES_packet_data of consecutive PES packets, into
+// NAL units. A start code may span chunks. Each NAL unit is complete once the next start code is found, or at flush().
+export class ByteStreamSplitter {
+  // the current NAL unit so far, after its start code
+  private chunks: Uint8Array[] = [];
+  // whether a start code has been found, before which bytes are discarded
+  private started = false;
+  // number of zero bytes at the end of the data pushed so far, up to 2
+  private zeros = 0;
+
+  push(data: Uint8Array) {
+    const units: Uint8Array[] = [];
+    let start = 0;
+    for (let i = data.indexOf(1); i >= 0; i = data.indexOf(1, i + 1)) {
+      // start_code_prefix_one_3bytes, after at least two zero bytes, which may be at the end of the previous chunks
+      const zeros = i >= 2 ? (data[i - 1] === 0 && data[i - 2] === 0 ? 2 : 0)
+        : i === 1 ? (data[0] === 0 ? Math.min(2, 1 + this.zeros) : 0)
+          : this.zeros;
+      if (zeros < 2) continue;
+      this.chunks.push(data.subarray(start, i));
+      this.end_unit(units);
+      this.started = true;
+      start = i + 1;
+    }
+    if (this.started) this.chunks.push(data.subarray(start));
+    let n = 0;
+    while (n < 2 && n < data.length && data[data.length - 1 - n] === 0) n++;
+    this.zeros = n === data.length ? Math.min(2, this.zeros + n) : n;
+    return units;
+  }
+
+  // Ends the last NAL unit, at the end of the byte stream
+  flush() {
+    const units: Uint8Array[] = [];
+    this.end_unit(units);
+    this.started = false;
+    this.zeros = 0;
+    return units;
+  }
+
+  private end_unit(units: Uint8Array[]) {
+    if (!this.started) {
+      this.chunks = [];
+      return;
+    }
+    const unit = concat(this.chunks);
+    this.chunks = [];
+    // the zero bytes of the next start code, and any trailing_zero_8bits
+    let end = unit.length;
+    while (end > 0 && unit[end - 1] === 0) end--;
+    if (end > 0) units.push(unit.subarray(0, end));
+  }
+}
+
+function concat(chunks: Uint8Array[]) {
+  if (chunks.length === 1) return chunks[0];
+  let length = 0;
+  for (const chunk of chunks) length += chunk.length;
+  const buffer = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return buffer;
+}
+
+// The NAL units of a complete byte stream, such as one access unit
+export function split_byte_stream(data: Uint8Array) {
+  const splitter = new ByteStreamSplitter();
+  return [...splitter.push(data), ...splitter.flush()];
+}
@@ -0,0 +1,140 @@
+// 7.3.1 NAL unit syntax
+
+import { BitReader } from '../../reader.js';
+import { MalformedDataError } from '../mpeg2/syntax.js';
+import { ByteStreamSplitter } from './byte_stream.js';
+import {
+  PictureParameterSet, SequenceParameterSet, parse_pic_parameter_set, parse_seq_parameter_set,
+} from './parameter_sets.js';
+import { SEIMessage, decode_sei_message, parse_sei_messages } from './sei.js';
+import { PicOrderCntDecoder, SliceHeader, parse_slice_header } from './slice_header.js';
+
+export { MalformedDataError };
+
+// A slice or message refers to a parameter set which has not been received
+export class MissingParameterSetError extends MalformedDataError { }
+
+// Table 7-1 NAL unit type codes
+export const enum NALUnitType {
+  coded_slice_non_IDR = 1,
+  slice_data_partition_A = 2,
+  slice_data_partition_B = 3,
+  slice_data_partition_C = 4,
+  coded_slice_IDR = 5,
+  SEI = 6,
+  SPS = 7,
+  PPS = 8,
+  access_unit_delimiter = 9,
+  end_of_seq = 10,
+  end_of_stream = 11,
+  filler_data = 12,
+  SPS_extension = 13,
+  prefix_NAL_unit = 14,
+  subset_SPS = 15,
+  depth_parameter_set = 16,
+  coded_slice_auxiliary = 19,
+  coded_slice_extension = 20,
+  coded_slice_extension_depth_view = 21,
+}
+
+// 7.3.1 NAL unit header
+export function parse_NAL_unit_header(nal_unit: Uint8Array) {
+  if (nal_unit.length < 1) throw new MalformedDataError('NAL unit is empty');
+  const forbidden_zero_bit = nal_unit[0] >> 7;
+  if (forbidden_zero_bit !== 0) throw new MalformedDataError('Expected forbidden_zero_bit to be 0');
+  return {
+    nal_ref_idc: (nal_unit[0] >> 5) & 0x3,
+    nal_unit_type: nal_unit[0] & 0x1f,
+  };
+}
+
+export type NALUnitHeader = ReturnType<typeof parse_NAL_unit_header>;
+
+export type NALUnit = NALUnitHeader & (
+  | { SPS: SequenceParameterSet }
+  | { PPS: PictureParameterSet }
+  // of a coded slice or slice data partition A
+  | { slice_header: SliceHeader; IdrPicFlag: boolean; TopFieldOrderCnt: number; BottomFieldOrderCnt: number; PicOrderCnt: number }
+  | { SEI: SEIMessage[] }
+  // 7.3.2.4 Access unit delimiter RBSP syntax
+  | { primary_pic_type: number }
+  // of other types, the NAL unit after its header
+  | { payload: Uint8Array }
+);
+
+// Parses NAL units in decoding order, keeping the parameter sets and the state of picture order count decoding
+export class NALUnitParser {
+  private sps = new Map<number, SequenceParameterSet>();
+  private pps = new Map<number, PictureParameterSet>();
+  // the SPS of the last slice, or the last SPS before any slice
+  private active_sps?: SequenceParameterSet;
+  private poc = new PicOrderCntDecoder();
+  // picture order counts of the current picture, for its slices after the first
+  private current?: { TopFieldOrderCnt: number; BottomFieldOrderCnt: number; PicOrderCnt: number };
+
+  parse(nal_unit: Uint8Array): NALUnit {
+    const header = parse_NAL_unit_header(nal_unit);
+    const r = new BitReader(nal_unit.subarray(1), { rbsp: true });
+    switch (header.nal_unit_type) {
+      case NALUnitType.SPS: {
+        const SPS = parse_seq_parameter_set(r);
+        this.sps.set(SPS.seq_parameter_set_id, SPS);
+        if (this.current === undefined) this.active_sps = SPS;
+        return { ...header, SPS };
+      }
+      case NALUnitType.PPS: {
+        const PPS = parse_pic_parameter_set(r, (id) => this.sps.get(id));
+        this.pps.set(PPS.pic_parameter_set_id, PPS);
+        return { ...header, PPS };
+      }
+      case NALUnitType.coded_slice_non_IDR:
+      case NALUnitType.slice_data_partition_A:
+      case NALUnitType.coded_slice_IDR: {
+        let sps: SequenceParameterSet | undefined;
+        const slice_header = parse_slice_header(r, header.nal_unit_type, header.nal_ref_idc, (id) => {
+          const pps = this.pps.get(id);
+          if (pps === undefined) throw new MissingParameterSetError(`PPS ${id} is not found`);
+          sps = this.sps.get(pps.seq_parameter_set_id);
+          if (sps === undefined) throw new MissingParameterSetError(`SPS ${pps.seq_parameter_set_id} is not found`);
+          return { pps, sps };
+        });
+        this.active_sps = sps!;
+        // the first slice of a picture, as slices are not sent in arbitrary order
+        if (slice_header.first_mb_in_slice === 0 || this.current === undefined) {
+          this.current = this.poc.decode(sps!, slice_header, header.nal_unit_type, header.nal_ref_idc);
+        }
+        return { ...header, slice_header, IdrPicFlag: header.nal_unit_type === NALUnitType.coded_slice_IDR, ...this.current };
+      }
+      case NALUnitType.SEI: {
+        const SEI = parse_sei_messages(r).map((message) => decode_sei_message(message, this.active_sps, (id) => this.sps.get(id)));
+        return { ...header, SEI };
+      }
+      case NALUnitType.access_unit_delimiter:
+        return { ...header, primary_pic_type: r.uimsbf(3) };
+    }
+    return { ...header, payload: nal_unit.subarray(1) };
+  }
+}
+
+// A stream joined midway refers to parameter sets not received yet, so such NAL units are left unparsed
+function parse_or_skip(parser: NALUnitParser, nal_unit: Uint8Array): NALUnit {
+  try {
+    return parser.parse(nal_unit);
+  } catch (e) {
+    if (!(e instanceof MissingParameterSetError)) throw e;
+    return { ...parse_NAL_unit_header(nal_unit), payload: nal_unit.subarray(1) };
+  }
+}
+
+// Yields the NAL units of a byte stream given in chunks, such as the PES_packet_data of a video PES stream
+export async function* parse_byte_stream(chunks: AsyncIterable<Uint8Array>, parser = new NALUnitParser()) {
+  const splitter = new ByteStreamSplitter();
+  for await (const chunk of chunks) {
+    for (const nal_unit of splitter.push(chunk)) {
+      yield parse_or_skip(parser, nal_unit);
+    }
+  }
+  for (const nal_unit of splitter.flush()) {
+    yield parse_or_skip(parser, nal_unit);
+  }
+}
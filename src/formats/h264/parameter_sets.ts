@@ -0,0 +1,374 @@
+// 7.3.2.1 Sequence parameter set RBSP syntax
+// 7.3.2.2 Picture parameter set RBSP syntax
+// E.1 VUI parameters syntax
+
+import { BitReader } from '../../reader.js';
+import { MalformedDataError, MissingParameterSetError } from './nal_unit.js';
+
+// 7.3.2.1.1.1 Scaling list syntax, with the deltas applied: undefined for Flat_4x4_16 or Flat_8x8_16 when not present,
+// or an empty list when useDefaultScalingMatrixFlag is set
+function scaling_list(r: BitReader, size: number) {
+  const list: number[] = [];
+  let last_scale = 8;
+  let next_scale = 8;
+  for (let j = 0; j < size; j++) {
+    if (next_scale !== 0) {
+      const delta_scale = r.se();
+      next_scale = (last_scale + delta_scale + 256) % 256;
+      if (j === 0 && next_scale === 0) return [];
+    }
+    list.push(next_scale === 0 ? last_scale : next_scale);
+    last_scale = list[j];
+  }
+  return list;
+}
+
+function scaling_lists(r: BitReader, n: number) {
+  const lists: (number[] | undefined)[] = [];
+  for (let i = 0; i < n; i++) {
+    const scaling_list_present_flag = r.bslbf(1);
+    lists.push(scaling_list_present_flag === 1 ? scaling_list(r, i < 6 ? 16 : 64) : undefined);
+  }
+  return lists;
+}
+
+// E.1.2 HRD parameters syntax
+function parse_hrd_parameters(r: BitReader) {
+  const cpb_cnt_minus1 = r.ue();
+  const bit_rate_scale = r.uimsbf(4);
+  const cpb_size_scale = r.uimsbf(4);
+  const schedules: { bit_rate_value_minus1: number; cpb_size_value_minus1: number; cbr_flag: boolean }[] = [];
+  for (let SchedSelIdx = 0; SchedSelIdx <= cpb_cnt_minus1; SchedSelIdx++) {
+    const bit_rate_value_minus1 = r.ue();
+    const cpb_size_value_minus1 = r.ue();
+    const cbr_flag = r.bslbf(1) === 1;
+    schedules.push({ bit_rate_value_minus1, cpb_size_value_minus1, cbr_flag });
+  }
+  const initial_cpb_removal_delay_length_minus1 = r.uimsbf(5);
+  const cpb_removal_delay_length_minus1 = r.uimsbf(5);
+  const dpb_output_delay_length_minus1 = r.uimsbf(5);
+  const time_offset_length = r.uimsbf(5);
+  return {
+    cpb_cnt_minus1,
+    bit_rate_scale,
+    cpb_size_scale,
+    schedules,
+    initial_cpb_removal_delay_length_minus1,
+    cpb_removal_delay_length_minus1,
+    dpb_output_delay_length_minus1,
+    time_offset_length,
+  };
+}
+
+export type HRDParameters = ReturnType<typeof parse_hrd_parameters>;
+
+// Table E-1 Meaning of sample aspect ratio indicator
+export const enum AspectRatioIdc {
+  Extended_SAR = 255,
+}
+
+// E.1.1 VUI parameters syntax
+function parse_vui_parameters(r: BitReader) {
+  const optional: {
+    aspect_ratio_idc?: number;
+    sar_width?: number;
+    sar_height?: number;
+    overscan_appropriate_flag?: boolean;
+    video_format?: number;
+    video_full_range_flag?: boolean;
+    colour_primaries?: number;
+    transfer_characteristics?: number;
+    matrix_coefficients?: number;
+    chroma_sample_loc_type_top_field?: number;
+    chroma_sample_loc_type_bottom_field?: number;
+    num_units_in_tick?: number;
+    time_scale?: number;
+    fixed_frame_rate_flag?: boolean;
+    nal_hrd_parameters?: HRDParameters;
+    vcl_hrd_parameters?: HRDParameters;
+    low_delay_hrd_flag?: boolean;
+    motion_vectors_over_pic_boundaries_flag?: boolean;
+    max_bytes_per_pic_denom?: number;
+    max_bits_per_mb_denom?: number;
+    log2_max_mv_length_horizontal?: number;
+    log2_max_mv_length_vertical?: number;
+    max_num_reorder_frames?: number;
+    max_dec_frame_buffering?: number;
+  } = {};
+  const aspect_ratio_info_present_flag = r.bslbf(1);
+  if (aspect_ratio_info_present_flag === 1) {
+    optional.aspect_ratio_idc = r.uimsbf(8);
+    if (optional.aspect_ratio_idc === AspectRatioIdc.Extended_SAR) {
+      optional.sar_width = r.uimsbf(16);
+      optional.sar_height = r.uimsbf(16);
+    }
+  }
+  const overscan_info_present_flag = r.bslbf(1);
+  if (overscan_info_present_flag === 1) {
+    optional.overscan_appropriate_flag = r.bslbf(1) === 1;
+  }
+  const video_signal_type_present_flag = r.bslbf(1);
+  if (video_signal_type_present_flag === 1) {
+    optional.video_format = r.uimsbf(3);
+    optional.video_full_range_flag = r.bslbf(1) === 1;
+    const colour_description_present_flag = r.bslbf(1);
+    if (colour_description_present_flag === 1) {
+      optional.colour_primaries = r.uimsbf(8);
+      optional.transfer_characteristics = r.uimsbf(8);
+      optional.matrix_coefficients = r.uimsbf(8);
+    }
+  }
+  const chroma_loc_info_present_flag = r.bslbf(1);
+  if (chroma_loc_info_present_flag === 1) {
+    optional.chroma_sample_loc_type_top_field = r.ue();
+    optional.chroma_sample_loc_type_bottom_field = r.ue();
+  }
+  const timing_info_present_flag = r.bslbf(1);
+  if (timing_info_present_flag === 1) {
+    optional.num_units_in_tick = r.uimsbf(32);
+    optional.time_scale = r.uimsbf(32);
+    optional.fixed_frame_rate_flag = r.bslbf(1) === 1;
+  }
+  const nal_hrd_parameters_present_flag = r.bslbf(1);
+  if (nal_hrd_parameters_present_flag === 1) {
+    optional.nal_hrd_parameters = parse_hrd_parameters(r);
+  }
+  const vcl_hrd_parameters_present_flag = r.bslbf(1);
+  if (vcl_hrd_parameters_present_flag === 1) {
+    optional.vcl_hrd_parameters = parse_hrd_parameters(r);
+  }
+  if (nal_hrd_parameters_present_flag === 1 || vcl_hrd_parameters_present_flag === 1) {
+    optional.low_delay_hrd_flag = r.bslbf(1) === 1;
+  }
+  const pic_struct_present_flag = r.bslbf(1) === 1;
+  const bitstream_restriction_flag = r.bslbf(1);
+  if (bitstream_restriction_flag === 1) {
+    optional.motion_vectors_over_pic_boundaries_flag = r.bslbf(1) === 1;
+    optional.max_bytes_per_pic_denom = r.ue();
+    optional.max_bits_per_mb_denom = r.ue();
+    optional.log2_max_mv_length_horizontal = r.ue();
+    optional.log2_max_mv_length_vertical = r.ue();
+    optional.max_num_reorder_frames = r.ue();
+    optional.max_dec_frame_buffering = r.ue();
+  }
+  return { ...optional, pic_struct_present_flag };
+}
+
+export type VUIParameters = ReturnType<typeof parse_vui_parameters>;
+
+// profile_idc values of the profiles with chroma_format_idc and the following fields in the SPS
+const high_profiles = [100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135];
+
+// 7.3.2.1.1 Sequence parameter set data syntax, of an RBSP
+export function parse_seq_parameter_set(r: BitReader) {
+  const profile_idc = r.uimsbf(8);
+  const constraint_set_flags = r.bslbf(6);
+  r.skip(2); // reserved_zero_2bits
+  const level_idc = r.uimsbf(8);
+  const seq_parameter_set_id = r.ue();
+  if (seq_parameter_set_id > 31) throw new MalformedDataError(`Invalid seq_parameter_set_id ${seq_parameter_set_id}`);
+  let chroma_format_idc = 1;
+  let separate_colour_plane_flag = false;
+  let bit_depth_luma_minus8 = 0;
+  let bit_depth_chroma_minus8 = 0;
+  const optional: {
+    qpprime_y_zero_transform_bypass_flag?: boolean;
+    seq_scaling_lists?: (number[] | undefined)[];
+    log2_max_pic_order_cnt_lsb_minus4?: number;
+    delta_pic_order_always_zero_flag?: boolean;
+    offset_for_non_ref_pic?: number;
+    offset_for_top_to_bottom_field?: number;
+    offset_for_ref_frame?: number[];
+    mb_adaptive_frame_field_flag?: boolean;
+    frame_crop_left_offset?: number;
+    frame_crop_right_offset?: number;
+    frame_crop_top_offset?: number;
+    frame_crop_bottom_offset?: number;
+    vui_parameters?: VUIParameters;
+  } = {};
+  if (high_profiles.includes(profile_idc)) {
+    chroma_format_idc = r.ue();
+    if (chroma_format_idc === 3) {
+      separate_colour_plane_flag = r.bslbf(1) === 1;
+    }
+    bit_depth_luma_minus8 = r.ue();
+    bit_depth_chroma_minus8 = r.ue();
+    optional.qpprime_y_zero_transform_bypass_flag = r.bslbf(1) === 1;
+    const seq_scaling_matrix_present_flag = r.bslbf(1);
+    if (seq_scaling_matrix_present_flag === 1) {
+      optional.seq_scaling_lists = scaling_lists(r, chroma_format_idc !== 3 ? 8 : 12);
+    }
+  }
+  const log2_max_frame_num_minus4 = r.ue();
+  const pic_order_cnt_type = r.ue();
+  if (pic_order_cnt_type === 0) {
+    optional.log2_max_pic_order_cnt_lsb_minus4 = r.ue();
+  } else if (pic_order_cnt_type === 1) {
+    optional.delta_pic_order_always_zero_flag = r.bslbf(1) === 1;
+    optional.offset_for_non_ref_pic = r.se();
+    optional.offset_for_top_to_bottom_field = r.se();
+    const num_ref_frames_in_pic_order_cnt_cycle = r.ue();
+    optional.offset_for_ref_frame = [];
+    for (let i = 0; i < num_ref_frames_in_pic_order_cnt_cycle; i++) {
+      optional.offset_for_ref_frame.push(r.se());
+    }
+  }
+  const max_num_ref_frames = r.ue();
+  const gaps_in_frame_num_value_allowed_flag = r.bslbf(1) === 1;
+  const pic_width_in_mbs_minus1 = r.ue();
+  const pic_height_in_map_units_minus1 = r.ue();
+  const frame_mbs_only_flag = r.bslbf(1) === 1;
+  if (!frame_mbs_only_flag) {
+    optional.mb_adaptive_frame_field_flag = r.bslbf(1) === 1;
+  }
+  const direct_8x8_inference_flag = r.bslbf(1) === 1;
+  const frame_cropping_flag = r.bslbf(1);
+  if (frame_cropping_flag === 1) {
+    optional.frame_crop_left_offset = r.ue();
+    optional.frame_crop_right_offset = r.ue();
+    optional.frame_crop_top_offset = r.ue();
+    optional.frame_crop_bottom_offset = r.ue();
+  }
+  const vui_parameters_present_flag = r.bslbf(1);
+  if (vui_parameters_present_flag === 1) {
+    optional.vui_parameters = parse_vui_parameters(r);
+  }
+  return {
+    profile_idc,
+    // constraint_set0_flag in the most significant bit to constraint_set5_flag
+    constraint_set_flags,
+    level_idc,
+    seq_parameter_set_id,
+    chroma_format_idc,
+    separate_colour_plane_flag,
+    bit_depth_luma_minus8,
+    bit_depth_chroma_minus8,
+    log2_max_frame_num_minus4,
+    pic_order_cnt_type,
+    max_num_ref_frames,
+    gaps_in_frame_num_value_allowed_flag,
+    pic_width_in_mbs_minus1,
+    pic_height_in_map_units_minus1,
+    frame_mbs_only_flag,
+    direct_8x8_inference_flag,
+    ...optional,
+  };
+}
+
+export type SequenceParameterSet = ReturnType<typeof parse_seq_parameter_set>;
+
+// 7.4.2.1.1 ChromaArrayType
+export function ChromaArrayType(sps: SequenceParameterSet) {
+  return sps.separate_colour_plane_flag ? 0 : sps.chroma_format_idc;
+}
+
+// 7.4.2.1.1 The frame size in luma samples, after cropping
+export function frame_size(sps: SequenceParameterSet) {
+  // Table 6-1 SubWidthC and SubHeightC
+  const SubWidthC = sps.chroma_format_idc === 3 ? 1 : 2;
+  const SubHeightC = sps.chroma_format_idc === 1 ? 2 : 1;
+  const CropUnitX = ChromaArrayType(sps) === 0 ? 1 : SubWidthC;
+  const CropUnitY = (ChromaArrayType(sps) === 0 ? 1 : SubHeightC) * (sps.frame_mbs_only_flag ? 1 : 2);
+  const PicWidthInMbs = sps.pic_width_in_mbs_minus1 + 1;
+  const FrameHeightInMbs = (sps.frame_mbs_only_flag ? 1 : 2) * (sps.pic_height_in_map_units_minus1 + 1);
+  return {
+    width: PicWidthInMbs * 16 - CropUnitX * ((sps.frame_crop_left_offset ?? 0) + (sps.frame_crop_right_offset ?? 0)),
+    height: FrameHeightInMbs * 16 - CropUnitY * ((sps.frame_crop_top_offset ?? 0) + (sps.frame_crop_bottom_offset ?? 0)),
+  };
+}
+
+// E.2.1 Frames per second from the VUI timing information, where a frame is two clock ticks
+export function frame_rate(sps: SequenceParameterSet) {
+  const vui = sps.vui_parameters;
+  if (vui?.num_units_in_tick === undefined || vui.time_scale === undefined || vui.num_units_in_tick === 0) return undefined;
+  return vui.time_scale / (2 * vui.num_units_in_tick);
+}
+
+// 7.3.2.2 Picture parameter set RBSP syntax. The SPS is needed for the scaling lists of 4:4:4 video.
+export function parse_pic_parameter_set(r: BitReader, find_sps: (seq_parameter_set_id: number) => SequenceParameterSet | undefined) {
+  const pic_parameter_set_id = r.ue();
+  if (pic_parameter_set_id > 255) throw new MalformedDataError(`Invalid pic_parameter_set_id ${pic_parameter_set_id}`);
+  const seq_parameter_set_id = r.ue();
+  const entropy_coding_mode_flag = r.bslbf(1) === 1;
+  const bottom_field_pic_order_in_frame_present_flag = r.bslbf(1) === 1;
+  const num_slice_groups_minus1 = r.ue();
+  const optional: {
+    slice_group_map_type?: number;
+    run_length_minus1?: number[];
+    top_left?: number[];
+    bottom_right?: number[];
+    slice_group_change_direction_flag?: boolean;
+    slice_group_change_rate_minus1?: number;
+    pic_size_in_map_units_minus1?: number;
+    slice_group_id?: number[];
+    transform_8x8_mode_flag?: boolean;
+    pic_scaling_lists?: (number[] | undefined)[];
+    second_chroma_qp_index_offset?: number;
+  } = {};
+  if (num_slice_groups_minus1 > 0) {
+    const slice_group_map_type = optional.slice_group_map_type = r.ue();
+    if (slice_group_map_type === 0) {
+      optional.run_length_minus1 = [];
+      for (let iGroup = 0; iGroup <= num_slice_groups_minus1; iGroup++) {
+        optional.run_length_minus1.push(r.ue());
+      }
+    } else if (slice_group_map_type === 2) {
+      optional.top_left = [];
+      optional.bottom_right = [];
+      for (let iGroup = 0; iGroup < num_slice_groups_minus1; iGroup++) {
+        optional.top_left.push(r.ue());
+        optional.bottom_right.push(r.ue());
+      }
+    } else if (slice_group_map_type >= 3 && slice_group_map_type <= 5) {
+      optional.slice_group_change_direction_flag = r.bslbf(1) === 1;
+      optional.slice_group_change_rate_minus1 = r.ue();
+    } else if (slice_group_map_type === 6) {
+      const pic_size_in_map_units_minus1 = optional.pic_size_in_map_units_minus1 = r.ue();
+      const bits = Math.ceil(Math.log2(num_slice_groups_minus1 + 1));
+      optional.slice_group_id = [];
+      for (let i = 0; i <= pic_size_in_map_units_minus1; i++) {
+        optional.slice_group_id.push(r.uimsbf(bits));
+      }
+    }
+  }
+  const num_ref_idx_l0_default_active_minus1 = r.ue();
+  const num_ref_idx_l1_default_active_minus1 = r.ue();
+  const weighted_pred_flag = r.bslbf(1) === 1;
+  const weighted_bipred_idc = r.uimsbf(2);
+  const pic_init_qp_minus26 = r.se();
+  const pic_init_qs_minus26 = r.se();
+  const chroma_qp_index_offset = r.se();
+  const deblocking_filter_control_present_flag = r.bslbf(1) === 1;
+  const constrained_intra_pred_flag = r.bslbf(1) === 1;
+  const redundant_pic_cnt_present_flag = r.bslbf(1) === 1;
+  if (r.more_rbsp_data()) {
+    optional.transform_8x8_mode_flag = r.bslbf(1) === 1;
+    const pic_scaling_matrix_present_flag = r.bslbf(1);
+    if (pic_scaling_matrix_present_flag === 1) {
+      const sps = find_sps(seq_parameter_set_id);
+      if (sps === undefined) throw new MissingParameterSetError(`SPS ${seq_parameter_set_id} is not found`);
+      optional.pic_scaling_lists = scaling_lists(r, 6 + (sps.chroma_format_idc !== 3 ? 2 : 6) * (optional.transform_8x8_mode_flag ? 1 : 0));
+    }
+    optional.second_chroma_qp_index_offset = r.se();
+  }
+  return {
+    pic_parameter_set_id,
+    seq_parameter_set_id,
+    entropy_coding_mode_flag,
+    bottom_field_pic_order_in_frame_present_flag,
+    num_slice_groups_minus1,
+    num_ref_idx_l0_default_active_minus1,
+    num_ref_idx_l1_default_active_minus1,
+    weighted_pred_flag,
+    weighted_bipred_idc,
+    pic_init_qp_minus26,
+    pic_init_qs_minus26,
+    chroma_qp_index_offset,
+    deblocking_filter_control_present_flag,
+    constrained_intra_pred_flag,
+    redundant_pic_cnt_present_flag,
+    ...optional,
+  };
+}
+
+export type PictureParameterSet = ReturnType<typeof parse_pic_parameter_set>;
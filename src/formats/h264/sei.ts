@@ -0,0 +1,200 @@
+// 7.3.2.3 Supplemental enhancement information RBSP syntax
+// Annex D Supplemental enhancement information
+
+import { BitReader } from '../../reader.js';
+import { MalformedDataError } from './nal_unit.js';
+import { HRDParameters, SequenceParameterSet } from './parameter_sets.js';
+
+// Table D-1 payloadType values of the messages decoded here
+export const enum PayloadType {
+  buffering_period = 0,
+  pic_timing = 1,
+  user_data_registered_itu_t_t35 = 4,
+  user_data_unregistered = 5,
+  recovery_point = 6,
+  mastering_display_colour_volume = 137,
+  content_light_level_info = 144,
+}
+
+// 7.3.2.3.1 Supplemental enhancement information message syntax
+export function parse_sei_messages(r: BitReader) {
+  const messages: { payloadType: number; payload: Uint8Array }[] = [];
+  do {
+    let payloadType = 0;
+    for (; r.nextbits(8) === 0xff; r.skip(8)) payloadType += 255;
+    payloadType += r.uimsbf(8);
+    let payloadSize = 0;
+    for (; r.nextbits(8) === 0xff; r.skip(8)) payloadSize += 255;
+    payloadSize += r.uimsbf(8);
+    if (payloadSize * 8 > r.left()) throw new MalformedDataError(`SEI payloadSize ${payloadSize} exceeds the NAL unit`);
+    messages.push({ payloadType, payload: r.bytes(payloadSize) });
+  } while (r.more_rbsp_data());
+  return messages;
+}
+
+// D.1.2 Buffering period SEI message syntax
+export function parse_buffering_period(r: BitReader, find_sps: (seq_parameter_set_id: number) => SequenceParameterSet | undefined) {
+  const seq_parameter_set_id = r.ue();
+  const sps = find_sps(seq_parameter_set_id);
+  const vui = sps?.vui_parameters;
+  const delays = (hrd: HRDParameters) => {
+    const n = hrd.initial_cpb_removal_delay_length_minus1 + 1;
+    const list: { initial_cpb_removal_delay: number; initial_cpb_removal_delay_offset: number }[] = [];
+    for (let SchedSelIdx = 0; SchedSelIdx <= hrd.cpb_cnt_minus1; SchedSelIdx++) {
+      const initial_cpb_removal_delay = r.uimsbf(n);
+      const initial_cpb_removal_delay_offset = r.uimsbf(n);
+      list.push({ initial_cpb_removal_delay, initial_cpb_removal_delay_offset });
+    }
+    return list;
+  };
+  return {
+    seq_parameter_set_id,
+    ...(vui?.nal_hrd_parameters !== undefined ? { nal_initial_cpb_removal_delays: delays(vui.nal_hrd_parameters) } : {}),
+    ...(vui?.vcl_hrd_parameters !== undefined ? { vcl_initial_cpb_removal_delays: delays(vui.vcl_hrd_parameters) } : {}),
+  };
+}
+
+// Table D-1 Interpretation of pic_struct: NumClockTS
+const NumClockTS = [1, 1, 1, 2, 2, 3, 3, 2, 3];
+
+// D.1.3 Picture timing SEI message syntax, which depends on the active SPS
+export function parse_pic_timing(r: BitReader, sps: SequenceParameterSet) {
+  const vui = sps.vui_parameters;
+  const hrd = vui?.nal_hrd_parameters ?? vui?.vcl_hrd_parameters;
+  const optional: {
+    cpb_removal_delay?: number;
+    dpb_output_delay?: number;
+    pic_struct?: number;
+    clock_timestamps?: ReturnType<typeof parse_clock_timestamp>[];
+  } = {};
+  if (hrd !== undefined) {
+    optional.cpb_removal_delay = r.uimsbf(hrd.cpb_removal_delay_length_minus1 + 1);
+    optional.dpb_output_delay = r.uimsbf(hrd.dpb_output_delay_length_minus1 + 1);
+  }
+  if (vui?.pic_struct_present_flag) {
+    const pic_struct = optional.pic_struct = r.uimsbf(4);
+    if (pic_struct >= NumClockTS.length) throw new MalformedDataError(`Reserved pic_struct ${pic_struct}`);
+    optional.clock_timestamps = [];
+    for (let i = 0; i < NumClockTS[pic_struct]; i++) {
+      const clock_timestamp_flag = r.bslbf(1);
+      if (clock_timestamp_flag === 1) {
+        optional.clock_timestamps.push(parse_clock_timestamp(r, hrd?.time_offset_length ?? 24));
+      }
+    }
+  }
+  return optional;
+}
+
+function parse_clock_timestamp(r: BitReader, time_offset_length: number) {
+  const ct_type = r.uimsbf(2);
+  const nuit_field_based_flag = r.bslbf(1) === 1;
+  const counting_type = r.uimsbf(5);
+  const full_timestamp_flag = r.bslbf(1);
+  const discontinuity_flag = r.bslbf(1) === 1;
+  const cnt_dropped_flag = r.bslbf(1) === 1;
+  const n_frames = r.uimsbf(8);
+  const optional: { seconds_value?: number; minutes_value?: number; hours_value?: number; time_offset?: number } = {};
+  if (full_timestamp_flag === 1) {
+    optional.seconds_value = r.uimsbf(6);
+    optional.minutes_value = r.uimsbf(6);
+    optional.hours_value = r.uimsbf(5);
+  } else if (r.bslbf(1) === 1) { // seconds_flag
+    optional.seconds_value = r.uimsbf(6);
+    if (r.bslbf(1) === 1) { // minutes_flag
+      optional.minutes_value = r.uimsbf(6);
+      if (r.bslbf(1) === 1) { // hours_flag
+        optional.hours_value = r.uimsbf(5);
+      }
+    }
+  }
+  if (time_offset_length > 0) {
+    optional.time_offset = r.tcimsbf(time_offset_length);
+  }
+  return { ct_type, nuit_field_based_flag, counting_type, discontinuity_flag, cnt_dropped_flag, n_frames, ...optional };
+}
+
+// D.1.5 User data registered by Rec. ITU-T T.35 SEI message syntax, such as ATSC A/53 captions
+export function parse_user_data_registered_itu_t_t35(r: BitReader) {
+  const itu_t_t35_country_code = r.uimsbf(8);
+  const itu_t_t35_country_code_extension_byte = itu_t_t35_country_code === 0xff ? r.uimsbf(8) : undefined;
+  return {
+    itu_t_t35_country_code,
+    ...(itu_t_t35_country_code_extension_byte !== undefined ? { itu_t_t35_country_code_extension_byte } : {}),
+    itu_t_t35_payload_byte: r.bytes(r.left() >>> 3),
+  };
+}
+
+// D.1.6 User data unregistered SEI message syntax
+export function parse_user_data_unregistered(r: BitReader) {
+  const uuid_iso_iec_11578 = r.bytes(16);
+  return { uuid_iso_iec_11578, user_data_payload_byte: r.bytes(r.left() >>> 3) };
+}
+
+// D.1.8 Recovery point SEI message syntax
+function parse_recovery_point(r: BitReader) {
+  const recovery_frame_cnt = r.ue();
+  const exact_match_flag = r.bslbf(1) === 1;
+  const broken_link_flag = r.bslbf(1) === 1;
+  const changing_slice_group_idc = r.uimsbf(2);
+  return { recovery_frame_cnt, exact_match_flag, broken_link_flag, changing_slice_group_idc };
+}
+
+// D.1.29 Mastering display colour volume SEI message syntax
+export function parse_mastering_display_colour_volume(r: BitReader) {
+  const display_primaries: { x: number; y: number }[] = [];
+  for (let c = 0; c < 3; c++) {
+    const x = r.uimsbf(16);
+    const y = r.uimsbf(16);
+    display_primaries.push({ x, y });
+  }
+  const white_point_x = r.uimsbf(16);
+  const white_point_y = r.uimsbf(16);
+  const max_display_mastering_luminance = r.uimsbf(32);
+  const min_display_mastering_luminance = r.uimsbf(32);
+  return { display_primaries, white_point_x, white_point_y, max_display_mastering_luminance, min_display_mastering_luminance };
+}
+
+// D.1.31 Content light level information SEI message syntax
+export function parse_content_light_level_info(r: BitReader) {
+  const max_content_light_level = r.uimsbf(16);
+  const max_pic_average_light_level = r.uimsbf(16);
+  return { max_content_light_level, max_pic_average_light_level };
+}
+
+export type SEIMessage = { payloadType: number; payload: Uint8Array } & (
+  | { buffering_period: ReturnType<typeof parse_buffering_period> }
+  | { pic_timing: ReturnType<typeof parse_pic_timing> }
+  | { user_data_registered_itu_t_t35: ReturnType<typeof parse_user_data_registered_itu_t_t35> }
+  | { user_data_unregistered: ReturnType<typeof parse_user_data_unregistered> }
+  | { recovery_point: ReturnType<typeof parse_recovery_point> }
+  | { mastering_display_colour_volume: ReturnType<typeof parse_mastering_display_colour_volume> }
+  | { content_light_level_info: ReturnType<typeof parse_content_light_level_info> }
+  | {}
+);
+
+// D.1.1 General SEI message syntax. Messages of other types, or of which the SPS is unknown, are left undecoded.
+export function decode_sei_message(
+  message: { payloadType: number; payload: Uint8Array },
+  sps: SequenceParameterSet | undefined,
+  find_sps: (seq_parameter_set_id: number) => SequenceParameterSet | undefined,
+): SEIMessage {
+  const r = new BitReader(message.payload);
+  switch (message.payloadType) {
+    case PayloadType.buffering_period:
+      return { ...message, buffering_period: parse_buffering_period(r, find_sps) };
+    case PayloadType.pic_timing:
+      if (sps === undefined) return message;
+      return { ...message, pic_timing: parse_pic_timing(r, sps) };
+    case PayloadType.user_data_registered_itu_t_t35:
+      return { ...message, user_data_registered_itu_t_t35: parse_user_data_registered_itu_t_t35(r) };
+    case PayloadType.user_data_unregistered:
+      return { ...message, user_data_unregistered: parse_user_data_unregistered(r) };
+    case PayloadType.recovery_point:
+      return { ...message, recovery_point: parse_recovery_point(r) };
+    case PayloadType.mastering_display_colour_volume:
+      return { ...message, mastering_display_colour_volume: parse_mastering_display_colour_volume(r) };
+    case PayloadType.content_light_level_info:
+      return { ...message, content_light_level_info: parse_content_light_level_info(r) };
+  }
+  return message;
+}
@@ -0,0 +1,344 @@
+// 7.3.3 Slice header syntax
+// 8.2.1 Decoding process for picture order count
+
+import { BitReader } from '../../reader.js';
+import { MalformedDataError, NALUnitType } from './nal_unit.js';
+import { ChromaArrayType, PictureParameterSet, SequenceParameterSet } from './parameter_sets.js';
+
+// Table 7-6 Name association to slice_type, of which 5 to 9 mean the same as 0 to 4
+export const enum SliceType {
+  P = 0,
+  B = 1,
+  I = 2,
+  SP = 3,
+  SI = 4,
+}
+
+// 7.3.3.1 Reference picture list modification syntax
+function parse_ref_pic_list_modification(r: BitReader) {
+  const modifications: { modification_of_pic_nums_idc: number; abs_diff_pic_num_minus1?: number; long_term_pic_num?: number }[] = [];
+  const ref_pic_list_modification_flag = r.bslbf(1);
+  if (ref_pic_list_modification_flag === 0) return modifications;
+  for (; ;) {
+    const modification_of_pic_nums_idc = r.ue();
+    if (modification_of_pic_nums_idc === 3) break;
+    if (modification_of_pic_nums_idc === 0 || modification_of_pic_nums_idc === 1) {
+      modifications.push({ modification_of_pic_nums_idc, abs_diff_pic_num_minus1: r.ue() });
+    } else if (modification_of_pic_nums_idc === 2) {
+      modifications.push({ modification_of_pic_nums_idc, long_term_pic_num: r.ue() });
+    } else {
+      throw new MalformedDataError(`Invalid modification_of_pic_nums_idc ${modification_of_pic_nums_idc}`);
+    }
+  }
+  return modifications;
+}
+
+// 7.3.3.2 Prediction weight table syntax
+function parse_pred_weight_table(r: BitReader, ChromaArrayType: number, num_ref_idx_active_minus1: number[]) {
+  const luma_log2_weight_denom = r.ue();
+  const chroma_log2_weight_denom = ChromaArrayType !== 0 ? r.ue() : undefined;
+  const lists: { luma_weight?: number; luma_offset?: number; chroma_weight?: number[]; chroma_offset?: number[] }[][] = [];
+  for (const n of num_ref_idx_active_minus1) {
+    const list: (typeof lists)[number] = [];
+    for (let i = 0; i <= n; i++) {
+      const entry: (typeof list)[number] = {};
+      const luma_weight_flag = r.bslbf(1);
+      if (luma_weight_flag === 1) {
+        entry.luma_weight = r.se();
+        entry.luma_offset = r.se();
+      }
+      if (ChromaArrayType !== 0) {
+        const chroma_weight_flag = r.bslbf(1);
+        if (chroma_weight_flag === 1) {
+          entry.chroma_weight = [];
+          entry.chroma_offset = [];
+          for (let j = 0; j < 2; j++) {
+            entry.chroma_weight.push(r.se());
+            entry.chroma_offset.push(r.se());
+          }
+        }
+      }
+      list.push(entry);
+    }
+    lists.push(list);
+  }
+  return {
+    luma_log2_weight_denom,
+    ...(chroma_log2_weight_denom !== undefined ? { chroma_log2_weight_denom } : {}),
+    l0: lists[0],
+    ...(lists.length > 1 ? { l1: lists[1] } : {}),
+  };
+}
+
+// 7.3.3.3 Decoded reference picture marking syntax
+function parse_dec_ref_pic_marking(r: BitReader, IdrPicFlag: boolean) {
+  if (IdrPicFlag) {
+    const no_output_of_prior_pics_flag = r.bslbf(1) === 1;
+    const long_term_reference_flag = r.bslbf(1) === 1;
+    return { no_output_of_prior_pics_flag, long_term_reference_flag };
+  }
+  const adaptive_ref_pic_marking_mode_flag = r.bslbf(1) === 1;
+  const operations: {
+    memory_management_control_operation: number;
+    difference_of_pic_nums_minus1?: number;
+    long_term_pic_num?: number;
+    long_term_frame_idx?: number;
+    max_long_term_frame_idx_plus1?: number;
+  }[] = [];
+  if (adaptive_ref_pic_marking_mode_flag) {
+    for (; ;) {
+      const memory_management_control_operation = r.ue();
+      if (memory_management_control_operation === 0) break;
+      if (memory_management_control_operation > 6) {
+        throw new MalformedDataError(`Invalid memory_management_control_operation ${memory_management_control_operation}`);
+      }
+      const operation: (typeof operations)[number] = { memory_management_control_operation };
+      if (memory_management_control_operation === 1 || memory_management_control_operation === 3) {
+        operation.difference_of_pic_nums_minus1 = r.ue();
+      }
+      if (memory_management_control_operation === 2) {
+        operation.long_term_pic_num = r.ue();
+      }
+      if (memory_management_control_operation === 3 || memory_management_control_operation === 6) {
+        operation.long_term_frame_idx = r.ue();
+      }
+      if (memory_management_control_operation === 4) {
+        operation.max_long_term_frame_idx_plus1 = r.ue();
+      }
+      operations.push(operation);
+    }
+  }
+  return { adaptive_ref_pic_marking_mode_flag, operations };
+}
+
+// 7.3.3 Slice header syntax, of a coded slice or slice data partition A. The PPS and SPS it refers to must be given.
+export function parse_slice_header(
+  r: BitReader,
+  nal_unit_type: number,
+  nal_ref_idc: number,
+  find_pps: (pic_parameter_set_id: number) => { pps: PictureParameterSet; sps: SequenceParameterSet },
+) {
+  const IdrPicFlag = nal_unit_type === NALUnitType.coded_slice_IDR;
+  const first_mb_in_slice = r.ue();
+  const slice_type = r.ue();
+  if (slice_type > 9) throw new MalformedDataError(`Invalid slice_type ${slice_type}`);
+  const pic_parameter_set_id = r.ue();
+  const { pps, sps } = find_pps(pic_parameter_set_id);
+  const type = slice_type % 5;
+  const optional: {
+    colour_plane_id?: number;
+    bottom_field_flag?: boolean;
+    idr_pic_id?: number;
+    pic_order_cnt_lsb?: number;
+    delta_pic_order_cnt_bottom?: number;
+    delta_pic_order_cnt?: number[];
+    redundant_pic_cnt?: number;
+    direct_spatial_mv_pred_flag?: boolean;
+    num_ref_idx_l0_active_minus1?: number;
+    num_ref_idx_l1_active_minus1?: number;
+    ref_pic_list_modification_l0?: ReturnType<typeof parse_ref_pic_list_modification>;
+    ref_pic_list_modification_l1?: ReturnType<typeof parse_ref_pic_list_modification>;
+    pred_weight_table?: ReturnType<typeof parse_pred_weight_table>;
+    dec_ref_pic_marking?: ReturnType<typeof parse_dec_ref_pic_marking>;
+    cabac_init_idc?: number;
+    sp_for_switch_flag?: boolean;
+    slice_qs_delta?: number;
+    disable_deblocking_filter_idc?: number;
+    slice_alpha_c0_offset_div2?: number;
+    slice_beta_offset_div2?: number;
+    slice_group_change_cycle?: number;
+  } = {};
+  if (sps.separate_colour_plane_flag) {
+    optional.colour_plane_id = r.uimsbf(2);
+  }
+  const frame_num = r.uimsbf(sps.log2_max_frame_num_minus4 + 4);
+  let field_pic_flag = false;
+  if (!sps.frame_mbs_only_flag) {
+    field_pic_flag = r.bslbf(1) === 1;
+    if (field_pic_flag) {
+      optional.bottom_field_flag = r.bslbf(1) === 1;
+    }
+  }
+  if (IdrPicFlag) {
+    optional.idr_pic_id = r.ue();
+  }
+  if (sps.pic_order_cnt_type === 0) {
+    optional.pic_order_cnt_lsb = r.uimsbf(sps.log2_max_pic_order_cnt_lsb_minus4! + 4);
+    if (pps.bottom_field_pic_order_in_frame_present_flag && !field_pic_flag) {
+      optional.delta_pic_order_cnt_bottom = r.se();
+    }
+  }
+  if (sps.pic_order_cnt_type === 1 && !sps.delta_pic_order_always_zero_flag) {
+    optional.delta_pic_order_cnt = [r.se()];
+    if (pps.bottom_field_pic_order_in_frame_present_flag && !field_pic_flag) {
+      optional.delta_pic_order_cnt.push(r.se());
+    }
+  }
+  if (pps.redundant_pic_cnt_present_flag) {
+    optional.redundant_pic_cnt = r.ue();
+  }
+  if (type === SliceType.B) {
+    optional.direct_spatial_mv_pred_flag = r.bslbf(1) === 1;
+  }
+  if (type === SliceType.P || type === SliceType.SP || type === SliceType.B) {
+    optional.num_ref_idx_l0_active_minus1 = pps.num_ref_idx_l0_default_active_minus1;
+    if (type === SliceType.B) optional.num_ref_idx_l1_active_minus1 = pps.num_ref_idx_l1_default_active_minus1;
+    const num_ref_idx_active_override_flag = r.bslbf(1);
+    if (num_ref_idx_active_override_flag === 1) {
+      optional.num_ref_idx_l0_active_minus1 = r.ue();
+      if (type === SliceType.B) {
+        optional.num_ref_idx_l1_active_minus1 = r.ue();
+      }
+    }
+  }
+  if (type !== SliceType.I && type !== SliceType.SI) {
+    optional.ref_pic_list_modification_l0 = parse_ref_pic_list_modification(r);
+  }
+  if (type === SliceType.B) {
+    optional.ref_pic_list_modification_l1 = parse_ref_pic_list_modification(r);
+  }
+  if ((pps.weighted_pred_flag && (type === SliceType.P || type === SliceType.SP)) || (pps.weighted_bipred_idc === 1 && type === SliceType.B)) {
+    const num_ref_idx_active_minus1 = [optional.num_ref_idx_l0_active_minus1!];
+    if (type === SliceType.B) num_ref_idx_active_minus1.push(optional.num_ref_idx_l1_active_minus1!);
+    optional.pred_weight_table = parse_pred_weight_table(r, ChromaArrayType(sps), num_ref_idx_active_minus1);
+  }
+  if (nal_ref_idc !== 0) {
+    optional.dec_ref_pic_marking = parse_dec_ref_pic_marking(r, IdrPicFlag);
+  }
+  if (pps.entropy_coding_mode_flag && type !== SliceType.I && type !== SliceType.SI) {
+    optional.cabac_init_idc = r.ue();
+  }
+  const slice_qp_delta = r.se();
+  if (type === SliceType.SP || type === SliceType.SI) {
+    if (type === SliceType.SP) {
+      optional.sp_for_switch_flag = r.bslbf(1) === 1;
+    }
+    optional.slice_qs_delta = r.se();
+  }
+  if (pps.deblocking_filter_control_present_flag) {
+    const disable_deblocking_filter_idc = optional.disable_deblocking_filter_idc = r.ue();
+    if (disable_deblocking_filter_idc !== 1) {
+      optional.slice_alpha_c0_offset_div2 = r.se();
+      optional.slice_beta_offset_div2 = r.se();
+    }
+  }
+  if (pps.num_slice_groups_minus1 > 0 && pps.slice_group_map_type! >= 3 && pps.slice_group_map_type! <= 5) {
+    // 7.4.3 Ceil(Log2(PicSizeInMapUnits ÷ SliceGroupChangeRate + 1))
+    const PicSizeInMapUnits = (sps.pic_width_in_mbs_minus1 + 1) * (sps.pic_height_in_map_units_minus1 + 1);
+    const SliceGroupChangeRate = pps.slice_group_change_rate_minus1! + 1;
+    optional.slice_group_change_cycle = r.uimsbf(Math.ceil(Math.log2(PicSizeInMapUnits / SliceGroupChangeRate + 1)));
+  }
+  return {
+    first_mb_in_slice,
+    slice_type,
+    pic_parameter_set_id,
+    frame_num,
+    field_pic_flag,
+    slice_qp_delta,
+    ...optional,
+  };
+}
+
+export type SliceHeader = ReturnType<typeof parse_slice_header>;
+
+// The state of the previous pictures used by 8.2.1
+interface PreviousPicture {
+  // of the previous reference picture, for pic_order_cnt_type 0
+  PicOrderCntMsb: number;
+  pic_order_cnt_lsb: number;
+  // of the previous picture, for pic_order_cnt_type 1 and 2
+  FrameNumOffset: number;
+  frame_num: number;
+}
+
+// 8.2.1 Decoding process for picture order count. Each picture must be given in decoding order, once.
+export class PicOrderCntDecoder {
+  private previous: PreviousPicture = { PicOrderCntMsb: 0, pic_order_cnt_lsb: 0, FrameNumOffset: 0, frame_num: 0 };
+
+  decode(sps: SequenceParameterSet, header: SliceHeader, nal_unit_type: number, nal_ref_idc: number) {
+    const IdrPicFlag = nal_unit_type === NALUnitType.coded_slice_IDR;
+    const MaxFrameNum = 2 ** (sps.log2_max_frame_num_minus4 + 4);
+    const bottom_field_flag = header.bottom_field_flag ?? false;
+    const prev = this.previous;
+    let TopFieldOrderCnt = 0;
+    let BottomFieldOrderCnt = 0;
+    let PicOrderCntMsb = prev.PicOrderCntMsb;
+    let FrameNumOffset = 0;
+    if (sps.pic_order_cnt_type === 0) {
+      // 8.2.1.1 Decoding process for picture order count type 0
+      const MaxPicOrderCntLsb = 2 ** (sps.log2_max_pic_order_cnt_lsb_minus4! + 4);
+      const pic_order_cnt_lsb = header.pic_order_cnt_lsb!;
+      const prevPicOrderCntMsb = IdrPicFlag ? 0 : prev.PicOrderCntMsb;
+      const prevPicOrderCntLsb = IdrPicFlag ? 0 : prev.pic_order_cnt_lsb;
+      if (pic_order_cnt_lsb < prevPicOrderCntLsb && prevPicOrderCntLsb - pic_order_cnt_lsb >= MaxPicOrderCntLsb / 2) {
+        PicOrderCntMsb = prevPicOrderCntMsb + MaxPicOrderCntLsb;
+      } else if (pic_order_cnt_lsb > prevPicOrderCntLsb && pic_order_cnt_lsb - prevPicOrderCntLsb > MaxPicOrderCntLsb / 2) {
+        PicOrderCntMsb = prevPicOrderCntMsb - MaxPicOrderCntLsb;
+      } else {
+        PicOrderCntMsb = prevPicOrderCntMsb;
+      }
+      if (!bottom_field_flag) {
+        TopFieldOrderCnt = PicOrderCntMsb + pic_order_cnt_lsb;
+      }
+      if (!header.field_pic_flag) {
+        BottomFieldOrderCnt = TopFieldOrderCnt + (header.delta_pic_order_cnt_bottom ?? 0);
+      } else if (bottom_field_flag) {
+        BottomFieldOrderCnt = PicOrderCntMsb + pic_order_cnt_lsb;
+      }
+    } else {
+      if (!IdrPicFlag) {
+        FrameNumOffset = prev.frame_num > header.frame_num ? prev.FrameNumOffset + MaxFrameNum : prev.FrameNumOffset;
+      }
+      if (sps.pic_order_cnt_type === 1) {
+        // 8.2.1.2 Decoding process for picture order count type 1
+        const offset_for_ref_frame = sps.offset_for_ref_frame!;
+        const num_ref_frames_in_pic_order_cnt_cycle = offset_for_ref_frame.length;
+        let absFrameNum = num_ref_frames_in_pic_order_cnt_cycle !== 0 ? FrameNumOffset + header.frame_num : 0;
+        if (nal_ref_idc === 0 && absFrameNum > 0) absFrameNum--;
+        let expectedPicOrderCnt = 0;
+        if (absFrameNum > 0) {
+          let ExpectedDeltaPerPicOrderCntCycle = 0;
+          for (const offset of offset_for_ref_frame) ExpectedDeltaPerPicOrderCntCycle += offset;
+          const picOrderCntCycleCnt = Math.floor((absFrameNum - 1) / num_ref_frames_in_pic_order_cnt_cycle);
+          const frameNumInPicOrderCntCycle = (absFrameNum - 1) % num_ref_frames_in_pic_order_cnt_cycle;
+          expectedPicOrderCnt = picOrderCntCycleCnt * ExpectedDeltaPerPicOrderCntCycle;
+          for (let i = 0; i <= frameNumInPicOrderCntCycle; i++) expectedPicOrderCnt += offset_for_ref_frame[i];
+        }
+        if (nal_ref_idc === 0) expectedPicOrderCnt += sps.offset_for_non_ref_pic!;
+        const delta_pic_order_cnt = header.delta_pic_order_cnt ?? [0, 0];
+        if (!header.field_pic_flag) {
+          TopFieldOrderCnt = expectedPicOrderCnt + delta_pic_order_cnt[0];
+          BottomFieldOrderCnt = TopFieldOrderCnt + sps.offset_for_top_to_bottom_field! + (delta_pic_order_cnt[1] ?? 0);
+        } else if (!bottom_field_flag) {
+          TopFieldOrderCnt = expectedPicOrderCnt + delta_pic_order_cnt[0];
+        } else {
+          BottomFieldOrderCnt = expectedPicOrderCnt + sps.offset_for_top_to_bottom_field! + delta_pic_order_cnt[0];
+        }
+      } else {
+        // 8.2.1.3 Decoding process for picture order count type 2
+        const tempPicOrderCnt = IdrPicFlag ? 0
+          : nal_ref_idc === 0 ? 2 * (FrameNumOffset + header.frame_num) - 1
+            : 2 * (FrameNumOffset + header.frame_num);
+        if (!header.field_pic_flag || !bottom_field_flag) TopFieldOrderCnt = tempPicOrderCnt;
+        if (!header.field_pic_flag || bottom_field_flag) BottomFieldOrderCnt = tempPicOrderCnt;
+      }
+    }
+    // 8.2.1 PicOrderCnt( CurrPic )
+    const PicOrderCnt = !header.field_pic_flag ? Math.min(TopFieldOrderCnt, BottomFieldOrderCnt)
+      : bottom_field_flag ? BottomFieldOrderCnt : TopFieldOrderCnt;
+
+    // memory_management_control_operation equal to 5 resets frame_num and the picture order counts to 0 afterwards
+    const marking = header.dec_ref_pic_marking;
+    const mmco5 = marking !== undefined && 'operations' in marking
+      && marking.operations?.some((operation) => operation.memory_management_control_operation === 5) === true;
+    this.previous = {
+      PicOrderCntMsb: nal_ref_idc === 0 ? prev.PicOrderCntMsb : mmco5 ? 0 : PicOrderCntMsb,
+      pic_order_cnt_lsb: nal_ref_idc === 0 ? prev.pic_order_cnt_lsb
+        : mmco5 ? (bottom_field_flag ? 0 : TopFieldOrderCnt - PicOrderCnt)
+          : header.pic_order_cnt_lsb ?? 0,
+      FrameNumOffset: mmco5 ? 0 : FrameNumOffset,
+      frame_num: mmco5 ? 0 : header.frame_num,
+    };
+    return { TopFieldOrderCnt, BottomFieldOrderCnt, PicOrderCnt };
+  }
+}
@@ -0,0 +1,170 @@
+// 7.3.1 NAL unit syntax
+
+import { BitReader } from '../../reader.js';
+import { ByteStreamSplitter } from '../h264/byte_stream.js';
+import { MalformedDataError, MissingParameterSetError } from '../h264/nal_unit.js';
+import {
+  PictureParameterSet, SequenceParameterSet, VideoParameterSet, parse_pic_parameter_set, parse_seq_parameter_set,
+  parse_video_parameter_set,
+} from './parameter_sets.js';
+import { SEIMessage, decode_sei_message, parse_sei_messages } from './sei.js';
+import { PicOrderCntDecoder, SliceSegmentHeader, parse_slice_segment_header } from './slice_segment_header.js';
+
+export { MalformedDataError, MissingParameterSetError };
+
+// Table 7-1 NAL unit type codes and NAL unit type classes
+export const enum NALUnitType {
+  TRAIL_N = 0,
+  TRAIL_R = 1,
+  TSA_N = 2,
+  TSA_R = 3,
+  STSA_N = 4,
+  STSA_R = 5,
+  RADL_N = 6,
+  RADL_R = 7,
+  RASL_N = 8,
+  RASL_R = 9,
+  RSV_VCL_N14 = 14,
+  BLA_W_LP = 16,
+  BLA_W_RADL = 17,
+  BLA_N_LP = 18,
+  IDR_W_RADL = 19,
+  IDR_N_LP = 20,
+  CRA_NUT = 21,
+  RSV_IRAP_VCL23 = 23,
+  RSV_VCL31 = 31,
+  VPS_NUT = 32,
+  SPS_NUT = 33,
+  PPS_NUT = 34,
+  AUD_NUT = 35,
+  EOS_NUT = 36,
+  EOB_NUT = 37,
+  FD_NUT = 38,
+  PREFIX_SEI_NUT = 39,
+  SUFFIX_SEI_NUT = 40,
+}
+
+// Intra random access point pictures: BLA, IDR and CRA
+export function is_IRAP(nal_unit_type: number) {
+  return nal_unit_type >= NALUnitType.BLA_W_LP && nal_unit_type <= NALUnitType.RSV_IRAP_VCL23;
+}
+
+// 7.3.1.2 NAL unit header syntax
+export function parse_NAL_unit_header(nal_unit: Uint8Array) {
+  if (nal_unit.length < 2) throw new MalformedDataError('NAL unit is shorter than its header');
+  const forbidden_zero_bit = nal_unit[0] >> 7;
+  if (forbidden_zero_bit !== 0) throw new MalformedDataError('Expected forbidden_zero_bit to be 0');
+  const nuh_temporal_id_plus1 = nal_unit[1] & 0x7;
+  if (nuh_temporal_id_plus1 === 0) throw new MalformedDataError('nuh_temporal_id_plus1 shall not be 0');
+  return {
+    nal_unit_type: (nal_unit[0] >> 1) & 0x3f,
+    nuh_layer_id: (nal_unit[0] & 0x1) << 5 | nal_unit[1] >> 3,
+    nuh_temporal_id_plus1,
+  };
+}
+
+export type NALUnitHeader = ReturnType<typeof parse_NAL_unit_header>;
+
+export type NALUnit = NALUnitHeader & (
+  | { VPS: VideoParameterSet }
+  | { SPS: SequenceParameterSet }
+  | { PPS: PictureParameterSet }
+  | { slice_segment_header: SliceSegmentHeader; NoRaslOutputFlag: boolean; PicOrderCntVal: number }
+  | { SEI: SEIMessage[] }
+  // 7.3.2.5 Access unit delimiter RBSP syntax
+  | { pic_type: number }
+  // of other types, the NAL unit after its header
+  | { payload: Uint8Array }
+);
+
+// Parses NAL units in decoding order, keeping the parameter sets and the state of picture order count decoding.
+// Only parameter sets of the base layer are kept.
+export class NALUnitParser {
+  private vps = new Map<number, VideoParameterSet>();
+  private sps = new Map<number, SequenceParameterSet>();
+  private pps = new Map<number, PictureParameterSet>();
+  // the SPS of the last slice segment, or the last SPS before any slice segment
+  private active_sps?: SequenceParameterSet;
+  private poc = new PicOrderCntDecoder();
+  // of the current picture, for its slice segments after the first
+  private current?: { NoRaslOutputFlag: boolean; PicOrderCntVal: number };
+
+  parse(nal_unit: Uint8Array): NALUnit {
+    const header = parse_NAL_unit_header(nal_unit);
+    const r = new BitReader(nal_unit.subarray(2), { rbsp: true });
+    const { nal_unit_type, nuh_layer_id } = header;
+    if (nal_unit_type <= NALUnitType.RSV_VCL31) {
+      if (nal_unit_type > NALUnitType.CRA_NUT || (nal_unit_type > NALUnitType.RASL_R && nal_unit_type < NALUnitType.BLA_W_LP)) {
+        // reserved VCL NAL unit types
+        return { ...header, payload: nal_unit.subarray(2) };
+      }
+      let sps: SequenceParameterSet | undefined;
+      const slice_segment_header = parse_slice_segment_header(r, nal_unit_type, nuh_layer_id, (id) => {
+        const pps = this.pps.get(id);
+        if (pps === undefined) throw new MissingParameterSetError(`PPS ${id} is not found`);
+        sps = this.sps.get(pps.pps_seq_parameter_set_id);
+        if (sps === undefined) throw new MissingParameterSetError(`SPS ${pps.pps_seq_parameter_set_id} is not found`);
+        return { pps, sps };
+      });
+      this.active_sps = sps!;
+      if (slice_segment_header.first_slice_segment_in_pic_flag || this.current === undefined) {
+        this.current = this.poc.decode(sps!, slice_segment_header, nal_unit_type, header.nuh_temporal_id_plus1 - 1);
+      }
+      return { ...header, slice_segment_header, ...this.current };
+    }
+    switch (nal_unit_type) {
+      case NALUnitType.VPS_NUT: {
+        const VPS = parse_video_parameter_set(r);
+        this.vps.set(VPS.vps_video_parameter_set_id, VPS);
+        return { ...header, VPS };
+      }
+      case NALUnitType.SPS_NUT: {
+        if (nuh_layer_id !== 0) break;
+        const SPS = parse_seq_parameter_set(r);
+        this.sps.set(SPS.sps_seq_parameter_set_id, SPS);
+        if (this.current === undefined) this.active_sps = SPS;
+        return { ...header, SPS };
+      }
+      case NALUnitType.PPS_NUT: {
+        if (nuh_layer_id !== 0) break;
+        const PPS = parse_pic_parameter_set(r);
+        this.pps.set(PPS.pps_pic_parameter_set_id, PPS);
+        return { ...header, PPS };
+      }
+      case NALUnitType.PREFIX_SEI_NUT:
+      case NALUnitType.SUFFIX_SEI_NUT: {
+        const SEI = parse_sei_messages(r).map((message) => decode_sei_message(message, this.active_sps));
+        return { ...header, SEI };
+      }
+      case NALUnitType.AUD_NUT:
+        return { ...header, pic_type: r.uimsbf(3) };
+      case NALUnitType.EOS_NUT:
+        this.poc.end_of_sequence();
+        break;
+    }
+    return { ...header, payload: nal_unit.subarray(2) };
+  }
+}
+
+// A stream joined midway refers to parameter sets not received yet, so such NAL units are left unparsed
+function parse_or_skip(parser: NALUnitParser, nal_unit: Uint8Array): NALUnit {
+  try {
+    return parser.parse(nal_unit);
+  } catch (e) {
+    if (!(e instanceof MissingParameterSetError)) throw e;
+    return { ...parse_NAL_unit_header(nal_unit), payload: nal_unit.subarray(2) };
+  }
+}
+
+// Yields the NAL units of a byte stream given in chunks, such as the PES_packet_data of a video PES stream
+export async function* parse_byte_stream(chunks: AsyncIterable<Uint8Array>, parser = new NALUnitParser()) {
+  const splitter = new ByteStreamSplitter();
+  for await (const chunk of chunks) {
+    for (const nal_unit of splitter.push(chunk)) {
+      yield parse_or_skip(parser, nal_unit);
+    }
+  }
+  for (const nal_unit of splitter.flush()) {
+    yield parse_or_skip(parser, nal_unit);
+  }
+}
@@ -0,0 +1,700 @@
+// 7.3.2.1 Video parameter set RBSP syntax
+// 7.3.2.2 Sequence parameter set RBSP syntax
+// 7.3.2.3 Picture parameter set RBSP syntax
+// E.2 VUI syntax
+
+import { BitReader } from '../../reader.js';
+import { MalformedDataError } from './nal_unit.js';
+
+// 7.3.3 Profile, tier and level syntax
+function parse_profile_tier_level(r: BitReader, profilePresentFlag: boolean, maxNumSubLayersMinus1: number) {
+  const optional: {
+    general_profile_space?: number;
+    general_tier_flag?: boolean;
+    general_profile_idc?: number;
+    general_profile_compatibility_flags?: number;
+    // general_progressive_source_flag in the most significant bit, to general_inbld_flag or its reserved bit
+    general_constraint_indicator_flags?: number;
+    general_progressive_source_flag?: boolean;
+    general_interlaced_source_flag?: boolean;
+    general_non_packed_constraint_flag?: boolean;
+    general_frame_only_constraint_flag?: boolean;
+  } = {};
+  if (profilePresentFlag) {
+    optional.general_profile_space = r.uimsbf(2);
+    optional.general_tier_flag = r.bslbf(1) === 1;
+    optional.general_profile_idc = r.uimsbf(5);
+    optional.general_profile_compatibility_flags = r.bslbf(32);
+    const general_constraint_indicator_flags = optional.general_constraint_indicator_flags = r.bslbf(48);
+    optional.general_progressive_source_flag = general_constraint_indicator_flags >= 2 ** 47;
+    optional.general_interlaced_source_flag = Math.floor(general_constraint_indicator_flags / 2 ** 46) % 2 === 1;
+    optional.general_non_packed_constraint_flag = Math.floor(general_constraint_indicator_flags / 2 ** 45) % 2 === 1;
+    optional.general_frame_only_constraint_flag = Math.floor(general_constraint_indicator_flags / 2 ** 44) % 2 === 1;
+  }
+  const general_level_idc = r.uimsbf(8);
+  const sub_layer_flags: { sub_layer_profile_present_flag: boolean; sub_layer_level_present_flag: boolean }[] = [];
+  for (let i = 0; i < maxNumSubLayersMinus1; i++) {
+    const sub_layer_profile_present_flag = r.bslbf(1) === 1;
+    const sub_layer_level_present_flag = r.bslbf(1) === 1;
+    sub_layer_flags.push({ sub_layer_profile_present_flag, sub_layer_level_present_flag });
+  }
+  if (maxNumSubLayersMinus1 > 0) {
+    r.skip(2 * (8 - maxNumSubLayersMinus1)); // reserved_zero_2bits
+  }
+  const sub_layers: { sub_layer_profile_idc?: number; sub_layer_level_idc?: number }[] = [];
+  for (const { sub_layer_profile_present_flag, sub_layer_level_present_flag } of sub_layer_flags) {
+    const sub_layer: (typeof sub_layers)[number] = {};
+    if (sub_layer_profile_present_flag) {
+      r.skip(3); // sub_layer_profile_space, sub_layer_tier_flag
+      sub_layer.sub_layer_profile_idc = r.uimsbf(5);
+      r.skip(32 + 48); // sub_layer_profile_compatibility_flag, and the constraint flags
+    }
+    if (sub_layer_level_present_flag) {
+      sub_layer.sub_layer_level_idc = r.uimsbf(8);
+    }
+    sub_layers.push(sub_layer);
+  }
+  return { ...optional, general_level_idc, sub_layers };
+}
+
+export type ProfileTierLevel = ReturnType<typeof parse_profile_tier_level>;
+
+// E.2.3 Sub-layer HRD parameters syntax
+function parse_sub_layer_hrd_parameters(r: BitReader, CpbCnt: number, sub_pic_hrd_params_present_flag: boolean) {
+  const schedules: {
+    bit_rate_value_minus1: number;
+    cpb_size_value_minus1: number;
+    cpb_size_du_value_minus1?: number;
+    bit_rate_du_value_minus1?: number;
+    cbr_flag: boolean;
+  }[] = [];
+  for (let i = 0; i < CpbCnt; i++) {
+    const bit_rate_value_minus1 = r.ue();
+    const cpb_size_value_minus1 = r.ue();
+    const du = sub_pic_hrd_params_present_flag ? { cpb_size_du_value_minus1: r.ue(), bit_rate_du_value_minus1: r.ue() } : {};
+    const cbr_flag = r.bslbf(1) === 1;
+    schedules.push({ bit_rate_value_minus1, cpb_size_value_minus1, ...du, cbr_flag });
+  }
+  return schedules;
+}
+
+// E.2.2 HRD parameters syntax
+function parse_hrd_parameters(r: BitReader, commonInfPresentFlag: boolean, maxNumSubLayersMinus1: number) {
+  let nal_hrd_parameters_present_flag = false;
+  let vcl_hrd_parameters_present_flag = false;
+  let sub_pic_hrd_params_present_flag = false;
+  const optional: {
+    tick_divisor_minus2?: number;
+    du_cpb_removal_delay_increment_length_minus1?: number;
+    sub_pic_cpb_params_in_pic_timing_sei_flag?: boolean;
+    dpb_output_delay_du_length_minus1?: number;
+    bit_rate_scale?: number;
+    cpb_size_scale?: number;
+    cpb_size_du_scale?: number;
+    initial_cpb_removal_delay_length_minus1?: number;
+    au_cpb_removal_delay_length_minus1?: number;
+    dpb_output_delay_length_minus1?: number;
+  } = {};
+  if (commonInfPresentFlag) {
+    nal_hrd_parameters_present_flag = r.bslbf(1) === 1;
+    vcl_hrd_parameters_present_flag = r.bslbf(1) === 1;
+    if (nal_hrd_parameters_present_flag || vcl_hrd_parameters_present_flag) {
+      sub_pic_hrd_params_present_flag = r.bslbf(1) === 1;
+      if (sub_pic_hrd_params_present_flag) {
+        optional.tick_divisor_minus2 = r.uimsbf(8);
+        optional.du_cpb_removal_delay_increment_length_minus1 = r.uimsbf(5);
+        optional.sub_pic_cpb_params_in_pic_timing_sei_flag = r.bslbf(1) === 1;
+        optional.dpb_output_delay_du_length_minus1 = r.uimsbf(5);
+      }
+      optional.bit_rate_scale = r.uimsbf(4);
+      optional.cpb_size_scale = r.uimsbf(4);
+      if (sub_pic_hrd_params_present_flag) {
+        optional.cpb_size_du_scale = r.uimsbf(4);
+      }
+      optional.initial_cpb_removal_delay_length_minus1 = r.uimsbf(5);
+      optional.au_cpb_removal_delay_length_minus1 = r.uimsbf(5);
+      optional.dpb_output_delay_length_minus1 = r.uimsbf(5);
+    }
+  }
+  const sub_layers: {
+    fixed_pic_rate_general_flag: boolean;
+    fixed_pic_rate_within_cvs_flag: boolean;
+    elemental_duration_in_tc_minus1?: number;
+    low_delay_hrd_flag: boolean;
+    cpb_cnt_minus1: number;
+    nal_sub_layer_hrd_parameters?: ReturnType<typeof parse_sub_layer_hrd_parameters>;
+    vcl_sub_layer_hrd_parameters?: ReturnType<typeof parse_sub_layer_hrd_parameters>;
+  }[] = [];
+  for (let i = 0; i <= maxNumSubLayersMinus1; i++) {
+    const fixed_pic_rate_general_flag = r.bslbf(1) === 1;
+    const fixed_pic_rate_within_cvs_flag = fixed_pic_rate_general_flag || r.bslbf(1) === 1;
+    let low_delay_hrd_flag = false;
+    let elemental_duration_in_tc_minus1: number | undefined;
+    if (fixed_pic_rate_within_cvs_flag) {
+      elemental_duration_in_tc_minus1 = r.ue();
+    } else {
+      low_delay_hrd_flag = r.bslbf(1) === 1;
+    }
+    const cpb_cnt_minus1 = !low_delay_hrd_flag ? r.ue() : 0;
+    sub_layers.push({
+      fixed_pic_rate_general_flag,
+      fixed_pic_rate_within_cvs_flag,
+      ...(elemental_duration_in_tc_minus1 !== undefined ? { elemental_duration_in_tc_minus1 } : {}),
+      low_delay_hrd_flag,
+      cpb_cnt_minus1,
+      ...(nal_hrd_parameters_present_flag ? { nal_sub_layer_hrd_parameters: parse_sub_layer_hrd_parameters(r, cpb_cnt_minus1 + 1, sub_pic_hrd_params_present_flag) } : {}),
+      ...(vcl_hrd_parameters_present_flag ? { vcl_sub_layer_hrd_parameters: parse_sub_layer_hrd_parameters(r, cpb_cnt_minus1 + 1, sub_pic_hrd_params_present_flag) } : {}),
+    });
+  }
+  return {
+    nal_hrd_parameters_present_flag,
+    vcl_hrd_parameters_present_flag,
+    sub_pic_hrd_params_present_flag,
+    ...optional,
+    sub_layers,
+  };
+}
+
+export type HRDParameters = ReturnType<typeof parse_hrd_parameters>;
+
+// sps_max_dec_pic_buffering_minus1, sps_max_num_reorder_pics and sps_max_latency_increase_plus1 of each sub-layer
+function parse_sub_layer_ordering_info(r: BitReader, max_sub_layers_minus1: number) {
+  const sub_layer_ordering_info_present_flag = r.bslbf(1) === 1;
+  const info: { max_dec_pic_buffering_minus1: number; max_num_reorder_pics: number; max_latency_increase_plus1: number }[] = [];
+  for (let i = sub_layer_ordering_info_present_flag ? 0 : max_sub_layers_minus1; i <= max_sub_layers_minus1; i++) {
+    const max_dec_pic_buffering_minus1 = r.ue();
+    const max_num_reorder_pics = r.ue();
+    const max_latency_increase_plus1 = r.ue();
+    info.push({ max_dec_pic_buffering_minus1, max_num_reorder_pics, max_latency_increase_plus1 });
+  }
+  return info;
+}
+
+// 7.3.2.1 Video parameter set RBSP syntax, up to the timing and HRD parameters
+export function parse_video_parameter_set(r: BitReader) {
+  const vps_video_parameter_set_id = r.uimsbf(4);
+  const vps_base_layer_internal_flag = r.bslbf(1) === 1;
+  const vps_base_layer_available_flag = r.bslbf(1) === 1;
+  const vps_max_layers_minus1 = r.uimsbf(6);
+  const vps_max_sub_layers_minus1 = r.uimsbf(3);
+  const vps_temporal_id_nesting_flag = r.bslbf(1) === 1;
+  const vps_reserved_0xffff_16bits = r.bslbf(16);
+  if (vps_reserved_0xffff_16bits !== 0xffff) throw new MalformedDataError('Expected vps_reserved_0xffff_16bits to be 0xffff');
+  const profile_tier_level = parse_profile_tier_level(r, true, vps_max_sub_layers_minus1);
+  const vps_sub_layer_ordering_info = parse_sub_layer_ordering_info(r, vps_max_sub_layers_minus1);
+  const vps_max_layer_id = r.uimsbf(6);
+  const vps_num_layer_sets_minus1 = r.ue();
+  for (let i = 1; i <= vps_num_layer_sets_minus1; i++) {
+    r.skip(vps_max_layer_id + 1); // layer_id_included_flag
+  }
+  const optional: {
+    vps_num_units_in_tick?: number;
+    vps_time_scale?: number;
+    vps_num_ticks_poc_diff_one_minus1?: number;
+    hrd_parameters?: { hrd_layer_set_idx: number; hrd_parameters: HRDParameters }[];
+  } = {};
+  const vps_timing_info_present_flag = r.bslbf(1);
+  if (vps_timing_info_present_flag === 1) {
+    optional.vps_num_units_in_tick = r.uimsbf(32);
+    optional.vps_time_scale = r.uimsbf(32);
+    const vps_poc_proportional_to_timing_flag = r.bslbf(1);
+    if (vps_poc_proportional_to_timing_flag === 1) {
+      optional.vps_num_ticks_poc_diff_one_minus1 = r.ue();
+    }
+    const vps_num_hrd_parameters = r.ue();
+    optional.hrd_parameters = [];
+    for (let i = 0; i < vps_num_hrd_parameters; i++) {
+      const hrd_layer_set_idx = r.ue();
+      const cprms_present_flag = i > 0 ? r.bslbf(1) === 1 : true;
+      optional.hrd_parameters.push({ hrd_layer_set_idx, hrd_parameters: parse_hrd_parameters(r, cprms_present_flag, vps_max_sub_layers_minus1) });
+    }
+  }
+  return {
+    vps_video_parameter_set_id,
+    vps_base_layer_internal_flag,
+    vps_base_layer_available_flag,
+    vps_max_layers_minus1,
+    vps_max_sub_layers_minus1,
+    vps_temporal_id_nesting_flag,
+    profile_tier_level,
+    vps_sub_layer_ordering_info,
+    vps_max_layer_id,
+    vps_num_layer_sets_minus1,
+    ...optional,
+  };
+}
+
+export type VideoParameterSet = ReturnType<typeof parse_video_parameter_set>;
+
+// 7.3.4 Scaling list data syntax, with the deltas applied. A list predicted from a reference list is left as signalled.
+function parse_scaling_list_data(r: BitReader) {
+  const lists: {
+    sizeId: number;
+    matrixId: number;
+    scaling_list_pred_matrix_id_delta?: number;
+    scaling_list_dc_coef_minus8?: number;
+    ScalingList?: number[];
+  }[] = [];
+  for (let sizeId = 0; sizeId < 4; sizeId++) {
+    for (let matrixId = 0; matrixId < 6; matrixId += sizeId === 3 ? 3 : 1) {
+      const scaling_list_pred_mode_flag = r.bslbf(1);
+      if (scaling_list_pred_mode_flag === 0) {
+        lists.push({ sizeId, matrixId, scaling_list_pred_matrix_id_delta: r.ue() });
+        continue;
+      }
+      let nextCoef = 8;
+      const coefNum = Math.min(64, 1 << (4 + (sizeId << 1)));
+      const list: (typeof lists)[number] = { sizeId, matrixId, ScalingList: [] };
+      if (sizeId > 1) {
+        list.scaling_list_dc_coef_minus8 = r.se();
+        nextCoef = list.scaling_list_dc_coef_minus8 + 8;
+      }
+      for (let i = 0; i < coefNum; i++) {
+        const scaling_list_delta_coef = r.se();
+        nextCoef = (nextCoef + scaling_list_delta_coef + 256) % 256;
+        list.ScalingList!.push(nextCoef);
+      }
+      lists.push(list);
+    }
+  }
+  return lists;
+}
+
+// 7.4.8 Short-term reference picture set semantics, as the derived picture order count differences
+export type ShortTermRefPicSet = {
+  inter_ref_pic_set_prediction_flag: boolean;
+  DeltaPocS0: number[];
+  UsedByCurrPicS0: boolean[];
+  DeltaPocS1: number[];
+  UsedByCurrPicS1: boolean[];
+};
+
+// 7.3.7 Short-term reference picture set syntax. The sets of the SPS before stRpsIdx are needed for prediction.
+export function parse_st_ref_pic_set(r: BitReader, stRpsIdx: number, num_short_term_ref_pic_sets: number, sets: ShortTermRefPicSet[]): ShortTermRefPicSet {
+  const inter_ref_pic_set_prediction_flag = stRpsIdx !== 0 ? r.bslbf(1) === 1 : false;
+  const DeltaPocS0: number[] = [];
+  const UsedByCurrPicS0: boolean[] = [];
+  const DeltaPocS1: number[] = [];
+  const UsedByCurrPicS1: boolean[] = [];
+  if (inter_ref_pic_set_prediction_flag) {
+    const delta_idx_minus1 = stRpsIdx === num_short_term_ref_pic_sets ? r.ue() : 0;
+    if (delta_idx_minus1 + 1 > stRpsIdx) throw new MalformedDataError(`Invalid delta_idx_minus1 ${delta_idx_minus1}`);
+    const delta_rps_sign = r.bslbf(1);
+    const abs_delta_rps_minus1 = r.ue();
+    const ref = sets[stRpsIdx - (delta_idx_minus1 + 1)];
+    const deltaRps = (1 - 2 * delta_rps_sign) * (abs_delta_rps_minus1 + 1);
+    const NumNegativePics = ref.DeltaPocS0.length;
+    const NumDeltaPocs = NumNegativePics + ref.DeltaPocS1.length;
+    const used_by_curr_pic_flag: boolean[] = [];
+    const use_delta_flag: boolean[] = [];
+    for (let j = 0; j <= NumDeltaPocs; j++) {
+      used_by_curr_pic_flag.push(r.bslbf(1) === 1);
+      use_delta_flag.push(used_by_curr_pic_flag[j] || r.bslbf(1) === 1);
+    }
+    // (7-61)
+    for (let j = ref.DeltaPocS1.length - 1; j >= 0; j--) {
+      const dPoc = ref.DeltaPocS1[j] + deltaRps;
+      if (dPoc < 0 && use_delta_flag[NumNegativePics + j]) {
+        DeltaPocS0.push(dPoc);
+        UsedByCurrPicS0.push(used_by_curr_pic_flag[NumNegativePics + j]);
+      }
+    }
+    if (deltaRps < 0 && use_delta_flag[NumDeltaPocs]) {
+      DeltaPocS0.push(deltaRps);
+      UsedByCurrPicS0.push(used_by_curr_pic_flag[NumDeltaPocs]);
+    }
+    for (let j = 0; j < NumNegativePics; j++) {
+      const dPoc = ref.DeltaPocS0[j] + deltaRps;
+      if (dPoc < 0 && use_delta_flag[j]) {
+        DeltaPocS0.push(dPoc);
+        UsedByCurrPicS0.push(used_by_curr_pic_flag[j]);
+      }
+    }
+    // (7-62)
+    for (let j = NumNegativePics - 1; j >= 0; j--) {
+      const dPoc = ref.DeltaPocS0[j] + deltaRps;
+      if (dPoc > 0 && use_delta_flag[j]) {
+        DeltaPocS1.push(dPoc);
+        UsedByCurrPicS1.push(used_by_curr_pic_flag[j]);
+      }
+    }
+    if (deltaRps > 0 && use_delta_flag[NumDeltaPocs]) {
+      DeltaPocS1.push(deltaRps);
+      UsedByCurrPicS1.push(used_by_curr_pic_flag[NumDeltaPocs]);
+    }
+    for (let j = 0; j < ref.DeltaPocS1.length; j++) {
+      const dPoc = ref.DeltaPocS1[j] + deltaRps;
+      if (dPoc > 0 && use_delta_flag[NumNegativePics + j]) {
+        DeltaPocS1.push(dPoc);
+        UsedByCurrPicS1.push(used_by_curr_pic_flag[NumNegativePics + j]);
+      }
+    }
+  } else {
+    const num_negative_pics = r.ue();
+    const num_positive_pics = r.ue();
+    if (num_negative_pics > 16 || num_positive_pics > 16) throw new MalformedDataError('Too many pictures in a short-term reference picture set');
+    // (7-63) to (7-66)
+    for (let i = 0, poc = 0; i < num_negative_pics; i++) {
+      poc -= r.ue() + 1; // delta_poc_s0_minus1
+      DeltaPocS0.push(poc);
+      UsedByCurrPicS0.push(r.bslbf(1) === 1);
+    }
+    for (let i = 0, poc = 0; i < num_positive_pics; i++) {
+      poc += r.ue() + 1; // delta_poc_s1_minus1
+      DeltaPocS1.push(poc);
+      UsedByCurrPicS1.push(r.bslbf(1) === 1);
+    }
+  }
+  return { inter_ref_pic_set_prediction_flag, DeltaPocS0, UsedByCurrPicS0, DeltaPocS1, UsedByCurrPicS1 };
+}
+
+// Table E-1 Interpretation of sample aspect ratio indicator
+export const enum AspectRatioIdc {
+  EXTENDED_SAR = 255,
+}
+
+// E.2.1 VUI parameters syntax
+function parse_vui_parameters(r: BitReader, sps_max_sub_layers_minus1: number) {
+  const optional: {
+    aspect_ratio_idc?: number;
+    sar_width?: number;
+    sar_height?: number;
+    overscan_appropriate_flag?: boolean;
+    video_format?: number;
+    video_full_range_flag?: boolean;
+    colour_primaries?: number;
+    transfer_characteristics?: number;
+    matrix_coeffs?: number;
+    chroma_sample_loc_type_top_field?: number;
+    chroma_sample_loc_type_bottom_field?: number;
+    def_disp_win_left_offset?: number;
+    def_disp_win_right_offset?: number;
+    def_disp_win_top_offset?: number;
+    def_disp_win_bottom_offset?: number;
+    vui_num_units_in_tick?: number;
+    vui_time_scale?: number;
+    vui_num_ticks_poc_diff_one_minus1?: number;
+    hrd_parameters?: HRDParameters;
+    tiles_fixed_structure_flag?: boolean;
+    motion_vectors_over_pic_boundaries_flag?: boolean;
+    restricted_ref_pic_lists_flag?: boolean;
+    min_spatial_segmentation_idc?: number;
+    max_bytes_per_pic_denom?: number;
+    max_bits_per_min_cu_denom?: number;
+    log2_max_mv_length_horizontal?: number;
+    log2_max_mv_length_vertical?: number;
+  } = {};
+  const aspect_ratio_info_present_flag = r.bslbf(1);
+  if (aspect_ratio_info_present_flag === 1) {
+    optional.aspect_ratio_idc = r.uimsbf(8);
+    if (optional.aspect_ratio_idc === AspectRatioIdc.EXTENDED_SAR) {
+      optional.sar_width = r.uimsbf(16);
+      optional.sar_height = r.uimsbf(16);
+    }
+  }
+  const overscan_info_present_flag = r.bslbf(1);
+  if (overscan_info_present_flag === 1) {
+    optional.overscan_appropriate_flag = r.bslbf(1) === 1;
+  }
+  const video_signal_type_present_flag = r.bslbf(1);
+  if (video_signal_type_present_flag === 1) {
+    optional.video_format = r.uimsbf(3);
+    optional.video_full_range_flag = r.bslbf(1) === 1;
+    const colour_description_present_flag = r.bslbf(1);
+    if (colour_description_present_flag === 1) {
+      optional.colour_primaries = r.uimsbf(8);
+      optional.transfer_characteristics = r.uimsbf(8);
+      optional.matrix_coeffs = r.uimsbf(8);
+    }
+  }
+  const chroma_loc_info_present_flag = r.bslbf(1);
+  if (chroma_loc_info_present_flag === 1) {
+    optional.chroma_sample_loc_type_top_field = r.ue();
+    optional.chroma_sample_loc_type_bottom_field = r.ue();
+  }
+  const neutral_chroma_indication_flag = r.bslbf(1) === 1;
+  const field_seq_flag = r.bslbf(1) === 1;
+  const frame_field_info_present_flag = r.bslbf(1) === 1;
+  const default_display_window_flag = r.bslbf(1);
+  if (default_display_window_flag === 1) {
+    optional.def_disp_win_left_offset = r.ue();
+    optional.def_disp_win_right_offset = r.ue();
+    optional.def_disp_win_top_offset = r.ue();
+    optional.def_disp_win_bottom_offset = r.ue();
+  }
+  const vui_timing_info_present_flag = r.bslbf(1);
+  if (vui_timing_info_present_flag === 1) {
+    optional.vui_num_units_in_tick = r.uimsbf(32);
+    optional.vui_time_scale = r.uimsbf(32);
+    const vui_poc_proportional_to_timing_flag = r.bslbf(1);
+    if (vui_poc_proportional_to_timing_flag === 1) {
+      optional.vui_num_ticks_poc_diff_one_minus1 = r.ue();
+    }
+    const vui_hrd_parameters_present_flag = r.bslbf(1);
+    if (vui_hrd_parameters_present_flag === 1) {
+      optional.hrd_parameters = parse_hrd_parameters(r, true, sps_max_sub_layers_minus1);
+    }
+  }
+  const bitstream_restriction_flag = r.bslbf(1);
+  if (bitstream_restriction_flag === 1) {
+    optional.tiles_fixed_structure_flag = r.bslbf(1) === 1;
+    optional.motion_vectors_over_pic_boundaries_flag = r.bslbf(1) === 1;
+    optional.restricted_ref_pic_lists_flag = r.bslbf(1) === 1;
+    optional.min_spatial_segmentation_idc = r.ue();
+    optional.max_bytes_per_pic_denom = r.ue();
+    optional.max_bits_per_min_cu_denom = r.ue();
+    optional.log2_max_mv_length_horizontal = r.ue();
+    optional.log2_max_mv_length_vertical = r.ue();
+  }
+  return { ...optional, neutral_chroma_indication_flag, field_seq_flag, frame_field_info_present_flag };
+}
+
+export type VUIParameters = ReturnType<typeof parse_vui_parameters>;
+
+// 7.3.2.2.1 General sequence parameter set RBSP syntax, up to the VUI parameters
+export function parse_seq_parameter_set(r: BitReader) {
+  const sps_video_parameter_set_id = r.uimsbf(4);
+  const sps_max_sub_layers_minus1 = r.uimsbf(3);
+  const sps_temporal_id_nesting_flag = r.bslbf(1) === 1;
+  const profile_tier_level = parse_profile_tier_level(r, true, sps_max_sub_layers_minus1);
+  const sps_seq_parameter_set_id = r.ue();
+  if (sps_seq_parameter_set_id > 15) throw new MalformedDataError(`Invalid sps_seq_parameter_set_id ${sps_seq_parameter_set_id}`);
+  const chroma_format_idc = r.ue();
+  const separate_colour_plane_flag = chroma_format_idc === 3 ? r.bslbf(1) === 1 : false;
+  const pic_width_in_luma_samples = r.ue();
+  const pic_height_in_luma_samples = r.ue();
+  const optional: {
+    conf_win_left_offset?: number;
+    conf_win_right_offset?: number;
+    conf_win_top_offset?: number;
+    conf_win_bottom_offset?: number;
+    scaling_list_data?: ReturnType<typeof parse_scaling_list_data>;
+    pcm_sample_bit_depth_luma_minus1?: number;
+    pcm_sample_bit_depth_chroma_minus1?: number;
+    log2_min_pcm_luma_coding_block_size_minus3?: number;
+    log2_diff_max_min_pcm_luma_coding_block_size?: number;
+    pcm_loop_filter_disabled_flag?: boolean;
+    lt_ref_pic_poc_lsb_sps?: number[];
+    used_by_curr_pic_lt_sps_flag?: boolean[];
+    vui_parameters?: VUIParameters;
+  } = {};
+  const conformance_window_flag = r.bslbf(1);
+  if (conformance_window_flag === 1) {
+    optional.conf_win_left_offset = r.ue();
+    optional.conf_win_right_offset = r.ue();
+    optional.conf_win_top_offset = r.ue();
+    optional.conf_win_bottom_offset = r.ue();
+  }
+  const bit_depth_luma_minus8 = r.ue();
+  const bit_depth_chroma_minus8 = r.ue();
+  const log2_max_pic_order_cnt_lsb_minus4 = r.ue();
+  if (log2_max_pic_order_cnt_lsb_minus4 > 12) {
+    throw new MalformedDataError(`Invalid log2_max_pic_order_cnt_lsb_minus4 ${log2_max_pic_order_cnt_lsb_minus4}`);
+  }
+  const sps_sub_layer_ordering_info = parse_sub_layer_ordering_info(r, sps_max_sub_layers_minus1);
+  const log2_min_luma_coding_block_size_minus3 = r.ue();
+  const log2_diff_max_min_luma_coding_block_size = r.ue();
+  const log2_min_luma_transform_block_size_minus2 = r.ue();
+  const log2_diff_max_min_luma_transform_block_size = r.ue();
+  const max_transform_hierarchy_depth_inter = r.ue();
+  const max_transform_hierarchy_depth_intra = r.ue();
+  const scaling_list_enabled_flag = r.bslbf(1) === 1;
+  if (scaling_list_enabled_flag) {
+    const sps_scaling_list_data_present_flag = r.bslbf(1);
+    if (sps_scaling_list_data_present_flag === 1) {
+      optional.scaling_list_data = parse_scaling_list_data(r);
+    }
+  }
+  const amp_enabled_flag = r.bslbf(1) === 1;
+  const sample_adaptive_offset_enabled_flag = r.bslbf(1) === 1;
+  const pcm_enabled_flag = r.bslbf(1) === 1;
+  if (pcm_enabled_flag) {
+    optional.pcm_sample_bit_depth_luma_minus1 = r.uimsbf(4);
+    optional.pcm_sample_bit_depth_chroma_minus1 = r.uimsbf(4);
+    optional.log2_min_pcm_luma_coding_block_size_minus3 = r.ue();
+    optional.log2_diff_max_min_pcm_luma_coding_block_size = r.ue();
+    optional.pcm_loop_filter_disabled_flag = r.bslbf(1) === 1;
+  }
+  const num_short_term_ref_pic_sets = r.ue();
+  if (num_short_term_ref_pic_sets > 64) throw new MalformedDataError(`Invalid num_short_term_ref_pic_sets ${num_short_term_ref_pic_sets}`);
+  const st_ref_pic_sets: ShortTermRefPicSet[] = [];
+  for (let i = 0; i < num_short_term_ref_pic_sets; i++) {
+    st_ref_pic_sets.push(parse_st_ref_pic_set(r, i, num_short_term_ref_pic_sets, st_ref_pic_sets));
+  }
+  const long_term_ref_pics_present_flag = r.bslbf(1) === 1;
+  if (long_term_ref_pics_present_flag) {
+    const num_long_term_ref_pics_sps = r.ue();
+    if (num_long_term_ref_pics_sps > 32) throw new MalformedDataError(`Invalid num_long_term_ref_pics_sps ${num_long_term_ref_pics_sps}`);
+    optional.lt_ref_pic_poc_lsb_sps = [];
+    optional.used_by_curr_pic_lt_sps_flag = [];
+    for (let i = 0; i < num_long_term_ref_pics_sps; i++) {
+      optional.lt_ref_pic_poc_lsb_sps.push(r.uimsbf(log2_max_pic_order_cnt_lsb_minus4 + 4));
+      optional.used_by_curr_pic_lt_sps_flag.push(r.bslbf(1) === 1);
+    }
+  }
+  const sps_temporal_mvp_enabled_flag = r.bslbf(1) === 1;
+  const strong_intra_smoothing_enabled_flag = r.bslbf(1) === 1;
+  const vui_parameters_present_flag = r.bslbf(1);
+  if (vui_parameters_present_flag === 1) {
+    optional.vui_parameters = parse_vui_parameters(r, sps_max_sub_layers_minus1);
+  }
+  return {
+    sps_video_parameter_set_id,
+    sps_max_sub_layers_minus1,
+    sps_temporal_id_nesting_flag,
+    profile_tier_level,
+    sps_seq_parameter_set_id,
+    chroma_format_idc,
+    separate_colour_plane_flag,
+    pic_width_in_luma_samples,
+    pic_height_in_luma_samples,
+    bit_depth_luma_minus8,
+    bit_depth_chroma_minus8,
+    log2_max_pic_order_cnt_lsb_minus4,
+    sps_sub_layer_ordering_info,
+    log2_min_luma_coding_block_size_minus3,
+    log2_diff_max_min_luma_coding_block_size,
+    log2_min_luma_transform_block_size_minus2,
+    log2_diff_max_min_luma_transform_block_size,
+    max_transform_hierarchy_depth_inter,
+    max_transform_hierarchy_depth_intra,
+    scaling_list_enabled_flag,
+    amp_enabled_flag,
+    sample_adaptive_offset_enabled_flag,
+    pcm_enabled_flag,
+    st_ref_pic_sets,
+    long_term_ref_pics_present_flag,
+    sps_temporal_mvp_enabled_flag,
+    strong_intra_smoothing_enabled_flag,
+    ...optional,
+  };
+}
+
+export type SequenceParameterSet = ReturnType<typeof parse_seq_parameter_set>;
+
+// 7.4.3.2.1 ChromaArrayType
+export function ChromaArrayType(sps: SequenceParameterSet) {
+  return sps.separate_colour_plane_flag ? 0 : sps.chroma_format_idc;
+}
+
+// 7.4.3.2.1 The picture size in luma samples, after the conformance cropping window
+export function frame_size(sps: SequenceParameterSet) {
+  // Table 6-1 SubWidthC and SubHeightC
+  const SubWidthC = sps.chroma_format_idc === 1 || sps.chroma_format_idc === 2 ? 2 : 1;
+  const SubHeightC = sps.chroma_format_idc === 1 ? 2 : 1;
+  return {
+    width: sps.pic_width_in_luma_samples - SubWidthC * ((sps.conf_win_left_offset ?? 0) + (sps.conf_win_right_offset ?? 0)),
+    height: sps.pic_height_in_luma_samples - SubHeightC * ((sps.conf_win_top_offset ?? 0) + (sps.conf_win_bottom_offset ?? 0)),
+  };
+}
+
+// E.3.1 Pictures per second from the VUI timing information, where a picture is one clock tick.
+// With field_seq_flag, each picture is a field.
+export function frame_rate(sps: SequenceParameterSet) {
+  const vui = sps.vui_parameters;
+  if (vui?.vui_num_units_in_tick === undefined || vui.vui_time_scale === undefined || vui.vui_num_units_in_tick === 0) return undefined;
+  return vui.vui_time_scale / vui.vui_num_units_in_tick;
+}
+
+// 7.3.2.3.1 General picture parameter set RBSP syntax, up to the extensions
+export function parse_pic_parameter_set(r: BitReader) {
+  const pps_pic_parameter_set_id = r.ue();
+  if (pps_pic_parameter_set_id > 63) throw new MalformedDataError(`Invalid pps_pic_parameter_set_id ${pps_pic_parameter_set_id}`);
+  const pps_seq_parameter_set_id = r.ue();
+  const dependent_slice_segments_enabled_flag = r.bslbf(1) === 1;
+  const output_flag_present_flag = r.bslbf(1) === 1;
+  const num_extra_slice_header_bits = r.uimsbf(3);
+  const sign_data_hiding_enabled_flag = r.bslbf(1) === 1;
+  const cabac_init_present_flag = r.bslbf(1) === 1;
+  const num_ref_idx_l0_default_active_minus1 = r.ue();
+  const num_ref_idx_l1_default_active_minus1 = r.ue();
+  const init_qp_minus26 = r.se();
+  const constrained_intra_pred_flag = r.bslbf(1) === 1;
+  const transform_skip_enabled_flag = r.bslbf(1) === 1;
+  const optional: {
+    diff_cu_qp_delta_depth?: number;
+    num_tile_columns_minus1?: number;
+    num_tile_rows_minus1?: number;
+    uniform_spacing_flag?: boolean;
+    column_width_minus1?: number[];
+    row_height_minus1?: number[];
+    loop_filter_across_tiles_enabled_flag?: boolean;
+    deblocking_filter_override_enabled_flag?: boolean;
+    pps_deblocking_filter_disabled_flag?: boolean;
+    pps_beta_offset_div2?: number;
+    pps_tc_offset_div2?: number;
+    scaling_list_data?: ReturnType<typeof parse_scaling_list_data>;
+  } = {};
+  const cu_qp_delta_enabled_flag = r.bslbf(1) === 1;
+  if (cu_qp_delta_enabled_flag) {
+    optional.diff_cu_qp_delta_depth = r.ue();
+  }
+  const pps_cb_qp_offset = r.se();
+  const pps_cr_qp_offset = r.se();
+  const pps_slice_chroma_qp_offsets_present_flag = r.bslbf(1) === 1;
+  const weighted_pred_flag = r.bslbf(1) === 1;
+  const weighted_bipred_flag = r.bslbf(1) === 1;
+  const transquant_bypass_enabled_flag = r.bslbf(1) === 1;
+  const tiles_enabled_flag = r.bslbf(1) === 1;
+  const entropy_coding_sync_enabled_flag = r.bslbf(1) === 1;
+  if (tiles_enabled_flag) {
+    const num_tile_columns_minus1 = optional.num_tile_columns_minus1 = r.ue();
+    const num_tile_rows_minus1 = optional.num_tile_rows_minus1 = r.ue();
+    optional.uniform_spacing_flag = r.bslbf(1) === 1;
+    if (!optional.uniform_spacing_flag) {
+      optional.column_width_minus1 = [];
+      for (let i = 0; i < num_tile_columns_minus1; i++) optional.column_width_minus1.push(r.ue());
+      optional.row_height_minus1 = [];
+      for (let i = 0; i < num_tile_rows_minus1; i++) optional.row_height_minus1.push(r.ue());
+    }
+    optional.loop_filter_across_tiles_enabled_flag = r.bslbf(1) === 1;
+  }
+  const pps_loop_filter_across_slices_enabled_flag = r.bslbf(1) === 1;
+  const deblocking_filter_control_present_flag = r.bslbf(1) === 1;
+  if (deblocking_filter_control_present_flag) {
+    optional.deblocking_filter_override_enabled_flag = r.bslbf(1) === 1;
+    optional.pps_deblocking_filter_disabled_flag = r.bslbf(1) === 1;
+    if (!optional.pps_deblocking_filter_disabled_flag) {
+      optional.pps_beta_offset_div2 = r.se();
+      optional.pps_tc_offset_div2 = r.se();
+    }
+  }
+  const pps_scaling_list_data_present_flag = r.bslbf(1);
+  if (pps_scaling_list_data_present_flag === 1) {
+    optional.scaling_list_data = parse_scaling_list_data(r);
+  }
+  const lists_modification_present_flag = r.bslbf(1) === 1;
+  const log2_parallel_merge_level_minus2 = r.ue();
+  const slice_segment_header_extension_present_flag = r.bslbf(1) === 1;
+  return {
+    pps_pic_parameter_set_id,
+    pps_seq_parameter_set_id,
+    dependent_slice_segments_enabled_flag,
+    output_flag_present_flag,
+    num_extra_slice_header_bits,
+    sign_data_hiding_enabled_flag,
+    cabac_init_present_flag,
+    num_ref_idx_l0_default_active_minus1,
+    num_ref_idx_l1_default_active_minus1,
+    init_qp_minus26,
+    constrained_intra_pred_flag,
+    transform_skip_enabled_flag,
+    cu_qp_delta_enabled_flag,
+    pps_cb_qp_offset,
+    pps_cr_qp_offset,
+    pps_slice_chroma_qp_offsets_present_flag,
+    weighted_pred_flag,
+    weighted_bipred_flag,
+    transquant_bypass_enabled_flag,
+    tiles_enabled_flag,
+    entropy_coding_sync_enabled_flag,
+    pps_loop_filter_across_slices_enabled_flag,
+    deblocking_filter_control_present_flag,
+    lists_modification_present_flag,
+    log2_parallel_merge_level_minus2,
+    slice_segment_header_extension_present_flag,
+    ...optional,
+  };
+}
+
+export type PictureParameterSet = ReturnType<typeof parse_pic_parameter_set>;
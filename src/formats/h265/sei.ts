@@ -0,0 +1,103 @@
+// 7.3.2.4 Supplemental enhancement information RBSP syntax
+// Annex D Supplemental enhancement information, of which the messages shared with Rec. ITU-T H.264 are decoded alike
+
+import { BitReader } from '../../reader.js';
+import {
+  parse_content_light_level_info, parse_mastering_display_colour_volume, parse_user_data_registered_itu_t_t35,
+  parse_user_data_unregistered,
+} from '../h264/sei.js';
+import { SequenceParameterSet } from './parameter_sets.js';
+
+export { parse_sei_messages } from '../h264/sei.js';
+
+// Table D-1 payloadType values of the messages decoded here
+export const enum PayloadType {
+  pic_timing = 1,
+  user_data_registered_itu_t_t35 = 4,
+  user_data_unregistered = 5,
+  recovery_point = 6,
+  active_parameter_sets = 129,
+  mastering_display_colour_volume = 137,
+  content_light_level_info = 144,
+  alternative_transfer_characteristics = 147,
+}
+
+// D.2.3 Picture timing SEI message syntax, up to pic_dpb_output_delay. The decoding unit fields are left undecoded.
+function parse_pic_timing(r: BitReader, sps: SequenceParameterSet) {
+  const vui = sps.vui_parameters;
+  const hrd = vui?.hrd_parameters;
+  const optional: { pic_struct?: number; source_scan_type?: number; duplicate_flag?: boolean; au_cpb_removal_delay_minus1?: number; pic_dpb_output_delay?: number } = {};
+  if (vui?.frame_field_info_present_flag) {
+    optional.pic_struct = r.uimsbf(4);
+    optional.source_scan_type = r.uimsbf(2);
+    optional.duplicate_flag = r.bslbf(1) === 1;
+  }
+  // CpbDpbDelaysPresentFlag
+  if (hrd !== undefined && (hrd.nal_hrd_parameters_present_flag || hrd.vcl_hrd_parameters_present_flag)) {
+    optional.au_cpb_removal_delay_minus1 = r.uimsbf(hrd.au_cpb_removal_delay_length_minus1! + 1);
+    optional.pic_dpb_output_delay = r.uimsbf(hrd.dpb_output_delay_length_minus1! + 1);
+  }
+  return optional;
+}
+
+// D.2.8 Recovery point SEI message syntax
+function parse_recovery_point(r: BitReader) {
+  const recovery_poc_cnt = r.se();
+  const exact_match_flag = r.bslbf(1) === 1;
+  const broken_link_flag = r.bslbf(1) === 1;
+  return { recovery_poc_cnt, exact_match_flag, broken_link_flag };
+}
+
+// D.2.21 Active parameter sets SEI message syntax, without the layer extension
+function parse_active_parameter_sets(r: BitReader) {
+  const active_video_parameter_set_id = r.uimsbf(4);
+  const self_contained_cvs_flag = r.bslbf(1) === 1;
+  const no_parameter_set_update_flag = r.bslbf(1) === 1;
+  const num_sps_ids_minus1 = r.ue();
+  const active_seq_parameter_set_id: number[] = [];
+  for (let i = 0; i <= num_sps_ids_minus1; i++) active_seq_parameter_set_id.push(r.ue());
+  return { active_video_parameter_set_id, self_contained_cvs_flag, no_parameter_set_update_flag, active_seq_parameter_set_id };
+}
+
+// D.2.38 Alternative transfer characteristics SEI message syntax
+function parse_alternative_transfer_characteristics(r: BitReader) {
+  return { preferred_transfer_characteristics: r.uimsbf(8) };
+}
+
+export type SEIMessage = { payloadType: number; payload: Uint8Array } & (
+  | { pic_timing: ReturnType<typeof parse_pic_timing> }
+  | { user_data_registered_itu_t_t35: ReturnType<typeof parse_user_data_registered_itu_t_t35> }
+  | { user_data_unregistered: ReturnType<typeof parse_user_data_unregistered> }
+  | { recovery_point: ReturnType<typeof parse_recovery_point> }
+  | { active_parameter_sets: ReturnType<typeof parse_active_parameter_sets> }
+  | { mastering_display_colour_volume: ReturnType<typeof parse_mastering_display_colour_volume> }
+  | { content_light_level_info: ReturnType<typeof parse_content_light_level_info> }
+  | { alternative_transfer_characteristics: ReturnType<typeof parse_alternative_transfer_characteristics> }
+  | {}
+);
+
+// 7.3.5 Supplemental enhancement information message syntax. Messages of other types, or of which the SPS is unknown,
+// are left undecoded.
+export function decode_sei_message(message: { payloadType: number; payload: Uint8Array }, sps: SequenceParameterSet | undefined): SEIMessage {
+  const r = new BitReader(message.payload);
+  switch (message.payloadType) {
+    case PayloadType.pic_timing:
+      if (sps === undefined) return message;
+      return { ...message, pic_timing: parse_pic_timing(r, sps) };
+    case PayloadType.user_data_registered_itu_t_t35:
+      return { ...message, user_data_registered_itu_t_t35: parse_user_data_registered_itu_t_t35(r) };
+    case PayloadType.user_data_unregistered:
+      return { ...message, user_data_unregistered: parse_user_data_unregistered(r) };
+    case PayloadType.recovery_point:
+      return { ...message, recovery_point: parse_recovery_point(r) };
+    case PayloadType.active_parameter_sets:
+      return { ...message, active_parameter_sets: parse_active_parameter_sets(r) };
+    case PayloadType.mastering_display_colour_volume:
+      return { ...message, mastering_display_colour_volume: parse_mastering_display_colour_volume(r) };
+    case PayloadType.content_light_level_info:
+      return { ...message, content_light_level_info: parse_content_light_level_info(r) };
+    case PayloadType.alternative_transfer_characteristics:
+      return { ...message, alternative_transfer_characteristics: parse_alternative_transfer_characteristics(r) };
+  }
+  return message;
+}
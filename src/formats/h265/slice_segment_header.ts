@@ -0,0 +1,264 @@
+// 7.3.6 Slice segment header syntax
+// 8.3.1 Decoding process for picture order count
+
+import { BitReader } from '../../reader.js';
+import { MalformedDataError, NALUnitType, is_IRAP } from './nal_unit.js';
+import { ChromaArrayType, PictureParameterSet, SequenceParameterSet, ShortTermRefPicSet, parse_st_ref_pic_set } from './parameter_sets.js';
+
+// Table 7-7 Name association to slice_type
+export const enum SliceType {
+  B = 0,
+  P = 1,
+  I = 2,
+}
+
+// 7.3.6.2 Reference picture list modification syntax
+function parse_ref_pic_lists_modification(r: BitReader, slice_type: number, num_ref_idx_active_minus1: number[], NumPicTotalCurr: number) {
+  const n = Math.ceil(Math.log2(NumPicTotalCurr));
+  const lists: number[][] = [];
+  for (let l = 0; l < (slice_type === SliceType.B ? 2 : 1); l++) {
+    const list: number[] = [];
+    const ref_pic_list_modification_flag = r.bslbf(1);
+    if (ref_pic_list_modification_flag === 1) {
+      for (let i = 0; i <= num_ref_idx_active_minus1[l]; i++) list.push(r.uimsbf(n)); // list_entry_lX
+    }
+    lists.push(list);
+  }
+  return { list_entry_l0: lists[0], ...(lists.length > 1 ? { list_entry_l1: lists[1] } : {}) };
+}
+
+// 7.3.6.3 Weighted prediction parameters syntax, of a single-layer picture which cannot refer to itself
+function parse_pred_weight_table(r: BitReader, ChromaArrayType: number, num_ref_idx_active_minus1: number[]) {
+  const luma_log2_weight_denom = r.ue();
+  const delta_chroma_log2_weight_denom = ChromaArrayType !== 0 ? r.se() : undefined;
+  const lists: { delta_luma_weight?: number; luma_offset?: number; delta_chroma_weight?: number[]; delta_chroma_offset?: number[] }[][] = [];
+  for (const n of num_ref_idx_active_minus1) {
+    const luma_weight_flag: number[] = [];
+    for (let i = 0; i <= n; i++) luma_weight_flag.push(r.bslbf(1));
+    const chroma_weight_flag: number[] = [];
+    if (ChromaArrayType !== 0) {
+      for (let i = 0; i <= n; i++) chroma_weight_flag.push(r.bslbf(1));
+    }
+    const list: (typeof lists)[number] = [];
+    for (let i = 0; i <= n; i++) {
+      const entry: (typeof list)[number] = {};
+      if (luma_weight_flag[i] === 1) {
+        entry.delta_luma_weight = r.se();
+        entry.luma_offset = r.se();
+      }
+      if (chroma_weight_flag[i] === 1) {
+        entry.delta_chroma_weight = [];
+        entry.delta_chroma_offset = [];
+        for (let j = 0; j < 2; j++) {
+          entry.delta_chroma_weight.push(r.se());
+          entry.delta_chroma_offset.push(r.se());
+        }
+      }
+      list.push(entry);
+    }
+    lists.push(list);
+  }
+  return {
+    luma_log2_weight_denom,
+    ...(delta_chroma_log2_weight_denom !== undefined ? { delta_chroma_log2_weight_denom } : {}),
+    l0: lists[0],
+    ...(lists.length > 1 ? { l1: lists[1] } : {}),
+  };
+}
+
+// 7.3.6.1 General slice segment header syntax, up to slice_qp_delta. The fields after it depend on the PPS extensions.
+// The PPS and SPS it refers to must be given.
+export function parse_slice_segment_header(
+  r: BitReader,
+  nal_unit_type: number,
+  nuh_layer_id: number,
+  find_pps: (slice_pic_parameter_set_id: number) => { pps: PictureParameterSet; sps: SequenceParameterSet },
+) {
+  const first_slice_segment_in_pic_flag = r.bslbf(1) === 1;
+  const optional: {
+    no_output_of_prior_pics_flag?: boolean;
+    dependent_slice_segment_flag?: boolean;
+    slice_segment_address?: number;
+    slice_type?: number;
+    pic_output_flag?: boolean;
+    colour_plane_id?: number;
+    slice_pic_order_cnt_lsb?: number;
+    short_term_ref_pic_set?: ShortTermRefPicSet;
+    short_term_ref_pic_set_idx?: number;
+    long_term_pics?: {
+      lt_idx_sps?: number;
+      poc_lsb_lt: number;
+      used_by_curr_pic_lt_flag: boolean;
+      delta_poc_msb_cycle_lt?: number;
+    }[];
+    slice_temporal_mvp_enabled_flag?: boolean;
+    slice_sao_luma_flag?: boolean;
+    slice_sao_chroma_flag?: boolean;
+    num_ref_idx_l0_active_minus1?: number;
+    num_ref_idx_l1_active_minus1?: number;
+    ref_pic_lists_modification?: ReturnType<typeof parse_ref_pic_lists_modification>;
+    mvd_l1_zero_flag?: boolean;
+    cabac_init_flag?: boolean;
+    collocated_from_l0_flag?: boolean;
+    collocated_ref_idx?: number;
+    pred_weight_table?: ReturnType<typeof parse_pred_weight_table>;
+    five_minus_max_num_merge_cand?: number;
+    slice_qp_delta?: number;
+  } = {};
+  if (is_IRAP(nal_unit_type)) {
+    optional.no_output_of_prior_pics_flag = r.bslbf(1) === 1;
+  }
+  const slice_pic_parameter_set_id = r.ue();
+  const { pps, sps } = find_pps(slice_pic_parameter_set_id);
+  if (!first_slice_segment_in_pic_flag) {
+    if (pps.dependent_slice_segments_enabled_flag) {
+      optional.dependent_slice_segment_flag = r.bslbf(1) === 1;
+    }
+    // (7-10) to (7-22) PicSizeInCtbsY
+    const MinCbLog2SizeY = sps.log2_min_luma_coding_block_size_minus3 + 3;
+    const CtbSizeY = 1 << (MinCbLog2SizeY + sps.log2_diff_max_min_luma_coding_block_size);
+    const PicSizeInCtbsY = Math.ceil(sps.pic_width_in_luma_samples / CtbSizeY) * Math.ceil(sps.pic_height_in_luma_samples / CtbSizeY);
+    optional.slice_segment_address = r.uimsbf(Math.ceil(Math.log2(PicSizeInCtbsY)));
+  }
+  if (optional.dependent_slice_segment_flag) {
+    // the other fields are those of the preceding independent slice segment
+    return { first_slice_segment_in_pic_flag, slice_pic_parameter_set_id, ...optional };
+  }
+  r.skip(pps.num_extra_slice_header_bits); // slice_reserved_flag
+  const slice_type = optional.slice_type = r.ue();
+  if (slice_type > 2) throw new MalformedDataError(`Invalid slice_type ${slice_type}`);
+  if (pps.output_flag_present_flag) {
+    optional.pic_output_flag = r.bslbf(1) === 1;
+  }
+  if (sps.separate_colour_plane_flag) {
+    optional.colour_plane_id = r.uimsbf(2);
+  }
+  let NumPicTotalCurr = 0;
+  if (nal_unit_type !== NALUnitType.IDR_W_RADL && nal_unit_type !== NALUnitType.IDR_N_LP) {
+    optional.slice_pic_order_cnt_lsb = r.uimsbf(sps.log2_max_pic_order_cnt_lsb_minus4 + 4);
+    const num_short_term_ref_pic_sets = sps.st_ref_pic_sets.length;
+    const short_term_ref_pic_set_sps_flag = r.bslbf(1);
+    let rps: ShortTermRefPicSet | undefined;
+    if (short_term_ref_pic_set_sps_flag === 0) {
+      rps = optional.short_term_ref_pic_set = parse_st_ref_pic_set(r, num_short_term_ref_pic_sets, num_short_term_ref_pic_sets, sps.st_ref_pic_sets);
+    } else {
+      const short_term_ref_pic_set_idx = optional.short_term_ref_pic_set_idx = num_short_term_ref_pic_sets > 1
+        ? r.uimsbf(Math.ceil(Math.log2(num_short_term_ref_pic_sets)))
+        : 0;
+      rps = sps.st_ref_pic_sets[short_term_ref_pic_set_idx];
+      if (rps === undefined) throw new MalformedDataError(`Invalid short_term_ref_pic_set_idx ${short_term_ref_pic_set_idx}`);
+    }
+    // (7-55) NumPicTotalCurr
+    for (const used of [...rps.UsedByCurrPicS0, ...rps.UsedByCurrPicS1]) if (used) NumPicTotalCurr++;
+    if (sps.long_term_ref_pics_present_flag) {
+      const lt_ref_pic_poc_lsb_sps = sps.lt_ref_pic_poc_lsb_sps!;
+      const num_long_term_sps = lt_ref_pic_poc_lsb_sps.length > 0 ? r.ue() : 0;
+      if (num_long_term_sps > lt_ref_pic_poc_lsb_sps.length) throw new MalformedDataError(`Invalid num_long_term_sps ${num_long_term_sps}`);
+      const num_long_term_pics = r.ue();
+      optional.long_term_pics = [];
+      for (let i = 0; i < num_long_term_sps + num_long_term_pics; i++) {
+        let entry: NonNullable<(typeof optional)['long_term_pics']>[number];
+        if (i < num_long_term_sps) {
+          const lt_idx_sps = lt_ref_pic_poc_lsb_sps.length > 1 ? r.uimsbf(Math.ceil(Math.log2(lt_ref_pic_poc_lsb_sps.length))) : 0;
+          entry = { lt_idx_sps, poc_lsb_lt: lt_ref_pic_poc_lsb_sps[lt_idx_sps], used_by_curr_pic_lt_flag: sps.used_by_curr_pic_lt_sps_flag![lt_idx_sps] };
+        } else {
+          const poc_lsb_lt = r.uimsbf(sps.log2_max_pic_order_cnt_lsb_minus4 + 4);
+          const used_by_curr_pic_lt_flag = r.bslbf(1) === 1;
+          entry = { poc_lsb_lt, used_by_curr_pic_lt_flag };
+        }
+        const delta_poc_msb_present_flag = r.bslbf(1);
+        if (delta_poc_msb_present_flag === 1) {
+          entry.delta_poc_msb_cycle_lt = r.ue();
+        }
+        if (entry.used_by_curr_pic_lt_flag) NumPicTotalCurr++;
+        optional.long_term_pics.push(entry);
+      }
+    }
+    if (sps.sps_temporal_mvp_enabled_flag) {
+      optional.slice_temporal_mvp_enabled_flag = r.bslbf(1) === 1;
+    }
+  }
+  if (sps.sample_adaptive_offset_enabled_flag) {
+    optional.slice_sao_luma_flag = r.bslbf(1) === 1;
+    if (ChromaArrayType(sps) !== 0) {
+      optional.slice_sao_chroma_flag = r.bslbf(1) === 1;
+    }
+  }
+  if (slice_type === SliceType.P || slice_type === SliceType.B) {
+    const num_ref_idx_active_minus1 = [pps.num_ref_idx_l0_default_active_minus1];
+    if (slice_type === SliceType.B) num_ref_idx_active_minus1.push(pps.num_ref_idx_l1_default_active_minus1);
+    const num_ref_idx_active_override_flag = r.bslbf(1);
+    if (num_ref_idx_active_override_flag === 1) {
+      num_ref_idx_active_minus1[0] = r.ue();
+      if (slice_type === SliceType.B) {
+        num_ref_idx_active_minus1[1] = r.ue();
+      }
+    }
+    optional.num_ref_idx_l0_active_minus1 = num_ref_idx_active_minus1[0];
+    if (slice_type === SliceType.B) optional.num_ref_idx_l1_active_minus1 = num_ref_idx_active_minus1[1];
+    if (pps.lists_modification_present_flag && NumPicTotalCurr > 1) {
+      optional.ref_pic_lists_modification = parse_ref_pic_lists_modification(r, slice_type, num_ref_idx_active_minus1, NumPicTotalCurr);
+    }
+    if (slice_type === SliceType.B) {
+      optional.mvd_l1_zero_flag = r.bslbf(1) === 1;
+    }
+    if (pps.cabac_init_present_flag) {
+      optional.cabac_init_flag = r.bslbf(1) === 1;
+    }
+    if (optional.slice_temporal_mvp_enabled_flag) {
+      const collocated_from_l0_flag = optional.collocated_from_l0_flag = slice_type === SliceType.B ? r.bslbf(1) === 1 : true;
+      if (num_ref_idx_active_minus1[collocated_from_l0_flag ? 0 : 1] > 0) {
+        optional.collocated_ref_idx = r.ue();
+      }
+    }
+    if ((pps.weighted_pred_flag && slice_type === SliceType.P) || (pps.weighted_bipred_flag && slice_type === SliceType.B)) {
+      // whether luma_weight_lX_flag is present depends on the reference picture lists for other layers
+      if (nuh_layer_id !== 0) return { first_slice_segment_in_pic_flag, slice_pic_parameter_set_id, ...optional };
+      optional.pred_weight_table = parse_pred_weight_table(r, ChromaArrayType(sps), num_ref_idx_active_minus1);
+    }
+    optional.five_minus_max_num_merge_cand = r.ue();
+  }
+  optional.slice_qp_delta = r.se();
+  return { first_slice_segment_in_pic_flag, slice_pic_parameter_set_id, ...optional };
+}
+
+export type SliceSegmentHeader = ReturnType<typeof parse_slice_segment_header>;
+
+// Sub-layer non-reference pictures, RADL and RASL pictures, which are not prevTid0Pic
+function is_discardable(nal_unit_type: number) {
+  return (nal_unit_type <= NALUnitType.RSV_VCL_N14 && nal_unit_type % 2 === 0)
+    || (nal_unit_type >= NALUnitType.RADL_N && nal_unit_type <= NALUnitType.RASL_R);
+}
+
+// 8.3.1 Decoding process for picture order count. The first slice segment of each picture must be given in decoding order.
+export class PicOrderCntDecoder {
+  // of prevTid0Pic, or undefined before the first picture and after an end of sequence NAL unit
+  private previous?: { PicOrderCntMsb: number; slice_pic_order_cnt_lsb: number };
+
+  // 8.1.3 A picture after an end of sequence NAL unit is decoded with NoRaslOutputFlag equal to 1
+  end_of_sequence() {
+    this.previous = undefined;
+  }
+
+  decode(sps: SequenceParameterSet, header: SliceSegmentHeader, nal_unit_type: number, TemporalId: number) {
+    const MaxPicOrderCntLsb = 2 ** (sps.log2_max_pic_order_cnt_lsb_minus4 + 4);
+    const slice_pic_order_cnt_lsb = header.slice_pic_order_cnt_lsb ?? 0;
+    // 8.1.3 IDR and BLA pictures, and CRA pictures which start the bitstream
+    const NoRaslOutputFlag = is_IRAP(nal_unit_type) && (nal_unit_type <= NALUnitType.IDR_N_LP || this.previous === undefined);
+    let PicOrderCntMsb = 0;
+    if (!NoRaslOutputFlag && this.previous !== undefined) {
+      const { PicOrderCntMsb: prevPicOrderCntMsb, slice_pic_order_cnt_lsb: prevPicOrderCntLsb } = this.previous;
+      if (slice_pic_order_cnt_lsb < prevPicOrderCntLsb && prevPicOrderCntLsb - slice_pic_order_cnt_lsb >= MaxPicOrderCntLsb / 2) {
+        PicOrderCntMsb = prevPicOrderCntMsb + MaxPicOrderCntLsb;
+      } else if (slice_pic_order_cnt_lsb > prevPicOrderCntLsb && slice_pic_order_cnt_lsb - prevPicOrderCntLsb > MaxPicOrderCntLsb / 2) {
+        PicOrderCntMsb = prevPicOrderCntMsb - MaxPicOrderCntLsb;
+      } else {
+        PicOrderCntMsb = prevPicOrderCntMsb;
+      }
+    }
+    if (TemporalId === 0 && !is_discardable(nal_unit_type)) {
+      this.previous = { PicOrderCntMsb, slice_pic_order_cnt_lsb };
+    }
+    return { NoRaslOutputFlag, PicOrderCntVal: PicOrderCntMsb + slice_pic_order_cnt_lsb };
+  }
+}
@@ -0,0 +1,105 @@
+// Annex D Arithmetic coding: the QM-coder decoder
+
+// Table D.2 Qe values and probability estimation state machine, as
+// Qe_Value << 16 | Next_Index_MPS << 8 | Switch_MPS << 7 | Next_Index_LPS.
+// Index 113 is a non-adaptive state with Qe of about 0.5 for the decisions coded with a fixed probability.
+export const qe_table = Uint32Array.from([
+  [0x5A1D, 1, 1, 1], [0x2586, 14, 2, 0], [0x1114, 16, 3, 0], [0x080B, 18, 4, 0],
+  [0x03D8, 20, 5, 0], [0x01DA, 23, 6, 0], [0x00E5, 25, 7, 0], [0x006F, 28, 8, 0],
+  [0x0036, 30, 9, 0], [0x001A, 33, 10, 0], [0x000D, 35, 11, 0], [0x0006, 9, 12, 0],
+  [0x0003, 10, 13, 0], [0x0001, 12, 13, 0], [0x5A7F, 15, 15, 1], [0x3F25, 36, 16, 0],
+  [0x2CF2, 38, 17, 0], [0x207C, 39, 18, 0], [0x17B9, 40, 19, 0], [0x1182, 42, 20, 0],
+  [0x0CEF, 43, 21, 0], [0x09A1, 45, 22, 0], [0x072F, 46, 23, 0], [0x055C, 48, 24, 0],
+  [0x0406, 49, 25, 0], [0x0303, 51, 26, 0], [0x0240, 52, 27, 0], [0x01B1, 54, 28, 0],
+  [0x0144, 56, 29, 0], [0x00F5, 57, 30, 0], [0x00B7, 59, 31, 0], [0x008A, 60, 32, 0],
+  [0x0068, 62, 33, 0], [0x004E, 63, 34, 0], [0x003B, 32, 35, 0], [0x002C, 33, 9, 0],
+  [0x5AE1, 37, 37, 1], [0x484C, 64, 38, 0], [0x3A0D, 65, 39, 0], [0x2EF1, 67, 40, 0],
+  [0x261F, 68, 41, 0], [0x1F33, 69, 42, 0], [0x19A8, 70, 43, 0], [0x1518, 72, 44, 0],
+  [0x1177, 73, 45, 0], [0x0E74, 74, 46, 0], [0x0BFB, 75, 47, 0], [0x09F8, 77, 48, 0],
+  [0x0861, 78, 49, 0], [0x0706, 79, 50, 0], [0x05CD, 48, 51, 0], [0x04DE, 50, 52, 0],
+  [0x040F, 50, 53, 0], [0x0363, 51, 54, 0], [0x02D4, 52, 55, 0], [0x025C, 53, 56, 0],
+  [0x01F8, 54, 57, 0], [0x01A4, 55, 58, 0], [0x0160, 56, 59, 0], [0x0125, 57, 60, 0],
+  [0x00F6, 58, 61, 0], [0x00CB, 59, 62, 0], [0x00AB, 61, 63, 0], [0x008F, 61, 32, 0],
+  [0x5B12, 65, 65, 1], [0x4D04, 80, 66, 0], [0x412C, 81, 67, 0], [0x37D8, 82, 68, 0],
+  [0x2FE8, 83, 69, 0], [0x293C, 84, 70, 0], [0x2379, 86, 71, 0], [0x1EDF, 87, 72, 0],
+  [0x1AA9, 87, 73, 0], [0x174E, 72, 74, 0], [0x1424, 72, 75, 0], [0x119C, 74, 76, 0],
+  [0x0F6B, 74, 77, 0], [0x0D51, 75, 78, 0], [0x0BB6, 77, 79, 0], [0x0A40, 77, 48, 0],
+  [0x5832, 80, 81, 1], [0x4D1C, 88, 82, 0], [0x438E, 89, 83, 0], [0x3BDD, 90, 84, 0],
+  [0x34EE, 91, 85, 0], [0x2EAE, 92, 86, 0], [0x299A, 93, 87, 0], [0x2516, 86, 71, 0],
+  [0x5570, 88, 89, 1], [0x4CA9, 95, 90, 0], [0x44D9, 96, 91, 0], [0x3E22, 97, 92, 0],
+  [0x3824, 99, 93, 0], [0x32B4, 99, 94, 0], [0x2E17, 93, 86, 0], [0x56A8, 95, 96, 1],
+  [0x4F46, 101, 97, 0], [0x47E5, 102, 98, 0], [0x41CF, 103, 99, 0], [0x3C3D, 104, 100, 0],
+  [0x375E, 99, 93, 0], [0x5231, 105, 102, 0], [0x4C0F, 106, 103, 0], [0x4639, 107, 104, 0],
+  [0x415E, 103, 99, 0], [0x5627, 105, 106, 1], [0x50E7, 108, 107, 0], [0x4B85, 109, 103, 0],
+  [0x5597, 110, 109, 0], [0x504F, 111, 107, 0], [0x5A10, 110, 111, 1], [0x5522, 112, 109, 0],
+  [0x59EB, 112, 111, 1], [0x5A1D, 113, 113, 0],
+].map(([Qe, LPS, MPS, Switch_MPS]) => (Qe << 16 | MPS << 8 | Switch_MPS << 7 | LPS) >>> 0));
+
+// Statistics areas hold MPS << 7 | Qe index for each context, and are reset to zero at each restart interval.
+// This is a statistics area of one context in the fixed state.
+export function fixed_statistics() {
+  return Uint8Array.of(113);
+}
+
+// D.2 Arithmetic decoding procedure, over an entropy-coded segment with the byte stuffing already removed.
+// Past the end of the segment, zero bytes are read, as after a marker (D.2.6).
+export class ArithmeticDecoder {
+  private position = 0;
+  private C = 0;
+  private A = 0;
+  // bits in C before the next byte is read; negative while the first two bytes are read by INITDEC
+  private CT = -16;
+
+  constructor(private data: Uint8Array) { }
+
+  // D.2.7 BYTEIN
+  private byte_in() {
+    const byte = this.position < this.data.length ? this.data[this.position] : 0;
+    this.position++;
+    return byte;
+  }
+
+  // D.2.2 DECODE(S) of the decision with statistics st[S]
+  decode(st: Uint8Array, S: number) {
+    // D.2.6 RENORMD, which also performs INITDEC (D.2.5) on the first decision
+    while (this.A < 0x8000) {
+      if (--this.CT < 0) {
+        this.C = (this.C << 8 | this.byte_in()) >>> 0;
+        this.CT += 8;
+        if (this.CT < 0 && ++this.CT === 0) {
+          // both initial bytes are read: A = 0x10000 after this iteration
+          this.A = 0x8000;
+        }
+      }
+      this.A <<= 1;
+    }
+    const state = st[S];
+    const entry = qe_table[state & 0x7F];
+    const Qe = entry >>> 16;
+    const next_MPS = entry >> 8 & 0xFF;
+    const next_LPS = entry & 0xFF;
+    let D = state >> 7;
+    this.A -= Qe;
+    const Chigh = this.A << this.CT;
+    if (this.C >= Chigh) {
+      // D.2.4 LPS_EXCHANGE
+      this.C -= Chigh;
+      if (this.A < Qe) {
+        st[S] = (state & 0x80) ^ next_MPS;
+      } else {
+        st[S] = (state & 0x80) ^ next_LPS;
+        D ^= 1;
+      }
+      this.A = Qe;
+    } else if (this.A < 0x8000) {
+      // D.2.3 MPS_EXCHANGE
+      if (this.A < Qe) {
+        st[S] = (state & 0x80) ^ next_LPS;
+        D ^= 1;
+      } else {
+        st[S] = (state & 0x80) ^ next_MPS;
+      }
+    }
+    return D;
+  }
+}
@@ -0,0 +1,69 @@
+// Color conversion of decoded components.
+// JFIF (ITU-T T.871) YCbCr, and the Adobe APP14 transforms (Adobe Technical Note #5116).
+
+export type ColorSpace = 'gray' | 'rgb' | 'ycbcr' | 'cmyk' | 'ycck';
+
+// T.871 7 Conversion to and from RGB, for samples of precision P
+function ycbcr_to_rgb(Y: number, Cb: number, Cr: number, center: number, out: Float64Array) {
+  out[0] = Y + 1.402 * (Cr - center);
+  out[1] = Y - 0.344136 * (Cb - center) - 0.714136 * (Cr - center);
+  out[2] = Y + 1.772 * (Cb - center);
+}
+
+const rgb = new Float64Array(3);
+
+// Converts one pixel of component samples of precision P to 8 bit RGB at out_offset
+export function convert_pixel(
+  color_space: ColorSpace, samples: ArrayLike<number>, P: number, inverted: boolean,
+  out: Uint8ClampedArray, out_offset: number,
+) {
+  const max = (1 << P) - 1;
+  const scale = 255 / max;
+  switch (color_space) {
+    case 'gray':
+      out[out_offset] = out[out_offset + 1] = out[out_offset + 2] = samples[0] * scale;
+      return;
+    case 'rgb':
+      out[out_offset] = samples[0] * scale;
+      out[out_offset + 1] = samples[1] * scale;
+      out[out_offset + 2] = samples[2] * scale;
+      return;
+    case 'ycbcr':
+      ycbcr_to_rgb(samples[0], samples[1], samples[2], 1 << (P - 1), rgb);
+      out[out_offset] = rgb[0] * scale;
+      out[out_offset + 1] = rgb[1] * scale;
+      out[out_offset + 2] = rgb[2] * scale;
+      return;
+    case 'cmyk':
+    case 'ycck': {
+      let C: number, M: number, Y: number;
+      if (color_space === 'ycck') {
+        // YCbCr of the complements of C, M and Y
+        ycbcr_to_rgb(samples[0], samples[1], samples[2], 1 << (P - 1), rgb);
+        C = max - clamp(rgb[0], max);
+        M = max - clamp(rgb[1], max);
+        Y = max - clamp(rgb[2], max);
+      } else {
+        C = samples[0];
+        M = samples[1];
+        Y = samples[2];
+      }
+      const K = samples[3];
+      // Adobe applications write CMYK with 0 for full ink
+      if (inverted) {
+        out[out_offset] = C * K / max * scale;
+        out[out_offset + 1] = M * K / max * scale;
+        out[out_offset + 2] = Y * K / max * scale;
+      } else {
+        out[out_offset] = (max - C) * (max - K) / max * scale;
+        out[out_offset + 1] = (max - M) * (max - K) / max * scale;
+        out[out_offset + 2] = (max - Y) * (max - K) / max * scale;
+      }
+      return;
+    }
+  }
+}
+
+function clamp(value: number, max: number) {
+  return value < 0 ? 0 : value > max ? max : value;
+}
@@ -0,0 +1,794 @@
+// Annex F Sequential DCT-based mode of operation
+// Annex G Progressive DCT-based mode of operation
+// Annex H Lossless mode of operation
+// Decodes the frames of the non-hierarchical processes to pixels, with either Huffman or arithmetic coding.
+
+import { ByteReader } from '../../reader.js';
+import { ArithmeticDecoder, fixed_statistics } from './arithmetic.js';
+import { ColorSpace, convert_pixel } from './color.js';
+import { EntropyBitReader, HuffmanDecoder, extend } from './huffman.js';
+import { idct_block, zigzag } from './idct.js';
+import { FrameHeader, JPEGSegment, MalformedDataError, ScanHeader, is_APP, is_RST, parse_JPEG } from './marker_segments.js';
+import { MarkerCode } from './markers.js';
+import { identify_application_data, parse_Adobe } from './metadata.js';
+
+export class UnsupportedProcessError extends Error { }
+
+export type DecodeOptions = {
+  // 'rgb' and 'rgba' convert to 8 bit samples interleaved per pixel.
+  // 'planar' leaves the samples of each component as decoded, at its own sampling resolution.
+  format?: 'rgb' | 'rgba' | 'planar';
+};
+
+export type Plane = {
+  C: number;
+  width: number;
+  height: number;
+  // 8 bit samples for 8 bit precision, otherwise 16 bit
+  data: Uint8Array | Uint16Array;
+};
+
+export type DecodedImage = {
+  width: number;
+  height: number;
+  color_space: ColorSpace;
+} & ({
+  format: 'rgb' | 'rgba';
+  data: Uint8ClampedArray;
+} | {
+  format: 'planar';
+  planes: Plane[];
+});
+
+type Component = {
+  C: number;
+  H: number;
+  V: number;
+  Tq: number;
+  // A.1.1 Dimensions of the component, in samples
+  width: number;
+  height: number;
+  // the data units (blocks, or samples in lossless mode) covering whole MCUs of an interleaved scan
+  blocks_per_line: number;
+  blocks_per_column: number;
+  // quantized DCT coefficients of each block, in natural order
+  coefficients: Int16Array;
+  // quantization table in natural order, as at the first scan of the component
+  Q?: Uint16Array;
+  // DC prediction
+  pred: number;
+  // table destinations of the current scan
+  Td: number;
+  Ta: number;
+  dc_table?: HuffmanDecoder;
+  ac_table?: HuffmanDecoder;
+  // F.1.4.4.1.2 Conditioning category of the last DC difference, in arithmetic coding
+  dc_context: number;
+  // lossless mode: samples as reconstructed before the point transform Pt
+  samples: Uint16Array;
+  Pt: number;
+  // and the differences, for the conditioning of arithmetic coding
+  differences: Int32Array;
+  // the first data unit of the component in the current restart interval
+  interval_start: number;
+};
+
+type Scan = {
+  header: ScanHeader;
+  components: Component[];
+  // MCUs in the scan, and the number of MCUs per line
+  mcus: number;
+  mcus_per_line: number;
+  // the next MCU to decode, and the number of the next restart interval
+  mcu: number;
+  interval: number;
+  decode_block: (component: Component, offset: number) => void;
+};
+
+export class JPEGDecoder {
+  frame?: FrameHeader;
+  private components: Component[] = [];
+  private mcus_per_line = 0;
+  private mcus_per_column = 0;
+  // by destination identifier
+  private quantization_tables: (Uint16Array | undefined)[] = [];
+  private dc_tables: (HuffmanDecoder | undefined)[] = [];
+  private ac_tables: (HuffmanDecoder | undefined)[] = [];
+  private Ri = 0;
+  private scan?: Scan;
+  private bits = new EntropyBitReader(new Uint8Array(0));
+  private arithmetic = new ArithmeticDecoder(new Uint8Array(0));
+  // statistics areas by table destination, and the fixed probability statistics
+  private dc_statistics: Uint8Array[] = [];
+  private ac_statistics: Uint8Array[] = [];
+  private fixed_statistics = fixed_statistics();
+  // B.2.4.3 Arithmetic conditioning by table destination: DC (and lossless) lower and upper bounds, and AC Kx
+  private L = [0, 0, 0, 0];
+  private U = [1, 1, 1, 1];
+  private Kx = [5, 5, 5, 5];
+  // G.1.2.2 End-of-band run of the current progressive AC scan
+  private EOBRUN = 0;
+  // the number of scans decoded up to their last entropy-coded segment
+  scans = 0;
+  private JFIF = false;
+  // Adobe APP14 transform flag
+  private adobe_transform?: number;
+  // segments of the first scan, held until the DNL marker when the frame header has no number of lines
+  private deferred?: JPEGSegment[];
+
+  push(segment: JPEGSegment) {
+    if (this.deferred !== undefined && segment.marker !== MarkerCode.DNL) {
+      this.deferred.push(segment);
+      return;
+    }
+    if ('entropy_coded_segment' in segment) {
+      this.decode_interval(segment.entropy_coded_segment);
+      return;
+    }
+    const marker = segment.marker;
+    // the scan is complete at the first marker after it other than RSTn
+    if (this.scan !== undefined && !is_RST(marker)) {
+      this.scan = undefined;
+      this.scans++;
+    }
+    if ('Nf' in segment && 'process' in segment) {
+      this.start_frame(segment);
+    } else if ('Ns' in segment) {
+      if (this.frame === undefined) throw new MalformedDataError('SOS before the frame header');
+      if (this.frame.Y === 0) {
+        this.deferred = [segment];
+        return;
+      }
+      this.start_scan(segment);
+    } else if ('tables' in segment) {
+      for (const table of segment.tables) {
+        if ('Q' in table) {
+          // B.2.4.1 Quantization table-specification syntax, in zig-zag order
+          const Q = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) Q[zigzag[k]] = table.Q[k];
+          this.quantization_tables[table.Tq] = Q;
+        } else {
+          const decoder = new HuffmanDecoder(table.L, table.V);
+          (table.Tc === 0 ? this.dc_tables : this.ac_tables)[table.Th] = decoder;
+        }
+      }
+    } else if ('conditioning' in segment) {
+      for (const { Tc, Tb, Cs } of segment.conditioning) {
+        if (Tb > 3) throw new MalformedDataError(`Invalid conditioning table destination ${Tb}`);
+        if (Tc === 0) {
+          this.L[Tb] = Cs & 0x0F;
+          this.U[Tb] = Cs >> 4;
+        } else {
+          this.Kx[Tb] = Cs;
+        }
+      }
+    } else if ('Ri' in segment) {
+      this.Ri = segment.Ri;
+    } else if ('NL' in segment) {
+      this.define_number_of_lines(segment.NL);
+    } else if (is_RST(marker)) {
+      this.restart(marker - MarkerCode.RST0);
+    } else if ('Ap' in segment && is_APP(marker)) {
+      this.application_data(marker, segment.Ap);
+    } else if (marker === MarkerCode.DHP || marker === MarkerCode.EXP) {
+      throw new UnsupportedProcessError(`Unsupported marker 0x${marker.toString(16)}`);
+    }
+  }
+
+  private application_data(marker: number, Ap: Uint8Array) {
+    switch (identify_application_data(marker, Ap)) {
+      case 'JFIF':
+        this.JFIF = true;
+        break;
+      case 'Adobe':
+        if (Ap.length >= 12) this.adobe_transform = parse_Adobe(Ap).ColorTransform;
+        break;
+    }
+  }
+
+  private start_frame(frame: FrameHeader) {
+    if (this.frame !== undefined) throw new UnsupportedProcessError('Multiple frames');
+    if (frame.differential) {
+      throw new UnsupportedProcessError(`Unsupported coding process differential ${frame.process}`);
+    }
+    if (frame.process === 'lossless' ? frame.P < 2 || frame.P > 16 : frame.P !== 8 && frame.P !== 12) {
+      throw new MalformedDataError(`Invalid sample precision ${frame.P}`);
+    }
+    if (frame.X === 0 || frame.Nf === 0) throw new MalformedDataError('Empty frame');
+    for (const { H, V } of frame.components) {
+      if (H < 1 || H > 4 || V < 1 || V > 4) throw new MalformedDataError(`Invalid sampling factors ${H}x${V}`);
+    }
+    this.frame = frame;
+    if (frame.Y !== 0) this.allocate();
+  }
+
+  // A.1.1 Dimensions and sampling factors
+  private allocate() {
+    const frame = this.frame!;
+    const Hmax = Math.max(...frame.components.map(c => c.H));
+    const Vmax = Math.max(...frame.components.map(c => c.V));
+    // the data unit is an 8 x 8 block, or a sample in lossless mode
+    const lossless = frame.process === 'lossless';
+    const size = lossless ? 1 : 8;
+    this.mcus_per_line = Math.ceil(frame.X / (size * Hmax));
+    this.mcus_per_column = Math.ceil(frame.Y / (size * Vmax));
+    this.components = frame.components.map(({ C, H, V, Tq }) => {
+      const blocks_per_line = this.mcus_per_line * H;
+      const blocks_per_column = this.mcus_per_column * V;
+      const units = blocks_per_line * blocks_per_column;
+      return {
+        C, H, V, Tq,
+        width: Math.ceil(frame.X * H / Hmax),
+        height: Math.ceil(frame.Y * V / Vmax),
+        blocks_per_line,
+        blocks_per_column,
+        coefficients: new Int16Array(lossless ? 0 : units * 64),
+        pred: 0,
+        Td: 0,
+        Ta: 0,
+        dc_context: 0,
+        samples: new Uint16Array(lossless ? units : 0),
+        Pt: 0,
+        differences: new Int32Array(lossless && frame.arithmetic ? units : 0),
+        interval_start: 0,
+      };
+    });
+  }
+
+  // B.2.5 Define number of lines syntax
+  private define_number_of_lines(NL: number) {
+    if (this.frame === undefined || this.frame.Y !== 0 || this.deferred === undefined) return;
+    if (NL === 0) throw new MalformedDataError('Number of lines is 0');
+    this.frame = { ...this.frame, Y: NL };
+    this.allocate();
+    const deferred = this.deferred;
+    this.deferred = undefined;
+    for (const segment of deferred) this.push(segment);
+  }
+
+  private start_scan(header: ScanHeader) {
+    const frame = this.frame!;
+    const { Ss, Se, Ah, Al } = header;
+    const arithmetic = frame.arithmetic === true;
+    let decode_block = arithmetic ? this.decode_block_sequential_arithmetic : this.decode_block_sequential;
+    if (frame.process === 'progressive') {
+      // G.1.1.1.1 Spectral selection control and successive approximation control
+      if (Ss === 0 ? Se !== 0 : Se < Ss || Se > 63 || header.Ns !== 1) {
+        throw new MalformedDataError(`Invalid spectral selection ${Ss}-${Se} over ${header.Ns} components`);
+      }
+      if (arithmetic) {
+        decode_block = Ss === 0
+          ? (Ah === 0 ? this.decode_DC_first_arithmetic : this.decode_DC_refine_arithmetic)
+          : (Ah === 0 ? this.decode_AC_first_arithmetic : this.decode_AC_refine_arithmetic);
+      } else {
+        decode_block = Ss === 0
+          ? (Ah === 0 ? this.decode_DC_first : this.decode_DC_refine)
+          : (Ah === 0 ? this.decode_AC_first : this.decode_AC_refine);
+      }
+    } else if (frame.process === 'lossless') {
+      // H.1.1 Ss selects the predictor and Al is the point transform
+      if (Ss < 1 || Ss > 7 || Se !== 0 || Ah !== 0 || Al >= frame.P) {
+        throw new MalformedDataError(`Invalid predictor ${Ss} or point transform ${Al} of a lossless scan`);
+      }
+      decode_block = this.decode_sample;
+    } else if (Ss !== 0 || Se !== 63 || Ah !== 0 || Al !== 0) {
+      throw new MalformedDataError(`Invalid spectral selection ${Ss}-${Se} of a sequential scan`);
+    }
+    const components = header.components.map(({ Cs, Td, Ta }) => {
+      const component = this.components.find(c => c.C === Cs);
+      if (component === undefined) throw new MalformedDataError(`Scan component ${Cs} is not in the frame`);
+      if (Td > 3 || Ta > 3) throw new MalformedDataError(`Invalid table destinations ${Td}, ${Ta}`);
+      component.Td = Td;
+      component.Ta = Ta;
+      component.dc_table = this.dc_tables[Td];
+      component.ac_table = this.ac_tables[Ta];
+      // DC refinement scans are not Huffman coded
+      if (!arithmetic && Ss === 0 && Ah === 0 && component.dc_table === undefined) {
+        throw new MalformedDataError(`DC Huffman table ${Td} is not defined`);
+      }
+      if (!arithmetic && Se > 0 && component.ac_table === undefined) {
+        throw new MalformedDataError(`AC Huffman table ${Ta} is not defined`);
+      }
+      if (frame.process === 'lossless') {
+        component.Pt = Al;
+        return component;
+      }
+      component.Q ??= this.quantization_tables[component.Tq];
+      if (component.Q === undefined) throw new MalformedDataError(`Quantization table ${component.Tq} is not defined`);
+      return component;
+    });
+    // A.2.2 Non-interleaved order: one data unit per MCU, over the data units of the component only
+    let mcus_per_line = this.mcus_per_line;
+    let mcus = this.mcus_per_line * this.mcus_per_column;
+    if (components.length === 1) {
+      const size = frame.process === 'lossless' ? 1 : 8;
+      mcus_per_line = Math.ceil(components[0].width / size);
+      mcus = mcus_per_line * Math.ceil(components[0].height / size);
+    }
+    this.scan = { header, components, mcus, mcus_per_line, mcu: 0, interval: 0, decode_block };
+  }
+
+  // F.2.1.3 Each restart interval is coded as its own entropy-coded segment
+  private decode_interval(data: Uint8Array) {
+    const scan = this.scan;
+    if (scan === undefined) return;
+    if (this.Ri > 0) scan.mcu = Math.min(scan.mcus, scan.interval * this.Ri);
+    const end = this.Ri > 0 ? Math.min(scan.mcus, scan.mcu + this.Ri) : scan.mcus;
+    scan.interval++;
+    if (this.frame!.arithmetic) {
+      // F.2.4.4 The statistics are reset at the start of each restart interval
+      this.arithmetic = new ArithmeticDecoder(data);
+      const size = this.frame!.process === 'lossless' ? 158 : 64;
+      for (let i = 0; i < 4; i++) {
+        this.dc_statistics[i] = new Uint8Array(size);
+        this.ac_statistics[i] = new Uint8Array(256);
+      }
+    } else {
+      this.bits = new EntropyBitReader(data);
+    }
+    for (const component of scan.components) {
+      component.pred = 0;
+      component.dc_context = 0;
+      component.interval_start = -1;
+    }
+    this.EOBRUN = 0;
+    for (; scan.mcu < end; scan.mcu++) {
+      this.decode_MCU(scan, scan.mcu);
+    }
+  }
+
+  // RSTn markers count intervals modulo 8, so up to 7 lost intervals can be skipped over
+  private restart(n: number) {
+    const scan = this.scan;
+    if (scan === undefined) return;
+    scan.interval += (n - (scan.interval - 1)) & 7;
+  }
+
+  // A.2.3 Interleaved order
+  private decode_MCU(scan: Scan, mcu: number) {
+    const row = Math.floor(mcu / scan.mcus_per_line);
+    const column = mcu % scan.mcus_per_line;
+    const unit = this.frame!.process === 'lossless' ? 1 : 64;
+    if (scan.components.length === 1) {
+      const component = scan.components[0];
+      scan.decode_block(component, (row * component.blocks_per_line + column) * unit);
+      return;
+    }
+    for (const component of scan.components) {
+      for (let v = 0; v < component.V; v++) {
+        for (let h = 0; h < component.H; h++) {
+          const block = (row * component.V + v) * component.blocks_per_line + column * component.H + h;
+          scan.decode_block(component, block * unit);
+        }
+      }
+    }
+  }
+
+  // F.2.2 Baseline Huffman decoding procedures
+  private decode_block_sequential = (component: Component, offset: number) => {
+    const r = this.bits;
+    const coefficients = component.coefficients;
+    // F.2.2.1 Huffman decoding of DC coefficients
+    const t = r.decode(component.dc_table!);
+    const diff = t === 0 ? 0 : extend(r.receive(t), t);
+    component.pred += diff;
+    coefficients[offset] = component.pred;
+    // F.2.2.2 Decoding procedure for AC coefficients
+    for (let k = 1; k < 64;) {
+      const RS = r.decode(component.ac_table!);
+      const R = RS >> 4;
+      const S = RS & 15;
+      if (S === 0) {
+        if (R !== 15) break;
+        k += 16;
+        continue;
+      }
+      k += R;
+      if (k > 63) break;
+      coefficients[offset + zigzag[k]] = extend(r.receive(S), S);
+      k++;
+    }
+  };
+
+  // G.1.2.1 Progressive encoding of DC coefficients: the first scan of the DC coefficients
+  private decode_DC_first = (component: Component, offset: number) => {
+    const r = this.bits;
+    const t = r.decode(component.dc_table!);
+    const diff = t === 0 ? 0 : extend(r.receive(t), t);
+    component.pred += diff;
+    component.coefficients[offset] = component.pred * (1 << this.scan!.header.Al);
+  };
+
+  // G.1.2.1 Subsequent scans of the DC coefficients append one bit each
+  private decode_DC_refine = (component: Component, offset: number) => {
+    const r = this.bits;
+    if (r.bit() === 1) component.coefficients[offset] |= 1 << this.scan!.header.Al;
+  };
+
+  // G.1.2.2 Progressive encoding of AC coefficients with spectral selection
+  private decode_AC_first = (component: Component, offset: number) => {
+    const r = this.bits;
+    if (this.EOBRUN > 0) {
+      this.EOBRUN--;
+      return;
+    }
+    const { Se, Al } = this.scan!.header;
+    const coefficients = component.coefficients;
+    for (let k = this.scan!.header.Ss; k <= Se;) {
+      const RS = r.decode(component.ac_table!);
+      const R = RS >> 4;
+      const S = RS & 15;
+      if (S === 0) {
+        if (R === 15) {
+          k += 16;
+          continue;
+        }
+        // EOBn: this block and the next (1 << R) - 1 + the appended bits end here
+        this.EOBRUN = (1 << R) - 1 + r.receive(R);
+        break;
+      }
+      k += R;
+      if (k > Se) break;
+      coefficients[offset + zigzag[k]] = extend(r.receive(S), S) * (1 << Al);
+      k++;
+    }
+  };
+
+  // G.1.2.3 Coding model for subsequent scans of successive approximation: newly nonzero coefficients are
+  // coded as in the first scan, and one correction bit is appended for each coefficient that is already nonzero
+  private decode_AC_refine = (component: Component, offset: number) => {
+    const r = this.bits;
+    const { Ss, Se, Al } = this.scan!.header;
+    const coefficients = component.coefficients;
+    const p1 = 1 << Al;
+    const m1 = -1 << Al;
+    const refine = (i: number) => {
+      if (r.bit() === 1 && (coefficients[i] & p1) === 0) {
+        coefficients[i] += coefficients[i] >= 0 ? p1 : m1;
+      }
+    };
+    let k = Ss;
+    if (this.EOBRUN === 0) {
+      for (; k <= Se; k++) {
+        const RS = r.decode(component.ac_table!);
+        let R = RS >> 4;
+        const S = RS & 15;
+        let value = 0;
+        if (S !== 0) {
+          if (S !== 1) throw new MalformedDataError(`Invalid refinement magnitude category ${S}`);
+          value = r.bit() === 1 ? p1 : m1;
+        } else if (R !== 15) {
+          this.EOBRUN = (1 << R) + r.receive(R);
+          break;
+        }
+        // skip R zero coefficients, refining the nonzero ones in between
+        for (; k <= Se; k++) {
+          const i = offset + zigzag[k];
+          if (coefficients[i] !== 0) {
+            refine(i);
+          } else if (R-- === 0) {
+            break;
+          }
+        }
+        if (value !== 0 && k <= Se) coefficients[offset + zigzag[k]] = value;
+      }
+    }
+    if (this.EOBRUN > 0) {
+      // the rest of the band is in an end-of-band run, with only correction bits
+      for (; k <= Se; k++) {
+        const i = offset + zigzag[k];
+        if (coefficients[i] !== 0) refine(i);
+      }
+      this.EOBRUN--;
+    }
+  };
+
+  // F.2.4.1 Arithmetic decoding of DC coefficients, and of the first scan of the DC coefficients in progressive mode
+  private decode_DC_first_arithmetic = (component: Component, offset: number) => {
+    component.pred += this.decode_DC_difference(component);
+    component.coefficients[offset] = component.pred * (1 << this.scan!.header.Al);
+  };
+
+  // F.2.4.1 Figure F.19 Decode_DC_DIFF
+  private decode_DC_difference(component: Component) {
+    const a = this.arithmetic;
+    const st = this.dc_statistics[component.Td];
+    const S0 = component.dc_context;
+    if (a.decode(st, S0) === 0) {
+      component.dc_context = 0;
+      return 0;
+    }
+    const v = this.decode_magnitude(st, S0, 20);
+    component.dc_context = 4 * category(v, this.L[component.Td], this.U[component.Td]);
+    return v;
+  }
+
+  // F.2.4.3.1 Figures F.21 to F.24: decodes the sign, magnitude category and magnitude bits of a nonzero value,
+  // with the sign at S0 + 1, the first magnitude category decision at S0 + 2 + sign, and the rest from X1
+  private decode_magnitude(st: Uint8Array, S0: number, X1: number, sign = this.arithmetic.decode(st, S0 + 1)) {
+    const a = this.arithmetic;
+    let S = S0 + 2 + sign;
+    let M = a.decode(st, S);
+    if (M !== 0) {
+      S = X1;
+      while (a.decode(st, S) === 1) {
+        M <<= 1;
+        if (M === 0x8000) throw new MalformedDataError('Magnitude category is out of range');
+        S++;
+      }
+    }
+    // Figure F.24 Decoding the magnitude bit pattern of v, from the M contexts 14 after the X contexts
+    let v = M;
+    S += 14;
+    while ((M >>= 1) !== 0) {
+      if (a.decode(st, S) === 1) v |= M;
+    }
+    v += 1;
+    return sign === 1 ? -v : v;
+  }
+
+  // F.2.4.2 Arithmetic decoding of AC coefficients over the spectral band Ss-Se
+  private decode_AC_band(component: Component, offset: number, Ss: number, Se: number, Al: number) {
+    const a = this.arithmetic;
+    const st = this.ac_statistics[component.Ta];
+    const Kx = this.Kx[component.Ta];
+    // Figure F.20 Decode_AC_coefficients
+    for (let k = Ss; k <= Se; k++) {
+      let SE = 3 * (k - 1);
+      // end of block
+      if (a.decode(st, SE) === 1) break;
+      while (a.decode(st, SE + 1) === 0) {
+        SE += 3;
+        if (++k > Se) throw new MalformedDataError('AC coefficient index is out of range');
+      }
+      // the sign is coded with a fixed probability, and the magnitude from S0 + 2 = SE + 2
+      const sign = a.decode(this.fixed_statistics, 0);
+      const v = this.decode_magnitude_AC(st, SE, k <= Kx ? 189 : 217, sign);
+      component.coefficients[offset + zigzag[k]] = v * (1 << Al);
+    }
+  }
+
+  // F.2.4.2 The AC magnitude category uses the same context for its first two decisions
+  private decode_magnitude_AC(st: Uint8Array, SE: number, X2: number, sign: number) {
+    const a = this.arithmetic;
+    let S = SE + 2;
+    let M = a.decode(st, S);
+    if (M !== 0 && a.decode(st, S) === 1) {
+      M <<= 1;
+      S = X2;
+      while (a.decode(st, S) === 1) {
+        M <<= 1;
+        if (M === 0x8000) throw new MalformedDataError('Magnitude category is out of range');
+        S++;
+      }
+    }
+    let v = M;
+    S += 14;
+    while ((M >>= 1) !== 0) {
+      if (a.decode(st, S) === 1) v |= M;
+    }
+    v += 1;
+    return sign === 1 ? -v : v;
+  }
+
+  private decode_block_sequential_arithmetic = (component: Component, offset: number) => {
+    this.decode_DC_first_arithmetic(component, offset);
+    this.decode_AC_band(component, offset, 1, 63, 0);
+  };
+
+  // G.2 Progressive decoding procedures with arithmetic coding
+  private decode_DC_refine_arithmetic = (component: Component, offset: number) => {
+    if (this.arithmetic.decode(this.fixed_statistics, 0) === 1) {
+      component.coefficients[offset] |= 1 << this.scan!.header.Al;
+    }
+  };
+
+  private decode_AC_first_arithmetic = (component: Component, offset: number) => {
+    const { Ss, Se, Al } = this.scan!.header;
+    this.decode_AC_band(component, offset, Ss, Se, Al);
+  };
+
+  // G.2.2 Subsequent scans of successive approximation: an end of block decision is only coded after the
+  // end of block of the previous stage (EOBx)
+  private decode_AC_refine_arithmetic = (component: Component, offset: number) => {
+    const a = this.arithmetic;
+    const st = this.ac_statistics[component.Ta];
+    const { Ss, Se, Al } = this.scan!.header;
+    const coefficients = component.coefficients;
+    const p1 = 1 << Al;
+    const m1 = -1 << Al;
+    let EOBx = Se;
+    while (EOBx > 0 && coefficients[offset + zigzag[EOBx]] === 0) EOBx--;
+    for (let k = Ss; k <= Se; k++) {
+      let SE = 3 * (k - 1);
+      if (k > EOBx && a.decode(st, SE) === 1) break;
+      for (; ;) {
+        const i = offset + zigzag[k];
+        if (coefficients[i] !== 0) {
+          // correction bit of a coefficient that is already nonzero
+          if (a.decode(st, SE + 2) === 1) coefficients[i] += coefficients[i] < 0 ? m1 : p1;
+          break;
+        }
+        if (a.decode(st, SE + 1) === 1) {
+          // newly nonzero coefficient, with the sign coded with a fixed probability
+          coefficients[i] = a.decode(this.fixed_statistics, 0) === 1 ? m1 : p1;
+          break;
+        }
+        SE += 3;
+        if (++k > Se) throw new MalformedDataError('AC coefficient index is out of range');
+      }
+    }
+  };
+
+  // H.1.2 Lossless coding: each data unit is one sample, coded as the difference from its prediction
+  private decode_sample = (component: Component, i: number) => {
+    const frame = this.frame!;
+    const { Ss, Al } = this.scan!.header;
+    const stride = component.blocks_per_line;
+    const samples = component.samples;
+    if (component.interval_start < 0) component.interval_start = i;
+    const start = component.interval_start;
+    const x = i % stride;
+    const first_line = Math.floor(i / stride) === Math.floor(start / stride);
+    // H.1.2.1 Prediction, with the one dimensional predictors on the first line and at the start of each line,
+    // and 2^(P - Pt - 1) at the start of the restart interval
+    let Px: number;
+    if (i === start) {
+      Px = 1 << (frame.P - Al - 1);
+    } else if (first_line) {
+      Px = samples[i - 1];
+    } else if (x === 0) {
+      Px = samples[i - stride];
+    } else {
+      // Table H.1 Predictors for lossless coding
+      const Ra = samples[i - 1];
+      const Rb = samples[i - stride];
+      const Rc = samples[i - stride - 1];
+      switch (Ss) {
+        case 1: Px = Ra; break;
+        case 2: Px = Rb; break;
+        case 3: Px = Rc; break;
+        case 4: Px = Ra + Rb - Rc; break;
+        case 5: Px = Ra + ((Rb - Rc) >> 1); break;
+        case 6: Px = Rb + ((Ra - Rc) >> 1); break;
+        default: Px = (Ra + Rb) >> 1; break;
+      }
+    }
+    let diff: number;
+    if (frame.arithmetic) {
+      // H.1.4.3 the differences of the samples to the left and above, where they are in the restart interval
+      const differences = component.differences;
+      const Da = x > 0 && i - 1 >= start ? differences[i - 1] : 0;
+      const Db = i - stride >= start ? differences[i - stride] : 0;
+      diff = this.decode_lossless_difference(component, Da, Db);
+      differences[i] = diff;
+    } else {
+      // H.1.2.2 Huffman coding of the modulo difference, where SSSS 16 is 32768 with no additional bits
+      const r = this.bits;
+      const t = r.decode(component.dc_table!);
+      diff = t === 0 ? 0 : t === 16 ? 32768 : extend(r.receive(t), t);
+    }
+    samples[i] = (Px + diff) & 0xFFFF;
+  };
+
+  // H.1.4.3.1 The decision of a zero difference and the sign and first magnitude category decisions are
+  // conditioned on the categories of Da and Db, and the magnitude on whether Db is large
+  private decode_lossless_difference(component: Component, Da: number, Db: number) {
+    const st = this.dc_statistics[component.Td];
+    const L = this.L[component.Td];
+    const U = this.U[component.Td];
+    const Db_category = category(Db, L, U);
+    const S0 = 4 * (5 * category(Da, L, U) + Db_category);
+    if (this.arithmetic.decode(st, S0) === 0) return 0;
+    return this.decode_magnitude(st, S0, Db_category > 2 ? 129 : 100);
+  }
+
+  // The color space of the components, from the APP0 and APP14 markers
+  color_space(): ColorSpace {
+    const frame = this.frame;
+    if (frame === undefined) throw new MalformedDataError('No frame');
+    switch (frame.Nf) {
+      case 1:
+        return 'gray';
+      case 3:
+        if (this.JFIF) return 'ycbcr';
+        if (this.adobe_transform !== undefined) return this.adobe_transform === 0 ? 'rgb' : 'ycbcr';
+        // component identifiers 'R', 'G', 'B'
+        if (frame.components[0].C === 0x52 && frame.components[1].C === 0x47 && frame.components[2].C === 0x42) return 'rgb';
+        return 'ycbcr';
+      case 4:
+        return this.adobe_transform === 2 ? 'ycck' : 'cmyk';
+    }
+    throw new UnsupportedProcessError(`Unsupported number of components ${frame.Nf}`);
+  }
+
+  // A.3.1 Level shift and IDCT of every block of a component
+  private samples(component: Component) {
+    const P = this.frame!.P;
+    if (this.frame!.process === 'lossless') {
+      // H.1.2.3 the point transform
+      const samples = component.samples.map(sample => sample << component.Pt);
+      return { samples, stride: component.blocks_per_line };
+    }
+    const stride = component.blocks_per_line * 8;
+    const samples = new Uint16Array(stride * component.blocks_per_column * 8);
+    const Q = component.Q ?? new Uint16Array(64);
+    for (let row = 0; row < component.blocks_per_column; row++) {
+      for (let column = 0; column < component.blocks_per_line; column++) {
+        const block = row * component.blocks_per_line + column;
+        idct_block(component.coefficients, block * 64, Q, samples, row * 8 * stride + column * 8, stride, P);
+      }
+    }
+    return { samples, stride };
+  }
+
+  output(options: DecodeOptions = {}): DecodedImage {
+    const frame = this.frame;
+    if (frame === undefined || this.components.length === 0) throw new MalformedDataError('No frame');
+    const format = options.format ?? 'rgb';
+    const width = frame.X;
+    const height = frame.Y;
+    const color_space = this.color_space();
+    const decoded = this.components.map(component => this.samples(component));
+    if (format === 'planar') {
+      const planes = this.components.map((component, i) => {
+        const { samples, stride } = decoded[i];
+        const data = frame.P <= 8 ? new Uint8Array(component.width * component.height) : new Uint16Array(component.width * component.height);
+        for (let y = 0; y < component.height; y++) {
+          data.set(samples.subarray(y * stride, y * stride + component.width), y * component.width);
+        }
+        return { C: component.C, width: component.width, height: component.height, data };
+      });
+      return { width, height, color_space, format, planes };
+    }
+    // A.1.1 upsampling by replication of each sample over Hmax / H by Vmax / V pixels
+    const Hmax = Math.max(...this.components.map(c => c.H));
+    const Vmax = Math.max(...this.components.map(c => c.V));
+    const columns = this.components.map(c => Uint32Array.from({ length: width }, (_, x) => Math.floor(x * c.H / Hmax)));
+    const rows = this.components.map((c, i) => Uint32Array.from({ length: height }, (_, y) => Math.floor(y * c.V / Vmax) * decoded[i].stride));
+    const channels = format === 'rgba' ? 4 : 3;
+    const data = new Uint8ClampedArray(width * height * channels);
+    const pixel = new Uint16Array(this.components.length);
+    const inverted = this.adobe_transform !== undefined;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        for (let i = 0; i < pixel.length; i++) {
+          pixel[i] = decoded[i].samples[rows[i][y] + columns[i][x]];
+        }
+        const offset = (y * width + x) * channels;
+        convert_pixel(color_space, pixel, frame.P, inverted, data, offset);
+        if (channels === 4) data[offset + 3] = 255;
+      }
+    }
+    return { width, height, color_space, format, data };
+  }
+}
+
+// Decodes the first frame of a JPEG interchange format stream
+export async function decode_JPEG(b: ByteReader, options?: DecodeOptions) {
+  const decoder = new JPEGDecoder();
+  for await (const segment of parse_JPEG(b)) {
+    decoder.push(segment);
+  }
+  return decoder.output(options);
+}
+
+// Decodes the first frame, yielding the image as decoded so far each time a scan is complete.
+// For progressive frames the earlier images are coarser previews; the last is the complete image.
+export async function* decode_JPEG_scans(b: ByteReader, options?: DecodeOptions) {
+  const decoder = new JPEGDecoder();
+  for await (const segment of parse_JPEG(b)) {
+    const scans = decoder.scans;
+    decoder.push(segment);
+    if (decoder.scans !== scans) yield decoder.output(options);
+  }
+}
+
+// F.1.4.4.1.2 Conditioning category of a difference, from the bounds L and U:
+// 0 for zero, 1 and 2 for small positive and negative, and 3 and 4 for large positive and negative
+function category(D: number, L: number, U: number) {
+  const magnitude = Math.abs(D);
+  if (magnitude <= (1 << L) >> 1) return 0;
+  if (magnitude <= 1 << U) return D > 0 ? 1 : 2;
+  return D > 0 ? 3 : 4;
+}
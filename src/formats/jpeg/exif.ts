@@ -0,0 +1,164 @@
+// CIPA DC-008 Exchangeable image file format for digital still cameras: Exif
+
+import { MalformedDataError } from './marker_segments.js';
+import { IFD, TIFFReader, field_number } from './tiff.js';
+
+// 4.6.4 TIFF Rev. 6.0 Attribute Information, and 4.6.5 Exif IFD Attribute Information
+export const enum Tag {
+  ImageWidth = 0x0100,
+  ImageLength = 0x0101,
+  BitsPerSample = 0x0102,
+  Compression = 0x0103,
+  PhotometricInterpretation = 0x0106,
+  ImageDescription = 0x010E,
+  Make = 0x010F,
+  Model = 0x0110,
+  StripOffsets = 0x0111,
+  Orientation = 0x0112,
+  SamplesPerPixel = 0x0115,
+  RowsPerStrip = 0x0116,
+  StripByteCounts = 0x0117,
+  XResolution = 0x011A,
+  YResolution = 0x011B,
+  PlanarConfiguration = 0x011C,
+  ResolutionUnit = 0x0128,
+  TransferFunction = 0x012D,
+  Software = 0x0131,
+  DateTime = 0x0132,
+  Artist = 0x013B,
+  WhitePoint = 0x013E,
+  PrimaryChromaticities = 0x013F,
+  JPEGInterchangeFormat = 0x0201,
+  JPEGInterchangeFormatLength = 0x0202,
+  YCbCrCoefficients = 0x0211,
+  YCbCrSubSampling = 0x0212,
+  YCbCrPositioning = 0x0213,
+  ReferenceBlackWhite = 0x0214,
+  Copyright = 0x8298,
+  ExposureTime = 0x829A,
+  FNumber = 0x829D,
+  ExifIFDPointer = 0x8769,
+  ExposureProgram = 0x8822,
+  GPSInfoIFDPointer = 0x8825,
+  PhotographicSensitivity = 0x8827,
+  ExifVersion = 0x9000,
+  DateTimeOriginal = 0x9003,
+  DateTimeDigitized = 0x9004,
+  OffsetTime = 0x9010,
+  OffsetTimeOriginal = 0x9011,
+  OffsetTimeDigitized = 0x9012,
+  ComponentsConfiguration = 0x9101,
+  ShutterSpeedValue = 0x9201,
+  ApertureValue = 0x9202,
+  ExposureBiasValue = 0x9204,
+  MeteringMode = 0x9207,
+  Flash = 0x9209,
+  FocalLength = 0x920A,
+  MakerNote = 0x927C,
+  UserComment = 0x9286,
+  SubSecTime = 0x9290,
+  SubSecTimeOriginal = 0x9291,
+  SubSecTimeDigitized = 0x9292,
+  FlashpixVersion = 0xA000,
+  ColorSpace = 0xA001,
+  PixelXDimension = 0xA002,
+  PixelYDimension = 0xA003,
+  InteroperabilityIFDPointer = 0xA005,
+  ExposureMode = 0xA402,
+  WhiteBalance = 0xA403,
+  FocalLengthIn35mmFilm = 0xA405,
+  SceneCaptureType = 0xA406,
+  ImageUniqueID = 0xA420,
+  CameraOwnerName = 0xA430,
+  BodySerialNumber = 0xA431,
+  LensSpecification = 0xA432,
+  LensMake = 0xA433,
+  LensModel = 0xA434,
+  LensSerialNumber = 0xA435,
+}
+
+// 4.6.6 GPS Attribute Information
+export const enum GPSTag {
+  GPSVersionID = 0x00,
+  GPSLatitudeRef = 0x01,
+  GPSLatitude = 0x02,
+  GPSLongitudeRef = 0x03,
+  GPSLongitude = 0x04,
+  GPSAltitudeRef = 0x05,
+  GPSAltitude = 0x06,
+  GPSTimeStamp = 0x07,
+  GPSSatellites = 0x08,
+  GPSStatus = 0x09,
+  GPSMeasureMode = 0x0A,
+  GPSDOP = 0x0B,
+  GPSSpeedRef = 0x0C,
+  GPSSpeed = 0x0D,
+  GPSTrackRef = 0x0E,
+  GPSTrack = 0x0F,
+  GPSImgDirectionRef = 0x10,
+  GPSImgDirection = 0x11,
+  GPSMapDatum = 0x12,
+  GPSDestLatitudeRef = 0x13,
+  GPSDestLatitude = 0x14,
+  GPSDestLongitudeRef = 0x15,
+  GPSDestLongitude = 0x16,
+  GPSDestBearingRef = 0x17,
+  GPSDestBearing = 0x18,
+  GPSDestDistanceRef = 0x19,
+  GPSDestDistance = 0x1A,
+  GPSProcessingMethod = 0x1B,
+  GPSAreaInformation = 0x1C,
+  GPSDateStamp = 0x1D,
+  GPSDifferential = 0x1E,
+  GPSHPositioningError = 0x1F,
+}
+
+// 4.6.7 Interoperability IFD Attribute Information
+export const enum InteroperabilityTag {
+  InteroperabilityIndex = 0x0001,
+}
+
+export type Exif = {
+  little_endian: boolean;
+  // 0th IFD, of the primary image
+  IFD0: IFD;
+  Exif?: IFD;
+  GPS?: IFD;
+  Interoperability?: IFD;
+  // 1st IFD, of the thumbnail
+  IFD1?: IFD;
+  // 4.5.8 JPEG compressed thumbnail
+  thumbnail?: Uint8Array;
+};
+
+// 4.6.2 IFD Structure, of the TIFF data that follows the Exif identifier code
+export function parse_Exif(data: Uint8Array): Exif {
+  const reader = new TIFFReader(data);
+  const visited = new Set<number>();
+  const read_IFD = (offset: number) => {
+    // guard against IFDs that point back at one another
+    if (visited.has(offset)) throw new MalformedDataError(`IFD at ${offset} is referenced twice`);
+    visited.add(offset);
+    return reader.IFD(offset);
+  };
+  const IFD0 = read_IFD(reader.first_IFD());
+  const optional: Partial<Exif> = {};
+  const Exif_offset = field_number(IFD0, Tag.ExifIFDPointer);
+  if (Exif_offset !== undefined) {
+    optional.Exif = read_IFD(Exif_offset);
+    const Interoperability_offset = field_number(optional.Exif, Tag.InteroperabilityIFDPointer);
+    if (Interoperability_offset !== undefined) optional.Interoperability = read_IFD(Interoperability_offset);
+  }
+  const GPS_offset = field_number(IFD0, Tag.GPSInfoIFDPointer);
+  if (GPS_offset !== undefined) optional.GPS = read_IFD(GPS_offset);
+  if (IFD0.next !== 0) {
+    const IFD1 = optional.IFD1 = read_IFD(IFD0.next);
+    const offset = field_number(IFD1, Tag.JPEGInterchangeFormat);
+    const length = field_number(IFD1, Tag.JPEGInterchangeFormatLength);
+    if (offset !== undefined && length !== undefined) {
+      if (offset + length > data.length) throw new MalformedDataError('Thumbnail lies outside the Exif data');
+      optional.thumbnail = data.subarray(offset, offset + length);
+    }
+  }
+  return { little_endian: reader.little_endian, IFD0, ...optional };
+}
@@ -0,0 +1,102 @@
+// Annex C Huffman table specification
+// F.2.2 Baseline Huffman decoding procedures
+
+import { MalformedDataError } from './marker_segments.js';
+
+// Codes of up to this many bits are decoded with a single table lookup
+const lookahead_bits = 9;
+
+export class HuffmanDecoder {
+  // F.2.2.3 Decoder tables, indexed by code length
+  private maxcode = new Int32Array(18);
+  private mincode = new Int32Array(17);
+  private valptr = new Int32Array(17);
+  private huffval: Uint8Array;
+  // (code length << 8) | value for each lookahead_bits bit prefix, or 0 for longer codes
+  readonly lookup = new Uint16Array(1 << lookahead_bits);
+
+  constructor(L: Uint8Array, V: Uint8Array[]) {
+    const huffval: number[] = [];
+    // C.2 Generation of table of Huffman code sizes and codes
+    let code = 0;
+    for (let l = 1; l <= 16; l++) {
+      const values = V[l - 1];
+      this.valptr[l] = huffval.length;
+      this.mincode[l] = code;
+      for (let i = 0; i < L[l - 1]; i++) {
+        if (l <= lookahead_bits) {
+          const shift = lookahead_bits - l;
+          for (let j = 0; j < 1 << shift; j++) {
+            this.lookup[(code << shift) | j] = l << 8 | values[i];
+          }
+        }
+        huffval.push(values[i]);
+        code++;
+      }
+      this.maxcode[l] = L[l - 1] > 0 ? code - 1 : -1;
+      if (code > 1 << l) throw new MalformedDataError('Huffman table has too many codes');
+      code <<= 1;
+    }
+    this.maxcode[17] = 0x7FFFFFFF;
+    this.huffval = Uint8Array.from(huffval);
+  }
+
+  // F.2.2.3 DECODE, given the code of length l taken from the front of the bit stream
+  value(l: number, code: number) {
+    if (code > this.maxcode[l]) return undefined;
+    return this.huffval[this.valptr[l] + code - this.mincode[l]];
+  }
+}
+
+// F.2.2.1 EXTEND
+export function extend(v: number, t: number) {
+  return v < 1 << (t - 1) ? v - (1 << t) + 1 : v;
+}
+
+// F.2.2.5 NEXTBIT over an entropy-coded segment, with the byte stuffing already removed.
+// Past the end of the segment, zero bits are read.
+export class EntropyBitReader {
+  private position = 0;
+  private buffer = 0;
+  private count = 0;
+
+  constructor(private data: Uint8Array) { }
+
+  private fill() {
+    while (this.count <= 16) {
+      const byte = this.position < this.data.length ? this.data[this.position] : 0;
+      this.position++;
+      this.buffer = this.buffer << 8 | byte;
+      this.count += 8;
+    }
+  }
+
+  // F.2.2.4 RECEIVE, of up to 16 bits
+  receive(n: number) {
+    if (n === 0) return 0;
+    this.fill();
+    this.count -= n;
+    return (this.buffer >>> this.count) & ((1 << n) - 1);
+  }
+
+  bit() {
+    return this.receive(1);
+  }
+
+  decode(table: HuffmanDecoder) {
+    this.fill();
+    const entry = table.lookup[(this.buffer >>> (this.count - lookahead_bits)) & ((1 << lookahead_bits) - 1)];
+    if (entry !== 0) {
+      this.count -= entry >> 8;
+      return entry & 0xFF;
+    }
+    for (let l = lookahead_bits + 1; l <= 16; l++) {
+      const value = table.value(l, (this.buffer >>> (this.count - l)) & ((1 << l) - 1));
+      if (value !== undefined) {
+        this.count -= l;
+        return value;
+      }
+    }
+    throw new MalformedDataError('Invalid Huffman code');
+  }
+}
@@ -0,0 +1,66 @@
+// A.3.3 FDCT and IDCT (informative)
+
+// Figure A.6 Zig-zag sequence of quantized DCT coefficients: the natural (row-major) index of each zig-zag position
+export const zigzag = Uint8Array.from([
+  0, 1, 8, 16, 9, 2, 3, 10,
+  17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34,
+  27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36,
+  29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46,
+  53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+// cosines[x * 8 + u] = C(u) / 2 * cos((2x + 1)uπ / 16)
+const cosines = new Float64Array(64);
+for (let x = 0; x < 8; x++) {
+  for (let u = 0; u < 8; u++) {
+    cosines[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos((2 * x + 1) * u * Math.PI / 16);
+  }
+}
+
+const rows = new Float64Array(64);
+
+// Dequantizes the block of coefficients in natural order at offset, and writes the level shifted samples of
+// precision P to out at out_offset, with stride samples per line.
+export function idct_block(
+  coefficients: Int16Array, offset: number, Q: Uint16Array,
+  out: Uint16Array, out_offset: number, stride: number, P: number,
+) {
+  // one dimensional IDCT of each row
+  for (let v = 0; v < 8; v++) {
+    let zero = true;
+    for (let u = 1; u < 8; u++) {
+      if (coefficients[offset + v * 8 + u] !== 0) {
+        zero = false;
+        break;
+      }
+    }
+    if (zero) {
+      const dc = coefficients[offset + v * 8] * Q[v * 8] * cosines[0];
+      for (let x = 0; x < 8; x++) rows[v * 8 + x] = dc;
+      continue;
+    }
+    for (let x = 0; x < 8; x++) {
+      let s = 0;
+      for (let u = 0; u < 8; u++) {
+        s += cosines[x * 8 + u] * coefficients[offset + v * 8 + u] * Q[v * 8 + u];
+      }
+      rows[v * 8 + x] = s;
+    }
+  }
+  // then of each column
+  const shift = 1 << (P - 1);
+  const max = (1 << P) - 1;
+  for (let x = 0; x < 8; x++) {
+    for (let y = 0; y < 8; y++) {
+      let s = 0;
+      for (let v = 0; v < 8; v++) {
+        s += cosines[y * 8 + v] * rows[v * 8 + x];
+      }
+      const sample = Math.round(s) + shift;
+      out[out_offset + y * stride + x] = sample < 0 ? 0 : sample > max ? max : sample;
+    }
+  }
+}
@@ -0,0 +1,269 @@
+// B.2 General sequential and progressive syntax
+// B.3 Hierarchical syntax
+
+import { BitReader, ByteReader, UnexpectedEOFError } from '../../reader.js';
+import { MalformedDataError } from '../mpeg2/syntax.js';
+import { MarkerCode } from './markers.js';
+
+export { MalformedDataError };
+
+// Table B.1 Start Of Frame markers
+export function is_SOF(marker: number) {
+  return marker >= MarkerCode.SOF0 && marker <= MarkerCode.SOF15
+    && marker !== MarkerCode.DHT && marker !== MarkerCode.JPG && marker !== MarkerCode.DAC;
+}
+
+export function is_RST(marker: number) {
+  return marker >= MarkerCode.RST0 && marker <= MarkerCode.RST7;
+}
+
+export function is_APP(marker: number) {
+  return marker >= MarkerCode.APP0 && marker <= MarkerCode.APP15;
+}
+
+// 4.11 Summary of coding processes, as signalled by the SOF marker
+export function coding_process(marker: number) {
+  const n = marker - MarkerCode.SOF0;
+  const process = (['baseline', 'extended', 'progressive', 'lossless'] as const)[n & 3];
+  return {
+    process: process === 'baseline' && n !== 0 ? 'extended' as const : process,
+    differential: (n & 4) !== 0,
+    arithmetic: (n & 8) !== 0,
+  };
+}
+
+// B.2.2 Frame header syntax
+function parse_frame_header(r: BitReader, Lf: number) {
+  const P = r.uimsbf(8);
+  const Y = r.uimsbf(16);
+  const X = r.uimsbf(16);
+  const Nf = r.uimsbf(8);
+  if (Lf !== 8 + 3 * Nf) throw new MalformedDataError(`Expected Lf to be ${8 + 3 * Nf} but got ${Lf}`);
+  const components: { C: number; H: number; V: number; Tq: number }[] = [];
+  for (let i = 0; i < Nf; i++) {
+    const C = r.uimsbf(8);
+    const H = r.uimsbf(4);
+    const V = r.uimsbf(4);
+    const Tq = r.uimsbf(8);
+    components.push({ C, H, V, Tq });
+  }
+  return { P, Y, X, Nf, components };
+}
+
+// B.2.3 Scan header syntax
+function parse_scan_header(r: BitReader, Ls: number) {
+  const Ns = r.uimsbf(8);
+  if (Ls !== 6 + 2 * Ns) throw new MalformedDataError(`Expected Ls to be ${6 + 2 * Ns} but got ${Ls}`);
+  const components: { Cs: number; Td: number; Ta: number }[] = [];
+  for (let i = 0; i < Ns; i++) {
+    const Cs = r.uimsbf(8);
+    const Td = r.uimsbf(4);
+    const Ta = r.uimsbf(4);
+    components.push({ Cs, Td, Ta });
+  }
+  const Ss = r.uimsbf(8);
+  const Se = r.uimsbf(8);
+  const Ah = r.uimsbf(4);
+  const Al = r.uimsbf(4);
+  return { Ns, components, Ss, Se, Ah, Al };
+}
+
+// B.2.4.1 Quantization table-specification syntax
+function parse_quantization_tables(r: BitReader, Lq: number) {
+  const tables: { Pq: number; Tq: number; Q: Uint16Array }[] = [];
+  while (r.tell() < Lq * 8 - 16) {
+    const Pq = r.uimsbf(4);
+    const Tq = r.uimsbf(4);
+    // in zig-zag order
+    const Q = new Uint16Array(64);
+    for (let k = 0; k < 64; k++) {
+      Q[k] = r.uimsbf(Pq === 0 ? 8 : 16);
+    }
+    tables.push({ Pq, Tq, Q });
+  }
+  return tables;
+}
+
+// B.2.4.2 Huffman table-specification syntax
+function parse_huffman_tables(r: BitReader, Lh: number) {
+  const tables: { Tc: number; Th: number; L: Uint8Array; V: Uint8Array[] }[] = [];
+  while (r.tell() < Lh * 8 - 16) {
+    const Tc = r.uimsbf(4);
+    const Th = r.uimsbf(4);
+    const L = r.bytes(16);
+    const V: Uint8Array[] = [];
+    for (let i = 0; i < 16; i++) {
+      V.push(r.bytes(L[i]));
+    }
+    tables.push({ Tc, Th, L, V });
+  }
+  return tables;
+}
+
+// B.2.4.3 Arithmetic conditioning table-specification syntax
+function parse_arithmetic_conditioning(r: BitReader, La: number) {
+  const conditioning: { Tc: number; Tb: number; Cs: number }[] = [];
+  while (r.tell() < La * 8 - 16) {
+    const Tc = r.uimsbf(4);
+    const Tb = r.uimsbf(4);
+    const Cs = r.uimsbf(8);
+    conditioning.push({ Tc, Tb, Cs });
+  }
+  return conditioning;
+}
+
+// B.1.1.2 Markers: any marker may optionally be preceded by any number of fill bytes 0xFF
+async function read_marker(b: ByteReader) {
+  if (await b.byte() !== 0xFF) throw new MalformedDataError('Expected a marker');
+  let code = await b.byte();
+  while (code === 0xFF) code = await b.byte();
+  return 0xFF00 | code;
+}
+
+// B.1.1.5 Entropy-coded data segments, up to the next marker.
+// Byte stuffing is removed, so the returned data is the entropy-coded bit stream.
+async function read_entropy_coded_segment(b: ByteReader) {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (; ;) {
+    if (await b.eof()) throw new UnexpectedEOFError();
+    const buffer = b.peek_buffer();
+    const i = buffer.indexOf(0xFF);
+    if (i !== 0) {
+      const chunk = await b.bytes(i < 0 ? buffer.length : i);
+      chunks.push(chunk);
+      length += chunk.length;
+      continue;
+    }
+    const next = await b.peek_bytes(2);
+    if (next.length < 2) throw new UnexpectedEOFError();
+    if (next[1] !== 0x00) break;
+    // 0xFF00: a stuffed zero byte follows an 0xFF data byte
+    await b.bytes(2);
+    chunks.push(next.subarray(0, 1));
+    length += 1;
+  }
+  const data = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+// Discards an entropy-coded segment together with any RSTn markers in it, up to the next other marker
+async function skip_entropy_coded_data(b: ByteReader) {
+  for (; ;) {
+    if (await b.eof()) throw new UnexpectedEOFError();
+    const buffer = b.peek_buffer();
+    const i = buffer.indexOf(0xFF);
+    if (i !== 0) {
+      await b.skip(i < 0 ? buffer.length : i);
+      continue;
+    }
+    const next = await b.peek_bytes(2);
+    if (next.length < 2) throw new UnexpectedEOFError();
+    if (next[1] !== 0x00 && !is_RST(0xFF00 | next[1])) return;
+    await b.skip(2);
+  }
+}
+
+export type FrameHeader = ReturnType<typeof parse_frame_header> & Partial<ReturnType<typeof coding_process>>;
+export type ScanHeader = ReturnType<typeof parse_scan_header>;
+export type QuantizationTable = ReturnType<typeof parse_quantization_tables>[number];
+export type HuffmanTable = ReturnType<typeof parse_huffman_tables>[number];
+export type ArithmeticConditioning = ReturnType<typeof parse_arithmetic_conditioning>[number];
+
+export type MarkerSegment = { marker: number } & (
+  | FrameHeader
+  | ScanHeader
+  | { tables: QuantizationTable[] }
+  | { tables: HuffmanTable[] }
+  | { conditioning: ArithmeticConditioning[] }
+  | { Ri: number }
+  | { Cm: Uint8Array }
+  | { NL: number }
+  | { Eh: number; Ev: number }
+  | { Ap: Uint8Array }
+);
+
+async function parse_marker_segment(b: ByteReader, marker: number): Promise<MarkerSegment> {
+  const L = (await b.byte()) << 8 | await b.byte();
+  if (L < 2) throw new MalformedDataError(`Segment length ${L} is too short`);
+  const data = await b.bytes(L - 2);
+  const r = new BitReader(data);
+  if (is_SOF(marker)) {
+    return { marker, ...parse_frame_header(r, L), ...coding_process(marker) };
+  }
+  switch (marker) {
+    case MarkerCode.SOS:
+      return { marker, ...parse_scan_header(r, L) };
+    case MarkerCode.DQT:
+      return { marker, tables: parse_quantization_tables(r, L) };
+    case MarkerCode.DHT:
+      return { marker, tables: parse_huffman_tables(r, L) };
+    case MarkerCode.DAC:
+      return { marker, conditioning: parse_arithmetic_conditioning(r, L) };
+    case MarkerCode.DRI:
+      // B.2.4.4 Restart interval definition syntax
+      return { marker, Ri: r.uimsbf(16) };
+    case MarkerCode.COM:
+      // B.2.4.5 Comment syntax
+      return { marker, Cm: data };
+    case MarkerCode.DNL:
+      // B.2.5 Define number of lines syntax
+      return { marker, NL: r.uimsbf(16) };
+    case MarkerCode.DHP:
+      // B.3.2.1 Define hierarchical progression syntax
+      return { marker, ...parse_frame_header(r, L) };
+    case MarkerCode.EXP: {
+      // B.3.3 Expand reference components syntax
+      const Eh = r.uimsbf(4);
+      const Ev = r.uimsbf(4);
+      return { marker, Eh, Ev };
+    }
+  }
+  // B.2.4.6 Application data syntax, and markers reserved for extensions
+  return { marker, Ap: data };
+}
+
+export type JPEGSegment = MarkerSegment | { marker: number } | { marker?: undefined; entropy_coded_segment: Uint8Array };
+
+export type ParseOptions = {
+  // skips the entropy-coded segments and RSTn markers of each scan without buffering them
+  skip_entropy_coded_data?: boolean;
+};
+
+// B.2.1 High-level syntax
+// Yields SOI, each marker segment, the entropy-coded segments of each scan with the RSTn markers between them, and EOI.
+export async function* parse_JPEG(b: ByteReader, options: ParseOptions = {}) {
+  const SOI = await read_marker(b);
+  if (SOI !== MarkerCode.SOI) throw new MalformedDataError(`Expected SOI but got 0x${SOI.toString(16)}`);
+  yield { marker: MarkerCode.SOI as number };
+  for (; ;) {
+    const marker = await read_marker(b);
+    if (marker === MarkerCode.EOI) {
+      yield { marker };
+      return;
+    }
+    if (marker === MarkerCode.SOI || marker === MarkerCode.TEM || is_RST(marker)) {
+      throw new MalformedDataError(`Unexpected marker 0x${marker.toString(16)}`);
+    }
+    const segment = await parse_marker_segment(b, marker);
+    yield segment;
+    if (marker !== MarkerCode.SOS) continue;
+    if (options.skip_entropy_coded_data) {
+      await skip_entropy_coded_data(b);
+      continue;
+    }
+    for (; ;) {
+      yield { entropy_coded_segment: await read_entropy_coded_segment(b) };
+      const next = await b.peek_bytes(2);
+      const code = 0xFF00 | next[1];
+      if (!is_RST(code)) break;
+      await b.bytes(2);
+      yield { marker: code };
+    }
+  }
+}
@@ -0,0 +1,293 @@
+// Metadata carried in the application data segments (B.2.4.6) and comments:
+// JFIF and JFXX (ITU-T T.871), Exif (CIPA DC-008), XMP (ISO 16684-1 and XMP Specification Part 3),
+// ICC profiles (ICC.1 Annex B.4), MPF (CIPA DC-007) and Adobe APP14 (Adobe Technical Note #5116).
+
+import { ByteReader } from '../../reader.js';
+import { Exif, parse_Exif } from './exif.js';
+import { FrameHeader, JPEGSegment, MalformedDataError, is_APP, parse_JPEG } from './marker_segments.js';
+import { MarkerCode } from './markers.js';
+import { IFD, TIFFReader, find_field } from './tiff.js';
+
+export type ApplicationData = 'JFIF' | 'JFXX' | 'Exif' | 'XMP' | 'extended_XMP' | 'ICC_profile' | 'MPF' | 'Adobe';
+
+const identifiers: [number, string, ApplicationData][] = [
+  [MarkerCode.APP0, 'JFIF\0', 'JFIF'],
+  [MarkerCode.APP0, 'JFXX\0', 'JFXX'],
+  // the second NUL is 0xFF in some files
+  [MarkerCode.APP1, 'Exif\0', 'Exif'],
+  [MarkerCode.APP1, 'http://ns.adobe.com/xap/1.0/\0', 'XMP'],
+  [MarkerCode.APP1, 'http://ns.adobe.com/xmp/extension/\0', 'extended_XMP'],
+  [MarkerCode.APP2, 'ICC_PROFILE\0', 'ICC_profile'],
+  [MarkerCode.APP2, 'MPF\0', 'MPF'],
+  [MarkerCode.APP14, 'Adobe', 'Adobe'],
+];
+
+function starts_with(Ap: Uint8Array, identifier: string) {
+  if (Ap.length < identifier.length) return false;
+  for (let i = 0; i < identifier.length; i++) {
+    if (Ap[i] !== identifier.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+// Identifies the application data of an APPn segment by its marker and identifier
+export function identify_application_data(marker: number, Ap: Uint8Array) {
+  for (const [APPn, identifier, kind] of identifiers) {
+    if (marker === APPn && starts_with(Ap, identifier)) return kind;
+  }
+  return undefined;
+}
+
+function uint16(Ap: Uint8Array, offset: number) {
+  return Ap[offset] << 8 | Ap[offset + 1];
+}
+
+function uint32(Ap: Uint8Array, offset: number) {
+  return (Ap[offset] << 24 | Ap[offset + 1] << 16 | Ap[offset + 2] << 8 | Ap[offset + 3]) >>> 0;
+}
+
+// T.871 10.1 JFIF APP0 marker segment
+export function parse_JFIF(Ap: Uint8Array) {
+  if (Ap.length < 14) throw new MalformedDataError('JFIF segment is too short');
+  const version = uint16(Ap, 5);
+  // 0: no units, aspect ratio only; 1: dots per inch; 2: dots per cm
+  const units = Ap[7];
+  const Xdensity = uint16(Ap, 8);
+  const Ydensity = uint16(Ap, 10);
+  const Xthumbnail = Ap[12];
+  const Ythumbnail = Ap[13];
+  const n = 3 * Xthumbnail * Ythumbnail;
+  if (Ap.length < 14 + n) throw new MalformedDataError('JFIF thumbnail is truncated');
+  // packed 24 bit RGB
+  const thumbnail = Ap.subarray(14, 14 + n);
+  return { version, units, Xdensity, Ydensity, Xthumbnail, Ythumbnail, thumbnail };
+}
+
+// T.871 10.2 JFIF extension APP0 marker segment
+export function parse_JFXX(Ap: Uint8Array) {
+  if (Ap.length < 6) throw new MalformedDataError('JFXX segment is too short');
+  const extension_code = Ap[5];
+  switch (extension_code) {
+    case 0x10:
+      // 10.2.1 Thumbnail coded using JPEG
+      return { extension_code, thumbnail: Ap.subarray(6) };
+    case 0x11:
+    case 0x13: {
+      // 10.2.2 Thumbnail stored using 1 byte/pixel, 10.2.3 Thumbnail stored using 3 bytes/pixel
+      if (Ap.length < 8) throw new MalformedDataError('JFXX segment is too short');
+      const Xthumbnail = Ap[6];
+      const Ythumbnail = Ap[7];
+      const palette_length = extension_code === 0x11 ? 768 : 0;
+      const n = (extension_code === 0x11 ? 1 : 3) * Xthumbnail * Ythumbnail;
+      if (Ap.length < 8 + palette_length + n) throw new MalformedDataError('JFXX thumbnail is truncated');
+      const optional: { palette?: Uint8Array } = {};
+      if (extension_code === 0x11) optional.palette = Ap.subarray(8, 8 + palette_length);
+      const thumbnail = Ap.subarray(8 + palette_length, 8 + palette_length + n);
+      return { extension_code, Xthumbnail, Ythumbnail, ...optional, thumbnail };
+    }
+  }
+  throw new MalformedDataError(`Unknown JFXX extension code 0x${extension_code.toString(16)}`);
+}
+
+// Adobe APP14 marker segment
+export function parse_Adobe(Ap: Uint8Array) {
+  if (Ap.length < 12) throw new MalformedDataError('Adobe segment is too short');
+  const DCTEncodeVersion = uint16(Ap, 5);
+  const APP14Flags0 = uint16(Ap, 7);
+  const APP14Flags1 = uint16(Ap, 9);
+  // 0: RGB or CMYK, 1: YCbCr, 2: YCCK
+  const ColorTransform = Ap[11];
+  return { DCTEncodeVersion, APP14Flags0, APP14Flags1, ColorTransform };
+}
+
+// CIPA DC-007 5.2.3 MP Index IFD tags
+export const enum MPFTag {
+  MPFVersion = 0xB000,
+  NumberOfImages = 0xB001,
+  MPEntry = 0xB002,
+  ImageUIDList = 0xB003,
+  TotalFrames = 0xB004,
+}
+
+// CIPA DC-007 5.2.3.3 MP Entry
+export type MPEntry = {
+  // Individual Image Attribute: dependent parent, dependent child and representative image flags,
+  // image data format and MP type code
+  attribute: number;
+  size: number;
+  // from the MP Endian field of the segment; 0 for the first individual image
+  offset: number;
+  dependent_image_1: number;
+  dependent_image_2: number;
+};
+
+// CIPA DC-007 5.2 MP Extensions, of the TIFF data that follows the MPF identifier
+export function parse_MPF(data: Uint8Array) {
+  const reader = new TIFFReader(data);
+  const index = reader.IFD(reader.first_IFD());
+  const optional: { attributes?: IFD } = {};
+  // the MP Attribute IFD follows the MP Index IFD of the first individual image
+  if (index.next !== 0) optional.attributes = reader.IFD(index.next);
+  const images: MPEntry[] = [];
+  const entries = find_field(index, MPFTag.MPEntry)?.value;
+  if (entries instanceof Uint8Array) {
+    const view = new DataView(entries.buffer, entries.byteOffset, entries.byteLength);
+    for (let i = 0; i + 16 <= entries.length; i += 16) {
+      images.push({
+        attribute: view.getUint32(i, reader.little_endian),
+        size: view.getUint32(i + 4, reader.little_endian),
+        offset: view.getUint32(i + 8, reader.little_endian),
+        dependent_image_1: view.getUint16(i + 12, reader.little_endian),
+        dependent_image_2: view.getUint16(i + 14, reader.little_endian),
+      });
+    }
+  }
+  return { little_endian: reader.little_endian, index, ...optional, images };
+}
+
+export type JFIF = ReturnType<typeof parse_JFIF>;
+export type JFXX = ReturnType<typeof parse_JFXX>;
+export type Adobe = ReturnType<typeof parse_Adobe>;
+export type MPF = ReturnType<typeof parse_MPF>;
+
+export type JPEGMetadata = {
+  frame?: FrameHeader;
+  JFIF?: JFIF;
+  JFXX: JFXX[];
+  Exif?: Exif;
+  XMP?: string;
+  // the extended XMP packets, by the GUID referenced from xmpNote:HasExtendedXMP in the main packet
+  extended_XMP: Map<string, string>;
+  ICC_profile?: Uint8Array;
+  MPF?: MPF;
+  Adobe?: Adobe;
+  comments: string[];
+  // APPn segments that are not identified
+  application_data: { marker: number; Ap: Uint8Array }[];
+  // segments that could not be decoded, which are otherwise ignored
+  errors: { marker: number; message: string }[];
+};
+
+// Collects the metadata of the segments pushed to it
+export class JPEGMetadataCollector {
+  private metadata: JPEGMetadata = { JFXX: [], extended_XMP: new Map(), comments: [], application_data: [], errors: [] };
+  // ICC.1 B.4: chunks by sequence number, counting from 1
+  private ICC_chunks: Uint8Array[] = [];
+  private ICC_count = 0;
+  // XMP Specification Part 3 1.1.3.1: chunks by GUID, each at its offset in the full packet
+  private extended_XMP = new Map<string, { data: Uint8Array; received: number }>();
+
+  push(segment: JPEGSegment) {
+    if (segment.marker === undefined) return;
+    try {
+      if ('Nf' in segment && 'process' in segment) {
+        this.metadata.frame ??= segment;
+      } else if ('Cm' in segment) {
+        this.metadata.comments.push(new TextDecoder().decode(segment.Cm));
+      } else if ('Ap' in segment && is_APP(segment.marker)) {
+        this.application_data(segment.marker, segment.Ap);
+      }
+    } catch (e) {
+      if (!(e instanceof MalformedDataError)) throw e;
+      this.metadata.errors.push({ marker: segment.marker, message: e.message });
+    }
+  }
+
+  private application_data(marker: number, Ap: Uint8Array) {
+    const metadata = this.metadata;
+    switch (identify_application_data(marker, Ap)) {
+      case 'JFIF':
+        metadata.JFIF ??= parse_JFIF(Ap);
+        return;
+      case 'JFXX':
+        metadata.JFXX.push(parse_JFXX(Ap));
+        return;
+      case 'Exif':
+        metadata.Exif ??= parse_Exif(Ap.subarray(6));
+        return;
+      case 'XMP':
+        metadata.XMP ??= new TextDecoder().decode(Ap.subarray(29));
+        return;
+      case 'extended_XMP': {
+        if (Ap.length < 75) throw new MalformedDataError('Extended XMP segment is too short');
+        const GUID = String.fromCharCode(...Ap.subarray(35, 67));
+        const full_length = uint32(Ap, 67);
+        const offset = uint32(Ap, 71);
+        const chunk = Ap.subarray(75);
+        let packet = this.extended_XMP.get(GUID);
+        if (packet === undefined) {
+          packet = { data: new Uint8Array(full_length), received: 0 };
+          this.extended_XMP.set(GUID, packet);
+        }
+        if (full_length !== packet.data.length || offset + chunk.length > full_length) {
+          throw new MalformedDataError(`Extended XMP chunk at ${offset} is out of range`);
+        }
+        packet.data.set(chunk, offset);
+        packet.received += chunk.length;
+        return;
+      }
+      case 'ICC_profile': {
+        if (Ap.length < 14) throw new MalformedDataError('ICC_PROFILE segment is too short');
+        const seq_no = Ap[12];
+        const num_markers = Ap[13];
+        if (seq_no === 0 || seq_no > num_markers || (this.ICC_count !== 0 && num_markers !== this.ICC_count)) {
+          throw new MalformedDataError(`Invalid ICC profile chunk ${seq_no} of ${num_markers}`);
+        }
+        this.ICC_count = num_markers;
+        this.ICC_chunks[seq_no - 1] = Ap.subarray(14);
+        return;
+      }
+      case 'MPF':
+        metadata.MPF ??= parse_MPF(Ap.subarray(4));
+        return;
+      case 'Adobe':
+        metadata.Adobe ??= parse_Adobe(Ap);
+        return;
+    }
+    metadata.application_data.push({ marker, Ap });
+  }
+
+  // The metadata of the segments so far, with the ICC profile and extended XMP reassembled once all their chunks are present
+  result(): JPEGMetadata {
+    const metadata = { ...this.metadata, extended_XMP: new Map<string, string>(), errors: [...this.metadata.errors] };
+    if (this.ICC_count !== 0) {
+      const chunks = this.ICC_chunks;
+      let length = 0;
+      for (let i = 0; i < this.ICC_count; i++) length += chunks[i]?.length ?? 0;
+      if (chunks.filter((chunk) => chunk !== undefined).length !== this.ICC_count) {
+        metadata.errors.push({ marker: MarkerCode.APP2, message: 'ICC profile is missing chunks' });
+      } else {
+        const profile = new Uint8Array(length);
+        let offset = 0;
+        for (const chunk of chunks) {
+          profile.set(chunk, offset);
+          offset += chunk.length;
+        }
+        metadata.ICC_profile = profile;
+      }
+    }
+    for (const [GUID, { data, received }] of this.extended_XMP) {
+      if (received !== data.length) {
+        metadata.errors.push({ marker: MarkerCode.APP1, message: `Extended XMP ${GUID} is missing chunks` });
+        continue;
+      }
+      metadata.extended_XMP.set(GUID, new TextDecoder().decode(data));
+    }
+    return metadata;
+  }
+}
+
+export type MetadataOptions = {
+  // reads the whole file for segments after the first scan, rather than stopping at the first SOS
+  scan_to_end?: boolean;
+};
+
+// Reads the metadata of a JPEG file without decoding or buffering its entropy-coded data
+export async function read_JPEG_metadata(b: ByteReader, options: MetadataOptions = {}) {
+  const collector = new JPEGMetadataCollector();
+  for await (const segment of parse_JPEG(b, { skip_entropy_coded_data: true })) {
+    collector.push(segment);
+    if (segment.marker === MarkerCode.SOS && !options.scan_to_end) break;
+  }
+  return collector.result();
+}
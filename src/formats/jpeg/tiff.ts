@@ -0,0 +1,143 @@
+// TIFF Revision 6.0 Section 2: TIFF Structure, as embedded in the Exif (CIPA DC-008) and MPF (CIPA DC-007) segments
+
+import { MalformedDataError } from './marker_segments.js';
+
+// Section 2 Types, and the Exif types SBYTE to DOUBLE
+export const enum FieldType {
+  BYTE = 1,
+  ASCII = 2,
+  SHORT = 3,
+  LONG = 4,
+  RATIONAL = 5,
+  SBYTE = 6,
+  UNDEFINED = 7,
+  SSHORT = 8,
+  SLONG = 9,
+  SRATIONAL = 10,
+  FLOAT = 11,
+  DOUBLE = 12,
+}
+
+// bytes per value by field type
+const type_sizes = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+// ASCII as a string without the terminating NULs, UNDEFINED as bytes, RATIONAL and SRATIONAL as
+// [numerator, denominator] pairs and the other types as numbers
+export type FieldValue = string | Uint8Array | number[] | [number, number][];
+
+export type Field = { tag: number; type: FieldType; count: number; value: FieldValue };
+
+export type IFD = {
+  // from the start of the TIFF header
+  offset: number;
+  fields: Field[];
+  // offset of the next IFD, or 0
+  next: number;
+};
+
+export class TIFFReader {
+  readonly little_endian: boolean;
+  private view: DataView;
+
+  constructor(readonly data: Uint8Array) {
+    // Image File Header
+    if (data.length < 8) throw new MalformedDataError('TIFF header is too short');
+    const byte_order = String.fromCharCode(data[0], data[1]);
+    if (byte_order !== 'II' && byte_order !== 'MM') {
+      throw new MalformedDataError(`Invalid TIFF byte order ${JSON.stringify(byte_order)}`);
+    }
+    this.little_endian = byte_order === 'II';
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const magic = this.uint16(2);
+    if (magic !== 42) throw new MalformedDataError(`Expected TIFF magic 42 but got ${magic}`);
+  }
+
+  // offset of the 0th IFD
+  first_IFD() {
+    return this.uint32(4);
+  }
+
+  uint16(offset: number) {
+    return this.view.getUint16(offset, this.little_endian);
+  }
+
+  uint32(offset: number) {
+    return this.view.getUint32(offset, this.little_endian);
+  }
+
+  // Image File Directory
+  // Fields of unknown types, and fields whose values lie outside the data, are skipped.
+  IFD(offset: number): IFD {
+    if (offset < 8 || offset + 2 > this.data.length) throw new MalformedDataError(`IFD offset ${offset} is out of range`);
+    const n = this.uint16(offset);
+    const end = offset + 2 + 12 * n;
+    if (end > this.data.length) throw new MalformedDataError(`IFD at ${offset} is truncated`);
+    const fields: Field[] = [];
+    for (let i = 0; i < n; i++) {
+      const entry = offset + 2 + 12 * i;
+      const tag = this.uint16(entry);
+      const type = this.uint16(entry + 2);
+      const count = this.uint32(entry + 4);
+      const size = type_sizes[type];
+      if (size === undefined || size === 0) continue;
+      const length = size * count;
+      // the value itself if it fits in 4 bytes, otherwise its offset
+      const value_offset = length <= 4 ? entry + 8 : this.uint32(entry + 8);
+      if (value_offset + length > this.data.length) continue;
+      fields.push({ tag, type, count, value: this.value(type, count, value_offset) });
+    }
+    // some writers omit the offset of the next IFD after the last one
+    const next = end + 4 <= this.data.length ? this.uint32(end) : 0;
+    return { offset, fields, next };
+  }
+
+  private value(type: FieldType, count: number, offset: number): FieldValue {
+    switch (type) {
+      case FieldType.ASCII: {
+        let end = offset + count;
+        while (end > offset && this.data[end - 1] === 0) end--;
+        // 7-bit ASCII by the specification, though UTF-8 is common in practice
+        return new TextDecoder().decode(this.data.subarray(offset, end));
+      }
+      case FieldType.UNDEFINED:
+        return this.data.subarray(offset, offset + count);
+      case FieldType.RATIONAL:
+      case FieldType.SRATIONAL: {
+        const values: [number, number][] = [];
+        for (let i = 0; i < count; i++) {
+          const o = offset + 8 * i;
+          values.push(type === FieldType.RATIONAL
+            ? [this.uint32(o), this.uint32(o + 4)]
+            : [this.view.getInt32(o, this.little_endian), this.view.getInt32(o + 4, this.little_endian)]);
+        }
+        return values;
+      }
+    }
+    const values: number[] = [];
+    const size = type_sizes[type];
+    for (let i = 0; i < count; i++) {
+      const o = offset + size * i;
+      switch (type) {
+        case FieldType.BYTE: values.push(this.view.getUint8(o)); break;
+        case FieldType.SBYTE: values.push(this.view.getInt8(o)); break;
+        case FieldType.SHORT: values.push(this.uint16(o)); break;
+        case FieldType.SSHORT: values.push(this.view.getInt16(o, this.little_endian)); break;
+        case FieldType.LONG: values.push(this.uint32(o)); break;
+        case FieldType.SLONG: values.push(this.view.getInt32(o, this.little_endian)); break;
+        case FieldType.FLOAT: values.push(this.view.getFloat32(o, this.little_endian)); break;
+        case FieldType.DOUBLE: values.push(this.view.getFloat64(o, this.little_endian)); break;
+      }
+    }
+    return values;
+  }
+}
+
+export function find_field(ifd: IFD, tag: number) {
+  return ifd.fields.find((field) => field.tag === tag);
+}
+
+// The first value of a numeric field, such as an offset or a count
+export function field_number(ifd: IFD, tag: number) {
+  const value = find_field(ifd, tag)?.value;
+  return Array.isArray(value) && typeof value[0] === 'number' ? value[0] : undefined;
+}
@@ -1,5 +1,125 @@
 // U.3 AF descriptors
 
-export async function parse_af_descriptor() {
-  // TODO
+import { BitReader } from '../../reader.js';
+import { DescriptorRegistry, parse_descriptors } from './descriptors.js';
+import { SyntaxContext, reserved_bits } from './syntax.js';
+
+// Table U.2 af_descriptor_tag values of the TEMI descriptors, the only AF descriptors decoded here.
+// The others, cets_byte_range_descriptor (0x07), the ISO/IEC 23008-3 extStreamID, multistream and command descriptors
+// (0x08-0x0A), boundary_descriptor (0x0B), labeling_descriptor (0x0C) and HEVC_tile_substream_af_descriptor (0x0D),
+// are given undecoded unless registered with af_descriptor_registry.
+export const enum AFDescriptorTag {
+  timeline_descriptor = 0x04,
+  location_descriptor = 0x05,
+  BaseURL_descriptor = 0x06,
+}
+
+function url(r: BitReader) {
+  const url_scheme = r.uimsbf(8);
+  const url_path_length = r.uimsbf(8);
+  const url_path = new TextDecoder().decode(r.bytes(url_path_length));
+  return { url_scheme, url_path };
+}
+
+// U.3.6 Timeline descriptor
+export function parse_timeline_descriptor(r: BitReader) {
+  const has_timestamp = r.uimsbf(2);
+  const has_ntp = r.bslbf(1);
+  const has_ptp = r.bslbf(1);
+  const has_timecode = r.uimsbf(2);
+  const force_reload = r.bslbf(1) === 1;
+  const paused = r.bslbf(1) === 1;
+  const discontinuity = r.bslbf(1) === 1;
+  reserved_bits(r, 7);
+  const timeline_id = r.uimsbf(8);
+  const optional: {
+    timescale?: number;
+    media_timestamp?: number | bigint;
+    ntp_timestamp?: bigint;
+    ptp_timestamp?: bigint;
+    drop?: boolean;
+    frames_per_tc_seconds?: number;
+    duration?: number;
+    short_time_code?: number;
+    long_time_code?: bigint;
+  } = {};
+  if (has_timestamp !== 0) {
+    optional.timescale = r.uimsbf(32);
+    optional.media_timestamp = has_timestamp === 1 ? r.uimsbf(32) : r.uimsbf_bigint(64);
+  }
+  if (has_ntp === 1) {
+    optional.ntp_timestamp = r.uimsbf_bigint(64);
+  }
+  if (has_ptp === 1) {
+    optional.ptp_timestamp = r.uimsbf_bigint(80);
+  }
+  if (has_timecode === 1 || has_timecode === 2) {
+    optional.drop = r.bslbf(1) === 1;
+    optional.frames_per_tc_seconds = r.uimsbf(15);
+    optional.duration = r.uimsbf(16);
+    if (has_timecode === 1) {
+      optional.short_time_code = r.uimsbf(24);
+    } else {
+      optional.long_time_code = r.uimsbf_bigint(64);
+    }
+  }
+  return {
+    has_timestamp,
+    has_ntp: has_ntp === 1,
+    has_ptp: has_ptp === 1,
+    has_timecode,
+    force_reload,
+    paused,
+    discontinuity,
+    timeline_id,
+    ...optional,
+  };
+}
+
+// U.3.4 Location descriptor
+export function parse_location_descriptor(r: BitReader) {
+  const force_reload = r.bslbf(1) === 1;
+  const is_announcement = r.bslbf(1);
+  const splicing_flag = r.bslbf(1) === 1;
+  const use_base_temi_url = r.bslbf(1);
+  reserved_bits(r, 5);
+  const timeline_id = r.uimsbf(7);
+  const optional: {
+    url_scheme?: number;
+    url_path?: string;
+    timescale?: number;
+    time_before_activation?: number;
+  } = {};
+  if (use_base_temi_url === 0) {
+    Object.assign(optional, url(r));
+  }
+  if (is_announcement === 1) {
+    optional.timescale = r.uimsbf(32);
+    optional.time_before_activation = r.uimsbf(32);
+  }
+  return {
+    force_reload,
+    is_announcement: is_announcement === 1,
+    splicing_flag,
+    use_base_temi_url: use_base_temi_url === 1,
+    timeline_id,
+    ...optional,
+  };
+}
+
+// U.3.5 BaseURL descriptor
+export function parse_BaseURL_descriptor(r: BitReader) {
+  return url(r);
+}
+
+export const af_descriptor_registry = new DescriptorRegistry()
+  .register(AFDescriptorTag.timeline_descriptor, parse_timeline_descriptor)
+  .register(AFDescriptorTag.location_descriptor, parse_location_descriptor)
+  .register(AFDescriptorTag.BaseURL_descriptor, parse_BaseURL_descriptor);
+
+// The af_descriptor() loop of the adaptation field extension, of the given length in bytes
+export function parse_af_descriptors(
+  r: BitReader, length: number, registry: DescriptorRegistry = af_descriptor_registry, context?: SyntaxContext,
+) {
+  return parse_descriptors(r, length, registry, context);
 }
@@ -0,0 +1,489 @@
+// ETSI TR 101 290 Measurement guidelines for DVB systems, 5.2 First priority and second priority
+// Conformance indicators measured on a transport stream.
+
+import { BitReader, ByteReader, MemorySource, UnexpectedEOFError } from '../../reader.js';
+import {
+  PIDAssignment, SectionAssembler, TableID, crc32, parse_TS_program_map_section, parse_program_association_section,
+} from './psi.js';
+import { MalformedDataError, UnimplementedReserveError } from './syntax.js';
+import {
+  PacketSize, TransportPacket, detect_packet_size, find_sync, has_PES_header, parse_transport_packet, sync_byte_offset,
+} from './transport_stream.js';
+
+const sync_byte = 0x47;
+const system_clock_frequency = 27_000_000;
+const PCR_wrap = Math.pow(2, 33) * 300;
+
+export type Indicator =
+  // First priority: necessary for de-codability
+  | 'TS_sync_loss'
+  | 'Sync_byte_error'
+  | 'PAT_error'
+  | 'Continuity_count_error'
+  | 'PMT_error'
+  // Second priority: recommended for continuous or periodic monitoring
+  | 'Transport_error'
+  | 'CRC_error'
+  | 'PCR_repetition_error'
+  | 'PCR_discontinuity_indicator_error'
+  | 'PCR_accuracy_error'
+  | 'PTS_error'
+  | 'CAT_error'
+  // Not in TR 101 290: a packet that does not follow the transport stream syntax
+  | 'Syntax_error';
+
+const priorities: Record<Indicator, 1 | 2> = {
+  TS_sync_loss: 1,
+  Sync_byte_error: 1,
+  PAT_error: 1,
+  Continuity_count_error: 1,
+  PMT_error: 1,
+  Transport_error: 2,
+  CRC_error: 2,
+  PCR_repetition_error: 2,
+  PCR_discontinuity_indicator_error: 2,
+  PCR_accuracy_error: 2,
+  PTS_error: 2,
+  CAT_error: 2,
+  Syntax_error: 2,
+};
+
+export type AnalyzerEvent = {
+  priority: 1 | 2;
+  indicator: Indicator;
+  PID?: number;
+  packet_index: number;
+  byte_offset: number;
+  // seconds on the PCR timeline of the first PCR PID, once a PCR has been received
+  time?: number;
+  message: string;
+};
+
+export type AnalyzerOptions = {
+  // Maximum interval between sections of the PAT and of each PMT, in seconds
+  PAT_PMT_interval: number;
+  // Maximum difference between two consecutive PCR values of a PID without discontinuity_indicator, in seconds
+  PCR_interval: number;
+  // Maximum time between the arrival of two PCRs of a PID, in seconds
+  PCR_repetition_interval: number;
+  // Maximum PCR jitter, in seconds
+  PCR_accuracy: number;
+  // Maximum interval between two PTSs of a PID, in seconds
+  PTS_interval: number;
+};
+
+const default_options: AnalyzerOptions = {
+  PAT_PMT_interval: 0.5,
+  PCR_interval: 0.1,
+  PCR_repetition_interval: 0.04,
+  PCR_accuracy: 500e-9,
+  PTS_interval: 0.7,
+};
+
+type PIDState = {
+  packets: number;
+  continuity_counter?: number;
+  duplicates: number;
+  continuity_count_errors: number;
+  transport_errors: number;
+  scrambled_packets: number;
+  PCR_count: number;
+  PTS_count: number;
+  // last PCR in 27 MHz units, unwrapped, with the offset of the packet that carried it
+  last_PCR?: { value: number; byte_offset: number };
+  // transport rate measured between the last two PCRs, in bits per second
+  PCR_rate?: number;
+  last_PTS_time?: number;
+};
+
+export class TransportStreamAnalyzer {
+  // size of the packets on the wire, for byte offsets and bitrates
+  packet_size: PacketSize = 188;
+  private options: AnalyzerOptions;
+  private pids = new Map<number, PIDState>();
+  private counts = new Map<Indicator, number>();
+  private assembler: SectionAssembler;
+  private program_map_PIDs = new Set<number>();
+  // by the PID of the PAT and of each PMT, the time by which its next section is due, from the last one received or
+  // else from the first time known after the PID was expected
+  private section_deadlines = new Map<number, number | undefined>([[PIDAssignment.program_association_table, undefined]]);
+  private CAT_seen = false;
+  private clock?: { PID: number; value: number; byte_offset: number; rate?: number };
+  // the first PCR of the clock PID since its last discontinuity, from which the transport rate is averaged
+  private clock_origin?: { value: number; byte_offset: number };
+  private packet_index = 0;
+  private byte_offset = 0;
+  private first_time?: number;
+  private last_time?: number;
+
+  constructor(options: Partial<AnalyzerOptions> = {}) {
+    this.options = { ...default_options, ...options };
+    this.assembler = new SectionAssembler((PID) =>
+      PID === PIDAssignment.program_association_table
+      || PID === PIDAssignment.conditional_access_table
+      || this.program_map_PIDs.has(PID));
+  }
+
+  // seconds on the PCR timeline, interpolated from the byte offset
+  private time_at(byte_offset: number) {
+    const clock = this.clock;
+    if (clock === undefined) return undefined;
+    const elapsed = clock.rate !== undefined ? (byte_offset - clock.byte_offset) * 8 / clock.rate : 0;
+    return clock.value / system_clock_frequency + elapsed;
+  }
+
+  private event(events: AnalyzerEvent[], indicator: Indicator, message: string, PID?: number) {
+    this.counts.set(indicator, (this.counts.get(indicator) ?? 0) + 1);
+    events.push({
+      priority: priorities[indicator],
+      indicator,
+      ...(PID !== undefined ? { PID } : {}),
+      packet_index: this.packet_index,
+      byte_offset: this.byte_offset,
+      ...(this.time_at(this.byte_offset) !== undefined ? { time: this.time_at(this.byte_offset) } : {}),
+      message,
+    });
+  }
+
+  private state(PID: number) {
+    let state = this.pids.get(PID);
+    if (state === undefined) {
+      state = {
+        packets: 0,
+        duplicates: 0,
+        continuity_count_errors: 0,
+        transport_errors: 0,
+        scrambled_packets: 0,
+        PCR_count: 0,
+        PTS_count: 0,
+      };
+      this.pids.set(PID, state);
+    }
+    return state;
+  }
+
+  // 1.1 TS_sync_loss, reported by the reader after consecutive corrupted sync bytes
+  sync_loss() {
+    const events: AnalyzerEvent[] = [];
+    this.event(events, 'TS_sync_loss', 'Lost sync');
+    return events;
+  }
+
+  // Bytes skipped by the reader while searching for sync
+  skip(n: number) {
+    this.byte_offset += n;
+  }
+
+  // 1.2 Sync_byte_error, for a packet whose sync byte is not 0x47
+  sync_byte_error(byte: number) {
+    const events: AnalyzerEvent[] = [];
+    this.event(events, 'Sync_byte_error', `Expected sync byte 0x47 but got 0x${byte.toString(16)}`);
+    this.packet_index++;
+    this.byte_offset += this.packet_size;
+    return events;
+  }
+
+  // A packet that failed to parse, with the error it raised
+  syntax_error(bytes: Uint8Array, error: Error) {
+    const events: AnalyzerEvent[] = [];
+    const PID = ((bytes[1] & 0x1f) << 8) | bytes[2];
+    this.state(PID).packets++;
+    this.event(events, 'Syntax_error', error.message || error.constructor.name, PID);
+    this.packet_index++;
+    this.byte_offset += this.packet_size;
+    return events;
+  }
+
+  push(packet: TransportPacket) {
+    const events: AnalyzerEvent[] = [];
+    const { PID } = packet;
+    const state = this.state(PID);
+    state.packets++;
+    if (packet.transport_error_indicator === 1) {
+      // 2.1 Transport_error
+      state.transport_errors++;
+      this.event(events, 'Transport_error', 'transport_error_indicator is set', PID);
+    } else {
+      this.check_continuity(events, packet, state);
+      if (packet.transport_scrambling_control !== 0b00) {
+        state.scrambled_packets++;
+        if (PID === PIDAssignment.program_association_table) {
+          this.event(events, 'PAT_error', 'PAT is scrambled', PID);
+        } else if (this.program_map_PIDs.has(PID)) {
+          this.event(events, 'PMT_error', 'PMT is scrambled', PID);
+        } else if (!this.CAT_seen) {
+          this.event(events, 'CAT_error', 'Scrambled packet without a CAT', PID);
+        }
+      }
+      this.check_PCR(events, packet, state);
+      this.check_PTS(events, packet, state);
+      this.check_sections(events, packet);
+    }
+    const time = this.time_at(this.byte_offset);
+    if (time !== undefined) {
+      this.first_time ??= time;
+      this.last_time = time;
+      this.check_section_intervals(events, time);
+    }
+    this.packet_index++;
+    this.byte_offset += this.packet_size;
+    return events;
+  }
+
+  // 1.4 Continuity_count_error
+  private check_continuity(events: AnalyzerEvent[], packet: TransportPacket, state: PIDState) {
+    if (packet.PID === PIDAssignment.null_packet) return;
+    const has_payload = packet.data_byte !== undefined;
+    const previous = state.continuity_counter;
+    state.continuity_counter = packet.continuity_counter;
+    if (previous === undefined || packet.adaptation_field?.discontinuity_indicator) {
+      state.duplicates = 0;
+      return;
+    }
+    if (!has_payload) {
+      if (packet.continuity_counter !== previous) {
+        state.continuity_count_errors++;
+        this.event(events, 'Continuity_count_error', `continuity_counter changed from ${previous} to ${packet.continuity_counter} without payload`, packet.PID);
+      }
+      return;
+    }
+    if (packet.continuity_counter === previous) {
+      if (++state.duplicates > 1) {
+        state.continuity_count_errors++;
+        this.event(events, 'Continuity_count_error', `Packet occurs more than twice`, packet.PID);
+      }
+      return;
+    }
+    state.duplicates = 0;
+    if (packet.continuity_counter !== ((previous + 1) & 0xf)) {
+      state.continuity_count_errors++;
+      this.event(events, 'Continuity_count_error', `Expected continuity_counter ${(previous + 1) & 0xf} but got ${packet.continuity_counter}`, packet.PID);
+    }
+  }
+
+  // 1.3 PAT_error / 1.5 PMT_error: the PAT, or a PMT of the PAT, has not occurred for longer than the interval,
+  // reported once per interval for as long as it is missing, including where it never occurs
+  private check_section_intervals(events: AnalyzerEvent[], now: number) {
+    for (const [PID, deadline] of this.section_deadlines) {
+      if (deadline === undefined) {
+        this.section_deadlines.set(PID, now + this.options.PAT_PMT_interval);
+      } else if (now > deadline) {
+        const PAT = PID === PIDAssignment.program_association_table;
+        this.event(events, PAT ? 'PAT_error' : 'PMT_error', `No ${PAT ? 'PAT' : 'PMT'} for more than ${this.options.PAT_PMT_interval} s`, PID);
+        this.section_deadlines.set(PID, now + this.options.PAT_PMT_interval);
+      }
+    }
+  }
+
+  // The transport rate in bits per second, averaged over the PCRs of the clock PID since its last discontinuity
+  private transport_rate() {
+    const clock = this.clock;
+    const origin = this.clock_origin;
+    if (clock === undefined || origin === undefined || clock.value <= origin.value) return undefined;
+    return (clock.byte_offset - origin.byte_offset) * 8 / ((clock.value - origin.value) / system_clock_frequency);
+  }
+
+  // 2.3 PCR_error / 2.4 PCR_accuracy_error
+  private check_PCR(events: AnalyzerEvent[], packet: TransportPacket, state: PIDState) {
+    const adaptation_field = packet.adaptation_field;
+    if (adaptation_field?.program_clock_reference_base === undefined) return;
+    state.PCR_count++;
+    const discontinuity = adaptation_field.discontinuity_indicator;
+    let value = adaptation_field.program_clock_reference_base * 300 + adaptation_field.program_clock_reference_extension!;
+    const last = state.last_PCR;
+    if (last !== undefined && !discontinuity) {
+      // unwrap the 33 bit base
+      while (value < last.value - PCR_wrap / 2) value += PCR_wrap;
+      const delta = (value - last.value) / system_clock_frequency;
+      if (delta < 0 || delta > this.options.PCR_interval) {
+        this.event(events, 'PCR_discontinuity_indicator_error', `PCR changed by ${delta.toFixed(6)} s without discontinuity_indicator`, packet.PID);
+        state.PCR_rate = undefined;
+      } else {
+        if (state.PCR_rate !== undefined) {
+          // the PCR expected at this byte offset at the rate of the previous interval
+          const expected = last.value + (this.byte_offset - last.byte_offset) * 8 / state.PCR_rate * system_clock_frequency;
+          const accuracy = (value - expected) / system_clock_frequency;
+          if (Math.abs(accuracy) > this.options.PCR_accuracy) {
+            this.event(events, 'PCR_accuracy_error', `PCR is off by ${(accuracy * 1e9).toFixed(0)} ns`, packet.PID);
+          }
+        }
+        if (delta > 0) {
+          state.PCR_rate = (this.byte_offset - last.byte_offset) * 8 / delta;
+        }
+      }
+    } else {
+      state.PCR_rate = undefined;
+    }
+    // the time between the arrival of the packets, from their byte offsets at the transport rate up to the last PCR,
+    // rather than from the PCR values
+    const rate = this.transport_rate();
+    if (last !== undefined && !discontinuity && rate !== undefined) {
+      const arrival = (this.byte_offset - last.byte_offset) * 8 / rate;
+      if (arrival > this.options.PCR_repetition_interval) {
+        this.event(events, 'PCR_repetition_error', `PCR interval of ${arrival.toFixed(3)} s`, packet.PID);
+      }
+    }
+    if (this.clock === undefined || this.clock.PID === packet.PID) {
+      this.clock = { PID: packet.PID, value, byte_offset: this.byte_offset, ...(state.PCR_rate !== undefined ? { rate: state.PCR_rate } : {}) };
+      if (this.clock_origin === undefined || state.PCR_rate === undefined) this.clock_origin = { value, byte_offset: this.byte_offset };
+    }
+    state.last_PCR = { value, byte_offset: this.byte_offset };
+  }
+
+  // 2.5 PTS_error
+  private check_PTS(events: AnalyzerEvent[], packet: TransportPacket, state: PIDState) {
+    const data = packet.data_byte;
+    if (packet.payload_unit_start_indicator !== 1 || data === undefined || data.length < 14) return;
+    if (data[0] !== 0x00 || data[1] !== 0x00 || data[2] !== 0x01) return;
+    if (!has_PES_header(data[3])) return;
+    if ((data[6] & 0xC0) !== 0x80 || (data[7] & 0x80) === 0) return;
+    state.PTS_count++;
+    const now = this.time_at(this.byte_offset);
+    if (now === undefined) return;
+    if (state.last_PTS_time !== undefined && now - state.last_PTS_time > this.options.PTS_interval) {
+      this.event(events, 'PTS_error', `PTS interval of ${(now - state.last_PTS_time).toFixed(3)} s`, packet.PID);
+    }
+    state.last_PTS_time = now;
+  }
+
+  // 1.3 PAT_error / 1.5 PMT_error / 2.2 CRC_error / 2.6 CAT_error
+  private check_sections(events: AnalyzerEvent[], packet: TransportPacket) {
+    const { PID } = packet;
+    for (const section of this.assembler.push(packet)) {
+      const table_id = section[0];
+      if (PID === PIDAssignment.program_association_table && table_id !== TableID.program_association_section) {
+        this.event(events, 'PAT_error', `Section with table_id 0x${table_id.toString(16)} on PID 0x0000`, PID);
+        continue;
+      }
+      if (PID === PIDAssignment.conditional_access_table && table_id !== TableID.conditional_access_section) {
+        this.event(events, 'CAT_error', `Section with table_id 0x${table_id.toString(16)} on PID 0x0001`, PID);
+        continue;
+      }
+      if (this.program_map_PIDs.has(PID) && table_id !== TableID.TS_program_map_section) continue;
+      const section_syntax_indicator = new BitReader(section).nextbits(9) & 1;
+      if (section_syntax_indicator === 1 && crc32(section) !== 0) {
+        this.event(events, 'CRC_error', `CRC_32 mismatch in section with table_id 0x${table_id.toString(16)}`, PID);
+        continue;
+      }
+      const now = this.time_at(this.byte_offset);
+      if (now !== undefined && this.section_deadlines.has(PID)) this.section_deadlines.set(PID, now + this.options.PAT_PMT_interval);
+      if (table_id === TableID.conditional_access_section) {
+        this.CAT_seen = true;
+      } else if (table_id === TableID.program_association_section) {
+        try {
+          const pat = parse_program_association_section(section);
+          if (pat.current_next_indicator === 1 && pat.section_number === 0) this.program_map_PIDs.clear();
+          for (const program of pat.programs) {
+            if ('program_map_PID' in program) this.program_map_PIDs.add(program.program_map_PID);
+          }
+          for (const PID of this.section_deadlines.keys()) {
+            if (PID !== PIDAssignment.program_association_table && !this.program_map_PIDs.has(PID)) this.section_deadlines.delete(PID);
+          }
+          for (const PID of this.program_map_PIDs) {
+            if (!this.section_deadlines.has(PID)) this.section_deadlines.set(PID, undefined);
+          }
+        } catch (e) {
+          if (!is_section_error(e)) throw e;
+          this.event(events, 'PAT_error', e.message, PID);
+        }
+      } else if (table_id === TableID.TS_program_map_section) {
+        try {
+          parse_TS_program_map_section(section);
+        } catch (e) {
+          if (!is_section_error(e)) throw e;
+          this.event(events, 'PMT_error', e.message, PID);
+        }
+      }
+    }
+  }
+
+  summary() {
+    const indicators: Partial<Record<Indicator, number>> = {};
+    for (const [indicator, count] of this.counts) {
+      indicators[indicator] = count;
+    }
+    const duration = this.first_time !== undefined && this.last_time !== undefined ? this.last_time - this.first_time : undefined;
+    return {
+      packets: this.packet_index,
+      bytes: this.byte_offset,
+      ...(duration !== undefined ? { duration } : {}),
+      ...(duration ? { bitrate: this.byte_offset * 8 / duration } : {}),
+      indicators,
+      PIDs: [...this.pids].sort(([a], [b]) => a - b).map(([PID, state]) => ({
+        PID,
+        packets: state.packets,
+        ...(duration ? { bitrate: state.packets * this.packet_size * 8 / duration } : {}),
+        continuity_count_errors: state.continuity_count_errors,
+        transport_errors: state.transport_errors,
+        scrambled_packets: state.scrambled_packets,
+        PCR_count: state.PCR_count,
+        PTS_count: state.PTS_count,
+      })),
+    };
+  }
+}
+
+// An error of a section that does not follow the syntax, rather than of the analyzer
+function is_section_error(e: unknown): e is Error {
+  return e instanceof MalformedDataError || e instanceof UnimplementedReserveError || e instanceof UnexpectedEOFError;
+}
+
+// 5.2.1 TS_sync_loss: sync is lost after 2 consecutive corrupted sync bytes
+const sync_loss = 2;
+
+// Yields the events of the analyzer as the stream is read. The summary is available from the analyzer afterwards.
+export async function* analyze_transport_stream(b: ByteReader, analyzer = new TransportStreamAnalyzer()) {
+  let synchronized = false;
+  let detected = false;
+  let corrupted = 0;
+  for (; ;) {
+    if (!synchronized) {
+      const window = await b.peek_bytes(6 * 204);
+      let offset = -1;
+      if (detected) {
+        offset = find_sync(window, analyzer.packet_size);
+      } else {
+        const detection = detect_packet_size(window);
+        if (detection !== undefined) {
+          analyzer.packet_size = detection.packet_size;
+          offset = detection.offset;
+          detected = true;
+        }
+      }
+      const skip = offset >= 0 ? offset : window.length > 5 * 204 ? window.length - 5 * 204 : window.length;
+      if (skip === 0 && offset < 0) break;
+      if (skip > 0) {
+        await b.bytes(skip);
+        analyzer.skip(skip);
+        continue;
+      }
+      synchronized = true;
+    }
+    const packet_size = analyzer.packet_size;
+    const bytes = await b.peek_bytes(packet_size);
+    if (bytes.length < packet_size) break;
+    const sync_offset = sync_byte_offset(packet_size);
+    if (bytes[sync_offset] !== sync_byte) {
+      await b.bytes(packet_size);
+      yield* analyzer.sync_byte_error(bytes[sync_offset]);
+      if (++corrupted >= sync_loss) {
+        yield* analyzer.sync_loss();
+        synchronized = false;
+        corrupted = 0;
+      }
+      continue;
+    }
+    corrupted = 0;
+    const _bytes = (await b.bytes(packet_size)).subarray(sync_offset, sync_offset + 188);
+    let packet: TransportPacket;
+    try {
+      packet = await parse_transport_packet(new ByteReader(new MemorySource(_bytes)));
+    } catch (e) {
+      if (!(e instanceof Error)) throw e;
+      yield* analyzer.syntax_error(_bytes, e);
+      continue;
+    }
+    yield* analyzer.push(packet);
+  }
+  return analyzer.summary();
+}
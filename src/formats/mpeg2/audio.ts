@@ -0,0 +1,114 @@
+// ISO/IEC 11172-3 2.4.2.3 Header and ISO/IEC 13818-3 2.4.2.3 Header, of Layer I, II and III audio frames.
+// Free format bit streams, of which bitrate_index is 0, are not supported.
+
+import { FrameFormat, FrameSynchronizer } from '../../frame_sync.js';
+
+export const enum Layer {
+  III = 1,
+  II = 2,
+  I = 3,
+}
+
+export const enum Mode {
+  stereo = 0,
+  joint_stereo = 1,
+  dual_channel = 2,
+  single_channel = 3,
+}
+
+// 2.4.2.3 bitrate_index in kbit/s, of ID 1 (ISO/IEC 11172-3) by layer, then ID 0 (ISO/IEC 13818-3 lower sampling frequencies)
+const bitrates = [
+  [
+    [],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  ],
+  [
+    [],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  ],
+];
+
+// 2.4.2.3 sampling_frequency in Hz, of ID 1
+const sampling_frequencies = [44100, 48000, 32000];
+
+export function parse_audio_frame_header(data: Uint8Array, offset = 0) {
+  if (data[offset] !== 0xff || (data[offset + 1] & 0xf0) !== 0xf0) return undefined; // syncword
+  const ID = (data[offset + 1] >> 3) & 0x1;
+  const layer = (data[offset + 1] >> 1) & 0x3;
+  const protection_bit = data[offset + 1] & 0x1;
+  const bitrate_index = data[offset + 2] >> 4;
+  const sampling_frequency = (data[offset + 2] >> 2) & 0x3;
+  const padding_bit = (data[offset + 2] >> 1) & 0x1;
+  const private_bit = data[offset + 2] & 0x1;
+  const mode = data[offset + 3] >> 6;
+  const mode_extension = (data[offset + 3] >> 4) & 0x3;
+  const copyright = (data[offset + 3] >> 3) & 0x1;
+  const original_home = (data[offset + 3] >> 2) & 0x1;
+  const emphasis = data[offset + 3] & 0x3;
+  // layer '00' is reserved, and ADTS has the same syncword with layer '00'
+  if (layer === 0 || bitrate_index === 0 || bitrate_index === 0xf || sampling_frequency === 3 || emphasis === 2) return undefined;
+  const optional: { crc_check?: number } = {};
+  if (protection_bit === 0) optional.crc_check = data[offset + 4] << 8 | data[offset + 5];
+  return {
+    ID,
+    layer,
+    protection_bit,
+    bitrate_index,
+    sampling_frequency,
+    padding_bit,
+    private_bit,
+    mode,
+    mode_extension,
+    copyright,
+    original_home,
+    emphasis,
+    ...optional,
+  };
+}
+
+export type AudioFrameHeader = NonNullable<ReturnType<typeof parse_audio_frame_header>>;
+
+// in kbit/s
+export function bitrate(header: AudioFrameHeader) {
+  return bitrates[1 - header.ID][header.layer][header.bitrate_index];
+}
+
+// in Hz. ISO/IEC 13818-3 halves the sampling frequencies of ISO/IEC 11172-3.
+export function sampling_frequency(header: AudioFrameHeader) {
+  return sampling_frequencies[header.sampling_frequency] / (header.ID === 1 ? 1 : 2);
+}
+
+// Samples per channel of a frame
+export function samples_per_frame(header: AudioFrameHeader) {
+  if (header.layer === Layer.I) return 384;
+  if (header.layer === Layer.III && header.ID === 0) return 576;
+  return 1152;
+}
+
+// 2.4.3.1 Audio sequence general: the number of bytes of a frame, including the header and the padding slot
+export function frame_length(header: AudioFrameHeader) {
+  const slots = Math.floor(samples_per_frame(header) / 8 * bitrate(header) * 1000 / sampling_frequency(header));
+  // a slot of Layer I is 4 bytes
+  if (header.layer === Layer.I) return Math.floor(slots / 4 + header.padding_bit) * 4;
+  return slots + header.padding_bit;
+}
+
+export const MPEGAudio: FrameFormat<AudioFrameHeader> = {
+  header_length: 6,
+  parse_header: parse_audio_frame_header,
+  frame_length,
+  same_stream: (header, next) => header.ID === next.ID
+    && header.layer === next.layer
+    && header.sampling_frequency === next.sampling_frequency,
+  duration: (header) => samples_per_frame(header) * 90000 / sampling_frequency(header),
+};
+
+export class AudioFrameSynchronizer extends FrameSynchronizer<AudioFrameHeader> {
+  constructor() {
+    super(MPEGAudio);
+  }
+}
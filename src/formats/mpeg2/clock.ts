@@ -0,0 +1,175 @@
+// 2.4.2 Transport stream system target decoder
+// Reconstruction of the system time clock from PCRs, and mapping of PTS/DTS onto it.
+
+import { TransportPacket } from './transport_stream.js';
+
+// 2.4.2.1 System clock frequency
+export const system_clock_frequency = 27_000_000;
+// PTS, DTS and the base of PCR, OPCR and ESCR are 33 bit counters of system_clock_frequency / 300
+const timestamp_wrap = Math.pow(2, 33);
+const PCR_wrap = timestamp_wrap * 300;
+
+// 2.4.3.5 Combines a base and extension (PCR, OPCR, ESCR) into units of the 27 MHz system clock
+export function system_clock_reference(base: number, extension: number) {
+  return base * 300 + extension;
+}
+
+type ClockPoint = {
+  byte_offset: number;
+  // on the monotonic timeline, in units of the 27 MHz system clock
+  value: number;
+  // the system time base changed at this point, so it cannot be interpolated from the previous point
+  discontinuity: boolean;
+};
+
+// The system time clock of one program, from the PCRs of its PCR_PID.
+// Values are unwrapped onto a monotonic timeline which starts at the first PCR and continues across
+// discontinuity_indicator resets by extrapolation at the transport rate.
+// All the PCRs of the last `window` seconds of the timeline are kept. Before them, only the first PCR, the PCRs on
+// either side of each discontinuity and a PCR every `window` seconds are kept as anchors, between which PCR_at
+// interpolates.
+export class ProgramClock {
+  private points: ClockPoint[] = [];
+  // the number of anchors at the start of points, before the PCRs of the window
+  private anchors = 0;
+  // timeline value of the first PCR
+  private origin?: number;
+  // timeline value minus the PCR as coded, in the current system time base
+  private offset = 0;
+  // bytes and ticks between the PCRs so far, excluding the gaps at discontinuities, for average_rate
+  private bytes = 0;
+  private ticks = 0;
+
+  constructor(readonly window = 10) { }
+
+  push_PCR(byte_offset: number, PCR: number, discontinuity = false) {
+    const last = this.points[this.points.length - 1];
+    let value: number;
+    if (last === undefined) {
+      value = PCR;
+      this.offset = 0;
+    } else if (discontinuity) {
+      value = this.extrapolate(this.points.length - 1, byte_offset) ?? last.value;
+      this.offset = value - PCR;
+    } else {
+      value = PCR + this.offset;
+      while (value < last.value - PCR_wrap / 2) {
+        this.offset += PCR_wrap;
+        value += PCR_wrap;
+      }
+    }
+    this.points.push({ byte_offset, value, discontinuity: last !== undefined && discontinuity });
+    this.origin ??= value;
+    if (this.rate(this.points.length - 1) !== undefined) {
+      this.bytes += byte_offset - last.byte_offset;
+      this.ticks += value - last.value;
+    }
+    // the points before the window, but the last of them and the two for the transport rate, are thinned to anchors
+    const interval = this.window * system_clock_frequency;
+    let end = this.anchors;
+    while (end < this.points.length - 2 && this.points[end + 1].value <= value - interval) end++;
+    const anchors: ClockPoint[] = [];
+    let anchor = this.points[this.anchors - 1];
+    for (let i = this.anchors; i < end; i++) {
+      const point = this.points[i];
+      if (anchor === undefined || point.discontinuity || this.points[i + 1].discontinuity || point.value >= anchor.value + interval) {
+        anchors.push(point);
+        anchor = point;
+      }
+    }
+    this.points.splice(this.anchors, end - this.anchors, ...anchors);
+    this.anchors += anchors.length;
+    return value;
+  }
+
+  // Takes the PCR from the adaptation field of a packet of the PCR_PID, if any
+  push_packet(packet: TransportPacket, byte_offset: number) {
+    const adaptation_field = packet.adaptation_field;
+    if (adaptation_field?.program_clock_reference_base === undefined) return;
+    const PCR = system_clock_reference(adaptation_field.program_clock_reference_base, adaptation_field.program_clock_reference_extension!);
+    return this.push_PCR(byte_offset, PCR, adaptation_field.discontinuity_indicator);
+  }
+
+  // Transport rate in bits per second between point i - 1 and point i
+  private rate(i: number) {
+    const a = this.points[i - 1];
+    const b = this.points[i];
+    if (a === undefined || b === undefined || b.discontinuity || b.value <= a.value) return undefined;
+    return (b.byte_offset - a.byte_offset) * 8 * system_clock_frequency / (b.value - a.value);
+  }
+
+  private extrapolate(i: number, byte_offset: number) {
+    const point = this.points[i];
+    const rate = this.rate(i) ?? this.rate(i + 1);
+    if (rate === undefined) return byte_offset === point.byte_offset ? point.value : undefined;
+    return point.value + (byte_offset - point.byte_offset) * 8 * system_clock_frequency / rate;
+  }
+
+  // The PCR expected at the given byte offset, in units of the 27 MHz system clock on the monotonic timeline
+  PCR_at(byte_offset: number) {
+    const points = this.points;
+    if (points.length === 0) return undefined;
+    // the last point at or before byte_offset
+    let lo = 0;
+    let hi = points.length - 1;
+    if (byte_offset < points[0].byte_offset) return this.extrapolate(0, byte_offset);
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >>> 1;
+      if (points[mid].byte_offset <= byte_offset) lo = mid;
+      else hi = mid - 1;
+    }
+    const a = points[lo];
+    const b = points[lo + 1];
+    if (b === undefined || b.discontinuity || b.byte_offset === a.byte_offset) return this.extrapolate(lo, byte_offset);
+    return a.value + (b.value - a.value) * (byte_offset - a.byte_offset) / (b.byte_offset - a.byte_offset);
+  }
+
+  // Seconds since the first PCR at the given byte offset
+  time_at(byte_offset: number) {
+    const value = this.PCR_at(byte_offset);
+    return value === undefined ? undefined : (value - this.origin!) / system_clock_frequency;
+  }
+
+  // Seconds since the first PCR of a PTS or DTS, in the current system time base.
+  // The 33 bit value is unwrapped to the presentation closest to the last PCR.
+  timestamp_to_time(timestamp: number) {
+    const last = this.points[this.points.length - 1];
+    if (last === undefined) return undefined;
+    let value = timestamp * 300 + this.offset;
+    while (value < last.value - PCR_wrap / 2) value += PCR_wrap;
+    while (value > last.value + PCR_wrap / 2) value -= PCR_wrap;
+    return (value - this.origin!) / system_clock_frequency;
+  }
+
+  // Transport rate between the last two PCRs, in bits per second
+  instantaneous_rate() {
+    return this.rate(this.points.length - 1);
+  }
+
+  // Transport rate over all the PCRs so far, in bits per second, excluding the gaps at discontinuities
+  average_rate() {
+    return this.ticks > 0 ? this.bytes * 8 * system_clock_frequency / this.ticks : undefined;
+  }
+}
+
+// 2.4.3.7 Semantic definition of fields in PES packet: PTS and DTS are in units of 90 kHz
+export function timestamp_difference(a: number, b: number) {
+  let difference = (a - b) % timestamp_wrap;
+  if (difference > timestamp_wrap / 2) difference -= timestamp_wrap;
+  if (difference < -timestamp_wrap / 2) difference += timestamp_wrap;
+  return difference / (system_clock_frequency / 300);
+}
+
+// Unwraps a sequence of 33 bit PTS or DTS values onto a monotonic 90 kHz timeline
+export class TimestampUnwrapper {
+  private last?: number;
+
+  unwrap(timestamp: number) {
+    let value = timestamp;
+    if (this.last !== undefined) {
+      value = this.last + timestamp_difference(timestamp, this.last) * (system_clock_frequency / 300);
+    }
+    this.last = value;
+    return value;
+  }
+}
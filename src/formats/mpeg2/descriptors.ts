@@ -0,0 +1,465 @@
+// 2.6 Program and program element descriptors
+
+import { BitReader, UnexpectedEOFError } from '../../reader.js';
+import { BitWriter } from '../../writer.js';
+import { MalformedDataError, SyntaxContext, UnimplementedReserveError, reserved_bits } from './syntax.js';
+
+// Table 2-45 Program and program element descriptors
+export const enum DescriptorTag {
+  // 0-1: Reserved
+  video_stream_descriptor = 2,
+  audio_stream_descriptor = 3,
+  hierarchy_descriptor = 4,
+  registration_descriptor = 5,
+  data_stream_alignment_descriptor = 6,
+  target_background_grid_descriptor = 7,
+  video_window_descriptor = 8,
+  CA_descriptor = 9,
+  ISO_639_language_descriptor = 10,
+  system_clock_descriptor = 11,
+  multiplex_buffer_utilization_descriptor = 12,
+  copyright_descriptor = 13,
+  maximum_bitrate_descriptor = 14,
+  private_data_indicator_descriptor = 15,
+  smoothing_buffer_descriptor = 16,
+  STD_descriptor = 17,
+  IBP_descriptor = 18,
+  // 19-26: Defined in ISO/IEC 13818-6
+  MPEG_4_video_descriptor = 27,
+  MPEG_4_audio_descriptor = 28,
+  IOD_descriptor = 29,
+  SL_descriptor = 30,
+  FMC_descriptor = 31,
+  external_ES_ID_descriptor = 32,
+  MuxCode_descriptor = 33,
+  FmxBufferSize_descriptor = 34,
+  multiplexbuffer_descriptor = 35,
+  content_labeling_descriptor = 36,
+  metadata_pointer_descriptor = 37,
+  metadata_descriptor = 38,
+  metadata_STD_descriptor = 39,
+  AVC_video_descriptor = 40,
+  IPMP_descriptor = 41, // defined in ISO/IEC 13818-11, MPEG-2 IPMP
+  AVC_timing_and_HRD_descriptor = 42,
+  MPEG_2_AAC_audio_descriptor = 43,
+  FlexMuxTiming_descriptor = 44,
+  MPEG_4_text_descriptor = 45,
+  MPEG_4_audio_extension_descriptor = 46,
+  auxiliary_video_stream_descriptor = 47,
+  SVC_extension_descriptor = 48,
+  MVC_extension_descriptor = 49,
+  J2K_video_descriptor = 50,
+  MVC_operation_point_descriptor = 51,
+  MPEG2_stereoscopic_video_format_descriptor = 52,
+  Stereoscopic_program_info_descriptor = 53,
+  Stereoscopic_video_info_descriptor = 54,
+  Transport_profile_descriptor = 55,
+  HEVC_video_descriptor = 56,
+  // 57-62: Rec. ITU-T H.222.0 | ISO/IEC 13818-1 Reserved
+  Extension_descriptor = 63,
+  // 64-255: User Private
+}
+
+// A descriptor as found in a descriptor loop. Decoded fields are spread next to the raw data.
+export type Descriptor = {
+  descriptor_tag: number;
+  descriptor_length: number;
+  data: Uint8Array;
+  [field: string]: unknown;
+};
+
+// Decodes the descriptor data that follows descriptor_tag and descriptor_length
+export type DescriptorDecoder = (r: BitReader, descriptor_length: number) => object;
+
+export class DescriptorRegistry {
+  private decoders = new Map<number, DescriptorDecoder>();
+
+  register(descriptor_tag: number, decoder: DescriptorDecoder) {
+    this.decoders.set(descriptor_tag, decoder);
+    return this;
+  }
+
+  unregister(descriptor_tag: number) {
+    this.decoders.delete(descriptor_tag);
+    return this;
+  }
+
+  // A descriptor that its decoder cannot parse, such as one with a reserved bit of 0 or one shorter than its fields, is
+  // given undecoded rather than failing the table that carries it, with a warning in lenient mode
+  decode(descriptor_tag: number, data: Uint8Array, context?: SyntaxContext): Descriptor {
+    const decoder = this.decoders.get(descriptor_tag);
+    const descriptor = { descriptor_tag, descriptor_length: data.length, data };
+    if (decoder === undefined) return descriptor;
+    try {
+      return { ...decoder(new BitReader(data), data.length), ...descriptor };
+    } catch (e) {
+      if (!(e instanceof MalformedDataError || e instanceof UnimplementedReserveError || e instanceof UnexpectedEOFError)) throw e;
+      if (context?.lenient) context.recover(e, `descriptor ${descriptor_tag}`);
+      return descriptor;
+    }
+  }
+
+  // A registry starting with the same decoders, to extend without affecting this one
+  clone() {
+    const registry = new DescriptorRegistry();
+    for (const [descriptor_tag, decoder] of this.decoders) {
+      registry.register(descriptor_tag, decoder);
+    }
+    return registry;
+  }
+}
+
+// Parses a descriptor loop of the given length in bytes
+export function parse_descriptors(
+  r: BitReader, length: number, registry: DescriptorRegistry = descriptor_registry, context?: SyntaxContext,
+) {
+  const descriptors: Descriptor[] = [];
+  const _end = r.tell() + 8 * length;
+  while (r.tell() < _end) {
+    const descriptor_tag = r.uimsbf(8);
+    const descriptor_length = r.uimsbf(8);
+    descriptors.push(registry.decode(descriptor_tag, r.bytes(descriptor_length), context));
+  }
+  if (r.tell() !== _end) throw new MalformedDataError(`Descriptor loop overruns its length`);
+  return descriptors;
+}
+
+// Writes a descriptor loop from the raw data of each descriptor
+export function write_descriptors(w: BitWriter, descriptors: Descriptor[]) {
+  for (const { descriptor_tag, data } of descriptors) {
+    w.uimsbf(8, descriptor_tag);
+    w.uimsbf(8, data.length);
+    w.bytes(data);
+  }
+}
+
+function remaining_bytes(r: BitReader, descriptor_length: number) {
+  return r.bytes(descriptor_length - (r.tell() >>> 3));
+}
+
+// 2.6.2 Video stream descriptor
+export function parse_video_stream_descriptor(r: BitReader) {
+  const multiple_frame_rate_flag = r.bslbf(1) === 1;
+  const frame_rate_code = r.uimsbf(4);
+  const MPEG_1_only_flag = r.bslbf(1);
+  const constrained_parameter_flag = r.bslbf(1) === 1;
+  const still_picture_flag = r.bslbf(1) === 1;
+  const optional: {
+    profile_and_level_indication?: number;
+    chroma_format?: number;
+    frame_rate_extension_flag?: boolean;
+  } = {};
+  if (MPEG_1_only_flag === 0) {
+    optional.profile_and_level_indication = r.uimsbf(8);
+    optional.chroma_format = r.uimsbf(2);
+    optional.frame_rate_extension_flag = r.bslbf(1) === 1;
+    reserved_bits(r, 5);
+  }
+  return {
+    multiple_frame_rate_flag,
+    frame_rate_code,
+    MPEG_1_only_flag: MPEG_1_only_flag === 1,
+    constrained_parameter_flag,
+    still_picture_flag,
+    ...optional,
+  };
+}
+
+// 2.6.4 Audio stream descriptor
+export function parse_audio_stream_descriptor(r: BitReader) {
+  const free_format_flag = r.bslbf(1) === 1;
+  const ID = r.bslbf(1);
+  const layer = r.bslbf(2);
+  const variable_rate_audio_indicator = r.bslbf(1) === 1;
+  reserved_bits(r, 3);
+  return { free_format_flag, ID, layer, variable_rate_audio_indicator };
+}
+
+// 2.6.6 Hierarchy descriptor
+export function parse_hierarchy_descriptor(r: BitReader) {
+  const no_view_scalability_flag = r.bslbf(1) === 1;
+  const no_temporal_scalability_flag = r.bslbf(1) === 1;
+  const no_spatial_scalability_flag = r.bslbf(1) === 1;
+  const no_quality_scalability_flag = r.bslbf(1) === 1;
+  const hierarchy_type = r.uimsbf(4);
+  reserved_bits(r, 2);
+  const hierarchy_layer_index = r.uimsbf(6);
+  const tref_present_flag = r.bslbf(1) === 1;
+  reserved_bits(r, 1);
+  const hierarchy_embedded_layer_index = r.uimsbf(6);
+  reserved_bits(r, 2);
+  const hierarchy_channel = r.uimsbf(6);
+  return {
+    no_view_scalability_flag,
+    no_temporal_scalability_flag,
+    no_spatial_scalability_flag,
+    no_quality_scalability_flag,
+    hierarchy_type,
+    hierarchy_layer_index,
+    tref_present_flag,
+    hierarchy_embedded_layer_index,
+    hierarchy_channel,
+  };
+}
+
+// 2.6.8 Registration descriptor
+export function parse_registration_descriptor(r: BitReader, descriptor_length: number) {
+  const format_identifier = r.uimsbf(32);
+  const additional_identification_info = remaining_bytes(r, descriptor_length);
+  return { format_identifier, additional_identification_info };
+}
+
+// 2.6.10 Data stream alignment descriptor
+export function parse_data_stream_alignment_descriptor(r: BitReader) {
+  const alignment_type = r.uimsbf(8);
+  return { alignment_type };
+}
+
+// 2.6.16 Conditional access descriptor
+export function parse_CA_descriptor(r: BitReader, descriptor_length: number) {
+  const CA_system_ID = r.uimsbf(16);
+  reserved_bits(r, 3);
+  const CA_PID = r.uimsbf(13);
+  const private_data_byte = remaining_bytes(r, descriptor_length);
+  return { CA_system_ID, CA_PID, private_data_byte };
+}
+
+// 2.6.18 ISO 639 language descriptor
+export function parse_ISO_639_language_descriptor(r: BitReader, descriptor_length: number) {
+  const languages: { ISO_639_language_code: string; audio_type: number }[] = [];
+  for (let i = 0; i < descriptor_length; i += 4) {
+    const ISO_639_language_code = String.fromCharCode(...r.bytes(3));
+    const audio_type = r.uimsbf(8);
+    languages.push({ ISO_639_language_code, audio_type });
+  }
+  return { languages };
+}
+
+// 2.6.20 System clock descriptor
+export function parse_system_clock_descriptor(r: BitReader) {
+  const external_clock_reference_indicator = r.bslbf(1) === 1;
+  reserved_bits(r, 1);
+  const clock_accuracy_integer = r.uimsbf(6);
+  const clock_accuracy_exponent = r.uimsbf(3);
+  reserved_bits(r, 5);
+  return { external_clock_reference_indicator, clock_accuracy_integer, clock_accuracy_exponent };
+}
+
+// 2.6.22 Multiplex buffer utilization descriptor
+export function parse_multiplex_buffer_utilization_descriptor(r: BitReader) {
+  const bound_valid_flag = r.bslbf(1) === 1;
+  const LTW_offset_lower_bound = r.uimsbf(15);
+  reserved_bits(r, 1);
+  const LTW_offset_upper_bound = r.uimsbf(15);
+  return { bound_valid_flag, LTW_offset_lower_bound, LTW_offset_upper_bound };
+}
+
+// 2.6.24 Copyright descriptor
+export function parse_copyright_descriptor(r: BitReader, descriptor_length: number) {
+  const copyright_identifier = r.uimsbf(32);
+  const additional_copyright_info = remaining_bytes(r, descriptor_length);
+  return { copyright_identifier, additional_copyright_info };
+}
+
+// 2.6.26 Maximum bitrate descriptor
+export function parse_maximum_bitrate_descriptor(r: BitReader) {
+  reserved_bits(r, 2);
+  const maximum_bitrate = r.uimsbf(22);
+  return { maximum_bitrate };
+}
+
+// 2.6.28 Private data indicator descriptor
+export function parse_private_data_indicator_descriptor(r: BitReader) {
+  const private_data_indicator = r.uimsbf(32);
+  return { private_data_indicator };
+}
+
+// 2.6.30 Smoothing buffer descriptor
+export function parse_smoothing_buffer_descriptor(r: BitReader) {
+  reserved_bits(r, 2);
+  const sb_leak_rate = r.uimsbf(22);
+  reserved_bits(r, 2);
+  const sb_size = r.uimsbf(22);
+  return { sb_leak_rate, sb_size };
+}
+
+// 2.6.32 STD descriptor
+export function parse_STD_descriptor(r: BitReader) {
+  reserved_bits(r, 7);
+  const leak_valid_flag = r.bslbf(1) === 1;
+  return { leak_valid_flag };
+}
+
+// 2.6.34 IBP descriptor
+export function parse_IBP_descriptor(r: BitReader) {
+  const closed_gop_flag = r.bslbf(1) === 1;
+  const identical_gop_flag = r.bslbf(1) === 1;
+  const max_gop_length = r.uimsbf(14);
+  return { closed_gop_flag, identical_gop_flag, max_gop_length };
+}
+
+// 2.6.38 MPEG-4 audio descriptor
+export function parse_MPEG_4_audio_descriptor(r: BitReader) {
+  const MPEG_4_audio_profile_and_level = r.uimsbf(8);
+  return { MPEG_4_audio_profile_and_level };
+}
+
+// 2.6.64 AVC video descriptor
+export function parse_AVC_video_descriptor(r: BitReader) {
+  const profile_idc = r.uimsbf(8);
+  const constraint_set0_flag = r.bslbf(1) === 1;
+  const constraint_set1_flag = r.bslbf(1) === 1;
+  const constraint_set2_flag = r.bslbf(1) === 1;
+  const constraint_set3_flag = r.bslbf(1) === 1;
+  const constraint_set4_flag = r.bslbf(1) === 1;
+  const constraint_set5_flag = r.bslbf(1) === 1;
+  const AVC_compatible_flags = r.bslbf(2);
+  const level_idc = r.uimsbf(8);
+  const AVC_still_present = r.bslbf(1) === 1;
+  const AVC_24_hour_picture_flag = r.bslbf(1) === 1;
+  const Frame_Packing_SEI_not_present_flag = r.bslbf(1) === 1;
+  reserved_bits(r, 5);
+  return {
+    profile_idc,
+    constraint_set0_flag,
+    constraint_set1_flag,
+    constraint_set2_flag,
+    constraint_set3_flag,
+    constraint_set4_flag,
+    constraint_set5_flag,
+    AVC_compatible_flags,
+    level_idc,
+    AVC_still_present,
+    AVC_24_hour_picture_flag,
+    Frame_Packing_SEI_not_present_flag,
+  };
+}
+
+// 2.6.66 AVC timing and HRD descriptor
+export function parse_AVC_timing_and_HRD_descriptor(r: BitReader) {
+  const hrd_management_valid_flag = r.bslbf(1) === 1;
+  reserved_bits(r, 6);
+  const picture_and_timing_info_present = r.bslbf(1);
+  const optional: {
+    '90kHz_flag'?: boolean;
+    N?: number;
+    K?: number;
+    num_units_in_tick?: number;
+  } = {};
+  if (picture_and_timing_info_present === 1) {
+    const _90kHz_flag = r.bslbf(1);
+    optional['90kHz_flag'] = _90kHz_flag === 1;
+    reserved_bits(r, 7);
+    if (_90kHz_flag === 0) {
+      optional.N = r.uimsbf(32);
+      optional.K = r.uimsbf(32);
+    }
+    optional.num_units_in_tick = r.uimsbf(32);
+  }
+  const fixed_frame_rate_flag = r.bslbf(1) === 1;
+  const temporal_poc_flag = r.bslbf(1) === 1;
+  const picture_to_display_conversion_flag = r.bslbf(1) === 1;
+  reserved_bits(r, 5);
+  return {
+    hrd_management_valid_flag,
+    picture_and_timing_info_present: picture_and_timing_info_present === 1,
+    ...optional,
+    fixed_frame_rate_flag,
+    temporal_poc_flag,
+    picture_to_display_conversion_flag,
+  };
+}
+
+// 2.6.68 MPEG-2 AAC audio descriptor
+export function parse_MPEG_2_AAC_audio_descriptor(r: BitReader) {
+  const MPEG_2_AAC_profile = r.uimsbf(8);
+  const MPEG_2_AAC_channel_configuration = r.uimsbf(8);
+  const MPEG_2_AAC_additional_information = r.uimsbf(8);
+  return { MPEG_2_AAC_profile, MPEG_2_AAC_channel_configuration, MPEG_2_AAC_additional_information };
+}
+
+// 2.6.95 HEVC video descriptor
+export function parse_HEVC_video_descriptor(r: BitReader) {
+  const profile_space = r.uimsbf(2);
+  const tier_flag = r.bslbf(1);
+  const profile_idc = r.uimsbf(5);
+  const profile_compatibility_indication = r.bslbf(32);
+  const progressive_source_flag = r.bslbf(1) === 1;
+  const interlaced_source_flag = r.bslbf(1) === 1;
+  const non_packed_constraint_flag = r.bslbf(1) === 1;
+  const frame_only_constraint_flag = r.bslbf(1) === 1;
+  const copied_44bits = r.bslbf(44);
+  const level_idc = r.uimsbf(8);
+  const temporal_layer_subset_flag = r.bslbf(1);
+  const HEVC_still_present_flag = r.bslbf(1) === 1;
+  const HEVC_24hr_picture_present_flag = r.bslbf(1) === 1;
+  const sub_pic_hrd_params_not_present_flag = r.bslbf(1) === 1;
+  reserved_bits(r, 2);
+  const HDR_WCG_idc = r.uimsbf(2);
+  const optional: {
+    temporal_id_min?: number;
+    temporal_id_max?: number;
+  } = {};
+  if (temporal_layer_subset_flag === 1) {
+    optional.temporal_id_min = r.uimsbf(3);
+    reserved_bits(r, 5);
+    optional.temporal_id_max = r.uimsbf(3);
+    reserved_bits(r, 5);
+  }
+  return {
+    profile_space,
+    tier_flag,
+    profile_idc,
+    profile_compatibility_indication,
+    progressive_source_flag,
+    interlaced_source_flag,
+    non_packed_constraint_flag,
+    frame_only_constraint_flag,
+    copied_44bits,
+    level_idc,
+    temporal_layer_subset_flag: temporal_layer_subset_flag === 1,
+    HEVC_still_present_flag,
+    HEVC_24hr_picture_present_flag,
+    sub_pic_hrd_params_not_present_flag,
+    HDR_WCG_idc,
+    ...optional,
+  };
+}
+
+// 2.6.90 Extension descriptor
+export function parse_Extension_descriptor(r: BitReader, descriptor_length: number) {
+  const extension_descriptor_tag = r.uimsbf(8);
+  const extension_data = remaining_bytes(r, descriptor_length);
+  return { extension_descriptor_tag, extension_data };
+}
+
+// ETSI EN 300 468 6.2.39 Stream identifier descriptor, also used by ARIB STD-B10
+export const stream_identifier_descriptor_tag = 0x52;
+export function parse_stream_identifier_descriptor(r: BitReader) {
+  const component_tag = r.uimsbf(8);
+  return { component_tag };
+}
+
+export const descriptor_registry = new DescriptorRegistry()
+  .register(DescriptorTag.video_stream_descriptor, parse_video_stream_descriptor)
+  .register(DescriptorTag.audio_stream_descriptor, parse_audio_stream_descriptor)
+  .register(DescriptorTag.hierarchy_descriptor, parse_hierarchy_descriptor)
+  .register(DescriptorTag.registration_descriptor, parse_registration_descriptor)
+  .register(DescriptorTag.data_stream_alignment_descriptor, parse_data_stream_alignment_descriptor)
+  .register(DescriptorTag.CA_descriptor, parse_CA_descriptor)
+  .register(DescriptorTag.ISO_639_language_descriptor, parse_ISO_639_language_descriptor)
+  .register(DescriptorTag.system_clock_descriptor, parse_system_clock_descriptor)
+  .register(DescriptorTag.multiplex_buffer_utilization_descriptor, parse_multiplex_buffer_utilization_descriptor)
+  .register(DescriptorTag.copyright_descriptor, parse_copyright_descriptor)
+  .register(DescriptorTag.maximum_bitrate_descriptor, parse_maximum_bitrate_descriptor)
+  .register(DescriptorTag.private_data_indicator_descriptor, parse_private_data_indicator_descriptor)
+  .register(DescriptorTag.smoothing_buffer_descriptor, parse_smoothing_buffer_descriptor)
+  .register(DescriptorTag.STD_descriptor, parse_STD_descriptor)
+  .register(DescriptorTag.IBP_descriptor, parse_IBP_descriptor)
+  .register(DescriptorTag.MPEG_4_audio_descriptor, parse_MPEG_4_audio_descriptor)
+  .register(DescriptorTag.AVC_video_descriptor, parse_AVC_video_descriptor)
+  .register(DescriptorTag.AVC_timing_and_HRD_descriptor, parse_AVC_timing_and_HRD_descriptor)
+  .register(DescriptorTag.MPEG_2_AAC_audio_descriptor, parse_MPEG_2_AAC_audio_descriptor)
+  .register(DescriptorTag.HEVC_video_descriptor, parse_HEVC_video_descriptor)
+  .register(DescriptorTag.Extension_descriptor, parse_Extension_descriptor)
+  .register(stream_identifier_descriptor_tag, parse_stream_identifier_descriptor);
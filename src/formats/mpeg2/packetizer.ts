@@ -0,0 +1,79 @@
+// 2.4.3.2 Transport stream packet layer
+// Splits PES packets into transport stream packets of one PID, the counterpart of PESAssembler.
+
+import { PESPacket } from './pes.js';
+import { AdaptationField, TransportPacket, serialize_PES_packet, serialize_adaptation_field } from './transport_stream.js';
+
+export type PacketizeOptions = {
+  // PCR for the first packet, in units of the 27 MHz system clock
+  PCR?: number;
+  random_access_indicator?: boolean;
+  discontinuity_indicator?: boolean;
+};
+
+// 2.4.3.5 program_clock_reference_base and program_clock_reference_extension of a PCR
+function PCR_fields(PCR: number) {
+  return {
+    program_clock_reference_base: Math.floor(PCR / 300) % Math.pow(2, 33),
+    program_clock_reference_extension: PCR % 300,
+  };
+}
+
+export class PESPacketizer {
+  // continuity_counter of the last packet with payload
+  continuity_counter: number;
+
+  constructor(readonly PID: number, continuity_counter = 15) {
+    this.continuity_counter = continuity_counter;
+  }
+
+  // The transport packets carrying a PES packet, given as parsed or serialized. The first packet starts the payload unit,
+  // and carries the PCR and indicators in its adaptation field. The last packet is filled with adaptation field stuffing.
+  packetize(PES_packet: PESPacket | Uint8Array, options: PacketizeOptions = {}) {
+    const data = PES_packet instanceof Uint8Array ? PES_packet : serialize_PES_packet(PES_packet);
+    const packets: TransportPacket[] = [];
+    let adaptation_field = this.adaptation_field(options);
+    for (let offset = 0; offset < data.length || packets.length === 0;) {
+      const capacity = 184 - (adaptation_field !== undefined ? serialize_adaptation_field(adaptation_field).length : 0);
+      const data_byte = data.subarray(offset, offset + capacity);
+      offset += data_byte.length;
+      this.continuity_counter = (this.continuity_counter + 1) & 0xf;
+      packets.push({
+        transport_error_indicator: 0,
+        payload_unit_start_indicator: packets.length === 0 ? 1 : 0,
+        transport_priority: 0,
+        PID: this.PID,
+        transport_scrambling_control: 0,
+        continuity_counter: this.continuity_counter,
+        ...(adaptation_field !== undefined ? { adaptation_field } : {}),
+        data_byte,
+      });
+      adaptation_field = undefined;
+    }
+    return packets;
+  }
+
+  // A packet with only an adaptation field carrying a PCR, which does not advance the continuity_counter
+  PCR_packet(PCR: number, options: Omit<PacketizeOptions, 'PCR'> = {}): TransportPacket {
+    return {
+      transport_error_indicator: 0,
+      payload_unit_start_indicator: 0,
+      transport_priority: 0,
+      PID: this.PID,
+      transport_scrambling_control: 0,
+      continuity_counter: this.continuity_counter,
+      adaptation_field: this.adaptation_field({ ...options, PCR })!,
+    };
+  }
+
+  private adaptation_field(options: PacketizeOptions): AdaptationField | undefined {
+    if (options.PCR === undefined && !options.random_access_indicator && !options.discontinuity_indicator) return undefined;
+    return {
+      discontinuity_indicator: options.discontinuity_indicator ?? false,
+      random_access_indicator: options.random_access_indicator ?? false,
+      elementary_stream_priority_indicator: false,
+      ...(options.PCR !== undefined ? PCR_fields(options.PCR) : {}),
+    };
+  }
+}
+
@@ -0,0 +1,142 @@
+// 2.4.3.6 PES packet
+// Reassembles PES packets from the payload of transport stream packets, per PID.
+
+import { ByteReader, MemorySource } from '../../reader.js';
+import { ParseOptions, SyntaxContext } from './syntax.js';
+import { TransportPacket, parse_PES_packet } from './transport_stream.js';
+
+export type PESPacket = Awaited<ReturnType<typeof parse_PES_packet>>;
+
+interface PESState {
+  continuity_counter: number;
+  chunks?: Uint8Array[];
+  length: number;
+  // 6 bytes of header + PES_packet_length, or undefined while unknown or unbounded
+  expected?: number;
+}
+
+export class PESAssembler {
+  private states = new Map<number, PESState>();
+
+  // PSI is carried on PIDs such as 0x0000-0x000F, so only the PIDs a PMT assigns to PES streams should be selected.
+  // In lenient mode, a PES packet that cannot be parsed is dropped with a warning. The offsets of diagnostics are within
+  // the reassembled PES packet.
+  constructor(
+    private filter: (PID: number) => boolean = (PID) => PID >= 0x0010 && PID !== 0x1FFF,
+    private options: ParseOptions = {},
+  ) { }
+
+  async push(packet: TransportPacket) {
+    const packets: { PID: number; PES_packet: PESPacket }[] = [];
+    const { PID, continuity_counter, data_byte } = packet;
+    if (!this.filter(PID)) return packets;
+    let state = this.states.get(PID);
+    if (state === undefined) {
+      state = { continuity_counter, length: 0 };
+      this.states.set(PID, state);
+    } else if (data_byte !== undefined && continuity_counter === state.continuity_counter) {
+      // duplicate packet
+      return packets;
+    } else if (
+      continuity_counter !== ((state.continuity_counter + (data_byte !== undefined ? 1 : 0)) & 0xf)
+      && !packet.adaptation_field?.discontinuity_indicator
+    ) {
+      // a packet is lost, so the partial PES packet cannot be completed
+      reset(state);
+    }
+    state.continuity_counter = continuity_counter;
+    if (packet.transport_error_indicator === 1) {
+      reset(state);
+      return packets;
+    }
+    if (data_byte === undefined) return packets;
+    if (packet.payload_unit_start_indicator === 1) {
+      if (state.chunks !== undefined && state.expected === undefined && state.length >= 6) {
+        // unbounded PES packet ends where the next one starts
+        await this.complete(PID, state, packets);
+      }
+      reset(state);
+      if (data_byte.length < 3 || data_byte[0] !== 0x00 || data_byte[1] !== 0x00 || data_byte[2] !== 0x01) {
+        // not a packet_start_code_prefix, e.g. PSI sections
+        return packets;
+      }
+      state.chunks = [];
+    } else if (state.chunks === undefined) {
+      return packets;
+    }
+    state.chunks!.push(data_byte);
+    state.length += data_byte.length;
+    if (state.expected === undefined && state.length >= 6) {
+      const header = concat(state.chunks!, 6);
+      const PES_packet_length = (header[4] << 8) | header[5];
+      if (PES_packet_length !== 0) {
+        state.expected = 6 + PES_packet_length;
+      }
+    }
+    if (state.expected !== undefined && state.length >= state.expected) {
+      await this.complete(PID, state, packets);
+      reset(state);
+    }
+    return packets;
+  }
+
+  // Emits the PES packets left at the end of the stream. Only unbounded PES packets can be complete here.
+  async flush() {
+    const packets: { PID: number; PES_packet: PESPacket }[] = [];
+    for (const [PID, state] of this.states) {
+      if (state.chunks !== undefined && state.expected === undefined && state.length >= 6) {
+        await this.complete(PID, state, packets);
+      }
+      reset(state);
+    }
+    return packets;
+  }
+
+  private async complete(PID: number, state: PESState, packets: { PID: number; PES_packet: PESPacket }[]) {
+    const b = new ByteReader(new MemorySource(concat(state.chunks!, state.expected ?? state.length)));
+    try {
+      packets.push({ PID, PES_packet: await parse_PES_packet(b, this.options, PID) });
+    } catch (e) {
+      new SyntaxContext(this.options, '2.4.3.6', PID).recover(e, 'PES_packet');
+    }
+  }
+}
+
+function reset(state: PESState) {
+  state.chunks = undefined;
+  state.length = 0;
+  state.expected = undefined;
+}
+
+function concat(chunks: Uint8Array[], n: number) {
+  const buffer = new Uint8Array(n);
+  let offset = 0;
+  for (const chunk of chunks) {
+    if (offset >= n) break;
+    const len = Math.min(chunk.length, n - offset);
+    buffer.set(chunk.subarray(0, len), offset);
+    offset += len;
+  }
+  return buffer;
+}
+
+// Yields each complete PES packet with the PID that carried it
+export async function* demux_PES(
+  packets: AsyncIterable<TransportPacket>,
+  filter?: (PID: number) => boolean,
+  options?: ParseOptions,
+) {
+  const assembler = new PESAssembler(filter, options);
+  for await (const packet of packets) {
+    yield* await assembler.push(packet);
+  }
+  yield* await assembler.flush();
+}
+
+// Yields the PES packets of a stream made of PES packets one after another, up to its end. An unbounded PES packet
+// extends to the end of the stream.
+export async function* parse_PES_stream(b: ByteReader, options: ParseOptions = {}) {
+  while (!await b.eof()) {
+    yield await parse_PES_packet(b, options);
+  }
+}
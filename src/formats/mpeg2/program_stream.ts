@@ -0,0 +1,495 @@
+// 2.5.3 Specification of the program stream syntax and semantics
+
+import { BitReader, ByteReader } from '../../reader.js';
+import { BitWriter } from '../../writer.js';
+import { Descriptor, DescriptorRegistry, descriptor_registry, parse_descriptors, write_descriptors } from './descriptors.js';
+import { CRCMismatchError, crc32 } from './psi.js';
+import {
+  MalformedDataError, ParseOptions, SyntaxContext, check_constant, marker_bit, reserved_bits, stuffing_bytes,
+  write_marker_bit, write_reserved_bits, write_timestamp,
+} from './syntax.js';
+import { StreamID, parse_PES_packet } from './transport_stream.js';
+
+const pack_start_code = 0x000001BA;
+const system_header_start_code = 0x000001BB;
+const MPEG_program_end_code = 0x000001B9;
+const packet_start_code_prefix = 0x000001;
+
+// An ISO/IEC 11172-1 system stream, of which the pack headers and packets differ from those of a program stream
+export class UnsupportedSystemStreamError extends Error { }
+
+function start_code(bytes: Uint8Array) {
+  return bytes.length < 4 ? -1 : ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+}
+
+// 2.5.3.3 Pack layer of program stream. The '0010' pack header of an ISO/IEC 11172-1 system stream is not parsed.
+export async function parse_pack_header(b: ByteReader, options: ParseOptions = {}) {
+  const context = new SyntaxContext(options, '2.5.3.3');
+  const _next_bytes = await b.peek_bytes(5);
+  if (_next_bytes.length === 5 && (_next_bytes[4] & 0xF0) === 0x20) {
+    throw new UnsupportedSystemStreamError('ISO/IEC 11172-1 system streams are not supported');
+  }
+  let position = b.tell();
+  let r = context.reader(await b.bytes(14), position);
+  check_constant(r, 32, pack_start_code, context, 'pack_start_code');
+  check_constant(r, 2, 0b01, context, "'01'");
+  let system_clock_reference_base = r.bslbf(3);
+  marker_bit(r, context);
+  system_clock_reference_base = system_clock_reference_base * Math.pow(2, 15) + r.bslbf(15);
+  marker_bit(r, context);
+  system_clock_reference_base = system_clock_reference_base * Math.pow(2, 15) + r.bslbf(15);
+  marker_bit(r, context);
+  const system_clock_reference_extension = r.uimsbf(9);
+  marker_bit(r, context);
+  const program_mux_rate = r.uimsbf(22);
+  marker_bit(r, context);
+  marker_bit(r, context);
+  reserved_bits(r, 5, context);
+  const pack_stuffing_length = r.uimsbf(3);
+  position = b.tell();
+  r = context.reader(await b.bytes(pack_stuffing_length), position);
+  stuffing_bytes(r, pack_stuffing_length, context);
+  const system_header = start_code(await b.peek_bytes(4)) === system_header_start_code
+    ? await parse_system_header(b, options)
+    : undefined;
+  return {
+    system_clock_reference_base,
+    system_clock_reference_extension,
+    program_mux_rate,
+    pack_stuffing_length,
+    ...(system_header !== undefined ? { system_header } : {}),
+  };
+}
+
+export type PackHeader = Awaited<ReturnType<typeof parse_pack_header>>;
+
+// 2.5.3.3 Pack layer of program stream, including the system header if present
+export function serialize_pack_header(pack_header: PackHeader) {
+  const w = new BitWriter();
+  w.uimsbf(32, pack_start_code);
+  w.bslbf(2, 0b01);
+  write_timestamp(w, pack_header.system_clock_reference_base);
+  w.uimsbf(9, pack_header.system_clock_reference_extension);
+  write_marker_bit(w);
+  w.uimsbf(22, pack_header.program_mux_rate);
+  write_marker_bit(w);
+  write_marker_bit(w);
+  write_reserved_bits(w, 5);
+  w.uimsbf(3, pack_header.pack_stuffing_length);
+  w.bytes(new Uint8Array(pack_header.pack_stuffing_length).fill(0xff));
+  if (pack_header.system_header !== undefined) {
+    w.bytes(serialize_system_header(pack_header.system_header));
+  }
+  return w.data();
+}
+
+// 2.5.3.5 System header, with header_length computed from the streams
+export function serialize_system_header(system_header: SystemHeader) {
+  const w = new BitWriter();
+  w.uimsbf(32, system_header_start_code);
+  const header_length = 6 + system_header.streams.reduce((n, { stream_id_extension }) => n + (stream_id_extension !== undefined ? 6 : 3), 0);
+  w.uimsbf(16, header_length);
+  write_marker_bit(w);
+  w.uimsbf(22, system_header.rate_bound);
+  write_marker_bit(w);
+  w.uimsbf(6, system_header.audio_bound);
+  w.bslbf(1, system_header.fixed_flag ? 1 : 0);
+  w.bslbf(1, system_header.CSPS_flag ? 1 : 0);
+  w.bslbf(1, system_header.system_audio_lock_flag ? 1 : 0);
+  w.bslbf(1, system_header.system_video_lock_flag ? 1 : 0);
+  write_marker_bit(w);
+  w.uimsbf(5, system_header.video_bound);
+  w.bslbf(1, system_header.packet_rate_restriction_flag ? 1 : 0);
+  write_reserved_bits(w, 7);
+  for (const stream of system_header.streams) {
+    w.uimsbf(8, stream.stream_id);
+    if (stream.stream_id_extension !== undefined) {
+      w.bslbf(2, 0b11);
+      w.bslbf(7, 0b000_0000);
+      w.uimsbf(7, stream.stream_id_extension);
+      w.bslbf(8, 0b1011_0110);
+    }
+    w.bslbf(2, 0b11);
+    w.bslbf(1, stream['P-STD_buffer_bound_scale']);
+    w.uimsbf(13, stream['P-STD_buffer_size_bound']);
+  }
+  return w.data();
+}
+
+// 2.5.3.5 System header
+export async function parse_system_header(b: ByteReader, options: ParseOptions = {}) {
+  const context = new SyntaxContext(options, '2.5.3.5');
+  let position = b.tell();
+  let r = context.reader(await b.bytes(6), position);
+  check_constant(r, 32, system_header_start_code, context, 'system_header_start_code');
+  const header_length = r.uimsbf(16);
+  position = b.tell();
+  r = context.reader(await b.bytes(header_length), position);
+  marker_bit(r, context);
+  const rate_bound = r.uimsbf(22);
+  marker_bit(r, context);
+  const audio_bound = r.uimsbf(6);
+  const fixed_flag = r.bslbf(1) === 1;
+  const CSPS_flag = r.bslbf(1) === 1;
+  const system_audio_lock_flag = r.bslbf(1) === 1;
+  const system_video_lock_flag = r.bslbf(1) === 1;
+  marker_bit(r, context);
+  const video_bound = r.uimsbf(5);
+  const packet_rate_restriction_flag = r.bslbf(1) === 1;
+  reserved_bits(r, 7, context);
+  const streams: {
+    stream_id: number;
+    stream_id_extension?: number;
+    'P-STD_buffer_bound_scale': number;
+    'P-STD_buffer_size_bound': number;
+  }[] = [];
+  while (r.tell() < header_length * 8 && r.nextbits(1) === 1) {
+    const stream_id = r.uimsbf(8);
+    let stream_id_extension: number | undefined;
+    if (stream_id === 0b1011_0111) {
+      check_constant(r, 2, 0b11, context, "'11'");
+      check_constant(r, 7, 0b000_0000, context, "'000 0000'");
+      stream_id_extension = r.uimsbf(7);
+      check_constant(r, 8, 0b1011_0110, context, "'1011 0110'");
+    }
+    check_constant(r, 2, 0b11, context, "'11'");
+    const P_STD_buffer_bound_scale = r.bslbf(1);
+    const P_STD_buffer_size_bound = r.uimsbf(13);
+    streams.push({
+      stream_id,
+      ...(stream_id_extension !== undefined ? { stream_id_extension } : {}),
+      'P-STD_buffer_bound_scale': P_STD_buffer_bound_scale,
+      'P-STD_buffer_size_bound': P_STD_buffer_size_bound,
+    });
+  }
+  return {
+    header_length,
+    rate_bound,
+    audio_bound,
+    fixed_flag,
+    CSPS_flag,
+    system_audio_lock_flag,
+    system_video_lock_flag,
+    video_bound,
+    packet_rate_restriction_flag,
+    streams,
+  };
+}
+
+export type SystemHeader = Awaited<ReturnType<typeof parse_system_header>>;
+
+// 2.5.4 Program stream map
+export async function parse_program_stream_map(
+  b: ByteReader, registry: DescriptorRegistry = descriptor_registry, options: ParseOptions = {},
+) {
+  const context = new SyntaxContext(options, '2.5.4');
+  let position = b.tell();
+  const header = await b.bytes(6);
+  let r = context.reader(header, position);
+  check_constant(r, 24, packet_start_code_prefix, context, 'packet_start_code_prefix');
+  check_constant(r, 8, StreamID.program_stream_map, context, 'map_stream_id');
+  const program_stream_map_length = r.uimsbf(16);
+  if (program_stream_map_length > 0x3FA) {
+    context.violation(r, 32, 'program_stream_map_length', 'program_stream_map_length shall not exceed 1018');
+  }
+  position = b.tell();
+  const body = await b.bytes(program_stream_map_length);
+  const section = new Uint8Array(6 + program_stream_map_length);
+  section.set(header, 0);
+  section.set(body, 6);
+  if (crc32(section) !== 0) throw new CRCMismatchError('CRC_32 mismatch');
+  r = context.reader(body, position);
+  const current_next_indicator = r.bslbf(1);
+  const single_extension_stream_flag = r.bslbf(1);
+  reserved_bits(r, 1, context);
+  const program_stream_map_version = r.uimsbf(5);
+  reserved_bits(r, 7, context);
+  marker_bit(r, context);
+  const program_stream_info_length = r.uimsbf(16);
+  const descriptors = parse_descriptors(r, program_stream_info_length, registry, context);
+  const elementary_stream_map_length = r.uimsbf(16);
+  const _end = r.tell() + 8 * elementary_stream_map_length;
+  const streams: {
+    stream_type: number;
+    elementary_stream_id: number;
+    pseudo_descriptor_tag?: number;
+    elementary_stream_id_extension?: number;
+    descriptors: Descriptor[];
+  }[] = [];
+  while (r.tell() < _end) {
+    const stream_type = r.uimsbf(8);
+    const elementary_stream_id = r.uimsbf(8);
+    const elementary_stream_info_length = r.uimsbf(16);
+    if (elementary_stream_id === StreamID.extended_stream_id && single_extension_stream_flag === 0) {
+      const pseudo_descriptor_tag = r.uimsbf(8);
+      const pseudo_descriptor_length = r.uimsbf(8);
+      if (pseudo_descriptor_length !== 1) {
+        context.violation(r, r.tell() - 8, 'pseudo_descriptor_length', `Expected pseudo_descriptor_length to be 1 but got ${pseudo_descriptor_length} (tag ${pseudo_descriptor_tag})`);
+      }
+      marker_bit(r, context);
+      const elementary_stream_id_extension = r.uimsbf(7);
+      streams.push({
+        stream_type,
+        elementary_stream_id,
+        pseudo_descriptor_tag,
+        elementary_stream_id_extension,
+        descriptors: parse_descriptors(r, elementary_stream_info_length - 3, registry, context),
+      });
+    } else {
+      streams.push({
+        stream_type,
+        elementary_stream_id,
+        descriptors: parse_descriptors(r, elementary_stream_info_length, registry, context),
+      });
+    }
+  }
+  if (r.tell() !== _end) throw new MalformedDataError('Elementary stream map overruns its length');
+  const CRC_32 = r.uimsbf(32);
+  return {
+    current_next_indicator,
+    single_extension_stream_flag,
+    program_stream_map_version,
+    descriptors,
+    streams,
+    CRC_32,
+  };
+}
+
+export type ProgramStreamMap = Awaited<ReturnType<typeof parse_program_stream_map>>;
+
+// 2.5.4 Program stream map, with the lengths computed from the descriptors and CRC_32 recomputed
+export function serialize_program_stream_map(map: ProgramStreamMap) {
+  const info = new BitWriter();
+  write_descriptors(info, map.descriptors);
+  const program_stream_info = info.data();
+  const e = new BitWriter();
+  for (const stream of map.streams) {
+    const d = new BitWriter();
+    write_descriptors(d, stream.descriptors);
+    const elementary_stream_info = d.data();
+    e.uimsbf(8, stream.stream_type);
+    e.uimsbf(8, stream.elementary_stream_id);
+    if (stream.elementary_stream_id_extension !== undefined) {
+      e.uimsbf(16, 3 + elementary_stream_info.length);
+      e.uimsbf(8, stream.pseudo_descriptor_tag!);
+      e.uimsbf(8, 1);
+      write_marker_bit(e);
+      e.uimsbf(7, stream.elementary_stream_id_extension);
+    } else {
+      e.uimsbf(16, elementary_stream_info.length);
+    }
+    e.bytes(elementary_stream_info);
+  }
+  const elementary_stream_map = e.data();
+  const w = new BitWriter();
+  w.uimsbf(24, packet_start_code_prefix);
+  w.uimsbf(8, StreamID.program_stream_map);
+  w.uimsbf(16, 2 + 2 + program_stream_info.length + 2 + elementary_stream_map.length + 4);
+  w.bslbf(1, map.current_next_indicator);
+  w.bslbf(1, map.single_extension_stream_flag);
+  write_reserved_bits(w, 1);
+  w.uimsbf(5, map.program_stream_map_version);
+  write_reserved_bits(w, 7);
+  write_marker_bit(w);
+  w.uimsbf(16, program_stream_info.length);
+  w.bytes(program_stream_info);
+  w.uimsbf(16, elementary_stream_map.length);
+  w.bytes(elementary_stream_map);
+  const section = w.data();
+  w.uimsbf(32, crc32(section));
+  return w.data();
+}
+
+function offset_45(r: BitReader, context: SyntaxContext) {
+  let value = r.uimsbf(15);
+  marker_bit(r, context);
+  value = value * Math.pow(2, 15) + r.uimsbf(15);
+  marker_bit(r, context);
+  value = value * Math.pow(2, 15) + r.uimsbf(15);
+  marker_bit(r, context);
+  return value;
+}
+
+// 2.5.5 Program stream directory
+export async function parse_program_stream_directory(b: ByteReader, options: ParseOptions = {}) {
+  const context = new SyntaxContext(options, '2.5.5');
+  let position = b.tell();
+  let r = context.reader(await b.bytes(6), position);
+  check_constant(r, 24, packet_start_code_prefix, context, 'packet_start_code_prefix');
+  check_constant(r, 8, StreamID.program_stream_directory, context, 'directory_stream_id');
+  const PES_packet_length = r.uimsbf(16);
+  position = b.tell();
+  r = context.reader(await b.bytes(PES_packet_length), position);
+  const number_of_access_units = r.uimsbf(15);
+  marker_bit(r, context);
+  const previous_directory_offset = offset_45(r, context);
+  const next_directory_offset = offset_45(r, context);
+  const access_units: {
+    packet_stream_id: number;
+    PES_header_position_offset: number;
+    reference_offset: number;
+    PTS: number;
+    bytes_to_read: number;
+    intra_coded_indicator: number;
+    coding_parameters_indicator: number;
+  }[] = [];
+  for (let i = 0; i < number_of_access_units; i++) {
+    const packet_stream_id = r.uimsbf(8);
+    const PES_header_position_offset_sign = r.bslbf(1);
+    let PES_header_position_offset = r.uimsbf(14);
+    marker_bit(r, context);
+    PES_header_position_offset = PES_header_position_offset * Math.pow(2, 15) + r.uimsbf(15);
+    marker_bit(r, context);
+    PES_header_position_offset = PES_header_position_offset * Math.pow(2, 15) + r.uimsbf(15);
+    marker_bit(r, context);
+    const reference_offset = r.uimsbf(16);
+    marker_bit(r, context);
+    reserved_bits(r, 3, context);
+    let PTS = r.uimsbf(3);
+    marker_bit(r, context);
+    PTS = PTS * Math.pow(2, 15) + r.uimsbf(15);
+    marker_bit(r, context);
+    PTS = PTS * Math.pow(2, 15) + r.uimsbf(15);
+    marker_bit(r, context);
+    let bytes_to_read = r.uimsbf(15);
+    marker_bit(r, context);
+    bytes_to_read = bytes_to_read * Math.pow(2, 8) + r.uimsbf(8);
+    marker_bit(r, context);
+    const intra_coded_indicator = r.bslbf(1);
+    const coding_parameters_indicator = r.bslbf(2);
+    reserved_bits(r, 4, context);
+    access_units.push({
+      packet_stream_id,
+      PES_header_position_offset: PES_header_position_offset_sign === 1 ? -PES_header_position_offset : PES_header_position_offset,
+      reference_offset,
+      PTS,
+      bytes_to_read,
+      intra_coded_indicator,
+      coding_parameters_indicator,
+    });
+  }
+  return {
+    number_of_access_units,
+    previous_directory_offset,
+    next_directory_offset,
+    access_units,
+  };
+}
+
+export type ProgramStreamDirectory = Awaited<ReturnType<typeof parse_program_stream_directory>>;
+
+function write_offset_45(w: BitWriter, value: number) {
+  w.uimsbf(15, Math.floor(value / Math.pow(2, 30)));
+  write_marker_bit(w);
+  w.uimsbf(15, Math.floor(value / Math.pow(2, 15)) % Math.pow(2, 15));
+  write_marker_bit(w);
+  w.uimsbf(15, value % Math.pow(2, 15));
+  write_marker_bit(w);
+}
+
+// 2.5.5 Program stream directory, with PES_packet_length and number_of_access_units computed from the access units
+export function serialize_program_stream_directory(directory: ProgramStreamDirectory) {
+  const w = new BitWriter();
+  w.uimsbf(24, packet_start_code_prefix);
+  w.uimsbf(8, StreamID.program_stream_directory);
+  w.uimsbf(16, 14 + 18 * directory.access_units.length);
+  w.uimsbf(15, directory.access_units.length);
+  write_marker_bit(w);
+  write_offset_45(w, directory.previous_directory_offset);
+  write_offset_45(w, directory.next_directory_offset);
+  for (const access_unit of directory.access_units) {
+    w.uimsbf(8, access_unit.packet_stream_id);
+    const PES_header_position_offset = Math.abs(access_unit.PES_header_position_offset);
+    w.bslbf(1, access_unit.PES_header_position_offset < 0 ? 1 : 0);
+    w.uimsbf(14, Math.floor(PES_header_position_offset / Math.pow(2, 30)));
+    write_marker_bit(w);
+    w.uimsbf(15, Math.floor(PES_header_position_offset / Math.pow(2, 15)) % Math.pow(2, 15));
+    write_marker_bit(w);
+    w.uimsbf(15, PES_header_position_offset % Math.pow(2, 15));
+    write_marker_bit(w);
+    w.uimsbf(16, access_unit.reference_offset);
+    write_marker_bit(w);
+    write_reserved_bits(w, 3);
+    write_timestamp(w, access_unit.PTS);
+    w.uimsbf(15, Math.floor(access_unit.bytes_to_read / Math.pow(2, 8)));
+    write_marker_bit(w);
+    w.uimsbf(8, access_unit.bytes_to_read % Math.pow(2, 8));
+    write_marker_bit(w);
+    w.bslbf(1, access_unit.intra_coded_indicator);
+    w.bslbf(2, access_unit.coding_parameters_indicator);
+    write_reserved_bits(w, 4);
+  }
+  return w.data();
+}
+
+// Whether a start code begins a pack, a PES packet or the end of a program stream
+function is_program_stream_start_code(code: number) {
+  return code === pack_start_code || code === MPEG_program_end_code
+    || ((code >>> 8) === packet_start_code_prefix && (code & 0xff) >= StreamID.program_stream_map);
+}
+
+// Skips to the next start code of a pack, a PES packet or the end, or to the end of the stream
+async function next_start_code(b: ByteReader) {
+  for (; ;) {
+    const bytes = await b.peek_bytes(4096);
+    let i = 0;
+    while (i + 4 <= bytes.length && !is_program_stream_start_code(start_code(bytes.subarray(i)))) i++;
+    if (i + 4 <= bytes.length || bytes.length < 4) {
+      await b.skip(i + 4 <= bytes.length ? i : bytes.length);
+      return;
+    }
+    await b.skip(i);
+  }
+}
+
+// 2.5.3.1 Program stream
+// Yields the pack headers and the PES packets of each pack, until MPEG_program_end_code or the end of the stream.
+// In lenient mode, a pack header or packet that cannot be parsed is skipped up to the next start code, with a warning.
+// An ISO/IEC 11172-1 system stream is rejected in either mode.
+export async function* parse_program_stream(
+  b: ByteReader, options: ParseOptions = {}, registry: DescriptorRegistry = descriptor_registry,
+) {
+  const context = new SyntaxContext(options, '2.5.3.1');
+  for (; ;) {
+    const _next_bytes = await b.peek_bytes(4);
+    if (_next_bytes.length === 0) break;
+    const code = start_code(_next_bytes);
+    if (code === MPEG_program_end_code) {
+      await b.bytes(4);
+      break;
+    }
+    const position = b.tell();
+    let unit;
+    try {
+      if (code === pack_start_code) {
+        unit = { pack_header: await parse_pack_header(b, options) };
+      } else if (is_program_stream_start_code(code)) {
+        const stream_id = code & 0xff;
+        if (stream_id === StreamID.program_stream_map) {
+          unit = { program_stream_map: await parse_program_stream_map(b, registry, options) };
+        } else if (stream_id === StreamID.program_stream_directory) {
+          unit = { program_stream_directory: await parse_program_stream_directory(b, options) };
+        } else {
+          // 2.4.3.7 A PES_packet_length of 0 is only allowed in transport streams, and would take the rest of the stream
+          const _header = await b.peek_bytes(6);
+          if (_header.length === 6 && (_header[4] << 8 | _header[5]) === 0) {
+            const message = 'PES_packet_length 0 is not allowed in a program stream';
+            throw new MalformedDataError(message, context.diagnostic(undefined, (position + 4) * 8, 'PES_packet_length', message));
+          }
+          unit = { PES_packet: await parse_PES_packet(b, options) };
+        }
+      } else {
+        throw new MalformedDataError(`Expected a pack_start_code or a PES packet but got 0x${code.toString(16)}`);
+      }
+    } catch (e) {
+      if (e instanceof UnsupportedSystemStreamError) throw e;
+      const field = code === pack_start_code ? 'pack' : is_program_stream_start_code(code) ? 'PES_packet' : 'start_code';
+      context.recover(e, field, position);
+      // at least past the start code that failed
+      if (b.tell() === position) await b.skip(1);
+      await next_start_code(b);
+      continue;
+    }
+    yield unit;
+  }
+}
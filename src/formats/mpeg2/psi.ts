@@ -0,0 +1,442 @@
+// 2.4.4 Program specific information
+
+import { BitReader, UnexpectedEOFError } from '../../reader.js';
+import { Descriptor, DescriptorRegistry, descriptor_registry, parse_descriptors } from './descriptors.js';
+import {
+  MalformedDataError, ParseOptions, SyntaxContext, UnimplementedReserveError, check_constant, reserved_bits,
+} from './syntax.js';
+import { TransportPacket } from './transport_stream.js';
+
+export class CRCMismatchError extends MalformedDataError { }
+
+// Table 2-3 PID table
+export const enum PIDAssignment {
+  program_association_table = 0x0000,
+  conditional_access_table = 0x0001,
+  transport_stream_description_table = 0x0002,
+  IPMP_control_information_table = 0x0003,
+  adaptive_streaming_information = 0x0004,
+  // 0x0005-0x000F: Reserved
+  // 0x0010-0x1FFE: May be assigned as network_PID, program_map_PID, elementary_PID, or for other purposes
+  null_packet = 0x1FFF,
+}
+
+// Table 2-31 table_id assignment values
+export const enum TableID {
+  program_association_section = 0x00,
+  conditional_access_section = 0x01,
+  TS_program_map_section = 0x02,
+  TS_description_section = 0x03,
+  ISO_IEC_14496_scene_description_section = 0x04,
+  ISO_IEC_14496_object_descriptor_section = 0x05,
+  metadata_section = 0x06,
+  IPMP_control_information_section = 0x07,
+  ISO_IEC_14496_section = 0x08,
+  ISO_IEC_23001_11_section = 0x09,
+  ISO_ISO_23001_10_section = 0x0A,
+  // 0x0B-0x37: Rec. ITU-T H.222.0 | ISO/IEC 13818-1 reserved
+  // 0x38-0x3F: Defined in ISO/IEC 13818-6
+  // 0x40-0xFE: User private
+  forbidden = 0xFF,
+}
+
+// Table 2-34 Stream type assignments
+export const enum StreamType {
+  // 0x00: Rec. ITU-T | ISO/IEC Reserved
+  ISO_IEC_11172_2_video = 0x01,
+  H_262_video = 0x02, // Rec. ITU-T H.262 | ISO/IEC 13818-2 Video or ISO/IEC 11172-2 constrained parameter video stream
+  ISO_IEC_11172_3_audio = 0x03,
+  ISO_IEC_13818_3_audio = 0x04,
+  private_sections = 0x05, // Rec. ITU-T H.222.0 | ISO/IEC 13818-1 private_sections
+  PES_private_data = 0x06, // Rec. ITU-T H.222.0 | ISO/IEC 13818-1 PES packets containing private data
+  ISO_IEC_13522_MHEG = 0x07,
+  DSMCC = 0x08, // Rec. ITU-T H.222.0 | ISO/IEC 13818-1 Annex A DSM-CC
+  H_222_1 = 0x09,
+  ISO_IEC_13818_6_type_A = 0x0A,
+  ISO_IEC_13818_6_type_B = 0x0B,
+  ISO_IEC_13818_6_type_C = 0x0C,
+  ISO_IEC_13818_6_type_D = 0x0D,
+  auxiliary = 0x0E, // Rec. ITU-T H.222.0 | ISO/IEC 13818-1 auxiliary
+  ISO_IEC_13818_7_audio_ADTS = 0x0F,
+  ISO_IEC_14496_2_visual = 0x10,
+  ISO_IEC_14496_3_audio_LATM = 0x11,
+  ISO_IEC_14496_1_SL_packetized_stream_in_PES = 0x12,
+  ISO_IEC_14496_1_SL_packetized_stream_in_sections = 0x13,
+  ISO_IEC_13818_6_synchronized_download_protocol = 0x14,
+  metadata_in_PES = 0x15,
+  metadata_in_metadata_sections = 0x16,
+  metadata_in_data_carousel = 0x17,
+  metadata_in_object_carousel = 0x18,
+  metadata_in_synchronized_download_protocol = 0x19,
+  IPMP_stream = 0x1A,
+  H_264_video = 0x1B, // AVC video stream conforming to one or more profiles defined in Annex A of Rec. ITU-T H.264 | ISO/IEC 14496-10
+  ISO_IEC_14496_3_audio = 0x1C, // without using any additional transport syntax
+  ISO_IEC_14496_17_text = 0x1D,
+  ISO_IEC_23002_3_auxiliary_video = 0x1E,
+  H_264_SVC = 0x1F,
+  H_264_MVC = 0x20,
+  JPEG_2000_video = 0x21,
+  H_262_additional_view = 0x22,
+  H_264_additional_view = 0x23,
+  H_265_video = 0x24,
+  H_265_temporal_video_subset = 0x25,
+  H_264_MVCD = 0x26,
+  timeline_and_external_media_information = 0x27,
+  ISO_IEC_23008_3_audio_main = 0x2D,
+  ISO_IEC_23008_3_audio_auxiliary = 0x2E,
+  JPEG_XS_video = 0x32,
+  H_266_video = 0x33,
+  H_266_temporal_video_subset = 0x34,
+  ISO_IEC_23094_1_EVC = 0x35,
+  // 0x36-0x7E: Rec. ITU-T H.222.0 | ISO/IEC 13818-1 Reserved
+  IPMP = 0x7F,
+  // 0x80-0xFF: User Private
+}
+
+// Annex A CRC decoder model
+const crc_table = new Uint32Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc = i << 24;
+  for (let j = 0; j < 8; j++) {
+    crc = crc & 0x80000000 ? (crc << 1) ^ 0x04C11DB7 : crc << 1;
+  }
+  crc_table[i] = crc >>> 0;
+}
+
+export function crc32(data: Uint8Array) {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = (crc << 8) ^ crc_table[((crc >>> 24) ^ data[i]) & 0xff];
+  }
+  return crc >>> 0;
+}
+
+// 2.4.4.2 Semantic definition of fields in pointer syntax
+// Reassembles PSI sections from the payload of transport stream packets, per PID.
+export class SectionAssembler {
+  private states = new Map<number, { continuity_counter: number; pending?: Uint8Array }>();
+
+  constructor(private filter: (PID: number) => boolean = () => true) { }
+
+  push(packet: TransportPacket) {
+    const sections: Uint8Array[] = [];
+    const { PID, continuity_counter, data_byte } = packet;
+    if (!this.filter(PID)) return sections;
+    let state = this.states.get(PID);
+    if (state === undefined) {
+      state = { continuity_counter };
+      this.states.set(PID, state);
+    } else if (data_byte !== undefined && continuity_counter === state.continuity_counter) {
+      // duplicate packet
+      return sections;
+    } else if (
+      continuity_counter !== ((state.continuity_counter + (data_byte !== undefined ? 1 : 0)) & 0xf)
+      && !packet.adaptation_field?.discontinuity_indicator
+    ) {
+      state.pending = undefined;
+    }
+    state.continuity_counter = continuity_counter;
+    if (packet.transport_error_indicator === 1) {
+      state.pending = undefined;
+      return sections;
+    }
+    if (data_byte === undefined || packet.transport_scrambling_control !== 0b00) return sections;
+    if (packet.payload_unit_start_indicator === 1) {
+      const pointer_field = data_byte[0];
+      if (1 + pointer_field > data_byte.length) {
+        state.pending = undefined;
+        return sections;
+      }
+      if (state.pending !== undefined) {
+        state.pending = concat(state.pending, data_byte.subarray(1, 1 + pointer_field));
+        this.extract(state, sections);
+      }
+      state.pending = data_byte.subarray(1 + pointer_field);
+    } else if (state.pending !== undefined) {
+      state.pending = concat(state.pending, data_byte);
+    } else {
+      return sections;
+    }
+    this.extract(state, sections);
+    return sections;
+  }
+
+  private extract(state: { pending?: Uint8Array }, sections: Uint8Array[]) {
+    let pending = state.pending;
+    while (pending !== undefined && pending.length >= 3) {
+      if (pending[0] === TableID.forbidden) {
+        // stuffing bytes until the end of the packet
+        pending = undefined;
+        break;
+      }
+      const section_length = ((pending[1] & 0x0f) << 8) | pending[2];
+      if (pending.length < 3 + section_length) break;
+      sections.push(pending.slice(0, 3 + section_length));
+      pending = pending.subarray(3 + section_length);
+    }
+    state.pending = pending !== undefined && pending.length > 0 ? pending : undefined;
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array) {
+  const merged = new Uint8Array(a.length + b.length);
+  merged.set(a, 0);
+  merged.set(b, a.length);
+  return merged;
+}
+
+// 2.4.4.3 Program association table / 2.4.4.9 Program map table / 2.4.4.6 Conditional access table
+// Common header of the long form private_section syntax. Service information tables of other standards set the bit
+// after section_syntax_indicator to 1.
+export function parse_section_header(section: Uint8Array, max_section_length: number, private_indicator = 0, context?: SyntaxContext) {
+  if (crc32(section) !== 0) throw new CRCMismatchError('CRC_32 mismatch');
+  const r = new BitReader(section);
+  const table_id = r.uimsbf(8);
+  const section_syntax_indicator = r.bslbf(1);
+  if (section_syntax_indicator !== 1) throw new MalformedDataError('Expected section_syntax_indicator to be 1');
+  check_constant(r, 1, private_indicator, context, 'private_indicator');
+  reserved_bits(r, 2, context);
+  const section_length = r.uimsbf(12);
+  if (section_length > max_section_length) {
+    throw new MalformedDataError(`section_length shall not exceed ${max_section_length}`);
+  }
+  if (3 + section_length !== section.length) throw new MalformedDataError('Section length mismatch');
+  const table_id_extension = r.uimsbf(16);
+  reserved_bits(r, 2, context);
+  const version_number = r.uimsbf(5);
+  const current_next_indicator = r.bslbf(1);
+  const section_number = r.uimsbf(8);
+  const last_section_number = r.uimsbf(8);
+  return [r, {
+    table_id,
+    section_length,
+    table_id_extension,
+    version_number,
+    current_next_indicator,
+    section_number,
+    last_section_number,
+  }] as const;
+}
+
+// End of the section data, before CRC_32
+export function section_end(section: Uint8Array) {
+  return (section.length - 4) * 8;
+}
+
+// 2.4.4.3 Program association table
+export function parse_program_association_section(section: Uint8Array, options: ParseOptions = {}, PID?: number) {
+  const context = new SyntaxContext(options, '2.4.4.3', PID);
+  const [r, header] = parse_section_header(section, 1021, 0, context);
+  if (header.table_id !== TableID.program_association_section) {
+    throw new MalformedDataError(`Expected table_id ${TableID.program_association_section} but got ${header.table_id}`);
+  }
+  const programs: ({ program_number: 0; network_PID: number } | { program_number: number; program_map_PID: number })[] = [];
+  while (r.tell() < section_end(section)) {
+    const program_number = r.uimsbf(16);
+    reserved_bits(r, 3, context);
+    const PID = r.uimsbf(13);
+    if (program_number === 0) {
+      programs.push({ program_number, network_PID: PID });
+    } else {
+      programs.push({ program_number, program_map_PID: PID });
+    }
+  }
+  return {
+    table_id: TableID.program_association_section as const,
+    transport_stream_id: header.table_id_extension,
+    version_number: header.version_number,
+    current_next_indicator: header.current_next_indicator,
+    section_number: header.section_number,
+    last_section_number: header.last_section_number,
+    programs,
+    CRC_32: r.uimsbf(32),
+  };
+}
+
+// 2.4.4.6 Conditional access table
+export function parse_CA_section(
+  section: Uint8Array, registry: DescriptorRegistry = descriptor_registry, options: ParseOptions = {}, PID?: number,
+) {
+  const context = new SyntaxContext(options, '2.4.4.6', PID);
+  const [r, header] = parse_section_header(section, 1021, 0, context);
+  if (header.table_id !== TableID.conditional_access_section) {
+    throw new MalformedDataError(`Expected table_id ${TableID.conditional_access_section} but got ${header.table_id}`);
+  }
+  // table_id_extension is reserved
+  const descriptors = parse_descriptors(r, section_end(section) / 8 - (r.tell() >>> 3), registry, context);
+  return {
+    table_id: TableID.conditional_access_section as const,
+    version_number: header.version_number,
+    current_next_indicator: header.current_next_indicator,
+    section_number: header.section_number,
+    last_section_number: header.last_section_number,
+    descriptors,
+    CRC_32: r.uimsbf(32),
+  };
+}
+
+// 2.4.4.9 Program map table
+export function parse_TS_program_map_section(
+  section: Uint8Array, registry: DescriptorRegistry = descriptor_registry, options: ParseOptions = {}, PID?: number,
+) {
+  const context = new SyntaxContext(options, '2.4.4.9', PID);
+  const [r, header] = parse_section_header(section, 1021, 0, context);
+  if (header.table_id !== TableID.TS_program_map_section) {
+    throw new MalformedDataError(`Expected table_id ${TableID.TS_program_map_section} but got ${header.table_id}`);
+  }
+  reserved_bits(r, 3, context);
+  const PCR_PID = r.uimsbf(13);
+  reserved_bits(r, 4, context);
+  check_constant(r, 2, 0b00, context, 'program_info_length');
+  const program_info_length = r.uimsbf(10);
+  const descriptors = parse_descriptors(r, program_info_length, registry, context);
+  const streams: {
+    stream_type: number;
+    elementary_PID: number;
+    descriptors: Descriptor[];
+  }[] = [];
+  while (r.tell() < section_end(section)) {
+    const stream_type = r.uimsbf(8);
+    reserved_bits(r, 3, context);
+    const elementary_PID = r.uimsbf(13);
+    reserved_bits(r, 4, context);
+    check_constant(r, 2, 0b00, context, 'ES_info_length');
+    const ES_info_length = r.uimsbf(10);
+    streams.push({ stream_type, elementary_PID, descriptors: parse_descriptors(r, ES_info_length, registry, context) });
+  }
+  return {
+    table_id: TableID.TS_program_map_section as const,
+    program_number: header.table_id_extension,
+    version_number: header.version_number,
+    current_next_indicator: header.current_next_indicator,
+    section_number: header.section_number,
+    last_section_number: header.last_section_number,
+    PCR_PID,
+    descriptors,
+    streams,
+    CRC_32: r.uimsbf(32),
+  };
+}
+
+export type ProgramAssociationSection = ReturnType<typeof parse_program_association_section>;
+export type CASection = ReturnType<typeof parse_CA_section>;
+export type TSProgramMapSection = ReturnType<typeof parse_TS_program_map_section>;
+type PSISection = ProgramAssociationSection | CASection | TSProgramMapSection;
+
+// A complete table: every section from 0 to last_section_number of one version_number
+export type PSITable =
+  | { PID: number; table_id: TableID.program_association_section; transport_stream_id: number; version_number: number; current_next_indicator: number; programs: ProgramAssociationSection['programs'] }
+  | { PID: number; table_id: TableID.conditional_access_section; version_number: number; current_next_indicator: number; descriptors: Descriptor[] }
+  | { PID: number; table_id: TableID.TS_program_map_section; program_number: number; version_number: number; current_next_indicator: number; PCR_PID: number; descriptors: Descriptor[]; streams: TSProgramMapSection['streams'] };
+
+function merge_sections(PID: number, sections: PSISection[]): PSITable {
+  const first = sections[0];
+  switch (first.table_id) {
+    case TableID.program_association_section:
+      return {
+        PID,
+        table_id: first.table_id,
+        transport_stream_id: first.transport_stream_id,
+        version_number: first.version_number,
+        current_next_indicator: first.current_next_indicator,
+        programs: ([] as ProgramAssociationSection['programs']).concat(...(sections as ProgramAssociationSection[]).map((section) => section.programs)),
+      };
+    case TableID.conditional_access_section:
+      return {
+        PID,
+        table_id: first.table_id,
+        version_number: first.version_number,
+        current_next_indicator: first.current_next_indicator,
+        descriptors: ([] as Descriptor[]).concat(...(sections as CASection[]).map((section) => section.descriptors)),
+      };
+    case TableID.TS_program_map_section:
+      return {
+        PID,
+        table_id: first.table_id,
+        program_number: first.program_number,
+        version_number: first.version_number,
+        current_next_indicator: first.current_next_indicator,
+        PCR_PID: first.PCR_PID,
+        descriptors: first.descriptors,
+        streams: ([] as TSProgramMapSection['streams']).concat(...(sections as TSProgramMapSection[]).map((section) => section.streams)),
+      };
+  }
+}
+
+// Skips a section that cannot be parsed, such as one with a CRC_32 mismatch, a reserved bit of 0 or a descriptor loop
+// that overruns the section: with a warning in lenient mode, and in strict mode where the error is of the section
+// rather than of the parser.
+export function skip_section(e: unknown, options: ParseOptions, PID: number) {
+  if (options.mode === 'lenient') {
+    new SyntaxContext(options, '2.4.4', PID).recover(e, 'section');
+  } else if (!(e instanceof MalformedDataError || e instanceof UnimplementedReserveError || e instanceof UnexpectedEOFError)) {
+    throw e;
+  }
+}
+
+// Yields each PAT, CAT and PMT once per version_number, after all of its sections have been received.
+// Sections that cannot be parsed are discarded. PMT PIDs are followed from the current PAT.
+export async function* parse_PSI(
+  packets: AsyncIterable<TransportPacket>, registry: DescriptorRegistry = descriptor_registry, options: ParseOptions = {},
+) {
+  const program_map_PIDs = new Map<number, number>(); // PID -> program_number
+  const assembler = new SectionAssembler((PID) =>
+    PID === PIDAssignment.program_association_table
+    || PID === PIDAssignment.conditional_access_table
+    || program_map_PIDs.has(PID));
+  const tables = new Map<string, {
+    version_number: number;
+    sections: (PSISection | undefined)[];
+    complete: boolean;
+  }>();
+  for await (const packet of packets) {
+    for (const bytes of assembler.push(packet)) {
+      let section: PSISection;
+      try {
+        switch (bytes[0]) {
+          case TableID.program_association_section:
+            if (packet.PID !== PIDAssignment.program_association_table) continue;
+            section = parse_program_association_section(bytes, options, packet.PID);
+            break;
+          case TableID.conditional_access_section:
+            if (packet.PID !== PIDAssignment.conditional_access_table) continue;
+            section = parse_CA_section(bytes, registry, options, packet.PID);
+            break;
+          case TableID.TS_program_map_section:
+            if (!program_map_PIDs.has(packet.PID)) continue;
+            section = parse_TS_program_map_section(bytes, registry, options, packet.PID);
+            break;
+          default:
+            continue;
+        }
+      } catch (e) {
+        skip_section(e, options, packet.PID);
+        continue;
+      }
+      const key = `${packet.PID}:${section.table_id}:${section.table_id === TableID.TS_program_map_section ? section.program_number : 0}:${section.current_next_indicator}`;
+      let table = tables.get(key);
+      if (table === undefined || table.version_number !== section.version_number || table.sections.length !== section.last_section_number + 1) {
+        table = {
+          version_number: section.version_number,
+          sections: new Array(section.last_section_number + 1).fill(undefined),
+          complete: false,
+        };
+        tables.set(key, table);
+      }
+      if (table.complete || section.section_number >= table.sections.length) continue;
+      table.sections[section.section_number] = section;
+      if (table.sections.some((section) => section === undefined)) continue;
+      table.complete = true;
+      const merged = merge_sections(packet.PID, table.sections as PSISection[]);
+      if (merged.table_id === TableID.program_association_section && merged.current_next_indicator === 1) {
+        program_map_PIDs.clear();
+        for (const program of merged.programs) {
+          if ('program_map_PID' in program) {
+            program_map_PIDs.set(program.program_map_PID, program.program_number);
+          }
+        }
+      }
+      yield merged;
+    }
+  }
+}
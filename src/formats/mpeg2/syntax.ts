@@ -0,0 +1,172 @@
+// 2.4.3 Syntax elements shared by the transport stream, program stream and PSI
+
+import { BitReader, UnexpectedEOFError } from '../../reader.js';
+import { BitWriter } from '../../writer.js';
+
+// A violation of the syntax, with where it is. byte_offset and bit_offset are positions in the source read, of the
+// first bit of the field. packet_index is the index from 0 of the packet of the field in a transport stream.
+export type Diagnostic = {
+  clause: string;
+  field: string;
+  message: string;
+  PID?: number;
+  packet_index?: number;
+  byte_offset?: number;
+  bit_offset?: number;
+};
+
+function describe(diagnostic: Diagnostic) {
+  const { clause, field, PID, byte_offset } = diagnostic;
+  return `${diagnostic.message} (${clause} ${field}${PID !== undefined ? `, PID 0x${PID.toString(16).padStart(4, '0')}` : ''}${byte_offset !== undefined ? `, byte ${byte_offset}` : ''})`;
+}
+
+export class MalformedDataError extends Error {
+  constructor(message?: string, readonly diagnostic?: Diagnostic) {
+    super(diagnostic !== undefined ? describe(diagnostic) : message);
+  }
+}
+
+export class UnimplementedReserveError extends Error {
+  constructor(message?: string, readonly diagnostic?: Diagnostic) {
+    super(diagnostic !== undefined ? describe(diagnostic) : message);
+  }
+}
+
+export type ParseOptions = {
+  // 'strict', the default, throws on the first violation of the syntax. 'lenient' gives violations to on_warning and
+  // carries on where the syntax allows: fields are kept as read, and a packet that cannot be parsed is skipped.
+  mode?: 'strict' | 'lenient';
+  on_warning?: (warning: Diagnostic) => void;
+};
+
+// The clause, PID and position of the fields being read, for the diagnostics of their violations
+export class SyntaxContext {
+  // position in the source of the first byte of each reader
+  private positions = new WeakMap<BitReader, number>();
+
+  constructor(private options: ParseOptions = {}, public clause: string, public PID?: number) { }
+
+  get lenient() {
+    return this.options.mode === 'lenient';
+  }
+
+  // A BitReader of bytes at a position of the source
+  reader(bytes: Uint8Array, position: number) {
+    const r = new BitReader(bytes);
+    this.positions.set(r, position);
+    return r;
+  }
+
+  // Without a reader, bit is the position in bits in the source
+  diagnostic(r: BitReader | undefined, bit: number, field: string, message: string): Diagnostic {
+    const position = r !== undefined ? this.positions.get(r) : 0;
+    const bit_offset = position !== undefined ? position * 8 + bit : undefined;
+    return {
+      clause: this.clause,
+      field,
+      message,
+      ...(this.PID !== undefined ? { PID: this.PID } : {}),
+      ...(bit_offset !== undefined ? { byte_offset: Math.floor(bit_offset / 8), bit_offset } : {}),
+    };
+  }
+
+  // Throws, or gives a warning in lenient mode, for a violation at a bit position of a reader
+  violation(r: BitReader | undefined, bit: number, field: string, message: string, error: typeof MalformedDataError | typeof UnimplementedReserveError = MalformedDataError) {
+    const diagnostic = this.diagnostic(r, bit, field, message);
+    if (!this.lenient) throw new error(message, diagnostic);
+    this.options.on_warning?.(diagnostic);
+  }
+
+  // Gives a warning in lenient mode for an error that ends the parsing of a syntax structure, such as a packet that is
+  // then skipped, or rethrows it. The position of the structure is given where the error has none.
+  recover(e: unknown, field: string, position?: number) {
+    if (!this.lenient || !(e instanceof Error)) throw e;
+    let diagnostic = e instanceof MalformedDataError || e instanceof UnimplementedReserveError ? e.diagnostic : undefined;
+    if (diagnostic === undefined) {
+      const byte_offset = e instanceof UnexpectedEOFError && e.position !== undefined ? e.position : position;
+      diagnostic = {
+        clause: this.clause,
+        field,
+        message: e.message,
+        ...(this.PID !== undefined ? { PID: this.PID } : {}),
+        ...(byte_offset !== undefined ? { byte_offset, bit_offset: byte_offset * 8 } : {}),
+      };
+    }
+    this.options.on_warning?.(diagnostic);
+  }
+}
+
+function violation(
+  context: SyntaxContext | undefined, r: BitReader, bit: number, field: string, message: string,
+  error: typeof MalformedDataError | typeof UnimplementedReserveError = MalformedDataError,
+) {
+  if (context === undefined) throw new error(message);
+  context.violation(r, bit, field, message, error);
+}
+
+export function marker_bit(r: BitReader, context?: SyntaxContext) {
+  const bit = r.tell();
+  if (r.bslbf(1) !== 1) violation(context, r, bit, 'marker_bit', 'Expected marker bit to be 1');
+}
+
+// 2.1.131 reserved
+export function reserved_bits(r: BitReader, n: number, context?: SyntaxContext) {
+  for (let i = 0; i < n; i++) {
+    const bit = r.tell();
+    if (r.bslbf(1) !== 1) {
+      violation(context, r, bit, 'reserved', 'Expected reserve bits to be 1', UnimplementedReserveError);
+      r.skip(n - i - 1);
+      return;
+    }
+  }
+}
+
+export function stuffing_bytes(r: BitReader, n: number, context?: SyntaxContext) {
+  const bit = r.tell();
+  const bytes = r.bytes(n);
+  for (let i = 0; i < n; i++) {
+    if (bytes[i] !== 0xff) {
+      violation(context, r, bit + 8 * i, 'stuffing_byte', 'Expected stuffing byte to be 0xff');
+      return;
+    }
+  }
+}
+
+export function padding_bytes(r: BitReader, n: number, context?: SyntaxContext) {
+  const bit = r.tell();
+  const bytes = r.bytes(n);
+  for (let i = 0; i < n; i++) {
+    if (bytes[i] !== 0xff) {
+      violation(context, r, bit + 8 * i, 'padding_byte', 'Expected padding byte to be 0xff');
+      return;
+    }
+  }
+}
+
+export function check_constant(r: BitReader, n: number, value: number, context?: SyntaxContext, field = 'constant') {
+  const bit = r.tell();
+  const _value = r.bslbf(n);
+  if (_value !== value) violation(context, r, bit, field, `Expected ${value} but got ${_value}`);
+}
+
+export function write_marker_bit(w: BitWriter) {
+  w.bslbf(1, 1);
+}
+
+export function write_reserved_bits(w: BitWriter, n: number) {
+  for (let i = 0; i < n; i++) w.bslbf(1, 1);
+}
+
+export function write_stuffing_bytes(w: BitWriter, n: number) {
+  w.bytes(new Uint8Array(n).fill(0xff));
+}
+
+// A 33 bit PTS, DTS or clock reference base, as 3, 15 and 15 bits each followed by a marker bit
+export function write_timestamp(w: BitWriter, value: number) {
+  w.bslbf(3, Math.floor(value / Math.pow(2, 30)) % 8);
+  write_marker_bit(w);
+  w.bslbf(15, Math.floor(value / Math.pow(2, 15)) % Math.pow(2, 15));
+  write_marker_bit(w);
+  w.bslbf(15, value % Math.pow(2, 15));
+  write_marker_bit(w);
+}
@@ -1,48 +1,32 @@
 // 2.4.3 Specification of the transport stream syntax and semantics
 
-import { BitReader, ByteReader } from '../../reader.js';
-import { parse_af_descriptor } from './af_descriptor.js';
+import { BitReader, ByteReader, MemorySource } from '../../reader.js';
+import { BitWriter } from '../../writer.js';
+import { af_descriptor_registry, parse_af_descriptors } from './af_descriptor.js';
+import { Descriptor, write_descriptors } from './descriptors.js';
+import { PackHeader, parse_pack_header, serialize_pack_header } from './program_stream.js';
+import {
+  Diagnostic, MalformedDataError, ParseOptions, SyntaxContext, UnimplementedReserveError, check_constant, marker_bit,
+  padding_bytes, reserved_bits, stuffing_bytes, write_marker_bit, write_reserved_bits, write_timestamp,
+} from './syntax.js';
 
-const sync_byte = 0x47;
-
-export class MalformedDataError extends Error { }
-export class UnimplementedReserveError extends Error { }
-
-function marker_bit(r: BitReader) {
-  if (r.bslbf(1) !== 1) throw new MalformedDataError('Expected marker bit to be 1');
-}
+export { MalformedDataError, UnimplementedReserveError };
+export type { Diagnostic, ParseOptions } from './syntax.js';
 
-// 2.1.131 reserved
-function reserved_bits(r: BitReader, n: number) {
-  for (let i = 0; i < n; i++) {
-    if (r.bslbf(1) !== 1) throw new UnimplementedReserveError('Expected reserve bits to be 1');
-  }
-}
-
-function stuffing_bytes(r: BitReader, n: number) {
-  const bytes = r.bytes(n);
-  for (let i = 0; i < n; i++) {
-    if (bytes[i] !== 0xff) throw new MalformedDataError('Expected stuffing byte to be 0xff');
-  }
-}
+const sync_byte = 0x47;
 
-function padding_bytes(r: BitReader, n: number) {
-  const bytes = r.bytes(n);
-  for (let i = 0; i < n; i++) {
-    if (bytes[i] !== 0xff) throw new MalformedDataError('Expected padding byte to be 0xff');
+// 2.4.3.4 Adaptation field, with the PID of the packet carrying it for diagnostics. An adaptation_field_length over
+// max_length, the rest of the packet, is a violation, and in lenient mode only the rest of the packet is read.
+export async function parse_adaptation_field(b: ByteReader, options: ParseOptions = {}, PID?: number, max_length = 183) {
+  const context = new SyntaxContext(options, '2.4.3.4', PID);
+  const position = b.tell();
+  let adaptation_field_length = await b.byte(); // uismbf
+  if (adaptation_field_length > max_length) {
+    context.violation(undefined, position * 8, 'adaptation_field_length', `adaptation_field_length ${adaptation_field_length} exceeds ${max_length}`);
+    adaptation_field_length = max_length;
   }
-}
-
-function check_constant(r: BitReader, n: number, value: number) {
-  const _value = r.bslbf(n);
-  if (_value !== value) throw new MalformedDataError(`Expected ${value} but got ${_value}`);
-}
-
-// 2.4.3.4 Adaptation field
-export async function parse_adaptation_field(b: ByteReader) {
-  const adaptation_field_length = await b.byte(); // uismbf
-  if (adaptation_field_length === 0) return;
-  const r = new BitReader(await b.bytes(adaptation_field_length));
+  if (adaptation_field_length === 0) return [adaptation_field_length, undefined] as const;
+  const r = context.reader(await b.bytes(adaptation_field_length), position + 1);
   const _start = r.tell();
   const discontinuity_indicator = r.bslbf(1) === 1;
   const random_access_indicator = r.bslbf(1) === 1;
@@ -59,20 +43,22 @@ export async function parse_adaptation_field(b: ByteReader) {
     original_program_clock_reference_extension?: number;
     splice_countdown?: number;
     private_data?: Uint8Array;
+    adaptation_field_extension_length?: number;
     ltw_valid_flag?: boolean;
     ltw_offset?: number;
     piecewise_rate?: number;
     Splice_type?: number;
     DTS_next_AU?: number;
+    af_descriptors?: Descriptor[];
   } = {};
   if (PCR_flag === 1) {
     optional.program_clock_reference_base = r.uimsbf(33);
-    reserved_bits(r, 6);
+    reserved_bits(r, 6, context);
     optional.program_clock_reference_extension = r.uimsbf(9);
   }
   if (OPCR_flag === 1) {
     optional.original_program_clock_reference_base = r.uimsbf(33);
-    reserved_bits(r, 6);
+    reserved_bits(r, 6, context);
     optional.original_program_clock_reference_extension = r.uimsbf(9);
   }
   if (splicing_point_flag === 1) {
@@ -84,39 +70,40 @@ export async function parse_adaptation_field(b: ByteReader) {
   }
   if (adaptation_field_extension_flag === 1) {
     const adaptation_field_extension_length = r.uimsbf(8);
+    optional.adaptation_field_extension_length = adaptation_field_extension_length;
     const _start = r.tell();
     const ltw_flag = r.bslbf(1);
     const piecewise_rate_flag = r.bslbf(1);
     const seamless_splice_flag = r.bslbf(1);
     const af_descriptor_not_present_flag = r.bslbf(1);
-    reserved_bits(r, 4);
+    reserved_bits(r, 4, context);
     if (ltw_flag === 1) {
       optional.ltw_valid_flag = r.bslbf(1) === 1;
       optional.ltw_offset = r.uimsbf(15);
     }
     if (piecewise_rate_flag === 1) {
-      reserved_bits(r, 2);
+      reserved_bits(r, 2, context);
       optional.piecewise_rate = r.uimsbf(22);
     }
     if (seamless_splice_flag === 1) {
       optional.Splice_type = r.bslbf(4);
-      optional.DTS_next_AU = r.bslbf(3);
-      marker_bit(r);
-      optional.DTS_next_AU = optional.DTS_next_AU * Math.pow(2, 15) + r.bslbf(15);
-      marker_bit(r);
-      optional.DTS_next_AU = optional.DTS_next_AU * Math.pow(2, 15) + r.bslbf(15);
-      marker_bit(r);
+      let DTS_next_AU = r.bslbf(3);
+      marker_bit(r, context);
+      DTS_next_AU = DTS_next_AU * Math.pow(2, 15) + r.bslbf(15);
+      marker_bit(r, context);
+      DTS_next_AU = DTS_next_AU * Math.pow(2, 15) + r.bslbf(15);
+      marker_bit(r, context);
+      optional.DTS_next_AU = DTS_next_AU;
     }
     if (af_descriptor_not_present_flag === 0) {
-      // TODO: parse descriptor
-      for (; ;) {
-        parse_af_descriptor();
-      }
+      optional.af_descriptors = parse_af_descriptors(
+        r, adaptation_field_extension_length - ((r.tell() - _start) >>> 3), af_descriptor_registry, context,
+      );
     } else {
-      reserved_bits(r, 8 * adaptation_field_extension_length - (r.tell() - _start));
+      reserved_bits(r, 8 * adaptation_field_extension_length - (r.tell() - _start), context);
     }
   }
-  stuffing_bytes(r, adaptation_field_length - (r.tell() - _start));
+  stuffing_bytes(r, adaptation_field_length - ((r.tell() - _start) >>> 3), context);
   return [adaptation_field_length, {
     discontinuity_indicator,
     random_access_indicator,
@@ -125,12 +112,94 @@ export async function parse_adaptation_field(b: ByteReader) {
   }] as const;
 }
 
+export type AdaptationField = NonNullable<Awaited<ReturnType<typeof parse_adaptation_field>>[1]>;
+
+// 2.4.3.4 Adaptation field, including adaptation_field_length.
+// Stuffing bytes pad the field to adaptation_field_length if given, which is otherwise as short as possible.
+// An adaptation_field_extension_length, as parsed, keeps the extension even without optional fields, and reserved
+// bytes pad the extension to it.
+export function serialize_adaptation_field(adaptation_field: AdaptationField, adaptation_field_length?: number) {
+  const af = adaptation_field;
+  const w = new BitWriter();
+  const PCR_flag = af.program_clock_reference_base !== undefined;
+  const OPCR_flag = af.original_program_clock_reference_base !== undefined;
+  const splicing_point_flag = af.splice_countdown !== undefined;
+  const transport_private_data_flag = af.private_data !== undefined;
+  const ltw_flag = af.ltw_offset !== undefined;
+  const piecewise_rate_flag = af.piecewise_rate !== undefined;
+  const seamless_splice_flag = af.Splice_type !== undefined;
+  const adaptation_field_extension_flag = af.adaptation_field_extension_length !== undefined
+    || ltw_flag || piecewise_rate_flag || seamless_splice_flag || af.af_descriptors !== undefined;
+  w.bslbf(1, af.discontinuity_indicator ? 1 : 0);
+  w.bslbf(1, af.random_access_indicator ? 1 : 0);
+  w.bslbf(1, af.elementary_stream_priority_indicator ? 1 : 0);
+  w.bslbf(1, PCR_flag ? 1 : 0);
+  w.bslbf(1, OPCR_flag ? 1 : 0);
+  w.bslbf(1, splicing_point_flag ? 1 : 0);
+  w.bslbf(1, transport_private_data_flag ? 1 : 0);
+  w.bslbf(1, adaptation_field_extension_flag ? 1 : 0);
+  if (PCR_flag) {
+    w.uimsbf(33, af.program_clock_reference_base!);
+    write_reserved_bits(w, 6);
+    w.uimsbf(9, af.program_clock_reference_extension ?? 0);
+  }
+  if (OPCR_flag) {
+    w.uimsbf(33, af.original_program_clock_reference_base!);
+    write_reserved_bits(w, 6);
+    w.uimsbf(9, af.original_program_clock_reference_extension ?? 0);
+  }
+  if (splicing_point_flag) {
+    w.tcimsbf(8, af.splice_countdown!);
+  }
+  if (transport_private_data_flag) {
+    w.uimsbf(8, af.private_data!.length);
+    w.bytes(af.private_data!);
+  }
+  if (adaptation_field_extension_flag) {
+    const e = new BitWriter();
+    e.bslbf(1, ltw_flag ? 1 : 0);
+    e.bslbf(1, piecewise_rate_flag ? 1 : 0);
+    e.bslbf(1, seamless_splice_flag ? 1 : 0);
+    e.bslbf(1, af.af_descriptors === undefined ? 1 : 0);
+    write_reserved_bits(e, 4);
+    if (ltw_flag) {
+      e.bslbf(1, af.ltw_valid_flag ? 1 : 0);
+      e.uimsbf(15, af.ltw_offset!);
+    }
+    if (piecewise_rate_flag) {
+      write_reserved_bits(e, 2);
+      e.uimsbf(22, af.piecewise_rate!);
+    }
+    if (seamless_splice_flag) {
+      e.bslbf(4, af.Splice_type!);
+      write_timestamp(e, af.DTS_next_AU ?? 0);
+    }
+    if (af.af_descriptors !== undefined) {
+      write_descriptors(e, af.af_descriptors);
+    }
+    const extension = e.data();
+    const adaptation_field_extension_length = Math.max(extension.length, af.adaptation_field_extension_length ?? 0);
+    w.uimsbf(8, adaptation_field_extension_length);
+    w.bytes(extension);
+    for (let i = extension.length; i < adaptation_field_extension_length; i++) w.uimsbf(8, 0xff);
+  }
+  const body = w.data();
+  const length = adaptation_field_length ?? body.length;
+  if (body.length > length) {
+    throw new MalformedDataError(`Adaptation field of ${body.length} bytes does not fit in ${length} bytes`);
+  }
+  const bytes = new Uint8Array(1 + length).fill(0xff);
+  bytes[0] = length;
+  bytes.set(body, 1);
+  return bytes;
+}
+
 export class NotSyncByteError extends Error { }
 
 // 2.4.3.2 Transport stream packet layer
-export async function parse_transport_packet(b: ByteReader) {
+export async function parse_transport_packet(b: ByteReader, options: ParseOptions = {}) {
   const _next_byte = await b.byte();
-  if (_next_byte !== sync_byte) throw NotSyncByteError;
+  if (_next_byte !== sync_byte) throw new NotSyncByteError(`Expected sync byte 0x47 but got 0x${_next_byte.toString(16)}`);
   const r = new BitReader(await b.bytes(3));
   const transport_error_indicator = r.bslbf(1);
   const payload_unit_start_indicator = r.bslbf(1);
@@ -140,7 +209,9 @@ export async function parse_transport_packet(b: ByteReader) {
   const adaptation_field_control = r.bslbf(2);
   const continuity_counter = r.uimsbf(4);
 
-  const [adaptation_field_length, adaptation_field] = adaptation_field_control === 0b10 || adaptation_field_control === 0b11 ? await parse_adaptation_field(b) ?? [] : [];
+  const [adaptation_field_length, adaptation_field] = adaptation_field_control === 0b10 || adaptation_field_control === 0b11
+    ? await parse_adaptation_field(b, options, PID, adaptation_field_control === 0b10 ? 183 : 182)
+    : [];
   const data_byte = adaptation_field_control === 0b01 || adaptation_field_control === 0b11 ?
     await b.bytes(184 - ((adaptation_field_length ?? -1) + 1))
     : undefined;
@@ -156,22 +227,220 @@ export async function parse_transport_packet(b: ByteReader) {
   };
 }
 
+export type TransportPacket = Awaited<ReturnType<typeof parse_transport_packet>>;
+
+// 2.4.3.2 Transport stream packet layer, as a 188 byte packet.
+// adaptation_field_control follows from the presence of the adaptation field and payload, and the adaptation field
+// is stuffed, or added, so that the payload fills the rest of the packet.
+export function serialize_transport_packet(packet: TransportPacket) {
+  const { adaptation_field, data_byte } = packet;
+  const payload_length = data_byte?.length ?? 0;
+  if (payload_length > 184) throw new MalformedDataError(`Payload of ${payload_length} bytes does not fit in a packet`);
+  const adaptation_field_control = data_byte === undefined ? 0b10
+    : adaptation_field === undefined && payload_length === 184 ? 0b01
+      : 0b11;
+  const w = new BitWriter();
+  w.uimsbf(8, sync_byte);
+  w.bslbf(1, packet.transport_error_indicator);
+  w.bslbf(1, packet.payload_unit_start_indicator);
+  w.bslbf(1, packet.transport_priority);
+  w.uimsbf(13, packet.PID);
+  w.bslbf(2, packet.transport_scrambling_control);
+  w.bslbf(2, adaptation_field_control);
+  w.uimsbf(4, packet.continuity_counter);
+  if (adaptation_field_control !== 0b01) {
+    const adaptation_field_length = 183 - payload_length;
+    w.bytes(adaptation_field !== undefined
+      ? serialize_adaptation_field(adaptation_field, adaptation_field_length)
+      : adaptation_field_length === 0
+        ? Uint8Array.of(0)
+        : serialize_adaptation_field({
+          discontinuity_indicator: false,
+          random_access_indicator: false,
+          elementary_stream_priority_indicator: false,
+        }, adaptation_field_length));
+  }
+  if (data_byte !== undefined) w.bytes(data_byte);
+  return w.data();
+}
+
+// 188 bytes: Rec. ITU-T H.222.0 | ISO/IEC 13818-1 transport stream packet
+// 192 bytes: 4 bytes of TP_extra_header followed by a 188 byte packet (BDAV MPEG-2 transport stream, Blu-ray)
+// 204 bytes: a 188 byte packet followed by 16 bytes of Reed-Solomon parity (ETSI EN 300 421, DVB-ASI)
+export type PacketSize = 188 | 192 | 204;
+const packet_sizes: PacketSize[] = [188, 192, 204];
+
+// Offset of the sync byte in a packet of the given size
+export function sync_byte_offset(packet_size: PacketSize) {
+  return packet_size === 192 ? 4 : 0;
+}
+
+// Number of packets of which the sync byte is within length bytes from the start of the first
+export function sync_byte_count(length: number, packet_size: PacketSize) {
+  return Math.max(0, Math.floor((length - sync_byte_offset(packet_size) - 1) / packet_size) + 1);
+}
+
+// Number of consecutive sync bytes required to (re)acquire sync
+const sync_count = 5;
+
+// Offset of the first packet followed by `count` packets which all start with a sync byte, or -1.
+// Fewer packets are required near the end of `bytes`, as at the end of the stream: only those of which the sync byte
+// is in `bytes`.
+export function find_sync(bytes: Uint8Array, packet_size: PacketSize, count = sync_count) {
+  const offset = sync_byte_offset(packet_size);
+  for (let i = 0; i + offset < bytes.length; i++) {
+    const required = Math.min(count, sync_byte_count(bytes.length - i, packet_size));
+    let n = 0;
+    while (n < required && bytes[i + offset + n * packet_size] === sync_byte) n++;
+    if (n === required) return i;
+  }
+  return -1;
+}
+
+// Number of consecutive packets from offset which start with a sync byte
+function sync_run(bytes: Uint8Array, packet_size: PacketSize, offset: number) {
+  let n = 0;
+  for (let i = offset + sync_byte_offset(packet_size); i < bytes.length && bytes[i] === sync_byte; i += packet_size) n++;
+  return n;
+}
+
+// Detects the packet size from the leading bytes of a stream: the size of which the sync bytes at the first sync run
+// the longest, then the earliest. At least 2 consecutive sync bytes are required, and `count` unless `bytes` is too
+// short for them.
+export function detect_packet_size(bytes: Uint8Array, count = sync_count) {
+  let detected: { packet_size: PacketSize; offset: number; run: number } | undefined;
+  for (const packet_size of packet_sizes) {
+    // room for 2 packets, so that find_sync does not settle for one
+    if (sync_byte_count(bytes.length, packet_size) < 2) continue;
+    const offset = find_sync(bytes, packet_size, Math.max(2, count));
+    if (offset < 0) continue;
+    const run = sync_run(bytes, packet_size, offset);
+    if (run < 2) continue;
+    if (detected === undefined || run > detected.run || (run === detected.run && offset < detected.offset)) {
+      detected = { packet_size, offset, run };
+    }
+  }
+  return detected && { packet_size: detected.packet_size, offset: detected.offset };
+}
+
+// The size of a stream of a single packet, too short to detect the packet size from, which starts with a sync byte
+function single_packet_size(bytes: Uint8Array) {
+  const packet_size = packet_sizes.find((size) => bytes.length === size && bytes[sync_byte_offset(size)] === sync_byte);
+  return packet_size && { packet_size, offset: 0 };
+}
+
+// BDAV MPEG-2 transport stream TP_extra_header
+function parse_TP_extra_header(bytes: Uint8Array) {
+  const r = new BitReader(bytes);
+  const copy_permission_indicator = r.bslbf(2);
+  const arrival_time_stamp = r.uimsbf(30);
+  return { copy_permission_indicator, arrival_time_stamp };
+}
+
 // 2.4.3.1 Transport stream
-export async function* parse_transport_stream(b: ByteReader) {
+// The packet size is detected from the leading bytes unless given. The packets before the first sync loss are given
+// from the start of the stream where it starts with a sync byte. After a sync loss, the number of bytes skipped to
+// find the next packet is reported on that packet as `bytes_skipped`, and the bytes skipped after the last packet as
+// `bytes_skipped` of the return value. The warnings of lenient mode give the `packet_index` of their packet, and a
+// packet that cannot be parsed is dropped with a single warning, of its first violation, rather than counted in
+// `bytes_skipped`.
+export async function* parse_transport_stream(b: ByteReader, packet_size?: PacketSize, options: ParseOptions = {}) {
+  let synchronized = false;
+  let bytes_skipped = 0;
+  let packet_index = 0;
   for (; ;) {
-    const bytes = await b.bytes(1);
-    if (bytes.length === 0 || bytes[0] !== sync_byte) break;
-    yield await parse_transport_packet(b);
+    if (!synchronized || packet_size === undefined) {
+      const window_length = (sync_count + 1) * 204;
+      const window = await b.peek_bytes(window_length);
+      if (window.length === 0) break;
+      // the window holds the rest of the stream
+      const end = window.length < window_length;
+      const detected = packet_size === undefined
+        ? detect_packet_size(window) ?? (end ? single_packet_size(window) : undefined)
+        : { packet_size, offset: find_sync(window, packet_size) };
+      // a sync byte at the start of the stream or right after a packet
+      const size = detected?.packet_size;
+      const offset = size !== undefined && bytes_skipped === 0 && window[sync_byte_offset(size)] === sync_byte
+        ? 0
+        : detected?.offset ?? -1;
+      if (size === undefined || offset < 0) {
+        // keep the tail, which may hold the start of the next packets
+        const skip = end ? window.length : window.length - sync_count * 204;
+        await b.skip(skip);
+        bytes_skipped += skip;
+        continue;
+      }
+      if (offset > 0) {
+        await b.skip(offset);
+        bytes_skipped += offset;
+        // a sync found with fewer packets than required for want of room in the window is checked again from there
+        if (!end && sync_byte_count(window.length - offset, size) < sync_count) continue;
+      }
+      packet_size = size;
+      synchronized = true;
+    }
+    const bytes = await b.peek_bytes(packet_size);
+    if (bytes.length < packet_size) {
+      await b.skip(bytes.length);
+      bytes_skipped += bytes.length;
+      break;
+    }
+    const offset = sync_byte_offset(packet_size);
+    if (bytes[offset] !== sync_byte) {
+      synchronized = false;
+      continue;
+    }
+    const TP_extra_header = packet_size === 192 ? parse_TP_extra_header(bytes.subarray(0, 4)) : undefined;
+    const position = b.tell();
+    await b.skip(offset);
+    const _b = await b.sub_reader(188);
+    await b.skip(packet_size - offset - 188);
+    const index = packet_index++;
+    const warnings: Diagnostic[] = [];
+    const packet_options = { ...options, on_warning: (warning: Diagnostic) => warnings.push({ ...warning, packet_index: index }) };
+    let packet: TransportPacket;
+    try {
+      packet = await parse_transport_packet(_b, packet_options);
+    } catch (e) {
+      new SyntaxContext(packet_options, '2.4.3.2').recover(e, 'transport_packet', position + offset);
+      options.on_warning?.(warnings[0]);
+      continue;
+    }
+    for (const warning of warnings) options.on_warning?.(warning);
+    yield {
+      ...packet,
+      ...(TP_extra_header !== undefined ? { TP_extra_header } : {}),
+      ...(bytes_skipped > 0 ? { bytes_skipped } : {}),
+    };
+    bytes_skipped = 0;
   }
+  return { bytes_skipped };
+}
+
+// Whether the PES packets of a stream have the PES header fields, rather than only data or padding bytes
+export function has_PES_header(stream_id: number) {
+  return stream_id !== StreamID.program_stream_map
+    && stream_id !== StreamID.padding_stream
+    && stream_id !== StreamID.private_stream_2
+    && stream_id !== StreamID.ECM_stream
+    && stream_id !== StreamID.EMM_stream
+    && stream_id !== StreamID.program_stream_directory
+    && stream_id !== StreamID.DSMCC_stream
+    && stream_id !== StreamID.Rec_ITU_T_H_222_1_type_E;
 }
 
-// 2.4.3.6 PES packet
-export async function parse_PES_packet(b: ByteReader) {
+// 2.4.3.6 PES packet, with the PID of the packets carrying it for diagnostics
+export async function parse_PES_packet(b: ByteReader, options: ParseOptions = {}, PID?: number) {
+  const context = new SyntaxContext(options, '2.4.3.6', PID);
   let r = new BitReader(await b.bytes(6));
   const packet_start_code_prefix = r.uimsbf(24);
   const stream_id = r.uimsbf(8);
   const PES_packet_length = r.uimsbf(16);
-  r = new BitReader(await b.bytes(PES_packet_length));
+  // A value of 0 indicates that the PES packet length is neither specified nor bounded,
+  // in which case the PES packet extends to the end of the given stream.
+  const position = b.tell();
+  const _body = PES_packet_length === 0 ? await b.rest() : await b.bytes(PES_packet_length);
+  r = context.reader(_body, position);
   const optional: {
     PES_scrambling_control?: number;
     PES_priority?: boolean;
@@ -191,29 +460,25 @@ export async function parse_PES_packet(b: ByteReader) {
     additional_copy_info?: number;
     previous_PES_packet_CRC?: number;
     PES_private_data?: Uint8Array;
+    pack_header?: PackHeader;
     program_packet_sequence_counter?: number;
     MPEG1_MPEG2_identifier?: number;
     original_stuff_length?: number;
     'P-STD_buffer_scale'?: number;
     'P-STD_buffer_size'?: number;
+    PES_extension_field_length?: number;
     stream_id_extension?: number;
     TREF?: number;
+    // the number of stuffing_byte in the PES header, when there are any
+    N1?: number;
     PES_packet_data?: Uint8Array;
   } = {};
-  if (
-    stream_id === StreamID.program_stream_map
-    || stream_id === StreamID.private_stream_2
-    || stream_id === StreamID.ECM_stream
-    || stream_id === StreamID.EMM_stream
-    || stream_id === StreamID.program_stream_directory
-    || stream_id === StreamID.DSMCC_stream
-    || stream_id === StreamID.Rec_ITU_T_H_222_1_type_E
-  ) {
-    optional.PES_packet_data = r.bytes(PES_packet_length);
-  } else if (stream_id === StreamID.padding_stream) {
-    padding_bytes(r, PES_packet_length);
+  if (stream_id === StreamID.padding_stream) {
+    padding_bytes(r, _body.length, context);
+  } else if (!has_PES_header(stream_id)) {
+    optional.PES_packet_data = r.bytes(_body.length);
   } else {
-    check_constant(r, 2, 0b10);
+    check_constant(r, 2, 0b10, context, "'10'");
     optional.PES_scrambling_control = r.bslbf(2);
     optional.PES_priority = r.bslbf(1) === 1;
     optional.data_alignment_indicator = r.bslbf(1) === 1;
@@ -230,39 +495,39 @@ export async function parse_PES_packet(b: ByteReader) {
     const PES_header_data_length = r.uimsbf(8);
     const _start = r.tell();
     if (PTS_DTS_flags === 0b10 || PTS_DTS_flags === 0b11) {
-      check_constant(r, 2, 0b00);
-      check_constant(r, 2, PTS_DTS_flags);
+      check_constant(r, 2, 0b00, context, PTS_DTS_flags === 0b10 ? "'0010'" : "'0011'");
+      check_constant(r, 2, PTS_DTS_flags, context, PTS_DTS_flags === 0b10 ? "'0010'" : "'0011'");
       optional.PTS = r.bslbf(3);
-      marker_bit(r);
+      marker_bit(r, context);
       optional.PTS = optional.PTS * Math.pow(2, 15) + r.bslbf(15);
-      marker_bit(r);
+      marker_bit(r, context);
       optional.PTS = optional.PTS * Math.pow(2, 15) + r.bslbf(15);
-      marker_bit(r);
+      marker_bit(r, context);
     }
     if (PTS_DTS_flags === 0b11) {
-      check_constant(r, 4, 0b0001);
+      check_constant(r, 4, 0b0001, context, "'0001'");
       optional.DTS = r.bslbf(3);
-      marker_bit(r);
+      marker_bit(r, context);
       optional.DTS = optional.DTS * Math.pow(2, 15) + r.bslbf(15);
-      marker_bit(r);
+      marker_bit(r, context);
       optional.DTS = optional.DTS * Math.pow(2, 15) + r.bslbf(15);
-      marker_bit(r);
+      marker_bit(r, context);
     }
     if (ESCR_flag === 1) {
-      reserved_bits(r, 2);
+      reserved_bits(r, 2, context);
       optional.ESCR_base = r.bslbf(3);
-      marker_bit(r);
+      marker_bit(r, context);
       optional.ESCR_base = optional.ESCR_base * Math.pow(2, 15) + r.bslbf(15);
-      marker_bit(r);
+      marker_bit(r, context);
       optional.ESCR_base = optional.ESCR_base * Math.pow(2, 15) + r.bslbf(15);
-      marker_bit(r);
+      marker_bit(r, context);
       optional.ESCR_extension = r.bslbf(9);
-      marker_bit(r);
+      marker_bit(r, context);
     }
     if (ES_rate_flag === 1) {
-      marker_bit(r);
+      marker_bit(r, context);
       optional.ES_rate = r.bslbf(22);
-      marker_bit(r);
+      marker_bit(r, context);
     }
     if (DSM_trick_mode_flag === 1) {
       optional.trick_mode_control = r.bslbf(3);
@@ -279,18 +544,18 @@ export async function parse_PES_packet(b: ByteReader) {
           break;
         case TrickModeControl.FreezeFrame:
           optional.field_id = r.bslbf(2);
-          reserved_bits(r, 3);
+          reserved_bits(r, 3, context);
           break;
         default:
-          throw new UnimplementedReserveError(`Trick mode control ${optional.trick_mode_control} is reserved`);
+          context.violation(r, r.tell() - 3, 'trick_mode_control', `Trick mode control ${optional.trick_mode_control} is reserved`, UnimplementedReserveError);
+          r.skip(5);
       }
     }
     if (additional_copy_info_flag === 1) {
-      marker_bit(r);
+      marker_bit(r, context);
       optional.additional_copy_info = r.bslbf(7);
     }
     if (PES_CRC_flag === 1) {
-      marker_bit(r);
       optional.previous_PES_packet_CRC = r.bslbf(16);
     }
     if (PES_extension_flag === 1) {
@@ -298,64 +563,247 @@ export async function parse_PES_packet(b: ByteReader) {
       const pack_header_field_flag = r.bslbf(1);
       const program_packet_sequence_counter_flag = r.bslbf(1);
       const P_STD_buffer_flag = r.bslbf(1);
-      reserved_bits(r, 3);
+      reserved_bits(r, 3, context);
       const PES_extension_flag_2 = r.bslbf(1);
       if (PES_private_data_flag === 1) {
         optional.PES_private_data = r.bytes(128 / 8);
       }
       if (pack_header_field_flag === 1) {
         const pack_field_length = r.uimsbf(8);
-        parse_pack_header();
+        optional.pack_header = await parse_pack_header(new ByteReader(new MemorySource(r.bytes(pack_field_length))), options);
       }
       if (program_packet_sequence_counter_flag === 1) {
-        marker_bit(r);
+        marker_bit(r, context);
         optional.program_packet_sequence_counter = r.uimsbf(7);
-        marker_bit(r);
+        marker_bit(r, context);
         optional.MPEG1_MPEG2_identifier = r.bslbf(1);
         optional.original_stuff_length = r.uimsbf(6);
       }
       if (P_STD_buffer_flag === 1) {
-        check_constant(r, 2, 0b01);
+        check_constant(r, 2, 0b01, context, "'01'");
         optional['P-STD_buffer_scale'] = r.bslbf(1);
         optional['P-STD_buffer_size'] = r.bslbf(13);
       }
       if (PES_extension_flag_2 === 1) {
-        marker_bit(r);
+        marker_bit(r, context);
         const PES_extension_field_length = r.uimsbf(7);
+        optional.PES_extension_field_length = PES_extension_field_length;
         const _start = r.tell();
         const stream_id_extension_flag = r.bslbf(1);
         if (stream_id_extension_flag === 0) {
           optional.stream_id_extension = r.uimsbf(7);
         } else {
-          reserved_bits(r, 6);
+          reserved_bits(r, 6, context);
           const tref_extension_flag = r.bslbf(1);
           if (tref_extension_flag === 0) {
-            reserved_bits(r, 4);
+            reserved_bits(r, 4, context);
             optional.TREF = r.bslbf(3);
-            marker_bit(r);
+            marker_bit(r, context);
             optional.TREF = optional.TREF * Math.pow(2, 15) + r.bslbf(15);
-            marker_bit(r);
+            marker_bit(r, context);
             optional.TREF = optional.TREF * Math.pow(2, 15) + r.bslbf(15);
-            marker_bit(r);
+            marker_bit(r, context);
           }
         }
-        reserved_bits(r, 8 * PES_extension_field_length - (r.tell() - _start));
+        reserved_bits(r, 8 * PES_extension_field_length - (r.tell() - _start), context);
       }
     }
     const N1 = PES_header_data_length - ((r.tell() - _start) >>> 3);
     if (N1 > 32) {
-      throw new MalformedDataError(`No more than 32 stuffing bytes shall be present in one PES packet header.`);
+      context.violation(r, r.tell(), 'stuffing_byte', `No more than 32 stuffing bytes shall be present in one PES packet header.`);
     }
-    stuffing_bytes(r, N1);
-    optional.PES_packet_data = r.bytes(PES_packet_length - (r.tell() >>> 3));
+    stuffing_bytes(r, N1, context);
+    if (N1 > 0) optional.N1 = N1;
+    optional.PES_packet_data = r.bytes(_body.length - (r.tell() >>> 3));
   }
   return {
     packet_start_code_prefix,
     stream_id,
+    PES_packet_length,
     ...optional,
   };
 }
 
+// The optional PES header fields from PTS_DTS_flags up to the stuffing bytes
+// A PES_extension_field_length, as parsed, keeps the PES extension 2 even without stream_id_extension or TREF, and
+// reserved bytes pad the extension to it.
+function PES_header_fields(packet: Awaited<ReturnType<typeof parse_PES_packet>>) {
+  const w = new BitWriter();
+  const PTS_DTS_flags = packet.PTS === undefined ? 0b00 : packet.DTS === undefined ? 0b10 : 0b11;
+  const ESCR_flag = packet.ESCR_base !== undefined;
+  const ES_rate_flag = packet.ES_rate !== undefined;
+  const DSM_trick_mode_flag = packet.trick_mode_control !== undefined;
+  const additional_copy_info_flag = packet.additional_copy_info !== undefined;
+  const PES_CRC_flag = packet.previous_PES_packet_CRC !== undefined;
+  const PES_private_data_flag = packet.PES_private_data !== undefined;
+  const pack_header_field_flag = packet.pack_header !== undefined;
+  const program_packet_sequence_counter_flag = packet.program_packet_sequence_counter !== undefined;
+  const P_STD_buffer_flag = packet['P-STD_buffer_size'] !== undefined;
+  const PES_extension_flag_2 = packet.PES_extension_field_length !== undefined
+    || packet.stream_id_extension !== undefined || packet.TREF !== undefined;
+  const PES_extension_flag = PES_private_data_flag || pack_header_field_flag || program_packet_sequence_counter_flag
+    || P_STD_buffer_flag || PES_extension_flag_2;
+  w.bslbf(2, PTS_DTS_flags);
+  w.bslbf(1, ESCR_flag ? 1 : 0);
+  w.bslbf(1, ES_rate_flag ? 1 : 0);
+  w.bslbf(1, DSM_trick_mode_flag ? 1 : 0);
+  w.bslbf(1, additional_copy_info_flag ? 1 : 0);
+  w.bslbf(1, PES_CRC_flag ? 1 : 0);
+  w.bslbf(1, PES_extension_flag ? 1 : 0);
+  const h = new BitWriter();
+  if (PTS_DTS_flags !== 0b00) {
+    h.bslbf(4, PTS_DTS_flags);
+    write_timestamp(h, packet.PTS!);
+  }
+  if (PTS_DTS_flags === 0b11) {
+    h.bslbf(4, 0b0001);
+    write_timestamp(h, packet.DTS!);
+  }
+  if (ESCR_flag) {
+    write_reserved_bits(h, 2);
+    write_timestamp(h, packet.ESCR_base!);
+    h.bslbf(9, packet.ESCR_extension ?? 0);
+    write_marker_bit(h);
+  }
+  if (ES_rate_flag) {
+    write_marker_bit(h);
+    h.bslbf(22, packet.ES_rate!);
+    write_marker_bit(h);
+  }
+  if (DSM_trick_mode_flag) {
+    h.bslbf(3, packet.trick_mode_control!);
+    switch (packet.trick_mode_control) {
+      case TrickModeControl.FastForward:
+      case TrickModeControl.FastReverse:
+        h.bslbf(2, packet.field_id ?? 0);
+        h.bslbf(1, packet.intra_slice_refresh ? 1 : 0);
+        h.bslbf(2, packet.frequency_truncation ?? 0);
+        break;
+      case TrickModeControl.SlowMotion:
+      case TrickModeControl.SlowReverse:
+        h.bslbf(5, packet.rep_cntrl ?? 0);
+        break;
+      case TrickModeControl.FreezeFrame:
+        h.bslbf(2, packet.field_id ?? 0);
+        write_reserved_bits(h, 3);
+        break;
+      default:
+        throw new UnimplementedReserveError(`Trick mode control ${packet.trick_mode_control} is reserved`);
+    }
+  }
+  if (additional_copy_info_flag) {
+    write_marker_bit(h);
+    h.bslbf(7, packet.additional_copy_info!);
+  }
+  if (PES_CRC_flag) {
+    h.bslbf(16, packet.previous_PES_packet_CRC!);
+  }
+  if (PES_extension_flag) {
+    h.bslbf(1, PES_private_data_flag ? 1 : 0);
+    h.bslbf(1, pack_header_field_flag ? 1 : 0);
+    h.bslbf(1, program_packet_sequence_counter_flag ? 1 : 0);
+    h.bslbf(1, P_STD_buffer_flag ? 1 : 0);
+    write_reserved_bits(h, 3);
+    h.bslbf(1, PES_extension_flag_2 ? 1 : 0);
+    if (PES_private_data_flag) {
+      h.bytes(packet.PES_private_data!);
+    }
+    if (pack_header_field_flag) {
+      const pack_header = serialize_pack_header(packet.pack_header!);
+      h.uimsbf(8, pack_header.length);
+      h.bytes(pack_header);
+    }
+    if (program_packet_sequence_counter_flag) {
+      write_marker_bit(h);
+      h.uimsbf(7, packet.program_packet_sequence_counter!);
+      write_marker_bit(h);
+      h.bslbf(1, packet.MPEG1_MPEG2_identifier ?? 0);
+      h.uimsbf(6, packet.original_stuff_length ?? 0);
+    }
+    if (P_STD_buffer_flag) {
+      h.bslbf(2, 0b01);
+      h.bslbf(1, packet['P-STD_buffer_scale'] ?? 0);
+      h.bslbf(13, packet['P-STD_buffer_size']!);
+    }
+    if (PES_extension_flag_2) {
+      const e = new BitWriter();
+      if (packet.stream_id_extension !== undefined) {
+        e.bslbf(1, 0);
+        e.uimsbf(7, packet.stream_id_extension);
+      } else {
+        e.bslbf(1, 1);
+        write_reserved_bits(e, 6);
+        e.bslbf(1, packet.TREF === undefined ? 1 : 0);
+        if (packet.TREF !== undefined) {
+          write_reserved_bits(e, 4);
+          write_timestamp(e, packet.TREF);
+        }
+      }
+      const extension = e.data();
+      const PES_extension_field_length = Math.max(extension.length, packet.PES_extension_field_length ?? 0);
+      write_marker_bit(h);
+      h.uimsbf(7, PES_extension_field_length);
+      h.bytes(extension);
+      for (let i = extension.length; i < PES_extension_field_length; i++) h.uimsbf(8, 0xff);
+    }
+  }
+  w.bytes(h.data());
+  return w.data();
+}
+
+// 2.4.3.6 PES packet.
+// N1 stuffing bytes, as parsed, are written in the PES header, and PES_packet_length is recomputed if it does not match.
+// Without N1, PES_packet_length is kept while it leaves room for no more than 32 stuffing bytes in the PES header, and
+// is otherwise recomputed. A PES_packet_length of 0 is kept, and is written for a packet too long for it.
+export function serialize_PES_packet(packet: Awaited<ReturnType<typeof parse_PES_packet>>) {
+  const w = new BitWriter();
+  w.uimsbf(24, packet.packet_start_code_prefix);
+  w.uimsbf(8, packet.stream_id);
+  const data = packet.PES_packet_data ?? new Uint8Array();
+  if (packet.stream_id === StreamID.padding_stream) {
+    w.uimsbf(16, packet.PES_packet_length);
+    w.bytes(new Uint8Array(packet.PES_packet_length).fill(0xff));
+    return w.data();
+  }
+  if (!has_PES_header(packet.stream_id)) {
+    w.uimsbf(16, packet.PES_packet_length === 0 || data.length > 0xFFFF ? 0 : data.length);
+    w.bytes(data);
+    return w.data();
+  }
+  // the flags and PES_header_data_length before the header fields
+  const header = PES_header_fields(packet);
+  const length = 2 + header.length + data.length;
+  let PES_packet_length = packet.PES_packet_length;
+  let N1: number;
+  if (packet.N1 !== undefined) {
+    N1 = packet.N1;
+    if (PES_packet_length !== 0 && PES_packet_length !== length + N1) {
+      PES_packet_length = length + N1 > 0xFFFF ? 0 : length + N1;
+    }
+  } else {
+    if (PES_packet_length !== 0 && !(PES_packet_length >= length && PES_packet_length <= length + 32)) {
+      PES_packet_length = length > 0xFFFF ? 0 : length;
+    }
+    N1 = PES_packet_length === 0 ? 0 : PES_packet_length - length;
+  }
+  if (header.length - 1 + N1 > 0xFF) {
+    throw new MalformedDataError(`PES header of ${header.length - 1} bytes and ${N1} stuffing bytes exceeds PES_header_data_length`);
+  }
+  w.uimsbf(16, PES_packet_length);
+  w.bslbf(2, 0b10);
+  w.bslbf(2, packet.PES_scrambling_control ?? 0);
+  w.bslbf(1, packet.PES_priority ? 1 : 0);
+  w.bslbf(1, packet.data_alignment_indicator ? 1 : 0);
+  w.bslbf(1, packet.copyright ? 1 : 0);
+  w.bslbf(1, packet.original_or_copy ? 1 : 0);
+  w.bytes(header.subarray(0, 1));
+  w.uimsbf(8, header.length - 1 + N1);
+  w.bytes(header.subarray(1));
+  w.bytes(new Uint8Array(N1).fill(0xff));
+  w.bytes(data);
+  return w.data();
+}
+
 // Table 2-22 Stream_id assignments
 export const enum StreamID {
   program_stream_map = 0b1011_1100,
@@ -392,6 +840,3 @@ export const enum TrickModeControl {
   // 101-111: Reserved
 }
 
-export function parse_pack_header() {
-  // TODO
-}
@@ -0,0 +1,514 @@
+// ISO/IEC 13818-2 6.2 Video bitstream syntax: the headers of MPEG-2 video, and of the ISO/IEC 11172-2 MPEG-1 video it
+// extends, from the start codes of the elementary stream. Slices are not decoded, and of the extensions only those of
+// the sequence, the sequence display, the quantiser matrices and the picture coding are parsed.
+
+import { BitReader } from '../../reader.js';
+import { ByteStreamSplitter } from '../h264/byte_stream.js';
+import { MalformedDataError, marker_bit } from './syntax.js';
+
+// Table 6-1 Start code values, of the byte that follows the start code prefix
+export const enum StartCode {
+  picture = 0x00,
+  // slice_start_code, of which the value is the slice_vertical_position
+  slice_first = 0x01,
+  slice_last = 0xAF,
+  user_data = 0xB2,
+  sequence_header = 0xB3,
+  sequence_error = 0xB4,
+  extension = 0xB5,
+  sequence_end = 0xB7,
+  group = 0xB8,
+}
+
+// Table 6-2 extension_start_code_identifier codes
+export const enum ExtensionID {
+  sequence = 1,
+  sequence_display = 2,
+  quant_matrix = 3,
+  copyright = 4,
+  sequence_scalable = 5,
+  picture_display = 7,
+  picture_coding = 8,
+  picture_spatial_scalable = 9,
+  picture_temporal_scalable = 10,
+}
+
+// Table 6-12 picture_coding_type, of which D-pictures are only of MPEG-1
+export const enum PictureCodingType {
+  I = 1,
+  P = 2,
+  B = 3,
+  D = 4,
+}
+
+// Table 6-14 picture_structure
+export const enum PictureStructure {
+  top_field = 1,
+  bottom_field = 2,
+  frame = 3,
+}
+
+// The 64 values of a quantiser matrix, in the zigzag scanning order in which they are sent
+function parse_quantiser_matrix(r: BitReader) {
+  const matrix = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) matrix[i] = r.uimsbf(8);
+  return matrix;
+}
+
+// 6.2.2.1 Sequence header
+export function parse_sequence_header(r: BitReader) {
+  const horizontal_size_value = r.uimsbf(12);
+  const vertical_size_value = r.uimsbf(12);
+  const aspect_ratio_information = r.uimsbf(4);
+  if (aspect_ratio_information === 0) throw new MalformedDataError('aspect_ratio_information 0 is forbidden');
+  const frame_rate_code = r.uimsbf(4);
+  if (frame_rate_code === 0) throw new MalformedDataError('frame_rate_code 0 is forbidden');
+  const bit_rate_value = r.uimsbf(18);
+  marker_bit(r);
+  const vbv_buffer_size_value = r.uimsbf(10);
+  const constrained_parameters_flag = r.bslbf(1) === 1;
+  const optional: { intra_quantiser_matrix?: Uint8Array; non_intra_quantiser_matrix?: Uint8Array } = {};
+  const load_intra_quantiser_matrix = r.bslbf(1);
+  if (load_intra_quantiser_matrix) optional.intra_quantiser_matrix = parse_quantiser_matrix(r);
+  const load_non_intra_quantiser_matrix = r.bslbf(1);
+  if (load_non_intra_quantiser_matrix) optional.non_intra_quantiser_matrix = parse_quantiser_matrix(r);
+  return {
+    horizontal_size_value,
+    vertical_size_value,
+    aspect_ratio_information,
+    frame_rate_code,
+    bit_rate_value,
+    vbv_buffer_size_value,
+    constrained_parameters_flag,
+    ...optional,
+  };
+}
+
+export type SequenceHeader = ReturnType<typeof parse_sequence_header>;
+
+// 6.2.2.3 Sequence extension, after its extension_start_code_identifier
+export function parse_sequence_extension(r: BitReader) {
+  const profile_and_level_indication = r.uimsbf(8);
+  const progressive_sequence = r.bslbf(1) === 1;
+  const chroma_format = r.uimsbf(2);
+  if (chroma_format === 0) throw new MalformedDataError('chroma_format 0 is reserved');
+  const horizontal_size_extension = r.uimsbf(2);
+  const vertical_size_extension = r.uimsbf(2);
+  const bit_rate_extension = r.uimsbf(12);
+  marker_bit(r);
+  const vbv_buffer_size_extension = r.uimsbf(8);
+  const low_delay = r.bslbf(1) === 1;
+  const frame_rate_extension_n = r.uimsbf(2);
+  const frame_rate_extension_d = r.uimsbf(5);
+  return {
+    profile_and_level_indication,
+    progressive_sequence,
+    chroma_format,
+    horizontal_size_extension,
+    vertical_size_extension,
+    bit_rate_extension,
+    vbv_buffer_size_extension,
+    low_delay,
+    frame_rate_extension_n,
+    frame_rate_extension_d,
+  };
+}
+
+export type SequenceExtension = ReturnType<typeof parse_sequence_extension>;
+
+// 6.2.2.4 Sequence display extension, after its extension_start_code_identifier
+export function parse_sequence_display_extension(r: BitReader) {
+  const video_format = r.uimsbf(3);
+  const optional: { colour_primaries?: number; transfer_characteristics?: number; matrix_coefficients?: number } = {};
+  const colour_description = r.bslbf(1);
+  if (colour_description) {
+    optional.colour_primaries = r.uimsbf(8);
+    optional.transfer_characteristics = r.uimsbf(8);
+    optional.matrix_coefficients = r.uimsbf(8);
+  }
+  const display_horizontal_size = r.uimsbf(14);
+  marker_bit(r);
+  const display_vertical_size = r.uimsbf(14);
+  return { video_format, ...optional, display_horizontal_size, display_vertical_size };
+}
+
+export type SequenceDisplayExtension = ReturnType<typeof parse_sequence_display_extension>;
+
+// 6.2.2.6 Group of pictures header, of which the time_code is that of the first picture of the group in display order
+export function parse_group_of_pictures_header(r: BitReader) {
+  const drop_frame_flag = r.bslbf(1) === 1;
+  const time_code_hours = r.uimsbf(5);
+  const time_code_minutes = r.uimsbf(6);
+  marker_bit(r);
+  const time_code_seconds = r.uimsbf(6);
+  const time_code_pictures = r.uimsbf(6);
+  const closed_gop = r.bslbf(1) === 1;
+  const broken_link = r.bslbf(1) === 1;
+  return { drop_frame_flag, time_code_hours, time_code_minutes, time_code_seconds, time_code_pictures, closed_gop, broken_link };
+}
+
+export type GroupOfPicturesHeader = ReturnType<typeof parse_group_of_pictures_header>;
+
+// The time_code as hh:mm:ss:ff, with a semicolon before the pictures where they are counted in drop frame
+export function time_code_text(header: GroupOfPicturesHeader) {
+  const two = (value: number) => String(value).padStart(2, '0');
+  return `${two(header.time_code_hours)}:${two(header.time_code_minutes)}:${two(header.time_code_seconds)}`
+    + `${header.drop_frame_flag ? ';' : ':'}${two(header.time_code_pictures)}`;
+}
+
+// 6.2.3 Picture header. full_pel and f_code are only used in MPEG-1 video, of which they are of P- and B-pictures.
+export function parse_picture_header(r: BitReader) {
+  const temporal_reference = r.uimsbf(10);
+  const picture_coding_type = r.uimsbf(3);
+  if (picture_coding_type === 0 || picture_coding_type > PictureCodingType.D) {
+    throw new MalformedDataError(`picture_coding_type ${picture_coding_type} is forbidden or reserved`);
+  }
+  const vbv_delay = r.uimsbf(16);
+  const optional: {
+    full_pel_forward_vector?: boolean; forward_f_code?: number; full_pel_backward_vector?: boolean; backward_f_code?: number;
+  } = {};
+  if (picture_coding_type === PictureCodingType.P || picture_coding_type === PictureCodingType.B) {
+    optional.full_pel_forward_vector = r.bslbf(1) === 1;
+    optional.forward_f_code = r.uimsbf(3);
+  }
+  if (picture_coding_type === PictureCodingType.B) {
+    optional.full_pel_backward_vector = r.bslbf(1) === 1;
+    optional.backward_f_code = r.uimsbf(3);
+  }
+  // extra_bit_picture, each followed by a byte of extra_information_picture which is reserved
+  while (r.bslbf(1) === 1) r.skip(8);
+  return { temporal_reference, picture_coding_type: picture_coding_type as PictureCodingType, vbv_delay, ...optional };
+}
+
+export type PictureHeader = ReturnType<typeof parse_picture_header>;
+
+// 6.2.3.1 Picture coding extension, after its extension_start_code_identifier
+export function parse_picture_coding_extension(r: BitReader) {
+  // f_code[s][t] of the forward (s 0) and backward (s 1), horizontal (t 0) and vertical (t 1) motion vectors
+  const f_code = [[r.uimsbf(4), r.uimsbf(4)], [r.uimsbf(4), r.uimsbf(4)]];
+  const intra_dc_precision = r.uimsbf(2);
+  const picture_structure = r.uimsbf(2);
+  if (picture_structure === 0) throw new MalformedDataError('picture_structure 0 is reserved');
+  const top_field_first = r.bslbf(1) === 1;
+  const frame_pred_frame_dct = r.bslbf(1) === 1;
+  const concealment_motion_vectors = r.bslbf(1) === 1;
+  const q_scale_type = r.bslbf(1);
+  const intra_vlc_format = r.bslbf(1);
+  const alternate_scan = r.bslbf(1) === 1;
+  const repeat_first_field = r.bslbf(1) === 1;
+  const chroma_420_type = r.bslbf(1);
+  const progressive_frame = r.bslbf(1) === 1;
+  const optional: {
+    v_axis?: number; field_sequence?: number; sub_carrier?: number; burst_amplitude?: number; sub_carrier_phase?: number;
+  } = {};
+  const composite_display_flag = r.bslbf(1);
+  if (composite_display_flag) {
+    optional.v_axis = r.bslbf(1);
+    optional.field_sequence = r.uimsbf(3);
+    optional.sub_carrier = r.bslbf(1);
+    optional.burst_amplitude = r.uimsbf(7);
+    optional.sub_carrier_phase = r.uimsbf(8);
+  }
+  return {
+    f_code,
+    intra_dc_precision,
+    picture_structure: picture_structure as PictureStructure,
+    top_field_first,
+    frame_pred_frame_dct,
+    concealment_motion_vectors,
+    q_scale_type,
+    intra_vlc_format,
+    alternate_scan,
+    repeat_first_field,
+    chroma_420_type,
+    progressive_frame,
+    ...optional,
+  };
+}
+
+export type PictureCodingExtension = ReturnType<typeof parse_picture_coding_extension>;
+
+// 6.2.3.2 Quant matrix extension, after its extension_start_code_identifier
+export function parse_quant_matrix_extension(r: BitReader) {
+  const matrices: {
+    intra_quantiser_matrix?: Uint8Array;
+    non_intra_quantiser_matrix?: Uint8Array;
+    chroma_intra_quantiser_matrix?: Uint8Array;
+    chroma_non_intra_quantiser_matrix?: Uint8Array;
+  } = {};
+  if (r.bslbf(1)) matrices.intra_quantiser_matrix = parse_quantiser_matrix(r);
+  if (r.bslbf(1)) matrices.non_intra_quantiser_matrix = parse_quantiser_matrix(r);
+  if (r.bslbf(1)) matrices.chroma_intra_quantiser_matrix = parse_quantiser_matrix(r);
+  if (r.bslbf(1)) matrices.chroma_non_intra_quantiser_matrix = parse_quantiser_matrix(r);
+  return matrices;
+}
+
+export type QuantMatrixExtension = ReturnType<typeof parse_quant_matrix_extension>;
+
+export type VideoUnit = { start_code: number } & (
+  | { sequence_header: SequenceHeader }
+  | { sequence_extension: SequenceExtension }
+  | { sequence_display_extension: SequenceDisplayExtension }
+  | { quant_matrix_extension: QuantMatrixExtension }
+  | { picture_coding_extension: PictureCodingExtension }
+  // of the other extensions, the extension data after its extension_start_code_identifier
+  | { extension_start_code_identifier: number; payload: Uint8Array }
+  | { group_of_pictures_header: GroupOfPicturesHeader }
+  | { picture_header: PictureHeader }
+  // 6.2.2.2.2 user_data, up to the next start code
+  | { user_data: Uint8Array }
+  | { slice_vertical_position: number }
+  // of sequence_end_code, sequence_error_code and the reserved and system start codes, the bytes that follow it
+  | { payload: Uint8Array }
+);
+
+// The most zero bytes a header can end with, more than those of a picture coding extension with composite display
+const header_zero_bytes = 8;
+
+// Parses a start code value and the bytes up to the next start code, as split from the byte stream by
+// ByteStreamSplitter. The splitter drops the zero bytes before a start code, which are stuffing but can also be the
+// last bytes of the header before it, so the header is read as if followed by zeros.
+export function parse_video_unit(unit: Uint8Array): VideoUnit {
+  if (unit.length < 1) throw new MalformedDataError('Start code value is missing');
+  const start_code = unit[0];
+  if (start_code >= StartCode.slice_first && start_code <= StartCode.slice_last) {
+    return { start_code, slice_vertical_position: start_code };
+  }
+  if (start_code === StartCode.user_data) return { start_code, user_data: unit.subarray(1) };
+  const header = new Uint8Array(unit.length - 1 + header_zero_bytes);
+  header.set(unit.subarray(1));
+  const r = new BitReader(header);
+  switch (start_code) {
+    case StartCode.sequence_header:
+      return { start_code, sequence_header: parse_sequence_header(r) };
+    case StartCode.extension: {
+      const extension_start_code_identifier = r.uimsbf(4);
+      switch (extension_start_code_identifier) {
+        case ExtensionID.sequence:
+          return { start_code, sequence_extension: parse_sequence_extension(r) };
+        case ExtensionID.sequence_display:
+          return { start_code, sequence_display_extension: parse_sequence_display_extension(r) };
+        case ExtensionID.quant_matrix:
+          return { start_code, quant_matrix_extension: parse_quant_matrix_extension(r) };
+        case ExtensionID.picture_coding:
+          return { start_code, picture_coding_extension: parse_picture_coding_extension(r) };
+      }
+      return { start_code, extension_start_code_identifier, payload: unit.subarray(1) };
+    }
+    case StartCode.group:
+      return { start_code, group_of_pictures_header: parse_group_of_pictures_header(r) };
+    case StartCode.picture:
+      return { start_code, picture_header: parse_picture_header(r) };
+  }
+  return { start_code, payload: unit.subarray(1) };
+}
+
+// Yields the headers of a video elementary stream given in chunks, such as the PES_packet_data of a video PES stream
+export async function* parse_video_stream(chunks: AsyncIterable<Uint8Array>) {
+  const splitter = new ByteStreamSplitter();
+  for await (const chunk of chunks) {
+    for (const unit of splitter.push(chunk)) yield parse_video_unit(unit);
+  }
+  for (const unit of splitter.flush()) yield parse_video_unit(unit);
+}
+
+// 6.3.3 and 6.3.5 The frame size in samples, of the sequence header and, in MPEG-2 video, its sequence extension
+export function frame_size(header: SequenceHeader, extension?: SequenceExtension) {
+  return {
+    width: (extension?.horizontal_size_extension ?? 0) << 12 | header.horizontal_size_value,
+    height: (extension?.vertical_size_extension ?? 0) << 12 | header.vertical_size_value,
+  };
+}
+
+// Table 6-4 frame_rate_value, by frame_rate_code
+const frame_rate_values = [NaN, 24000 / 1001, 24, 25, 30000 / 1001, 30, 50, 60000 / 1001, 60];
+
+// 6.3.5 Frames per second, or undefined for a reserved frame_rate_code
+export function frame_rate(header: SequenceHeader, extension?: SequenceExtension) {
+  const frame_rate_value = frame_rate_values[header.frame_rate_code];
+  if (frame_rate_value === undefined) return undefined;
+  if (extension === undefined) return frame_rate_value;
+  return frame_rate_value * (extension.frame_rate_extension_n + 1) / (extension.frame_rate_extension_d + 1);
+}
+
+// 6.3.3 The bit rate in bit/s, which is an upper bound in MPEG-2 video. bit_rate_value 0x3FFFF of MPEG-1 video is of
+// a variable bit rate, of which it is undefined.
+export function bit_rate(header: SequenceHeader, extension?: SequenceExtension) {
+  if (extension === undefined && header.bit_rate_value === 0x3FFFF) return undefined;
+  return ((extension?.bit_rate_extension ?? 0) * Math.pow(2, 18) + header.bit_rate_value) * 400;
+}
+
+// 6.3.3 The size of the VBV buffer in bits
+export function vbv_buffer_size(header: SequenceHeader, extension?: SequenceExtension) {
+  return ((extension?.vbv_buffer_size_extension ?? 0) << 10 | header.vbv_buffer_size_value) * 16 * 1024;
+}
+
+// ISO/IEC 11172-2 2.4.3.2 pel_aspect_ratio, the height of a pel over its width, of MPEG-1 video
+const pel_aspect_ratios = [
+  NaN, 1.0, 0.6735, 0.7031, 0.7615, 0.8055, 0.8437, 0.8935, 0.9157, 0.9815, 1.0255, 1.0695, 1.0950, 1.1575, 1.2015,
+];
+
+// Table 6-3 aspect_ratio_information and 6.3.3: the width of the displayed picture over its height, of the display
+// size of the sequence display extension where there is one, or undefined for a reserved aspect_ratio_information
+export function display_aspect_ratio(header: SequenceHeader, extension?: SequenceExtension, display?: SequenceDisplayExtension) {
+  const { width, height } = frame_size(header, extension);
+  if (extension === undefined) {
+    const pel_aspect_ratio = pel_aspect_ratios[header.aspect_ratio_information];
+    return pel_aspect_ratio !== undefined ? width / height / pel_aspect_ratio : undefined;
+  }
+  switch (header.aspect_ratio_information) {
+    case 1: return display !== undefined ? display.display_horizontal_size / display.display_vertical_size : width / height;
+    case 2: return 4 / 3;
+    case 3: return 16 / 9;
+    case 4: return 2.21;
+  }
+  return undefined;
+}
+
+// 6.3.5 chroma_format
+const chroma_formats = ['', '4:2:0', '4:2:2', '4:4:4'];
+
+export function chroma_format_text(extension?: SequenceExtension) {
+  return extension !== undefined ? chroma_formats[extension.chroma_format] : '4:2:0';
+}
+
+// Clause 8 profile_and_level_indication, as profile@level
+const profiles = ['', 'High', 'Spatially Scalable', 'SNR Scalable', 'Main', 'Simple'];
+const levels = new Map([[4, 'High'], [6, 'High 1440'], [8, 'Main'], [10, 'Low']]);
+// of the escape bit, the profiles that do not follow the hierarchy of the others
+const escaped_profiles_and_levels = new Map([
+  [0x82, '4:2:2@High'],
+  [0x85, '4:2:2@Main'],
+  [0x8A, 'Multi-view@High'],
+  [0x8B, 'Multi-view@High 1440'],
+  [0x8D, 'Multi-view@Main'],
+  [0x8E, 'Multi-view@Low'],
+]);
+
+// The profile and level, or undefined where they are reserved
+export function profile_and_level(extension: SequenceExtension) {
+  const indication = extension.profile_and_level_indication;
+  if (indication & 0x80) return escaped_profiles_and_levels.get(indication);
+  const profile = profiles[(indication >> 4) & 0x7];
+  const level = levels.get(indication & 0xF);
+  return profile && level !== undefined ? `${profile}@${level}` : undefined;
+}
+
+export type FieldOrder = 'progressive' | 'top_field_first' | 'bottom_field_first' | 'mixed';
+
+const picture_coding_type_letters = ['', 'I', 'P', 'B', 'D'];
+
+// The structure of a video stream from its headers: its first sequence, its groups of pictures and the order of the
+// fields of its frames. The picture types of a GOP are in decoding order, each frame counted once where it is coded as
+// two field pictures.
+export class VideoStructure {
+  private sequence_header?: SequenceHeader;
+  private sequence_extension?: SequenceExtension;
+  private sequence_display_extension?: SequenceDisplayExtension;
+  private first_gop?: GroupOfPicturesHeader;
+  private gops = 0;
+  private closed_gops = 0;
+  // picture types of the GOP being received, and of the first complete one
+  private pattern = '';
+  private first_pattern?: string;
+  private max_gop_length = 0;
+  private frames = 0;
+  private second_field = false;
+  private counts: Record<'progressive' | 'top_field_first' | 'bottom_field_first', number> = {
+    progressive: 0, top_field_first: 0, bottom_field_first: 0,
+  };
+  private repeat_first_field = 0;
+  // the start code before the current one, as an extension applies to the header it follows
+  private last_start_code?: number;
+
+  push(unit: VideoUnit) {
+    if ('sequence_header' in unit) {
+      this.sequence_header ??= unit.sequence_header;
+    } else if ('sequence_extension' in unit) {
+      if (this.last_start_code === StartCode.sequence_header) this.sequence_extension ??= unit.sequence_extension;
+    } else if ('sequence_display_extension' in unit) {
+      this.sequence_display_extension ??= unit.sequence_display_extension;
+    } else if ('group_of_pictures_header' in unit) {
+      this.end_gop();
+      this.first_gop ??= unit.group_of_pictures_header;
+      this.gops++;
+      if (unit.group_of_pictures_header.closed_gop) this.closed_gops++;
+    } else if ('picture_header' in unit) {
+      this.pattern += picture_coding_type_letters[unit.picture_header.picture_coding_type];
+      this.frames++;
+      // MPEG-1 video has only progressive frames, and no picture coding extension to say otherwise
+      if (this.sequence_extension === undefined) this.counts.progressive++;
+    } else if ('picture_coding_extension' in unit) {
+      this.picture_coding_extension(unit.picture_coding_extension);
+    }
+    if (!('user_data' in unit)) this.last_start_code = unit.start_code;
+  }
+
+  private picture_coding_extension(extension: PictureCodingExtension) {
+    if (extension.picture_structure !== PictureStructure.frame) {
+      this.second_field = !this.second_field;
+      if (!this.second_field) {
+        // the second field of a frame, counted with the first
+        this.pattern = this.pattern.slice(0, -1);
+        this.frames--;
+        return;
+      }
+      this.counts[extension.picture_structure === PictureStructure.top_field ? 'top_field_first' : 'bottom_field_first']++;
+      return;
+    }
+    this.second_field = false;
+    if (extension.repeat_first_field) this.repeat_first_field++;
+    if (extension.progressive_frame) this.counts.progressive++;
+    else this.counts[extension.top_field_first ? 'top_field_first' : 'bottom_field_first']++;
+  }
+
+  // The pictures before the first GOP header, of a stream joined midway, are not of a complete GOP
+  private end_gop() {
+    if (this.gops > 0 && this.pattern !== '') {
+      this.first_pattern ??= this.pattern;
+      this.max_gop_length = Math.max(this.max_gop_length, this.pattern.length);
+    }
+    this.pattern = '';
+  }
+
+  result() {
+    const header = this.sequence_header;
+    if (header === undefined) return undefined;
+    const extension = this.sequence_extension;
+    const { progressive, top_field_first, bottom_field_first } = this.counts;
+    let field_order: FieldOrder | undefined;
+    if (top_field_first > 0 && bottom_field_first > 0) field_order = 'mixed';
+    else if (top_field_first > 0) field_order = 'top_field_first';
+    else if (bottom_field_first > 0) field_order = 'bottom_field_first';
+    else if (progressive > 0) field_order = 'progressive';
+    const rate = frame_rate(header, extension);
+    const bits = bit_rate(header, extension);
+    const aspect_ratio = display_aspect_ratio(header, extension, this.sequence_display_extension);
+    const profile = extension !== undefined ? profile_and_level(extension) : undefined;
+    // the GOP being received, which is the last one of the stream once it has ended
+    const last_pattern = this.gops > 0 && this.pattern !== '' ? this.pattern : undefined;
+    const first_pattern = this.first_pattern ?? last_pattern;
+    const max_gop_length = Math.max(this.max_gop_length, last_pattern?.length ?? 0);
+    return {
+      MPEG: extension !== undefined ? 2 : 1,
+      ...frame_size(header, extension),
+      ...(aspect_ratio !== undefined ? { display_aspect_ratio: aspect_ratio } : {}),
+      ...(rate !== undefined ? { frame_rate: rate } : {}),
+      ...(bits !== undefined ? { bit_rate: bits } : {}),
+      vbv_buffer_size: vbv_buffer_size(header, extension),
+      chroma_format: chroma_format_text(extension),
+      ...(profile !== undefined ? { profile_and_level: profile } : {}),
+      ...(extension !== undefined ? { progressive_sequence: extension.progressive_sequence, low_delay: extension.low_delay } : {}),
+      frames: this.frames,
+      ...(field_order !== undefined ? { field_order } : {}),
+      repeat_first_field: this.repeat_first_field,
+      GOPs: this.gops,
+      closed_GOPs: this.closed_gops,
+      ...(this.first_gop !== undefined ? { time_code: time_code_text(this.first_gop) } : {}),
+      ...(first_pattern !== undefined ? { GOP_pattern: first_pattern } : {}),
+      ...(max_gop_length > 0 ? { max_GOP_length: max_gop_length } : {}),
+    };
+  }
+}
+
+export type VideoStructureSummary = NonNullable<ReturnType<VideoStructure['result']>>;
@@ -0,0 +1,201 @@
+// 10 Splice descriptors
+// Each splice descriptor starts with a 32 bit identifier, of which only 'CUEI' descriptors are decoded.
+
+import { BitReader } from '../../reader.js';
+import { DescriptorRegistry } from '../mpeg2/descriptors.js';
+
+// 10.2 identifier 0x43554549 (ASCII 'CUEI')
+export const CUEI = 0x43554549;
+
+// Table 16 splice_descriptor_tag values
+export const enum SpliceDescriptorTag {
+  avail_descriptor = 0x00,
+  DTMF_descriptor = 0x01,
+  segmentation_descriptor = 0x02,
+  time_descriptor = 0x03,
+  audio_descriptor = 0x04,
+}
+
+// Table 22 segmentation_type_id, of the types referred to by name
+export const enum SegmentationType {
+  Not_Indicated = 0x00,
+  Content_Identification = 0x01,
+  Program_Start = 0x10,
+  Program_End = 0x11,
+  Program_Early_Termination = 0x12,
+  Program_Breakaway = 0x13,
+  Program_Resumption = 0x14,
+  Program_Runover_Planned = 0x15,
+  Program_Runover_Unplanned = 0x16,
+  Program_Overlap_Start = 0x17,
+  Program_Blackout_Override = 0x18,
+  Program_Join = 0x19,
+  Chapter_Start = 0x20,
+  Chapter_End = 0x21,
+  Break_Start = 0x22,
+  Break_End = 0x23,
+  Opening_Credit_Start = 0x24,
+  Opening_Credit_End = 0x25,
+  Closing_Credit_Start = 0x26,
+  Closing_Credit_End = 0x27,
+  Provider_Advertisement_Start = 0x30,
+  Provider_Advertisement_End = 0x31,
+  Distributor_Advertisement_Start = 0x32,
+  Distributor_Advertisement_End = 0x33,
+  Provider_Placement_Opportunity_Start = 0x34,
+  Provider_Placement_Opportunity_End = 0x35,
+  Distributor_Placement_Opportunity_Start = 0x36,
+  Distributor_Placement_Opportunity_End = 0x37,
+  Provider_Overlay_Placement_Opportunity_Start = 0x38,
+  Provider_Overlay_Placement_Opportunity_End = 0x39,
+  Distributor_Overlay_Placement_Opportunity_Start = 0x3A,
+  Distributor_Overlay_Placement_Opportunity_End = 0x3B,
+  Provider_Promo_Start = 0x3C,
+  Provider_Promo_End = 0x3D,
+  Distributor_Promo_Start = 0x3E,
+  Distributor_Promo_End = 0x3F,
+  Unscheduled_Event_Start = 0x40,
+  Unscheduled_Event_End = 0x41,
+  Alternate_Content_Opportunity_Start = 0x42,
+  Alternate_Content_Opportunity_End = 0x43,
+  Provider_Ad_Block_Start = 0x44,
+  Provider_Ad_Block_End = 0x45,
+  Distributor_Ad_Block_Start = 0x46,
+  Distributor_Ad_Block_End = 0x47,
+  Network_Start = 0x50,
+  Network_End = 0x51,
+}
+
+// 10.3.3.1 segmentation_type_id values that carry sub_segment_num and sub_segments_expected
+const sub_segmentation_types: number[] = [
+  SegmentationType.Provider_Placement_Opportunity_Start,
+  SegmentationType.Provider_Advertisement_Start,
+  SegmentationType.Distributor_Advertisement_Start,
+  SegmentationType.Distributor_Placement_Opportunity_Start,
+  SegmentationType.Provider_Overlay_Placement_Opportunity_Start,
+  SegmentationType.Distributor_Overlay_Placement_Opportunity_Start,
+  SegmentationType.Provider_Ad_Block_Start,
+  SegmentationType.Distributor_Ad_Block_Start,
+];
+
+function remaining_bytes(r: BitReader, descriptor_length: number) {
+  return r.bytes(descriptor_length - (r.tell() >>> 3));
+}
+
+// 10.3.1 avail_descriptor()
+export function parse_avail_descriptor(r: BitReader, descriptor_length: number) {
+  const identifier = r.uimsbf(32);
+  if (identifier !== CUEI) return { identifier, private_byte: remaining_bytes(r, descriptor_length) };
+  const provider_avail_id = r.uimsbf(32);
+  return { identifier, provider_avail_id };
+}
+
+// 10.3.2 DTMF_descriptor()
+export function parse_DTMF_descriptor(r: BitReader, descriptor_length: number) {
+  const identifier = r.uimsbf(32);
+  if (identifier !== CUEI) return { identifier, private_byte: remaining_bytes(r, descriptor_length) };
+  const preroll = r.uimsbf(8);
+  const dtmf_count = r.uimsbf(3);
+  r.skip(5); // reserved
+  const DTMF_char = String.fromCharCode(...r.bytes(dtmf_count));
+  return { identifier, preroll, DTMF_char };
+}
+
+// 10.3.3 segmentation_descriptor()
+export function parse_segmentation_descriptor(r: BitReader, descriptor_length: number) {
+  const identifier = r.uimsbf(32);
+  if (identifier !== CUEI) return { identifier, private_byte: remaining_bytes(r, descriptor_length) };
+  const segmentation_event_id = r.uimsbf(32);
+  const segmentation_event_cancel_indicator = r.bslbf(1) === 1;
+  const segmentation_event_id_compliance_indicator = r.bslbf(1) === 1;
+  r.skip(6); // reserved
+  if (segmentation_event_cancel_indicator) {
+    return { identifier, segmentation_event_id, segmentation_event_cancel_indicator, segmentation_event_id_compliance_indicator };
+  }
+  const program_segmentation_flag = r.bslbf(1) === 1;
+  const segmentation_duration_flag = r.bslbf(1) === 1;
+  const delivery_not_restricted_flag = r.bslbf(1) === 1;
+  const optional: {
+    web_delivery_allowed_flag?: boolean; no_regional_blackout_flag?: boolean; archive_allowed_flag?: boolean;
+    device_restrictions?: number; components?: { component_tag: number; pts_offset: number }[];
+    segmentation_duration?: number; sub_segment_num?: number; sub_segments_expected?: number;
+  } = {};
+  if (!delivery_not_restricted_flag) {
+    optional.web_delivery_allowed_flag = r.bslbf(1) === 1;
+    optional.no_regional_blackout_flag = r.bslbf(1) === 1;
+    optional.archive_allowed_flag = r.bslbf(1) === 1;
+    optional.device_restrictions = r.uimsbf(2);
+  } else {
+    r.skip(5); // reserved
+  }
+  if (!program_segmentation_flag) {
+    const component_count = r.uimsbf(8);
+    optional.components = [];
+    for (let i = 0; i < component_count; i++) {
+      const component_tag = r.uimsbf(8);
+      r.skip(7); // reserved
+      optional.components.push({ component_tag, pts_offset: r.uimsbf(33) });
+    }
+  }
+  if (segmentation_duration_flag) optional.segmentation_duration = r.uimsbf(40);
+  const segmentation_upid_type = r.uimsbf(8);
+  const segmentation_upid_length = r.uimsbf(8);
+  const segmentation_upid = r.bytes(segmentation_upid_length);
+  const segmentation_type_id = r.uimsbf(8);
+  const segment_num = r.uimsbf(8);
+  const segments_expected = r.uimsbf(8);
+  // sub_segment_num and sub_segments_expected were added in a later edition, so may be absent
+  if (sub_segmentation_types.includes(segmentation_type_id) && descriptor_length - (r.tell() >>> 3) >= 2) {
+    optional.sub_segment_num = r.uimsbf(8);
+    optional.sub_segments_expected = r.uimsbf(8);
+  }
+  return {
+    identifier,
+    segmentation_event_id,
+    segmentation_event_cancel_indicator,
+    segmentation_event_id_compliance_indicator,
+    program_segmentation_flag,
+    delivery_not_restricted_flag,
+    segmentation_upid_type,
+    segmentation_upid,
+    segmentation_type_id,
+    segment_num,
+    segments_expected,
+    ...optional,
+  };
+}
+
+// 10.3.4 time_descriptor()
+export function parse_time_descriptor(r: BitReader, descriptor_length: number) {
+  const identifier = r.uimsbf(32);
+  if (identifier !== CUEI) return { identifier, private_byte: remaining_bytes(r, descriptor_length) };
+  const TAI_seconds = r.uimsbf(48);
+  const TAI_ns = r.uimsbf(32);
+  const UTC_offset = r.uimsbf(16);
+  return { identifier, TAI_seconds, TAI_ns, UTC_offset };
+}
+
+// 10.3.5 audio_descriptor()
+export function parse_audio_descriptor(r: BitReader, descriptor_length: number) {
+  const identifier = r.uimsbf(32);
+  if (identifier !== CUEI) return { identifier, private_byte: remaining_bytes(r, descriptor_length) };
+  const audio_count = r.uimsbf(4);
+  r.skip(4); // reserved
+  const components: { component_tag: number; ISO_code: string; Bit_Stream_Mode: number; Num_Channels: number; Full_Srvc_Audio: boolean }[] = [];
+  for (let i = 0; i < audio_count; i++) {
+    const component_tag = r.uimsbf(8);
+    const ISO_code = String.fromCharCode(...r.bytes(3));
+    const Bit_Stream_Mode = r.uimsbf(3);
+    const Num_Channels = r.uimsbf(4);
+    const Full_Srvc_Audio = r.bslbf(1) === 1;
+    components.push({ component_tag, ISO_code, Bit_Stream_Mode, Num_Channels, Full_Srvc_Audio });
+  }
+  return { identifier, components };
+}
+
+export const splice_descriptor_registry = new DescriptorRegistry()
+  .register(SpliceDescriptorTag.avail_descriptor, parse_avail_descriptor)
+  .register(SpliceDescriptorTag.DTMF_descriptor, parse_DTMF_descriptor)
+  .register(SpliceDescriptorTag.segmentation_descriptor, parse_segmentation_descriptor)
+  .register(SpliceDescriptorTag.time_descriptor, parse_time_descriptor)
+  .register(SpliceDescriptorTag.audio_descriptor, parse_audio_descriptor);
@@ -0,0 +1,243 @@
+// 9.6 Splice info section
+// Encrypted sections are flagged and their splice command and descriptors left encrypted.
+
+import { BitReader } from '../../reader.js';
+import { Descriptor, DescriptorRegistry, parse_descriptors } from '../mpeg2/descriptors.js';
+import { CRCMismatchError, crc32 } from '../mpeg2/psi.js';
+import { MalformedDataError } from '../mpeg2/syntax.js';
+import { splice_descriptor_registry } from './splice_descriptors.js';
+
+export { CRCMismatchError, MalformedDataError };
+
+// 9.6.1 table_id of splice_info_section
+export const splice_info_table_id = 0xFC;
+
+// 8.1 stream_type of the PIDs carrying splice_info_section in the PMT
+export const SCTE_35_stream_type = 0x86;
+
+// Table 7 splice_command_type values
+export const enum SpliceCommandType {
+  splice_null = 0x00,
+  splice_schedule = 0x04,
+  splice_insert = 0x05,
+  time_signal = 0x06,
+  bandwidth_reservation = 0x07,
+  private_command = 0xFF,
+}
+
+// Table 8 encryption_algorithm
+export const enum EncryptionAlgorithm {
+  none = 0,
+  DES_ECB = 1,
+  DES_CBC = 2,
+  Triple_DES_EDE3_ECB = 3,
+}
+
+// 9.8.1 splice_time(), with pts_time undefined where time_specified_flag is 0
+function parse_splice_time(r: BitReader) {
+  const time_specified_flag = r.bslbf(1);
+  if (time_specified_flag) {
+    r.skip(6); // reserved
+    return { pts_time: r.uimsbf(33) };
+  }
+  r.skip(7); // reserved
+  return {};
+}
+
+// 9.8.2 break_duration()
+function parse_break_duration(r: BitReader) {
+  const auto_return = r.bslbf(1) === 1;
+  r.skip(6); // reserved
+  const duration = r.uimsbf(33);
+  return { auto_return, duration };
+}
+
+export type SpliceTime = ReturnType<typeof parse_splice_time>;
+export type BreakDuration = ReturnType<typeof parse_break_duration>;
+
+// 9.7.2 splice_schedule()
+function parse_splice_schedule(r: BitReader) {
+  const splice_count = r.uimsbf(8);
+  const events: {
+    splice_event_id: number; splice_event_cancel_indicator: boolean; event_id_compliance_flag: boolean;
+    out_of_network_indicator?: boolean; utc_splice_time?: number; components?: { component_tag: number; utc_splice_time: number }[];
+    break_duration?: BreakDuration; unique_program_id?: number; avail_num?: number; avails_expected?: number;
+  }[] = [];
+  for (let i = 0; i < splice_count; i++) {
+    const splice_event_id = r.uimsbf(32);
+    const splice_event_cancel_indicator = r.bslbf(1) === 1;
+    const event_id_compliance_flag = r.bslbf(1) === 1;
+    r.skip(6); // reserved
+    if (splice_event_cancel_indicator) {
+      events.push({ splice_event_id, splice_event_cancel_indicator, event_id_compliance_flag });
+      continue;
+    }
+    const out_of_network_indicator = r.bslbf(1) === 1;
+    const program_splice_flag = r.bslbf(1);
+    const duration_flag = r.bslbf(1);
+    r.skip(5); // reserved
+    const optional: { utc_splice_time?: number; components?: { component_tag: number; utc_splice_time: number }[]; break_duration?: BreakDuration } = {};
+    if (program_splice_flag) {
+      optional.utc_splice_time = r.uimsbf(32);
+    } else {
+      const component_count = r.uimsbf(8);
+      optional.components = [];
+      for (let j = 0; j < component_count; j++) {
+        const component_tag = r.uimsbf(8);
+        optional.components.push({ component_tag, utc_splice_time: r.uimsbf(32) });
+      }
+    }
+    if (duration_flag) optional.break_duration = parse_break_duration(r);
+    const unique_program_id = r.uimsbf(16);
+    const avail_num = r.uimsbf(8);
+    const avails_expected = r.uimsbf(8);
+    events.push({
+      splice_event_id, splice_event_cancel_indicator, event_id_compliance_flag, out_of_network_indicator, ...optional,
+      unique_program_id, avail_num, avails_expected,
+    });
+  }
+  return { events };
+}
+
+// 9.7.3 splice_insert()
+function parse_splice_insert(r: BitReader) {
+  const splice_event_id = r.uimsbf(32);
+  const splice_event_cancel_indicator = r.bslbf(1) === 1;
+  r.skip(7); // reserved
+  if (splice_event_cancel_indicator) return { splice_event_id, splice_event_cancel_indicator };
+  const out_of_network_indicator = r.bslbf(1) === 1;
+  const program_splice_flag = r.bslbf(1) === 1;
+  const duration_flag = r.bslbf(1);
+  const splice_immediate_flag = r.bslbf(1) === 1;
+  const event_id_compliance_flag = r.bslbf(1) === 1;
+  r.skip(3); // reserved
+  const optional: { splice_time?: SpliceTime; components?: { component_tag: number; splice_time?: SpliceTime }[]; break_duration?: BreakDuration } = {};
+  if (program_splice_flag && !splice_immediate_flag) optional.splice_time = parse_splice_time(r);
+  if (!program_splice_flag) {
+    const component_count = r.uimsbf(8);
+    optional.components = [];
+    for (let i = 0; i < component_count; i++) {
+      const component_tag = r.uimsbf(8);
+      optional.components.push({ component_tag, ...(!splice_immediate_flag ? { splice_time: parse_splice_time(r) } : {}) });
+    }
+  }
+  if (duration_flag) optional.break_duration = parse_break_duration(r);
+  const unique_program_id = r.uimsbf(16);
+  const avail_num = r.uimsbf(8);
+  const avails_expected = r.uimsbf(8);
+  return {
+    splice_event_id,
+    splice_event_cancel_indicator,
+    out_of_network_indicator,
+    program_splice_flag,
+    splice_immediate_flag,
+    event_id_compliance_flag,
+    ...optional,
+    unique_program_id,
+    avail_num,
+    avails_expected,
+  };
+}
+
+// 9.7.4 time_signal()
+function parse_time_signal(r: BitReader) {
+  return { splice_time: parse_splice_time(r) };
+}
+
+// 9.7.6 private_command()
+function parse_private_command(r: BitReader, end: number) {
+  const identifier = r.uimsbf(32);
+  const private_byte = r.bytes((end - r.tell()) >>> 3);
+  return { identifier, private_byte };
+}
+
+export type SpliceCommand =
+  | { splice_command_type: SpliceCommandType.splice_null }
+  | { splice_command_type: SpliceCommandType.splice_schedule } & ReturnType<typeof parse_splice_schedule>
+  | { splice_command_type: SpliceCommandType.splice_insert } & ReturnType<typeof parse_splice_insert>
+  | { splice_command_type: SpliceCommandType.time_signal } & ReturnType<typeof parse_time_signal>
+  | { splice_command_type: SpliceCommandType.bandwidth_reservation }
+  | { splice_command_type: SpliceCommandType.private_command } & ReturnType<typeof parse_private_command>;
+
+// 9.7 Splice commands. The end of private_command is given by splice_command_length, or the end of the section.
+function parse_splice_command(r: BitReader, splice_command_type: number, end: number): SpliceCommand {
+  switch (splice_command_type) {
+    case SpliceCommandType.splice_null:
+    case SpliceCommandType.bandwidth_reservation:
+      return { splice_command_type };
+    case SpliceCommandType.splice_schedule:
+      return { splice_command_type, ...parse_splice_schedule(r) };
+    case SpliceCommandType.splice_insert:
+      return { splice_command_type, ...parse_splice_insert(r) };
+    case SpliceCommandType.time_signal:
+      return { splice_command_type, ...parse_time_signal(r) };
+    case SpliceCommandType.private_command:
+      return { splice_command_type, ...parse_private_command(r, end) };
+  }
+  throw new MalformedDataError(`splice_command_type 0x${splice_command_type.toString(16)} is reserved`);
+}
+
+// Table 5 splice_info_section()
+export function parse_splice_info_section(section: Uint8Array, registry: DescriptorRegistry = splice_descriptor_registry) {
+  if (crc32(section) !== 0) throw new CRCMismatchError('CRC_32 mismatch');
+  const r = new BitReader(section);
+  const table_id = r.uimsbf(8);
+  if (table_id !== splice_info_table_id) throw new MalformedDataError(`Expected table_id ${splice_info_table_id} but got ${table_id}`);
+  const section_syntax_indicator = r.bslbf(1);
+  if (section_syntax_indicator !== 0) throw new MalformedDataError('Expected section_syntax_indicator to be 0');
+  const private_indicator = r.bslbf(1);
+  const sap_type = r.uimsbf(2);
+  const section_length = r.uimsbf(12);
+  if (section_length > 4093) throw new MalformedDataError('section_length shall not exceed 4093');
+  if (3 + section_length !== section.length) throw new MalformedDataError('Section length mismatch');
+  const protocol_version = r.uimsbf(8);
+  const encrypted_packet = r.bslbf(1) === 1;
+  const encryption_algorithm = r.uimsbf(6);
+  const pts_adjustment = r.uimsbf(33);
+  const cw_index = r.uimsbf(8);
+  const tier = r.uimsbf(12);
+  const splice_command_length = r.uimsbf(12);
+  const header = {
+    table_id,
+    private_indicator,
+    sap_type,
+    protocol_version,
+    encrypted_packet,
+    encryption_algorithm,
+    pts_adjustment,
+    cw_index,
+    tier,
+  };
+  const CRC_end = (section.length - 4) * 8;
+  if (encrypted_packet) {
+    // from splice_command_type up to E_CRC_32, of which the alignment_stuffing is not known without decryption
+    const encrypted_data = r.bytes((CRC_end - r.tell()) >>> 3);
+    return { ...header, encrypted_data, CRC_32: r.uimsbf(32) };
+  }
+  const splice_command_type = r.uimsbf(8);
+  // 0xFFF is given by older equipment, for a splice command of which the length is not known
+  const command_end = splice_command_length !== 0xFFF ? r.tell() + 8 * splice_command_length : CRC_end - 16;
+  const splice_command = parse_splice_command(r, splice_command_type, command_end);
+  if (splice_command_length !== 0xFFF) {
+    if (r.tell() > command_end) throw new MalformedDataError('Splice command overruns splice_command_length');
+    r.skip(command_end - r.tell());
+  }
+  const descriptor_loop_length = r.uimsbf(16);
+  const descriptors: Descriptor[] = parse_descriptors(r, descriptor_loop_length, registry);
+  if (r.tell() > CRC_end) throw new MalformedDataError('Descriptor loop overruns the section');
+  r.skip(CRC_end - r.tell()); // alignment_stuffing
+  return { ...header, splice_command, descriptors, CRC_32: r.uimsbf(32) };
+}
+
+export type SpliceInfoSection = ReturnType<typeof parse_splice_info_section>;
+
+// 9.6.2 The splice time of a splice_insert or time_signal command in units of 90 kHz, with pts_adjustment added. It is
+// undefined for other commands, immediate splices and splice_insert commands with a splice time per component.
+export function splice_PTS(section: SpliceInfoSection) {
+  if (!('splice_command' in section)) return undefined;
+  const command = section.splice_command;
+  if (command.splice_command_type !== SpliceCommandType.splice_insert && command.splice_command_type !== SpliceCommandType.time_signal) return undefined;
+  const pts_time = 'splice_time' in command ? command.splice_time?.pts_time : undefined;
+  if (pts_time === undefined) return undefined;
+  return (pts_time + section.pts_adjustment) % Math.pow(2, 33);
+}
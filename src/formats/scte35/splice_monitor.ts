@@ -0,0 +1,126 @@
+// 8 Splice points: correlates splice_info_sections with the splice points of a video PID, as signalled by the
+// splice_countdown of its adaptation fields and the PTS of its access units.
+
+import { UnexpectedEOFError } from '../../reader.js';
+import { timestamp_difference } from '../mpeg2/clock.js';
+import { SectionAssembler } from '../mpeg2/psi.js';
+import { MalformedDataError, UnimplementedReserveError } from '../mpeg2/syntax.js';
+import { TransportPacket, has_PES_header } from '../mpeg2/transport_stream.js';
+import { splice_descriptor_registry } from './splice_descriptors.js';
+import { SpliceCommandType, SpliceInfoSection, parse_splice_info_section, splice_PTS } from './splice_info_section.js';
+
+export type SpliceCue = {
+  section: SpliceInfoSection;
+  // index among the packets pushed, of the packet completing the section
+  packet_index: number;
+  // splice time in units of 90 kHz, with pts_adjustment added
+  splice_PTS?: number;
+  // The first access unit in decoding order of which the PTS is at or after the splice time, or the access unit after
+  // the section for an immediate splice. Other cues, such as splice_null or cancels, have no access unit.
+  access_unit?: {
+    PTS: number;
+    packet_index: number;
+    // PTS minus splice_PTS in units of 90 kHz, which is 0 for a frame accurate splice
+    offset?: number;
+    random_access_indicator: boolean;
+    // whether splice_countdown reached 0 in the last packet of the video PID before the access unit
+    splice_countdown: boolean;
+  };
+};
+
+// 2.4.3.7 PTS of a PES packet starting in the payload of a transport packet
+function PES_PTS(data: Uint8Array | undefined) {
+  if (data === undefined || data.length < 14 || data[0] !== 0x00 || data[1] !== 0x00 || data[2] !== 0x01) return undefined;
+  if (!has_PES_header(data[3])) return undefined;
+  if ((data[6] & 0xC0) !== 0x80 || (data[7] & 0x80) === 0) return undefined;
+  return ((data[9] >> 1) & 0x7) * Math.pow(2, 30) + (data[10] << 7 | data[11] >> 1) * Math.pow(2, 15) + (data[12] << 7 | data[13] >> 1);
+}
+
+// Whether the section splices at the access unit after it rather than at a splice time
+function is_immediate(section: SpliceInfoSection) {
+  if (!('splice_command' in section)) return false;
+  const command = section.splice_command;
+  switch (command.splice_command_type) {
+    case SpliceCommandType.splice_insert:
+      return 'splice_immediate_flag' in command && command.splice_immediate_flag && command.program_splice_flag;
+    case SpliceCommandType.time_signal:
+      return command.splice_time.pts_time === undefined;
+  }
+  return false;
+}
+
+// Cues are given once their access unit is found, or at once where they have none. Sections with a CRC_32 mismatch,
+// or that cannot be parsed, are discarded.
+export class SpliceMonitor {
+  private assembler: SectionAssembler;
+  private pending: SpliceCue[] = [];
+  private packet_index = 0;
+  // set where splice_countdown reached 0, until the next access unit starts
+  private splice_point = false;
+
+  constructor(private splice_PID: number, private video_PID: number, private registry = splice_descriptor_registry) {
+    this.assembler = new SectionAssembler((PID) => PID === splice_PID);
+  }
+
+  push(packet: TransportPacket) {
+    const cues: SpliceCue[] = [];
+    if (packet.PID === this.splice_PID) {
+      for (const bytes of this.assembler.push(packet)) {
+        let section: SpliceInfoSection;
+        try {
+          section = parse_splice_info_section(bytes, this.registry);
+        } catch (e) {
+          if (e instanceof MalformedDataError || e instanceof UnimplementedReserveError || e instanceof UnexpectedEOFError) continue;
+          throw e;
+        }
+        const PTS = splice_PTS(section);
+        const cue: SpliceCue = { section, packet_index: this.packet_index, ...(PTS !== undefined ? { splice_PTS: PTS } : {}) };
+        if (PTS !== undefined || is_immediate(section)) {
+          this.pending.push(cue);
+        } else {
+          cues.push(cue);
+        }
+      }
+    } else if (packet.PID === this.video_PID && packet.transport_error_indicator === 0) {
+      const PTS = packet.payload_unit_start_indicator === 1 ? PES_PTS(packet.data_byte) : undefined;
+      if (PTS !== undefined) {
+        this.pending = this.pending.filter((cue) => {
+          const offset = cue.splice_PTS !== undefined ? Math.round(timestamp_difference(PTS, cue.splice_PTS) * 90000) : undefined;
+          if (offset !== undefined && offset < 0) return true;
+          cues.push({
+            ...cue,
+            access_unit: {
+              PTS,
+              packet_index: this.packet_index,
+              ...(offset !== undefined ? { offset } : {}),
+              random_access_indicator: packet.adaptation_field?.random_access_indicator ?? false,
+              splice_countdown: this.splice_point,
+            },
+          });
+          return false;
+        });
+        this.splice_point = false;
+      }
+      // 2.4.3.5 the packet where splice_countdown reaches 0 is the last before the splice point
+      if (packet.adaptation_field?.splice_countdown === 0) this.splice_point = true;
+    }
+    this.packet_index++;
+    return cues;
+  }
+
+  // Gives the cues of which the access unit was not found before the end of the stream
+  flush() {
+    const cues = this.pending;
+    this.pending = [];
+    return cues;
+  }
+}
+
+// Yields the cues of the splice_info_sections on splice_PID, correlated with the access units on video_PID
+export async function* monitor_splices(packets: AsyncIterable<TransportPacket>, splice_PID: number, video_PID: number) {
+  const monitor = new SpliceMonitor(splice_PID, video_PID);
+  for await (const packet of packets) {
+    yield* monitor.push(packet);
+  }
+  yield* monitor.flush();
+}
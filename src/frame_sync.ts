@@ -0,0 +1,127 @@
+// Frame synchronization of elementary streams made of self-delimiting frames, such as audio sync frames
+
+export interface FrameFormat<H> {
+  // number of bytes from the sync word needed to parse a header
+  header_length: number;
+  // The header at the offset, or undefined where there is no valid header
+  parse_header(data: Uint8Array, offset: number): H | undefined;
+  // number of bytes of the frame, including its header
+  frame_length(header: H): number;
+  // whether the header of the following frame belongs to the same stream, so that sync can be acquired
+  same_stream?(header: H, next: H): boolean;
+  // in units of the 90 kHz PTS clock
+  duration?(header: H): number;
+}
+
+export type Frame<H> = {
+  header: H;
+  data: Uint8Array;
+  // the PTS of the PES packet in which the frame starts, if it is the first frame starting there
+  PTS?: number;
+  duration?: number;
+  // number of bytes discarded before the frame while searching for sync
+  skipped?: number;
+};
+
+// Splits data pushed in chunks of any size, such as the PES_packet_data of consecutive PES packets, into frames.
+// Sync is acquired where a header is followed by another header at the end of its frame, and lost where a frame
+// is not followed by a header.
+export class FrameSynchronizer<H> {
+  private buffer = new Uint8Array(0);
+  // stream offset of buffer[0]
+  private position = 0;
+  private synchronized = false;
+  private skipped = 0;
+  // the stream offset at which each chunk starts, with its PTS until a frame is given it
+  private chunks: { position: number; PTS?: number }[] = [];
+
+  constructor(private format: FrameFormat<H>) { }
+
+  // 2.4.3.7 A PTS refers to the first access unit which starts in the PES packet
+  push(data: Uint8Array, PTS?: number) {
+    this.chunks.push({ position: this.position + this.buffer.length, ...(PTS !== undefined ? { PTS } : {}) });
+    const buffer = new Uint8Array(this.buffer.length + data.length);
+    buffer.set(this.buffer);
+    buffer.set(data, this.buffer.length);
+    this.buffer = buffer;
+    return this.frames(false);
+  }
+
+  // Ends the stream, giving a last frame of which sync cannot be confirmed by a following header
+  flush() {
+    const frames = this.frames(true);
+    this.position += this.buffer.length;
+    this.buffer = new Uint8Array(0);
+    this.synchronized = false;
+    this.skipped = 0;
+    this.chunks = [];
+    return frames;
+  }
+
+  private frames(end: boolean) {
+    const { format, buffer } = this;
+    const frames: Frame<H>[] = [];
+    let offset = 0;
+    for (; offset + format.header_length <= buffer.length;) {
+      const header = format.parse_header(buffer, offset);
+      const length = header !== undefined ? format.frame_length(header) : 0;
+      if (header === undefined || length < format.header_length) {
+        this.synchronized = false;
+        this.skipped++;
+        offset++;
+        continue;
+      }
+      if (offset + length > buffer.length) break;
+      if (!this.synchronized) {
+        const next_offset = offset + length;
+        if (next_offset + format.header_length > buffer.length) {
+          if (!end) break;
+        } else {
+          const next = format.parse_header(buffer, next_offset);
+          if (next === undefined || (format.same_stream !== undefined && !format.same_stream(header, next))) {
+            this.skipped++;
+            offset++;
+            continue;
+          }
+          this.synchronized = true;
+        }
+      }
+      frames.push(this.frame(header, buffer.subarray(offset, offset + length), this.position + offset));
+      offset += length;
+    }
+    if (end) this.skipped += buffer.length - offset;
+    this.buffer = buffer.subarray(offset);
+    this.position += offset;
+    return frames;
+  }
+
+  private frame(header: H, data: Uint8Array, position: number) {
+    const chunks = this.chunks;
+    while (chunks.length > 1 && chunks[1].position <= position) chunks.shift();
+    const PTS = chunks[0]?.PTS;
+    if (PTS !== undefined) delete chunks[0].PTS;
+    const duration = this.format.duration?.(header);
+    const frame: Frame<H> = {
+      header,
+      data,
+      ...(PTS !== undefined ? { PTS } : {}),
+      ...(duration !== undefined ? { duration } : {}),
+      ...(this.skipped > 0 ? { skipped: this.skipped } : {}),
+    };
+    this.skipped = 0;
+    return frame;
+  }
+}
+
+// Yields the frames of the PES_packet_data of consecutive PES packets of one elementary stream, such as those demux_PES
+// yields for a PID
+export async function* sync_frames<F>(
+  packets: AsyncIterable<{ PES_packet_data?: Uint8Array; PTS?: number }>,
+  synchronizer: { push(data: Uint8Array, PTS?: number): F[]; flush(): F[] },
+) {
+  for await (const { PES_packet_data, PTS } of packets) {
+    if (PES_packet_data === undefined) continue;
+    yield* synchronizer.push(PES_packet_data, PTS);
+  }
+  yield* synchronizer.flush();
+}
@@ -0,0 +1,6 @@
+export { UnrecognizedFormatError, open } from './open.js';
+export type { OpenOptions, OpenSource, Opened } from './open.js';
+export { sniff, sniff_bytes, sniff_length } from './sniff.js';
+export type { Format, SniffResult } from './sniff.js';
+export { BlobSource, ByteReader, FileHandleSource, MemorySource } from './reader.js';
+export type { FileHandle, RandomAccessSource } from './reader.js';
@@ -0,0 +1,104 @@
+// A single entry point for a stream of unknown format: the format is sniffed from the leading bytes and the stream
+// is given to the parser of that format.
+
+import { ADTSSynchronizer } from './formats/aac/adts.js';
+import { parse_byte_stream as parse_H264_byte_stream } from './formats/h264/nal_unit.js';
+import { parse_byte_stream as parse_H265_byte_stream } from './formats/h265/nal_unit.js';
+import { parse_JPEG } from './formats/jpeg/marker_segments.js';
+import { parse_PES_stream } from './formats/mpeg2/pes.js';
+import { parse_program_stream } from './formats/mpeg2/program_stream.js';
+import { ParseOptions, parse_transport_stream } from './formats/mpeg2/transport_stream.js';
+import { BlobSource, ByteReader, MemorySource, RandomAccessSource } from './reader.js';
+import { Format, sniff } from './sniff.js';
+import { byte_reader } from './streams.js';
+
+export class UnrecognizedFormatError extends Error { }
+
+export type OpenSource =
+  | ByteReader
+  | RandomAccessSource
+  | Uint8Array
+  | Blob
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+export type OpenOptions = ParseOptions & {
+  // the format to parse, rather than sniffing it
+  format?: Format;
+  // below which the most likely format is not taken, 0.5 by default
+  min_confidence?: number;
+};
+
+function is_random_access(source: object): source is RandomAccessSource {
+  return typeof (source as RandomAccessSource).read === 'function' && typeof (source as RandomAccessSource).size === 'function';
+}
+
+function reader(source: OpenSource) {
+  if (source instanceof ByteReader) return source;
+  if (source instanceof Uint8Array) return new ByteReader(new MemorySource(source));
+  if (typeof Blob !== 'undefined' && source instanceof Blob) return new ByteReader(new BlobSource(source));
+  if (is_random_access(source)) return new ByteReader(source);
+  return byte_reader(source as AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>);
+}
+
+// The bytes left in a reader, in the chunks it reads them in
+async function* chunks(b: ByteReader) {
+  while (!await b.eof()) {
+    const chunk = b.peek_buffer();
+    await b.skip(chunk.length);
+    yield chunk;
+  }
+}
+
+async function* ADTS_frames(b: ByteReader) {
+  const synchronizer = new ADTSSynchronizer();
+  for await (const chunk of chunks(b)) {
+    yield* synchronizer.push(chunk);
+  }
+  yield* synchronizer.flush();
+}
+
+// Sniffs the format of a source and starts its parser, of which the output is given by the format:
+// - mpegts: the transport packets of parse_transport_stream
+// - mpegps: the packs and PES packets of parse_program_stream
+// - pes: the PES packets of parse_PES_stream
+// - jpeg: the segments of parse_JPEG
+// - h264, h265: the NAL units of the parse_byte_stream of each
+// - adts: the frames of an ADTSSynchronizer
+export async function open(source: OpenSource, options: OpenOptions = {}) {
+  const b = reader(source);
+  const results = await sniff(b);
+  const result = options.format !== undefined
+    ? results.find((result) => result.format === options.format) ?? { format: options.format, confidence: 0 }
+    : results[0];
+  if (result === undefined || (options.format === undefined && result.confidence < (options.min_confidence ?? 0.5))) {
+    throw new UnrecognizedFormatError(result === undefined
+      ? 'Unrecognized format'
+      : `Unrecognized format, ${result.format} with confidence ${result.confidence.toFixed(2)} at most`);
+  }
+  const { confidence } = result;
+  switch (result.format) {
+    case 'mpegts':
+      return {
+        format: result.format,
+        confidence,
+        reader: b,
+        ...(result.packet_size !== undefined ? { packet_size: result.packet_size } : {}),
+        packets: parse_transport_stream(b, result.packet_size, options),
+      };
+    case 'mpegps':
+      return { format: result.format, confidence, reader: b, units: parse_program_stream(b, options) };
+    case 'pes':
+      return { format: result.format, confidence, reader: b, PES_packets: parse_PES_stream(b, options) };
+    case 'jpeg':
+      return { format: result.format, confidence, reader: b, segments: parse_JPEG(b) };
+    case 'h264':
+      return { format: result.format, confidence, reader: b, NAL_units: parse_H264_byte_stream(chunks(b)) };
+    case 'h265':
+      return { format: result.format, confidence, reader: b, NAL_units: parse_H265_byte_stream(chunks(b)) };
+    case 'adts':
+      return { format: result.format, confidence, reader: b, frames: ADTS_frames(b) };
+  }
+}
+
+export type Opened = Awaited<ReturnType<typeof open>>;
@@ -1,6 +1,7 @@
 export class UnexpectedEOFError extends Error {
-  constructor() {
-    super(`Unexpected EOF`);
+  // byte position of the read that reached the end, where it is known
+  constructor(readonly position?: number) {
+    super(position !== undefined ? `Unexpected EOF at byte ${position}` : `Unexpected EOF`);
   }
 }
 
@@ -10,30 +11,151 @@ export class ByteNotAlignedError extends Error {
   }
 }
 
+export class NotSeekableError extends Error {
+  constructor(position: number) {
+    super(`Cannot seek to byte ${position} of a sequential source`);
+  }
+}
+
 const empty_buffer = new Uint8Array();
+
+// A source of which any range of bytes can be read, such as a file. read gives fewer bytes than asked for only at the
+// end of the source.
+export interface RandomAccessSource {
+  size(): Promise<number>;
+  read(position: number, length: number): Promise<Uint8Array>;
+}
+
+export class MemorySource implements RandomAccessSource {
+  constructor(private data: Uint8Array) { }
+
+  async size() {
+    return this.data.length;
+  }
+
+  async read(position: number, length: number) {
+    return this.data.subarray(position, position + length);
+  }
+}
+
+export class BlobSource implements RandomAccessSource {
+  constructor(private blob: Blob) { }
+
+  async size() {
+    return this.blob.size;
+  }
+
+  async read(position: number, length: number) {
+    return new Uint8Array(await this.blob.slice(position, position + length).arrayBuffer());
+  }
+}
+
+// The methods of a Node.js FileHandle, as given by fs.promises.open, that FileHandleSource uses
+export interface FileHandle {
+  read(buffer: Uint8Array, offset: number, length: number, position: number): Promise<{ bytesRead: number }>;
+  stat(): Promise<{ size: number }>;
+}
+
+export class FileHandleSource implements RandomAccessSource {
+  constructor(private handle: FileHandle) { }
+
+  async size() {
+    return (await this.handle.stat()).size;
+  }
+
+  async read(position: number, length: number) {
+    const buffer = new Uint8Array(length);
+    let n = 0;
+    while (n < length) {
+      const { bytesRead } = await this.handle.read(buffer, n, length - n, position + n);
+      if (bytesRead === 0) break;
+      n += bytesRead;
+    }
+    return buffer.subarray(0, n);
+  }
+}
+
+function is_random_access(src: AsyncIterator<Uint8Array> | RandomAccessSource): src is RandomAccessSource {
+  return 'read' in src;
+}
+
+// bytes read from a random access source at a time
+const chunk_size = 65536;
+
+// Reads bytes from an iterator of chunks, or from a random access source, of which it may read only the bytes from
+// start up to end. Positions are in bytes from the start of the source.
 export class ByteReader {
   private offset: number = 0;
   private buffer: Uint8Array = empty_buffer;
+  // position of the first byte of the buffer
+  private base: number;
+  private src?: AsyncIterator<Uint8Array>;
+  private source?: RandomAccessSource;
+  private source_size?: number;
 
-  constructor(private src?: AsyncIterator<Uint8Array>) { }
+  constructor(src?: AsyncIterator<Uint8Array> | RandomAccessSource, private start = 0, private end = Infinity) {
+    this.base = start;
+    if (src !== undefined && is_random_access(src)) {
+      this.source = src;
+    } else {
+      this.src = src;
+    }
+  }
 
   private async next() {
+    if (this.source !== undefined) {
+      const position = this.base + this.buffer.length;
+      const length = Math.min(chunk_size, this.end - position);
+      if (length <= 0) return false;
+      const value = await this.source.read(position, length);
+      if (value.length === 0) return false;
+      this.buffer = value;
+      this.base = position;
+      this.offset = 0;
+      return true;
+    }
     if (this.src === undefined) return false;
     const { done, value } = await this.src.next();
     if (done) {
       this.src = undefined;
       return false;
     }
+    this.base += this.buffer.length;
     this.buffer = value;
     this.offset = 0;
     return true;
   }
 
+  // Position of the next byte to be read
+  tell() {
+    return this.base + this.offset;
+  }
+
+  // Number of bytes up to the end of a random access source, or of the range of it being read. It is undefined for
+  // an iterator.
+  async size() {
+    if (this.source === undefined) return undefined;
+    this.source_size ??= await this.source.size();
+    return Math.min(this.source_size, this.end) - this.start;
+  }
+
+  // Moves to a position of a random access source, or within the bytes buffered from an iterator
+  seek(position: number) {
+    if (position >= this.base && position <= this.base + this.buffer.length) {
+      this.offset = position - this.base;
+      return;
+    }
+    if (this.source === undefined || position < this.start) throw new NotSeekableError(position);
+    this.buffer = empty_buffer;
+    this.base = position;
+    this.offset = 0;
+  }
+
   async fill(out: Uint8Array) {
     let n = 0;
     for (; n < out.length;) {
       if (await this.eof()) {
-        throw new UnexpectedEOFError();
+        throw new UnexpectedEOFError(this.tell());
       }
       const len = Math.min(out.length - n, this.buffer.length - this.offset);
       out.set(this.buffer.subarray(this.offset, this.offset + len), n);
@@ -44,13 +166,14 @@ export class ByteReader {
 
   async byte() {
     if (await this.eof()) {
-      throw new UnexpectedEOFError();
+      throw new UnexpectedEOFError(this.tell());
     }
     return this.buffer[this.offset++];
   }
 
   async peek_bytes(n: number) {
     if (this.buffer.length - this.offset < n) {
+      const position = this.tell();
       const arr = [this.buffer.subarray(this.offset)];
       let len = arr[0].length;
       for (; len < n;) {
@@ -64,9 +187,10 @@ export class ByteReader {
         this.buffer.set(buf, offset);
         offset += buf.length;
       }
+      this.base = position;
       this.offset = 0;
     }
-    return this.buffer.subarray(this.offset, n);
+    return this.buffer.subarray(this.offset, this.offset + n);
   }
 
   async bytes(n: number) {
@@ -75,9 +199,66 @@ export class ByteReader {
     return buffer;
   }
 
+  // Discards n bytes without copying them. A random access source is not read past the buffer.
+  async skip(n: number) {
+    if (this.source !== undefined && n > this.buffer.length - this.offset) {
+      const position = this.tell() + n;
+      const size = await this.size();
+      if (position > this.start + size!) throw new UnexpectedEOFError(this.start + size!);
+      this.seek(position);
+      return;
+    }
+    for (; n > 0;) {
+      if (await this.eof()) {
+        throw new UnexpectedEOFError(this.tell());
+      }
+      const len = Math.min(n, this.buffer.length - this.offset);
+      n -= len;
+      this.offset += len;
+    }
+  }
+
+  // A reader of the next n bytes, which this reader moves past, keeping their positions. Those of a random access
+  // source that are not buffered yet are read as the new reader reads them.
+  async sub_reader(n: number) {
+    const position = this.tell();
+    const reader = new ByteReader(undefined, position);
+    if (n <= this.buffer.length - this.offset) {
+      reader.buffer = this.buffer.subarray(this.offset, this.offset + n);
+      this.offset += n;
+    } else if (this.source !== undefined) {
+      await this.skip(n);
+      return new ByteReader(this.source, position, position + n);
+    } else {
+      reader.buffer = await this.bytes(n);
+    }
+    return reader;
+  }
+
+  // Reads everything up to the end of the source
+  async rest() {
+    const chunks: Uint8Array[] = [];
+    let len = 0;
+    while (!await this.eof()) {
+      const chunk = this.buffer.subarray(this.offset);
+      chunks.push(chunk);
+      len += chunk.length;
+      this.offset = this.buffer.length;
+    }
+    const buffer = new Uint8Array(len);
+    let offset = 0;
+    for (const chunk of chunks) {
+      buffer.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return buffer;
+  }
+
   peek_buffer() {
     if (this.offset !== 0) {
       this.buffer = this.buffer.subarray(this.offset);
+      this.base += this.offset;
+      this.offset = 0;
     }
     return this.buffer;
   }
@@ -91,7 +272,9 @@ export class ByteReader {
     return false;
   }
 
+  // Puts bytes back in front of those not yet read, moving the position back by their length
   unshift(buffer: Uint8Array) {
+    const position = this.tell() - buffer.length;
     if (this.offset === this.buffer.length) {
       this.buffer = buffer;
       this.offset = 0;
@@ -102,77 +285,249 @@ export class ByteReader {
       this.buffer = merged;
       this.offset = 0;
     }
+    this.base = position;
   }
 }
 
 const done_result = { done: true, value: undefined } as const;
-export class Stream<T> implements AsyncIterator<T> {
+
+export class StreamClosedError extends Error {
+  constructor() {
+    super(`Stream was closed by its consumer`);
+  }
+}
+
+export type StreamOptions = {
+  // number of values queued at which push returns false and write waits for the consumer
+  high_water_mark?: number;
+  // errors the stream with the reason of the abort
+  signal?: AbortSignal;
+};
+
+// A queue of values pushed by a producer and read by a consumer as an async iterator. The producer should wait on write,
+// or stop pushing once push returns false, until the consumer has caught up to the high-water mark.
+export class Stream<T> implements AsyncIterableIterator<T> {
   private ended = false;
+  // set when the consumer stops reading, after which pushed values are discarded
+  private closed = false;
+  private failure?: { reason: unknown };
   private push_queue: T[] = [];
-  private next_queue: ((result: IteratorResult<T>) => void)[] = [];
+  private next_queue: { resolve: (result: IteratorResult<T>) => void; reject: (reason: unknown) => void }[] = [];
+  private drain_queue: (() => void)[] = [];
+  private high_water_mark: number;
+  private signal?: AbortSignal;
+  // removed from the signal once the stream ends, errors or is closed
+  private on_abort = () => this.error(this.signal!.reason);
 
+  constructor(options: StreamOptions = {}) {
+    this.high_water_mark = options.high_water_mark ?? 16;
+    const signal = options.signal;
+    if (signal !== undefined) {
+      if (signal.aborted) {
+        this.error(signal.reason);
+      } else {
+        this.signal = signal;
+        signal.addEventListener('abort', this.on_abort, { once: true });
+      }
+    }
+  }
+
+  // Queues a value, giving whether fewer values than the high-water mark are queued.
+  // It throws the error of the stream once it has one.
   push(value: T) {
+    if (this.closed) return false;
+    if (this.failure !== undefined) throw this.failure.reason;
     if (this.ended) {
       throw new Error(`Cannot push after end`);
     }
-    if (this.push_queue.length > 0) {
-      this.push_queue.push(value);
-      return false;
+    const waiting = this.next_queue.shift();
+    if (waiting !== undefined) {
+      waiting.resolve({ done: false, value });
+      return true;
     }
-    const resolve = this.next_queue.shift();
-    if (resolve === undefined) {
-      this.push_queue.push(value);
-      return false;
-    }
-    resolve({ done: false, value });
-    return true;
+    this.push_queue.push(value);
+    return this.push_queue.length < this.high_water_mark;
+  }
+
+  // Queues a value and waits until fewer values than the high-water mark are queued. It rejects with the error of the
+  // stream, or StreamClosedError once the consumer has stopped reading.
+  async write(value: T) {
+    this.check_writable();
+    if (this.push(value)) return;
+    await new Promise<void>((resolve) => this.drain_queue.push(resolve));
+    this.check_writable();
+  }
+
+  private check_writable() {
+    if (this.failure !== undefined) throw this.failure.reason;
+    if (this.closed) throw new StreamClosedError();
   }
 
   end() {
+    this.release();
     this.ended = true;
-    for (const resolve of this.next_queue) {
+    for (const { resolve } of this.next_queue) {
       resolve(done_result);
     }
     this.next_queue = [];
   }
 
+  // Ends the stream with an error, which the consumer gets in place of the values still queued
+  error(reason: unknown) {
+    if (this.ended || this.closed) return;
+    this.release();
+    this.failure = { reason };
+    this.ended = true;
+    this.push_queue = [];
+    for (const { reject } of this.next_queue) {
+      reject(reason);
+    }
+    this.next_queue = [];
+    this.drain();
+  }
+
+  private release() {
+    this.signal?.removeEventListener('abort', this.on_abort);
+    this.signal = undefined;
+  }
+
+  private drain() {
+    const drain_queue = this.drain_queue;
+    this.drain_queue = [];
+    for (const resolve of drain_queue) {
+      resolve();
+    }
+  }
+
+  private close() {
+    this.release();
+    this.closed = true;
+    this.ended = true;
+    this.push_queue = [];
+    this.drain();
+  }
+
   async next() {
-    const value = this.push_queue.shift();
-    if (value !== undefined) {
-      return { done: false, value };
+    if (this.push_queue.length > 0) {
+      const value = this.push_queue.shift()!;
+      if (this.push_queue.length < this.high_water_mark) this.drain();
+      return { done: false, value } as const;
+    }
+    if (this.failure !== undefined) {
+      throw this.failure.reason;
     }
     if (this.ended) {
       return done_result;
     }
-    return new Promise<IteratorResult<T>>((resolve) => {
-      this.next_queue.push(resolve);
+    return new Promise<IteratorResult<T>>((resolve, reject) => {
+      this.next_queue.push({ resolve, reject });
+      this.drain();
     });
   }
 
+  // The consumer stops reading, as on break out of for await
+  async return() {
+    this.close();
+    return done_result;
+  }
+
+  // The consumer stops reading because of an error
+  async throw(reason?: unknown): Promise<IteratorResult<T>> {
+    this.close();
+    throw reason;
+  }
+
   [Symbol.asyncIterator]() {
     return this;
   }
 }
 
+// ITU-T H.264 7.4.1 NAL unit semantics: removes each emulation_prevention_three_byte that follows two zero bytes,
+// giving the raw byte sequence payload. The data is returned as is if it has none.
+export function remove_emulation_prevention(data: Uint8Array) {
+  let i = find_emulation_prevention(data, 0);
+  if (i < 0) return data;
+  const rbsp = new Uint8Array(data.length);
+  let length = 0;
+  let start = 0;
+  for (; i >= 0; i = find_emulation_prevention(data, start)) {
+    rbsp.set(data.subarray(start, i), length);
+    length += i - start;
+    start = i + 1;
+  }
+  rbsp.set(data.subarray(start), length);
+  length += data.length - start;
+  return rbsp.subarray(0, length);
+}
+
+// index of the next 0x03 byte preceded by 0x0000, from start
+function find_emulation_prevention(data: Uint8Array, start: number) {
+  for (let i = data.indexOf(3, start + 2); i >= 0; i = data.indexOf(3, i + 1)) {
+    if (data[i - 1] === 0 && data[i - 2] === 0) return i;
+  }
+  return -1;
+}
+
+export class ExpGolombOverflowError extends Error {
+  constructor() {
+    super(`Exp-Golomb code is longer than 32 bits`);
+  }
+}
+
+export type BitReaderOptions = {
+  // reads the raw byte sequence payload of a NAL unit, with the emulation prevention bytes removed
+  rbsp?: boolean;
+};
+
 // 2.2.6 Mnemonics
 export class BitReader {
   private offset = 0;
-  constructor(private buffer: Uint8Array) { }
-  private msb() {
-    const byte = this.buffer[this.offset >>> 3];
-    const bit = (byte >>> (7 - (this.offset & 7))) & 1;
-    ++this.offset;
-    return bit;
+  private buffer: Uint8Array;
+  // bit position of the rbsp_stop_one_bit, found by more_rbsp_data
+  private stop_bit?: number;
+
+  constructor(buffer: Uint8Array, options: BitReaderOptions = {}) {
+    this.buffer = options.rbsp ? remove_emulation_prevention(buffer) : buffer;
+  }
+
+  // The n <= 25 bits at the offset, without advancing. Bits past the end of the buffer read as 0.
+  private peek(n: number) {
+    if (n === 0) return 0;
+    const b = this.buffer;
+    const p = this.offset >>> 3;
+    const word = p + 4 <= b.length
+      ? b[p] << 24 | b[p + 1] << 16 | b[p + 2] << 8 | b[p + 3]
+      : (b[p] ?? 0) << 24 | (b[p + 1] ?? 0) << 16 | (b[p + 2] ?? 0) << 8 | (b[p + 3] ?? 0);
+    return (word << (this.offset & 7)) >>> (32 - n);
+  }
+
+  private check_available(n: number) {
+    if (this.offset + n > this.buffer.length * 8) throw new UnexpectedEOFError;
   }
 
   // Unsigned integer, most significant bit first
   uimsbf(n: number) {
     if (n > 53) throw new Error('n must be <= 53');
-    if (this.offset + n > this.buffer.length * 8) throw new UnexpectedEOFError;
+    this.check_available(n);
     let value = 0;
-    for (let i = 0; i < n; i++) {
-      // TODO: optimize
-      value = (value * 2) + this.msb();
+    for (; n > 0;) {
+      const k = n < 24 ? n : 24;
+      value = value * (1 << k) + this.peek(k);
+      this.offset += k;
+      n -= k;
+    }
+    return value;
+  }
+
+  // Unsigned integer of any width as a bigint
+  uimsbf_bigint(n: number) {
+    this.check_available(n);
+    let value = BigInt(0);
+    for (; n > 0;) {
+      const k = n < 24 ? n : 24;
+      value = value << BigInt(k) | BigInt(this.peek(k));
+      this.offset += k;
+      n -= k;
     }
     return value;
   }
@@ -185,37 +540,90 @@ export class BitReader {
 
   // Two's complement integer, msb (sign) bit first
   tcimsbf(n: number) {
-    if (n > 53) throw new Error('n must be <= 53');
-    if (this.offset + n > this.buffer.length * 8) throw new UnexpectedEOFError;
-    let value = 0;
-    let negative = false;
-    for (let i = 0; i < n; i++) {
-      // TODO: optimize
-      const bit = this.msb();
-      if (i === 0 && bit === 1) {
-        negative = true;
+    const value = this.uimsbf(n);
+    return n > 0 && value >= 2 ** (n - 1) ? value - 2 ** n : value;
+  }
+
+  // Two's complement integer of any width as a bigint
+  tcimsbf_bigint(n: number) {
+    return BigInt.asIntN(n, this.uimsbf_bigint(n));
+  }
+
+  // ITU-T H.264 9.1 Parsing process for Exp-Golomb codes: ue(v)
+  ue() {
+    let leading_zero_bits = 0;
+    for (; ;) {
+      const k = Math.min(24, this.buffer.length * 8 - this.offset);
+      if (k <= 0) throw new UnexpectedEOFError;
+      const bits = this.peek(k);
+      if (bits !== 0) {
+        const zeros = Math.clz32(bits) - (32 - k);
+        leading_zero_bits += zeros;
+        this.offset += zeros + 1;
+        break;
       }
-      value = (value * 2) + (negative ? bit ^ 1 : bit);
-    }
-    if (negative) {
-      value = -(value + 1);
+      leading_zero_bits += k;
+      this.offset += k;
+      if (leading_zero_bits > 32) throw new ExpGolombOverflowError;
     }
+    if (leading_zero_bits > 32) throw new ExpGolombOverflowError;
+    return 2 ** leading_zero_bits - 1 + this.uimsbf(leading_zero_bits);
+  }
+
+  // ITU-T H.264 9.1.1 Mapping process for signed Exp-Golomb codes: se(v)
+  se() {
+    const k = this.ue();
+    return k % 2 === 1 ? (k + 1) / 2 : 0 - k / 2;
+  }
+
+  // 2.2.4 Method of describing bit stream syntax: the next bits without advancing
+  nextbits(n: number) {
+    const offset = this.offset;
+    const value = this.uimsbf(n);
+    this.offset = offset;
     return value;
   }
 
+  skip(n: number) {
+    this.check_available(n);
+    this.offset += n;
+  }
+
+  byte_aligned() {
+    return (this.offset & 7) === 0;
+  }
+
+  // Skips to the next byte boundary
+  byte_align() {
+    this.offset = (this.offset + 7) & ~7;
+  }
+
   check_byte_aligned() {
     if (this.offset & 7) throw new ByteNotAlignedError;
   }
 
+  // ITU-T H.264 7.2 more_rbsp_data(): whether there is more data before the rbsp_trailing_bits
+  more_rbsp_data() {
+    if (this.stop_bit === undefined) {
+      let p = this.buffer.length - 1;
+      // trailing cabac_zero_words
+      while (p >= 0 && this.buffer[p] === 0) p--;
+      this.stop_bit = p < 0 ? -1 : p * 8 + 7 - (31 - Math.clz32(this.buffer[p] & -this.buffer[p]));
+    }
+    return this.offset < this.stop_bit;
+  }
+
   bytes(n: number) {
     this.check_byte_aligned();
-    if ((this.offset >>> 3) + n > this.buffer.length) throw new UnexpectedEOFError;
-    const buffer = new Uint8Array(n);
-    for (let i = 0; i < n; i++) {
-      buffer[i] = this.buffer[this.offset >>> 3];
-      this.offset += 8;
-    }
-    return buffer;
+    const p = this.offset >>> 3;
+    if (p + n > this.buffer.length) throw new UnexpectedEOFError;
+    this.offset += n * 8;
+    return this.buffer.slice(p, p + n);
+  }
+
+  // Number of bits left to read
+  left() {
+    return this.buffer.length * 8 - this.offset;
   }
 
   tell() {
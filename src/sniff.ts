@@ -0,0 +1,152 @@
+// Identification of the format of a stream from its leading bytes. Each format that the bytes may be in is given
+// with a confidence from 0 to 1, which is 1 where the structure of the format repeats as expected over the bytes.
+
+import { ADTS } from './formats/aac/adts.js';
+import { split_byte_stream } from './formats/h264/byte_stream.js';
+import { PacketSize, detect_packet_size, sync_byte_count, sync_byte_offset } from './formats/mpeg2/transport_stream.js';
+import { ByteReader } from './reader.js';
+
+export type Format = 'mpegts' | 'mpegps' | 'pes' | 'jpeg' | 'h264' | 'h265' | 'adts';
+
+export type SniffResult = {
+  format: Format;
+  confidence: number;
+  // for mpegts
+  packet_size?: PacketSize;
+};
+
+// Number of leading bytes examined
+export const sniff_length = 4096;
+
+const sync_count = 5;
+
+function start_code(bytes: Uint8Array, offset: number) {
+  return bytes[offset] === 0x00 && bytes[offset + 1] === 0x00 && bytes[offset + 2] === 0x01 ? bytes[offset + 3] : undefined;
+}
+
+// Rec. ITU-T H.222.0 2.4.3.1: consecutive sync bytes at the packet size
+function sniff_transport_stream(bytes: Uint8Array): SniffResult | undefined {
+  const detected = detect_packet_size(bytes);
+  if (detected === undefined) return undefined;
+  const { packet_size, offset } = detected;
+  let n = 0;
+  for (let i = offset + sync_byte_offset(packet_size); i < bytes.length && bytes[i] === 0x47; i += packet_size) n++;
+  // a short stream has fewer packets to check, and at least 2 are detected
+  const expected = Math.max(2, Math.min(sync_count, sync_byte_count(bytes.length - offset, packet_size)));
+  const confidence = Math.min(1, n / sync_count) * (n >= expected ? 1 : 0.5) * (offset === 0 ? 1 : 0.9);
+  return { format: 'mpegts', confidence, packet_size };
+}
+
+// Rec. ITU-T H.222.0 2.5.3.3: a pack header, followed by a system header, a PES packet or the next pack
+function sniff_program_stream(bytes: Uint8Array): SniffResult | undefined {
+  if (start_code(bytes, 0) !== 0xBA) return undefined;
+  // the '0010' of an ISO/IEC 11172-1 system stream, which is not parsed
+  if (bytes.length > 4 && (bytes[4] & 0xF0) === 0x20) return undefined;
+  // '01' after pack_start_code
+  if (bytes.length > 4 && (bytes[4] & 0xC4) !== 0x44) return { format: 'mpegps', confidence: 0.5 };
+  if (bytes.length < 14) return { format: 'mpegps', confidence: 0.8 };
+  const end = 14 + (bytes[13] & 0x07);
+  if (bytes.length < end + 4) return { format: 'mpegps', confidence: 0.9 };
+  const next = start_code(bytes, end);
+  return { format: 'mpegps', confidence: next !== undefined && (next === 0xB9 || next >= 0xBA) ? 1 : 0.6 };
+}
+
+// Rec. ITU-T H.222.0 Table 2-22: the stream_ids of PES packets with no PES header fields
+const no_PES_header = new Set([0xBC, 0xBE, 0xBF, 0xF0, 0xF1, 0xF2, 0xF8, 0xFF]);
+
+// Rec. ITU-T H.222.0 2.4.3.6: PES packets one after another, as written by some capture and demux tools
+function sniff_PES(bytes: Uint8Array): SniffResult | undefined {
+  let offset = 0;
+  let n = 0;
+  for (; ;) {
+    const stream_id = start_code(bytes, offset);
+    if (stream_id === undefined || stream_id < 0xBC) break;
+    if (!no_PES_header.has(stream_id) && offset + 6 < bytes.length && (bytes[offset + 6] & 0xC0) !== 0x80) break;
+    n++;
+    const PES_packet_length = bytes[offset + 4] << 8 | bytes[offset + 5];
+    // unbounded, up to the end of the stream
+    if (PES_packet_length === 0) return { format: 'pes', confidence: 0.8 };
+    offset += 6 + PES_packet_length;
+    if (offset + 4 > bytes.length) return { format: 'pes', confidence: n >= 2 ? 1 : 0.8 };
+  }
+  return n === 0 ? undefined : { format: 'pes', confidence: n >= 2 ? 0.8 : 0.3 };
+}
+
+// ITU-T T.81 B.2.1: SOI followed by a marker
+function sniff_JPEG(bytes: Uint8Array): SniffResult | undefined {
+  if (bytes[0] !== 0xFF || bytes[1] !== 0xD8) return undefined;
+  return { format: 'jpeg', confidence: bytes[2] === 0xFF && bytes[3] >= 0xC0 && bytes[3] !== 0xFF ? 1 : 0.3 };
+}
+
+// Annex B byte streams of Rec. ITU-T H.264 and H.265: the share of NAL units of a type that the specification
+// defines, less where none of the types with which a stream starts are seen
+function sniff_byte_stream(bytes: Uint8Array): SniffResult[] {
+  let i = 0;
+  while (i < bytes.length && bytes[i] === 0x00) i++;
+  if (i < 2 || bytes[i] !== 0x01) return [];
+  const nal_units = split_byte_stream(bytes);
+  if (nal_units.length === 0) return [];
+  let AVC = 0;
+  let AVC_start = false;
+  let HEVC = 0;
+  let HEVC_start = false;
+  for (const nal_unit of nal_units) {
+    if (nal_unit[0] & 0x80) continue; // forbidden_zero_bit
+    // H.264 7.4.1: nal_unit_type 1-16 and 19-21
+    const nal_unit_type = nal_unit[0] & 0x1F;
+    if (nal_unit_type >= 1 && nal_unit_type <= 16 || nal_unit_type >= 19 && nal_unit_type <= 21) {
+      AVC++;
+      // IDR, SPS, access unit delimiter
+      if (nal_unit_type === 5 || nal_unit_type === 7 || nal_unit_type === 9) AVC_start = true;
+    }
+    // H.265 7.4.2.2: nal_unit_type 0-9, 16-21 and 32-40, of the base layer
+    if (nal_unit.length < 2) continue;
+    const type = (nal_unit[0] >> 1) & 0x3F;
+    const nuh_layer_id = (nal_unit[0] & 0x1) << 5 | nal_unit[1] >> 3;
+    const nuh_temporal_id_plus1 = nal_unit[1] & 0x7;
+    if (nuh_layer_id !== 0 || nuh_temporal_id_plus1 === 0) continue;
+    if (type <= 9 || type >= 16 && type <= 21 || type >= 32 && type <= 40) {
+      HEVC++;
+      // IRAP, VPS, SPS, access unit delimiter
+      if (type >= 16 && type <= 21 || type === 32 || type === 33 || type === 35) HEVC_start = true;
+    }
+  }
+  const results: SniffResult[] = [];
+  if (AVC > 0) results.push({ format: 'h264', confidence: AVC / nal_units.length * (AVC_start ? 1 : 0.5) });
+  if (HEVC > 0) results.push({ format: 'h265', confidence: HEVC / nal_units.length * (HEVC_start ? 1 : 0.5) });
+  return results;
+}
+
+// ISO/IEC 14496-3 1.A.2.2: ADTS frames, each followed by the header of the next
+function sniff_ADTS(bytes: Uint8Array): SniffResult | undefined {
+  const first = ADTS.parse_header(bytes, 0);
+  if (first === undefined) return undefined;
+  let offset = 0;
+  let n = 0;
+  for (; ;) {
+    const header = ADTS.parse_header(bytes, offset);
+    if (header === undefined || !ADTS.same_stream(first, header)) break;
+    n++;
+    offset += ADTS.frame_length(header);
+    if (offset + ADTS.header_length > bytes.length) {
+      return { format: 'adts', confidence: n >= 2 ? 1 : 0.5 };
+    }
+  }
+  return { format: 'adts', confidence: n >= 3 ? 1 : n === 2 ? 0.6 : 0.2 };
+}
+
+// The formats that the leading bytes of a stream may be in, most likely first
+export function sniff_bytes(bytes: Uint8Array) {
+  const results: SniffResult[] = [];
+  for (const sniffer of [sniff_transport_stream, sniff_program_stream, sniff_PES, sniff_JPEG, sniff_ADTS]) {
+    const result = sniffer(bytes);
+    if (result !== undefined && result.confidence > 0) results.push(result);
+  }
+  results.push(...sniff_byte_stream(bytes).filter((result) => result.confidence > 0));
+  return results.sort((a, b) => b.confidence - a.confidence);
+}
+
+// The formats that a stream may be in, from its leading bytes, which are left to be read
+export async function sniff(b: ByteReader, length = sniff_length) {
+  return sniff_bytes(await b.peek_bytes(length));
+}
@@ -0,0 +1,134 @@
+// Adapters from the async iterables of the parsers to Web Streams and Node.js streams.
+// A transform takes its source as an async iterable, so it is a stage of Node.js stream.pipeline as it is, and
+// to_transform_stream makes it a TransformStream for ReadableStream.pipeThrough. Reading is pulled by the consumer, so a
+// slow consumer holds back the source rather than letting data queue up.
+
+import { PESPacket, demux_PES } from './formats/mpeg2/pes.js';
+import { PacketSize, ParseOptions, TransportPacket, parse_transport_stream } from './formats/mpeg2/transport_stream.js';
+import { sync_frames } from './frame_sync.js';
+import { ByteReader, Stream } from './reader.js';
+
+// As given by stream.pipeline to each stage
+export type TransformOptions = { signal?: AbortSignal };
+
+export type Transform<I, O> = (source: AsyncIterable<I>, options?: TransformOptions) => AsyncIterable<O>;
+
+// Iterates a ReadableStream, cancelling it where the iteration stops before its end
+export async function* iterate_readable_stream<T>(readable: ReadableStream<T>) {
+  const reader = readable.getReader();
+  let finished = false;
+  try {
+    for (; ;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield value;
+    }
+    finished = true;
+  } finally {
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+function iterable<T>(source: AsyncIterable<T> | ReadableStream<T>): AsyncIterable<T> {
+  return Symbol.asyncIterator in source ? source : iterate_readable_stream(source);
+}
+
+// Iterates a source until the signal aborts, then throws its reason, without waiting for the pending value
+export async function* abortable<T>(source: AsyncIterable<T>, signal?: AbortSignal) {
+  if (signal === undefined) {
+    yield* source;
+    return;
+  }
+  if (signal.aborted) throw signal.reason;
+  const iterator = source[Symbol.asyncIterator]();
+  let abort!: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    abort = () => reject(signal.reason);
+    signal.addEventListener('abort', abort, { once: true });
+  });
+  aborted.catch(() => undefined);
+  try {
+    for (; ;) {
+      const result = await Promise.race([iterator.next(), aborted]);
+      if (result.done) return;
+      yield result.value;
+    }
+  } finally {
+    signal.removeEventListener('abort', abort);
+    if (signal.aborted) {
+      // the source may be waiting for data that never comes
+      iterator.return?.()?.catch(() => undefined);
+    } else {
+      await iterator.return?.();
+    }
+  }
+}
+
+// A ByteReader of the chunks of a Node.js Readable, a ReadableStream or any async iterable of bytes
+export function byte_reader(source: AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>, signal?: AbortSignal) {
+  return new ByteReader(abortable(iterable(source), signal)[Symbol.asyncIterator]());
+}
+
+// Bytes to transport packets, as parse_transport_stream
+export function transport_packets(packet_size?: PacketSize, parse_options?: ParseOptions) {
+  return (source: AsyncIterable<Uint8Array>, options: TransformOptions = {}) =>
+    parse_transport_stream(byte_reader(source, options.signal), packet_size, parse_options);
+}
+
+// Transport packets to the PES packets of the PIDs of the filter, as demux_PES
+export function PES_packets(filter?: (PID: number) => boolean, parse_options?: ParseOptions) {
+  return (source: AsyncIterable<TransportPacket>, options: TransformOptions = {}) =>
+    demux_PES(abortable(source, options.signal), filter, parse_options);
+}
+
+// The PES packets of one PID, as PES_packets yields, to the frames of a synchronizer such as an ADTSSynchronizer, as
+// sync_frames
+export function frames<F>(PID: number, synchronizer: { push(data: Uint8Array, PTS?: number): F[]; flush(): F[] }) {
+  return (source: AsyncIterable<{ PID: number; PES_packet: PESPacket }>, options: TransformOptions = {}) =>
+    sync_frames(elementary_stream(abortable(source, options.signal), PID), synchronizer);
+}
+
+async function* elementary_stream(source: AsyncIterable<{ PID: number; PES_packet: PESPacket }>, PID: number) {
+  for await (const packet of source) {
+    if (packet.PID === PID) yield packet.PES_packet;
+  }
+}
+
+// The readable and writable sides of a transform, which pipeThrough takes as a TransformStream. Up to
+// high_water_mark values written are queued for the transform before writes wait. Cancelling the readable side
+// aborts the transform and errors the writable side, and an error of the transform errors both.
+export function to_transform_stream<I, O>(
+  transform: (source: AsyncIterable<I>, options?: TransformOptions) => AsyncIterable<O>,
+  options: { high_water_mark?: number } = {},
+) {
+  const abort = new AbortController();
+  const input = new Stream<I>({ high_water_mark: options.high_water_mark, signal: abort.signal });
+  let iterator: AsyncIterator<O> | undefined;
+  const writable = new WritableStream<I>({
+    write: (chunk) => input.write(chunk),
+    close: () => input.end(),
+    abort: (reason) => input.error(reason),
+  });
+  const readable = new ReadableStream<O>({
+    async pull(controller) {
+      iterator ??= transform(input, { signal: abort.signal })[Symbol.asyncIterator]();
+      let result: IteratorResult<O>;
+      try {
+        result = await iterator.next();
+      } catch (e) {
+        abort.abort(e);
+        throw e;
+      }
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    cancel(reason) {
+      abort.abort(reason);
+    },
+  }, { highWaterMark: 0 });
+  return { readable, writable };
+}
@@ -0,0 +1,113 @@
+import { ByteNotAlignedError } from './reader.js';
+
+export class ValueOutOfRangeError extends RangeError {
+  constructor(value: number | bigint, n: number) {
+    super(`${value} does not fit in ${n} bits`);
+  }
+}
+
+// 2.2.6 Mnemonics, the counterpart of BitReader
+export class BitWriter {
+  private offset = 0;
+  private buffer = new Uint8Array(256);
+
+  private reserve(n: number) {
+    const length = (this.offset + n + 7) >>> 3;
+    if (length <= this.buffer.length) return;
+    const buffer = new Uint8Array(Math.max(length, this.buffer.length * 2));
+    buffer.set(this.buffer);
+    this.buffer = buffer;
+  }
+
+  // Writes the n <= 24 low bits of value
+  private put(n: number, value: number) {
+    for (; n > 0;) {
+      const free = 8 - (this.offset & 7);
+      const k = n < free ? n : free;
+      const bits = (value >>> (n - k)) & ((1 << k) - 1);
+      this.buffer[this.offset >>> 3] |= bits << (free - k);
+      this.offset += k;
+      n -= k;
+    }
+  }
+
+  // Unsigned integer, most significant bit first
+  uimsbf(n: number, value: number) {
+    if (n > 53) throw new Error('n must be <= 53');
+    if (!Number.isInteger(value) || value < 0 || value >= 2 ** n) throw new ValueOutOfRangeError(value, n);
+    this.reserve(n);
+    for (; n > 0;) {
+      const k = n % 24 || 24;
+      this.put(k, Math.floor(value / 2 ** (n - k)) % 2 ** k);
+      n -= k;
+    }
+  }
+
+  // Unsigned integer of any width from a bigint
+  uimsbf_bigint(n: number, value: bigint) {
+    if (value < 0 || BigInt.asUintN(n, value) !== value) throw new ValueOutOfRangeError(value, n);
+    this.reserve(n);
+    for (; n > 0;) {
+      const k = n % 24 || 24;
+      this.put(k, Number(BigInt.asUintN(k, value >> BigInt(n - k))));
+      n -= k;
+    }
+  }
+
+  // Bit string, left bit first
+  bslbf(n: number, value: number) {
+    // represented as binary number
+    this.uimsbf(n, value);
+  }
+
+  // Two's complement integer, msb (sign) bit first
+  tcimsbf(n: number, value: number) {
+    if (!Number.isInteger(value) || value < -(2 ** (n - 1)) || value >= 2 ** (n - 1)) throw new ValueOutOfRangeError(value, n);
+    this.uimsbf(n, value < 0 ? value + 2 ** n : value);
+  }
+
+  // Two's complement integer of any width from a bigint
+  tcimsbf_bigint(n: number, value: bigint) {
+    if (BigInt.asIntN(n, value) !== value) throw new ValueOutOfRangeError(value, n);
+    this.uimsbf_bigint(n, BigInt.asUintN(n, value));
+  }
+
+  // ITU-T H.264 9.1 Exp-Golomb code: ue(v)
+  ue(value: number) {
+    if (!Number.isInteger(value) || value < 0 || value > 2 ** 32 - 2) throw new ValueOutOfRangeError(value, 32);
+    const leading_zero_bits = Math.floor(Math.log2(value + 1));
+    this.uimsbf(leading_zero_bits, 0);
+    this.uimsbf(leading_zero_bits + 1, value + 1);
+  }
+
+  // ITU-T H.264 9.1.1 signed Exp-Golomb code: se(v)
+  se(value: number) {
+    this.ue(value > 0 ? 2 * value - 1 : -2 * value);
+  }
+
+  byte_aligned() {
+    return (this.offset & 7) === 0;
+  }
+
+  // Fills up to the next byte boundary with the given bit
+  byte_align(bit = 0) {
+    const n = (8 - (this.offset & 7)) & 7;
+    this.uimsbf(n, bit === 0 ? 0 : (1 << n) - 1);
+  }
+
+  bytes(data: Uint8Array) {
+    if (this.offset & 7) throw new ByteNotAlignedError;
+    this.reserve(data.length * 8);
+    this.buffer.set(data, this.offset >>> 3);
+    this.offset += data.length * 8;
+  }
+
+  tell() {
+    return this.offset;
+  }
+
+  // The bytes written so far, with the last byte padded with 0 bits
+  data() {
+    return this.buffer.slice(0, (this.offset + 7) >>> 3);
+  }
+}
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ADTSSynchronizer, adts_raw_data, parse_adts_header } from '../dist/formats/aac/adts.js';
+import { UnsupportedConfigError, frame_length, parse_audio_specific_config } from '../dist/formats/aac/audio_specific_config.js';
+import { LATMParser, LOASSynchronizer, MissingStreamMuxConfigError } from '../dist/formats/aac/latm.js';
+import { MalformedDataError } from '../dist/formats/mpeg2/syntax.js';
+import { BitReader } from '../dist/reader.js';
+import { ADTS_frame, bits } from './helpers.js';
+
+test('parse_audio_specific_config throws the shared MalformedDataError on a reserved samplingFrequencyIndex', () => {
+  const r = new BitReader(bits([[5, 2], [4, 13], [4, 2], [3, 0]]));
+  assert.throws(() => parse_audio_specific_config(r), MalformedDataError);
+});
+
+// A LOAS frame of an AudioMuxElement
+function LOAS_frame(AudioMuxElement) {
+  return [0x56, 0xE0 | (AudioMuxElement.length >> 8), AudioMuxElement.length & 0xFF, ...AudioMuxElement];
+}
+
+// The AudioMuxElement of one AAC LC stream at a samplingFrequencyIndex, with a payload of 2 bytes
+function AudioMuxElement(samplingFrequencyIndex) {
+  return bits([
+    [1, 0], [1, 0], [1, 1], [6, 0], [4, 0], [3, 0], [5, 2], [4, samplingFrequencyIndex], [4, 2], [3, 0], [3, 0], [8, 0xFF],
+    [1, 0], [1, 0], [8, 2], [8, 0x12], [8, 0x34],
+  ]);
+}
+
+test('LOASSynchronizer gives a frame of which the AudioMuxElement is malformed or truncated without it', () => {
+  const synchronizer = new LOASSynchronizer();
+  const frames = [
+    ...synchronizer.push(Uint8Array.from([
+      ...LOAS_frame(AudioMuxElement(3)), ...LOAS_frame(AudioMuxElement(13)), ...LOAS_frame(bits([[1, 0], [1, 0], [1, 1], [6, 0]])),
+      ...LOAS_frame(bits([[1, 1], [8, 2], [8, 0x12], [8, 0x34]])),
+    ])),
+    ...synchronizer.flush(),
+  ];
+  assert.deepEqual(frames.map((frame) => frame.AudioMuxElement !== undefined), [true, false, false, true]);
+  assert.deepEqual(frames[3].AudioMuxElement.PayloadMux, [[Uint8Array.of(0x12, 0x34)]]);
+  assert.equal(frames[3].duration, 1024 * 90000 / 48000);
+});
+
+test('ADTSSynchronizer acquires sync past leading bytes and gives each frame the PTS of the chunk it starts in', () => {
+  const frames = [ADTS_frame([1, 2, 3]), ADTS_frame([4, 5]), ADTS_frame([6, 7])];
+  const stream = Uint8Array.from([0x12, 0x34, 0x56, ...frames[0], ...frames[1], ...frames[2]]);
+  const synchronizer = new ADTSSynchronizer();
+  const result = [...synchronizer.push(stream.subarray(0, 13), 9000), ...synchronizer.push(stream.subarray(13), 18000), ...synchronizer.flush()];
+  assert.deepEqual(result.map(({ data, PTS, duration, skipped }) => ({ data, PTS, duration, skipped })), [
+    { data: frames[0], PTS: 9000, duration: 1920, skipped: 3 },
+    { data: frames[1], PTS: 18000, duration: 1920, skipped: undefined },
+    { data: frames[2], PTS: undefined, duration: 1920, skipped: undefined },
+  ]);
+  assert.deepEqual(adts_raw_data(result[0].header, result[0].data), Uint8Array.of(1, 2, 3));
+});
+
+test('ADTS frames are not synchronized on where the next header is of another stream', () => {
+  const other = ADTS_frame([9, 9]);
+  // sampling_frequency_index of 44.1 kHz
+  other[2] = (other[2] & 0xC3) | 4 << 2;
+  const frames = new ADTSSynchronizer().push(Uint8Array.from([...ADTS_frame([1, 1]), ...other, ...ADTS_frame([2, 2]), ...ADTS_frame([3, 3])]));
+  assert.deepEqual(frames.map(({ data }) => data[7]), [2, 3]);
+  assert.equal(frames[0].skipped, 18);
+});
+
+test('parse_adts_header reads crc_check where protection_absent is 0', () => {
+  const frame = Uint8Array.from([...bits([
+    [12, 0xFFF], [1, 1], [2, 0], [1, 0], [2, 1], [4, 4], [1, 0], [3, 1], [1, 0], [1, 0], [1, 0], [1, 0],
+    [13, 10], [11, 0x7FF], [2, 0], [16, 0x1234],
+  ]), 0xAA]);
+  const header = parse_adts_header(frame);
+  assert.deepEqual([header.ID, header.protection_absent, header.sampling_frequency_index, header.channel_configuration, header.crc_check], [1, 0, 4, 1, 0x1234]);
+  assert.deepEqual(adts_raw_data(header, frame), Uint8Array.of(0xAA));
+  assert.equal(parse_adts_header(frame.subarray(0, 6)), undefined);
+});
+
+test('parse_audio_specific_config gives SBR and PS from the explicit hierarchical signalling', () => {
+  assert.deepEqual(parse_audio_specific_config(new BitReader(bits([[5, 2], [4, 3], [4, 2], [1, 0], [1, 0], [1, 0]]))), {
+    audioObjectType: 2, samplingFrequencyIndex: 3, samplingFrequency: 48000, channelConfiguration: 2, GASpecificConfig: { frameLengthFlag: false },
+  });
+  const config = parse_audio_specific_config(new BitReader(bits([[5, 29], [4, 6], [4, 1], [4, 3], [5, 2], [1, 0], [1, 0], [1, 0]])));
+  assert.deepEqual(
+    [config.audioObjectType, config.samplingFrequency, config.extensionAudioObjectType, config.sbrPresentFlag, config.psPresentFlag, config.extensionSamplingFrequency],
+    [2, 24000, 5, true, true, 48000],
+  );
+});
+
+test('parse_audio_specific_config reads the backward compatible signalling only where the length of the config is known', () => {
+  const data = bits([[5, 2], [4, 6], [4, 2], [1, 0], [1, 0], [1, 0], [11, 0x2B7], [5, 5], [1, 1], [4, 3], [11, 0x548], [1, 1]]);
+  const config = parse_audio_specific_config(new BitReader(data), data.length * 8);
+  assert.deepEqual(
+    [config.samplingFrequency, config.extensionAudioObjectType, config.sbrPresentFlag, config.extensionSamplingFrequency, config.psPresentFlag],
+    [24000, 5, true, 48000, true],
+  );
+  assert.equal(parse_audio_specific_config(new BitReader(data)).sbrPresentFlag, undefined);
+});
+
+test('parse_audio_specific_config reads escaped sampling frequencies and the epConfig of error resilient object types', () => {
+  const LD = parse_audio_specific_config(new BitReader(bits([[5, 23], [4, 15], [24, 44100], [4, 1], [1, 1], [1, 0], [1, 0], [2, 0]])));
+  assert.deepEqual([LD.samplingFrequencyIndex, LD.samplingFrequency, LD.epConfig, frame_length(LD)], [15, 44100, 0, 480]);
+  assert.throws(() => parse_audio_specific_config(new BitReader(bits([[5, 31], [6, 4], [4, 3], [4, 2]]))), UnsupportedConfigError);
+  assert.throws(() => parse_audio_specific_config(new BitReader(bits([[5, 17], [4, 3], [4, 2], [1, 0], [1, 0], [1, 0], [2, 2]]))), UnsupportedConfigError);
+});
+
+test('LATMParser reads a StreamMuxConfig of audioMuxVersion 1 with other data, and keeps it for the next AudioMuxElement', () => {
+  const parser = new LATMParser();
+  const first = parser.parse(bits([
+    [1, 0], [1, 1], [1, 0], [2, 0], [8, 0xFF], [1, 1], [6, 1], [4, 0], [3, 0],
+    // ascLen of 24 bits: an AudioSpecificConfig of 16 bits and 8 fill bits
+    [2, 0], [8, 24], [5, 2], [4, 3], [4, 2], [1, 0], [1, 0], [1, 0], [8, 0],
+    [3, 0], [8, 0xFF], [1, 1], [2, 0], [8, 12], [1, 1], [8, 0x5A],
+    [8, 1], [8, 0xAA], [8, 2], [8, 0xBB], [8, 0xCC], [12, 0xABC],
+  ]));
+  const config = first.StreamMuxConfig;
+  assert.deepEqual(
+    [config.audioMuxVersion, config.taraBufferFullness, config.numSubFrames, config.streams[0].AudioSpecificConfig.samplingFrequency, config.otherDataLenBits, config.crcCheckSum],
+    [1, 0xFF, 1, 48000, 12, 0x5A],
+  );
+  assert.deepEqual(first.PayloadMux, [[Uint8Array.of(0xAA)], [Uint8Array.of(0xBB, 0xCC)]]);
+  assert.deepEqual(first.otherDataBit, Uint8Array.of(0xAB, 0xC0));
+  // a payload length of 258 bytes escaped with 255
+  const second = parser.parse(bits([[1, 1], [8, 255], [8, 3], ...new Array(258).fill([8, 0x11]), [8, 0], [12, 0]]));
+  assert.equal(second.StreamMuxConfig, config);
+  assert.deepEqual(second.PayloadMux.map(([payload]) => payload.length), [258, 0]);
+  assert.throws(() => new LATMParser().parse(bits([[1, 1], [8, 0]])), MissingStreamMuxConfigError);
+});
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parse_timeline_descriptor } from '../dist/formats/mpeg2/af_descriptor.js';
+import { parse_transport_packet } from '../dist/formats/mpeg2/transport_stream.js';
+import { BitReader } from '../dist/reader.js';
+import { reader } from './helpers.js';
+
+test('parse_timeline_descriptor keeps the 64 and 80 bit fields exact', () => {
+  const r = new BitReader(Uint8Array.from([
+    0xB8, 0x7F, 0x01,
+    0x00, 0x01, 0x5F, 0x90,
+    0x01, 0x23, 0x45, 0x67, 0x89, 0xAB, 0xCD, 0xEF,
+    0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF,
+    0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08, 0x09, 0x10,
+    0x00, 0x19, 0x00, 0x01,
+    0x00, 0x20, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01,
+  ]));
+  const descriptor = parse_timeline_descriptor(r);
+  assert.equal(descriptor.timescale, 90000);
+  assert.equal(descriptor.media_timestamp, 0x0123456789ABCDEFn);
+  assert.equal(descriptor.ntp_timestamp, 0xFFFFFFFFFFFFFFFFn);
+  assert.equal(descriptor.ptp_timestamp, 0x01020304050607080910n);
+  assert.equal(descriptor.frames_per_tc_seconds, 25);
+  assert.equal(descriptor.long_time_code, 2n ** 53n + 1n);
+});
+
+test('a truncated af_descriptor is kept undecoded, with a warning in lenient mode', async () => {
+  const adaptation_field = [6, 0x01, 4, 0x0F, 0x04, 0x01, 0x00];
+  const bytes = [0x47, 0x01, 0x00, 0x30, ...adaptation_field, ...new Array(184 - adaptation_field.length).fill(0)];
+  const undecoded = [{ descriptor_tag: 4, descriptor_length: 1, data: Uint8Array.of(0x00) }];
+  assert.deepEqual((await parse_transport_packet(reader(bytes))).adaptation_field.af_descriptors, undecoded);
+  const warnings = [];
+  const packet = await parse_transport_packet(reader(bytes), { mode: 'lenient', on_warning: (w) => warnings.push(w) });
+  assert.deepEqual(warnings.map((w) => [w.clause, w.field, w.PID]), [['2.4.3.4', 'descriptor 4', 0x100]]);
+  assert.deepEqual(packet.adaptation_field.af_descriptors, undecoded);
+});
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { TransportStreamAnalyzer } from '../dist/formats/mpeg2/analyzer.js';
+import { PAT, PAT_zero_reserved, PES_packet, PMT_overrun, section_packet } from './helpers.js';
+
+test('a PAT or PMT that cannot be parsed is reported rather than thrown', () => {
+  const analyzer = new TransportStreamAnalyzer();
+  const events = [
+    ...analyzer.push(section_packet(0, PAT_zero_reserved)),
+    ...analyzer.push(section_packet(0, PAT, 1)),
+    ...analyzer.push(section_packet(0x100, PMT_overrun)),
+  ];
+  assert.deepEqual(events.map((event) => event.indicator), ['PAT_error', 'PMT_error']);
+});
+
+// Packets of a constant rate of 10 packets per 10 ms, with a PCR on PID 0x100 in the packets of the given indexes
+function PCR_stream(indexes, count) {
+  const packets = [];
+  for (let i = 0; i < count; i++) {
+    const PCR = i * 27_000_000 / 1000;
+    packets.push({
+      transport_error_indicator: 0, payload_unit_start_indicator: 0, transport_priority: 0,
+      PID: indexes.includes(i) ? 0x100 : 0x1FFF, transport_scrambling_control: 0, continuity_counter: 0,
+      ...(indexes.includes(i) ? {
+        adaptation_field: {
+          discontinuity_indicator: 0,
+          program_clock_reference_base: Math.floor(PCR / 300),
+          program_clock_reference_extension: PCR % 300,
+        },
+      } : {}),
+    });
+  }
+  return packets;
+}
+
+test('PCR_repetition_error is of the arrival of PCRs more than 40 ms apart, apart from PCR_discontinuity_indicator_error', () => {
+  const analyzer = new TransportStreamAnalyzer();
+  const events = PCR_stream([0, 10, 20, 30, 60, 120, 130], 140).flatMap((packet) => analyzer.push(packet));
+  assert.deepEqual(events.map((event) => [event.indicator, event.packet_index]), [
+    ['PCR_repetition_error', 120],
+  ]);
+});
+
+test('PAT_error and PMT_error are reported while the PAT or a PMT is missing', () => {
+  const analyzer = new TransportStreamAnalyzer({ PAT_PMT_interval: 0.05 });
+  const packets = PCR_stream([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110], 120);
+  packets[15] = section_packet(0, PAT);
+  packets[60] = section_packet(0, PAT, 1);
+  const events = packets.flatMap((packet) => analyzer.push(packet));
+  assert.deepEqual(events.map((event) => [event.indicator, event.PID, event.packet_index]), [
+    ['PMT_error', 0x100, 66],
+    ['PAT_error', 0x0000, 111],
+    ['PMT_error', 0x100, 117],
+  ]);
+});
+
+test('PTS_error is checked on the PES packets of each stream_id with a PES header', () => {
+  for (const [stream_id, expected] of [[0xE0, [['PTS_error', 100]]], [0xF5, [['PTS_error', 100]]], [0xFC, [['PTS_error', 100]]], [0xF0, []]]) {
+    const analyzer = new TransportStreamAnalyzer({ PTS_interval: 0.05 });
+    const packets = PCR_stream([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110], 120);
+    for (const [index, continuity_counter] of [[5, 0], [100, 1]]) {
+      const data_byte = PES_packet([1, 2, 3], index * 90);
+      data_byte[3] = stream_id;
+      packets[index] = {
+        transport_error_indicator: 0, payload_unit_start_indicator: 1, transport_priority: 0, PID: 0x200,
+        transport_scrambling_control: 0, continuity_counter, data_byte,
+      };
+    }
+    const events = packets.flatMap((packet) => analyzer.push(packet));
+    assert.deepEqual(events.map((event) => [event.indicator, event.packet_index]), expected, `stream_id 0x${stream_id.toString(16)}`);
+  }
+});
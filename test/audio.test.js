@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  SyncFrameSynchronizer, frame_length as sync_frame_length, is_eac3, parse_sync_frame_header, sampling_frequency as sync_frame_sampling_frequency,
+  samples_per_frame as sync_frame_samples,
+} from '../dist/formats/ac3/sync_frame.js';
+import { sync_frames } from '../dist/frame_sync.js';
+import {
+  AudioFrameSynchronizer, MPEGAudio, bitrate, frame_length, parse_audio_frame_header, sampling_frequency, samples_per_frame,
+} from '../dist/formats/mpeg2/audio.js';
+import { bits, collect, iterate } from './helpers.js';
+
+// The frame of an audio frame header, given as its 4 bytes, filled with zeros to its frame_length
+function audio_frame(header) {
+  const frame = new Uint8Array(frame_length(parse_audio_frame_header(Uint8Array.from(header))));
+  frame.set(header);
+  return frame;
+}
+
+test('an audio frame header gives the bitrate, sampling frequency and frame length of each layer', () => {
+  const headers = [
+    // Layer II of 192 kbit/s at 48 kHz, Layer III of 128 kbit/s at 44.1 kHz with a padding slot
+    [0xFF, 0xFD, 0xA4, 0x00], [0xFF, 0xFB, 0x92, 0x00],
+    // ISO/IEC 13818-3 Layer III of 64 kbit/s at 24 kHz, and Layer I of 32 kbit/s at 44.1 kHz with a padding slot
+    [0xFF, 0xF3, 0x84, 0x00], [0xFF, 0xFF, 0x12, 0x00],
+  ].map((header) => parse_audio_frame_header(Uint8Array.from(header)));
+  assert.deepEqual(
+    headers.map((header) => [bitrate(header), sampling_frequency(header), samples_per_frame(header), frame_length(header)]),
+    [[192, 48000, 1152, 576], [128, 44100, 1152, 418], [64, 24000, 576, 192], [32, 44100, 384, 36]],
+  );
+  assert.deepEqual(headers.map((header) => MPEGAudio.duration(header)), [2160, 1152 * 90000 / 44100, 2160, 384 * 90000 / 44100]);
+  assert.equal(parse_audio_frame_header(Uint8Array.of(0xFF, 0xFC, 0xA4, 0x00, 0x12, 0x34)).crc_check, 0x1234);
+});
+
+test('parse_audio_frame_header gives undefined for ADTS, free format and reserved fields', () => {
+  // layer '00' of ADTS, bitrate_index 0 and 15, sampling_frequency 3 and emphasis 2
+  for (const header of [[0xFF, 0xF1, 0x4C, 0x80], [0xFF, 0xFD, 0x04, 0x00], [0xFF, 0xFD, 0xF4, 0x00], [0xFF, 0xFD, 0xAC, 0x00], [0xFF, 0xFD, 0xA4, 0x02]]) {
+    assert.equal(parse_audio_frame_header(Uint8Array.from(header)), undefined);
+  }
+});
+
+test('AudioFrameSynchronizer gives the frames of the PES_packet_data of consecutive PES packets', async () => {
+  const frames = [audio_frame([0xFF, 0xFD, 0xA4, 0x00]), audio_frame([0xFF, 0xFD, 0xA6, 0x00]), audio_frame([0xFF, 0xFD, 0xA4, 0x00])];
+  const stream = Uint8Array.from(frames.flatMap((frame) => [...frame]));
+  const packets = [
+    { PES_packet_data: stream.subarray(0, 700), PTS: 3600 },
+    { PTS: 0 },
+    { PES_packet_data: stream.subarray(700), PTS: 5760 },
+  ];
+  const result = await collect(sync_frames(iterate(packets), new AudioFrameSynchronizer()));
+  assert.deepEqual(result.map(({ data, PTS, duration }) => ({ length: data.length, PTS, duration })), [
+    { length: 576, PTS: 3600, duration: 2160 },
+    { length: 577, PTS: undefined, duration: 2160 },
+    { length: 576, PTS: 5760, duration: 2160 },
+  ]);
+});
+
+// The first 8 bytes of an AC-3 sync frame of bsid 8, 2/0 and no LFE
+const AC3_header = (fscod, frmsizecod) => bits([
+  [16, 0x0B77], [16, 0], [2, fscod], [6, frmsizecod], [5, 8], [3, 0], [3, 2], [2, 0], [1, 0], [5, 27],
+]);
+
+// The first 8 bytes of an E-AC-3 sync frame of 2/0 and no LFE, with numblkscod or, of fscod 3, fscod2
+const EAC3_header = ({ strmtyp = 0, substreamid = 0, frmsiz, fscod = 0, numblkscod = 3, fscod2 }) => bits([
+  [16, 0x0B77], [2, strmtyp], [3, substreamid], [11, frmsiz], [2, fscod], [2, fscod2 ?? numblkscod], [3, 2], [1, 0],
+  [5, 16], [5, 27], [2, 0],
+]);
+
+test('an AC-3 sync frame of 44.1 kHz and odd frmsizecod has one more word', () => {
+  const header = parse_sync_frame_header(AC3_header(1, 29));
+  assert.equal(is_eac3(header), false);
+  assert.equal(header.dsurmod, 0);
+  assert.equal(header.cmixlev, undefined);
+  assert.deepEqual([sync_frame_sampling_frequency(header), sync_frame_samples(header), sync_frame_length(header)], [44100, 1536, 1672]);
+  assert.equal(sync_frame_length(parse_sync_frame_header(AC3_header(1, 28))), 1670);
+  assert.equal(sync_frame_length(parse_sync_frame_header(AC3_header(0, 30))), 1792);
+  // fscod 3 is reserved
+  assert.equal(parse_sync_frame_header(AC3_header(3, 30)), undefined);
+});
+
+test('an E-AC-3 sync frame gives frmsiz, the audio blocks of numblkscod and the reduced sampling frequencies of fscod2', () => {
+  const header = parse_sync_frame_header(EAC3_header({ frmsiz: 767, numblkscod: 1 }));
+  assert.equal(is_eac3(header), true);
+  assert.deepEqual([sync_frame_sampling_frequency(header), sync_frame_samples(header), sync_frame_length(header)], [48000, 512, 1536]);
+  const reduced = parse_sync_frame_header(EAC3_header({ frmsiz: 383, fscod: 3, fscod2: 1 }));
+  assert.deepEqual([reduced.fscod2, sync_frame_sampling_frequency(reduced), sync_frame_samples(reduced)], [1, 22050, 1536]);
+  assert.equal(parse_sync_frame_header(EAC3_header({ strmtyp: 3, frmsiz: 383 })), undefined);
+  assert.equal(parse_sync_frame_header(EAC3_header({ frmsiz: 383, fscod: 3, fscod2: 3 })), undefined);
+});
+
+test('SyncFrameSynchronizer gives time only to the first independent substream of E-AC-3', () => {
+  const frame = (fields) => {
+    const data = new Uint8Array(16);
+    data.set(EAC3_header({ frmsiz: 7, ...fields }));
+    return [...data];
+  };
+  const synchronizer = new SyncFrameSynchronizer();
+  const frames = [
+    ...synchronizer.push(Uint8Array.from([...frame({}), ...frame({ strmtyp: 1 }), ...frame({ substreamid: 1 }), ...frame({})]), 0),
+    ...synchronizer.flush(),
+  ];
+  assert.deepEqual(frames.map(({ duration }) => duration), [2880, 0, 0, 2880]);
+  // an AC-3 sync frame is not followed by one of E-AC-3 in the same stream
+  const AC3_frame = new Uint8Array(1792);
+  AC3_frame.set(AC3_header(0, 30));
+  const mixed = new SyncFrameSynchronizer();
+  const synchronized = mixed.push(Uint8Array.from([...AC3_frame, ...frame({}), ...frame({})]));
+  assert.deepEqual(synchronized.map(({ data, skipped }) => [data.length, skipped]), [[16, 1792], [16, undefined]]);
+});
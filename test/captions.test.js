@@ -0,0 +1,186 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ARIBCaptionDecoder } from '../dist/formats/arib/caption.js';
+import { CEA608Decoder } from '../dist/formats/captions/cea608.js';
+import { CEA708Decoder, parse_DTVCC_packet } from '../dist/formats/captions/cea708.js';
+import { to_SRT, to_WebVTT } from '../dist/formats/captions/cues.js';
+import { CRCMismatchError } from '../dist/formats/mpeg2/psi.js';
+
+// A byte of line 21 with its odd parity bit
+function parity(byte) {
+  let n = 0;
+  for (let b = byte; b !== 0; b >>= 1) n += b & 1;
+  return n % 2 === 0 ? byte | 0x80 : byte;
+}
+
+// Decodes the byte pairs of field 1, each given as [time, first, second] or [time, text] of 2 characters at most
+function decode_608(pairs, flush_time) {
+  const decoder = new CEA608Decoder();
+  const cues = [];
+  for (const [time, first, second] of pairs) {
+    const bytes = typeof first === 'string' ? [first.charCodeAt(0), first.length > 1 ? first.charCodeAt(1) : 0] : [first, second];
+    cues.push(...decoder.push(1, parity(bytes[0]), parity(bytes[1]), time));
+  }
+  return [...cues, ...decoder.flush(flush_time)].map(({ start, end, text, track }) => ({ start, end, text, track }));
+}
+
+const RCL = [0x14, 0x20];
+const BS = [0x14, 0x21];
+const RU2 = [0x14, 0x25];
+const RDC = [0x14, 0x29];
+const EDM = [0x14, 0x2C];
+const CR = [0x14, 0x2D];
+const EOC = [0x14, 0x2F];
+// preamble address codes of row 15 and of row 1 with an indent of 8 columns
+const PAC_row_15 = [0x14, 0x70];
+const PAC_row_1_indent_8 = [0x11, 0x54];
+
+test('CEA-608 pop-on captions are shown from EOC, with the special and extended characters', () => {
+  const cues = decode_608([
+    [0, ...RCL], [0, ...PAC_row_15], [0, 'HI'], [0, ' e'], [0, 0x12, 0x21], [0, 0x11, 0x37], [0, '*'],
+    [1000, ...EOC], [5000, ...EDM],
+  ], 6000);
+  assert.deepEqual(cues, [{ start: 1000, end: 5000, text: 'HI É♪á', track: 'CC1' }]);
+});
+
+test('CEA-608 roll-up captions roll up by a row at each carriage return', () => {
+  const cues = decode_608([
+    [0, ...RU2], [0, ...PAC_row_15], [100, 'AB'], [200, ...CR], [300, 'CD'], [400, ...CR], [500, 'EF'],
+  ], 600);
+  assert.deepEqual(cues, [
+    { start: 100, end: 300, text: 'AB', track: 'CC1' },
+    { start: 300, end: 400, text: 'AB\nCD', track: 'CC1' },
+    { start: 400, end: 500, text: 'CD', track: 'CC1' },
+    { start: 500, end: 600, text: 'CD\nEF', track: 'CC1' },
+  ]);
+});
+
+test('CEA-608 paint-on captions are shown from their first character, at the row and indent of the PAC', () => {
+  const cues = decode_608([[0, ...RDC], [0, ...PAC_row_1_indent_8], [100, 'HI'], [150, ...BS]], 200);
+  assert.deepEqual(cues, [
+    { start: 100, end: 150, text: 'HI', track: 'CC1' },
+    { start: 150, end: 200, text: 'H', track: 'CC1' },
+  ]);
+});
+
+test('a control code sent twice is taken once, and one with a parity error is ignored', () => {
+  const cues = decode_608([
+    [0, ...RCL], [0, ...RCL], [0, 'AB'], [0, ...BS], [0, ...BS], [1000, ...EOC], [1000, ...EOC], [2000, ...EDM],
+  ], 3000);
+  assert.deepEqual(cues, [{ start: 1000, end: 2000, text: 'A', track: 'CC1' }]);
+  const decoder = new CEA608Decoder();
+  decoder.push(1, parity(0x14), parity(0x29), 0);
+  decoder.push(1, parity(0x41), parity(0x42), 100);
+  decoder.push(1, 0x14, parity(0x2C), 200);
+  assert.deepEqual(decoder.flush(300).map(({ text }) => text), ['AB']);
+});
+
+// The cc_data_1 and cc_data_2 pairs of a DTVCC packet of service blocks, each given as [service_number, bytes]
+function DTVCC_packet(sequence_number, blocks) {
+  const data = blocks.flatMap(([service_number, bytes]) => [service_number << 5 | bytes.length, ...bytes]);
+  if (data.length % 2 === 0) data.push(0);
+  return [sequence_number << 6 | (data.length + 1) / 2, ...data];
+}
+
+function decode_708(packets, flush_time) {
+  const decoder = new CEA708Decoder();
+  const cues = [];
+  for (const [time, packet] of packets) {
+    for (let i = 0; i < packet.length; i += 2) cues.push(...decoder.push(i === 0, packet[i], packet[i + 1], time));
+  }
+  return [...cues, ...decoder.flush(flush_time)].map(({ start, end, text, track }) => ({ start, end, text, track }));
+}
+
+const text = (string) => Array.from(string, (character) => character.charCodeAt(0));
+// DefineWindow 0, visible, of 2 rows of 32 columns
+const DF0 = [0x98, 0x20, 0x00, 0x00, 0x01, 0x1F, 0x00];
+
+test('CEA-708 service blocks write the text of the visible windows of their service', () => {
+  const cues = decode_708([
+    [1000, DTVCC_packet(0, [[1, [...DF0, ...text('HI'), 0x0D, ...text('YO'), 0x03]], [2, [...DF0, ...text('2'), 0x10, 0x25, 0x03]]])],
+    [2000, DTVCC_packet(1, [[1, [0x8A, 0x01]]])],
+  ], 3000);
+  assert.deepEqual(cues, [
+    { start: 1000, end: 2000, text: 'HI\nYO', track: 'SERVICE1' },
+    { start: 1000, end: 3000, text: '2…', track: 'SERVICE2' },
+  ]);
+});
+
+test('parse_DTVCC_packet reads the extended service number and stops at a null block header', () => {
+  const packet = parse_DTVCC_packet(Uint8Array.of(0x83, 0xE1, 0x0A, 0x41, 0x00, 0x21));
+  assert.equal(packet.sequence_number, 2);
+  assert.deepEqual(packet.service_blocks, [{ service_number: 10, block_data: Uint8Array.of(0x41) }]);
+  // a block that does not fit in a packet cut short is left out
+  assert.deepEqual(parse_DTVCC_packet(Uint8Array.of(0x03, 0x25, 0x41)).service_blocks, []);
+});
+
+// ITU-T CRC-16 of the data group
+function crc16(data) {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let j = 0; j < 8; j++) crc = (crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1) & 0xFFFF;
+  }
+  return crc;
+}
+
+// A synchronized PES packet of a caption data group
+function caption_PES_packet(PTS, data_group_id, data_group_data_byte) {
+  const data_group = [data_group_id << 2, 0, 0, data_group_data_byte.length >> 8, data_group_data_byte.length & 0xFF, ...data_group_data_byte];
+  const crc = crc16(data_group);
+  return { stream_id: 0xBD, PTS, PES_packet_data: Uint8Array.from([0x80, 0xFF, 0xF0, ...data_group, crc >> 8, crc & 0xFF]) };
+}
+
+// Caption management data of Japanese, and caption statement data of a statement body
+const management_data = [0x3F, 1, 0x00, ...text('jpn'), 0x00, 0, 0, 0];
+function statement_data(body) {
+  const loop_length = 5 + body.length;
+  return [0x3F, loop_length >> 16, (loop_length >> 8) & 0xFF, loop_length & 0xFF, 0x1F, 0x20, 0, 0, body.length, ...body];
+}
+
+test('ARIB caption PES packets give cues of the language of the caption management data', () => {
+  const decoder = new ARIBCaptionDecoder();
+  const cues = [
+    ...decoder.push(caption_PES_packet(0, 0x00, management_data)),
+    // CS, then a kanji and a hiragana
+    ...decoder.push(caption_PES_packet(90000, 0x01, statement_data([0x0C, 0x30, 0x21, 0xA2]))),
+    ...decoder.push(caption_PES_packet(180000, 0x01, statement_data([0x0C]))),
+    ...decoder.push(caption_PES_packet(270000, 0x21, statement_data([0x0C, 0x30, 0x21]))),
+    ...decoder.flush(360000),
+  ];
+  assert.deepEqual(cues, [
+    { start: 90000, end: 180000, text: '亜あ', track: 'jpn' },
+    { start: 270000, end: 360000, text: '亜', track: 'jpn' },
+  ]);
+});
+
+test('an ARIB caption data group with a CRC_16 mismatch is skipped in lenient mode, with a warning', () => {
+  const PES_packet = caption_PES_packet(90000, 0x01, statement_data([0x30, 0x21]));
+  PES_packet.PES_packet_data[10] ^= 0xFF;
+  assert.throws(() => new ARIBCaptionDecoder().push(PES_packet), CRCMismatchError);
+  const warnings = [];
+  const decoder = new ARIBCaptionDecoder({ mode: 'lenient', on_warning: (w) => warnings.push(w) }, 0x130);
+  assert.deepEqual(decoder.push(PES_packet), []);
+  assert.deepEqual(decoder.flush(), []);
+  assert.deepEqual(warnings.map(({ clause, field, PID }) => ({ clause, field, PID })), [{ clause: 'ARIB STD-B24', field: 'data_group', PID: 0x130 }]);
+});
+
+const cues = [
+  { start: 2 * 90000, end: 3.5 * 90000, text: 'B', track: 'CC1' },
+  { start: 90000, end: 2 * 90000, text: 'A <i> & \n\nline', track: 'CC1' },
+];
+
+test('to_WebVTT gives the cues in start order, escaped and without blank lines', () => {
+  assert.equal(to_WebVTT(cues, 0), [
+    'WEBVTT', '', '00:00:01.000 --> 00:00:02.000', 'A &lt;i&gt; &amp; ', 'line', '',
+    '00:00:02.000 --> 00:00:03.500', 'B', '',
+  ].join('\n'));
+  assert.equal(to_WebVTT([{ ...cues[0], start: 3600 * 90000 + 45, end: 3601 * 90000 }], 0).split('\n')[2], '01:00:00.001 --> 01:00:01.000');
+});
+
+test('to_SRT numbers the cues from 1, relative to the first cue without an origin', () => {
+  assert.equal(to_SRT(cues), [
+    '1', '00:00:00,000 --> 00:00:01,000', 'A <i> & ', 'line', '',
+    '2', '00:00:01,000 --> 00:00:02,500', 'B', '',
+  ].join('\n'));
+});
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { serialize_transport_packet } from '../dist/formats/mpeg2/transport_stream.js';
+import { PAT, PES_packet, PMT, section_packet } from './helpers.js';
+
+const cli = fileURLToPath(new URL('../dist/cli.js', import.meta.url));
+
+// Runs the command line tool, giving its exit code and output, with the input on stdin
+function media_decode(args, input) {
+  return new Promise((resolve) => {
+    const child = execFile(process.execPath, [cli, ...args], { encoding: 'buffer' }, (error, stdout, stderr) => {
+      resolve({ code: error?.code ?? 0, stdout, stderr: stderr.toString() });
+    });
+    child.stdin.end(input);
+  });
+}
+
+// A PES packet of 184 bytes at a PTS, with 170 bytes of data
+const PES_data = (PTS) => Uint8Array.from({ length: 170 }, (_, i) => (PTS / 90000 + i) & 0xFF);
+
+function packet(PID, continuity_counter, data_byte, start = 1) {
+  return serialize_transport_packet({
+    transport_error_indicator: 0, payload_unit_start_indicator: start, transport_priority: 0, PID,
+    transport_scrambling_control: 0, continuity_counter, data_byte,
+  });
+}
+
+// The PAT, the PMT of an H.264 stream on PID 0x101, and two PES packets of that stream, one second apart
+const stream = Uint8Array.from([
+  ...serialize_transport_packet(section_packet(0x0000, PAT)), ...serialize_transport_packet(section_packet(0x0100, PMT)),
+  ...packet(0x101, 0, PES_packet(PES_data(90000), 90000)), ...packet(0x101, 1, PES_packet(PES_data(180000), 180000)),
+]);
+
+async function with_directory(f) {
+  const directory = await mkdtemp(join(tmpdir(), 'media-decode-'));
+  try {
+    await f(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+test('probe summarizes the programs and PIDs of a transport stream file, as JSON or text from stdin', async () => {
+  await with_directory(async (directory) => {
+    const path = join(directory, 'stream.ts');
+    await writeFile(path, stream);
+    const { code, stdout } = await media_decode(['probe', '--ndjson', path]);
+    assert.equal(code, 0);
+    const info = JSON.parse(stdout.toString());
+    assert.deepEqual([info.file, info.format, info.packet_size, info.packets, info.size, info.duration], [path, 'mpegts', 188, 4, 752, 1]);
+    assert.deepEqual(info.programs, [{
+      program_number: 1, PMT_PID: 0x100, PCR_PID: 0x101, streams: [{
+        PID: 0x101, stream_type: 0x1B, codec_name: 'h264', codec_type: 'video', packets: 2, bit_rate: 2 * 188 * 8, start_time: 1, duration: 1,
+      }],
+    }]);
+    assert.deepEqual(info.PIDs.map(({ PID, packets }) => [PID, packets]), [[0x0000, 1], [0x0100, 1], [0x0101, 2]]);
+  });
+  const { code, stdout } = await media_decode(['probe'], stream);
+  assert.equal(code, 0);
+  assert.deepEqual(stdout.toString().split('\n').slice(0, 3), [
+    'stdin: MPEG-TS, 188 byte packets, 4 packets, 752 bytes, duration 1.000000 s, 6.0 kb/s',
+    '  program 1: PMT PID 0x0100, PCR PID 0x0101',
+    '    PID 0x0101: stream_type 0x1b h264 video, 2 packets, 3.0 kb/s, start 1.000000 s, duration 1.000000 s',
+  ]);
+});
+
+test('packets dumps the packets of the PIDs and flags given, and pes the PES packet headers', async () => {
+  const packets = await media_decode(['packets', '--ndjson', '--pid', '0x101', '--pusi'], stream);
+  assert.deepEqual(packets.stdout.toString().trim().split('\n').map((line) => JSON.parse(line)).map(({ index, byte_offset, PID, payload_length }) => (
+    [index, byte_offset, PID, payload_length]
+  )), [[2, 376, 0x101, 184], [3, 564, 0x101, 184]]);
+  const PES = await media_decode(['pes', '--stream-id', '0xE0'], stream);
+  assert.deepEqual(PES.stdout.toString().trim().split('\n'), [
+    '#0 PID 0x0101 stream_id 0xe0 length 178 data 170 PTS 90000 (1.000000)',
+    '#1 PID 0x0101 stream_id 0xe0 length 178 data 170 PTS 180000 (2.000000)',
+  ]);
+});
+
+test('packets gives the index and byte offset of the packets after one dropped in lenient mode', async () => {
+  // a packet of PID 0x101 of which the adaptation_field_length of 183 calls for private data past the packet
+  const dropped = Uint8Array.from([0x47, 0x01, 0x01, 0x30, 183, 0x02, 0xFF, ...new Array(181).fill(0xFF)]);
+  const input = Uint8Array.from([...stream.subarray(0, 376), ...dropped, ...stream.subarray(376)]);
+  const { code, stdout, stderr } = await media_decode(['packets', '--ndjson', '--lenient', '--pid', '0x101'], input);
+  assert.equal(code, 0);
+  assert.deepEqual(stdout.toString().trim().split('\n').map((line) => JSON.parse(line)).map(({ index, byte_offset }) => [index, byte_offset]), [
+    [3, 564], [4, 752],
+  ]);
+  const warnings = stderr.trim().split('\n').map((line) => JSON.parse(line.replace(/^warning: /, '')));
+  assert.deepEqual(warnings.map(({ field, PID, packet_index, byte_offset }) => [field, PID, packet_index, byte_offset]), [
+    ['adaptation_field_length', 0x101, 2, 380],
+  ]);
+});
+
+test('extract writes the PES packet data or the packet payloads of one PID', async () => {
+  await with_directory(async (directory) => {
+    const output = join(directory, 'stream.h264');
+    assert.equal((await media_decode(['extract', '--pid', '257', '-o', output], stream)).code, 0);
+    assert.deepEqual(new Uint8Array(await readFile(output)), Uint8Array.from([...PES_data(90000), ...PES_data(180000)]));
+  });
+  const { stdout } = await media_decode(['extract', '--pid', '0x101', '--payload'], stream);
+  assert.deepEqual(new Uint8Array(stdout), stream.filter((_, i) => i >= 376 && i % 188 >= 4));
+});
+
+test('probe gives the frame of a JPEG file', async () => {
+  const JPEG = Uint8Array.of(
+    0xFF, 0xD8, 0xFF, 0xC0, 0x00, 0x11, 0x08, 0x00, 0x08, 0x00, 0x10, 0x03, 0x01, 0x21, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01, 0xFF, 0xD9,
+  );
+  const { code, stdout } = await media_decode(['probe', '--format', 'jpeg', '--ndjson'], JPEG);
+  assert.equal(code, 0);
+  const info = JSON.parse(stdout.toString());
+  assert.deepEqual([info.width, info.height, info.precision, info.components, info.sampling, info.chroma_subsampling], [16, 8, 8, 3, '2x1,1x1,1x1', '4:2:2']);
+});
+
+test('usage errors exit with 1 and point to the help', async () => {
+  for (const [args, message] of [
+    [['convert'], 'Unknown command: convert'],
+    [['extract'], 'extract takes one --pid'],
+    [['packets', '--pid', '0x2000'], 'Invalid PID: 0x2000'],
+    [['probe', '--format', 'mkv'], 'Unknown format: mkv'],
+  ]) {
+    const { code, stderr } = await media_decode(args, stream);
+    assert.equal(code, 1);
+    assert.equal(stderr, `media-decode: ${message}\nRun media-decode --help for usage.\n`);
+  }
+  const { code, stdout } = await media_decode(['--help'], Uint8Array.of());
+  assert.equal(code, 0);
+  assert.ok(stdout.toString().startsWith('Usage: media-decode <command>'));
+});
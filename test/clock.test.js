@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ProgramClock, TimestampUnwrapper, timestamp_difference } from '../dist/formats/mpeg2/clock.js';
+
+test('ProgramClock interpolates between the anchors it keeps before its window, and keeps the average rate of all PCRs', () => {
+  const clock = new ProgramClock(0.1);
+  // a PCR every 188 bytes, every 2 ms for the first 500 and every 1 ms then
+  for (let i = 0; i < 1000; i++) clock.push_PCR(i * 188, (i < 500 ? 2 * i : 500 + i) * 27_000);
+  assert.equal(clock.time_at(999 * 188), 1.499);
+  assert.equal(clock.time_at(950 * 188 + 94), 1.4505);
+  assert.equal(clock.instantaneous_rate(), 1_504_000);
+  // before the window, of an anchor every 0.1 s
+  assert.equal(clock.time_at(100 * 188), 0.2);
+  assert.equal(clock.time_at(125 * 188), 0.25);
+  assert.equal(clock.time_at(0), 0);
+  assert.equal(Math.round(clock.average_rate()), Math.round(999 * 188 * 8 / 1.499));
+});
+
+test('ProgramClock continues its timeline across a discontinuity at the transport rate', () => {
+  const clock = new ProgramClock();
+  // a PCR every 188 bytes and 1 ms, with the system time base reset to 5000 at packet 10
+  for (let i = 0; i < 20; i++) clock.push_PCR(i * 188, i < 10 ? i * 27_000 : 5000 * 300 + (i - 10) * 27_000, i === 10);
+  assert.equal(clock.time_at(10 * 188), 0.01);
+  assert.equal(clock.time_at(15 * 188 + 94), 0.0155);
+  assert.equal(clock.average_rate(), 1_504_000);
+  // a PTS of the new system time base, 5 ms after its first PCR
+  assert.equal(clock.timestamp_to_time(5000 + 450), 0.015);
+  // with the discontinuity before the window, of the PCRs on either side of it
+  const anchored = new ProgramClock(0.004);
+  for (let i = 0; i < 20; i++) anchored.push_PCR(i * 188, i < 10 ? i * 27_000 : 5000 * 300 + (i - 10) * 27_000, i === 10);
+  assert.deepEqual([5, 9, 10, 12].map((i) => anchored.time_at(i * 188)), [0.005, 0.009, 0.01, 0.012]);
+});
+
+test('timestamp_difference is of the shorter way around the 33 bit timestamps, and may be negative', () => {
+  assert.equal(timestamp_difference(90000, 180000), -1);
+  assert.equal(timestamp_difference(45000, 2 ** 33 - 45000), 1);
+  assert.equal(timestamp_difference(2 ** 33 - 45000, 45000), -1);
+});
+
+test('TimestampUnwrapper continues the timeline across the wraparound at 2^33, and back', () => {
+  const unwrapper = new TimestampUnwrapper();
+  assert.deepEqual([2 ** 33 - 90000, 0, 90000, 0].map((timestamp) => unwrapper.unwrap(timestamp)), [
+    2 ** 33 - 90000, 2 ** 33, 2 ** 33 + 90000, 2 ** 33,
+  ]);
+});
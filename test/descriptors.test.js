@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { descriptor_registry } from '../dist/formats/mpeg2/descriptors.js';
+import { parse_PSI } from '../dist/formats/mpeg2/psi.js';
+import { PAT, collect, iterate, section, section_packet } from './helpers.js';
+
+// The PMT of program 1 with one private data stream on PID 0x101, with a descriptor of private tag 0xF0 and an
+// ISO_639_language_descriptor
+const PMT = section([
+  0x02, 0xB0, 0, 0x00, 0x01, 0xC1, 0, 0, 0xE1, 0x01, 0xF0, 0x00,
+  0x06, 0xE1, 0x01, 0xF0, 0x0A, 0xF0, 0x02, 0x12, 0x34, 0x0A, 0x04, 0x6A, 0x70, 0x6E, 0x00,
+]);
+
+// A decoder of the private descriptor, with a 16 bit identifier
+function parse_private_descriptor(r) {
+  return { identifier: r.uimsbf(16) };
+}
+
+async function descriptors_of(registry) {
+  const tables = await collect(parse_PSI(iterate([section_packet(0, PAT), section_packet(0x100, PMT)]), registry));
+  return tables[1].streams[0].descriptors;
+}
+
+test('a decoder registered on a clone of the registry decodes the private descriptors of a PMT', async () => {
+  const registry = descriptor_registry.clone().register(0xF0, parse_private_descriptor);
+  const [private_descriptor, language_descriptor] = await descriptors_of(registry);
+  assert.deepEqual(private_descriptor, { identifier: 0x1234, descriptor_tag: 0xF0, descriptor_length: 2, data: Uint8Array.of(0x12, 0x34) });
+  assert.deepEqual(language_descriptor.languages, [{ ISO_639_language_code: 'jpn', audio_type: 0 }]);
+});
+
+test('registering on a clone leaves the global descriptor_registry as it was', async () => {
+  descriptor_registry.clone().register(0xF0, parse_private_descriptor);
+  const [private_descriptor] = await descriptors_of(undefined);
+  assert.deepEqual(private_descriptor, { descriptor_tag: 0xF0, descriptor_length: 2, data: Uint8Array.of(0x12, 0x34) });
+  assert.equal(descriptor_registry.decode(0xF0, Uint8Array.of(0x12, 0x34)).identifier, undefined);
+});
+
+test('an unregistered tag is given with its raw data only', async () => {
+  const registry = descriptor_registry.clone().unregister(0x0A);
+  const [, language_descriptor] = await descriptors_of(registry);
+  assert.deepEqual(language_descriptor, { descriptor_tag: 0x0A, descriptor_length: 4, data: Uint8Array.of(0x6A, 0x70, 0x6E, 0x00) });
+  assert.equal(descriptor_registry.decode(0x0A, Uint8Array.of(0x6A, 0x70, 0x6E, 0x00)).languages.length, 1);
+});
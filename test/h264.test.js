@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ByteStreamSplitter } from '../dist/formats/h264/byte_stream.js';
+import { MissingParameterSetError, NALUnitParser, parse_NAL_unit_header, parse_byte_stream } from '../dist/formats/h264/nal_unit.js';
+import { frame_rate, frame_size } from '../dist/formats/h264/parameter_sets.js';
+import { PicOrderCntDecoder } from '../dist/formats/h264/slice_header.js';
+import { parse_NAL_unit_header as parse_H265_NAL_unit_header } from '../dist/formats/h265/nal_unit.js';
+import { MalformedDataError } from '../dist/formats/mpeg2/syntax.js';
+import { NAL_unit, bits, collect, iterate } from './helpers.js';
+
+// A High profile SPS of 1920x1088 cropped to 1080 lines at 25 frames per second, with two scaling lists of which the
+// first is the default one
+const SPS_RBSP = bits([
+  [8, 100], [8, 0], [8, 40], ['ue', 0], ['ue', 1], ['ue', 0], ['ue', 0], [1, 0],
+  [1, 1], [1, 1], ['se', -8], [1, 1], ['se', 8], ['se', -16], [1, 0], [1, 0], [1, 0], [1, 0], [1, 0], [1, 0],
+  ['ue', 0], ['ue', 0], ['ue', 2], ['ue', 4], [1, 0], ['ue', 119], ['ue', 67], [1, 1], [1, 1],
+  [1, 1], ['ue', 0], ['ue', 0], ['ue', 0], ['ue', 4],
+  [1, 1], [1, 1], [8, 1], [1, 0], [1, 0], [1, 0], [1, 1], [32, 1], [32, 50], [1, 1], [1, 0], [1, 0], [1, 0], [1, 0],
+  [1, 1],
+]);
+const SPS = NAL_unit([0x67], SPS_RBSP);
+// A PPS of CABAC with transform_8x8_mode_flag and the default scaling list of Intra 8x8 luma
+const PPS = NAL_unit([0x68], bits([
+  ['ue', 0], ['ue', 0], [1, 1], [1, 0], ['ue', 0], ['ue', 2], ['ue', 0], [1, 0], [2, 0], ['se', 0], ['se', 0], ['se', 0],
+  [1, 1], [1, 0], [1, 0], [1, 1], [1, 1], [1, 0], [1, 0], [1, 0], [1, 0], [1, 0], [1, 0], [1, 1], ['se', -8], [1, 0],
+  ['se', -2], [1, 1],
+]));
+const AUD = [0x09, 0xF0];
+
+test('H.264 and H.265 NAL unit errors are the shared MalformedDataError', () => {
+  assert.throws(() => parse_NAL_unit_header(Uint8Array.of(0x80)), MalformedDataError);
+  assert.throws(() => parse_NAL_unit_header(Uint8Array.of()), MalformedDataError);
+  assert.throws(() => parse_H265_NAL_unit_header(Uint8Array.of(0x80, 0x01)), MalformedDataError);
+  assert.ok(new MissingParameterSetError() instanceof MalformedDataError);
+});
+
+test('an H.264 SPS and PPS give the cropping, VUI timing and scaling lists', () => {
+  const parser = new NALUnitParser();
+  const { SPS: sps } = parser.parse(Uint8Array.from(SPS));
+  assert.ok(SPS.length > 1 + SPS_RBSP.length, 'the SPS has emulation prevention bytes');
+  assert.deepEqual(sps.seq_scaling_lists, [[], new Array(16).fill(16), undefined, undefined, undefined, undefined, undefined, undefined]);
+  assert.equal(sps.frame_crop_bottom_offset, 4);
+  assert.deepEqual(frame_size(sps), { width: 1920, height: 1080 });
+  assert.equal(sps.vui_parameters.num_units_in_tick, 1);
+  assert.equal(sps.vui_parameters.fixed_frame_rate_flag, true);
+  assert.equal(frame_rate(sps), 25);
+  const { PPS: pps } = parser.parse(Uint8Array.from(PPS));
+  assert.equal(pps.transform_8x8_mode_flag, true);
+  assert.deepEqual(pps.pic_scaling_lists, [undefined, undefined, undefined, undefined, undefined, undefined, [], undefined]);
+  assert.equal(pps.second_chroma_qp_index_offset, -2);
+});
+
+test('ByteStreamSplitter gives the same NAL units wherever the chunks of the byte stream are cut', async () => {
+  const stream = Uint8Array.from([0, 0, 0, 1, ...AUD, 0, 0, 1, ...SPS, 0, 0, 0, 1, ...PPS, 0, 0]);
+  const expected = [AUD, SPS, PPS].map((unit) => Uint8Array.from(unit));
+  for (let i = 0; i <= stream.length; i++) {
+    for (const j of [i, i + 1, i + 2, stream.length]) {
+      if (j > stream.length) continue;
+      const splitter = new ByteStreamSplitter();
+      const units = [stream.subarray(0, i), stream.subarray(i, j), stream.subarray(j)].flatMap((chunk) => splitter.push(chunk));
+      assert.deepEqual([...units, ...splitter.flush()], expected, `cut at ${i} and ${j}`);
+    }
+  }
+  const nal_units = await collect(parse_byte_stream(iterate(Array.from(stream, (byte) => Uint8Array.of(byte)))));
+  assert.equal(nal_units[0].primary_pic_type, 7);
+  assert.deepEqual(frame_size(nal_units[1].SPS), { width: 1920, height: 1080 });
+});
+
+// Decodes the picture order count of frames given as [nal_unit_type, nal_ref_idc, fields of the slice header]
+function decode_POC(sps, pictures) {
+  const decoder = new PicOrderCntDecoder();
+  return pictures.map(([nal_unit_type, nal_ref_idc, header]) => (
+    decoder.decode(sps, { field_pic_flag: false, frame_num: 0, ...header }, nal_unit_type, nal_ref_idc).PicOrderCnt
+  ));
+}
+
+test('PicOrderCntDecoder of pic_order_cnt_type 0 carries the MSB across wraps of pic_order_cnt_lsb', () => {
+  const sps = { pic_order_cnt_type: 0, log2_max_frame_num_minus4: 0, log2_max_pic_order_cnt_lsb_minus4: 0 };
+  const mmco5 = { operations: [{ memory_management_control_operation: 5 }] };
+  assert.deepEqual(decode_POC(sps, [
+    [5, 1, { pic_order_cnt_lsb: 0 }], [1, 1, { pic_order_cnt_lsb: 8 }], [1, 1, { pic_order_cnt_lsb: 14 }],
+    [1, 1, { pic_order_cnt_lsb: 4 }], [1, 0, { pic_order_cnt_lsb: 2 }], [1, 1, { pic_order_cnt_lsb: 12 }],
+    [1, 1, { pic_order_cnt_lsb: 14, dec_ref_pic_marking: mmco5 }], [1, 1, { pic_order_cnt_lsb: 2 }],
+    [5, 1, { pic_order_cnt_lsb: 2 }],
+  ]), [0, 8, 14, 20, 18, 28, 30, 2, 2]);
+});
+
+test('PicOrderCntDecoder of pic_order_cnt_type 1 and 2 counts from frame_num', () => {
+  const type_1 = {
+    pic_order_cnt_type: 1, log2_max_frame_num_minus4: 0, delta_pic_order_always_zero_flag: true, offset_for_non_ref_pic: -1,
+    offset_for_top_to_bottom_field: 0, offset_for_ref_frame: [2],
+  };
+  assert.deepEqual(decode_POC(type_1, [
+    [5, 1, { frame_num: 0 }], [1, 1, { frame_num: 1 }], [1, 0, { frame_num: 2 }], [1, 1, { frame_num: 2 }],
+  ]), [0, 2, 1, 4]);
+  const type_2 = { pic_order_cnt_type: 2, log2_max_frame_num_minus4: 0 };
+  assert.deepEqual(decode_POC(type_2, [
+    [5, 1, { frame_num: 0 }], [1, 1, { frame_num: 15 }], [1, 1, { frame_num: 0 }], [1, 0, { frame_num: 1 }],
+  ]), [0, 30, 32, 33]);
+});
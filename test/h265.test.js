@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { NALUnitParser } from '../dist/formats/h265/nal_unit.js';
+import { frame_rate, frame_size } from '../dist/formats/h265/parameter_sets.js';
+import { PicOrderCntDecoder } from '../dist/formats/h265/slice_segment_header.js';
+import { NAL_unit, bits } from './helpers.js';
+
+// The scaling_list_data of 4x4 intra Y signalled and the other lists predicted from their default
+const scaling_list_data = [
+  [1, 1], ['se', 8], ...new Array(15).fill(['se', 0]),
+  ...new Array(19).fill(null).flatMap(() => [[1, 0], ['ue', 0]]),
+];
+
+// A Main profile SPS of 1920x1088 cropped to 1080 lines at 59.94 pictures per second, with scaling lists
+const SPS = NAL_unit([0x42, 0x01], bits([
+  [4, 0], [3, 0], [1, 1], [2, 0], [1, 0], [5, 1], [32, 0x60000000], [16, 0x9000], [32, 0], [8, 123],
+  ['ue', 0], ['ue', 1], ['ue', 1920], ['ue', 1088], [1, 1], ['ue', 0], ['ue', 0], ['ue', 0], ['ue', 4],
+  ['ue', 0], ['ue', 0], ['ue', 4], [1, 1], ['ue', 4], ['ue', 2], ['ue', 0],
+  ['ue', 0], ['ue', 3], ['ue', 0], ['ue', 3], ['ue', 0], ['ue', 0], [1, 1], [1, 1], ...scaling_list_data,
+  [1, 1], [1, 1], [1, 0], ['ue', 0], [1, 0], [1, 1], [1, 1],
+  [1, 1], [1, 0], [1, 0], [1, 0], [1, 0], [1, 0], [1, 0], [1, 0], [1, 0], [1, 1], [32, 1001], [32, 60000], [1, 0], [1, 0], [1, 0],
+  [1, 0], [1, 1],
+]));
+
+test('an H.265 SPS gives the conformance window, VUI timing and scaling lists', () => {
+  const { SPS: sps } = new NALUnitParser().parse(Uint8Array.from(SPS));
+  assert.equal(sps.profile_tier_level.general_profile_idc, 1);
+  assert.equal(sps.profile_tier_level.general_progressive_source_flag, true);
+  assert.equal(sps.profile_tier_level.general_frame_only_constraint_flag, true);
+  assert.equal(sps.profile_tier_level.general_level_idc, 123);
+  assert.deepEqual(sps.sps_sub_layer_ordering_info, [{ max_dec_pic_buffering_minus1: 4, max_num_reorder_pics: 2, max_latency_increase_plus1: 0 }]);
+  assert.equal(sps.scaling_list_data.length, 20);
+  assert.deepEqual(sps.scaling_list_data[0], { sizeId: 0, matrixId: 0, ScalingList: new Array(16).fill(16) });
+  assert.deepEqual(sps.scaling_list_data[19], { sizeId: 3, matrixId: 3, scaling_list_pred_matrix_id_delta: 0 });
+  assert.deepEqual(frame_size(sps), { width: 1920, height: 1080 });
+  assert.equal(frame_rate(sps), 60000 / 1001);
+  assert.equal(sps.vui_parameters.field_seq_flag, false);
+});
+
+test('PicOrderCntDecoder counts from the previous picture of TemporalId 0 that is not discardable', () => {
+  const sps = { log2_max_pic_order_cnt_lsb_minus4: 0 };
+  const decoder = new PicOrderCntDecoder();
+  // of IDR_W_RADL, TRAIL_R and TRAIL_N pictures of TemporalId 0, and a TRAIL_R of TemporalId 1
+  const decode = (nal_unit_type, slice_pic_order_cnt_lsb, TemporalId = 0) => decoder.decode(
+    sps, nal_unit_type === 19 ? {} : { slice_pic_order_cnt_lsb }, nal_unit_type, TemporalId,
+  ).PicOrderCntVal;
+  assert.deepEqual([decode(19), decode(1, 8), decode(1, 14), decode(1, 2), decode(0, 4), decode(1, 6, 1), decode(1, 9)], [0, 8, 14, 18, 20, 22, 25]);
+  // a CRA picture continues the count, but starts it again after an end of sequence
+  assert.deepEqual(decoder.decode(sps, { slice_pic_order_cnt_lsb: 10 }, 21, 0), { NoRaslOutputFlag: false, PicOrderCntVal: 26 });
+  decoder.end_of_sequence();
+  assert.deepEqual(decoder.decode(sps, { slice_pic_order_cnt_lsb: 5 }, 21, 0), { NoRaslOutputFlag: true, PicOrderCntVal: 5 });
+});
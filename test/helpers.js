@@ -0,0 +1,132 @@
+// Builders of the syntax structures the tests feed to the parsers
+
+import { crc32 } from '../dist/formats/mpeg2/psi.js';
+import { serialize_transport_packet } from '../dist/formats/mpeg2/transport_stream.js';
+import { ByteReader, MemorySource } from '../dist/reader.js';
+
+export function reader(bytes) {
+  return new ByteReader(new MemorySource(Uint8Array.from(bytes)));
+}
+
+// ITU-T H.264 9.1 The leading zero bits and the bits of codeNum + 1 of an Exp-Golomb code, or the field as it is
+function exp_Golomb([n, value]) {
+  if (n !== 'ue' && n !== 'se') return [[n, value]];
+  const codeNum = n === 'se' ? (value > 0 ? 2 * value - 1 : -2 * value) : value;
+  const leadingZeroBits = Math.floor(Math.log2(codeNum + 1));
+  return [[leadingZeroBits, 0], [leadingZeroBits + 1, codeNum + 1]];
+}
+
+// The bytes of fields given as [n, value] of n bits, or as ['ue', value] or ['se', value] of an Exp-Golomb code,
+// padded with 0 bits to a byte
+export function bits(fields) {
+  const bytes = [];
+  let byte = 0;
+  let n_bits = 0;
+  for (const field of fields) {
+    for (const [n, value] of exp_Golomb(field)) {
+      for (let i = n - 1; i >= 0; i--) {
+        byte = byte << 1 | Math.floor(value / Math.pow(2, i)) % 2;
+        if (++n_bits === 8) {
+          bytes.push(byte);
+          byte = 0;
+          n_bits = 0;
+        }
+      }
+    }
+  }
+  if (n_bits > 0) bytes.push(byte << (8 - n_bits));
+  return Uint8Array.from(bytes);
+}
+
+// A section from its bytes up to CRC_32, with section_length and CRC_32 filled in
+export function section(bytes) {
+  const length = bytes.length + 4 - 3;
+  bytes[1] = (bytes[1] & 0xF0) | (length >> 8);
+  bytes[2] = length & 0xFF;
+  const crc = crc32(Uint8Array.from(bytes));
+  return Uint8Array.from([...bytes, crc >>> 24, (crc >> 16) & 0xFF, (crc >> 8) & 0xFF, crc & 0xFF]);
+}
+
+// A transport packet of a PID carrying a whole section
+export function section_packet(PID, bytes, continuity_counter = 0) {
+  const data_byte = new Uint8Array(184).fill(0xFF);
+  data_byte.set([0, ...bytes]);
+  return {
+    transport_error_indicator: 0, payload_unit_start_indicator: 1, transport_priority: 0, PID,
+    transport_scrambling_control: 0, continuity_counter, data_byte,
+  };
+}
+
+export async function* iterate(values) {
+  yield* values;
+}
+
+export async function collect(iterable) {
+  const values = [];
+  for await (const value of iterable) values.push(value);
+  return values;
+}
+
+// The PAT of program 1 with its PMT on PID 0x100, and that PMT with one H.264 stream on PID 0x101
+export const PAT = section([0x00, 0xB0, 0, 0x00, 0x01, 0xC1, 0, 0, 0x00, 0x01, 0xE1, 0x00]);
+export const PMT = section([0x02, 0xB0, 0, 0x00, 0x01, 0xC3, 0, 0, 0xE1, 0x01, 0xF0, 0x00, 0x1B, 0xE1, 0x01, 0xF0, 0x00]);
+// the PAT with the reserved bits before program_map_PID set to 0
+export const PAT_zero_reserved = section([0x00, 0xB0, 0, 0x00, 0x01, 0xC3, 0, 0, 0x00, 0x01, 0x01, 0x00]);
+// a PMT with an ES_info descriptor of length 10 of which only 2 bytes are in the section
+export const PMT_overrun = section([
+  0x02, 0xB0, 0, 0x00, 0x01, 0xC1, 0, 0, 0xE1, 0x01, 0xF0, 0x00, 0x1B, 0xE1, 0x01, 0xF0, 0x04, 0x05, 0x0A, 0x41, 0x42,
+]);
+
+// n null packets of a packet size, with a TP_extra_header of 0 or 16 bytes of parity as the size needs
+export function transport_stream(packet_size, n) {
+  const packets = [];
+  for (let i = 0; i < n; i++) {
+    const packet = serialize_transport_packet({
+      transport_error_indicator: 0, payload_unit_start_indicator: 0, transport_priority: 0, PID: 0x1FFF,
+      transport_scrambling_control: 0, continuity_counter: i & 0xF, data_byte: new Uint8Array(184).fill(0xFF),
+    });
+    packets.push(...(packet_size === 192 ? [0, 0, 0, 0] : []), ...packet, ...new Array(packet_size === 204 ? 16 : 0).fill(0));
+  }
+  return Uint8Array.from(packets);
+}
+
+// A pack header with an SCR of 0 and a program_mux_rate of 1, a padding stream packet and MPEG_program_end_code
+export const pack_header = [0x00, 0x00, 0x01, 0xBA, 0x44, 0x00, 0x04, 0x00, 0x04, 0x01, 0x00, 0x00, 0x07, 0xF8];
+export const padding_packet = [0x00, 0x00, 0x01, 0xBE, 0x00, 0x02, 0xFF, 0xFF];
+export const MPEG_program_end_code = [0x00, 0x00, 0x01, 0xB9];
+
+// A video PES packet with a PTS, N1 stuffing bytes and the given data
+export function PES_packet(data, PTS = 0, N1 = 0) {
+  const high = Math.floor(PTS / 2 ** 30), low = PTS % 2 ** 30;
+  const header = [
+    0x21 | (high << 1), low >> 22, ((low >> 14) & 0xFE) | 1, (low >> 7) & 0xFF, ((low << 1) & 0xFE) | 1,
+    ...new Array(N1).fill(0xFF),
+  ];
+  const PES_packet_length = 3 + header.length + data.length;
+  return Uint8Array.from([
+    0x00, 0x00, 0x01, 0xE0, PES_packet_length >> 8, PES_packet_length & 0xFF, 0x80, 0x80, header.length, ...header, ...data,
+  ]);
+}
+
+// An ADTS frame of AAC LC at 48 kHz in 2 channels without CRC, with the given raw data
+export function ADTS_frame(raw_data) {
+  return Uint8Array.from([...bits([
+    [12, 0xFFF], [1, 0], [2, 0], [1, 1], [2, 1], [4, 3], [1, 0], [3, 2], [1, 0], [1, 0], [1, 0], [1, 0],
+    [13, 7 + raw_data.length], [11, 0x7FF], [2, 0],
+  ]), ...raw_data]);
+}
+
+// A NAL unit of its header bytes and an RBSP, with the emulation prevention bytes inserted
+export function NAL_unit(header, rbsp) {
+  const bytes = [...header];
+  let zeros = 0;
+  for (const byte of rbsp) {
+    if (zeros >= 2 && byte <= 3) {
+      bytes.push(3);
+      zeros = 0;
+    }
+    bytes.push(byte);
+    zeros = byte === 0 ? zeros + 1 : 0;
+  }
+  return bytes;
+}
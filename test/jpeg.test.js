@@ -0,0 +1,534 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ArithmeticDecoder, fixed_statistics, qe_table } from '../dist/formats/jpeg/arithmetic.js';
+import { decode_JPEG, decode_JPEG_scans } from '../dist/formats/jpeg/decoder.js';
+import { parse_JPEG } from '../dist/formats/jpeg/marker_segments.js';
+import { MalformedDataError } from '../dist/formats/mpeg2/syntax.js';
+import { UnexpectedEOFError } from '../dist/reader.js';
+import { bits, collect, reader } from './helpers.js';
+
+test('parse_JPEG throws the shared MalformedDataError on data without SOI', async () => {
+  await assert.rejects(collect(parse_JPEG(reader([0xFF, 0xD9]))), MalformedDataError);
+  await assert.rejects(collect(parse_JPEG(reader([0xFF, 0xD8, 0xFF, 0xD0]))), MalformedDataError);
+});
+
+const SOF0 = 0xFFC0;
+const SOF1 = 0xFFC1;
+const SOF2 = 0xFFC2;
+const SOF13 = 0xFFCD;
+const COM = 0xFFFE;
+const SOF3 = 0xFFC3;
+const SOF9 = 0xFFC9;
+const SOF11 = 0xFFCB;
+const DHT = 0xFFC4;
+const RST0 = 0xFFD0;
+const SOS = 0xFFDA;
+const DQT = 0xFFDB;
+const DRI = 0xFFDD;
+
+// A JPEG stream between SOI and EOI of marker segments given as [marker, data after the length], markers given as
+// [marker], and entropy-coded segments given as Uint8Array, to which the byte stuffing is added
+function JPEG(segments) {
+  const bytes = [0xFF, 0xD8];
+  for (const segment of segments) {
+    if (segment instanceof Uint8Array) {
+      for (const byte of segment) bytes.push(...(byte === 0xFF ? [0xFF, 0x00] : [byte]));
+      continue;
+    }
+    const [marker, data] = segment;
+    bytes.push(marker >> 8, marker & 0xFF);
+    if (data !== undefined) bytes.push((data.length + 2) >> 8, (data.length + 2) & 0xFF, ...data);
+  }
+  return reader([...bytes, 0xFF, 0xD9]);
+}
+
+// Frame header of components given as [C, H, V, Tq]
+function frame_header(marker, P, X, Y, components) {
+  return [marker, [P, Y >> 8, Y & 0xFF, X >> 8, X & 0xFF, components.length, ...components.flatMap(([C, H, V, Tq]) => [C, H << 4 | V, Tq])]];
+}
+
+// Scan header of components given as [Cs, Td, Ta]
+function scan_header(components, Ss = 0, Se = 63, Ah = 0, Al = 0) {
+  return [SOS, [components.length, ...components.flatMap(([Cs, Td, Ta]) => [Cs, Td << 4 | Ta]), Ss, Se, Ah << 4 | Al]];
+}
+
+// A quantization table of a single value, of 16 bit precision where it does not fit in 8 bits
+function quantization_table(Tq, Q) {
+  return [DQT, Q > 255 ? [0x10 | Tq, ...new Array(64).fill(0).flatMap(() => [Q >> 8, Q & 0xFF])] : [Tq, ...new Array(64).fill(Q)]];
+}
+
+// The DC symbols are the magnitude categories up to the SSSS 16 of lossless coding, and the AC symbols are RRRRSSSS
+// for runs of up to 15 and SSSS up to 10
+const DC_symbols = Array.from({ length: 17 }, (_, i) => i);
+const AC_symbols = Array.from({ length: 176 }, (_, i) => Math.floor(i / 11) << 4 | i % 11);
+
+// A Huffman table of codes that are all 8 bits long, so that the code of each symbol is its index
+function Huffman_table(Tc, Th, symbols) {
+  const L = new Array(16).fill(0);
+  L[7] = symbols.length;
+  return [DHT, [Tc << 4 | Th, ...L, ...symbols]];
+}
+
+// F.1.2.1.1 Magnitude category of a difference or coefficient
+function magnitude_category(v) {
+  let SSSS = 0;
+  for (let magnitude = Math.abs(v); magnitude > 0; magnitude >>= 1) SSSS++;
+  return SSSS;
+}
+
+// Huffman coding of symbols and additional bits, padded with 1 bits to a byte
+class HuffmanWriter {
+  fields = [];
+  length = 0;
+
+  bits(n, value) {
+    if (n === 0) return;
+    this.fields.push([n, value]);
+    this.length += n;
+  }
+
+  symbol(symbols, symbol) {
+    assert.ok(symbols.includes(symbol), `symbol ${symbol} is in the table`);
+    this.bits(8, symbols.indexOf(symbol));
+  }
+
+  // F.1.2.1.1 the additional bits of a value of SSSS bits
+  value(v, SSSS) {
+    this.bits(SSSS, v >= 0 ? v : v + (1 << SSSS) - 1);
+  }
+
+  DC(diff) {
+    const SSSS = magnitude_category(diff);
+    this.symbol(DC_symbols, SSSS);
+    this.value(diff, SSSS);
+  }
+
+  AC(R, v) {
+    const SSSS = magnitude_category(v);
+    this.symbol(AC_symbols, R << 4 | SSSS);
+    this.value(v, SSSS);
+  }
+
+  data() {
+    const padding = (8 - this.length % 8) % 8;
+    return bits([...this.fields, ...(padding > 0 ? [[padding, (1 << padding) - 1]] : [])]);
+  }
+}
+
+// F.1.2 Huffman encoding of a block of quantized coefficients given as { k: value } in zig-zag order,
+// returning the DC value as the prediction of the next block
+function encode_block(w, block, pred = 0) {
+  w.DC((block[0] ?? 0) - pred);
+  let run = 0;
+  for (let k = 1; k < 64; k++) {
+    const v = block[k] ?? 0;
+    if (v === 0) {
+      run++;
+      continue;
+    }
+    for (; run > 15; run -= 16) w.symbol(AC_symbols, 0xF0);
+    w.AC(run, v);
+    run = 0;
+  }
+  if (run > 0) w.symbol(AC_symbols, 0x00);
+  return block[0] ?? 0;
+}
+
+// Figure A.6 the natural index of the first coefficients in zig-zag order
+const zigzag = [0, 1, 8, 16, 9, 2, 3, 10];
+
+// A.3.3 IDCT of a block of coefficients given as { k: value } in zig-zag order and quantized by Q, level shifted
+// to precision P
+function IDCT(block, Q, P = 8) {
+  const C = (u) => (u === 0 ? Math.SQRT1_2 : 1);
+  return Array.from({ length: 64 }, (_, i) => {
+    const x = i % 8;
+    const y = i >> 3;
+    let s = 0;
+    for (const [k, value] of Object.entries(block)) {
+      const u = zigzag[k] % 8;
+      const v = zigzag[k] >> 3;
+      s += C(u) * C(v) * value * Q * Math.cos((2 * x + 1) * u * Math.PI / 16) * Math.cos((2 * y + 1) * v * Math.PI / 16);
+    }
+    return Math.min(Math.max(Math.round(s / 4 + (1 << (P - 1))), 0), (1 << P) - 1);
+  });
+}
+
+// The samples of the 8x8 block at column and row of blocks in a plane
+function plane_block({ width, data }, column = 0, row = 0) {
+  return Array.from({ length: 64 }, (_, i) => data[(row * 8 + (i >> 3)) * width + column * 8 + i % 8]);
+}
+
+function assert_close(actual, expected, tolerance, message) {
+  assert.equal(actual.length, expected.length, message);
+  const difference = Math.max(...Array.from(actual, (value, i) => Math.abs(value - expected[i])));
+  assert.ok(difference <= tolerance, `${message}: differs by ${difference} from ${expected}`);
+}
+
+// Two blocks of which the second has AC coefficients, with a zero run before the last
+const blocks = [{ 0: 20 }, { 0: -16, 1: 10, 2: -5, 5: 3 }];
+
+test('a baseline grayscale frame decodes to the IDCT of its dequantized coefficients', async () => {
+  const w = new HuffmanWriter();
+  encode_block(w, blocks[1], encode_block(w, blocks[0]));
+  const stream = () => JPEG([
+    quantization_table(0, 4), frame_header(SOF0, 8, 16, 8, [[1, 1, 1, 0]]),
+    Huffman_table(0, 0, DC_symbols), Huffman_table(1, 0, AC_symbols), scan_header([[1, 0, 0]]), w.data(),
+  ]);
+  const image = await decode_JPEG(stream(), { format: 'planar' });
+  assert.equal(image.color_space, 'gray');
+  assert.deepEqual([image.width, image.height, image.planes.length], [16, 8, 1]);
+  assert.ok(image.planes[0].data instanceof Uint8Array);
+  assert.deepEqual(plane_block(image.planes[0], 0), new Array(64).fill(138));
+  assert_close(plane_block(image.planes[0], 1), IDCT(blocks[1], 4), 1, 'second block');
+  const { format, data } = await decode_JPEG(stream());
+  assert.equal(format, 'rgb');
+  assert.deepEqual([...data.subarray(0, 3)], [138, 138, 138]);
+});
+
+test('a YCbCr frame is upsampled from the sampling factors of its components and converted to RGB', async () => {
+  // one MCU of four Y blocks of 2x2 sampling, then a Cb and a Cr block
+  const w = new HuffmanWriter();
+  let pred = 0;
+  for (const DC of [0, 16, -16, 32]) pred = encode_block(w, { 0: DC }, pred);
+  encode_block(w, { 0: -20 });
+  encode_block(w, { 0: 30 });
+  const image = await decode_JPEG(JPEG([
+    quantization_table(0, 4), frame_header(SOF0, 8, 16, 16, [[1, 2, 2, 0], [2, 1, 1, 0], [3, 1, 1, 0]]),
+    Huffman_table(0, 0, DC_symbols), Huffman_table(1, 0, AC_symbols), scan_header([[1, 0, 0], [2, 0, 0], [3, 0, 0]]), w.data(),
+  ]));
+  assert.equal(image.color_space, 'ycbcr');
+  // T.871 conversion of Cb 118 and Cr 143 with the Y of each quadrant
+  const RGB = (Y) => [Y + 1.402 * 15, Y + 0.344136 * 10 - 0.714136 * 15, Y - 1.772 * 10];
+  for (const [x, y, Y] of [[0, 0, 128], [8, 0, 136], [7, 8, 120], [15, 15, 144]]) {
+    const offset = (y * 16 + x) * 3;
+    assert_close(image.data.subarray(offset, offset + 3), RGB(Y), 1, `pixel ${x}, ${y}`);
+  }
+});
+
+test('the DC prediction starts again at each restart interval', async () => {
+  const intervals = [[8, 16], [24, 32]].map((DCs) => {
+    const w = new HuffmanWriter();
+    let pred = 0;
+    for (const DC of DCs) pred = encode_block(w, { 0: DC }, pred);
+    return w.data();
+  });
+  const image = await decode_JPEG(JPEG([
+    quantization_table(0, 8), frame_header(SOF0, 8, 32, 8, [[1, 1, 1, 0]]), [DRI, [0, 2]],
+    Huffman_table(0, 0, DC_symbols), Huffman_table(1, 0, AC_symbols), scan_header([[1, 0, 0]]),
+    intervals[0], [RST0], intervals[1],
+  ]), { format: 'planar' });
+  assert.deepEqual([0, 1, 2, 3].map((column) => plane_block(image.planes[0], column)[0]), [136, 144, 152, 160]);
+});
+
+test('an extended sequential frame of 12 bit samples is decoded to 16 bit planes and scaled to 8 bit RGB', async () => {
+  const block = { 0: 5, 1: -3 };
+  const w = new HuffmanWriter();
+  encode_block(w, block);
+  const stream = () => JPEG([
+    quantization_table(0, 300), frame_header(SOF1, 12, 8, 8, [[1, 1, 1, 0]]),
+    Huffman_table(0, 0, DC_symbols), Huffman_table(1, 0, AC_symbols), scan_header([[1, 0, 0]]), w.data(),
+  ]);
+  const { planes: [plane] } = await decode_JPEG(stream(), { format: 'planar' });
+  assert.ok(plane.data instanceof Uint16Array);
+  const expected = IDCT(block, 300, 12);
+  assert_close(plane_block(plane), expected, 1, 'block');
+  const { data } = await decode_JPEG(stream(), { format: 'rgba' });
+  assert_close(data.subarray(0, 4), [expected[0] * 255 / 4095, expected[0] * 255 / 4095, expected[0] * 255 / 4095, 255], 1, 'first pixel');
+});
+
+test('a progressive frame is refined by each scan, with a preview after each', async () => {
+  // the DC first scan and the first AC scan with the point transform Al 1
+  const DC_first = new HuffmanWriter();
+  DC_first.DC(40);
+  DC_first.DC(-16 - 40);
+  const AC_first = new HuffmanWriter();
+  AC_first.AC(0, 3);
+  AC_first.AC(1, -2);
+  // EOB1 of the rest of this block and of the next block
+  AC_first.symbol(AC_symbols, 0x10);
+  AC_first.bits(1, 0);
+  // the DC refinement bits of 81 and -31
+  const DC_refine = new HuffmanWriter();
+  DC_refine.bits(2, 0b11);
+  // a newly nonzero coefficient at k 2 after the correction bit of k 1, then EOB and the correction bit of k 3
+  const AC_refine = new HuffmanWriter();
+  AC_refine.symbol(AC_symbols, 0x01);
+  AC_refine.bits(2, 0b11);
+  AC_refine.symbol(AC_symbols, 0x00);
+  AC_refine.bits(1, 0);
+  AC_refine.symbol(AC_symbols, 0x00);
+  const images = await collect(decode_JPEG_scans(JPEG([
+    quantization_table(0, 8), frame_header(SOF2, 8, 16, 8, [[1, 1, 1, 0]]),
+    Huffman_table(0, 0, DC_symbols), Huffman_table(1, 0, AC_symbols),
+    scan_header([[1, 0, 0]], 0, 0, 0, 1), DC_first.data(),
+    scan_header([[1, 0, 0]], 1, 63, 0, 1), AC_first.data(),
+    scan_header([[1, 0, 0]], 0, 0, 1, 0), DC_refine.data(),
+    scan_header([[1, 0, 0]], 1, 63, 1, 0), AC_refine.data(),
+  ]), { format: 'planar' }));
+  const previews = images.map(({ planes: [plane] }) => [plane_block(plane, 0), plane_block(plane, 1)]);
+  assert.equal(previews.length, 4);
+  assert.deepEqual(previews[0], [new Array(64).fill(208), new Array(64).fill(96)]);
+  assert_close(previews[1][0], IDCT({ 0: 80, 1: 6, 3: -4 }, 8), 1, 'after the first AC scan');
+  assert.deepEqual(previews[2][1], new Array(64).fill(97));
+  assert_close(previews[2][0], IDCT({ 0: 81, 1: 6, 3: -4 }, 8), 1, 'after the DC refinement');
+  assert_close(previews[3][0], IDCT({ 0: 81, 1: 7, 2: 1, 3: -4 }, 8), 1, 'after the AC refinement');
+  assert.deepEqual(previews[3][1], new Array(64).fill(97));
+});
+
+// H.1.2.1 The differences of the samples of lines from their prediction by the predictor Ss, after the point transform Pt
+function lossless_differences(lines, P, Ss, Pt) {
+  const samples = lines.map((line) => line.map((sample) => sample >> Pt));
+  return samples.map((line, y) => line.map((sample, x) => {
+    if (x === 0 && y === 0) return sample - (1 << (P - Pt - 1));
+    if (y === 0) return sample - line[x - 1];
+    if (x === 0) return sample - samples[y - 1][0];
+    const Ra = line[x - 1];
+    const Rb = samples[y - 1][x];
+    const Rc = samples[y - 1][x - 1];
+    return sample - [0, Ra, Rb, Rc, Ra + Rb - Rc, Ra + ((Rb - Rc) >> 1), Rb + ((Ra - Rc) >> 1), (Ra + Rb) >> 1][Ss];
+  }));
+}
+
+const lossless_lines = [[100, 102, 110, 140, 250], [98, 100, 120, 20, 0], [0, 254, 2, 60, 60]];
+
+test('a lossless frame gives the samples predicted from their neighbours, after the point transform', async () => {
+  const w = new HuffmanWriter();
+  for (const diff of lossless_differences(lossless_lines, 8, 4, 1).flat()) w.DC(diff);
+  const { planes: [plane] } = await decode_JPEG(JPEG([
+    frame_header(SOF3, 8, 5, 3, [[1, 1, 1, 0]]), Huffman_table(0, 0, DC_symbols), scan_header([[1, 0, 0]], 4, 0, 0, 1), w.data(),
+  ]), { format: 'planar' });
+  assert.deepEqual(plane.data, Uint8Array.from(lossless_lines.flat()));
+  // H.1.2.2 the difference 32768 of 16 bit samples is coded as SSSS 16 without additional bits
+  const wide = new HuffmanWriter();
+  wide.symbol(DC_symbols, 16);
+  wide.DC(-1);
+  const { planes: [wide_plane] } = await decode_JPEG(JPEG([
+    frame_header(SOF3, 16, 2, 1, [[1, 1, 1, 0]]), Huffman_table(0, 0, DC_symbols), scan_header([[1, 0, 0]], 1, 0, 0, 0), wide.data(),
+  ]), { format: 'planar' });
+  assert.deepEqual(wide_plane.data, Uint16Array.of(0, 65535));
+});
+
+// D.1 The QM-coder encoder, giving the entropy-coded segment without byte stuffing
+class ArithmeticEncoder {
+  C = 0;
+  A = 0x10000;
+  CT = 11;
+  // the byte held back for a carry, and the number of 0xFF bytes after it
+  B = -1;
+  ST = 0;
+  output = [];
+
+  // D.1.6 BYTEOUT, with a carry into the bytes held back
+  byte_out(byte) {
+    if (byte > 0xFF) {
+      if (this.B >= 0) this.output.push(this.B + 1);
+      for (; this.ST > 0; this.ST--) this.output.push(0x00);
+      this.B = byte & 0xFF;
+    } else if (byte === 0xFF) {
+      this.ST++;
+    } else {
+      if (this.B >= 0) this.output.push(this.B);
+      for (; this.ST > 0; this.ST--) this.output.push(0xFF);
+      this.B = byte;
+    }
+  }
+
+  // D.1.2 ENCODE of the decision D with statistics st[S]
+  encode(st, S, D) {
+    const state = st[S];
+    const entry = qe_table[state & 0x7F];
+    const Qe = entry >>> 16;
+    this.A -= Qe;
+    if (D !== state >> 7) {
+      // D.1.4 CODELPS
+      if (this.A >= Qe) {
+        this.C += this.A;
+        this.A = Qe;
+      }
+      st[S] = (state & 0x80) ^ (entry & 0xFF);
+    } else {
+      // D.1.5 CODEMPS
+      if (this.A >= 0x8000) return;
+      if (this.A < Qe) {
+        this.C += this.A;
+        this.A = Qe;
+      }
+      st[S] = (state & 0x80) ^ (entry >> 8 & 0xFF);
+    }
+    // D.1.6 RENORME
+    do {
+      this.A <<= 1;
+      this.C <<= 1;
+      if (--this.CT === 0) {
+        this.byte_out(this.C >>> 19);
+        this.C &= 0x7FFFF;
+        this.CT = 8;
+      }
+    } while (this.A < 0x8000);
+  }
+
+  // D.1.8 FLUSH, leaving out the final zero bytes
+  data() {
+    const T = (this.A - 1 + this.C) & 0xFFFF0000;
+    const C = (T < this.C ? T + 0x8000 : T) * 2 ** this.CT;
+    this.byte_out(Math.floor(C / 2 ** 19) & 0x1FF);
+    this.byte_out(C / 2 ** 11 & 0xFF);
+    this.byte_out(0);
+    while (this.output.at(-1) === 0) this.output.pop();
+    return Uint8Array.from(this.output);
+  }
+}
+
+// K.4.1 Test data of the arithmetic coder, and the entropy-coded segment of it with a single context
+const K4_data = Buffer.from('00020051000000C00352872AAAAAAAAA82C02000FCD79EF674EAABF7697EE74C', 'hex');
+const K4_coded = Buffer.from('655B5144F7969D517855BFFFFC5184C7CEF93900287D46708ECBC0F6', 'hex');
+
+test('the QM-coder decodes the test sequence of T.81 Annex K.4', () => {
+  const decoder = new ArithmeticDecoder(Uint8Array.from(K4_coded));
+  const st = new Uint8Array(1);
+  const decisions = Array.from({ length: K4_data.length * 8 }, () => decoder.decode(st, 0));
+  assert.deepEqual(decisions, Array.from({ length: K4_data.length * 8 }, (_, i) => K4_data[i >> 3] >> (7 - i % 8) & 1));
+  // and the encoder of these tests codes it the same
+  const encoder = new ArithmeticEncoder();
+  const statistics = new Uint8Array(1);
+  for (const D of decisions) encoder.encode(statistics, 0, D);
+  assert.deepEqual(encoder.data(), Uint8Array.from(K4_coded));
+});
+
+// F.1.4.4.1.2 Conditioning category of a difference, for the bounds L 0 and U 1 of the default conditioning
+function conditioning_category(D) {
+  const magnitude = Math.abs(D);
+  if (magnitude === 0) return 0;
+  if (magnitude <= 2) return D > 0 ? 1 : 2;
+  return D > 0 ? 3 : 4;
+}
+
+// F.1.4.3.1 The sign, magnitude category and magnitude bits of a nonzero DC or lossless difference, from the
+// statistics at S0 and the magnitude category statistics at X1
+function encode_magnitude(e, st, S0, X1, v) {
+  const sign = v < 0 ? 1 : 0;
+  const Sz = Math.abs(v) - 1;
+  e.encode(st, S0 + 1, sign);
+  let S = S0 + 2 + sign;
+  let M = 0;
+  if (Sz > 0) {
+    e.encode(st, S, 1);
+    M = 1;
+    S = X1;
+    for (let rest = Sz >> 1; rest > 0; rest >>= 1, M <<= 1, S++) e.encode(st, S, 1);
+  }
+  e.encode(st, S, 0);
+  for (M >>= 1; M > 0; M >>= 1) e.encode(st, S + 14, Sz & M ? 1 : 0);
+}
+
+// F.1.4.1 Arithmetic encoding of a DC difference, returning the conditioning of the next one
+function encode_DC(e, st, diff, context) {
+  e.encode(st, context, diff === 0 ? 0 : 1);
+  if (diff === 0) return 0;
+  encode_magnitude(e, st, context, 20, diff);
+  return 4 * conditioning_category(diff);
+}
+
+// F.1.4.2 Arithmetic encoding of the AC coefficients of a block given as { k: value } in zig-zag order, with Kx 5
+function encode_AC(e, st, fixed, block) {
+  let EOB = 63;
+  while (EOB > 0 && !block[EOB]) EOB--;
+  for (let k = 1; k <= 63; k++) {
+    let SE = 3 * (k - 1);
+    e.encode(st, SE, k > EOB ? 1 : 0);
+    if (k > EOB) return;
+    for (; !block[k]; k++, SE += 3) e.encode(st, SE + 1, 0);
+    e.encode(st, SE + 1, 1);
+    const v = block[k];
+    e.encode(fixed, 0, v < 0 ? 1 : 0);
+    const Sz = Math.abs(v) - 1;
+    let S = SE + 2;
+    let M = 0;
+    if (Sz > 0) {
+      e.encode(st, S, 1);
+      M = 1;
+      if (Sz > 1) {
+        e.encode(st, S, 1);
+        M = 2;
+        S = k <= 5 ? 189 : 217;
+        for (let rest = Sz >> 2; rest > 0; rest >>= 1, M <<= 1, S++) e.encode(st, S, 1);
+      }
+    }
+    e.encode(st, S, 0);
+    for (M >>= 1; M > 0; M >>= 1) e.encode(st, S + 14, Sz & M ? 1 : 0);
+  }
+}
+
+test('an arithmetic coded sequential frame decodes as its Huffman coded equivalent', async () => {
+  const e = new ArithmeticEncoder();
+  const DC_statistics = new Uint8Array(64);
+  const AC_statistics = new Uint8Array(256);
+  const fixed = fixed_statistics();
+  let pred = 0;
+  let context = 0;
+  for (const block of blocks) {
+    context = encode_DC(e, DC_statistics, block[0] - pred, context);
+    pred = block[0];
+    encode_AC(e, AC_statistics, fixed, block);
+  }
+  const image = await decode_JPEG(JPEG([
+    quantization_table(0, 4), frame_header(SOF9, 8, 16, 8, [[1, 1, 1, 0]]), scan_header([[1, 0, 0]]), e.data(),
+  ]), { format: 'planar' });
+  assert.deepEqual(plane_block(image.planes[0], 0), new Array(64).fill(138));
+  assert_close(plane_block(image.planes[0], 1), IDCT(blocks[1], 4), 1, 'second block');
+});
+
+test('an arithmetic coded lossless frame is conditioned on the differences to the left and above', async () => {
+  const e = new ArithmeticEncoder();
+  const st = new Uint8Array(158);
+  const differences = lossless_differences(lossless_lines, 8, 4, 1);
+  differences.forEach((line, y) => line.forEach((diff, x) => {
+    const Da = x > 0 ? line[x - 1] : 0;
+    const Db = y > 0 ? differences[y - 1][x] : 0;
+    // H.1.4.3.1 the statistics of the zero decision and the first magnitude category decisions
+    const S0 = 4 * (5 * conditioning_category(Da) + conditioning_category(Db));
+    e.encode(st, S0, diff === 0 ? 0 : 1);
+    if (diff !== 0) encode_magnitude(e, st, S0, conditioning_category(Db) > 2 ? 129 : 100, diff);
+  }));
+  const { planes: [plane] } = await decode_JPEG(JPEG([
+    frame_header(SOF11, 8, 5, 3, [[1, 1, 1, 0]]), scan_header([[1, 0, 0]], 4, 0, 0, 1), e.data(),
+  ]), { format: 'planar' });
+  assert.deepEqual(plane.data, Uint8Array.from(lossless_lines.flat()));
+});
+
+test('parse_JPEG gives the marker segments, and the entropy-coded segments without byte stuffing between RSTn markers', async () => {
+  const segments = await collect(parse_JPEG(JPEG([
+    quantization_table(0, 4), quantization_table(1, 300), [DRI, [0, 1]], [COM, [0x41]],
+    frame_header(SOF2, 8, 16, 8, [[1, 1, 1, 0]]), Huffman_table(0, 0, [0, 1]), scan_header([[1, 0, 0]], 0, 0, 0, 1),
+    Uint8Array.of(0x12, 0xFF, 0x34), [RST0], Uint8Array.of(0xFF),
+  ])));
+  assert.deepEqual(segments.map(({ marker }) => marker), [0xFFD8, DQT, DQT, DRI, COM, SOF2, DHT, SOS, undefined, RST0, undefined, 0xFFD9]);
+  const [, Q8, Q16, { Ri }, { Cm }, frame, { tables: [huffman] }, scan, first, , second] = segments;
+  assert.deepEqual([Q8.tables[0].Pq, Q8.tables[0].Q[63], Q16.tables[0].Pq, Q16.tables[0].Tq, Q16.tables[0].Q[0]], [0, 4, 1, 1, 300]);
+  assert.deepEqual([Ri, Cm], [1, Uint8Array.of(0x41)]);
+  assert.deepEqual(frame, {
+    marker: SOF2, P: 8, Y: 8, X: 16, Nf: 1, components: [{ C: 1, H: 1, V: 1, Tq: 0 }],
+    process: 'progressive', differential: false, arithmetic: false,
+  });
+  assert.deepEqual([huffman.Tc, huffman.Th, huffman.L[7], huffman.V[7]], [0, 0, 2, Uint8Array.of(0, 1)]);
+  assert.deepEqual(scan, { marker: SOS, Ns: 1, components: [{ Cs: 1, Td: 0, Ta: 0 }], Ss: 0, Se: 0, Ah: 0, Al: 1 });
+  assert.deepEqual([first.entropy_coded_segment, second.entropy_coded_segment], [Uint8Array.of(0x12, 0xFF, 0x34), Uint8Array.of(0xFF)]);
+  // fill bytes before a marker, and the coding process of SOF13
+  const [, differential] = await collect(parse_JPEG(reader([0xFF, 0xD8, 0xFF, 0xFF, 0xFF, 0xCD, 0, 11, 8, 0, 1, 0, 1, 1, 1, 0x11, 0, 0xFF, 0xD9])));
+  assert.deepEqual([differential.marker, differential.process, differential.differential, differential.arithmetic], [SOF13, 'extended', true, true]);
+});
+
+test('parse_JPEG can skip the entropy-coded data of each scan', async () => {
+  const segments = await collect(parse_JPEG(JPEG([
+    scan_header([[1, 0, 0]]), Uint8Array.of(0xFF, 0x00), [RST0], Uint8Array.of(0x01), scan_header([[1, 0, 0]]), Uint8Array.of(0x02),
+  ]), { skip_entropy_coded_data: true }));
+  assert.deepEqual(segments.map(({ marker }) => marker), [0xFFD8, SOS, SOS, 0xFFD9]);
+});
+
+test('parse_JPEG rejects a segment of the wrong length and a stream that ends in a scan', async () => {
+  const wrong_length = frame_header(SOF0, 8, 8, 8, [[1, 1, 1, 0]]);
+  wrong_length[1].push(0);
+  await assert.rejects(collect(parse_JPEG(JPEG([wrong_length]))), MalformedDataError);
+  await assert.rejects(collect(parse_JPEG(reader([0xFF, 0xD8, 0xFF, 0xDA, 0, 8, 1, 1, 0, 0, 63, 0, 0x12, 0x34]))), UnexpectedEOFError);
+});
@@ -0,0 +1,182 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parse_Exif } from '../dist/formats/jpeg/exif.js';
+import { JPEGMetadataCollector, parse_JFXX, read_JPEG_metadata } from '../dist/formats/jpeg/metadata.js';
+import { MalformedDataError } from '../dist/formats/mpeg2/syntax.js';
+import { reader } from './helpers.js';
+
+const APP0 = 0xFFE0;
+const APP1 = 0xFFE1;
+const APP2 = 0xFFE2;
+const APP14 = 0xFFEE;
+const COM = 0xFFFE;
+
+const text = (string) => Array.from(string, (character) => character.charCodeAt(0));
+
+// The value bytes of a field of a type; a LONG of { IFD: i } or { trailer: k } is the offset of IFD i or of the kth
+// byte of the data after the IFDs
+function field_bytes(little_endian, type, value, offsets) {
+  if (type === 2) return [...text(value), 0];
+  if (type === 7) return [...value];
+  const size = { 3: 2, 4: 4, 5: 8 }[type];
+  const view = new DataView(new ArrayBuffer(size * value.length));
+  value.forEach((v, i) => {
+    if (type === 3) view.setUint16(i * 2, v, little_endian);
+    if (type === 4) view.setUint32(i * 4, typeof v === 'number' ? v : v.IFD !== undefined ? offsets.IFDs[v.IFD] : offsets.trailer + v.trailer, little_endian);
+    if (type === 5) {
+      view.setUint32(i * 8, v[0], little_endian);
+      view.setUint32(i * 8 + 4, v[1], little_endian);
+    }
+  });
+  return [...new Uint8Array(view.buffer)];
+}
+
+// TIFF data of IFDs given as { fields: [[tag, type, value]], next?: i }, followed by the trailer bytes
+function TIFF(little_endian, IFDs, trailer = []) {
+  const external = (IFD) => IFD.fields.map(([, type, value]) => field_bytes(little_endian, type, value, { IFDs: [], trailer: 0 }))
+    .reduce((length, bytes) => length + (bytes.length > 4 ? bytes.length : 0), 0);
+  const offsets = { IFDs: [], trailer: 8 };
+  for (const IFD of IFDs) {
+    offsets.IFDs.push(offsets.trailer);
+    offsets.trailer += 2 + 12 * IFD.fields.length + 4 + external(IFD);
+  }
+  const data = new Uint8Array(offsets.trailer + trailer.length);
+  const view = new DataView(data.buffer);
+  data.set(text(little_endian ? 'II' : 'MM'));
+  view.setUint16(2, 42, little_endian);
+  view.setUint32(4, 8, little_endian);
+  IFDs.forEach((IFD, i) => {
+    const offset = offsets.IFDs[i];
+    let value_offset = offset + 2 + 12 * IFD.fields.length + 4;
+    view.setUint16(offset, IFD.fields.length, little_endian);
+    IFD.fields.forEach(([tag, type, value], j) => {
+      const entry = offset + 2 + 12 * j;
+      const bytes = field_bytes(little_endian, type, value, offsets);
+      view.setUint16(entry, tag, little_endian);
+      view.setUint16(entry + 2, type, little_endian);
+      view.setUint32(entry + 4, type === 2 || type === 7 ? bytes.length : value.length, little_endian);
+      if (bytes.length <= 4) {
+        data.set(bytes, entry + 8);
+      } else {
+        view.setUint32(entry + 8, value_offset, little_endian);
+        data.set(bytes, value_offset);
+        value_offset += bytes.length;
+      }
+    });
+    view.setUint32(offset + 2 + 12 * IFD.fields.length, IFD.next === undefined ? 0 : offsets.IFDs[IFD.next], little_endian);
+  });
+  data.set(trailer, offsets.trailer);
+  return data;
+}
+
+const thumbnail = [0xFF, 0xD8, 0xFF, 0xD9];
+
+// 0th IFD of Make, Model, Orientation and XResolution, with the Exif IFD and its Interoperability IFD, the GPS IFD and
+// the 1st IFD of a JPEG thumbnail
+function Exif_TIFF(little_endian) {
+  return TIFF(little_endian, [
+    { fields: [[0x010F, 2, 'Cam'], [0x0110, 2, 'Model X100'], [0x0112, 3, [6]], [0x011A, 5, [[72, 1]]], [0x8769, 4, [{ IFD: 1 }]], [0x8825, 4, [{ IFD: 3 }]]], next: 4 },
+    { fields: [[0x829A, 5, [[1, 250]]], [0xA005, 4, [{ IFD: 2 }]]] },
+    { fields: [[0x0001, 2, 'R98']] },
+    { fields: [[0x0001, 2, 'N']] },
+    { fields: [[0x0201, 4, [{ trailer: 0 }]], [0x0202, 4, [thumbnail.length]]] },
+  ], thumbnail);
+}
+
+for (const little_endian of [false, true]) {
+  test(`parse_Exif follows the IFDs of ${little_endian ? 'little' : 'big'} endian TIFF data to the thumbnail`, () => {
+    const exif = parse_Exif(Exif_TIFF(little_endian));
+    assert.equal(exif.little_endian, little_endian);
+    assert.deepEqual(exif.IFD0.fields.slice(0, 4).map(({ tag, value }) => [tag, value]), [
+      [0x010F, 'Cam'], [0x0110, 'Model X100'], [0x0112, [6]], [0x011A, [[72, 1]]],
+    ]);
+    assert.deepEqual(exif.Exif.fields[0].value, [[1, 250]]);
+    assert.equal(exif.Interoperability.fields[0].value, 'R98');
+    assert.equal(exif.GPS.fields[0].value, 'N');
+    assert.equal(exif.IFD1.fields.length, 2);
+    assert.deepEqual(exif.thumbnail, Uint8Array.from(thumbnail));
+  });
+}
+
+test('parse_Exif rejects an IFD referenced twice, and bad TIFF headers', () => {
+  const looped = TIFF(false, [{ fields: [[0x8769, 4, [{ IFD: 1 }]]] }, { fields: [[0xA005, 4, [{ IFD: 0 }]]] }]);
+  assert.throws(() => parse_Exif(looped), MalformedDataError);
+  assert.throws(() => parse_Exif(Uint8Array.from(text('XX\0\x2A\0\0\0\x08'))), MalformedDataError);
+  assert.throws(() => parse_Exif(Uint8Array.from(text('MM\0\x2B\0\0\0\x08'))), MalformedDataError);
+});
+
+// A JPEG stream of SOI, the segments given as [marker, data after the length], an empty scan and EOI
+function JPEG(segments, after_scan = []) {
+  const bytes = [0xFF, 0xD8];
+  for (const [marker, data] of segments) bytes.push(marker >> 8, marker & 0xFF, (data.length + 2) >> 8, (data.length + 2) & 0xFF, ...data);
+  bytes.push(0xFF, 0xDA, 0, 8, 1, 1, 0, 0, 63, 0, 0x12);
+  for (const [marker, data] of after_scan) bytes.push(marker >> 8, marker & 0xFF, (data.length + 2) >> 8, (data.length + 2) & 0xFF, ...data);
+  return reader([...bytes, 0xFF, 0xD9]);
+}
+
+const ICC_chunk = (seq_no, num_markers, data) => [APP2, [...text('ICC_PROFILE\0'), seq_no, num_markers, ...data]];
+const GUID = '0123456789ABCDEF0123456789ABCDEF';
+function extended_XMP_chunk(full, offset, length) {
+  const size = [full.length >> 24, (full.length >> 16) & 0xFF, (full.length >> 8) & 0xFF, full.length & 0xFF];
+  return [APP1, [...text('http://ns.adobe.com/xmp/extension/\0'), ...text(GUID), ...size, 0, 0, offset >> 8, offset & 0xFF, ...text(full.slice(offset, offset + length))]];
+}
+
+test('read_JPEG_metadata collects JFIF, Exif, XMP, ICC profile, MPF and Adobe segments, up to the first scan', async () => {
+  const XMP = '<x:xmpmeta xmlns:x="adobe:ns:meta/"/>';
+  const extended = '<x:xmpmeta>extended</x:xmpmeta>';
+  const MPF = TIFF(true, [{ fields: [[0xB000, 7, text('0100')], [0xB001, 4, [2]], [0xB002, 7, [
+    ...[0x03, 0x00, 0x02, 0x00], 100, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+    ...[0x02, 0x00, 0x01, 0x00], 50, 0, 0, 0, 100, 0, 0, 0, 0, 0, 0, 0,
+  ]]] }]);
+  const metadata = await read_JPEG_metadata(JPEG([
+    [APP0, [...text('JFIF\0'), 1, 2, 1, 0, 72, 0, 72, 1, 1, 0xFF, 0x80, 0x00]],
+    [APP1, [...text('Exif\0\0'), ...Exif_TIFF(false)]],
+    [APP1, [...text('http://ns.adobe.com/xap/1.0/\0'), ...text(XMP)]],
+    extended_XMP_chunk(extended, 16, 100), extended_XMP_chunk(extended, 0, 16),
+    ICC_chunk(2, 2, [3, 4]), ICC_chunk(1, 2, [1, 2]),
+    [APP2, [...text('MPF\0'), ...MPF]],
+    [APP14, [...text('Adobe'), 0, 100, 0, 0, 0, 0, 1]],
+    [0xFFE5, [1, 2, 3]], [COM, text('comment')],
+  ], [[COM, text('after the scan')]]));
+  assert.deepEqual(metadata.JFIF, { version: 0x0102, units: 1, Xdensity: 72, Ydensity: 72, Xthumbnail: 1, Ythumbnail: 1, thumbnail: Uint8Array.of(0xFF, 0x80, 0x00) });
+  assert.deepEqual(metadata.Exif.thumbnail, Uint8Array.from(thumbnail));
+  assert.equal(metadata.XMP, XMP);
+  assert.deepEqual([...metadata.extended_XMP], [[GUID, extended]]);
+  assert.deepEqual(metadata.ICC_profile, Uint8Array.of(1, 2, 3, 4));
+  assert.deepEqual(metadata.MPF.images, [
+    { attribute: 0x00020003, size: 100, offset: 0, dependent_image_1: 0, dependent_image_2: 0 },
+    { attribute: 0x00010002, size: 50, offset: 100, dependent_image_1: 0, dependent_image_2: 0 },
+  ]);
+  assert.deepEqual(metadata.Adobe, { DCTEncodeVersion: 100, APP14Flags0: 0, APP14Flags1: 0, ColorTransform: 1 });
+  assert.deepEqual(metadata.application_data, [{ marker: 0xFFE5, Ap: Uint8Array.of(1, 2, 3) }]);
+  assert.deepEqual(metadata.comments, ['comment']);
+  assert.deepEqual(metadata.errors, []);
+  const whole = await read_JPEG_metadata(JPEG([], [[COM, text('after the scan')]]), { scan_to_end: true });
+  assert.deepEqual(whole.comments, ['after the scan']);
+});
+
+test('segments that cannot be decoded and incomplete chunked metadata are reported as errors', () => {
+  const collector = new JPEGMetadataCollector();
+  for (const [marker, Ap] of [
+    [APP0, text('JFIF\0\x01')], ICC_chunk(1, 2, [1]), ICC_chunk(3, 2, [3]),
+    extended_XMP_chunk('0123456789', 0, 4), [APP14, text('Adobe')],
+  ]) collector.push({ marker, Ap: Uint8Array.from(Ap) });
+  const metadata = collector.result();
+  assert.equal(metadata.ICC_profile, undefined);
+  assert.equal(metadata.extended_XMP.size, 0);
+  assert.deepEqual(metadata.errors, [
+    { marker: APP0, message: 'JFIF segment is too short' },
+    { marker: APP2, message: 'Invalid ICC profile chunk 3 of 2' },
+    { marker: APP14, message: 'Adobe segment is too short' },
+    { marker: APP2, message: 'ICC profile is missing chunks' },
+    { marker: APP1, message: `Extended XMP ${GUID} is missing chunks` },
+  ]);
+});
+
+test('parse_JFXX gives the thumbnails of the JFIF extension segments', () => {
+  assert.deepEqual(parse_JFXX(Uint8Array.from([...text('JFXX\0'), 0x10, ...thumbnail])), { extension_code: 0x10, thumbnail: Uint8Array.from(thumbnail) });
+  const palette = parse_JFXX(Uint8Array.from([...text('JFXX\0'), 0x11, 2, 1, ...new Array(768).fill(7), 0, 1]));
+  assert.deepEqual([palette.Xthumbnail, palette.Ythumbnail, palette.palette.length, palette.thumbnail], [2, 1, 768, Uint8Array.of(0, 1)]);
+  assert.throws(() => parse_JFXX(Uint8Array.from([...text('JFXX\0'), 0x13, 2, 1, 0, 0, 0])), MalformedDataError);
+  assert.throws(() => parse_JFXX(Uint8Array.from([...text('JFXX\0'), 0x12])), MalformedDataError);
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { PESPacketizer } from '../dist/formats/mpeg2/packetizer.js';
+import { demux_PES } from '../dist/formats/mpeg2/pes.js';
+import { parse_transport_packet, serialize_transport_packet } from '../dist/formats/mpeg2/transport_stream.js';
+import { PES_packet, collect, iterate, reader } from './helpers.js';
+
+const data = Uint8Array.from({ length: 1000 }, (_, i) => i & 0xFF);
+
+// The packets as parsed back from their serialization
+async function reparse(packets) {
+  const result = [];
+  for (const packet of packets) {
+    const bytes = serialize_transport_packet(packet);
+    assert.equal(bytes.length, 188);
+    result.push(await parse_transport_packet(reader(bytes)));
+  }
+  return result;
+}
+
+test('PESPacketizer counts the continuity_counter on from the given start and wraps it after 15', () => {
+  const packetizer = new PESPacketizer(0x100, 13);
+  const packets = packetizer.packetize(PES_packet(data));
+  assert.deepEqual(packets.map((packet) => packet.continuity_counter), [14, 15, 0, 1, 2, 3]);
+  assert.deepEqual(packets.map((packet) => packet.payload_unit_start_indicator), [1, 0, 0, 0, 0, 0]);
+  assert.equal(packetizer.continuity_counter, 3);
+  assert.deepEqual(packetizer.packetize(PES_packet(data.subarray(0, 10)))[0].continuity_counter, 4);
+  assert.equal(new PESPacketizer(0x100).packetize(PES_packet(data))[0].continuity_counter, 0);
+});
+
+test('PESPacketizer gives the PCR and random_access_indicator only in the first packet', async () => {
+  const packets = await reparse(new PESPacketizer(0x100).packetize(PES_packet(data), { PCR: 27000000 * 3 + 7, random_access_indicator: true }));
+  const [first, ...rest] = packets;
+  assert.equal(first.adaptation_field.random_access_indicator, true);
+  assert.deepEqual([first.adaptation_field.program_clock_reference_base, first.adaptation_field.program_clock_reference_extension], [270000, 7]);
+  for (const packet of rest.slice(0, -1)) assert.equal(packet.adaptation_field, undefined);
+  const last = rest[rest.length - 1];
+  assert.deepEqual([last.adaptation_field.random_access_indicator, last.adaptation_field.program_clock_reference_base], [false, undefined]);
+});
+
+test('PESPacketizer stuffs the last packet with an adaptation field, of 1 byte for a payload of 183 bytes', async () => {
+  const PES_183 = PES_packet(data.subarray(0, 183 - 14));
+  const PES_184 = PES_packet(data.subarray(0, 184 - 14));
+  const PES_185 = PES_packet(data.subarray(0, 185 - 14));
+  const [packet_183] = await reparse(new PESPacketizer(0x100).packetize(PES_183));
+  assert.equal(packet_183.adaptation_field, undefined);
+  assert.equal(packet_183.data_byte.length, 183);
+  const serialized_183 = serialize_transport_packet(new PESPacketizer(0x100).packetize(PES_183)[0]);
+  assert.deepEqual([serialized_183[3] >> 4 & 0b11, serialized_183[4]], [0b11, 0]);
+  const packets_184 = new PESPacketizer(0x100).packetize(PES_184);
+  assert.equal(packets_184.length, 1);
+  assert.equal(serialize_transport_packet(packets_184[0])[3] >> 4 & 0b11, 0b01);
+  const [, last] = await reparse(new PESPacketizer(0x100).packetize(PES_185));
+  assert.deepEqual(last.data_byte, PES_185.subarray(184));
+});
+
+test('PESPacketizer gives a PCR packet without payload, which does not advance the continuity_counter', async () => {
+  const packetizer = new PESPacketizer(0x100, 5);
+  const [PCR_packet] = await reparse([packetizer.PCR_packet(300 * 90000, { discontinuity_indicator: true })]);
+  assert.equal(PCR_packet.continuity_counter, 5);
+  assert.equal(PCR_packet.data_byte, undefined);
+  assert.deepEqual([PCR_packet.adaptation_field.program_clock_reference_base, PCR_packet.adaptation_field.discontinuity_indicator], [90000, true]);
+  assert.equal(packetizer.continuity_counter, 5);
+  assert.equal(packetizer.packetize(PES_packet(data))[0].continuity_counter, 6);
+});
+
+test('PES packets survive packetize, serialize and demux_PES', async () => {
+  const packetizer = new PESPacketizer(0x100);
+  const PES_packets = [PES_packet(data, 3600), PES_packet(data.subarray(0, 170), 7200, 2), PES_packet(new Uint8Array(0), 10800)];
+  const packets = await reparse([
+    packetizer.PCR_packet(0),
+    ...PES_packets.flatMap((bytes, i) => packetizer.packetize(bytes, i === 0 ? { PCR: 300 * 3600 } : {})),
+  ]);
+  const demuxed = await collect(demux_PES(iterate(packets)));
+  assert.deepEqual(demuxed.map(({ PID, PES_packet }) => [PID, PES_packet.PTS, PES_packet.PES_packet_data]), [
+    [0x100, 3600, data], [0x100, 7200, data.subarray(0, 170)], [0x100, 10800, new Uint8Array(0)],
+  ]);
+});
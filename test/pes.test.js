@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { PESAssembler, demux_PES } from '../dist/formats/mpeg2/pes.js';
+import { PES_packet, collect, iterate, section } from './helpers.js';
+
+// A transport packet of a PID carrying data_byte, which starts a payload unit where start is 1
+function packet(PID, continuity_counter, data_byte, start = 0, fields = {}) {
+  return {
+    transport_error_indicator: 0, payload_unit_start_indicator: start, transport_priority: 0, PID,
+    transport_scrambling_control: 0, continuity_counter, data_byte, ...fields,
+  };
+}
+
+// The packets of a PES packet cut into payloads of 184 bytes, from a continuity_counter
+function packets(PID, PES_packet, continuity_counter = 0) {
+  const result = [];
+  for (let offset = 0; offset < PES_packet.length; offset += 184) {
+    result.push(packet(PID, (continuity_counter + offset / 184) & 0xF, PES_packet.subarray(offset, offset + 184), offset === 0 ? 1 : 0));
+  }
+  return result;
+}
+
+// A PES packet with a PES_packet_length of 0
+function unbounded(PES_packet) {
+  const bytes = Uint8Array.from(PES_packet);
+  bytes[4] = bytes[5] = 0;
+  return bytes;
+}
+
+const data = Uint8Array.from({ length: 300 }, (_, i) => i & 0xFF);
+
+async function push_all(assembler, ts_packets) {
+  const results = [];
+  for (const ts_packet of ts_packets) results.push(await assembler.push(ts_packet));
+  return results;
+}
+
+test('PESAssembler gives a bounded PES packet as soon as the packet of its last byte arrives', async () => {
+  const [first, last] = await push_all(new PESAssembler(), packets(0x100, PES_packet(data, 90000)));
+  assert.deepEqual(first, []);
+  assert.equal(last.length, 1);
+  assert.equal(last[0].PID, 0x100);
+  assert.equal(last[0].PES_packet.PTS, 90000);
+  assert.deepEqual(last[0].PES_packet.PES_packet_data, data);
+});
+
+test('an unbounded PES packet ends where the next one of its PID starts, or at the end of the stream', async () => {
+  const PES_packets = await collect(demux_PES(iterate([
+    ...packets(0x100, unbounded(PES_packet(data.subarray(0, 10), 0))),
+    ...packets(0x101, PES_packet(data.subarray(0, 20), 3000)),
+    ...packets(0x100, unbounded(PES_packet(data, 3600)), 1),
+  ])));
+  assert.deepEqual(PES_packets.map(({ PID, PES_packet }) => [PID, PES_packet.PTS, PES_packet.PES_packet_data.length]), [
+    [0x101, 3000, 20], [0x100, 0, 10], [0x100, 3600, 300],
+  ]);
+});
+
+test('a lost packet or a transport error drops the PES packet being reassembled', async () => {
+  const [start, rest] = packets(0x100, PES_packet(data, 0));
+  const lost = await push_all(new PESAssembler(), [start, { ...rest, continuity_counter: 2 }, ...packets(0x100, PES_packet(data, 1), 3)]);
+  assert.deepEqual(lost.flat().map(({ PES_packet }) => PES_packet.PTS), [1]);
+  const errored = await push_all(new PESAssembler(), [start, { ...rest, transport_error_indicator: 1 }, { ...rest, continuity_counter: 2 }]);
+  assert.deepEqual(errored.flat(), []);
+});
+
+test('a duplicate packet is ignored, and a discontinuity_indicator allows the continuity_counter to jump', async () => {
+  const [start, rest] = packets(0x100, PES_packet(data, 0));
+  const duplicated = await push_all(new PESAssembler(), [start, start, rest]);
+  assert.deepEqual(duplicated.flat().map(({ PES_packet }) => PES_packet.PES_packet_data), [data]);
+  const discontinuity = await push_all(new PESAssembler(), [
+    start, { ...rest, continuity_counter: 9, adaptation_field: { discontinuity_indicator: true } },
+  ]);
+  assert.equal(discontinuity.flat().length, 1);
+});
+
+test('PSI sections and the PIDs outside the filter are not taken for PES packets', async () => {
+  const PES = PES_packet(data.subarray(0, 10), 0);
+  const assembler = new PESAssembler();
+  assert.deepEqual(await push_all(assembler, [
+    packet(0x0000, 0, PES, 1), packet(0x1FFF, 0, PES, 1), packet(0x100, 0, Uint8Array.from([0, ...section([0x02, 0xB0, 0, 0, 1, 0xC1, 0, 0])]), 1),
+  ]), [[], [], []]);
+  assert.deepEqual(await assembler.flush(), []);
+  const filtered = new PESAssembler((PID) => PID === 0x0000);
+  assert.equal((await filtered.push(packet(0x0000, 0, PES, 1))).length, 1);
+});
+
+test('a PES packet that cannot be parsed is dropped in lenient mode, with a warning', async () => {
+  // a PES_header_data_length past the end of the PES packet
+  const PES = PES_packet(data.subarray(0, 4), 0);
+  PES[8] = 200;
+  await assert.rejects(new PESAssembler().push(packet(0x100, 0, PES, 1)));
+  const warnings = [];
+  const assembler = new PESAssembler(undefined, { mode: 'lenient', on_warning: (w) => warnings.push(w) });
+  assert.deepEqual(await assembler.push(packet(0x100, 0, PES, 1)), []);
+  // after a warning of the data bytes taken for stuffing bytes
+  const { clause, field, PID } = warnings.at(-1);
+  assert.deepEqual([clause, field, PID], ['2.4.3.6', 'PES_packet', 0x100]);
+});
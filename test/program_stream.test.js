@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  UnsupportedSystemStreamError, parse_program_stream, parse_program_stream_directory, parse_program_stream_map, parse_system_header,
+  serialize_pack_header, serialize_program_stream_directory, serialize_program_stream_map, serialize_system_header,
+} from '../dist/formats/mpeg2/program_stream.js';
+import { CRCMismatchError } from '../dist/formats/mpeg2/psi.js';
+import { MalformedDataError } from '../dist/formats/mpeg2/syntax.js';
+import { sniff_bytes } from '../dist/sniff.js';
+import { MPEG_program_end_code, collect, pack_header, padding_packet, reader } from './helpers.js';
+
+// An ISO/IEC 11172-1 pack header with an SCR of 0 and a mux_rate of 1
+const MPEG1_pack_header = [0x00, 0x00, 0x01, 0xBA, 0x21, 0x00, 0x01, 0x00, 0x01, 0x80, 0x00, 0x03];
+
+test('parse_program_stream gives the pack headers and packets until MPEG_program_end_code', async () => {
+  const bytes = [...pack_header, ...padding_packet, ...MPEG_program_end_code, ...pack_header];
+  const units = await collect(parse_program_stream(reader(bytes)));
+  assert.deepEqual(units.map((unit) => Object.keys(unit)[0]), ['pack_header', 'PES_packet']);
+  assert.equal(units[0].pack_header.program_mux_rate, 1);
+  assert.equal(units[1].PES_packet.stream_id, 0xBE);
+  assert.deepEqual(sniff_bytes(Uint8Array.from(bytes))[0], { format: 'mpegps', confidence: 1 });
+});
+
+test('parse_program_stream skips bytes that are not a start code in lenient mode, with a warning', async () => {
+  const bytes = [...pack_header, 0x12, 0x34, 0x56, ...padding_packet, ...MPEG_program_end_code];
+  const warnings = [];
+  const units = await collect(parse_program_stream(reader(bytes), { mode: 'lenient', on_warning: (w) => warnings.push(w) }));
+  assert.deepEqual(units.map((unit) => Object.keys(unit)[0]), ['pack_header', 'PES_packet']);
+  assert.deepEqual(warnings.map(({ field, byte_offset }) => ({ field, byte_offset })), [{ field: 'start_code', byte_offset: 14 }]);
+  await assert.rejects(collect(parse_program_stream(reader(bytes))), MalformedDataError);
+});
+
+test('parse_program_stream keeps a pack header with a marker bit of 0 in lenient mode, with a warning', async () => {
+  const bytes = [...pack_header, ...padding_packet];
+  bytes[6] = 0x00;
+  const warnings = [];
+  const units = await collect(parse_program_stream(reader(bytes), { mode: 'lenient', on_warning: (w) => warnings.push(w) }));
+  assert.equal(units[0].pack_header.program_mux_rate, 1);
+  assert.deepEqual(warnings.map(({ clause, field, byte_offset }) => ({ clause, field, byte_offset })), [{ clause: '2.5.3.3', field: 'marker_bit', byte_offset: 6 }]);
+  await assert.rejects(collect(parse_program_stream(reader(bytes))), MalformedDataError);
+});
+
+test('an ISO/IEC 11172-1 system stream is rejected, even in lenient mode, and not sniffed as a program stream', async () => {
+  const bytes = [...MPEG1_pack_header, ...padding_packet, ...MPEG_program_end_code];
+  await assert.rejects(collect(parse_program_stream(reader(bytes))), UnsupportedSystemStreamError);
+  await assert.rejects(collect(parse_program_stream(reader(bytes), { mode: 'lenient' })), UnsupportedSystemStreamError);
+  assert.equal(sniff_bytes(Uint8Array.from(bytes)).some((result) => result.format === 'mpegps'), false);
+});
+
+test('a PES packet with a PES_packet_length of 0 is skipped in lenient mode, and not read to the end', async () => {
+  const bytes = [...pack_header, 0x00, 0x00, 0x01, 0xE0, 0x00, 0x00, 0x80, 0x00, 0x00, 1, 2, 3, ...padding_packet, ...MPEG_program_end_code];
+  const warnings = [];
+  const units = await collect(parse_program_stream(reader(bytes), { mode: 'lenient', on_warning: (w) => warnings.push(w) }));
+  assert.deepEqual(units.map((unit) => unit.PES_packet?.stream_id), [undefined, 0xBE]);
+  assert.deepEqual(warnings.map(({ clause, field, byte_offset }) => ({ clause, field, byte_offset })), [{ clause: '2.5.3.1', field: 'PES_packet_length', byte_offset: 18 }]);
+  await assert.rejects(collect(parse_program_stream(reader(bytes))), MalformedDataError);
+});
+
+// A system header of a rate_bound of 3000, one audio and one video stream, and the P-STD buffers of the video, the
+// audio and an extended stream of stream_id_extension 0x71
+const system_header = [
+  0x00, 0x00, 0x01, 0xBB, 0x00, 0x12, 0x80, 0x17, 0x71, 0x04, 0xE1, 0x7F,
+  0xE0, 0xE0, 0xE8, 0xC0, 0xC0, 0x20, 0xB7, 0xC0, 0x71, 0xB6, 0xE0, 0x80,
+];
+
+test('parse_system_header reads the streams, of which 0xB7 gives a stream_id_extension, and serializes to the same bytes', async () => {
+  const header = await parse_system_header(reader(system_header));
+  assert.deepEqual(header, {
+    header_length: 18, rate_bound: 3000, audio_bound: 1, fixed_flag: false, CSPS_flag: false, system_audio_lock_flag: true,
+    system_video_lock_flag: true, video_bound: 1, packet_rate_restriction_flag: false, streams: [
+      { stream_id: 0xE0, 'P-STD_buffer_bound_scale': 1, 'P-STD_buffer_size_bound': 232 },
+      { stream_id: 0xC0, 'P-STD_buffer_bound_scale': 0, 'P-STD_buffer_size_bound': 32 },
+      { stream_id: 0xB7, stream_id_extension: 0x71, 'P-STD_buffer_bound_scale': 1, 'P-STD_buffer_size_bound': 128 },
+    ],
+  });
+  assert.deepEqual(serialize_system_header(header), Uint8Array.from(system_header));
+  const [unit] = await collect(parse_program_stream(reader([...pack_header, ...system_header, ...MPEG_program_end_code])));
+  assert.deepEqual(unit.pack_header.system_header, header);
+  assert.deepEqual(serialize_pack_header(unit.pack_header), Uint8Array.from([...pack_header, ...system_header]));
+  const bad = [...system_header];
+  bad[19] = 0x80;
+  await assert.rejects(parse_system_header(reader(bad)), MalformedDataError);
+});
+
+// A program stream map of version 3 with a maximum_bitrate_descriptor of 3000, and the stream descriptors of an
+// MPEG-2 video stream, an audio stream in English and an extended stream of stream_id_extension 0x71
+const program_stream_map = [
+  0x00, 0x00, 0x01, 0xBC, 0x00, 0x24, 0xA3, 0xFF, 0x00, 0x05, 0x0E, 0x03, 0xC0, 0x0B, 0xB8, 0x00, 0x15,
+  0x02, 0xE0, 0x00, 0x00,
+  0x04, 0xC0, 0x00, 0x06, 0x0A, 0x04, 0x65, 0x6E, 0x67, 0x00,
+  0x24, 0xFD, 0x00, 0x03, 0x3F, 0x01, 0xF1,
+  0xF1, 0x3F, 0x7B, 0x77,
+];
+
+test('parse_program_stream_map checks CRC_32 and reads the descriptor loops, and serializes to the same bytes', async () => {
+  const map = await parse_program_stream_map(reader(program_stream_map));
+  assert.deepEqual([map.current_next_indicator, map.single_extension_stream_flag, map.program_stream_map_version, map.CRC_32], [1, 0, 3, 0xF13F7B77]);
+  assert.deepEqual(map.descriptors.map(({ descriptor_tag, maximum_bitrate }) => [descriptor_tag, maximum_bitrate]), [[0x0E, 3000]]);
+  assert.deepEqual(map.streams.map(({ descriptors, ...fields }) => fields), [
+    { stream_type: 0x02, elementary_stream_id: 0xE0 },
+    { stream_type: 0x04, elementary_stream_id: 0xC0 },
+    { stream_type: 0x24, elementary_stream_id: 0xFD, pseudo_descriptor_tag: 0x3F, elementary_stream_id_extension: 0x71 },
+  ]);
+  assert.deepEqual(map.streams.map(({ descriptors }) => descriptors.length), [0, 1, 0]);
+  assert.deepEqual(map.streams[1].descriptors[0].languages, [{ ISO_639_language_code: 'eng', audio_type: 0 }]);
+  assert.deepEqual(serialize_program_stream_map(map), Uint8Array.from(program_stream_map));
+  const units = await collect(parse_program_stream(reader([...pack_header, ...program_stream_map, ...MPEG_program_end_code])));
+  assert.deepEqual(units[1].program_stream_map, map);
+});
+
+test('parse_program_stream_map throws on a corrupted CRC_32 in strict mode', async () => {
+  const bytes = [...program_stream_map];
+  bytes[bytes.length - 1] ^= 0x01;
+  await assert.rejects(parse_program_stream_map(reader(bytes)), CRCMismatchError);
+  await assert.rejects(collect(parse_program_stream(reader([...pack_header, ...bytes, ...MPEG_program_end_code]))), CRCMismatchError);
+});
+
+// A program stream directory of two access units, of a video access unit 1880 bytes on with a PTS of 2^32 + 90000,
+// and of an audio access unit 200 bytes back with a PTS of 0
+const program_stream_directory = [
+  0x00, 0x00, 0x01, 0xFF, 0x00, 0x32, 0x00, 0x05, 0x00, 0x01, 0x00, 0x01, 0x00, 0x01, 0x00, 0x03, 0x00, 0x05, 0x00, 0x07,
+  0xE0, 0x00, 0x01, 0x00, 0x01, 0x0E, 0xB1, 0x00, 0x00, 0xF9, 0x00, 0x05, 0xBF, 0x21, 0x02, 0x23, 0x70, 0xEF,
+  0xC0, 0x80, 0x01, 0x00, 0x01, 0x01, 0x91, 0x00, 0x10, 0xF1, 0x00, 0x01, 0x00, 0x01, 0x00, 0x01, 0x64, 0x8F,
+];
+
+test('parse_program_stream_directory reads the 45 bit offsets and access units, and serializes to the same bytes', async () => {
+  const directory = await parse_program_stream_directory(reader(program_stream_directory));
+  assert.deepEqual(directory, {
+    number_of_access_units: 2, previous_directory_offset: 0, next_directory_offset: 2 ** 30 + 2 * 2 ** 15 + 3, access_units: [{
+      packet_stream_id: 0xE0, PES_header_position_offset: 1880, reference_offset: 0, PTS: 2 ** 32 + 90000, bytes_to_read: 70000,
+      intra_coded_indicator: 1, coding_parameters_indicator: 0b10,
+    }, {
+      packet_stream_id: 0xC0, PES_header_position_offset: -200, reference_offset: 16, PTS: 0, bytes_to_read: 100,
+      intra_coded_indicator: 0, coding_parameters_indicator: 0b00,
+    }],
+  });
+  assert.deepEqual(serialize_program_stream_directory(directory), Uint8Array.from(program_stream_directory));
+  // a marker bit of 0 after the PTS of the first access unit
+  const bytes = [...program_stream_directory];
+  bytes[33] &= 0xFE;
+  await assert.rejects(parse_program_stream_directory(reader(bytes)), MalformedDataError);
+  const warnings = [];
+  await parse_program_stream_directory(reader(bytes), { mode: 'lenient', on_warning: (w) => warnings.push(w) });
+  assert.deepEqual(warnings.map(({ clause, field, byte_offset }) => ({ clause, field, byte_offset })), [{ clause: '2.5.5', field: 'marker_bit', byte_offset: 33 }]);
+});
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { UnimplementedReserveError } from '../dist/formats/mpeg2/syntax.js';
+import { parse_PSI, parse_TS_program_map_section, parse_program_association_section } from '../dist/formats/mpeg2/psi.js';
+import { PAT, PAT_zero_reserved, PMT, PMT_overrun, collect, iterate, section, section_packet } from './helpers.js';
+
+test('parse_PSI skips a section with a reserved bit of 0 in strict mode', async () => {
+  const tables = await collect(parse_PSI(iterate([section_packet(0, PAT_zero_reserved), section_packet(0, PAT, 1)])));
+  assert.equal(tables.length, 1);
+  assert.deepEqual(tables[0].programs, [{ program_number: 1, program_map_PID: 0x100 }]);
+});
+
+test('parse_PSI skips a section of which a descriptor runs past the section', async () => {
+  const packets = [section_packet(0, PAT), section_packet(0x100, PMT_overrun), section_packet(0x100, PMT, 1)];
+  const tables = await collect(parse_PSI(iterate(packets)));
+  assert.deepEqual(tables.map((table) => table.table_id), [0x00, 0x02]);
+  assert.equal(tables[1].version_number, 1);
+});
+
+test('parse_PSI keeps a section with a reserved bit of 0 in lenient mode, with a warning', async () => {
+  const warnings = [];
+  const options = { mode: 'lenient', on_warning: (warning) => warnings.push(warning) };
+  const tables = await collect(parse_PSI(iterate([section_packet(0, PAT_zero_reserved)]), undefined, options));
+  assert.equal(tables.length, 1);
+  assert.deepEqual(tables[0].programs, [{ program_number: 1, program_map_PID: 0x100 }]);
+  assert.equal(warnings.length, 1);
+  assert.equal(warnings[0].clause, '2.4.4.3');
+  assert.equal(warnings[0].PID, 0);
+});
+
+test('the section parsers throw on a reserved bit of 0 in strict mode', () => {
+  assert.throws(() => parse_program_association_section(PAT_zero_reserved), UnimplementedReserveError);
+  assert.equal(parse_TS_program_map_section(PMT).streams[0].elementary_PID, 0x101);
+});
+
+test('parse_PSI keeps a PMT of which a descriptor cannot be decoded, with the descriptor undecoded', async () => {
+  // an audio_stream_descriptor with its reserved bits set to 0
+  const PMT_zero_reserved = section([0x02, 0xB0, 0, 0x00, 0x01, 0xC1, 0, 0, 0xE1, 0x01, 0xF0, 0x00, 0x03, 0xE1, 0x02, 0xF0, 0x03, 0x03, 0x01, 0x40]);
+  const tables = await collect(parse_PSI(iterate([section_packet(0, PAT), section_packet(0x100, PMT_zero_reserved)])));
+  assert.deepEqual(tables.map((table) => table.table_id), [0x00, 0x02]);
+  assert.deepEqual(tables[1].streams[0].descriptors, [{ descriptor_tag: 3, descriptor_length: 1, data: Uint8Array.of(0x40) }]);
+  const warnings = [];
+  const options = { mode: 'lenient', on_warning: (warning) => warnings.push(warning) };
+  const lenient = await collect(parse_PSI(iterate([section_packet(0, PAT), section_packet(0x100, PMT_zero_reserved)]), undefined, options));
+  assert.deepEqual(lenient[1].streams[0].descriptors, tables[1].streams[0].descriptors);
+  assert.deepEqual(warnings.map((w) => [w.clause, w.field, w.PID]), [['2.4.4.9', 'descriptor 3', 0x100]]);
+});
@@ -0,0 +1,206 @@
+import assert from 'node:assert/strict';
+import { getEventListeners } from 'node:events';
+import { test } from 'node:test';
+import {
+  BitReader, BlobSource, ByteNotAlignedError, ByteReader, ExpGolombOverflowError, FileHandleSource, MemorySource, NotSeekableError, Stream,
+  StreamClosedError, UnexpectedEOFError, remove_emulation_prevention,
+} from '../dist/reader.js';
+import { bits, collect, iterate } from './helpers.js';
+
+test('Stream removes its abort listener once it ends or the consumer stops reading', async () => {
+  const controller = new AbortController();
+  const ended = new Stream({ signal: controller.signal });
+  const returned = new Stream({ signal: controller.signal });
+  assert.equal(getEventListeners(controller.signal, 'abort').length, 2);
+  ended.end();
+  await returned.return();
+  assert.equal(getEventListeners(controller.signal, 'abort').length, 0);
+});
+
+test('Stream push throws the reason of the abort', () => {
+  const controller = new AbortController();
+  const stream = new Stream({ signal: controller.signal });
+  const reason = new Error('aborted');
+  controller.abort(reason);
+  assert.throws(() => stream.push(1), (e) => e === reason);
+});
+
+test('Stream write waits while the high-water mark of values is queued, until the consumer reads', async () => {
+  const stream = new Stream({ high_water_mark: 2 });
+  assert.equal(stream.push(1), true);
+  let written = false;
+  const write = stream.write(2).then(() => { written = true; });
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(written, false);
+  assert.deepEqual(await stream.next(), { done: false, value: 1 });
+  await write;
+  stream.end();
+  assert.deepEqual(await collect(stream), [2]);
+});
+
+test('Stream error rejects the pending read and write, and the consumer stopping rejects writes with StreamClosedError', async () => {
+  const failed = new Stream({ high_water_mark: 1 });
+  const reason = new Error('failed');
+  const write = failed.write(1);
+  failed.error(reason);
+  await assert.rejects(write, (e) => e === reason);
+  await assert.rejects(failed.next(), (e) => e === reason);
+  const closed = new Stream({ high_water_mark: 1 });
+  const pending = closed.write(1);
+  await assert.rejects(closed.throw(reason), (e) => e === reason);
+  await assert.rejects(pending, StreamClosedError);
+  assert.equal(closed.push(2), false);
+  assert.deepEqual(await closed.next(), { done: true, value: undefined });
+  const returned = new Stream();
+  await returned.return();
+  await assert.rejects(returned.write(1), StreamClosedError);
+});
+
+// Bytes of a linear congruential sequence
+function pseudo_random(length) {
+  let x = 1;
+  return Uint8Array.from({ length }, () => (x = (x * 1103515245 + 12345) % 2 ** 31) >> 16 & 0xFF);
+}
+
+test('BitReader reads fields of up to 53 bits at any bit offset, as bit by bit', () => {
+  const data = pseudo_random(16);
+  const bit = (i) => data[i >> 3] >> (7 - (i & 7)) & 1;
+  for (let offset = 0; offset < 16; offset++) {
+    for (let n = 0; n <= 53 && offset + n <= 128; n++) {
+      const r = new BitReader(data);
+      r.skip(offset);
+      let expected = 0;
+      for (let i = 0; i < n; i++) expected = expected * 2 + bit(offset + i);
+      assert.equal(r.nextbits(n), expected, `${n} bits at ${offset}`);
+      assert.equal(r.uimsbf(n), expected, `${n} bits at ${offset}`);
+      assert.equal(r.tell(), offset + n);
+      assert.equal(r.left(), 128 - offset - n);
+    }
+  }
+});
+
+test('BitReader reads signed and bigint fields, and throws past the end', () => {
+  const r = new BitReader(Uint8Array.of(0xFF, 0xFE, 0x80, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01, 0x80));
+  assert.equal(r.tcimsbf(4), -1);
+  assert.equal(r.tcimsbf(12), -2);
+  assert.equal(r.tcimsbf_bigint(64), -(2n ** 63n) + 1n);
+  assert.equal(r.uimsbf_bigint(1), 1n);
+  assert.throws(() => r.uimsbf(8), UnexpectedEOFError);
+  assert.throws(() => r.bytes(1), ByteNotAlignedError);
+  r.byte_align();
+  assert.equal(r.left(), 0);
+  assert.throws(() => r.skip(1), UnexpectedEOFError);
+});
+
+test('BitReader reads Exp-Golomb codes of up to 32 leading zero bits', () => {
+  const values = [0, 1, 2, 3, 7, 8, 254, 255, 65535, 2 ** 24, 2 ** 32 - 2];
+  const r = new BitReader(bits([...values.map((value) => ['ue', value]), ['se', 0], ['se', 1], ['se', -1], ['se', -(2 ** 20)]]));
+  assert.deepEqual(values.map(() => r.ue()), values);
+  assert.deepEqual([r.se(), r.se(), r.se(), r.se()], [0, 1, -1, -(2 ** 20)]);
+  assert.equal(new BitReader(bits([[32, 0], [1, 1], [32, 0]])).ue(), 2 ** 32 - 1);
+  assert.throws(() => new BitReader(bits([[32, 0], [2, 1], [32, 0]])).ue(), ExpGolombOverflowError);
+  assert.throws(() => new BitReader(Uint8Array.of(0x00, 0x01)).ue(), UnexpectedEOFError);
+});
+
+test('BitReader in RBSP mode reads without the emulation prevention bytes, up to the rbsp_stop_one_bit', () => {
+  const data = Uint8Array.of(0x00, 0x00, 0x03, 0x01, 0x00, 0x00, 0x03, 0x00, 0xA8, 0x00, 0x00);
+  const r = new BitReader(data, { rbsp: true });
+  assert.equal(r.left(), 9 * 8);
+  assert.equal(r.uimsbf(32), 0x00000100);
+  assert.equal(r.uimsbf(16), 0x0000);
+  assert.equal(r.uimsbf(3), 0b101);
+  assert.equal(r.more_rbsp_data(), true);
+  r.skip(1);
+  // the rbsp_stop_one_bit, followed by the cabac_zero_words
+  assert.equal(r.more_rbsp_data(), false);
+  const plain = Uint8Array.of(0x00, 0x03, 0x00, 0x00, 0x04);
+  assert.equal(remove_emulation_prevention(plain), plain);
+  assert.equal(new BitReader(Uint8Array.of(0x00), { rbsp: true }).more_rbsp_data(), false);
+});
+
+const data = Uint8Array.from({ length: 200000 }, (_, i) => i & 0xFF);
+
+// A MemorySource that records the ranges read from it
+function recorded_source() {
+  const source = new MemorySource(data);
+  const reads = [];
+  return {
+    reads,
+    size: () => source.size(),
+    read: (position, length) => {
+      reads.push([position, length]);
+      return source.read(position, length);
+    },
+  };
+}
+
+test('ByteReader of an iterator keeps the position across chunks, and peeks from the next byte to be read', async () => {
+  const reader = new ByteReader(iterate([Uint8Array.of(0, 1, 2), Uint8Array.of(3), Uint8Array.of(4, 5, 6, 7)]));
+  assert.equal(await reader.byte(), 0);
+  assert.deepEqual(await reader.peek_bytes(3), Uint8Array.of(1, 2, 3));
+  assert.equal(reader.tell(), 1);
+  assert.deepEqual(await reader.bytes(4), Uint8Array.of(1, 2, 3, 4));
+  assert.equal(reader.tell(), 5);
+  reader.unshift(Uint8Array.of(3, 4));
+  assert.equal(reader.tell(), 3);
+  await reader.skip(3);
+  reader.seek(5);
+  assert.equal(await reader.byte(), 5);
+  assert.throws(() => reader.seek(0), NotSeekableError);
+  await assert.rejects(reader.bytes(3), (e) => e instanceof UnexpectedEOFError && e.position === 8);
+  assert.equal(await reader.size(), undefined);
+});
+
+test('ByteReader of a random access source seeks, and skips without reading the bytes skipped', async () => {
+  const source = recorded_source();
+  const reader = new ByteReader(source);
+  assert.equal(await reader.size(), data.length);
+  reader.seek(100000);
+  assert.equal(await reader.byte(), 100000 & 0xFF);
+  await reader.skip(70000);
+  assert.equal(reader.tell(), 170001);
+  assert.equal(await reader.byte(), 170001 & 0xFF);
+  reader.seek(10);
+  assert.deepEqual(await reader.bytes(2), Uint8Array.of(10, 11));
+  assert.deepEqual(source.reads, [[100000, 65536], [170001, 65536], [10, 65536]]);
+  await assert.rejects(reader.skip(data.length), (e) => e instanceof UnexpectedEOFError && e.position === data.length);
+});
+
+test('ByteReader sub_reader gives a reader bounded to the next bytes, at their positions in the source', async () => {
+  const source = recorded_source();
+  const reader = new ByteReader(source);
+  reader.seek(1000);
+  const sub = await reader.sub_reader(100000);
+  assert.equal(reader.tell(), 101000);
+  assert.equal(sub.tell(), 1000);
+  assert.equal(await sub.size(), 100000);
+  sub.seek(100990);
+  assert.deepEqual(await sub.rest(), data.subarray(100990, 101000));
+  assert.throws(() => sub.seek(999), NotSeekableError);
+  // a sub_reader of buffered bytes shares them
+  const buffered = await reader.sub_reader(4);
+  assert.deepEqual([buffered.tell(), await buffered.byte()], [101000, 101000 & 0xFF]);
+  await assert.rejects(buffered.bytes(4), (e) => e instanceof UnexpectedEOFError && e.position === 101004);
+  const iterator = new ByteReader(iterate([Uint8Array.of(0, 1), Uint8Array.of(2, 3)]));
+  const across = await iterator.sub_reader(3);
+  assert.deepEqual([across.tell(), await across.rest(), iterator.tell(), await iterator.byte()], [0, Uint8Array.of(0, 1, 2), 3, 3]);
+});
+
+test('BlobSource and FileHandleSource read ranges, up to the end of the source', async () => {
+  const blob = new BlobSource(new Blob([data.subarray(0, 10)]));
+  assert.equal(await blob.size(), 10);
+  assert.deepEqual(await blob.read(8, 4), Uint8Array.of(8, 9));
+  // a handle that reads 3 bytes at a time
+  const file = new FileHandleSource({
+    stat: async () => ({ size: 10 }),
+    read: async (buffer, offset, length, position) => {
+      const bytes = data.subarray(position, Math.min(position + Math.min(length, 3), 10));
+      buffer.set(bytes, offset);
+      return { bytesRead: bytes.length };
+    },
+  });
+  assert.deepEqual(await file.read(2, 7), Uint8Array.of(2, 3, 4, 5, 6, 7, 8));
+  assert.deepEqual(await file.read(8, 4), Uint8Array.of(8, 9));
+  const reader = new ByteReader(file, 4, 8);
+  assert.deepEqual([await reader.size(), await reader.rest()], [4, Uint8Array.of(4, 5, 6, 7)]);
+});
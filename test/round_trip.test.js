@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  parse_PES_packet, parse_transport_packet, serialize_PES_packet, serialize_transport_packet,
+} from '../dist/formats/mpeg2/transport_stream.js';
+import { reader } from './helpers.js';
+
+// A transport packet of PID 0x100 with an adaptation field and payload
+function transport_packet(adaptation_field) {
+  const payload = new Array(184 - adaptation_field.length).fill(0).map((_, i) => i & 0xFF);
+  return Uint8Array.from([0x47, 0x01, 0x00, 0x30, ...adaptation_field, ...payload]);
+}
+
+// A video PES packet with a PTS of 0, N1 stuffing bytes and 3 bytes of data
+function PES_packet(N1, PES_packet_length) {
+  const PTS = [0x21, 0x00, 0x01, 0x00, 0x01];
+  return Uint8Array.from([
+    0x00, 0x00, 0x01, 0xE0, PES_packet_length >> 8, PES_packet_length & 0xFF,
+    0x80, 0x80, PTS.length + N1, ...PTS, ...new Array(N1).fill(0xFF), 1, 2, 3,
+  ]);
+}
+
+test('an adaptation field extension without optional fields survives the round trip', async () => {
+  const bytes = transport_packet([3, 0x01, 1, 0x1F]);
+  const packet = await parse_transport_packet(reader(bytes));
+  assert.equal(packet.adaptation_field.adaptation_field_extension_length, 1);
+  assert.deepEqual(serialize_transport_packet(packet), bytes);
+});
+
+test('reserved bytes at the end of an adaptation field extension survive the round trip', async () => {
+  const bytes = transport_packet([5, 0x01, 3, 0x1F, 0xFF, 0xFF]);
+  const packet = await parse_transport_packet(reader(bytes));
+  assert.deepEqual(serialize_transport_packet(packet), bytes);
+});
+
+test('stuffing in the header of an unbounded PES packet survives the round trip', async () => {
+  const bytes = PES_packet(3, 0);
+  const packet = await parse_PES_packet(reader(bytes));
+  assert.equal(packet.N1, 3);
+  assert.deepEqual(serialize_PES_packet(packet), bytes);
+});
+
+test('more than 32 stuffing bytes in a PES header survive the round trip in lenient mode', async () => {
+  const bytes = PES_packet(40, 3 + 5 + 40 + 3);
+  const warnings = [];
+  const packet = await parse_PES_packet(reader(bytes), { mode: 'lenient', on_warning: (w) => warnings.push(w) });
+  assert.deepEqual(warnings.map((w) => w.field), ['stuffing_byte']);
+  assert.deepEqual(serialize_PES_packet(packet), bytes);
+});
+
+test('a PES packet with changed data keeps its stuffing and recomputes PES_packet_length', async () => {
+  const packet = await parse_PES_packet(reader(PES_packet(2, 3 + 5 + 2 + 3)));
+  const bytes = serialize_PES_packet({ ...packet, PES_packet_data: Uint8Array.of(1, 2, 3, 4) });
+  assert.deepEqual(bytes, Uint8Array.from([...PES_packet(2, 3 + 5 + 2 + 4).subarray(0, -3), 1, 2, 3, 4]));
+});
+
+// A video PES packet with a PTS of 0 and a PES extension 2 of the given bytes
+function PES_extension_2_packet(extension) {
+  const header = [0x21, 0x00, 0x01, 0x00, 0x01, 0x0F, 0x80 | extension.length, ...extension];
+  return Uint8Array.from([0x00, 0x00, 0x01, 0xE0, 0x00, 3 + header.length + 3, 0x80, 0x81, header.length, ...header, 1, 2, 3]);
+}
+
+test('a PES extension 2 without stream_id_extension or TREF survives the round trip', async () => {
+  for (const extension of [[0xFF], [0xFF, 0xFF, 0xFF]]) {
+    const bytes = PES_extension_2_packet(extension);
+    const packet = await parse_PES_packet(reader(bytes));
+    assert.equal(packet.PES_extension_field_length, extension.length);
+    assert.deepEqual(serialize_PES_packet(packet), bytes);
+  }
+});
+
+test('a PES extension 2 with TREF or stream_id_extension survives the round trip', async () => {
+  const TREF = PES_extension_2_packet([0xFE, 0xF1, 0x00, 0x03, 0x00, 0x01]);
+  const packet = await parse_PES_packet(reader(TREF));
+  assert.equal(packet.TREF, 1 << 15);
+  assert.deepEqual(serialize_PES_packet(packet), TREF);
+  const stream_id_extension = PES_extension_2_packet([0x60]);
+  assert.deepEqual(serialize_PES_packet(await parse_PES_packet(reader(stream_id_extension))), stream_id_extension);
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { MalformedDataError } from '../dist/formats/mpeg2/syntax.js';
+import { CRCMismatchError, parse_splice_info_section, splice_PTS } from '../dist/formats/scte35/splice_info_section.js';
+import { SpliceMonitor, monitor_splices } from '../dist/formats/scte35/splice_monitor.js';
+import { PES_packet, bits, collect, iterate, section, section_packet } from './helpers.js';
+
+// A splice_info_section of a splice command and descriptor loop
+function splice_info_section(splice_command_type, command, descriptors = [], pts_adjustment = 0, splice_command_length = command.length) {
+  return section([
+    ...bits([[8, 0xFC], [4, 3], [12, 0], [8, 0], [1, 0], [6, 0], [33, pts_adjustment], [8, 0xFF], [12, 0xFFF], [12, splice_command_length]]),
+    splice_command_type, ...command, descriptors.length >> 8, descriptors.length & 0xFF, ...descriptors,
+  ]);
+}
+
+const CUEI = [0x43, 0x55, 0x45, 0x49];
+
+function time_signal(pts_time) {
+  return splice_info_section(0x06, bits([[1, 1], [6, 0x3F], [33, pts_time]]));
+}
+
+function video_packet(PTS, stream_id = 0xE0, continuity_counter = 0, adaptation_field = undefined) {
+  const data_byte = PES_packet([1, 2, 3], PTS);
+  data_byte[3] = stream_id;
+  return {
+    transport_error_indicator: 0, payload_unit_start_indicator: 1, transport_priority: 0, PID: 0x200,
+    transport_scrambling_control: 0, continuity_counter, ...(adaptation_field !== undefined ? { adaptation_field } : {}), data_byte,
+  };
+}
+
+// A splice_insert of a program splice at a splice time, or immediate, with a break_duration of 30 s
+function splice_insert(pts_time) {
+  return bits([
+    [32, 0x1234], [1, 0], [7, 0x7F], [1, 1], [1, 1], [1, 1], [1, pts_time === undefined ? 1 : 0], [1, 1], [3, 7],
+    ...(pts_time !== undefined ? [[1, 1], [6, 0x3F], [33, pts_time]] : []),
+    [1, 1], [6, 0x3F], [33, 30 * 90000], [16, 1], [8, 0], [8, 0],
+  ]);
+}
+
+test('parse_splice_info_section reads a splice_insert with the CUEI splice descriptors, and adds pts_adjustment modulo 2^33', () => {
+  const segmentation_descriptor = [0x02, 26, ...CUEI, ...bits([
+    [32, 7], [1, 0], [1, 1], [6, 0x3F], [1, 1], [1, 1], [1, 0], [1, 1], [1, 0], [1, 1], [2, 3], [40, 30 * 90000],
+    [8, 0x0C], [8, 4], [32, 0x41424344], [8, 0x34], [8, 1], [8, 2], [8, 1], [8, 4],
+  ])];
+  const DTMF_descriptor = [0x01, 8, ...CUEI, 50, 2 << 5 | 0x1F, 0x31, 0x23];
+  // an avail_descriptor of another identifier is left undecoded
+  const avail_descriptor = [0x00, 6, 0x41, 0x42, 0x43, 0x44, 0x12, 0x34];
+  const section = parse_splice_info_section(splice_info_section(
+    0x05, splice_insert(Math.pow(2, 33) - 90000), [...segmentation_descriptor, ...DTMF_descriptor, ...avail_descriptor], 180000,
+  ));
+  assert.equal(section.pts_adjustment, 180000);
+  assert.equal(section.tier, 0xFFF);
+  assert.deepEqual(section.splice_command, {
+    splice_command_type: 0x05, splice_event_id: 0x1234, splice_event_cancel_indicator: false, out_of_network_indicator: true,
+    program_splice_flag: true, splice_immediate_flag: false, event_id_compliance_flag: true, splice_time: { pts_time: Math.pow(2, 33) - 90000 },
+    break_duration: { auto_return: true, duration: 30 * 90000 }, unique_program_id: 1, avail_num: 0, avails_expected: 0,
+  });
+  assert.equal(splice_PTS(section), 90000);
+  const [segmentation, DTMF, avail] = section.descriptors;
+  assert.deepEqual({ ...segmentation, data: undefined }, {
+    descriptor_tag: 0x02, descriptor_length: 26, data: undefined, identifier: 0x43554549, segmentation_event_id: 7,
+    segmentation_event_cancel_indicator: false, segmentation_event_id_compliance_indicator: true, program_segmentation_flag: true,
+    delivery_not_restricted_flag: false, web_delivery_allowed_flag: true, no_regional_blackout_flag: false, archive_allowed_flag: true,
+    device_restrictions: 3, segmentation_duration: 30 * 90000, segmentation_upid_type: 0x0C, segmentation_upid: Uint8Array.of(0x41, 0x42, 0x43, 0x44),
+    segmentation_type_id: 0x34, segment_num: 1, segments_expected: 2, sub_segment_num: 1, sub_segments_expected: 4,
+  });
+  assert.deepEqual([DTMF.preroll, DTMF.DTMF_char], [50, '1#']);
+  assert.deepEqual([avail.identifier, avail.private_byte], [0x41424344, Uint8Array.of(0x12, 0x34)]);
+});
+
+test('parse_splice_info_section reads a splice command of unknown length, and leaves an encrypted one encrypted', () => {
+  const time_signal = parse_splice_info_section(splice_info_section(0x06, bits([[1, 1], [6, 0x3F], [33, 9000]]), [], 0, 0xFFF));
+  assert.deepEqual(time_signal.splice_command, { splice_command_type: 0x06, splice_time: { pts_time: 9000 } });
+  const private_command = parse_splice_info_section(splice_info_section(0xFF, [...CUEI, 1, 2]));
+  assert.deepEqual(private_command.splice_command, { splice_command_type: 0xFF, identifier: 0x43554549, private_byte: Uint8Array.of(1, 2) });
+  const bytes = splice_info_section(0x00, []);
+  bytes[4] |= 0x80;
+  const encrypted = section([...bytes.subarray(0, -4)]);
+  const encrypted_section = parse_splice_info_section(encrypted);
+  assert.equal(encrypted_section.encrypted_packet, true);
+  assert.deepEqual(encrypted_section.encrypted_data, Uint8Array.of(0x00, 0x00, 0x00));
+  assert.equal(splice_PTS(encrypted_section), undefined);
+});
+
+test('parse_splice_info_section throws on a CRC_32 mismatch, a reserved splice command and a command overrunning its length', () => {
+  const bytes = splice_info_section(0x00, []);
+  bytes[5] ^= 0xFF;
+  assert.throws(() => parse_splice_info_section(bytes), CRCMismatchError);
+  assert.throws(() => parse_splice_info_section(splice_info_section(0x01, [])), MalformedDataError);
+  assert.throws(() => parse_splice_info_section(splice_info_section(0x06, bits([[1, 1], [6, 0x3F], [33, 9000]]), [], 0, 1)), MalformedDataError);
+});
+
+test('SpliceMonitor skips a section of which the descriptor loop runs past the section', () => {
+  const monitor = new SpliceMonitor(0x500, 0x200);
+  // a descriptor of 32 bytes in a loop of 2
+  const overrun = splice_info_section(0x00, [], [0x00, 0x20]);
+  assert.deepEqual(monitor.push(section_packet(0x500, overrun)), []);
+  const cues = monitor.push(section_packet(0x500, splice_info_section(0x00, []), 1));
+  assert.deepEqual(cues.map((cue) => cue.section.splice_command.splice_command_type), [0x00]);
+});
+
+test('SpliceMonitor finds the access unit of a splice time in the PES packets of any stream_id with a PES header', () => {
+  const monitor = new SpliceMonitor(0x500, 0x200);
+  assert.deepEqual(monitor.push(section_packet(0x500, time_signal(9000))), []);
+  assert.deepEqual(monitor.push(video_packet(6000, 0xF3)), []);
+  const [cue] = monitor.push(video_packet(9000, 0xF3, 1));
+  assert.equal(cue.splice_PTS, 9000);
+  assert.deepEqual(cue.access_unit, { PTS: 9000, packet_index: 2, offset: 0, random_access_indicator: false, splice_countdown: false });
+});
+
+test('SpliceMonitor gives an immediate splice at the next access unit, after the packet where splice_countdown reached 0', () => {
+  const monitor = new SpliceMonitor(0x500, 0x200);
+  assert.deepEqual(monitor.push(video_packet(3000, 0xE0, 0, { random_access_indicator: false, splice_countdown: 0 })), []);
+  assert.deepEqual(monitor.push(section_packet(0x500, splice_info_section(0x05, splice_insert()))), []);
+  const [cue] = monitor.push(video_packet(6000, 0xE0, 1, { random_access_indicator: true }));
+  assert.equal(cue.packet_index, 1);
+  assert.equal(cue.splice_PTS, undefined);
+  assert.deepEqual(cue.access_unit, { PTS: 6000, packet_index: 2, random_access_indicator: true, splice_countdown: true });
+});
+
+test('monitor_splices gives cues without a splice time at once, and those of which no access unit was found at the end', async () => {
+  const cues = await collect(monitor_splices(iterate([
+    section_packet(0x500, time_signal(Math.pow(2, 33) - 1000)), section_packet(0x500, splice_info_section(0x00, []), 1),
+    // the splice time is found across the wrap of the PTS
+    video_packet(Math.pow(2, 33) - 3000), video_packet(500, 0xE0, 1),
+    section_packet(0x500, time_signal(90000), 2),
+  ]), 0x500, 0x200));
+  assert.deepEqual(cues.map((cue) => [cue.section.splice_command.splice_command_type, cue.packet_index, cue.access_unit?.offset]), [
+    [0x00, 1, undefined], [0x06, 0, 1500], [0x06, 4, undefined],
+  ]);
+  assert.equal(cues[1].access_unit.packet_index, 3);
+});
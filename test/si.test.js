@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { JST_offset, arib_profile, parse_broadcaster_information_section } from '../dist/formats/arib/si.js';
+import { decode_arib_text } from '../dist/formats/arib/text.js';
+import { extended_event_text } from '../dist/formats/dvb/descriptors.js';
+import {
+  CRCMismatchError, dvb_profile, parse_SI, parse_event_information_section, parse_network_information_section,
+  parse_service_description_section, parse_time_date_section, parse_time_offset_section,
+} from '../dist/formats/dvb/si.js';
+import { decode_dvb_text } from '../dist/formats/dvb/text.js';
+import { decode_bcd_duration, decode_mjd_utc } from '../dist/formats/dvb/time.js';
+import { bits, collect, iterate, section, section_packet } from './helpers.js';
+
+const ascii = (string) => Array.from(string, (character) => character.charCodeAt(0));
+const descriptor = (descriptor_tag, data) => [descriptor_tag, data.length, ...data];
+// A loop of 12 bits of length after 4 reserved_future_use bits
+const loop = (data) => [0xF0 | data.length >> 8, data.length & 0xFF, ...data];
+
+// A section of the long form with private_indicator 1, as SI sections have
+function SI_section(table_id, table_id_extension, body, version_number = 0, current_next_indicator = 1) {
+  return section([
+    table_id, 0xF0, 0, table_id_extension >> 8, table_id_extension & 0xFF, 0xC0 | version_number << 1 | current_next_indicator, 0, 0, ...body,
+  ]);
+}
+
+// 2024-01-01 12:34:56 of MJD 60310
+const start_time = [[16, 60310], [24, 0x123456]];
+
+test('decode_mjd_utc and decode_bcd_duration convert MJD and BCD times, of which all bits set are undefined', () => {
+  assert.deepEqual(decode_mjd_utc(60310 * Math.pow(2, 24) + 0x123456), new Date(Date.UTC(2024, 0, 1, 12, 34, 56)));
+  assert.deepEqual(decode_mjd_utc(60310 * Math.pow(2, 24) + 0x123456, JST_offset), new Date(Date.UTC(2024, 0, 1, 3, 34, 56)));
+  assert.equal(decode_mjd_utc(Math.pow(2, 40) - 1), undefined);
+  assert.equal(decode_bcd_duration(0x013000), 5400);
+  assert.equal(decode_bcd_duration(0xFFFFFF), undefined);
+});
+
+test('decode_dvb_text decodes the character code tables selected by the first byte', () => {
+  // table 00 with a diacritical mark before its letter, a CR/LF and an emphasis control code
+  assert.equal(decode_dvb_text(Uint8Array.of(0x43, 0x61, 0x66, 0xC2, 0x65, 0x8A, 0x86, 0x41)), 'Café\nA');
+  assert.equal(decode_dvb_text(Uint8Array.of(0x01, 0xB0, 0xD1)), 'Аб');
+  assert.equal(decode_dvb_text(Uint8Array.of(0x10, 0x00, 0x02, 0xA1)), 'Ą');
+  assert.equal(decode_dvb_text(Uint8Array.of(0x11, 0x00, 0x41, 0xE0, 0x8A, 0x00, 0x42)), 'A\nB');
+  assert.equal(decode_dvb_text(Uint8Array.of(0x15, 0xC3, 0xBC)), 'ü');
+  // ISO/IEC 8859-12 does not exist, and is taken as table 00
+  assert.equal(decode_dvb_text(Uint8Array.of(0x10, 0x00, 0x0C, 0x41)), 'A');
+  assert.equal(decode_dvb_text(Uint8Array.of()), '');
+});
+
+test('parse_network_information_section reads the network and transport stream descriptors', () => {
+  const NIT = parse_network_information_section(SI_section(0x40, 0x3001, [
+    ...loop(descriptor(0x40, ascii('Net'))),
+    ...loop([0x00, 0x01, 0x22, 0x33, ...loop(descriptor(0x41, [0x01, 0x01, 0x01, 0x01, 0x02, 0x19]))]),
+  ]));
+  assert.equal(NIT.network_id, 0x3001);
+  assert.equal(NIT.descriptors[0].network_name, 'Net');
+  assert.equal(NIT.transport_streams.length, 1);
+  const [{ transport_stream_id, original_network_id, descriptors: [service_list] }] = NIT.transport_streams;
+  assert.deepEqual([transport_stream_id, original_network_id], [0x0001, 0x2233]);
+  assert.deepEqual(service_list.services, [{ service_id: 0x0101, service_type: 0x01 }, { service_id: 0x0102, service_type: 0x19 }]);
+  assert.throws(() => parse_network_information_section(SI_section(0x42, 1, [0xF0, 0, 0xF0, 0])), /table_id/);
+});
+
+// The service loop entry of a service running, with EIT schedule and present/following information
+function service(service_id, descriptors) {
+  return [...bits([[16, service_id], [6, 0x3F], [1, 1], [1, 1], [3, 4], [1, 0], [12, descriptors.length]]), ...descriptors];
+}
+
+test('parse_service_description_section reads the service descriptors of each service', () => {
+  const SDT = parse_service_description_section(SI_section(0x42, 0x0001, [
+    0x22, 0x33, 0xFF, ...service(0x0101, descriptor(0x48, [0x01, 3, ...ascii('BBC'), 4, ...ascii('News')])), ...service(0x0102, []),
+  ]));
+  assert.deepEqual([SDT.transport_stream_id, SDT.original_network_id], [0x0001, 0x2233]);
+  assert.deepEqual(SDT.services.map(({ descriptors, ...fields }) => fields), [
+    { service_id: 0x0101, EIT_schedule_flag: 1, EIT_present_following_flag: 1, running_status: 4, free_CA_mode: 0 },
+    { service_id: 0x0102, EIT_schedule_flag: 1, EIT_present_following_flag: 1, running_status: 4, free_CA_mode: 0 },
+  ]);
+  const { service_type, service_provider_name, service_name } = SDT.services[0].descriptors[0];
+  assert.deepEqual([service_type, service_provider_name, service_name], [0x01, 'BBC', 'News']);
+});
+
+// The event loop entry of an event of a start time and duration, each given as bit fields
+function event(event_id, start, duration, descriptors) {
+  return [...bits([[16, event_id], ...start, [24, duration], [3, 4], [1, 0], [12, descriptors.length]]), ...descriptors];
+}
+
+test('parse_event_information_section reads the events, and extended_event_text joins the extended event descriptors', () => {
+  const extended = (descriptor_number, items, text) => descriptor(0x4E, [
+    descriptor_number << 4 | 1, ...ascii('eng'), items.length, ...items, text.length, ...ascii(text),
+  ]);
+  const EIT = parse_event_information_section(SI_section(0x4E, 0x0101, [
+    0x00, 0x01, 0x22, 0x33, 0x00, 0x4E,
+    ...event(1, start_time, 0x013000, [
+      ...descriptor(0x4D, [...ascii('eng'), 4, ...ascii('Film'), 5, ...ascii('Drama')]),
+      // the item continues in the second descriptor, given first
+      ...extended(1, [0, 1, ...ascii('B')], 'lo'),
+      ...extended(0, [4, ...ascii('Cast'), 1, ...ascii('A')], 'Hel'),
+    ]),
+    ...event(2, [[40, Math.pow(2, 40) - 1]], 0xFFFFFF, []),
+  ]));
+  assert.deepEqual([EIT.service_id, EIT.transport_stream_id, EIT.original_network_id, EIT.last_table_id], [0x0101, 1, 0x2233, 0x4E]);
+  const [first, second] = EIT.events;
+  assert.deepEqual(first.start_time, new Date(Date.UTC(2024, 0, 1, 12, 34, 56)));
+  assert.equal(first.duration, 5400);
+  assert.deepEqual([first.descriptors[0].event_name, first.descriptors[0].text], ['Film', 'Drama']);
+  assert.deepEqual(extended_event_text(first.descriptors, decode_dvb_text, 'eng'), { items: [{ item_description: 'Cast', item: 'AB' }], text: 'Hello' });
+  assert.deepEqual(extended_event_text(first.descriptors, decode_dvb_text, 'fra'), { items: [], text: '' });
+  assert.deepEqual(second, { event_id: 2, running_status: 4, free_CA_mode: 0, descriptors: [] });
+});
+
+test('extended_event_text leaves out an extended event descriptor that could not be decoded', () => {
+  const EIT = parse_event_information_section(SI_section(0x4E, 0x0101, [
+    0x00, 0x01, 0x22, 0x33, 0x00, 0x4E,
+    ...event(1, start_time, 0x013000, [
+      ...descriptor(0x4E, [0x01, ...ascii('eng'), 0, 2, ...ascii('Hi')]),
+      // a descriptor that ends in its ISO_639_language_code
+      ...descriptor(0x4E, [0x11, ...ascii('en')]),
+    ]),
+  ]));
+  const [{ descriptors }] = EIT.events;
+  assert.deepEqual(descriptors[1], { descriptor_tag: 0x4E, descriptor_length: 3, data: Uint8Array.of(0x11, 0x65, 0x6E) });
+  assert.deepEqual(extended_event_text(descriptors, decode_dvb_text), { items: [], text: 'Hi' });
+});
+
+test('the TDT has no CRC_32, and the TOT gives its local time offsets', () => {
+  const TDT = parse_time_date_section(Uint8Array.from([0x70, 0x70, 5, ...bits(start_time)]));
+  assert.deepEqual(TDT, { table_id: 0x70, UTC_time: new Date(Date.UTC(2024, 0, 1, 12, 34, 56)) });
+  // GBR one hour ahead of UTC, changing to UTC at the start time
+  const local_time_offset = descriptor(0x58, [...ascii('GBR'), ...bits([[6, 0], [1, 1], [1, 0], [16, 0x0100], ...start_time, [16, 0x0000]])]);
+  const TOT = section([0x73, 0x70, 0, ...bits(start_time), ...loop(local_time_offset)]);
+  const [{ offsets }] = parse_time_offset_section(TOT).descriptors;
+  assert.deepEqual(offsets, [{
+    country_code: 'GBR', country_region_id: 0, local_time_offset: 60, time_of_change: new Date(Date.UTC(2024, 0, 1, 12, 34, 56)), next_time_offset: 0,
+  }]);
+  TOT[5] ^= 0xFF;
+  assert.throws(() => parse_time_offset_section(TOT), CRCMismatchError);
+});
+
+test('parse_SI yields each section once per version_number, and discards those not yet applicable or with a CRC_32 mismatch', async () => {
+  const SDT = (version_number, current_next_indicator = 1) => SI_section(0x42, 1, [0x22, 0x33, 0xFF, ...service(0x0101, [])], version_number, current_next_indicator);
+  const corrupted = SDT(2);
+  corrupted[9] ^= 0xFF;
+  const sections = await collect(parse_SI(iterate([
+    SDT(0), SDT(0), SDT(1, 0), corrupted, SDT(1), Uint8Array.from([0x70, 0x70, 5, ...bits(start_time)]),
+  ].map((bytes, i) => section_packet(bytes[0] === 0x70 ? 0x14 : 0x11, bytes, i))), dvb_profile));
+  assert.deepEqual(sections.map(({ PID, section }) => [PID, section.table_id, section.version_number]), [
+    [0x11, 0x42, 0], [0x11, 0x42, 1], [0x14, 0x70, undefined],
+  ]);
+});
+
+test('decode_arib_text invokes the graphic sets of the initial state, and those designated by escape sequences', () => {
+  const text = (...bytes) => decode_arib_text(Uint8Array.from(bytes));
+  // kanji in GL and hiragana in GR
+  assert.equal(text(0x30, 0x21, 0xA2, 0xF7), '亜あゝ');
+  // alphanumerics by LS1, full-width unless in middle size, and a space
+  assert.equal(text(0x0E, 0x41, 0x20, 0x89, 0x41, 0x20, 0x5C), 'Ａ　A ¥');
+  // katakana by SS3, the additional symbols, and alphanumerics designated to G0
+  assert.equal(text(0x1D, 0x22, 0x7A, 0x21, 0x1B, 0x28, 0x4A, 0x89, 0x48, 0x69), 'ア⛌Hi');
+  // a DRCS set is given as GETA MARK, and a character repeated by RPC
+  assert.equal(text(0x1B, 0x29, 0x20, 0x41, 0x0E, 0x21, 0x0F, 0x98, 0x43, 0x30, 0x21), '〓亜亜亜');
+});
+
+test('arib_profile gives the BIT, and the EIT of terrestrial broadcasting in JST with ARIB text', async () => {
+  const BIT = SI_section(0xC4, 0x7FE0, [
+    0xE0 | 0x10, 0x00, ...bits([[8, 1], [4, 0xF], [12, 4]]), ...descriptor(0xD8, [0x30, 0x21]),
+  ]);
+  assert.deepEqual(parse_broadcaster_information_section(BIT).broadcasters[0].descriptors[0].broadcaster_name, '亜');
+  const EIT = SI_section(0x4E, 0x0400, [
+    0x7F, 0xE0, 0x7F, 0xE0, 0x00, 0x4E,
+    ...event(1, start_time, 0x003000, descriptor(0x4D, [...ascii('jpn'), 2, 0x30, 0x21, 2, 0xA2, 0xA4])),
+  ]);
+  const sections = await collect(parse_SI(iterate([section_packet(0x24, BIT), section_packet(0x26, EIT)]), arib_profile));
+  assert.deepEqual(sections.map(({ PID, section }) => [PID, section.table_id]), [[0x24, 0xC4], [0x26, 0x4E]]);
+  const [{ start_time: time, duration, descriptors: [short_event] }] = sections[1].section.events;
+  assert.deepEqual(time, new Date(Date.UTC(2024, 0, 1, 3, 34, 56)));
+  assert.equal(duration, 1800);
+  assert.deepEqual([short_event.event_name, short_event.text], ['亜', 'あい']);
+});
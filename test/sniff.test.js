@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { UnrecognizedFormatError, open } from '../dist/open.js';
+import { sniff, sniff_bytes } from '../dist/sniff.js';
+import {
+  ADTS_frame, MPEG_program_end_code, PES_packet, collect, pack_header, padding_packet, reader, transport_stream,
+} from './helpers.js';
+
+test('sniff_bytes gives no format for empty and truncated inputs', () => {
+  assert.deepEqual(sniff_bytes(new Uint8Array()), []);
+  assert.deepEqual(sniff_bytes(Uint8Array.of(0xFF, 0xF1)), []);
+  assert.deepEqual(sniff_bytes(Uint8Array.of(0xFF, 0xF1, 0x50, 0x80, 0x01)), []);
+});
+
+test('open rejects empty and truncated inputs as unrecognized', async () => {
+  await assert.rejects(open(new Uint8Array()), UnrecognizedFormatError);
+  await assert.rejects(open(Uint8Array.of(0xFF, 0xF1, 0x50)), UnrecognizedFormatError);
+});
+
+// an access unit delimiter and filler data of each
+const H264_access_unit = [0, 0, 0, 1, 0x09, 0xF0, 0, 0, 1, 0x0C, 0xFF, 0x80];
+const H265_access_unit = [0, 0, 0, 1, 0x46, 0x01, 0x50, 0, 0, 1, 0x4C, 0x01, 0xFF, 0x80];
+
+function top(bytes) {
+  return sniff_bytes(Uint8Array.from(bytes))[0];
+}
+
+for (const packet_size of [188, 192, 204]) {
+  test(`sniff_bytes takes ${packet_size} byte packets for a transport stream of that packet size`, () => {
+    assert.deepEqual(top(transport_stream(packet_size, 6)), { format: 'mpegts', confidence: 1, packet_size });
+    // after some leading bytes, with the sync byte of the last packet lost
+    const bytes = Uint8Array.from([0, 0, 0, ...transport_stream(packet_size, 6)]);
+    bytes[3 + 5 * packet_size + (packet_size === 192 ? 4 : 0)] = 0;
+    assert.deepEqual(top(bytes), { format: 'mpegts', confidence: 0.9, packet_size });
+    // a short stream of 2 packets
+    assert.deepEqual(top(transport_stream(packet_size, 2)), { format: 'mpegts', confidence: 0.4, packet_size });
+  });
+}
+
+test('sniff_bytes takes a pack header followed by a start code for a program stream', () => {
+  assert.deepEqual(top([...pack_header, ...padding_packet, ...MPEG_program_end_code]), { format: 'mpegps', confidence: 1 });
+  assert.deepEqual(top([...pack_header, 0x12, 0x34, 0x56, 0x78]), { format: 'mpegps', confidence: 0.6 });
+  assert.deepEqual(top(pack_header.slice(0, 10)), { format: 'mpegps', confidence: 0.8 });
+});
+
+test('sniff_bytes takes consecutive PES packets for a PES stream', () => {
+  assert.deepEqual(top([...PES_packet([1, 2, 3]), ...PES_packet([4, 5, 6], 3600)]), { format: 'pes', confidence: 1 });
+  assert.deepEqual(top(PES_packet([1, 2, 3])), { format: 'pes', confidence: 0.8 });
+});
+
+test('sniff_bytes takes SOI followed by a marker for JPEG', () => {
+  assert.deepEqual(top([0xFF, 0xD8, 0xFF, 0xE0, 0x00, 0x10]), { format: 'jpeg', confidence: 1 });
+  assert.deepEqual(top([0xFF, 0xD8, 0x00, 0x00]), { format: 'jpeg', confidence: 0.3 });
+});
+
+test('sniff_bytes tells H.264 and H.265 byte streams apart by their NAL unit types', () => {
+  assert.deepEqual(top(H264_access_unit), { format: 'h264', confidence: 1 });
+  assert.deepEqual(top(H265_access_unit), { format: 'h265', confidence: 1 });
+});
+
+test('sniff_bytes takes ADTS frames of one stream, by how many follow each other', () => {
+  const frame = ADTS_frame([0x21, 0x00, 0x49]);
+  assert.deepEqual(top([...frame, ...frame, ...frame]), { format: 'adts', confidence: 1 });
+  assert.deepEqual(top([...frame, ...frame, 0, 0, 0, 0, 0, 0, 0, 0, 0]), { format: 'adts', confidence: 0.6 });
+});
+
+test('sniff reads the leading bytes without consuming them', async () => {
+  const b = reader(transport_stream(188, 6));
+  assert.equal((await sniff(b))[0].format, 'mpegts');
+  assert.equal(b.tell(), 0);
+});
+
+test('open gives each format to its parser', async () => {
+  const ts = await open(transport_stream(192, 6));
+  assert.equal(ts.format, 'mpegts');
+  assert.equal(ts.packet_size, 192);
+  assert.deepEqual((await collect(ts.packets)).map((packet) => packet.TP_extra_header?.arrival_time_stamp), [0, 0, 0, 0, 0, 0]);
+
+  const ps = await open(Uint8Array.from([...pack_header, ...padding_packet, ...MPEG_program_end_code]));
+  assert.deepEqual((await collect(ps.units)).map((unit) => Object.keys(unit)[0]), ['pack_header', 'PES_packet']);
+
+  const pes = await open(Uint8Array.from([...PES_packet([1, 2, 3]), ...PES_packet([4, 5, 6], 3600)]));
+  assert.deepEqual((await collect(pes.PES_packets)).map((packet) => packet.PTS), [0, 3600]);
+
+  const jpeg = await open(Uint8Array.of(0xFF, 0xD8, 0xFF, 0xD9));
+  assert.deepEqual((await collect(jpeg.segments)).map((segment) => segment.marker), [0xFFD8, 0xFFD9]);
+
+  const h264 = await open(Uint8Array.from(H264_access_unit));
+  assert.deepEqual((await collect(h264.NAL_units)).map((nal_unit) => nal_unit.nal_unit_type), [9, 12]);
+
+  const h265 = await open(Uint8Array.from(H265_access_unit));
+  assert.deepEqual((await collect(h265.NAL_units)).map((nal_unit) => nal_unit.nal_unit_type), [35, 38]);
+
+  const frame = ADTS_frame([0x21, 0x00, 0x49]);
+  const adts = await open(Uint8Array.from([...frame, ...frame, ...frame]));
+  assert.equal((await collect(adts.frames)).length, 3);
+});
+
+test('open takes the given format, and rejects one below min_confidence', async () => {
+  const bytes = Uint8Array.from(PES_packet([1, 2, 3]));
+  assert.equal((await open(bytes, { format: 'pes' })).confidence, 0.8);
+  await assert.rejects(open(bytes, { min_confidence: 0.9 }), UnrecognizedFormatError);
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { test } from 'node:test';
+import { ADTSSynchronizer } from '../dist/formats/aac/adts.js';
+import { serialize_transport_packet } from '../dist/formats/mpeg2/transport_stream.js';
+import {
+  PES_packets, abortable, byte_reader, frames, iterate_readable_stream, to_transform_stream, transport_packets,
+} from '../dist/streams.js';
+import { ADTS_frame, PES_packet, collect } from './helpers.js';
+
+// A transport packet of PID 0x100 of a PES packet of 184 bytes, which is an ADTS frame at a PTS
+function ADTS_packet(PTS, continuity_counter) {
+  return serialize_transport_packet({
+    transport_error_indicator: 0, payload_unit_start_indicator: 1, transport_priority: 0, PID: 0x100,
+    transport_scrambling_control: 0, continuity_counter, data_byte: PES_packet(ADTS_frame(new Uint8Array(163)), PTS),
+  });
+}
+
+const stream = Uint8Array.from([...ADTS_packet(90000, 0), ...ADTS_packet(180000, 1)]);
+
+function readable_stream(chunks) {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+}
+
+const summary = ({ data, PTS, duration }) => ({ length: data.length, PTS, duration });
+
+test('the transforms piped through as TransformStreams give the frames of the bytes of a transport stream', async () => {
+  const readable = readable_stream([stream.subarray(0, 100), stream.subarray(100)])
+    .pipeThrough(to_transform_stream(transport_packets()))
+    .pipeThrough(to_transform_stream(PES_packets()))
+    .pipeThrough(to_transform_stream(frames(0x100, new ADTSSynchronizer())));
+  assert.deepEqual((await collect(iterate_readable_stream(readable))).map(summary), [
+    { length: 170, PTS: 90000, duration: 1920 },
+    { length: 170, PTS: 180000, duration: 1920 },
+  ]);
+});
+
+test('the transforms are stages of a Node.js stream pipeline', async () => {
+  let result;
+  await pipeline(
+    Readable.from([stream.subarray(0, 200), stream.subarray(200)]), transport_packets(), PES_packets(), frames(0x100, new ADTSSynchronizer()),
+    async (source) => {
+      result = await collect(source);
+    },
+  );
+  assert.deepEqual(result.map(summary).map(({ PTS }) => PTS), [90000, 180000]);
+});
+
+test('a TransformStream holds back its source while its consumer does not read, and cancelling it stops the source', async () => {
+  let pulled = 0;
+  let returned = false;
+  const source = Readable.from((async function* () {
+    try {
+      for (let i = 0; i < 1000; i++) {
+        pulled++;
+        yield ADTS_packet(0, i & 0xF);
+      }
+    } finally {
+      returned = true;
+    }
+  })());
+  const readable = ReadableStream.from(source).pipeThrough(to_transform_stream(transport_packets(), { high_water_mark: 1 }));
+  const reader = readable.getReader();
+  assert.equal((await reader.read()).value.PID, 0x100);
+  for (let i = 0; i < 10; i++) await new Promise((resolve) => setImmediate(resolve));
+  assert.ok(pulled < 100, `${pulled} chunks pulled`);
+  await reader.cancel(new Error('enough'));
+  for (let i = 0; i < 10; i++) await new Promise((resolve) => setImmediate(resolve));
+  assert.ok(returned);
+  assert.ok(pulled < 100, `${pulled} chunks pulled`);
+});
+
+test('an error of a transform errors its readable side', async () => {
+  const reason = new Error('transform');
+  const readable = readable_stream([1, 2]).pipeThrough(to_transform_stream(async function* (source) {
+    for await (const value of source) {
+      if (value === 2) throw reason;
+      yield value;
+    }
+  }));
+  const reader = readable.getReader();
+  assert.deepEqual(await reader.read(), { done: false, value: 1 });
+  await assert.rejects(reader.read(), (e) => e === reason);
+});
+
+test('abortable throws the reason of the abort without waiting for the pending value, and stops its source', async () => {
+  let returned = false;
+  const pending = {
+    [Symbol.asyncIterator]: () => ({
+      next: () => new Promise(() => { }),
+      return: async () => {
+        returned = true;
+        return { done: true, value: undefined };
+      },
+    }),
+  };
+  const controller = new AbortController();
+  const reason = new Error('aborted');
+  const iteration = collect(abortable(pending, controller.signal));
+  controller.abort(reason);
+  await assert.rejects(iteration, (e) => e === reason);
+  assert.ok(returned);
+  await assert.rejects(byte_reader(readable_stream([stream]), controller.signal).byte(), (e) => e === reason);
+});
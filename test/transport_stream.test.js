@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { MalformedDataError, UnimplementedReserveError } from '../dist/formats/mpeg2/syntax.js';
+import { detect_packet_size, parse_transport_stream } from '../dist/formats/mpeg2/transport_stream.js';
+import { sniff_bytes } from '../dist/sniff.js';
+import { reader } from './helpers.js';
+
+function sync_bytes(length, positions) {
+  const bytes = new Uint8Array(length);
+  for (const position of positions) bytes[position] = 0x47;
+  return bytes;
+}
+
+test('detect_packet_size prefers the longer run of sync bytes to the earlier one', () => {
+  const bytes = sync_bytes(1244, [10, 198, 386, 574, 762, 20, 224, 428, 632, 836, 1040]);
+  assert.deepEqual(detect_packet_size(bytes), { packet_size: 204, offset: 20 });
+});
+
+test('detect_packet_size requires 2 sync bytes in a short input', () => {
+  assert.equal(detect_packet_size(sync_bytes(300, [0])), undefined);
+  assert.deepEqual(detect_packet_size(sync_bytes(376, [0, 188])), { packet_size: 188, offset: 0 });
+  assert.deepEqual(detect_packet_size(sync_bytes(384, [4, 196])), { packet_size: 192, offset: 0 });
+});
+
+test('sniff_bytes does not take data with a single 0x47 for a transport stream', () => {
+  const results = sniff_bytes(sync_bytes(300, [0]));
+  assert.equal(results.some((result) => result.format === 'mpegts'), false);
+});
+
+// n packets of PID 0x100 of a packet size, with a TP_extra_header of an arrival_time_stamp of 1000 times the packet
+// index, or 16 bytes of parity, as the size needs. garbage is a map from packet indices to the number of bytes of
+// garbage before them.
+function transport_stream(packet_size, n, garbage = {}) {
+  const bytes = [];
+  for (let i = 0; i < n; i++) {
+    bytes.push(...new Array(garbage[i] ?? 0).fill(0x00));
+    if (packet_size === 192) bytes.push((1000 * i) >>> 24, ((1000 * i) >> 16) & 0xFF, ((1000 * i) >> 8) & 0xFF, (1000 * i) & 0xFF);
+    bytes.push(0x47, 0x01, 0x00, 0x10 | (i & 0xF), ...new Array(184).fill(i & 0xFF));
+    if (packet_size === 204) bytes.push(...new Array(16).fill(0x5A));
+  }
+  bytes.push(...new Array(garbage[n] ?? 0).fill(0x00));
+  return bytes;
+}
+
+// The packets of a stream, and the return value after the last
+async function parse(bytes, packet_size, options) {
+  const packets = [];
+  const iterator = parse_transport_stream(reader(bytes), packet_size, options);
+  for (; ;) {
+    const result = await iterator.next();
+    if (result.done) return [packets, result.value];
+    packets.push(result.value);
+  }
+}
+
+function continuity_counters(packets) {
+  return packets.map((packet) => packet.continuity_counter);
+}
+
+function skipped(packets) {
+  return packets.flatMap((packet, index) => packet.bytes_skipped !== undefined ? [[index, packet.bytes_skipped]] : []);
+}
+
+test('parse_transport_stream skips garbage at the start of the stream, and reports it on the first packet', async () => {
+  const [packets, end] = await parse(transport_stream(188, 10, { 0: 50 }));
+  assert.deepEqual(continuity_counters(packets), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  assert.deepEqual(skipped(packets), [[0, 50]]);
+  assert.deepEqual(end, { bytes_skipped: 0 });
+});
+
+test('parse_transport_stream gives the packets before and after garbage in the middle of the stream', async () => {
+  for (const packet_size of [undefined, 188]) {
+    const [packets] = await parse(transport_stream(188, 20, { 3: 50 }), packet_size);
+    assert.deepEqual(continuity_counters(packets), [...Array(16).keys(), 0, 1, 2, 3]);
+    assert.deepEqual(skipped(packets), [[3, 50]]);
+  }
+  const [packets] = await parse(transport_stream(188, 8, { 4: 50 }));
+  assert.deepEqual(continuity_counters(packets), [0, 1, 2, 3, 4, 5, 6, 7]);
+  assert.deepEqual(skipped(packets), [[4, 50]]);
+});
+
+test('parse_transport_stream gives the packets after garbage near the end of the stream', async () => {
+  const [packets, end] = await parse(transport_stream(188, 20, { 18: 50 }));
+  assert.equal(packets.length, 20);
+  assert.deepEqual(skipped(packets), [[18, 50]]);
+  assert.deepEqual(end, { bytes_skipped: 0 });
+});
+
+test('parse_transport_stream reports the bytes skipped after the last packet in its return value', async () => {
+  const [packets, end] = await parse(transport_stream(188, 20, { 20: 30 }));
+  assert.equal(packets.length, 20);
+  assert.deepEqual(end, { bytes_skipped: 30 });
+  const [truncated, truncated_end] = await parse(transport_stream(188, 3).slice(0, 2 * 188 + 100));
+  assert.equal(truncated.length, 2);
+  assert.deepEqual(truncated_end, { bytes_skipped: 100 });
+});
+
+test('parse_transport_stream gives a stream of a single packet', async () => {
+  const [packets] = await parse(transport_stream(188, 1));
+  assert.deepEqual(continuity_counters(packets), [0]);
+  assert.equal(packets[0].PID, 0x100);
+});
+
+test('parse_transport_stream skips the Reed-Solomon parity of 204 byte packets', async () => {
+  const [packets, end] = await parse(transport_stream(204, 12, { 6: 20 }));
+  assert.deepEqual(continuity_counters(packets), [...Array(12).keys()]);
+  assert.deepEqual(skipped(packets), [[6, 20]]);
+  assert.deepEqual(packets[11].data_byte, new Uint8Array(184).fill(11));
+  assert.deepEqual(end, { bytes_skipped: 0 });
+});
+
+test('parse_transport_stream gives the TP_extra_header of 192 byte packets', async () => {
+  const [packets] = await parse(transport_stream(192, 12, { 0: 7 }));
+  assert.deepEqual(packets.map((packet) => packet.TP_extra_header.arrival_time_stamp), Array.from({ length: 12 }, (_, i) => 1000 * i));
+  assert.deepEqual(packets[0].TP_extra_header, { copy_permission_indicator: 0, arrival_time_stamp: 0 });
+  assert.deepEqual(skipped(packets), [[0, 7]]);
+});
+
+// The stream of transport_stream(188, n) with packet i replaced by the adaptation field and 1 byte of payload of PID
+// 0x101, of an adaptation_field_length past the payload in lenient mode
+function with_adaptation_field(n, i, adaptation_field) {
+  const bytes = transport_stream(188, n);
+  bytes.splice(188 * i, 188, 0x47, 0x01, 0x01, 0x30, ...adaptation_field, ...new Array(184 - adaptation_field.length).fill(0));
+  return bytes;
+}
+
+// An adaptation_field_length of 183, 1 over the field, of which the flags call for private data of 255 bytes
+const overlong_adaptation_field = [183, 0x02, 0xFF, ...new Array(181).fill(0xFF)];
+
+test('parse_transport_stream throws on a violation in strict mode, with its clause, field, PID and offset', async () => {
+  const bytes = with_adaptation_field(10, 2, overlong_adaptation_field);
+  await assert.rejects(parse(bytes), (e) => {
+    assert.ok(e instanceof MalformedDataError);
+    assert.deepEqual(e.diagnostic, {
+      clause: '2.4.3.4', field: 'adaptation_field_length', message: 'adaptation_field_length 183 exceeds 182', PID: 0x101,
+      byte_offset: 2 * 188 + 4, bit_offset: (2 * 188 + 4) * 8,
+    });
+    assert.match(e.message, /\(2\.4\.3\.4 adaptation_field_length, PID 0x0101, byte 380\)/);
+    return true;
+  });
+});
+
+test('parse_transport_stream drops a packet that cannot be parsed in lenient mode, with one warning', async () => {
+  const warnings = [];
+  const options = { mode: 'lenient', on_warning: (warning) => warnings.push(warning) };
+  const [packets, end] = await parse(with_adaptation_field(10, 2, overlong_adaptation_field), undefined, options);
+  assert.deepEqual(continuity_counters(packets), [0, 1, 3, 4, 5, 6, 7, 8, 9]);
+  assert.deepEqual(skipped(packets), []);
+  assert.deepEqual(end, { bytes_skipped: 0 });
+  assert.deepEqual(warnings.map(({ clause, field, PID, packet_index, byte_offset }) => ({ clause, field, PID, packet_index, byte_offset })), [
+    { clause: '2.4.3.4', field: 'adaptation_field_length', PID: 0x101, packet_index: 2, byte_offset: 2 * 188 + 4 },
+  ]);
+});
+
+test('parse_transport_stream keeps a packet with a violation it can read past in lenient mode, with its packet_index', async () => {
+  // a PCR with its reserved bits set to 0
+  const warnings = [];
+  const options = { mode: 'lenient', on_warning: (warning) => warnings.push(warning) };
+  const [packets] = await parse(with_adaptation_field(10, 7, [7, 0x10, 0, 0, 0, 0, 0x00, 0x00]), undefined, options);
+  assert.equal(packets.length, 10);
+  assert.deepEqual(packets[7].adaptation_field.program_clock_reference_base, 0);
+  assert.deepEqual(warnings.map(({ field, PID, packet_index }) => ({ field, PID, packet_index })), [
+    { field: 'reserved', PID: 0x101, packet_index: 7 },
+  ]);
+  await assert.rejects(parse(with_adaptation_field(10, 7, [7, 0x10, 0, 0, 0, 0, 0x00, 0x00])), UnimplementedReserveError);
+});
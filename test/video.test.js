@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  VideoStructure, display_aspect_ratio, parse_video_stream, parse_video_unit, profile_and_level, time_code_text,
+} from '../dist/formats/mpeg2/video.js';
+import { bits, collect, iterate } from './helpers.js';
+
+const matrix = (first) => Array.from({ length: 64 }, (_, i) => [8, first + i]);
+
+// A sequence header of 1920x1080, 16:9, 29.97 Hz, 20 Mbit/s and the given quantiser matrices
+function sequence_header(intra_quantiser_matrix, non_intra_quantiser_matrix) {
+  return [0xB3, ...bits([
+    [12, 1920], [12, 1080], [4, 3], [4, 4], [18, 50000], [1, 1], [10, 112], [1, 0],
+    [1, intra_quantiser_matrix ? 1 : 0], ...(intra_quantiser_matrix ?? []),
+    [1, non_intra_quantiser_matrix ? 1 : 0], ...(non_intra_quantiser_matrix ?? []),
+  ])];
+}
+
+// A sequence extension of 4:2:0 with the given profile_and_level_indication
+function sequence_extension(profile_and_level_indication, progressive_sequence = 0) {
+  return [0xB5, ...bits([
+    [4, 1], [8, profile_and_level_indication], [1, progressive_sequence], [2, 1], [2, 0], [2, 0], [12, 0], [1, 1], [8, 0],
+    [1, 0], [2, 0], [5, 0],
+  ])];
+}
+
+function sequence_display_extension(display_horizontal_size, display_vertical_size) {
+  return [0xB5, ...bits([[4, 2], [3, 5], [1, 1], [8, 1], [8, 1], [8, 1], [14, display_horizontal_size], [1, 1], [14, display_vertical_size]])];
+}
+
+function group_of_pictures_header(drop_frame_flag, closed_gop = 1) {
+  return [0xB8, ...bits([[1, drop_frame_flag], [5, 1], [6, 2], [1, 1], [6, 3], [6, 4], [1, closed_gop], [1, 0]])];
+}
+
+function picture_header(picture_coding_type) {
+  return [0x00, ...bits([
+    [10, 0], [3, picture_coding_type], [16, 0xFFFF], ...(picture_coding_type >= 2 ? [[1, 0], [3, 7]] : []),
+    ...(picture_coding_type === 3 ? [[1, 0], [3, 7]] : []), [1, 0],
+  ])];
+}
+
+function picture_coding_extension(picture_structure, { top_field_first = 0, repeat_first_field = 0, progressive_frame = 0 } = {}) {
+  return [0xB5, ...bits([
+    [4, 8], [4, 15], [4, 15], [4, 15], [4, 15], [2, 0], [2, picture_structure], [1, top_field_first], [1, 0], [1, 0],
+    [1, 0], [1, 0], [1, 0], [1, repeat_first_field], [1, 0], [1, progressive_frame], [1, 0],
+  ])];
+}
+
+// The elementary stream of units, each after a start code prefix
+function video_stream(units) {
+  return Uint8Array.from(units.flatMap((unit) => [0x00, 0x00, 0x01, ...unit]));
+}
+
+async function structure(units) {
+  const video = new VideoStructure();
+  for await (const unit of parse_video_stream(iterate([video_stream(units)]))) video.push(unit);
+  return video.result();
+}
+
+test('a sequence header keeps the quantiser matrices it loads', () => {
+  const unit = parse_video_unit(Uint8Array.from(sequence_header(matrix(8), matrix(16))));
+  assert.deepEqual(unit.sequence_header.intra_quantiser_matrix, Uint8Array.from(matrix(8), ([, value]) => value));
+  assert.deepEqual(unit.sequence_header.non_intra_quantiser_matrix, Uint8Array.from(matrix(16), ([, value]) => value));
+  const non_intra = parse_video_unit(Uint8Array.from(sequence_header(undefined, matrix(16)))).sequence_header;
+  assert.equal(non_intra.intra_quantiser_matrix, undefined);
+  assert.equal(non_intra.non_intra_quantiser_matrix[63], 16 + 63);
+  assert.equal(non_intra.constrained_parameters_flag, false);
+});
+
+test('the sequence extension and sequence display extension give the MPEG-2 sequence parameters', async () => {
+  const units = await collect(parse_video_stream(iterate([video_stream([
+    sequence_header(), sequence_extension(0x44), sequence_display_extension(1440, 1080),
+  ])])));
+  const [{ sequence_header: header }, { sequence_extension: extension }, { sequence_display_extension: display }] = units;
+  assert.equal(extension.chroma_format, 1);
+  assert.deepEqual(display, {
+    video_format: 5, colour_primaries: 1, transfer_characteristics: 1, matrix_coefficients: 1,
+    display_horizontal_size: 1440, display_vertical_size: 1080,
+  });
+  assert.equal(display_aspect_ratio({ ...header, aspect_ratio_information: 1 }, extension, display), 1440 / 1080);
+  assert.equal(display_aspect_ratio(header, extension, display), 16 / 9);
+  const result = await structure([sequence_header(), sequence_extension(0x44), sequence_display_extension(1440, 1080)]);
+  assert.deepEqual(result, {
+    MPEG: 2, width: 1920, height: 1080, display_aspect_ratio: 16 / 9, frame_rate: 30000 / 1001, bit_rate: 20_000_000,
+    vbv_buffer_size: 112 * 16 * 1024, chroma_format: '4:2:0', profile_and_level: 'Main@High', progressive_sequence: false,
+    low_delay: false, frames: 0, repeat_first_field: 0, GOPs: 0, closed_GOPs: 0,
+  });
+});
+
+test('the time_code of a GOP header is given with a semicolon where it is in drop frame', () => {
+  const drop_frame = parse_video_unit(Uint8Array.from(group_of_pictures_header(1))).group_of_pictures_header;
+  assert.equal(time_code_text(drop_frame), '01:02:03;04');
+  assert.equal(time_code_text({ ...drop_frame, drop_frame_flag: false }), '01:02:03:04');
+});
+
+test('a frame coded as two field pictures is counted once in the GOP pattern', async () => {
+  const result = await structure([
+    sequence_header(), sequence_extension(0x48), group_of_pictures_header(0),
+    picture_header(1), picture_coding_extension(1), picture_header(2), picture_coding_extension(2),
+    picture_header(3), picture_coding_extension(3, { top_field_first: 1, repeat_first_field: 1 }),
+    group_of_pictures_header(0, 0), picture_header(1), picture_coding_extension(1), picture_header(1), picture_coding_extension(2),
+  ]);
+  assert.equal(result.GOP_pattern, 'IB');
+  assert.equal(result.max_GOP_length, 2);
+  assert.equal(result.frames, 3);
+  assert.equal(result.repeat_first_field, 1);
+  assert.equal(result.GOPs, 2);
+  assert.equal(result.closed_GOPs, 1);
+  assert.equal(result.time_code, '01:02:03:04');
+  assert.equal(result.field_order, 'top_field_first');
+});
+
+test('the field order is of the first field of each frame', async () => {
+  const frames = (...extensions) => extensions.flatMap((extension) => [picture_header(1), extension]);
+  const head = [sequence_header(), sequence_extension(0x48)];
+  const field_order = async (...extensions) => (await structure([...head, ...frames(...extensions)])).field_order;
+  assert.equal(await field_order(picture_coding_extension(3, { top_field_first: 1 }), picture_coding_extension(3)), 'mixed');
+  assert.equal(await field_order(picture_coding_extension(2), picture_coding_extension(1), picture_coding_extension(3)), 'bottom_field_first');
+  assert.equal(await field_order(picture_coding_extension(3, { top_field_first: 1, progressive_frame: 1 })), 'progressive');
+  assert.equal(await field_order(
+    picture_coding_extension(3, { top_field_first: 1 }), picture_coding_extension(3, { progressive_frame: 1 }),
+  ), 'top_field_first');
+});
+
+test('profile_and_level gives the escaped profiles and levels, and undefined where they are reserved', () => {
+  const indication = (profile_and_level_indication) => profile_and_level({ profile_and_level_indication });
+  assert.equal(indication(0x85), '4:2:2@Main');
+  assert.equal(indication(0x82), '4:2:2@High');
+  assert.equal(indication(0x8E), 'Multi-view@Low');
+  assert.equal(indication(0x80), undefined);
+  assert.equal(indication(0x58), 'Simple@Main');
+  assert.equal(indication(0x49), undefined);
+  assert.equal(indication(0x08), undefined);
+});